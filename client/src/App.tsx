@@ -15,6 +15,7 @@ import SettingsLayout from "@/components/layout/settings/SettingsLayout";
 // Visitor + Auth
 const VisitorHome = lazy(() => import("@/pages/visitor/home"));
 const Login = lazy(() => import("@/pages/auth/login"));
+const ClassLogin = lazy(() => import("@/pages/auth/class-login"));
 const Register = lazy(() => import("@/pages/auth/register"));
 const VerifyEmail = lazy(() => import("@/pages/auth/verify-email"));
 const ForgotPassword = lazy(() => import("@/pages/auth/forgot-password"));
@@ -34,6 +35,7 @@ const TeacherStudents = lazy(() => import("@/pages/teacher/students"));
 const TeacherBooks = lazy(() => import("@/pages/teacher/books"));
 const TeacherEditBook = lazy(() => import("@/pages/teacher/TeacherEditBook"));
 const TeacherBookDetails = lazy(() => import("@/pages/teacher/TeacherBookDetails"));
+const TeacherAssignments = lazy(() => import("@/pages/teacher/assignments"));
 // Student
 const StudentDashboard = lazy(() => import("@/pages/student/dashboard"));
 const Storybooks = lazy(() => import("@/pages/student/storybooks"));
@@ -49,6 +51,9 @@ const EducationalBooks = lazy(() => import("@/pages/student/educational-books"))
 const ReadStorybook = lazy(() => import("@/pages/student/read-storybook"));
 const ReadEducationalBook = lazy(() => import("@/pages/student/read-educational-book"));
 const Progress = lazy(() => import("@/pages/student/progress"));
+// Parent
+const ParentDashboard = lazy(() => import("@/pages/parent/dashboard"));
+const ParentChildProgress = lazy(() => import("@/pages/parent/child-progress"));
 // Misc
 const NotFound = lazy(() => import("@/pages/not-found"));
 
@@ -70,6 +75,7 @@ function Router() {
       
       {/* Auth pages */}
       <Route path="/login" component={Login} />
+      <Route path="/login/class/:code?" component={ClassLogin} />
       <Route path="/register" component={Register} />
       <Route path="/auth/login" component={Login} />
       <Route path="/verify-email" component={VerifyEmail} />
@@ -155,6 +161,11 @@ function Router() {
           <TeacherBookDetails />
         </ProtectedRoute>
       </Route>
+      <Route path="/teacher/assignments">
+        <ProtectedRoute role="teacher">
+          <TeacherAssignments />
+        </ProtectedRoute>
+      </Route>
       <Route path="/teacher/settings">
         <ProtectedRoute role="teacher">
           <SettingsLayout userRole="teacher" />
@@ -221,6 +232,23 @@ function Router() {
         </ProtectedRoute>
       </Route>
       
+      {/* Parent routes (read-only) */}
+      <Route path="/parent">
+        <ProtectedRoute role="parent">
+          <ParentDashboard />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/parent/children/:id">
+        <ProtectedRoute role="parent">
+          <ParentChildProgress />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/parent/settings">
+        <ProtectedRoute role="parent">
+          <SettingsLayout userRole="parent" />
+        </ProtectedRoute>
+      </Route>
+
       {/* Fallback to 404 */}
       <Route component={NotFound} />
     </Switch>
@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Megaphone, Pin, Wrench, ChevronDown, ChevronUp, CheckCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { RichText } from "@/components/RichText";
+import { apiRequest } from "@/lib/queryClient";
+
+// == ANNOUNCEMENTS FEED ==
+// Live announcements for the signed-in user (school, role, grade or class),
+// pinned first. Opening one marks it read. Used on the student and teacher
+// dashboards; renders nothing when there is nothing to show.
+
+export type FeedAnnouncement = {
+  id: number;
+  title: string;
+  body: string;
+  kind: "general" | "maintenance";
+  pinned: boolean;
+  publishAt: string;
+  expiresAt: string | null;
+  read: boolean;
+  createdBy: { id: number; firstName: string; lastName: string; role: string } | null;
+  class: { id: number; name: string } | null;
+};
+
+type FeedResponse = { announcements: FeedAnnouncement[]; unread: number };
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+
+export function AnnouncementsFeed({ className = "" }: { className?: string }) {
+  const queryClient = useQueryClient();
+  const [openId, setOpenId] = useState<number | null>(null);
+
+  const { data } = useQuery<FeedResponse>({
+    queryKey: ["announcements-feed"],
+    queryFn: () => apiRequest("GET", "/api/announcements/feed"),
+  });
+
+  const markRead = async (ids?: number[]) => {
+    try {
+      await apiRequest("POST", "/api/announcements/read", ids ? { ids } : {});
+      queryClient.invalidateQueries({ queryKey: ["announcements-feed"] });
+    } catch (err) {
+      console.error("Failed to mark announcements read:", err);
+    }
+  };
+
+  const toggle = (a: FeedAnnouncement) => {
+    const opening = openId !== a.id;
+    setOpenId(opening ? a.id : null);
+    if (opening && !a.read) markRead([a.id]);
+  };
+
+  const announcements = data?.announcements ?? [];
+  const unread = data?.unread ?? 0;
+  if (!announcements.length) return null;
+
+  return (
+    <div className={`border-4 md:border-8 border-brand-gold-200 shadow-lg bg-white rounded-2xl p-4 md:p-6 ${className}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div className="flex items-center">
+          <Megaphone className="h-7 w-7 text-ilaw-gold mr-3" />
+          <h2 className="text-xl md:text-2xl font-sans font-bold text-ilaw-navy">Announcements</h2>
+          {unread > 0 && (
+            <span className="ml-3 text-xs font-bold px-2 py-0.5 rounded-full bg-red-500 text-white">
+              {unread} new
+            </span>
+          )}
+        </div>
+        {unread > 0 && (
+          <Button variant="outline" size="sm" onClick={() => markRead()} className="border-brand-gold-300 text-ilaw-navy">
+            <CheckCheck className="h-4 w-4 mr-1" />
+            Mark all as read
+          </Button>
+        )}
+      </div>
+
+      <ul className="space-y-2">
+        {announcements.map((a) => {
+          const open = openId === a.id;
+          return (
+            <li
+              key={a.id}
+              className={`rounded-xl border-2 ${
+                a.read ? "border-brand-navy-100 bg-white" : "border-ilaw-gold bg-brand-gold-50"
+              }`}
+            >
+              <button
+                type="button"
+                onClick={() => toggle(a)}
+                className="w-full flex items-start justify-between gap-3 p-3 text-left"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    {!a.read && <span className="h-2 w-2 rounded-full bg-red-500 flex-shrink-0" aria-label="Unread" />}
+                    {a.pinned && <Pin className="h-4 w-4 text-ilaw-gold flex-shrink-0" />}
+                    {a.kind === "maintenance" && <Wrench className="h-4 w-4 text-amber-600 flex-shrink-0" />}
+                    <span className={`text-ilaw-navy truncate ${a.read ? "font-medium" : "font-bold"}`}>{a.title}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    {formatDate(a.publishAt)}
+                    {a.createdBy ? ` · ${a.createdBy.firstName} ${a.createdBy.lastName}` : ""}
+                    {a.class ? ` · ${a.class.name}` : ""}
+                  </p>
+                </div>
+                {open ? (
+                  <ChevronUp className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                ) : (
+                  <ChevronDown className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                )}
+              </button>
+              {open && <RichText text={a.body} className="px-3 pb-3 text-sm text-gray-700" />}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+export default AnnouncementsFeed;
@@ -1,17 +1,29 @@
 import { Wrench, Clock } from 'lucide-react';
+import { useMaintenanceMode } from '@/contexts/MaintenanceContext';
+import { RichText } from '@/components/RichText';
 
 export function MaintenancePage() {
+  // an admin's maintenance announcement, if one is live, replaces the default text
+  const { notice } = useMaintenanceMode();
+  const until = notice?.expiresAt
+    ? new Date(notice.expiresAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+    : null;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-ilaw-navy to-ilaw-gold flex items-center justify-center p-4">
       <div className="bg-white rounded-lg shadow-2xl p-8 max-w-md w-full text-center">
         <div className="mb-6">
           <Wrench className="w-16 h-16 text-ilaw-gold mx-auto mb-4" />
           <h1 className="text-2xl font-bold text-ilaw-navy mb-2">
-            Site Under Maintenance
+            {notice?.title || 'Site Under Maintenance'}
           </h1>
-          <p className="text-gray-600">
-            We're currently performing scheduled maintenance to improve your experience.
-          </p>
+          {notice ? (
+            <RichText text={notice.body} className="text-gray-600" />
+          ) : (
+            <p className="text-gray-600">
+              We're currently performing scheduled maintenance to improve your experience.
+            </p>
+          )}
         </div>
         
         <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6">
@@ -20,7 +32,7 @@ export function MaintenancePage() {
             <span className="text-amber-800 font-medium">Expected Duration</span>
           </div>
           <p className="text-amber-700 text-sm">
-            Maintenance typically takes 15-30 minutes
+            {until ? `We expect to be back by ${until}` : 'Maintenance typically takes 15-30 minutes'}
           </p>
         </div>
 
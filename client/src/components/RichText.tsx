@@ -0,0 +1,70 @@
+import { Fragment, type ReactNode } from "react";
+
+// == RICH TEXT ==
+// Renders the light markdown used by announcements: paragraphs (blank line),
+// line breaks, "- " bullet lists, **bold**, *italic* and [links](https://...).
+// Everything else is shown as plain text — no HTML is ever injected.
+
+const INLINE = /\*\*(.+?)\*\*|\*(.+?)\*|\[([^\]]+)\]\(([^)\s]+)\)/g;
+const SAFE_URL = /^(https?:\/\/|mailto:)/i;
+
+function renderInline(text: string, keyPrefix: string): ReactNode[] {
+  const out: ReactNode[] = [];
+  let last = 0;
+  let i = 0;
+  for (const m of Array.from(text.matchAll(INLINE))) {
+    const start = m.index ?? 0;
+    if (start > last) out.push(text.slice(last, start));
+    const key = `${keyPrefix}-${i++}`;
+    if (m[1] !== undefined) {
+      out.push(<strong key={key}>{renderInline(m[1], key)}</strong>);
+    } else if (m[2] !== undefined) {
+      out.push(<em key={key}>{renderInline(m[2], key)}</em>);
+    } else if (SAFE_URL.test(m[4])) {
+      out.push(
+        <a key={key} href={m[4]} target="_blank" rel="noopener noreferrer" className="underline text-blue-700">
+          {m[3]}
+        </a>
+      );
+    } else {
+      out.push(m[0]);
+    }
+    last = start + m[0].length;
+  }
+  if (last < text.length) out.push(text.slice(last));
+  return out;
+}
+
+const isBullet = (line: string) => /^\s*[-*]\s+/.test(line);
+
+export function RichText({ text, className = "" }: { text: string; className?: string }) {
+  const blocks = text.replace(/\r\n/g, "\n").split(/\n{2,}/).filter((b) => b.trim());
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {blocks.map((block, b) => {
+        const lines = block.split("\n");
+        if (lines.every(isBullet)) {
+          return (
+            <ul key={b} className="list-disc pl-5 space-y-1">
+              {lines.map((line, l) => (
+                <li key={l}>{renderInline(line.replace(/^\s*[-*]\s+/, ""), `${b}-${l}`)}</li>
+              ))}
+            </ul>
+          );
+        }
+        return (
+          <p key={b}>
+            {lines.map((line, l) => (
+              <Fragment key={l}>
+                {l > 0 && <br />}
+                {renderInline(line, `${b}-${l}`)}
+              </Fragment>
+            ))}
+          </p>
+        );
+      })}
+    </div>
+  );
+}
+
+export default RichText;
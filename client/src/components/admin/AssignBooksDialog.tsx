@@ -0,0 +1,229 @@
+// == ASSIGN BOOKS ==
+// Assign the chosen books to a class and/or individual students with an
+// optional due date and completion rules. Teachers can only pick their own
+// classes and students (enforced on the server). Used on the teacher books page.
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { ClipboardList, Loader2, Search } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+
+type BookOption = { id: number; title: string };
+
+type AssignBooksDialogProps = {
+  books: BookOption[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAssigned?: () => void;
+};
+
+type StudentOption = { id: number; firstName: string; lastName: string; username: string; gradeLevel: string | null };
+
+const fieldClass =
+  "w-full px-3 py-2 border-2 border-brand-navy-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-ilaw-gold bg-white text-ilaw-navy text-sm";
+
+export function AssignBooksDialog({ books, open, onOpenChange, onAssigned }: AssignBooksDialogProps) {
+  const queryClient = useQueryClient();
+  const [busy, setBusy] = useState(false);
+  const [classId, setClassId] = useState("");
+  const [studentIds, setStudentIds] = useState<number[]>([]);
+  const [search, setSearch] = useState("");
+  const [title, setTitle] = useState("");
+  const [note, setNote] = useState("");
+  const [dueAt, setDueAt] = useState("");
+  const [minPercent, setMinPercent] = useState("100");
+  const [minQuizScore, setMinQuizScore] = useState("");
+
+  const { data: classesData } = useQuery<{ classes: { id: number; name: string }[] }>({
+    queryKey: ["classes", false],
+    queryFn: () => apiRequest("GET", "/api/classes"),
+    enabled: open,
+  });
+
+  const { data: studentsData, isLoading: studentsLoading } = useQuery<{ students: StudentOption[] }>({
+    queryKey: ["/api/students", "approved", "all", search, "all"],
+    queryFn: () => {
+      const params = new URLSearchParams({ status: "approved" });
+      if (search.trim()) params.append("search", search.trim());
+      return apiRequest("GET", `/api/students?${params.toString()}`);
+    },
+    enabled: open,
+  });
+
+  const reset = () => {
+    setClassId("");
+    setStudentIds([]);
+    setSearch("");
+    setTitle("");
+    setNote("");
+    setDueAt("");
+    setMinPercent("100");
+    setMinQuizScore("");
+  };
+
+  const toggleStudent = (id: number) =>
+    setStudentIds((prev) => (prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]));
+
+  const submit = async () => {
+    setBusy(true);
+    try {
+      await apiRequest("POST", "/api/assignments", {
+        bookIds: books.map((b) => b.id),
+        classId: classId ? Number(classId) : null,
+        studentIds,
+        title: title.trim() || undefined,
+        note: note.trim() || undefined,
+        // end of the chosen day, local time
+        dueAt: dueAt ? new Date(`${dueAt}T23:59:59`).toISOString() : null,
+        minPercent: Number(minPercent) || 100,
+        minQuizScore: minQuizScore === "" ? null : Number(minQuizScore),
+      });
+      toast({ title: "Assignment created", description: `${books.length} book${books.length === 1 ? "" : "s"} assigned` });
+      queryClient.invalidateQueries({ queryKey: ["assignments"] });
+      reset();
+      onAssigned?.();
+      onOpenChange(false);
+    } catch (err: any) {
+      toast({ title: "Error", description: err?.message || "Failed to assign", variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const classes = classesData?.classes ?? [];
+  const students = studentsData?.students ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-auto bg-white border-2 border-brand-gold-200">
+        <DialogHeader>
+          <DialogTitle className="text-ilaw-navy flex items-center">
+            <ClipboardList className="h-5 w-5 mr-2 text-ilaw-gold" />
+            Assign {books.length === 1 ? "book" : `${books.length} books`}
+          </DialogTitle>
+          <DialogDescription>{books.map((b) => b.title).join(", ")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <label className="text-sm font-bold text-ilaw-navy">Class</label>
+            <select value={classId} onChange={(e) => setClassId(e.target.value)} className={fieldClass}>
+              <option value="">No class (only the students below)</option>
+              {classes.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="text-sm font-bold text-ilaw-navy">
+              Individual students {studentIds.length ? `(${studentIds.length})` : ""}
+            </label>
+            <div className="relative my-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search your students"
+                className="pl-9"
+              />
+            </div>
+            {studentsLoading ? (
+              <div className="flex justify-center py-3 text-gray-500">
+                <Loader2 className="h-5 w-5 animate-spin" />
+              </div>
+            ) : students.length === 0 ? (
+              <p className="text-sm text-gray-500">No students found.</p>
+            ) : (
+              <ul className="max-h-40 overflow-auto space-y-1 border rounded-lg p-2">
+                {students.map((s) => (
+                  <li key={s.id}>
+                    <label className="flex items-center gap-2 p-1 rounded hover:bg-brand-gold-50 cursor-pointer">
+                      <Checkbox checked={studentIds.includes(s.id)} onCheckedChange={() => toggleStudent(s.id)} />
+                      <span className="text-sm text-ilaw-navy">
+                        {s.firstName} {s.lastName}
+                      </span>
+                      <span className="text-xs text-gray-500">@{s.username}</span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div>
+              <label className="text-sm font-bold text-ilaw-navy">Due date</label>
+              <input type="date" value={dueAt} onChange={(e) => setDueAt(e.target.value)} className={fieldClass} />
+            </div>
+            <div>
+              <label className="text-sm font-bold text-ilaw-navy">Read at least</label>
+              <select value={minPercent} onChange={(e) => setMinPercent(e.target.value)} className={fieldClass}>
+                {[25, 50, 75, 100].map((p) => (
+                  <option key={p} value={p}>
+                    {p}%
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-sm font-bold text-ilaw-navy">Quiz score</label>
+              <select value={minQuizScore} onChange={(e) => setMinQuizScore(e.target.value)} className={fieldClass}>
+                <option value="">Not required</option>
+                {[50, 60, 70, 75, 80, 90, 100].map((p) => (
+                  <option key={p} value={p}>
+                    At least {p}%
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="text-sm font-bold text-ilaw-navy">Title (optional)</label>
+            <Input value={title} onChange={(e) => setTitle(e.target.value)} maxLength={150} placeholder="e.g. Week 3 reading" />
+          </div>
+          <div>
+            <label className="text-sm font-bold text-ilaw-navy">Note to students (optional)</label>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={1000}
+              rows={2}
+              className={fieldClass}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={busy}>
+            Cancel
+          </Button>
+          <Button
+            onClick={submit}
+            disabled={busy || !books.length || (!classId && !studentIds.length)}
+            className="bg-ilaw-gold hover:bg-brand-amber text-ilaw-navy font-bold"
+          >
+            {busy && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Assign
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default AssignBooksDialog;
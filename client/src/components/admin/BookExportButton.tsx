@@ -0,0 +1,56 @@
+// == BOOK PACKAGE EXPORT ==
+// Downloads a book as a package (.zip) to import on another deployment or at
+// a sister school: either with its pictures and audio inside, or with links to
+// them only (smaller; the importing site copies them from here). Used on the
+// admin and teacher book pages.
+import { useState } from "react";
+import { Download, Link2, Loader2, Package } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { downloadFile } from "@/lib/download";
+import { toast } from "@/hooks/use-toast";
+
+type BookExportButtonProps = { bookId: number; className?: string };
+
+export function BookExportButton({ bookId, className }: BookExportButtonProps) {
+  const [busy, setBusy] = useState(false);
+
+  const exportBook = async (media: "files" | "manifest") => {
+    setBusy(true);
+    try {
+      await downloadFile(`/api/books/${bookId}/package?media=${media}`, `book-${bookId}.zip`);
+    } catch (err: any) {
+      toast({ title: "Export failed", description: err?.message || "Request failed", variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={busy} className={className}>
+          {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Package className="h-4 w-4 mr-2" />}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => exportBook("files")}>
+          <Download className="h-4 w-4 mr-2" />
+          With pictures and audio
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportBook("manifest")}>
+          <Link2 className="h-4 w-4 mr-2" />
+          Links to media only
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+export default BookExportButton;
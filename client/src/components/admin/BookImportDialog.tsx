@@ -0,0 +1,289 @@
+// == BOOK PACKAGE IMPORT ==
+// Upload a book package (.zip exported from this or another deployment) ->
+// preview (validation, conflicts) -> import as a draft owned by the user.
+// A title clash blocks the import until the book gets another title here.
+// Used on the admin and teacher book lists.
+import { useState } from "react";
+import { Link } from "wouter";
+import { AlertCircle, AlertTriangle, BookOpen, CheckCircle, Loader2, PackageOpen, Upload } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { csrfHeaders } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+
+type Conflict = { type: "title" | "slug" | "badge" | "media"; message: string; blocking: boolean };
+type Issue = { path: string; message: string };
+
+type PreviewResponse = {
+  title: string;
+  type: "storybook" | "educational";
+  grade: string | null;
+  subject: string | null;
+  exportedAt: string | null;
+  pages: number;
+  questions: number;
+  chapters: number;
+  badges: number;
+  media: { bundled: number; linked: number };
+  slug: string;
+  conflicts: Conflict[];
+};
+
+type ImportResponse = { book: { id: number; title: string }; conflicts: Conflict[] };
+
+type BookImportDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bookHref: (id: number) => string; // where "Open book" goes
+  onImported?: () => void; // e.g. refresh the book list
+};
+
+class PackageError extends Error {
+  constructor(message: string, public issues: Issue[] = []) {
+    super(message);
+  }
+}
+
+// multipart, so not apiRequest (which always sends JSON)
+async function postPackage<T>(url: string, file: File, title: string): Promise<T> {
+  const fd = new FormData();
+  fd.append("package", file);
+  if (title.trim()) fd.append("title", title.trim());
+  const res = await fetch(url, { method: "POST", credentials: "include", headers: csrfHeaders("POST"), body: fd });
+  const body = await res.json().catch(() => null);
+  if (!res.ok) throw new PackageError(body?.message || res.statusText || "Request failed", body?.issues ?? []);
+  return body as T;
+}
+
+export function BookImportDialog({ open, onOpenChange, bookHref, onImported }: BookImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [title, setTitle] = useState("");
+  const [preview, setPreview] = useState<PreviewResponse | null>(null);
+  const [issues, setIssues] = useState<Issue[]>([]);
+  const [imported, setImported] = useState<ImportResponse | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setTitle("");
+    setPreview(null);
+    setIssues([]);
+    setImported(null);
+  };
+
+  const fail = (err: any) => {
+    setIssues(err instanceof PackageError ? err.issues : []);
+    toast({ title: "Import failed", description: err?.message || "Request failed", variant: "destructive" });
+  };
+
+  const runPreview = async (pkg: File, newTitle: string) => {
+    setBusy(true);
+    setIssues([]);
+    try {
+      setPreview(await postPackage<PreviewResponse>("/api/books/import/preview", pkg, newTitle));
+    } catch (err) {
+      setPreview(null);
+      fail(err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFile = (picked: File | undefined) => {
+    if (!picked) return;
+    reset();
+    setFile(picked);
+    runPreview(picked, "");
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setBusy(true);
+    try {
+      const res = await postPackage<ImportResponse>("/api/books/import", file, title);
+      setImported(res);
+      setPreview(null);
+      onImported?.();
+      toast({ title: "Book imported", description: `"${res.book.title}" was added as a draft` });
+    } catch (err) {
+      fail(err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const blocked = !!preview?.conflicts.some((c) => c.blocking);
+  const titleClash = !!preview?.conflicts.some((c) => c.type === "title");
+
+  const conflictList = (conflicts: Conflict[]) =>
+    conflicts.length > 0 && (
+      <ul className="space-y-1">
+        {conflicts.map((c, i) => (
+          <li
+            key={i}
+            className={`flex items-start text-sm rounded-lg px-3 py-2 ${
+              c.blocking ? "bg-red-50 text-red-800" : "bg-amber-50 text-amber-900"
+            }`}
+          >
+            {c.blocking ? (
+              <AlertCircle className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+            ) : (
+              <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+            )}
+            {c.message}
+          </li>
+        ))}
+      </ul>
+    );
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) reset();
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-auto bg-ilaw-white border-2 border-ilaw-gold">
+        <DialogHeader className="border-b border-brand-gold-200 pb-4">
+          <DialogTitle className="text-xl font-sans font-bold text-ilaw-navy flex items-center">
+            <PackageOpen className="h-5 w-5 text-ilaw-gold mr-2" />
+            Import a Book
+          </DialogTitle>
+          <DialogDescription className="text-yellow-600 font-sans font-bold">
+            Choose a book package (.zip) exported from this site or another school's. The book is added as a draft
+            with its pages, quizzes, chapters and badges, and its pictures and audio are copied here.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!imported && (
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="inline-flex items-center px-4 py-2 rounded-md bg-ilaw-navy text-white cursor-pointer hover:bg-brand-navy-800">
+              <Upload className="h-4 w-4 mr-2" />
+              {file ? "Choose another package" : "Choose package"}
+              <input
+                type="file"
+                accept=".zip,application/zip"
+                className="hidden"
+                onChange={(e) => {
+                  handleFile(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            {file && <span className="text-sm text-ilaw-navy">{file.name}</span>}
+          </div>
+        )}
+
+        {busy && (
+          <div className="flex items-center text-sm text-yellow-600">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Working... copying the media can take a minute.
+          </div>
+        )}
+
+        {issues.length > 0 && (
+          <ul className="text-xs text-red-700 space-y-0.5 max-h-48 overflow-auto">
+            {issues.map((issue, i) => (
+              <li key={i} className="flex items-start">
+                <AlertCircle className="h-3 w-3 mr-1 mt-0.5 shrink-0" />
+                {issue.path && <span className="font-mono mr-1">{issue.path}:</span>}
+                {issue.message}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Preview */}
+        {preview && (
+          <div className="space-y-3">
+            <div>
+              <div className="text-lg font-bold text-ilaw-navy flex items-center">
+                <BookOpen className="h-5 w-5 mr-2 text-ilaw-gold" />
+                {preview.title}
+              </div>
+              <div className="text-sm text-gray-600">
+                {preview.type === "educational" ? "Educational" : "Storybook"}
+                {preview.grade && ` · Grade ${preview.grade}`}
+                {preview.subject && ` · ${preview.subject}`}
+                {preview.exportedAt && ` · exported ${new Date(preview.exportedAt).toLocaleDateString()}`}
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Badge className="bg-ilaw-navy text-white">{preview.pages} pages</Badge>
+              <Badge className="bg-ilaw-navy text-white">{preview.questions} questions</Badge>
+              <Badge className="bg-ilaw-navy text-white">{preview.chapters} chapters</Badge>
+              <Badge className="bg-ilaw-navy text-white">{preview.badges} badges</Badge>
+              <Badge variant="outline">{preview.media.bundled} media files</Badge>
+              {preview.media.linked > 0 && <Badge variant="outline">{preview.media.linked} media links</Badge>}
+            </div>
+
+            {conflictList(preview.conflicts)}
+
+            {titleClash && (
+              <div className="flex items-center gap-2">
+                <Input
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder="Title to import it under"
+                  maxLength={100}
+                  className="border-2 border-brand-gold-200"
+                />
+                <Button
+                  variant="outline"
+                  disabled={busy || title.trim().length < 2}
+                  onClick={() => file && runPreview(file, title)}
+                  className="border-2 border-brand-gold-300 shrink-0"
+                >
+                  Check again
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Result */}
+        {imported && (
+          <div className="space-y-3">
+            <p className="flex items-center text-sm p-3 rounded-lg bg-green-50 border border-green-200 text-green-900">
+              <CheckCircle className="h-4 w-4 mr-2 shrink-0" />
+              "{imported.book.title}" was imported as a draft. Review it and send it for publishing when it's ready.
+            </p>
+            {conflictList(imported.conflicts)}
+          </div>
+        )}
+
+        <DialogFooter className="border-t border-brand-gold-200 pt-4">
+          {imported ? (
+            <Link href={bookHref(imported.book.id)}>
+              <Button className="bg-ilaw-navy hover:bg-brand-navy-800 text-white">
+                <BookOpen className="h-4 w-4 mr-2" />
+                Open book
+              </Button>
+            </Link>
+          ) : (
+            <Button
+              onClick={handleImport}
+              disabled={busy || !preview || blocked}
+              className="bg-ilaw-navy hover:bg-brand-navy-800 text-white"
+            >
+              {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              Import book
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default BookImportDialog;
@@ -0,0 +1,273 @@
+// == BOOK PUBLISHING ==
+// Status of one book (draft, in review, published, archived) with the actions
+// the user may take on it: authors submit drafts for review, withdraw or
+// archive them; users with books.publish approve, reject (with a comment),
+// publish directly and schedule. Shows the review history and takes comments
+// between author and reviewer. Used on the teacher and admin book pages.
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { Archive, CalendarClock, Check, Loader2, MessageSquare, RotateCcw, Send, Undo2, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest } from "@/lib/queryClient";
+import { bookStatusBadgeClass, bookStatusLabel, isScheduled } from "@/lib/bookStatus";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import type { BookStatus, BookReviewAction } from "@shared/schema";
+import type { BookAccess } from "@shared/permissions";
+
+type PublishingBook = {
+  id: number;
+  addedById?: number | null;
+  myAccess?: BookAccess | null;
+  status: BookStatus;
+  publishAt?: string | null;
+  publishedAt?: string | null;
+  submittedAt?: string | null;
+};
+
+type ReviewEvent = {
+  id: number;
+  action: BookReviewAction;
+  comment: string | null;
+  publishAt: string | null;
+  createdAt: string;
+  user: { id: number; firstName: string; lastName: string; role: string } | null;
+};
+
+type StatusAction = "submit" | "withdraw" | "approve" | "reject" | "publish" | "archive" | "restore";
+
+type BookPublishingCardProps = { book: PublishingBook };
+
+const MAX_COMMENT = 2000;
+
+const EVENT_LABELS: Record<BookReviewAction, string> = {
+  submitted: "submitted it for review",
+  withdrawn: "withdrew it from review",
+  approved: "approved it",
+  rejected: "sent it back",
+  published: "published it",
+  archived: "archived it",
+  restored: "restored it as a draft",
+  commented: "commented",
+};
+
+const DONE: Record<StatusAction, string> = {
+  submit: "Sent for review",
+  withdraw: "Back to draft",
+  approve: "Book approved",
+  reject: "Sent back to the author",
+  publish: "Book published",
+  archive: "Book archived",
+  restore: "Restored as a draft",
+};
+
+const formatDateTime = (value: string) =>
+  new Intl.DateTimeFormat("en-US", { dateStyle: "medium", timeStyle: "short" }).format(new Date(value));
+
+// local time for <input type="datetime-local">
+const localInputValue = (value?: string | null) => {
+  if (!value) return "";
+  const d = new Date(value);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+export function BookPublishingCard({ book }: BookPublishingCardProps) {
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const [busy, setBusy] = useState(false);
+  const [comment, setComment] = useState("");
+  const [publishAt, setPublishAt] = useState(() =>
+    isScheduled(book) || book.status === "in_review" ? localInputValue(book.publishAt) : ""
+  );
+  const queryKey = ["book-reviews", book.id];
+
+  const { data, isLoading, error } = useQuery<{ events: ReviewEvent[] }>({
+    queryKey,
+    queryFn: () => apiRequest("GET", `/api/books/${book.id}/reviews`),
+    retry: false,
+  });
+
+  const publisher = can("books.publish");
+  const editor = can("books.edit", book);
+
+  // not the author, a co-author or a reviewer — nothing to show
+  if (error || (!publisher && !editor)) return null;
+
+  const run = async (fn: () => Promise<unknown>, done: string) => {
+    setBusy(true);
+    try {
+      await fn();
+      setComment("");
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: [`/api/books/${book.id}`] });
+      queryClient.invalidateQueries({ queryKey: ["book-review-queue"] });
+      toast({ title: done });
+    } catch (err: any) {
+      toast({ title: "Error", description: err?.message || "Request failed", variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const changeStatus = (action: StatusAction) => {
+    if (action === "reject" && !comment.trim()) {
+      toast({ title: "Add a comment", description: "Tell the author what to change.", variant: "destructive" });
+      return;
+    }
+    if (action === "archive" && !window.confirm("Archive this book? Students will no longer see it.")) return;
+    const body: Record<string, unknown> = { action, comment: comment.trim() };
+    if (action === "submit" || action === "approve" || action === "publish") {
+      body.publishAt = publishAt ? new Date(publishAt).toISOString() : null;
+    }
+    return run(() => apiRequest("POST", `/api/books/${book.id}/status`, body), DONE[action]);
+  };
+
+  const addComment = () =>
+    run(() => apiRequest("POST", `/api/books/${book.id}/reviews`, { comment: comment.trim() }), "Comment added");
+
+  const schedulable =
+    (book.status === "draft" && (editor || publisher)) ||
+    (book.status === "in_review" && publisher) ||
+    (book.status === "published" && publisher);
+
+  const statusLine = (() => {
+    if (isScheduled(book)) return `Goes live ${formatDateTime(book.publishAt!)}`;
+    switch (book.status) {
+      case "draft":
+        return "Only its authors and reviewers can see it.";
+      case "in_review":
+        return book.submittedAt ? `Waiting for review since ${formatDateTime(book.submittedAt)}` : "Waiting for review";
+      case "archived":
+        return "Hidden from students.";
+      default:
+        return book.publishedAt ? `Live since ${formatDateTime(book.publishAt ?? book.publishedAt)}` : "Visible to students.";
+    }
+  })();
+
+  const actionButton = (action: StatusAction, label: string, Icon: typeof Send, primary = false) => (
+    <Button
+      key={action}
+      size="sm"
+      variant={primary ? "default" : "outline"}
+      disabled={busy}
+      onClick={() => changeStatus(action)}
+      className={
+        primary
+          ? "bg-ilaw-gold hover:bg-brand-gold-600 text-ilaw-navy font-sans font-bold"
+          : action === "reject" || action === "archive"
+          ? "border-2 border-red-200 text-red-700 font-sans font-bold"
+          : "border-2 border-brand-navy-200 text-ilaw-navy font-sans font-bold"
+      }
+    >
+      <Icon className="h-4 w-4 mr-1" />
+      {label}
+    </Button>
+  );
+
+  const actions = [
+    book.status === "draft" && !publisher && editor && actionButton("submit", "Submit for review", Send, true),
+    book.status === "draft" && publisher && actionButton("publish", publishAt ? "Schedule" : "Publish", Upload, true),
+    book.status === "in_review" && publisher && actionButton("approve", publishAt ? "Approve & schedule" : "Approve", Check, true),
+    book.status === "in_review" && publisher && actionButton("reject", "Send back", X),
+    book.status === "in_review" && editor && actionButton("withdraw", "Withdraw", Undo2),
+    book.status === "published" && publisher && actionButton("publish", publishAt ? "Reschedule" : "Publish now", CalendarClock),
+    book.status !== "archived" && actionButton("archive", "Archive", Archive),
+    book.status === "archived" && actionButton("restore", "Restore as draft", RotateCcw),
+  ].filter(Boolean);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border-2 border-brand-navy-200 overflow-hidden">
+      <div className="bg-gradient-to-r from-ilaw-navy to-brand-navy-800 p-4">
+        <h2 className="text-xl font-sans font-bold text-ilaw-gold flex items-center">
+          <Upload className="h-6 w-6 mr-3" />
+          Publishing
+        </h2>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <div className="flex items-start justify-between gap-2">
+          <p className="text-sm text-brand-navy-700 font-sans">{statusLine}</p>
+          <Badge className={`${bookStatusBadgeClass(book)} font-sans font-bold shrink-0`}>{bookStatusLabel(book)}</Badge>
+        </div>
+
+        {schedulable && (
+          <div>
+            <label className="text-sm font-sans font-bold text-ilaw-navy flex items-center">
+              <CalendarClock className="h-4 w-4 mr-1" />
+              Publish on
+              <span className="font-normal text-gray-500 ml-1">(empty = right away)</span>
+            </label>
+            <input
+              type="datetime-local"
+              value={publishAt}
+              onChange={(e) => setPublishAt(e.target.value)}
+              className="mt-1 w-full px-3 py-2 border-2 border-brand-navy-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-ilaw-gold bg-white text-ilaw-navy text-sm"
+            />
+          </div>
+        )}
+
+        <Textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          maxLength={MAX_COMMENT}
+          rows={3}
+          placeholder={book.status === "in_review" && publisher ? "Notes for the author" : "Comment (optional)"}
+          className="border-2 border-brand-navy-200 text-sm"
+        />
+
+        <div className="flex flex-wrap gap-2">
+          {actions}
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={busy || !comment.trim()}
+            onClick={addComment}
+            className="text-ilaw-navy font-sans font-bold"
+          >
+            <MessageSquare className="h-4 w-4 mr-1" />
+            Comment
+          </Button>
+        </div>
+
+        <div className="border-t border-brand-navy-100 pt-4">
+          <h3 className="text-sm font-sans font-bold text-ilaw-navy mb-2">History</h3>
+          {isLoading || !data ? (
+            <div className="flex items-center justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-ilaw-gold" />
+            </div>
+          ) : data.events.length === 0 ? (
+            <p className="text-sm text-brand-navy-600 font-sans">No reviews yet.</p>
+          ) : (
+            <ul className="space-y-3 max-h-80 overflow-auto">
+              {data.events
+                .slice()
+                .reverse()
+                .map((e) => (
+                  <li key={e.id} className="text-sm">
+                    <div className="text-brand-navy-700">
+                      <span className="font-bold text-ilaw-navy">
+                        {e.user ? `${e.user.firstName} ${e.user.lastName}` : "Former user"}
+                      </span>{" "}
+                      {EVENT_LABELS[e.action]}
+                      {e.publishAt && e.action !== "commented" && ` for ${formatDateTime(e.publishAt)}`}
+                      <span className="text-xs text-gray-500"> · {formatDateTime(e.createdAt)}</span>
+                    </div>
+                    {e.comment && (
+                      <p className="mt-1 whitespace-pre-wrap rounded-lg bg-brand-navy-50 px-3 py-2 text-brand-navy-800">
+                        {e.comment}
+                      </p>
+                    )}
+                  </li>
+                ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default BookPublishingCard;
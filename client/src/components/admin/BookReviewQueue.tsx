@@ -0,0 +1,80 @@
+// == BOOK REVIEW QUEUE ==
+// Books teachers have submitted for review, longest waiting first, for users
+// with books.publish. Each links to the book page, where the publishing card
+// approves, rejects or schedules it. Hidden while the queue is empty.
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { CalendarClock, ClipboardCheck, Eye } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/contexts/AuthContext";
+
+type QueuedBook = {
+  id: number;
+  title: string;
+  type: "storybook" | "educational";
+  grade: string | null;
+  publishAt: string | null;
+  submittedAt: string | null;
+  submittedBy: { id: number; firstName: string; lastName: string } | null;
+  submitComment: string | null;
+};
+
+const formatDateTime = (value: string) =>
+  new Intl.DateTimeFormat("en-US", { dateStyle: "medium", timeStyle: "short" }).format(new Date(value));
+
+export function BookReviewQueue() {
+  const { can } = useAuth();
+  const { data } = useQuery<{ books: QueuedBook[] }>({
+    queryKey: ["book-review-queue"],
+    queryFn: () => apiRequest("GET", "/api/book-reviews"),
+    enabled: can("books.publish"),
+  });
+
+  const books = data?.books ?? [];
+  if (!books.length) return null;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border-2 border-amber-300 overflow-hidden mb-8">
+      <div className="border-b border-amber-200 bg-amber-50 p-4 flex items-center justify-between">
+        <h3 className="text-lg text-ilaw-navy font-bold flex items-center">
+          <ClipboardCheck className="h-5 w-5 text-amber-600 mr-2" />
+          Waiting for review
+        </h3>
+        <Badge className="bg-amber-200 text-amber-900">{books.length}</Badge>
+      </div>
+      <ul className="divide-y divide-amber-100">
+        {books.map((b) => (
+          <li key={b.id} className="flex items-center justify-between gap-3 px-4 py-3">
+            <div className="min-w-0">
+              <div className="text-ilaw-navy font-bold truncate">{b.title}</div>
+              <div className="text-xs text-slate-600 font-normal">
+                {b.submittedBy ? `${b.submittedBy.firstName} ${b.submittedBy.lastName}` : "Unknown author"}
+                {b.submittedAt && ` · ${formatDateTime(b.submittedAt)}`}
+                {b.grade && ` · Grade ${b.grade}`}
+              </div>
+              {b.publishAt && (
+                <div className="text-xs text-sky-700 font-normal flex items-center mt-0.5">
+                  <CalendarClock className="h-3 w-3 mr-1" />
+                  Wants it live {formatDateTime(b.publishAt)}
+                </div>
+              )}
+              {b.submitComment && (
+                <p className="text-sm text-slate-700 font-normal mt-1 line-clamp-2">“{b.submitComment}”</p>
+              )}
+            </div>
+            <Link href={`/admin/books/${b.id}`}>
+              <Button size="sm" variant="outline" className="border border-brand-gold-300 text-ilaw-navy shrink-0">
+                <Eye className="h-4 w-4 mr-1" />
+                Review
+              </Button>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default BookReviewQueue;
@@ -0,0 +1,244 @@
+// == BOOK SHARING ==
+// Owner and co-authors of one book. The owner (or anyone who can edit every
+// book) invites teachers as editors or viewers; collaborators can leave; users
+// with books.transfer hand the book to a new owner. Used on the teacher and
+// admin book pages; the server enforces all of it.
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { ArrowRightLeft, Crown, Loader2, LogOut, Trash2, UserPlus, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import type { BookAccess } from "@shared/permissions";
+
+type Person = { id: number; firstName: string; lastName: string; email: string; role: string };
+
+type Collaborator = { userId: number; role: "editor" | "viewer"; createdAt: string; user: Person };
+
+type SharingResponse = {
+  owner: Person | null;
+  collaborators: Collaborator[];
+  myAccess: BookAccess | null;
+  canShare: boolean;
+};
+
+type BookSharingCardProps = { bookId: number };
+
+const fullName = (p: Person) => `${p.firstName} ${p.lastName}`;
+
+export function BookSharingCard({ bookId }: BookSharingCardProps) {
+  const queryClient = useQueryClient();
+  const { user, can } = useAuth();
+  const [busy, setBusy] = useState(false);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<"editor" | "viewer">("editor");
+  const [transferEmail, setTransferEmail] = useState("");
+  const [keepPreviousOwner, setKeepPreviousOwner] = useState(true);
+  const queryKey = ["book-collaborators", bookId];
+
+  const { data, isLoading, error } = useQuery<SharingResponse>({
+    queryKey,
+    queryFn: () => apiRequest("GET", `/api/books/${bookId}/collaborators`),
+    enabled: !!bookId,
+    retry: false,
+  });
+
+  const run = async (fn: () => Promise<unknown>, done?: string) => {
+    setBusy(true);
+    try {
+      await fn();
+      queryClient.invalidateQueries({ queryKey });
+      // myAccess on the book itself may have changed
+      queryClient.invalidateQueries({ queryKey: [`/api/books/${bookId}`] });
+      if (done) toast({ title: done });
+    } catch (err: any) {
+      toast({ title: "Error", description: err?.message || "Request failed", variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // not shared with this user and they can't manage it — nothing to show
+  if (error) return null;
+
+  const canShare = !!data?.canShare;
+  const canTransfer = can("books.transfer");
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border-2 border-brand-navy-200 overflow-hidden">
+      <div className="bg-gradient-to-r from-ilaw-navy to-brand-navy-800 p-4">
+        <h2 className="text-xl font-sans font-bold text-ilaw-gold flex items-center">
+          <Users className="h-6 w-6 mr-3" />
+          Owner & Co-authors
+        </h2>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {isLoading || !data ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-ilaw-gold" />
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <div className="text-sm font-sans font-bold text-ilaw-navy flex items-center">
+                  <Crown className="h-4 w-4 mr-1 text-ilaw-gold" />
+                  {data.owner ? fullName(data.owner) : "No owner"}
+                </div>
+                {data.owner && <div className="text-xs text-brand-navy-600 truncate">{data.owner.email}</div>}
+              </div>
+              <Badge className="bg-ilaw-navy text-white font-sans font-bold">Owner</Badge>
+            </div>
+
+            {data.collaborators.length === 0 ? (
+              <p className="text-sm text-brand-navy-600 font-sans">Not shared with anyone yet.</p>
+            ) : (
+              <ul className="divide-y divide-brand-navy-100 border border-brand-navy-100 rounded-lg">
+                {data.collaborators.map((c) => (
+                  <li key={c.userId} className="flex items-center justify-between gap-2 px-3 py-2">
+                    <div className="min-w-0">
+                      <div className="text-sm font-sans font-bold text-ilaw-navy">{fullName(c.user)}</div>
+                      <div className="text-xs text-brand-navy-600 truncate">{c.user.email}</div>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      {canShare ? (
+                        <Select
+                          value={c.role}
+                          onValueChange={(next) =>
+                            run(() =>
+                              apiRequest("POST", `/api/books/${bookId}/collaborators`, { userId: c.userId, role: next })
+                            )
+                          }
+                          disabled={busy}
+                        >
+                          <SelectTrigger className="h-8 w-24 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="editor">Editor</SelectItem>
+                            <SelectItem value="viewer">Viewer</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Badge variant="outline" className="border-brand-navy-200 text-ilaw-navy capitalize">
+                          {c.role}
+                        </Badge>
+                      )}
+                      {(canShare || c.userId === user?.id) && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8 text-red-600"
+                          disabled={busy}
+                          title={c.userId === user?.id ? "Leave this book" : "Remove"}
+                          onClick={() =>
+                            run(
+                              () => apiRequest("DELETE", `/api/books/${bookId}/collaborators/${c.userId}`),
+                              c.userId === user?.id ? "You left this book" : "Collaborator removed"
+                            )
+                          }
+                        >
+                          {c.userId === user?.id ? <LogOut className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {canShare && (
+              <form
+                className="flex flex-wrap gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (!email.trim()) return;
+                  run(
+                    () => apiRequest("POST", `/api/books/${bookId}/collaborators`, { email: email.trim(), role }),
+                    "Book shared"
+                  ).then(() => setEmail(""));
+                }}
+              >
+                <Input
+                  type="email"
+                  placeholder="Teacher's email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="flex-1 min-w-[10rem]"
+                />
+                <Select value={role} onValueChange={(v) => setRole(v as "editor" | "viewer")}>
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="editor">Editor</SelectItem>
+                    <SelectItem value="viewer">Viewer</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="submit"
+                  disabled={busy || !email.trim()}
+                  className="bg-ilaw-gold hover:bg-brand-gold-600 text-ilaw-navy font-sans font-bold"
+                >
+                  <UserPlus className="h-4 w-4 mr-1" />
+                  Share
+                </Button>
+              </form>
+            )}
+
+            {canTransfer && (
+              <div className="border-t border-brand-navy-100 pt-4 space-y-2">
+                <h3 className="text-sm font-sans font-bold text-ilaw-navy flex items-center">
+                  <ArrowRightLeft className="h-4 w-4 mr-1" />
+                  Transfer ownership
+                </h3>
+                <div className="flex flex-wrap gap-2">
+                  <Input
+                    type="email"
+                    placeholder="New owner's email"
+                    value={transferEmail}
+                    onChange={(e) => setTransferEmail(e.target.value)}
+                    className="flex-1 min-w-[10rem]"
+                  />
+                  <Button
+                    variant="outline"
+                    disabled={busy || !transferEmail.trim()}
+                    className="border-2 border-brand-navy-200 text-ilaw-navy font-sans font-bold"
+                    onClick={() => {
+                      if (!window.confirm(`Make ${transferEmail.trim()} the owner of this book?`)) return;
+                      run(
+                        () =>
+                          apiRequest("POST", `/api/books/${bookId}/transfer`, {
+                            email: transferEmail.trim(),
+                            keepPreviousOwner,
+                          }),
+                        "Ownership transferred"
+                      ).then(() => setTransferEmail(""));
+                    }}
+                  >
+                    Transfer
+                  </Button>
+                </div>
+                <label className="flex items-center gap-2 text-xs text-brand-navy-700">
+                  <Checkbox
+                    checked={keepPreviousOwner}
+                    onCheckedChange={(v) => setKeepPreviousOwner(v === true)}
+                  />
+                  Keep the current owner as an editor
+                </label>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default BookSharingCard;
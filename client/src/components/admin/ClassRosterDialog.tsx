@@ -0,0 +1,283 @@
+// == CLASS ROSTER ==
+// Students and co-teachers of one class. Adding students is refused by the
+// server when it would go over the class size (the smallest "maximum students
+// per class" of the class's teachers). Used from Settings → Class and the
+// teacher student page.
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { Loader2, Plus, Search, Trash2, UserMinus, UserPlus, Users } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+
+export type ClassSummary = { id: number; name: string; gradeLevel: string; schoolYear: string };
+
+type Person = { id: number; firstName: string; lastName: string; email: string };
+
+type RosterStudent = Person & { username: string; gradeLevel: string | null; enrolledAt: string };
+
+type Candidate = { id: number; firstName: string; lastName: string; username: string; gradeLevel: string | null };
+
+type RosterResponse = { students: RosterStudent[]; teachers: Person[]; capacity: number };
+
+type ClassRosterDialogProps = {
+  cls: ClassSummary | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+const gradeLabel = (g: string | null) => (!g ? "—" : g === "K" ? "Kinder" : `Grade ${g}`);
+
+export function ClassRosterDialog({ cls, open, onOpenChange }: ClassRosterDialogProps) {
+  const queryClient = useQueryClient();
+  const [busy, setBusy] = useState(false);
+  const [search, setSearch] = useState("");
+  const [anyGrade, setAnyGrade] = useState(false);
+  const [picked, setPicked] = useState<number[]>([]);
+  const [teacherEmail, setTeacherEmail] = useState("");
+  const queryKey = ["class-roster", cls?.id];
+  const candidatesKey = ["class-candidates", cls?.id, search, anyGrade];
+
+  const { data, isLoading, error } = useQuery<RosterResponse>({
+    queryKey,
+    queryFn: () => apiRequest("GET", `/api/classes/${cls!.id}/students`),
+    enabled: open && !!cls,
+    retry: false,
+  });
+
+  const { data: candidatesData, isFetching: candidatesLoading } = useQuery<{ students: Candidate[] }>({
+    queryKey: candidatesKey,
+    queryFn: () => {
+      const params = new URLSearchParams();
+      if (search.trim()) params.append("search", search.trim());
+      if (anyGrade) params.append("grade", "all");
+      return apiRequest("GET", `/api/classes/${cls!.id}/candidates?${params.toString()}`);
+    },
+    enabled: open && !!cls,
+  });
+
+  const run = async (fn: () => Promise<unknown>, done?: string) => {
+    setBusy(true);
+    try {
+      await fn();
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["class-candidates", cls?.id] });
+      queryClient.invalidateQueries({ queryKey: ["classes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/students"] });
+      if (done) toast({ title: done });
+      return true;
+    } catch (err: any) {
+      toast({ title: "Error", description: err?.message || "Request failed", variant: "destructive" });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const togglePick = (id: number) =>
+    setPicked((prev) => (prev.includes(id) ? prev.filter((p) => p !== id) : [...prev, id]));
+
+  const students = data?.students ?? [];
+  const teachers = data?.teachers ?? [];
+  const candidates = candidatesData?.students ?? [];
+  const capacity = data?.capacity ?? 0;
+  const seatsLeft = Math.max(0, capacity - students.length);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setPicked([]);
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-auto bg-white border-2 border-brand-gold-200">
+        <DialogHeader>
+          <DialogTitle className="text-ilaw-navy flex items-center">
+            <Users className="h-5 w-5 mr-2 text-ilaw-gold" />
+            {cls?.name}
+          </DialogTitle>
+          <DialogDescription>
+            {cls ? `${gradeLabel(cls.gradeLevel)} · ${cls.schoolYear}` : ""}
+            {data ? ` · ${students.length}/${capacity} students` : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6 text-gray-500">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error instanceof Error ? error.message : "Failed to load"}</p>
+        ) : (
+          <div className="space-y-5">
+            {/* Roster */}
+            <div>
+              <h4 className="text-sm font-bold text-ilaw-navy mb-2">Students</h4>
+              {students.length === 0 ? (
+                <p className="text-sm text-gray-500">No students in this class yet.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {students.map((s) => (
+                    <li key={s.id} className="flex items-center justify-between p-2 rounded-lg border">
+                      <div>
+                        <p className="font-medium text-ilaw-navy">
+                          {s.firstName} {s.lastName}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          @{s.username} · {gradeLabel(s.gradeLevel)}
+                        </p>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={busy}
+                        title="Remove from class"
+                        className="text-red-600 border-red-300"
+                        onClick={() =>
+                          confirm(`Remove ${s.firstName} ${s.lastName} from ${cls!.name}?`) &&
+                          run(() => apiRequest("DELETE", `/api/classes/${cls!.id}/students/${s.id}`))
+                        }
+                      >
+                        <UserMinus className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Add students */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-bold text-ilaw-navy">Add students</h4>
+                <Badge variant={seatsLeft ? "outline" : "secondary"}>
+                  {seatsLeft} seat{seatsLeft === 1 ? "" : "s"} left
+                </Badge>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 mb-2">
+                <div className="relative flex-1 min-w-[12rem]">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <Input
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search by name or username"
+                    className="pl-9"
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-xs text-gray-600">
+                  <Checkbox checked={anyGrade} onCheckedChange={(v) => setAnyGrade(v === true)} />
+                  Any grade
+                </label>
+              </div>
+              {candidatesLoading && !candidates.length ? (
+                <div className="flex justify-center py-3 text-gray-500">
+                  <Loader2 className="h-5 w-5 animate-spin" />
+                </div>
+              ) : candidates.length === 0 ? (
+                <p className="text-sm text-gray-500">No approved students to add.</p>
+              ) : (
+                <ul className="max-h-56 overflow-auto space-y-1 border rounded-lg p-2">
+                  {candidates.map((c) => (
+                    <li key={c.id}>
+                      <label className="flex items-center gap-2 p-1 rounded hover:bg-brand-gold-50 cursor-pointer">
+                        <Checkbox checked={picked.includes(c.id)} onCheckedChange={() => togglePick(c.id)} />
+                        <span className="text-sm text-ilaw-navy">
+                          {c.firstName} {c.lastName}
+                        </span>
+                        <span className="text-xs text-gray-500">
+                          @{c.username} · {gradeLabel(c.gradeLevel)}
+                        </span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <Button
+                size="sm"
+                disabled={busy || picked.length === 0}
+                className="mt-2 bg-ilaw-gold hover:bg-brand-amber text-ilaw-navy font-bold"
+                onClick={async () => {
+                  const ok = await run(
+                    () => apiRequest("POST", `/api/classes/${cls!.id}/students`, { studentIds: picked }),
+                    "Students added"
+                  );
+                  if (ok) setPicked([]);
+                }}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add {picked.length || ""} to class
+              </Button>
+            </div>
+
+            {/* Teachers */}
+            <div>
+              <h4 className="text-sm font-bold text-ilaw-navy mb-2">Teachers</h4>
+              <ul className="space-y-2 mb-2">
+                {teachers.map((t) => (
+                  <li key={t.id} className="flex items-center justify-between p-2 rounded-lg border">
+                    <div>
+                      <p className="font-medium text-ilaw-navy">
+                        {t.firstName} {t.lastName}
+                      </p>
+                      <p className="text-xs text-gray-500">{t.email}</p>
+                    </div>
+                    {teachers.length > 1 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={busy}
+                        title="Remove teacher"
+                        className="text-red-600 border-red-300"
+                        onClick={() =>
+                          confirm(`Remove ${t.firstName} ${t.lastName} from this class?`) &&
+                          run(() => apiRequest("DELETE", `/api/classes/${cls!.id}/teachers/${t.id}`))
+                        }
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              <form
+                className="flex gap-2"
+                onSubmit={async (e) => {
+                  e.preventDefault();
+                  if (!teacherEmail.trim()) return;
+                  const ok = await run(
+                    () => apiRequest("POST", `/api/classes/${cls!.id}/teachers`, { email: teacherEmail.trim() }),
+                    "Co-teacher added"
+                  );
+                  if (ok) setTeacherEmail("");
+                }}
+              >
+                <Input
+                  type="email"
+                  value={teacherEmail}
+                  onChange={(e) => setTeacherEmail(e.target.value)}
+                  placeholder="Co-teacher's email"
+                />
+                <Button type="submit" variant="outline" size="sm" disabled={busy || !teacherEmail.trim()}>
+                  <UserPlus className="h-4 w-4" />
+                </Button>
+              </form>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ClassRosterDialog;
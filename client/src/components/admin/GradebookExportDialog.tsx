@@ -0,0 +1,144 @@
+// == GRADEBOOK EXPORT ==
+// Download a spreadsheet for the school gradebook: one row per student, one
+// column group per book (best / latest quiz %, attempts, % complete, reading
+// time, completion date). Starts from the class and grade picked on the
+// teacher student page.
+import { useEffect, useState } from "react";
+import { FileSpreadsheet, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { downloadFile } from "@/lib/download";
+import { toast } from "@/hooks/use-toast";
+
+type GradebookExportDialogProps = {
+  classes: { id: number; name: string }[];
+  initialClassId?: string; // "all" or a class id
+  initialGrade?: string; // "all" or a grade
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+const GRADES = ["K", "1", "2", "3", "4", "5", "6"];
+
+const fieldClass =
+  "w-full px-3 py-2 border-2 border-brand-navy-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-ilaw-gold bg-white text-ilaw-navy text-sm";
+
+export function GradebookExportDialog({
+  classes,
+  initialClassId = "all",
+  initialGrade = "all",
+  open,
+  onOpenChange,
+}: GradebookExportDialogProps) {
+  const [classId, setClassId] = useState(initialClassId);
+  const [grade, setGrade] = useState(initialGrade);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [busy, setBusy] = useState<"csv" | "xlsx" | null>(null);
+
+  // pick up the page's filters each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setClassId(initialClassId);
+      setGrade(initialGrade);
+    }
+  }, [open, initialClassId, initialGrade]);
+
+  const download = async (format: "csv" | "xlsx") => {
+    const params = new URLSearchParams({ format });
+    if (classId !== "all") params.append("classId", classId);
+    if (grade !== "all") params.append("grade", grade);
+    if (from) params.append("from", from);
+    if (to) params.append("to", to);
+    setBusy(format);
+    try {
+      await downloadFile(`/api/gradebook/export?${params.toString()}`, `gradebook.${format}`);
+      onOpenChange(false);
+    } catch (err: any) {
+      toast({ title: "Export failed", description: err?.message || "Please try again.", variant: "destructive" });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md bg-white border-2 border-brand-gold-200">
+        <DialogHeader>
+          <DialogTitle className="text-ilaw-navy flex items-center">
+            <FileSpreadsheet className="h-5 w-5 mr-2 text-ilaw-gold" />
+            Export gradebook
+          </DialogTitle>
+          <DialogDescription>
+            One row per student and a column group per book: best and latest quiz score, attempts, % complete,
+            reading time and completion date.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-sm font-bold text-ilaw-navy">Class</label>
+              <select value={classId} onChange={(e) => setClassId(e.target.value)} className={fieldClass}>
+                <option value="all">All my students</option>
+                {classes.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-sm font-bold text-ilaw-navy">Grade</label>
+              <select value={grade} onChange={(e) => setGrade(e.target.value)} className={fieldClass}>
+                <option value="all">All grades</option>
+                {GRADES.map((g) => (
+                  <option key={g} value={g}>
+                    {g === "K" ? "Kindergarten" : `Grade ${g}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-sm font-bold text-ilaw-navy">From</label>
+              <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={fieldClass} />
+            </div>
+            <div>
+              <label className="text-sm font-bold text-ilaw-navy">To</label>
+              <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={fieldClass} />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Leave the dates empty to include everything. With dates, only quizzes and reading in that period count.
+          </p>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => download("csv")} disabled={!!busy}>
+            {busy === "csv" && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Download CSV
+          </Button>
+          <Button
+            onClick={() => download("xlsx")}
+            disabled={!!busy}
+            className="bg-ilaw-gold hover:bg-brand-amber text-ilaw-navy font-bold"
+          >
+            {busy === "xlsx" && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Download Excel (XLSX)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default GradebookExportDialog;
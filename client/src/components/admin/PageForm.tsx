@@ -29,6 +29,7 @@ import {
   FormDescription
 } from '@/components/ui/form';
 import { motion, AnimatePresence } from '@/lib/motionShim';
+import { getAuthHeaders } from '@/lib/auth';
 
 /** ================= Cloudinary helpers ================= */
 const cloud =
@@ -95,21 +96,14 @@ const itemFade = {
 const stagger = { hidden: {}, visible: { transition: { staggerChildren: 0.08 } } };
 
 // == helpers ==
-const getToken = () => {
-  if (typeof window === 'undefined') return null;
-  const t = localStorage.getItem('token');
-  return t && t !== 'null' ? t : null;
-};
-
 async function uploadPageImage(file: File) {
   const fd = new FormData();
   fd.append('file', file);
   fd.append('kind', 'page_image');
 
-  const token = getToken();
   const resp = await fetch(`/api/upload?folder=${encodeURIComponent('ilaw-ng-bayan/pages/images')}`, {
     method: 'POST',
-    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    headers: getAuthHeaders(),
     body: fd,
   });
   const data = await resp.json();
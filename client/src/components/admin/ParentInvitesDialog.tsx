@@ -0,0 +1,199 @@
+// == PARENT INVITES ==
+// Issue / revoke single-use parent invite codes for one student and see which
+// parents are linked. Used on the admin and teacher student pages; teachers can
+// only manage students enrolled with them (enforced on the server).
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { Copy, Loader2, Plus, Trash2, Unlink, UserPlus } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+
+type Invite = {
+  id: number;
+  code: string;
+  expiresAt: string;
+  usedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+};
+
+type LinkedParent = { id: number; firstName: string; lastName: string; email: string; linkedAt: string };
+
+type ParentInvitesResponse = { invites: Invite[]; parents: LinkedParent[] };
+
+type ParentInvitesDialogProps = {
+  student: { id: number; firstName: string; lastName: string } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+const inviteStatus = (i: Invite) =>
+  i.usedAt ? "Used" : i.revokedAt ? "Revoked" : new Date(i.expiresAt) < new Date() ? "Expired" : "Active";
+
+export function ParentInvitesDialog({ student, open, onOpenChange }: ParentInvitesDialogProps) {
+  const queryClient = useQueryClient();
+  const [busy, setBusy] = useState(false);
+  const queryKey = ["parent-invites", student?.id];
+
+  const { data, isLoading, error } = useQuery<ParentInvitesResponse>({
+    queryKey,
+    queryFn: () => apiRequest("GET", `/api/students/${student!.id}/parent-invites`),
+    enabled: open && !!student,
+    retry: false,
+  });
+
+  const run = async (fn: () => Promise<unknown>) => {
+    setBusy(true);
+    try {
+      await fn();
+      queryClient.invalidateQueries({ queryKey });
+    } catch (err: any) {
+      toast({ title: "Error", description: err?.message || "Request failed", variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copyLink = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/register?invite=${code}`);
+      toast({ title: "Invite link copied" });
+    } catch {
+      // clipboard blocked; the code is on screen
+    }
+  };
+
+  const invites = data?.invites ?? [];
+  const parents = data?.parents ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg bg-white border-2 border-brand-gold-200">
+        <DialogHeader>
+          <DialogTitle className="text-ilaw-navy flex items-center">
+            <UserPlus className="h-5 w-5 mr-2 text-ilaw-gold" />
+            Parent access
+          </DialogTitle>
+          <DialogDescription>
+            Give a parent or guardian a code so they can follow {student?.firstName}'s reading. Each code works
+            once.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6 text-gray-500">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error instanceof Error ? error.message : "Failed to load"}</p>
+        ) : (
+          <div className="space-y-5">
+            {/* Linked parents */}
+            <div>
+              <h4 className="text-sm font-bold text-ilaw-navy mb-2">Linked parents</h4>
+              {parents.length === 0 ? (
+                <p className="text-sm text-gray-500">No parents linked yet.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {parents.map((p) => (
+                    <li key={p.id} className="flex items-center justify-between p-2 rounded-lg border">
+                      <div>
+                        <p className="font-medium text-ilaw-navy">
+                          {p.firstName} {p.lastName}
+                        </p>
+                        <p className="text-xs text-gray-500">{p.email}</p>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={busy}
+                        title="Unlink this parent"
+                        className="text-red-600 border-red-300"
+                        onClick={() =>
+                          confirm(`Unlink ${p.firstName} ${p.lastName}?`) &&
+                          run(() => apiRequest("DELETE", `/api/students/${student!.id}/parents/${p.id}`))
+                        }
+                      >
+                        <Unlink className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Invite codes */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-bold text-ilaw-navy">Invite codes</h4>
+                <Button
+                  size="sm"
+                  disabled={busy}
+                  className="bg-ilaw-gold hover:bg-brand-amber text-ilaw-navy font-bold"
+                  onClick={() => run(() => apiRequest("POST", `/api/students/${student!.id}/parent-invites`, {}))}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  New code
+                </Button>
+              </div>
+              {invites.length === 0 ? (
+                <p className="text-sm text-gray-500">No invite codes yet.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {invites.map((i) => {
+                    const status = inviteStatus(i);
+                    return (
+                      <li key={i.id} className="flex items-center justify-between p-2 rounded-lg border">
+                        <div>
+                          <span className="font-mono font-bold text-ilaw-navy">{i.code}</span>
+                          <Badge variant={status === "Active" ? "outline" : "secondary"} className="ml-2">
+                            {status}
+                          </Badge>
+                          {status === "Active" && (
+                            <p className="text-xs text-gray-500">
+                              Expires {new Date(i.expiresAt).toLocaleDateString()}
+                            </p>
+                          )}
+                        </div>
+                        {status === "Active" && (
+                          <div className="flex gap-1">
+                            <Button variant="outline" size="sm" title="Copy sign-up link" onClick={() => copyLink(i.code)}>
+                              <Copy className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={busy}
+                              title="Revoke"
+                              className="text-red-600 border-red-300"
+                              onClick={() =>
+                                run(() => apiRequest("DELETE", `/api/students/${student!.id}/parent-invites/${i.id}`))
+                              }
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ParentInvitesDialog;
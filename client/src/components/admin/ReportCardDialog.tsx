@@ -0,0 +1,226 @@
+// == REPORT CARDS ==
+// Printable progress report cards (PDF) for a reporting period, usually the
+// quarter. With `student` it prints that student's card; without, every
+// student of a grade (optionally one class) in one merged PDF. The teacher
+// comment is typed here and printed on the card; left empty, the card gets
+// lines to write on by hand.
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { FileText, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest } from "@/lib/queryClient";
+import { downloadFile } from "@/lib/download";
+import { toast } from "@/hooks/use-toast";
+
+type ReportStudent = { id: number; firstName: string; lastName: string; gradeLevel?: string | null };
+
+type ReportCardDialogProps = {
+  student?: ReportStudent | null; // one card; otherwise batch mode
+  classes?: { id: number; name: string }[];
+  initialClassId?: string; // "all" or a class id
+  initialGrade?: string; // "all" or a grade
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+const GRADES = ["K", "1", "2", "3", "4", "5", "6"];
+const MAX_COMMENT = 2000;
+
+const fieldClass =
+  "w-full px-3 py-2 border-2 border-brand-navy-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-ilaw-gold bg-white text-ilaw-navy text-sm";
+
+const gradeName = (g: string) => (g === "K" ? "Kindergarten" : `Grade ${g}`);
+
+// local YYYY-MM-DD, for <input type="date">
+const isoDay = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+
+const quarterStartDay = () => {
+  const now = new Date();
+  return isoDay(new Date(now.getFullYear(), Math.floor(now.getMonth() / 3) * 3, 1));
+};
+
+export function ReportCardDialog({
+  student = null,
+  classes = [],
+  initialClassId = "all",
+  initialGrade = "all",
+  open,
+  onOpenChange,
+}: ReportCardDialogProps) {
+  const batch = !student;
+  const [from, setFrom] = useState(quarterStartDay);
+  const [to, setTo] = useState(() => isoDay(new Date()));
+  const [grade, setGrade] = useState(initialGrade);
+  const [classId, setClassId] = useState(initialClassId);
+  const [comments, setComments] = useState<Record<number, string>>({});
+  const [busy, setBusy] = useState(false);
+
+  // fresh form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setGrade(initialGrade);
+      setClassId(initialClassId);
+      setComments({});
+    }
+  }, [open, initialGrade, initialClassId, student?.id]);
+
+  const { data: studentsData, isLoading: studentsLoading } = useQuery<{ students: ReportStudent[] }>({
+    queryKey: ["/api/students", "approved", grade, "", classId],
+    queryFn: () => {
+      const params = new URLSearchParams({ status: "approved", grade });
+      if (classId !== "all") params.append("classId", classId);
+      return apiRequest("GET", `/api/students?${params.toString()}`);
+    },
+    enabled: open && batch && grade !== "all",
+  });
+  const students = batch ? (grade !== "all" ? studentsData?.students ?? [] : []) : [student!];
+
+  const setComment = (id: number, text: string) => setComments((prev) => ({ ...prev, [id]: text }));
+
+  const print = async () => {
+    setBusy(true);
+    try {
+      if (student) {
+        await downloadFile(`/api/students/${student.id}/report-card`, "report-card.pdf", {
+          from,
+          to,
+          comment: comments[student.id] ?? "",
+        });
+      } else {
+        await downloadFile("/api/report-cards", "report-cards.pdf", {
+          grade,
+          classId: classId !== "all" ? Number(classId) : null,
+          from,
+          to,
+          comments,
+        });
+      }
+      onOpenChange(false);
+    } catch (err: any) {
+      toast({ title: "Could not create the report card", description: err?.message || "Please try again.", variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-auto bg-white border-2 border-brand-gold-200">
+        <DialogHeader>
+          <DialogTitle className="text-ilaw-navy flex items-center">
+            <FileText className="h-5 w-5 mr-2 text-ilaw-gold" />
+            {student ? `Report card: ${student.firstName} ${student.lastName}` : "Print report cards"}
+          </DialogTitle>
+          <DialogDescription>
+            Books completed, reading minutes by week, quiz scores per subject, badges and your comment, as a
+            printable PDF{batch ? " with one card per student" : ""}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {batch && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm font-bold text-ilaw-navy">Grade</label>
+                <select value={grade} onChange={(e) => setGrade(e.target.value)} className={fieldClass}>
+                  <option value="all" disabled>
+                    Choose a grade
+                  </option>
+                  {GRADES.map((g) => (
+                    <option key={g} value={g}>
+                      {gradeName(g)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="text-sm font-bold text-ilaw-navy">Class</label>
+                <select value={classId} onChange={(e) => setClassId(e.target.value)} className={fieldClass}>
+                  <option value="all">All my students</option>
+                  {classes.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-sm font-bold text-ilaw-navy">From</label>
+              <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={fieldClass} />
+            </div>
+            <div>
+              <label className="text-sm font-bold text-ilaw-navy">To</label>
+              <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={fieldClass} />
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-bold text-ilaw-navy">
+              Teacher's comment{batch ? "s" : ""}
+              <span className="font-normal text-gray-500"> (optional)</span>
+            </p>
+            {batch && grade === "all" ? (
+              <p className="text-sm text-gray-500 mt-1">Choose a grade to see its students.</p>
+            ) : batch && studentsLoading ? (
+              <p className="text-sm text-gray-500 mt-1 flex items-center">
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Loading students…
+              </p>
+            ) : batch && !students.length ? (
+              <p className="text-sm text-gray-500 mt-1">No students in this grade.</p>
+            ) : (
+              <div className="space-y-3 mt-2">
+                {students.map((s) => (
+                  <div key={s.id}>
+                    {batch && (
+                      <label className="text-xs font-semibold text-brand-navy-700">
+                        {s.lastName}, {s.firstName}
+                      </label>
+                    )}
+                    <Textarea
+                      value={comments[s.id] ?? ""}
+                      onChange={(e) => setComment(s.id, e.target.value)}
+                      maxLength={MAX_COMMENT}
+                      rows={batch ? 2 : 4}
+                      placeholder="Leave empty to write on the printed card"
+                      className="border-2 border-brand-navy-200 text-sm"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={busy}>
+            Cancel
+          </Button>
+          <Button
+            onClick={print}
+            disabled={busy || (batch && !students.length)}
+            className="bg-ilaw-gold hover:bg-brand-amber text-ilaw-navy font-bold"
+          >
+            {busy && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            {batch ? `Download PDF (${students.length} students)` : "Download PDF"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ReportCardDialog;
@@ -0,0 +1,164 @@
+// == STUDENT RESET CODE ==
+// Issue a short-lived, single-use password reset code for one student and see
+// earlier codes. The code is only shown right after it is created (the server
+// keeps a hash). Teachers can only reset students enrolled with them.
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { Copy, KeyRound, Loader2, Plus } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+
+type ResetCodeRow = {
+  id: number;
+  expiresAt: string;
+  usedAt: string | null;
+  revokedAt: string | null;
+  failedAttempts: number;
+  createdAt: string;
+  createdBy: { id: number; firstName: string; lastName: string } | null;
+};
+
+type IssuedCode = { code: string; expiresAt: string; username: string; ttlMinutes: number };
+
+type ResetCodeDialogProps = {
+  student: { id: number; firstName: string; lastName: string } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+const codeStatus = (c: ResetCodeRow) =>
+  c.usedAt ? "Used" : c.revokedAt ? "Revoked" : new Date(c.expiresAt) < new Date() ? "Expired" : "Active";
+
+export function ResetCodeDialog({ student, open, onOpenChange }: ResetCodeDialogProps) {
+  const queryClient = useQueryClient();
+  const [busy, setBusy] = useState(false);
+  const [issued, setIssued] = useState<IssuedCode | null>(null);
+  const queryKey = ["reset-codes", student?.id];
+
+  const { data, isLoading, error } = useQuery<{ codes: ResetCodeRow[] }>({
+    queryKey,
+    queryFn: () => apiRequest("GET", `/api/students/${student!.id}/reset-codes`),
+    enabled: open && !!student,
+    retry: false,
+  });
+
+  const issueCode = async () => {
+    setBusy(true);
+    try {
+      setIssued(await apiRequest<IssuedCode>("POST", `/api/students/${student!.id}/reset-codes`, {}));
+      queryClient.invalidateQueries({ queryKey });
+    } catch (err: any) {
+      toast({ title: "Error", description: err?.message || "Request failed", variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copyCode = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(code);
+      toast({ title: "Code copied" });
+    } catch {
+      // clipboard blocked; the code is on screen
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setIssued(null);
+    onOpenChange(next);
+  };
+
+  const codes = data?.codes ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg bg-white border-2 border-brand-gold-200">
+        <DialogHeader>
+          <DialogTitle className="text-ilaw-navy flex items-center">
+            <KeyRound className="h-5 w-5 mr-2 text-ilaw-gold" />
+            Password reset code
+          </DialogTitle>
+          <DialogDescription>
+            Give {student?.firstName} a one-time code to set a new password on the "Forgot password" page. A new
+            code replaces any earlier one.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6 text-gray-500">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error instanceof Error ? error.message : "Failed to load"}</p>
+        ) : (
+          <div className="space-y-5">
+            {issued ? (
+              <div className="rounded-xl border-2 border-ilaw-gold bg-brand-gold-50 p-4 text-center">
+                <p className="text-xs text-gray-600">Username</p>
+                <p className="font-semibold text-ilaw-navy">{issued.username}</p>
+                <p className="text-xs text-gray-600 mt-3">Reset code</p>
+                <div className="flex items-center justify-center gap-2">
+                  <span className="font-mono text-3xl font-bold tracking-widest text-ilaw-navy">{issued.code}</span>
+                  <Button variant="outline" size="sm" title="Copy code" onClick={() => copyCode(issued.code)}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-gray-600 mt-3">
+                  Works once, until {new Date(issued.expiresAt).toLocaleTimeString()} ({issued.ttlMinutes} minutes).
+                  It will not be shown again.
+                </p>
+              </div>
+            ) : (
+              <Button
+                disabled={busy}
+                className="w-full bg-ilaw-gold hover:bg-brand-amber text-ilaw-navy font-bold"
+                onClick={issueCode}
+              >
+                {busy ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+                Create reset code
+              </Button>
+            )}
+
+            {/* History */}
+            <div>
+              <h4 className="text-sm font-bold text-ilaw-navy mb-2">Recent codes</h4>
+              {codes.length === 0 ? (
+                <p className="text-sm text-gray-500">No reset codes issued yet.</p>
+              ) : (
+                <ul className="space-y-2 max-h-56 overflow-auto">
+                  {codes.map((c) => {
+                    const status = codeStatus(c);
+                    return (
+                      <li key={c.id} className="flex items-center justify-between p-2 rounded-lg border text-sm">
+                        <div>
+                          <p className="text-ilaw-navy">{new Date(c.createdAt).toLocaleString()}</p>
+                          <p className="text-xs text-gray-500">
+                            by {c.createdBy ? `${c.createdBy.firstName} ${c.createdBy.lastName}` : "—"}
+                            {c.usedAt && ` · used ${new Date(c.usedAt).toLocaleString()}`}
+                            {c.failedAttempts > 0 && ` · ${c.failedAttempts} wrong tries`}
+                          </p>
+                        </div>
+                        <Badge variant={status === "Active" ? "outline" : "secondary"}>{status}</Badge>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ResetCodeDialog;
@@ -0,0 +1,275 @@
+// == STUDENT CSV IMPORT ==
+// Upload -> preview (validation + duplicate check) -> create -> print login cards.
+// Used on the admin and teacher student pages; teacher imports are enrolled
+// with that teacher on the server.
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Upload, Loader2, Printer, FileDown, CheckCircle, AlertCircle } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import { printLoginCards, type LoginCard } from "@/lib/loginCards";
+
+type PreviewRow = {
+  line: number;
+  firstName: string;
+  lastName: string;
+  gradeLevel: string;
+  username: string;
+  email: string | null;
+  hasPassword: boolean;
+  errors: string[];
+};
+
+type PreviewResponse = { rows: PreviewRow[]; valid: number; invalid: number };
+type ImportResponse = { created: number; students: LoginCard[] };
+
+const TEMPLATE_CSV =
+  "firstName,lastName,gradeLevel,username,email,password\r\n" +
+  "Juan,Dela Cruz,1,,,\r\n" +
+  "Maria,Santos,K,maria.s,,\r\n";
+
+const downloadTemplate = () => {
+  const href = URL.createObjectURL(new Blob([TEMPLATE_CSV], { type: "text/csv" }));
+  const a = document.createElement("a");
+  a.href = href;
+  a.download = "student-import-template.csv";
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(href), 1000);
+};
+
+type StudentImportDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+export function StudentImportDialog({ open, onOpenChange }: StudentImportDialogProps) {
+  const queryClient = useQueryClient();
+  const [fileName, setFileName] = useState("");
+  const [csv, setCsv] = useState("");
+  const [preview, setPreview] = useState<PreviewResponse | null>(null);
+  const [created, setCreated] = useState<LoginCard[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const reset = () => {
+    setFileName("");
+    setCsv("");
+    setPreview(null);
+    setCreated(null);
+  };
+
+  const fail = (err: any) =>
+    toast({ title: "Import failed", description: err?.message || "Request failed", variant: "destructive" });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    reset();
+    setFileName(file.name);
+    setBusy(true);
+    try {
+      const text = await file.text();
+      setCsv(text);
+      setPreview(await apiRequest<PreviewResponse>("POST", "/api/students/import/preview", { csv: text }));
+    } catch (err) {
+      fail(err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setBusy(true);
+    try {
+      const res = await apiRequest<ImportResponse>("POST", "/api/students/import", { csv });
+      setCreated(res.students);
+      setPreview(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/students"] });
+      toast({ title: "Students imported", description: `${res.created} account(s) created` });
+    } catch (err) {
+      fail(err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePrint = () => {
+    if (!created) return;
+    try {
+      printLoginCards(created);
+    } catch (err) {
+      fail(err);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) reset();
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-auto bg-ilaw-white border-2 border-ilaw-gold">
+        <DialogHeader className="border-b border-brand-gold-200 pb-4">
+          <DialogTitle className="text-xl font-sans font-bold text-ilaw-navy flex items-center">
+            <Upload className="h-5 w-5 text-ilaw-gold mr-2" />
+            Import Students from CSV
+          </DialogTitle>
+          <DialogDescription className="text-yellow-600 font-sans font-bold">
+            Columns: firstName, lastName, gradeLevel (K–6), and optionally username, email and password.
+            Missing usernames and passwords are generated; students without an email sign in with their
+            username.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!created && (
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="inline-flex items-center px-4 py-2 rounded-md bg-ilaw-navy text-white cursor-pointer hover:bg-brand-navy-800">
+              <Upload className="h-4 w-4 mr-2" />
+              {fileName ? "Choose another file" : "Choose CSV file"}
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => {
+                  handleFile(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            {fileName && <span className="text-sm text-ilaw-navy">{fileName}</span>}
+            <Button variant="outline" size="sm" onClick={downloadTemplate} className="ml-auto border-2 border-brand-gold-300">
+              <FileDown className="h-4 w-4 mr-2" />
+              Template
+            </Button>
+          </div>
+        )}
+
+        {busy && (
+          <div className="flex items-center text-sm text-yellow-600">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Working...
+          </div>
+        )}
+
+        {/* Preview */}
+        {preview && (
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <Badge className="bg-green-600 text-white">{preview.valid} ready</Badge>
+              {preview.invalid > 0 && <Badge variant="destructive">{preview.invalid} with problems</Badge>}
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-ilaw-navy">Line</TableHead>
+                  <TableHead className="text-ilaw-navy">Name</TableHead>
+                  <TableHead className="text-ilaw-navy">Grade</TableHead>
+                  <TableHead className="text-ilaw-navy">Username</TableHead>
+                  <TableHead className="text-ilaw-navy">Email</TableHead>
+                  <TableHead className="text-ilaw-navy">Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.rows.map((r) => (
+                  <TableRow key={r.line} className={r.errors.length ? "bg-red-50" : undefined}>
+                    <TableCell>{r.line}</TableCell>
+                    <TableCell>
+                      {r.firstName} {r.lastName}
+                    </TableCell>
+                    <TableCell>{r.gradeLevel}</TableCell>
+                    <TableCell className="font-mono">{r.username || "—"}</TableCell>
+                    <TableCell className="text-sm">{r.email || <span className="text-gray-400">none</span>}</TableCell>
+                    <TableCell>
+                      {r.errors.length ? (
+                        <ul className="text-xs text-red-700 space-y-0.5">
+                          {r.errors.map((e) => (
+                            <li key={e} className="flex items-start">
+                              <AlertCircle className="h-3 w-3 mr-1 mt-0.5 shrink-0" />
+                              {e}
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <CheckCircle className="h-4 w-4 text-green-600" />
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {/* Result */}
+        {created && (
+          <div className="space-y-3">
+            <p className="text-sm p-3 rounded-lg bg-amber-50 border border-amber-200 text-amber-900">
+              {created.length} student account(s) were created and approved. Print the login cards now —
+              the passwords are not shown again.
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-ilaw-navy">Name</TableHead>
+                  <TableHead className="text-ilaw-navy">Grade</TableHead>
+                  <TableHead className="text-ilaw-navy">Username</TableHead>
+                  <TableHead className="text-ilaw-navy">Password</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {created.map((s) => (
+                  <TableRow key={s.username}>
+                    <TableCell>
+                      {s.firstName} {s.lastName}
+                    </TableCell>
+                    <TableCell>{s.gradeLevel}</TableCell>
+                    <TableCell className="font-mono">{s.username}</TableCell>
+                    <TableCell className="font-mono">{s.password}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter className="border-t border-brand-gold-200 pt-4">
+          {created ? (
+            <Button onClick={handlePrint} className="bg-ilaw-navy hover:bg-brand-navy-800 text-white">
+              <Printer className="h-4 w-4 mr-2" />
+              Print login cards
+            </Button>
+          ) : (
+            <Button
+              onClick={handleImport}
+              disabled={busy || !preview || preview.invalid > 0 || preview.valid === 0}
+              className="bg-ilaw-navy hover:bg-brand-navy-800 text-white"
+            >
+              {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              Import {preview?.valid ?? 0} student(s)
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default StudentImportDialog;
@@ -0,0 +1,181 @@
+// == TRASH ==
+// Deleted books, pages and questions the user may manage, with restore and
+// delete-forever actions. Everything here is purged automatically once its
+// retention period ends (admin setting); the server deletes the images and
+// audio only then. Used on the admin and teacher book lists.
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { BookOpen, FileText, HelpCircle, Loader2, RotateCcw, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+
+type Person = { id: number; firstName: string; lastName: string } | null;
+
+type Trashed = { id: number; deletedAt: string; purgeAfter: string; deletedBy: Person };
+
+type TrashResponse = {
+  books: (Trashed & { title: string; type: string; grade: string | null })[];
+  pages: (Trashed & { pageNumber: number; title: string | null; book: { id: number; title: string } })[];
+  questions: (Trashed & {
+    questionText: string;
+    page: { id: number; pageNumber: number; book: { id: number; title: string } };
+  })[];
+  retentionDays: number;
+};
+
+type TrashKind = "books" | "pages" | "questions";
+
+type TrashDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored?: () => void; // e.g. refresh the book list
+};
+
+const formatDate = (value: string) =>
+  new Intl.DateTimeFormat("en-US", { dateStyle: "medium" }).format(new Date(value));
+
+const daysLeft = (purgeAfter: string) =>
+  Math.max(0, Math.ceil((new Date(purgeAfter).getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+
+export function TrashDialog({ open, onOpenChange, onRestored }: TrashDialogProps) {
+  const queryClient = useQueryClient();
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<TrashResponse>({
+    queryKey: ["trash"],
+    queryFn: () => apiRequest("GET", "/api/trash"),
+    enabled: open,
+  });
+
+  const act = async (kind: TrashKind, id: number, restore: boolean) => {
+    if (!restore && !window.confirm("Delete this for good? This cannot be undone.")) return;
+    setBusyKey(`${kind}:${id}`);
+    try {
+      if (restore) await apiRequest("POST", `/api/trash/${kind}/${id}/restore`);
+      else await apiRequest("DELETE", `/api/trash/${kind}/${id}`);
+      queryClient.invalidateQueries({ queryKey: ["trash"] });
+      if (restore) {
+        onRestored?.();
+        toast({ title: "Restored" });
+      } else {
+        toast({ title: "Deleted permanently" });
+      }
+    } catch (err: any) {
+      toast({ title: "Error", description: err?.message || "Request failed", variant: "destructive" });
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const empty = !!data && !data.books.length && !data.pages.length && !data.questions.length;
+
+  const row = (kind: TrashKind, item: Trashed, title: string, detail: string, Icon: typeof BookOpen) => (
+    <li key={`${kind}:${item.id}`} className="flex items-center justify-between gap-3 px-3 py-2">
+      <div className="min-w-0 flex items-start">
+        <Icon className="h-4 w-4 mr-2 mt-0.5 text-brand-navy-500 shrink-0" />
+        <div className="min-w-0">
+          <div className="text-sm font-bold text-ilaw-navy truncate">{title}</div>
+          <div className="text-xs text-gray-500">
+            {detail}
+            {detail && " · "}
+            Deleted {formatDate(item.deletedAt)}
+            {item.deletedBy && ` by ${item.deletedBy.firstName} ${item.deletedBy.lastName}`} · removed in{" "}
+            {daysLeft(item.purgeAfter)} day{daysLeft(item.purgeAfter) === 1 ? "" : "s"}
+          </div>
+        </div>
+      </div>
+      <div className="flex items-center gap-1 shrink-0">
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={!!busyKey}
+          onClick={() => act(kind, item.id, true)}
+          className="border-2 border-brand-navy-200 text-ilaw-navy font-bold"
+        >
+          {busyKey === `${kind}:${item.id}` ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <RotateCcw className="h-4 w-4 mr-1" />
+          )}
+          Restore
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          disabled={!!busyKey}
+          title="Delete forever"
+          onClick={() => act(kind, item.id, false)}
+          className="h-8 w-8 text-red-600"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </li>
+  );
+
+  const section = (label: string, items: JSX.Element[]) =>
+    items.length > 0 && (
+      <div>
+        <h3 className="text-sm font-bold text-ilaw-navy mb-1">
+          {label} ({items.length})
+        </h3>
+        <ul className="divide-y divide-brand-navy-100 border border-brand-navy-100 rounded-lg">{items}</ul>
+      </div>
+    );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-auto bg-white border-2 border-brand-gold-200">
+        <DialogHeader>
+          <DialogTitle className="text-ilaw-navy flex items-center">
+            <Trash2 className="h-5 w-5 mr-2 text-ilaw-gold" />
+            Trash
+          </DialogTitle>
+          <DialogDescription>
+            Deleted books keep their pages and student progress until they are removed for good
+            {data ? `, ${data.retentionDays} days after deletion` : ""}. Restore anything deleted by mistake.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !data ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-ilaw-gold" />
+          </div>
+        ) : empty ? (
+          <p className="text-sm text-gray-500 py-6 text-center">The trash is empty.</p>
+        ) : (
+          <div className="space-y-4">
+            {section(
+              "Books",
+              data.books.map((b) =>
+                row("books", b, b.title, b.grade ? `Grade ${b.grade}` : "", BookOpen)
+              )
+            )}
+            {section(
+              "Pages",
+              data.pages.map((p) =>
+                row("pages", p, `Page ${p.pageNumber}${p.title ? `: ${p.title}` : ""}`, p.book.title, FileText)
+              )
+            )}
+            {section(
+              "Questions",
+              data.questions.map((q) =>
+                row("questions", q, q.questionText, `${q.page.book.title}, page ${q.page.pageNumber}`, HelpCircle)
+              )
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default TrashDialog;
@@ -18,6 +18,7 @@ import {
   FormMessage,
   FormDescription,
 } from "@/components/ui/form";
+import { getAuthHeaders } from "@/lib/auth";
 
 // == TYPE DEFINITIONS ==
 export interface Question {
@@ -48,22 +49,15 @@ interface PageFormProps {
 }
 
 // == HELPERS ==
-const getToken = () => {
-  if (typeof window === "undefined") return null;
-  const t = localStorage.getItem("token");
-  return t && t !== "null" ? t : null;
-};
-
 // Upload via our API (for Cloudinary)
 async function uploadImage(file: File, folder: string) {
   const fd = new FormData();
   fd.append("file", file);
   fd.append("kind", "page_image");
 
-  const token = getToken();
   const resp = await fetch(`/api/upload?folder=${encodeURIComponent(folder)}`, {
     method: "POST",
-    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    headers: getAuthHeaders(),
     body: fd,
   });
 
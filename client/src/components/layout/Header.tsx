@@ -1,17 +1,55 @@
 // == IMPORTS & DEPENDENCIES ==
-import { Link } from "wouter";
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { Eye } from "lucide-react";
 import { Logo } from "@/components/ui/logo";
 import { Sidebar } from "@/components/layout/Sidebar";
+import { useAuth } from "@/contexts/AuthContext";
 
 // == TYPE DEFINITIONS ==
 type HeaderProps = {
-  variant?: "visitor" | "admin" | "student" | "teacher";
+  variant?: "visitor" | "admin" | "student" | "teacher" | "parent";
 };
 
 // == HEADER COMPONENT ==
 export function Header({ variant = "visitor" }: HeaderProps) {
+  const { user, stopImpersonating } = useAuth();
+  const [, navigate] = useLocation();
+  const [returning, setReturning] = useState(false);
+
+  const returnToAdmin = async () => {
+    setReturning(true);
+    try {
+      await stopImpersonating();
+      navigate("/admin");
+    } finally {
+      setReturning(false);
+    }
+  };
+
   return (
     <header className="sticky top-0 z-50 bg-ilaw-white shadow-navy border-b-2 border-ilaw-gold backdrop-blur-sm bg-opacity-95">
+      {/* == Impersonation Banner (admin "view as user") == */}
+      {user?.impersonatedBy && (
+        <div className="bg-red-600 text-white text-sm">
+          <div className="container mx-auto px-4 py-2 flex flex-wrap items-center justify-between gap-2">
+            <span className="inline-flex items-center font-medium">
+              <Eye className="w-4 h-4 mr-2" />
+              Viewing as {user.firstName} {user.lastName} ({user.role}). Everything you do is recorded under{" "}
+              {user.impersonatedBy.firstName} {user.impersonatedBy.lastName}.
+            </span>
+            <button
+              type="button"
+              onClick={returnToAdmin}
+              disabled={returning}
+              className="px-3 py-1 rounded-lg bg-white text-red-700 font-semibold hover:bg-red-50 disabled:opacity-50"
+            >
+              {returning ? "Returning..." : "Return to admin"}
+            </button>
+          </div>
+        </div>
+      )}
+
       <div className="container mx-auto px-4 py-3 flex justify-between items-center">
         
         {/* == Logo Section == */}
@@ -20,6 +58,7 @@ export function Header({ variant = "visitor" }: HeaderProps) {
             variant === "visitor" ? "/" : 
             variant === "admin" ? "/admin" : 
             variant === "teacher" ? "/teacher" :
+            variant === "parent" ? "/parent" :
             "/student"
             }>
               {/* smaller logo on mobile, larger on md+ */}
@@ -36,17 +75,19 @@ export function Header({ variant = "visitor" }: HeaderProps) {
               <span className="text-ilaw-gray font-medium">
                 {variant === "admin" ? "Admin Dashboard" : 
                  variant === "teacher" ? "Teacher Dashboard" : 
+                 variant === "parent" ? "Parent Portal" :
                  "Student Portal"}
               </span>
               <div className={`${
                 variant === "admin" 
                   ? "bg-brand-gold-100 text-ilaw-navy border border-ilaw-gold" : 
-                variant === "teacher"
+                variant === "teacher" || variant === "parent"
                   ? "bg-brand-navy-100 text-ilaw-navy border border-brand-navy-300" :
                   "bg-brand-amber text-ilaw-navy border border-brand-amber"
               } px-4 py-2 rounded-full text-sm font-semibold shadow-sm hover:shadow-ilaw transition-all duration-200`}>
                 {variant === "admin" ? "Admin" : 
                  variant === "teacher" ? "Teacher" : 
+                 variant === "parent" ? "Parent" :
                  "Student"}
               </div>
             </div>
@@ -7,7 +7,7 @@ import { Loader2 } from "lucide-react";
 // == TYPE DEFINITIONS ==
 interface ProtectedRouteProps {
   children: ReactNode;
-  role?: "admin" | "student" | "teacher";
+  role?: "admin" | "student" | "teacher" | "parent";
 }
 
 // == PROTECTED ROUTE COMPONENT ==
@@ -38,6 +38,9 @@ export default function ProtectedRoute({ children, role }: ProtectedRouteProps)
       } else if (user.role === "student") {
         console.log("ProtectedRoute - Redirecting to student dashboard");
         navigate("/student");
+      } else if (user.role === "parent") {
+        console.log("ProtectedRoute - Redirecting to parent portal");
+        navigate("/parent");
       } else {
         console.log("ProtectedRoute - Redirecting to home");
         navigate("/");
@@ -17,6 +17,7 @@ import {
   PlusCircle,
   Clock,
   GraduationCap,
+  ClipboardList,
 } from "lucide-react";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { Button } from "@/components/ui/button";
@@ -24,7 +25,7 @@ import { useMobile } from "@/hooks/use-mobile";
 
 // == TYPE DEFINITIONS ==
 type SidebarProps = {
-  variant?: "visitor" | "admin" | "student" | "teacher";
+  variant?: "visitor" | "admin" | "student" | "teacher" | "parent";
 };
 
 // == SIDEBAR COMPONENT ==
@@ -32,7 +33,7 @@ export function Sidebar({ variant = "visitor" }: SidebarProps) {
   // == Hooks & State ==
   const [location, navigate] = useLocation();
   const isMobile = useMobile();
-  const { user, logout } = useAuth();
+  const { user, logout, can } = useAuth();
   const [open, setOpen] = useState(false);
 
   // == Effects ==
@@ -109,32 +110,36 @@ export function Sidebar({ variant = "visitor" }: SidebarProps) {
           <span className="font-medium">Dashboard</span>
         </Link>
       </li>
-      <li>
-        <Link
-          href="/admin/students"
-          className={`flex items-center px-4 py-2 rounded-lg mx-2 transition-all duration-200 ${
-            location === "/admin/students"
-              ? "bg-brand-gold-100 text-ilaw-navy border-l-4 border-ilaw-gold shadow-sm"
-              : "hover:bg-ilaw-white hover:shadow-sm"
-          }`}
-        >
-          <Users className="w-5 h-5 mr-3" />
-          <span className="font-medium">Students</span>
-        </Link>
-      </li>
-      <li>
-        <Link
-          href="/admin/teacher"
-          className={`flex items-center px-4 py-2 rounded-lg mx-2 transition-all duration-200 ${
-            location === "/admin/teacher"
-              ? "bg-brand-gold-100 text-ilaw-navy border-l-4 border-ilaw-gold shadow-sm"
-              : "hover:bg-ilaw-white hover:shadow-sm"
-          }`}
-        >
-          <GraduationCap className="w-5 h-5 mr-3" />
-          <span className="font-medium">Teachers</span>
-        </Link>
-      </li>
+      {can("students.view") && (
+        <li>
+          <Link
+            href="/admin/students"
+            className={`flex items-center px-4 py-2 rounded-lg mx-2 transition-all duration-200 ${
+              location === "/admin/students"
+                ? "bg-brand-gold-100 text-ilaw-navy border-l-4 border-ilaw-gold shadow-sm"
+                : "hover:bg-ilaw-white hover:shadow-sm"
+            }`}
+          >
+            <Users className="w-5 h-5 mr-3" />
+            <span className="font-medium">Students</span>
+          </Link>
+        </li>
+      )}
+      {can("teachers.approve") && (
+        <li>
+          <Link
+            href="/admin/teacher"
+            className={`flex items-center px-4 py-2 rounded-lg mx-2 transition-all duration-200 ${
+              location === "/admin/teacher"
+                ? "bg-brand-gold-100 text-ilaw-navy border-l-4 border-ilaw-gold shadow-sm"
+                : "hover:bg-ilaw-white hover:shadow-sm"
+            }`}
+          >
+            <GraduationCap className="w-5 h-5 mr-3" />
+            <span className="font-medium">Teachers</span>
+          </Link>
+        </li>
+      )}
       <li>
         <Link
           href="/admin/books"
@@ -148,19 +153,21 @@ export function Sidebar({ variant = "visitor" }: SidebarProps) {
           <span className="font-medium">Books</span>
         </Link>
       </li>
-      <li>
-        <Link
-          href="/admin/add-book"
-          className={`flex items-center px-4 py-2 rounded-lg mx-2 transition-all duration-200 ${
-            location === "/admin/add-book"
-              ? "bg-brand-gold-100 text-ilaw-navy border-l-4 border-ilaw-gold shadow-sm"
-              : "hover:bg-ilaw-white hover:shadow-sm"
-          }`}
-        >
-          <PlusCircle className="w-5 h-5 mr-3" />
-          <span className="font-medium">Add Book</span>
-        </Link>
-      </li>
+      {can("books.create") && (
+        <li>
+          <Link
+            href="/admin/add-book"
+            className={`flex items-center px-4 py-2 rounded-lg mx-2 transition-all duration-200 ${
+              location === "/admin/add-book"
+                ? "bg-brand-gold-100 text-ilaw-navy border-l-4 border-ilaw-gold shadow-sm"
+                : "hover:bg-ilaw-white hover:shadow-sm"
+            }`}
+          >
+            <PlusCircle className="w-5 h-5 mr-3" />
+            <span className="font-medium">Add Book</span>
+          </Link>
+        </li>
+      )}
       <div className="px-6 py-3 mt-4 text-xs font-bold text-ilaw-navy uppercase tracking-wider bg-brand-gold-50 mx-2 rounded-lg">
         Settings
       </div>
@@ -207,19 +214,21 @@ export function Sidebar({ variant = "visitor" }: SidebarProps) {
           <span className="font-medium">Dashboard</span>
         </Link>
       </li>
-      <li>
-        <Link
-          href="/teacher/students"
-          className={`flex items-center px-4 py-2 rounded-lg mx-2 transition-all duration-200 ${
-            location === "/teacher/students"
-              ? "bg-brand-navy-100 text-ilaw-navy border-l-4 border-brand-navy-400 shadow-sm"
-              : "hover:bg-ilaw-white hover:shadow-sm"
-          }`}
-        >
-          <Users className="w-5 h-5 mr-3" />
-          <span className="font-medium">Students</span>
-        </Link>
-      </li>
+      {can("students.view") && (
+        <li>
+          <Link
+            href="/teacher/students"
+            className={`flex items-center px-4 py-2 rounded-lg mx-2 transition-all duration-200 ${
+              location === "/teacher/students"
+                ? "bg-brand-navy-100 text-ilaw-navy border-l-4 border-brand-navy-400 shadow-sm"
+                : "hover:bg-ilaw-white hover:shadow-sm"
+            }`}
+          >
+            <Users className="w-5 h-5 mr-3" />
+            <span className="font-medium">Students</span>
+          </Link>
+        </li>
+      )}
       <li>
         <Link
           href="/teacher/books"
@@ -233,19 +242,36 @@ export function Sidebar({ variant = "visitor" }: SidebarProps) {
           <span className="font-medium">Books</span>
         </Link>
       </li>
-      <li>
-        <Link
-          href="/teacher/add-book"
-          className={`flex items-center px-4 py-2 rounded-lg mx-2 transition-all duration-200 ${
-            location === "/teacher/add-book"
-              ? "bg-brand-navy-100 text-ilaw-navy border-l-4 border-brand-navy-400 shadow-sm"
-              : "hover:bg-ilaw-white hover:shadow-sm"
-          }`}
-        >
-          <PlusCircle className="w-5 h-5 mr-3" />
-          <span className="font-medium">Add Book</span>
-        </Link>
-      </li>
+      {can("assignments.manage") && (
+        <li>
+          <Link
+            href="/teacher/assignments"
+            className={`flex items-center px-4 py-2 rounded-lg mx-2 transition-all duration-200 ${
+              location === "/teacher/assignments"
+                ? "bg-brand-navy-100 text-ilaw-navy border-l-4 border-brand-navy-400 shadow-sm"
+                : "hover:bg-ilaw-white hover:shadow-sm"
+            }`}
+          >
+            <ClipboardList className="w-5 h-5 mr-3" />
+            <span className="font-medium">Assignments</span>
+          </Link>
+        </li>
+      )}
+      {can("books.create") && (
+        <li>
+          <Link
+            href="/teacher/add-book"
+            className={`flex items-center px-4 py-2 rounded-lg mx-2 transition-all duration-200 ${
+              location === "/teacher/add-book"
+                ? "bg-brand-navy-100 text-ilaw-navy border-l-4 border-brand-navy-400 shadow-sm"
+                : "hover:bg-ilaw-white hover:shadow-sm"
+            }`}
+          >
+            <PlusCircle className="w-5 h-5 mr-3" />
+            <span className="font-medium">Add Book</span>
+          </Link>
+        </li>
+      )}
       <div className="px-6 py-3 mt-4 text-xs font-bold text-ilaw-navy uppercase tracking-wider bg-brand-navy-50 mx-2 rounded-lg">
         Settings
       </div>
@@ -359,6 +385,52 @@ export function Sidebar({ variant = "visitor" }: SidebarProps) {
     </>
   );
 
+  const renderParentLinks = () => (
+    <>
+      <div className="px-6 py-3 text-xs font-bold text-ilaw-navy uppercase tracking-wider bg-brand-navy-50 mx-2 rounded-lg">
+        Family
+      </div>
+      <li>
+        <Link
+          href="/parent"
+          className={`flex items-center px-4 py-2 rounded-lg mx-2 transition-all duration-200 ${
+            location === "/parent" || location.startsWith("/parent/children")
+              ? "bg-brand-navy-100 text-ilaw-navy border-l-4 border-brand-navy-400 shadow-sm"
+              : "hover:bg-ilaw-white hover:shadow-sm"
+          }`}
+        >
+          <Users className="w-5 h-5 mr-3" />
+          <span className="font-medium">My Children</span>
+        </Link>
+      </li>
+      <div className="px-6 py-3 mt-4 text-xs font-bold text-ilaw-navy uppercase tracking-wider bg-brand-navy-50 mx-2 rounded-lg">
+        Account
+      </div>
+      <li>
+        <Link
+          href="/parent/settings"
+          className={`flex items-center px-4 py-2 rounded-lg mx-2 transition-all duration-200 ${
+            location.startsWith("/parent/settings")
+              ? "bg-brand-navy-100 text-ilaw-navy border-l-4 border-brand-navy-400 shadow-sm"
+              : "hover:bg-ilaw-white hover:shadow-sm"
+          }`}
+        >
+          <Settings className="w-5 h-5 mr-3" />
+          <span className="font-medium">Settings</span>
+        </Link>
+      </li>
+      <li>
+        <a
+          onClick={handleLogout}
+          className="flex items-center px-4 py-2 rounded-lg mx-2 hover:bg-red-50 text-red-600 cursor-pointer transition-all duration-200"
+        >
+          <LogOut className="w-5 h-5 mr-3" />
+          <span className="font-medium">Log Out</span>
+        </a>
+      </li>
+    </>
+  );
+
   // == User Info Renderer ==
   const userInfo = () => {
     if (!user) return null;
@@ -380,7 +452,7 @@ export function Sidebar({ variant = "visitor" }: SidebarProps) {
               className={`h-12 w-12 rounded-full ${
                 variant === "admin"
                   ? "bg-ilaw-gold text-ilaw-navy"
-                  : variant === "teacher"
+                  : variant === "teacher" || variant === "parent"
                   ? "bg-brand-navy-100 text-ilaw-navy"
                   : "bg-brand-amber text-ilaw-navy"
               } flex items-center justify-center mr-3 shadow-sm`}
@@ -394,7 +466,13 @@ export function Sidebar({ variant = "visitor" }: SidebarProps) {
             </div>
             <div className="text-sm text-ilaw-gray">{user.email}</div>
             <div className="text-xs text-ilaw-navy font-medium mt-1">
-              {variant === "admin" ? "Administrator" : variant === "teacher" ? "Teacher" : "Student"}
+              {variant === "admin"
+                ? "Administrator"
+                : variant === "teacher"
+                ? "Teacher"
+                : variant === "parent"
+                ? "Parent / Guardian"
+                : "Student"}
             </div>
           </div>
         </div>
@@ -444,6 +522,7 @@ export function Sidebar({ variant = "visitor" }: SidebarProps) {
               {variant === "admin" && renderAdminLinks()}
               {variant === "teacher" && renderTeacherLinks()}
               {variant === "student" && renderStudentLinks()}
+              {variant === "parent" && renderParentLinks()}
             </ul>
           </nav>
         </SheetContent>
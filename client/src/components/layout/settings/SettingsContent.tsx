@@ -3,10 +3,16 @@ import SecuritySettings from "./settings-sections/SecuritySettings";
 import AccountActions from "./settings-sections/AccountActions";
 import ClassSettings from "./settings-sections/ClassSettings";
 import SystemSettings from "./settings-sections/SystemSettings";
+import DeletedAccounts from "./settings-sections/DeletedAccounts";
+import AuthEventsLog from "./settings-sections/AuthEventsLog";
+import ImpersonationLog from "./settings-sections/ImpersonationLog";
+import RateLimitsLog from "./settings-sections/RateLimitsLog";
+import RolePermissions from "./settings-sections/RolePermissions";
+import Announcements from "./settings-sections/Announcements";
 
 // == TYPE DEFINITIONS ==
 type SettingsContentProps = {
-  userRole: "admin" | "teacher" | "student";
+  userRole: "admin" | "teacher" | "student" | "parent";
   activeSection: string;
   user: any;
 }
@@ -24,8 +30,20 @@ export function SettingsContent({ userRole, activeSection, user }: SettingsConte
       // "learning" section was removed — fall through to profile by default
       case "classes":
         return <ClassSettings userRole={userRole} user={user} />;
+      case "announcements":
+        return <Announcements userRole={userRole} user={user} />;
       case "system":
         return <SystemSettings userRole={userRole} user={user} />;
+      case "permissions":
+        return <RolePermissions userRole={userRole} user={user} />;
+      case "security-log":
+        return <AuthEventsLog userRole={userRole} user={user} />;
+      case "impersonation-log":
+        return <ImpersonationLog userRole={userRole} user={user} />;
+      case "rate-limits":
+        return <RateLimitsLog userRole={userRole} user={user} />;
+      case "deleted-accounts":
+        return <DeletedAccounts userRole={userRole} user={user} />;
       case "account":
         return <AccountActions userRole={userRole} user={user} />;
       default:
@@ -6,12 +6,15 @@ import { ArrowLeft } from "lucide-react";
 import { useLocation } from "wouter";
 
 type SettingsLayoutProps = {
-  userRole: "admin" | "teacher" | "student";
+  userRole: "admin" | "teacher" | "student" | "parent";
 }
 
 export function SettingsLayout({ userRole }: SettingsLayoutProps) {
   const { user } = useAuth();
-  const [activeSection, setActiveSection] = useState("profile");
+  // ?section=security deep-links straight into a section (e.g. forced 2FA setup after login)
+  const [activeSection, setActiveSection] = useState(
+    () => new URLSearchParams(window.location.search).get("section") || "profile"
+  );
   const [, navigate] = useLocation();
 
   // == Role-based theme classes ==
@@ -44,6 +47,15 @@ export function SettingsLayout({ userRole }: SettingsLayoutProps) {
           contentBg: "bg-gradient-to-br from-white to-amber-50",
           backButton: "border-2 border-amber-300 text-amber-700 hover:bg-amber-50"
         };
+      case "parent":
+        return {
+          container: "bg-gradient-to-br from-brand-navy-50 via-ilaw-white to-brand-gold-50",
+          header: "bg-ilaw-white border-brand-gold-200",
+          accent: "text-ilaw-navy",
+          sidebarBg: "bg-brand-gold-50",
+          contentBg: "bg-ilaw-white",
+          backButton: "border-2 border-brand-gold-300 text-ilaw-navy hover:bg-brand-gold-50"
+        };
       default:
         return {
           container: "bg-ilaw-white",
@@ -67,6 +79,8 @@ export function SettingsLayout({ userRole }: SettingsLayoutProps) {
         return "/teacher";
       case "student":
         return "/student";
+      case "parent":
+        return "/parent";
       default:
         return "/";
     }
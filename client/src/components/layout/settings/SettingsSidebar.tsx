@@ -1,8 +1,8 @@
-import { User, Lock, Trash2, Users, Settings as SettingsIcon, GraduationCap} from "lucide-react";
+import { User, Lock, Trash2, Users, Settings as SettingsIcon, GraduationCap, UserX, History, VenetianMask, Gauge, KeySquare, Megaphone } from "lucide-react";
 
 // == TYPE DEFINITIONS ==
 type SettingsSidebarProps = {
-  userRole: "admin" | "teacher" | "student";
+  userRole: "admin" | "teacher" | "student" | "parent";
   activeSection: string;
   setActiveSection: (section: string) => void;
 }
@@ -20,13 +20,21 @@ export function SettingsSidebar({ userRole, activeSection, setActiveSection }: S
     const roleSpecificItems = {
       admin: [
         { id: "system", label: "System Settings", icon: SettingsIcon },
+        { id: "permissions", label: "Permissions", icon: KeySquare },
+        { id: "announcements", label: "Announcements", icon: Megaphone },
+        { id: "security-log", label: "Security Log", icon: History },
+        { id: "impersonation-log", label: "View-As Log", icon: VenetianMask },
+        { id: "rate-limits", label: "Rate Limits", icon: Gauge },
+        { id: "deleted-accounts", label: "Deleted Accounts", icon: UserX },
       ],
       teacher: [
         { id: "classes", label: "Class Settings", icon: GraduationCap },
+        { id: "announcements", label: "Announcements", icon: Megaphone },
       ],
       student: [
         // Learning preferences removed
       ],
+      parent: [],
     };
 
     const accountItems = [
@@ -1,9 +1,11 @@
 import { useState } from "react";
 import { Trash2, AlertTriangle, Download, LogOut } from "lucide-react";
 import { motion, AnimatePresence } from "@/lib/motionShim";
+import { downloadFile } from "@/lib/download";
+import { getAuthHeaders } from "@/lib/auth";
 
 type AccountActionsProps = {
-  userRole: "admin" | "teacher" | "student";
+  userRole: "admin" | "teacher" | "student" | "parent";
   user: any;
 };
 
@@ -15,6 +17,8 @@ const fadeInUp = {
 export function AccountActions({ userRole, user }: AccountActionsProps) {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [deleteConfirmText, setDeleteConfirmText] = useState("");
+  const [revokedCount, setRevokedCount] = useState<number | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
 
   // == Role-based styling (admin-first polish) ==
   const getRoleStyles = () => {
@@ -73,35 +77,36 @@ export function AccountActions({ userRole, user }: AccountActionsProps) {
   const s = getRoleStyles();
 
   const handleExportData = async () => {
+    setIsExporting(true);
     try {
-      const token = localStorage.getItem("token");
-      const response = await fetch("/api/user/export", {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      const data = await response.json();
-      console.log("📤 Export data:", data);
-
-      if (data.success) {
-        alert("Data exported successfully! Check console for details.");
-      }
+      await downloadFile("/api/user/export", "data-export.zip");
     } catch (error) {
       console.error("Export error:", error);
-      alert("Failed to export data");
+      alert("Failed to export data: " + (error as Error).message);
+    } finally {
+      setIsExporting(false);
     }
   };
 
   const handleLogoutAllDevices = async () => {
     try {
-      const token = localStorage.getItem("token");
       const response = await fetch("/api/user/logout-all", {
         method: "POST",
-        headers: { Authorization: `Bearer ${token}` },
+        headers: getAuthHeaders(),
       });
       const data = await response.json();
       console.log("🚪 Logout all:", data);
 
       if (data.success) {
-        alert("Logged out from all devices successfully!");
+        const count = Number(data.revokedCount) || 0;
+        setRevokedCount(count);
+        alert(
+          count === 0
+            ? "No other active sessions were found."
+            : `Signed out ${count} other session${count === 1 ? "" : "s"}.`
+        );
+      } else {
+        alert("Failed to logout from all devices: " + data.message);
       }
     } catch (error) {
       console.error("Logout all error:", error);
@@ -112,19 +117,18 @@ export function AccountActions({ userRole, user }: AccountActionsProps) {
   const handleDeleteAccount = async () => {
     if (deleteConfirmText === "DELETE") {
       try {
-        const token = localStorage.getItem("token");
         const response = await fetch("/api/user/account", {
           method: "DELETE",
-          headers: { Authorization: `Bearer ${token}` },
+          headers: getAuthHeaders(),
         });
 
         const data = await response.json();
 
         if (data.success) {
-          console.log("✅ Account deleted successfully");
+          console.log("✅ Account scheduled for deletion");
+          alert(data.message);
 
           // Clear all local data
-          localStorage.removeItem("token");
           localStorage.removeItem("user");
 
           // Redirect to home/login page
@@ -168,17 +172,18 @@ export function AccountActions({ userRole, user }: AccountActionsProps) {
                 Export Your Data
               </h3>
               <p className={`text-sm mb-4 ${s.subtleCardText}`}>
-                Download a copy of all your account data including profile information, activity
-                history, and preferences.
+                Download a .zip with your profile, reading progress, reading sessions, quiz
+                attempts, story checkpoints, badges and settings (JSON plus one CSV per table).
               </p>
               <motion.button
                 whileHover={{ scale: 1.02 }}
                 whileTap={{ scale: 0.98 }}
                 onClick={handleExportData}
-                className={`px-4 py-2 rounded-lg ${s.primaryBtn} inline-flex items-center`}
+                disabled={isExporting}
+                className={`px-4 py-2 rounded-lg ${s.primaryBtn} inline-flex items-center disabled:opacity-60`}
               >
                 <Download className="w-4 h-4 mr-2" />
-                Export Data
+                {isExporting ? "Preparing..." : "Export Data"}
               </motion.button>
             </div>
           </div>
@@ -208,6 +213,13 @@ export function AccountActions({ userRole, user }: AccountActionsProps) {
                 <LogOut className="w-4 h-4 mr-2" />
                 Logout All Devices
               </motion.button>
+              {revokedCount !== null && (
+                <p className="text-sm text-ilaw-navy/80 mt-3">
+                  {revokedCount === 0
+                    ? "No other sessions were active."
+                    : `${revokedCount} session${revokedCount === 1 ? " was" : "s were"} revoked.`}
+                </p>
+              )}
             </div>
           </div>
         </motion.div>
@@ -225,8 +237,9 @@ export function AccountActions({ userRole, user }: AccountActionsProps) {
             <div className="flex-1">
               <h3 className="font-heading font-bold text-red-800 mb-2">Delete Account</h3>
               <p className="text-sm text-red-600 mb-4">
-                Permanently delete your account and all associated data. This action cannot be
-                undone.
+                Your account is signed out everywhere and scheduled for deletion. You can restore
+                it by signing in during the grace period; after that it and all associated data
+                are permanently removed.
               </p>
 
               <AnimatePresence initial={false}>
@@ -0,0 +1,423 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Megaphone, Plus, Loader, Pencil, Trash2, Pin, Wrench, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { RichText } from "@/components/RichText";
+
+type AnnouncementsProps = {
+  userRole: "admin" | "teacher" | "student" | "parent";
+  user: any;
+};
+
+type Audience = "school" | "role" | "grade" | "class";
+type Kind = "general" | "maintenance";
+
+type AnnouncementRow = {
+  id: number;
+  title: string;
+  body: string;
+  kind: Kind;
+  audience: Audience;
+  audienceRole: string | null;
+  audienceGrade: string | null;
+  audienceClassId: number | null;
+  pinned: boolean;
+  publishAt: string;
+  expiresAt: string | null;
+  createdBy: { id: number; firstName: string; lastName: string } | null;
+  class: { id: number; name: string } | null;
+  readCount: number;
+};
+
+type Draft = {
+  title: string;
+  body: string;
+  kind: Kind;
+  audience: Audience;
+  audienceRole: string;
+  audienceGrade: string;
+  audienceClassId: string;
+  pinned: boolean;
+  publishAt: string;
+  expiresAt: string;
+};
+
+const ROLES = [
+  { value: "student", label: "Students" },
+  { value: "teacher", label: "Teachers" },
+  { value: "parent", label: "Parents" },
+  { value: "admin", label: "Admins" },
+];
+const GRADES = ["K", "1", "2", "3", "4", "5", "6"];
+const gradeLabel = (g: string) => (g === "K" ? "Kinder" : `Grade ${g}`);
+
+const emptyDraft: Draft = {
+  title: "",
+  body: "",
+  kind: "general",
+  audience: "school",
+  audienceRole: "student",
+  audienceGrade: "1",
+  audienceClassId: "",
+  pinned: false,
+  publishAt: "",
+  expiresAt: "",
+};
+
+// <input type="datetime-local"> works in local time without a zone
+const toLocalInput = (iso: string | null) => {
+  if (!iso) return "";
+  const d = new Date(iso);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+const fromLocalInput = (v: string) => (v ? new Date(v).toISOString() : null);
+const formatWhen = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+const audienceLabel = (a: AnnouncementRow) => {
+  switch (a.audience) {
+    case "role":
+      return ROLES.find(r => r.value === a.audienceRole)?.label ?? a.audienceRole;
+    case "grade":
+      return a.audienceGrade ? `${gradeLabel(a.audienceGrade)} students` : "Grade";
+    case "class":
+      return a.class?.name ?? "Class";
+    default:
+      return "Whole school";
+  }
+};
+
+const fieldClass =
+  "px-3 py-2 border-2 border-brand-navy-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-ilaw-gold bg-white text-ilaw-navy";
+
+// == ANNOUNCEMENTS ==
+// Post notices to the dashboards. Teachers reach their own classes; admins
+// (announcements.school) any audience, and can write the maintenance page message.
+export function Announcements(_props: AnnouncementsProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const schoolWide = can("announcements.school");
+
+  const [draft, setDraft] = useState<Draft>(schoolWide ? emptyDraft : { ...emptyDraft, audience: "class" });
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [preview, setPreview] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const { data, isLoading } = useQuery<{ announcements: AnnouncementRow[] }>({
+    queryKey: ["announcements"],
+    queryFn: () => apiRequest("GET", "/api/announcements"),
+  });
+
+  const { data: classesData } = useQuery<{ classes: { id: number; name: string }[] }>({
+    queryKey: ["classes", false],
+    queryFn: () => apiRequest("GET", "/api/classes"),
+  });
+
+  const set = <K extends keyof Draft>(key: K, value: Draft[K]) => setDraft(d => ({ ...d, [key]: value }));
+
+  const reset = () => {
+    setDraft(schoolWide ? emptyDraft : { ...emptyDraft, audience: "class" });
+    setEditingId(null);
+    setPreview(false);
+  };
+
+  const fail = (error: any) =>
+    toast({ title: "Error", description: error?.message || "Request failed", variant: "destructive" });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["announcements"] });
+    queryClient.invalidateQueries({ queryKey: ["announcements-feed"] });
+  };
+
+  const save = async () => {
+    if (!draft.title.trim() || !draft.body.trim()) return;
+    setBusy(true);
+    try {
+      const payload = {
+        title: draft.title.trim(),
+        body: draft.body.trim(),
+        kind: draft.kind,
+        audience: draft.audience,
+        audienceRole: draft.audienceRole,
+        audienceGrade: draft.audienceGrade,
+        audienceClassId: draft.audienceClassId ? Number(draft.audienceClassId) : null,
+        pinned: draft.pinned,
+        publishAt: fromLocalInput(draft.publishAt),
+        expiresAt: fromLocalInput(draft.expiresAt),
+      };
+      if (editingId) {
+        await apiRequest("PATCH", `/api/announcements/${editingId}`, payload);
+        toast({ title: "Announcement updated" });
+      } else {
+        await apiRequest("POST", "/api/announcements", payload);
+        toast({ title: "Announcement posted", description: draft.title.trim() });
+      }
+      reset();
+      refresh();
+    } catch (e) {
+      fail(e);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const edit = (a: AnnouncementRow) => {
+    setEditingId(a.id);
+    setPreview(false);
+    setDraft({
+      title: a.title,
+      body: a.body,
+      kind: a.kind,
+      audience: a.audience,
+      audienceRole: a.audienceRole ?? "student",
+      audienceGrade: a.audienceGrade ?? "1",
+      audienceClassId: a.audienceClassId ? String(a.audienceClassId) : "",
+      pinned: a.pinned,
+      publishAt: toLocalInput(a.publishAt),
+      expiresAt: toLocalInput(a.expiresAt),
+    });
+  };
+
+  const remove = async (a: AnnouncementRow) => {
+    if (!confirm(`Delete "${a.title}"?`)) return;
+    try {
+      await apiRequest("DELETE", `/api/announcements/${a.id}`);
+      toast({ title: "Announcement deleted" });
+      if (editingId === a.id) reset();
+      refresh();
+    } catch (e) {
+      fail(e);
+    }
+  };
+
+  const announcements = data?.announcements ?? [];
+  const classes = classesData?.classes ?? [];
+  const now = Date.now();
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="bg-white border-2 border-brand-navy-200 rounded-2xl p-6">
+        <div className="flex items-center mb-2">
+          <Megaphone className="w-5 h-5 mr-2 text-ilaw-gold" />
+          <h3 className="font-heading font-bold text-ilaw-navy">
+            {editingId ? "Edit announcement" : "New announcement"}
+          </h3>
+        </div>
+        <p className="text-sm text-ilaw-navy/70 mb-4">
+          Shown on the student and teacher dashboards from the publish time until it expires.
+          {schoolWide
+            ? " A maintenance notice also replaces the message on the maintenance page while maintenance mode is on."
+            : " You can post to your own classes."}
+        </p>
+
+        <div className="space-y-3">
+          <input
+            value={draft.title}
+            onChange={e => set("title", e.target.value)}
+            placeholder="Title"
+            maxLength={200}
+            className={`${fieldClass} w-full`}
+          />
+          {preview ? (
+            <div className="min-h-[7rem] p-3 border-2 border-dashed border-brand-navy-200 rounded-xl">
+              <RichText text={draft.body || "Nothing to preview yet."} className="text-sm text-gray-700" />
+            </div>
+          ) : (
+            <textarea
+              value={draft.body}
+              onChange={e => set("body", e.target.value)}
+              placeholder="Message"
+              rows={5}
+              maxLength={5000}
+              className={`${fieldClass} w-full`}
+            />
+          )}
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>**bold**, *italic*, [link](https://…), "- " for a list, blank line for a new paragraph</span>
+            <button type="button" onClick={() => setPreview(p => !p)} className="underline text-ilaw-navy">
+              {preview ? "Edit" : "Preview"}
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <select
+              value={draft.audience}
+              onChange={e => set("audience", e.target.value as Audience)}
+              className={fieldClass}
+              disabled={!schoolWide}
+            >
+              {schoolWide && <option value="school">Whole school</option>}
+              {schoolWide && <option value="role">A role</option>}
+              {schoolWide && <option value="grade">A grade</option>}
+              <option value="class">A class</option>
+            </select>
+            {draft.audience === "role" && (
+              <select value={draft.audienceRole} onChange={e => set("audienceRole", e.target.value)} className={fieldClass}>
+                {ROLES.map(r => (
+                  <option key={r.value} value={r.value}>
+                    {r.label}
+                  </option>
+                ))}
+              </select>
+            )}
+            {draft.audience === "grade" && (
+              <select value={draft.audienceGrade} onChange={e => set("audienceGrade", e.target.value)} className={fieldClass}>
+                {GRADES.map(g => (
+                  <option key={g} value={g}>
+                    {gradeLabel(g)}
+                  </option>
+                ))}
+              </select>
+            )}
+            {draft.audience === "class" && (
+              <select
+                value={draft.audienceClassId}
+                onChange={e => set("audienceClassId", e.target.value)}
+                className={fieldClass}
+              >
+                <option value="">Choose a class</option>
+                {classes.map(c => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            {schoolWide && (
+              <select value={draft.kind} onChange={e => set("kind", e.target.value as Kind)} className={fieldClass}>
+                <option value="general">General</option>
+                <option value="maintenance">Planned maintenance</option>
+              </select>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+            <label className="text-sm text-ilaw-navy">
+              Publish at <span className="text-gray-400">(empty = now)</span>
+              <input
+                type="datetime-local"
+                value={draft.publishAt}
+                onChange={e => set("publishAt", e.target.value)}
+                className={`${fieldClass} w-full`}
+              />
+            </label>
+            <label className="text-sm text-ilaw-navy">
+              Expires at <span className="text-gray-400">(optional)</span>
+              <input
+                type="datetime-local"
+                value={draft.expiresAt}
+                onChange={e => set("expiresAt", e.target.value)}
+                className={`${fieldClass} w-full`}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-ilaw-navy pb-2">
+              <input type="checkbox" checked={draft.pinned} onChange={e => set("pinned", e.target.checked)} />
+              Pin to the top
+            </label>
+          </div>
+        </div>
+
+        <div className="flex gap-2 mt-4">
+          <button
+            type="button"
+            onClick={save}
+            disabled={
+              busy || !draft.title.trim() || !draft.body.trim() || (draft.audience === "class" && !draft.audienceClassId)
+            }
+            className="px-4 py-2 bg-ilaw-gold hover:bg-brand-amber text-ilaw-navy rounded-xl inline-flex items-center font-heading font-bold disabled:opacity-50"
+          >
+            {busy ? <Loader className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+            {editingId ? "Save changes" : "Post announcement"}
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              onClick={reset}
+              className="px-4 py-2 rounded-xl border border-gray-300 text-gray-700 inline-flex items-center"
+            >
+              <X className="w-4 h-4 mr-1" />
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* List */}
+      <div className="bg-white border-2 border-brand-navy-200 rounded-2xl p-6">
+        <h3 className="font-heading font-bold text-ilaw-navy mb-4">
+          {schoolWide ? "All announcements" : "Your announcements"}
+        </h3>
+        {isLoading ? (
+          <div className="flex items-center text-sm text-gray-500">
+            <Loader className="w-4 h-4 mr-2 animate-spin" />
+            Loading announcements...
+          </div>
+        ) : announcements.length === 0 ? (
+          <p className="text-sm text-gray-500">No announcements yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {announcements.map(a => {
+              const scheduled = new Date(a.publishAt).getTime() > now;
+              const expired = !!a.expiresAt && new Date(a.expiresAt).getTime() <= now;
+              return (
+                <div
+                  key={a.id}
+                  className="flex flex-wrap items-center justify-between gap-2 p-3 border border-brand-navy-200 rounded-xl"
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      {a.pinned && <Pin className="w-4 h-4 text-ilaw-gold" />}
+                      {a.kind === "maintenance" && <Wrench className="w-4 h-4 text-amber-600" />}
+                      <span className="font-bold text-ilaw-navy truncate">{a.title}</span>
+                      {scheduled ? (
+                        <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-blue-100 text-blue-800">
+                          Scheduled
+                        </span>
+                      ) : expired ? (
+                        <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">
+                          Expired
+                        </span>
+                      ) : (
+                        <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-green-100 text-green-800">
+                          Live
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {audienceLabel(a)} · {formatWhen(a.publishAt)}
+                      {a.expiresAt ? ` – ${formatWhen(a.expiresAt)}` : ""} · read by {a.readCount}
+                      {schoolWide && a.createdBy ? ` · ${a.createdBy.firstName} ${a.createdBy.lastName}` : ""}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => edit(a)}
+                      className="px-3 py-1.5 rounded-lg border border-gray-300 text-gray-700 text-sm inline-flex items-center"
+                    >
+                      <Pencil className="w-4 h-4 mr-1" />
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => remove(a)}
+                      className="px-3 py-1.5 rounded-lg border border-red-300 text-red-700 text-sm inline-flex items-center"
+                    >
+                      <Trash2 className="w-4 h-4 mr-1" />
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default Announcements;
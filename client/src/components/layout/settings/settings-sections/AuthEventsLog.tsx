@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { History, Search, Loader, ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { apiRequest } from "@/lib/queryClient";
+import { AUTH_EVENT_LABELS, authEventLabel, describeUserAgent, isWarningEvent } from "@/lib/authEvents";
+import { motion } from "@/lib/motionShim";
+
+type AuthEventsLogProps = {
+  userRole: "admin" | "teacher" | "student" | "parent";
+  user: any;
+};
+
+interface AuthEventRow {
+  id: number;
+  type: string;
+  identifier: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+  userId: number | null;
+  username: string | null;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  role: string | null;
+}
+
+interface AuthEventsResponse {
+  events: AuthEventRow[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+const PAGE_SIZE = 25;
+
+// == SECURITY LOG (ADMIN) ==
+// Searchable view over auth_events for every account.
+export function AuthEventsLog(_props: AuthEventsLogProps) {
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [type, setType] = useState("all");
+  const [page, setPage] = useState(1);
+
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+  if (search) params.set("search", search);
+  if (type !== "all") params.set("type", type);
+
+  const { data, isLoading, isFetching } = useQuery<AuthEventsResponse>({
+    queryKey: ["admin-auth-events", search, type, page],
+    queryFn: () => apiRequest("GET", `/api/admin/auth-events?${params.toString()}`),
+  });
+
+  const events = data?.events ?? [];
+  const totalPages = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE));
+
+  const applySearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setSearch(searchInput.trim());
+  };
+
+  return (
+    <motion.div
+      className="w-full max-w-none space-y-6 p-6"
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.45, ease: "easeOut" }}
+    >
+      <Card className="border-2 border-brand-gold-200 shadow-lg w-full max-w-none">
+        <CardHeader className="border-b border-brand-gold-200 bg-brand-gold-50">
+          <CardTitle className="text-ilaw-navy font-heading font-bold flex items-center">
+            <History className="w-6 h-6 text-ilaw-gold mr-2" />
+            Security Log
+          </CardTitle>
+          <CardDescription className="text-brand-gold-600">
+            Sign-ins, failed attempts, lockouts, password changes and resets across all accounts.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="p-6 space-y-4">
+          <form onSubmit={applySearch} className="flex flex-col md:flex-row gap-3">
+            <div className="relative flex-1">
+              <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+              <Input
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Search by name, email, username or IP"
+                className="pl-9"
+              />
+            </div>
+            <Select
+              value={type}
+              onValueChange={(v) => {
+                setType(v);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="md:w-60">
+                <SelectValue placeholder="All events" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All events</SelectItem>
+                {Object.entries(AUTH_EVENT_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" className="bg-ilaw-navy hover:bg-ilaw-navy/90 text-white">
+              Search
+            </Button>
+          </form>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-10">
+              <Loader className="w-6 h-6 animate-spin text-ilaw-gold mr-2" />
+              <span className="text-ilaw-navy font-heading font-bold">Loading events...</span>
+            </div>
+          ) : events.length === 0 ? (
+            <p className="text-center text-gray-500 py-10">No events match these filters.</p>
+          ) : (
+            <div className="overflow-x-auto border border-brand-gold-100 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-brand-gold-50 text-ilaw-navy">
+                  <tr>
+                    <th className="text-left px-3 py-2">When</th>
+                    <th className="text-left px-3 py-2">Event</th>
+                    <th className="text-left px-3 py-2">Account</th>
+                    <th className="text-left px-3 py-2">Device</th>
+                    <th className="text-left px-3 py-2">IP</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-brand-gold-100">
+                  {events.map((ev) => (
+                    <tr key={ev.id} className={isFetching ? "opacity-60" : ""}>
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                        {new Date(ev.createdAt).toLocaleString()}
+                      </td>
+                      <td className="px-3 py-2">
+                        <Badge
+                          variant={isWarningEvent(ev.type) ? "destructive" : "outline"}
+                          className="whitespace-nowrap"
+                        >
+                          {authEventLabel(ev.type)}
+                        </Badge>
+                        {typeof ev.metadata?.reason === "string" && (
+                          <span className="ml-2 text-xs text-gray-500">
+                            {ev.metadata.reason.replace(/_/g, " ")}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        {ev.userId ? (
+                          <>
+                            <div className="font-medium text-ilaw-navy">
+                              {ev.firstName} {ev.lastName}
+                              {ev.role && (
+                                <span className="ml-1 text-xs text-gray-500 capitalize">({ev.role})</span>
+                              )}
+                            </div>
+                            <div className="text-xs text-gray-500">{ev.email}</div>
+                          </>
+                        ) : (
+                          <span className="text-gray-500">{ev.identifier || "Unknown"}</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">{describeUserAgent(ev.userAgent)}</td>
+                      <td className="px-3 py-2 text-gray-600">{ev.ipAddress || "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between text-sm text-gray-600">
+            <span>{data?.total ?? 0} event(s)</span>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                disabled={page <= 1}
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <span>
+                Page {page} of {totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                disabled={page >= totalPages}
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
+
+export default AuthEventsLog;
@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Ticket, Plus, Loader, Copy, Ban } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type JoinCode = {
+  id: number;
+  code: string; // formatted ABCD-EFGH
+  gradeLevel: string;
+  label: string | null;
+  class: { id: number; name: string } | null;
+  maxUses: number | null;
+  usesCount: number;
+  expiresAt: string;
+  revokedAt: string | null;
+  createdAt: string;
+};
+
+const GRADES = ["K", "1", "2", "3", "4", "5", "6"];
+const gradeLabel = (g: string) => (g === "K" ? "Kinder" : `Grade ${g}`);
+
+const codeStatus = (c: JoinCode) => {
+  if (c.revokedAt) return { text: "Revoked", cls: "bg-gray-100 text-gray-600" };
+  if (new Date(c.expiresAt).getTime() <= Date.now()) return { text: "Expired", cls: "bg-gray-100 text-gray-600" };
+  if (c.maxUses != null && c.usesCount >= c.maxUses) return { text: "Full", cls: "bg-amber-100 text-amber-800" };
+  return { text: "Active", cls: "bg-green-100 text-green-800" };
+};
+
+const fieldClass =
+  "px-3 py-2 border-2 border-brand-navy-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-ilaw-gold bg-white text-ilaw-navy";
+
+export function ClassJoinCodes() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const [gradeLevel, setGradeLevel] = useState("1");
+  const [classId, setClassId] = useState(""); // "" = no class, just enrolled with me
+  const [label, setLabel] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState(14);
+  const [maxUses, setMaxUses] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const { data, isLoading } = useQuery<{ codes: JoinCode[] }>({
+    queryKey: ["teacher-join-codes"],
+    queryFn: () => apiRequest("GET", "/api/teacher/join-codes"),
+  });
+
+  const { data: classesData } = useQuery<{ classes: { id: number; name: string; gradeLevel: string }[] }>({
+    queryKey: ["classes", false],
+    queryFn: () => apiRequest("GET", "/api/classes"),
+  });
+  const classes = classesData?.classes ?? [];
+
+  const fail = (error: any) =>
+    toast({ title: "Error", description: error?.message || "Request failed", variant: "destructive" });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["teacher-join-codes"] });
+
+  const createCode = async () => {
+    setBusy(true);
+    try {
+      const res = await apiRequest<{ code: JoinCode }>("POST", "/api/teacher/join-codes", {
+        gradeLevel,
+        classId: classId ? Number(classId) : null,
+        label: label.trim() || undefined,
+        expiresInDays,
+        maxUses: maxUses ? Number(maxUses) : null,
+      });
+      toast({ title: "Class code created", description: res.code.code });
+      setLabel("");
+      setMaxUses("");
+      refresh();
+    } catch (e) {
+      fail(e);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revokeCode = async (id: number) => {
+    if (!confirm("Revoke this class code? Students already enrolled stay enrolled.")) return;
+    try {
+      await apiRequest("DELETE", `/api/teacher/join-codes/${id}`);
+      toast({ title: "Class code revoked" });
+      refresh();
+    } catch (e) {
+      fail(e);
+    }
+  };
+
+  const copyLink = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/register?code=${code}`);
+      toast({ title: "Sign-up link copied" });
+    } catch {
+      // clipboard blocked; code is still on screen
+    }
+  };
+
+  const codes = data?.codes ?? [];
+
+  return (
+    <div className="bg-white border-2 border-brand-navy-200 rounded-2xl p-6">
+      <div className="flex items-center mb-2">
+        <Ticket className="w-5 h-5 mr-2 text-ilaw-gold" />
+        <h3 className="font-heading font-bold text-ilaw-navy">Class join codes</h3>
+      </div>
+      <p className="text-sm text-ilaw-navy/70 mb-4">
+        Students who sign up with one of your codes are approved automatically, placed in the
+        code's grade and added to your students (and to the code's class, while it has room).
+      </p>
+
+      {/* Create */}
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-3 mb-4">
+        <select value={classId} onChange={e => setClassId(e.target.value)} className={fieldClass}>
+          <option value="">No class</option>
+          {classes.map(c => (
+            <option key={c.id} value={c.id}>
+              {c.name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={classId ? classes.find(c => String(c.id) === classId)?.gradeLevel ?? gradeLevel : gradeLevel}
+          onChange={e => setGradeLevel(e.target.value)}
+          disabled={!!classId}
+          className={fieldClass}
+        >
+          {GRADES.map(g => (
+            <option key={g} value={g}>
+              {gradeLabel(g)}
+            </option>
+          ))}
+        </select>
+        <input
+          value={label}
+          onChange={e => setLabel(e.target.value)}
+          placeholder="Label (e.g. Section Rose)"
+          maxLength={100}
+          className={fieldClass}
+        />
+        <select
+          value={expiresInDays}
+          onChange={e => setExpiresInDays(parseInt(e.target.value))}
+          className={fieldClass}
+        >
+          {[1, 7, 14, 30, 60, 90].map(d => (
+            <option key={d} value={d}>
+              Expires in {d} day{d === 1 ? "" : "s"}
+            </option>
+          ))}
+        </select>
+        <input
+          value={maxUses}
+          onChange={e => setMaxUses(e.target.value.replace(/\D/g, ""))}
+          placeholder="Max students (optional)"
+          inputMode="numeric"
+          className={fieldClass}
+        />
+      </div>
+      <button
+        type="button"
+        onClick={createCode}
+        disabled={busy}
+        className="px-4 py-2 bg-ilaw-gold hover:bg-brand-amber text-ilaw-navy rounded-xl inline-flex items-center font-heading font-bold disabled:opacity-50"
+      >
+        {busy ? <Loader className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+        Create code
+      </button>
+
+      {/* List */}
+      <div className="mt-6 space-y-2">
+        {isLoading ? (
+          <div className="flex items-center text-sm text-gray-500">
+            <Loader className="w-4 h-4 mr-2 animate-spin" />
+            Loading class codes...
+          </div>
+        ) : codes.length === 0 ? (
+          <p className="text-sm text-gray-500">No class codes yet.</p>
+        ) : (
+          codes.map(c => {
+            const status = codeStatus(c);
+            return (
+              <div
+                key={c.id}
+                className="flex flex-wrap items-center justify-between gap-2 p-3 border border-brand-navy-200 rounded-xl"
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono font-bold text-ilaw-navy">{c.code}</span>
+                    <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${status.cls}`}>
+                      {status.text}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {gradeLabel(c.gradeLevel)}
+                    {c.class ? ` · ${c.class.name}` : c.label ? ` · ${c.label}` : ""} · {c.usesCount}
+                    {c.maxUses != null ? `/${c.maxUses}` : ""} joined · expires{" "}
+                    {new Date(c.expiresAt).toLocaleDateString()}
+                  </p>
+                </div>
+                {status.text === "Active" && (
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => copyLink(c.code)}
+                      className="px-3 py-1.5 rounded-lg border border-gray-300 text-gray-700 text-sm inline-flex items-center"
+                    >
+                      <Copy className="w-4 h-4 mr-1" />
+                      Copy link
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => revokeCode(c.id)}
+                      className="px-3 py-1.5 rounded-lg border border-red-300 text-red-700 text-sm inline-flex items-center"
+                    >
+                      <Ban className="w-4 h-4 mr-1" />
+                      Revoke
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ClassJoinCodes;
@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { School, Plus, Loader, Users, Archive, ArchiveRestore, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ClassRosterDialog } from "@/components/admin/ClassRosterDialog";
+
+export type ClassRow = {
+  id: number;
+  name: string;
+  gradeLevel: string;
+  schoolYear: string;
+  archivedAt: string | null;
+  teachers: { id: number; firstName: string; lastName: string }[];
+  studentCount: number;
+  capacity: number;
+};
+
+type ClassesResponse = { classes: ClassRow[]; currentSchoolYear: string };
+
+const GRADES = ["K", "1", "2", "3", "4", "5", "6"];
+const gradeLabel = (g: string) => (g === "K" ? "Kinder" : `Grade ${g}`);
+
+const fieldClass =
+  "px-3 py-2 border-2 border-brand-navy-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-ilaw-gold bg-white text-ilaw-navy";
+
+export function ClassRosters() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const [name, setName] = useState("");
+  const [gradeLevel, setGradeLevel] = useState("1");
+  const [schoolYear, setSchoolYear] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [rosterFor, setRosterFor] = useState<ClassRow | null>(null);
+
+  const { data, isLoading } = useQuery<ClassesResponse>({
+    queryKey: ["classes", showArchived],
+    queryFn: () => apiRequest("GET", `/api/classes${showArchived ? "?archived=1" : ""}`),
+  });
+
+  const fail = (error: any) =>
+    toast({ title: "Error", description: error?.message || "Request failed", variant: "destructive" });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["classes"] });
+
+  const createClass = async () => {
+    if (!name.trim()) return;
+    setBusy(true);
+    try {
+      await apiRequest("POST", "/api/classes", {
+        name: name.trim(),
+        gradeLevel,
+        schoolYear: schoolYear.trim() || undefined,
+      });
+      toast({ title: "Class created", description: name.trim() });
+      setName("");
+      refresh();
+    } catch (e) {
+      fail(e);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const setArchived = async (c: ClassRow, archived: boolean) => {
+    try {
+      await apiRequest("PATCH", `/api/classes/${c.id}`, { archived });
+      toast({ title: archived ? "Class archived" : "Class restored" });
+      refresh();
+    } catch (e) {
+      fail(e);
+    }
+  };
+
+  const deleteClass = async (c: ClassRow) => {
+    if (!confirm(`Delete ${c.name}? Its roster is removed; the students' accounts stay.`)) return;
+    try {
+      await apiRequest("DELETE", `/api/classes/${c.id}`);
+      toast({ title: "Class deleted" });
+      refresh();
+    } catch (e) {
+      fail(e);
+    }
+  };
+
+  const classes = data?.classes ?? [];
+
+  return (
+    <div className="bg-white border-2 border-brand-navy-200 rounded-2xl p-6">
+      <div className="flex items-center mb-2">
+        <School className="w-5 h-5 mr-2 text-ilaw-gold" />
+        <h3 className="font-heading font-bold text-ilaw-navy">Classes & rosters</h3>
+      </div>
+      <p className="text-sm text-ilaw-navy/70 mb-4">
+        You see progress, quiz results and badges for the students in your classes. A class can't grow past
+        the maximum class size above (the smallest one when several teachers share it).
+      </p>
+
+      {/* Create */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="Class name (e.g. Grade 3 - Sampaguita)"
+          maxLength={100}
+          className={fieldClass}
+        />
+        <select value={gradeLevel} onChange={e => setGradeLevel(e.target.value)} className={fieldClass}>
+          {GRADES.map(g => (
+            <option key={g} value={g}>
+              {gradeLabel(g)}
+            </option>
+          ))}
+        </select>
+        <input
+          value={schoolYear}
+          onChange={e => setSchoolYear(e.target.value)}
+          placeholder={`School year (${data?.currentSchoolYear ?? "2026-2027"})`}
+          maxLength={9}
+          className={fieldClass}
+        />
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <button
+          type="button"
+          onClick={createClass}
+          disabled={busy || !name.trim()}
+          className="px-4 py-2 bg-ilaw-gold hover:bg-brand-amber text-ilaw-navy rounded-xl inline-flex items-center font-heading font-bold disabled:opacity-50"
+        >
+          {busy ? <Loader className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+          Create class
+        </button>
+        <label className="flex items-center gap-2 text-sm text-ilaw-navy/70">
+          <input type="checkbox" checked={showArchived} onChange={e => setShowArchived(e.target.checked)} />
+          Show archived
+        </label>
+      </div>
+
+      {/* List */}
+      <div className="mt-6 space-y-2">
+        {isLoading ? (
+          <div className="flex items-center text-sm text-gray-500">
+            <Loader className="w-4 h-4 mr-2 animate-spin" />
+            Loading classes...
+          </div>
+        ) : classes.length === 0 ? (
+          <p className="text-sm text-gray-500">No classes yet.</p>
+        ) : (
+          classes.map(c => (
+            <div
+              key={c.id}
+              className="flex flex-wrap items-center justify-between gap-2 p-3 border border-brand-navy-200 rounded-xl"
+            >
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-bold text-ilaw-navy">{c.name}</span>
+                  {c.archivedAt ? (
+                    <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">
+                      Archived
+                    </span>
+                  ) : c.studentCount >= c.capacity ? (
+                    <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-amber-100 text-amber-800">
+                      Full
+                    </span>
+                  ) : null}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {gradeLabel(c.gradeLevel)} · {c.schoolYear} · {c.studentCount}/{c.capacity} students ·{" "}
+                  {c.teachers.map(t => `${t.firstName} ${t.lastName}`).join(", ") || "no teacher"}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => setRosterFor(c)}
+                  className="px-3 py-1.5 rounded-lg border border-gray-300 text-gray-700 text-sm inline-flex items-center"
+                >
+                  <Users className="w-4 h-4 mr-1" />
+                  Roster
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setArchived(c, !c.archivedAt)}
+                  className="px-3 py-1.5 rounded-lg border border-gray-300 text-gray-700 text-sm inline-flex items-center"
+                >
+                  {c.archivedAt ? (
+                    <ArchiveRestore className="w-4 h-4 mr-1" />
+                  ) : (
+                    <Archive className="w-4 h-4 mr-1" />
+                  )}
+                  {c.archivedAt ? "Restore" : "Archive"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => deleteClass(c)}
+                  className="px-3 py-1.5 rounded-lg border border-red-300 text-red-700 text-sm inline-flex items-center"
+                >
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <ClassRosterDialog cls={rosterFor} open={!!rosterFor} onOpenChange={open => !open && setRosterFor(null)} />
+    </div>
+  );
+}
+
+export default ClassRosters;
@@ -9,6 +9,10 @@ import {
   Users,
   Target,
 } from "lucide-react";
+import { ClassJoinCodes } from "./ClassJoinCodes";
+import { ClassRosters } from "./ClassRosters";
+import { ClassSignInSettings } from "./ClassSignInSettings";
+import { getAuthHeaders } from "@/lib/auth";
 
 // --- helpers: grade label/key conversions ---
 const gradeLabelToKey = (g: string) => {
@@ -24,7 +28,7 @@ const gradeKeyToLabel = (k: string) => {
 };
 
 type ClassSettingsProps = {
-  userRole: "admin" | "teacher" | "student";
+  userRole: "admin" | "teacher" | "student" | "parent";
   user: any;
 };
 
@@ -49,11 +53,10 @@ export function ClassSettings({ userRole, user }: ClassSettingsProps) {
   const loadTeachingSettings = async () => {
     try {
       setIsLoadingSettings(true);
-      const token = localStorage.getItem("token");
 
       const response = await fetch("/api/user/teaching-settings", {
         headers: {
-          Authorization: `Bearer ${token}`,
+          ...getAuthHeaders(),
           "Content-Type": "application/json",
         },
       });
@@ -152,12 +155,11 @@ export function ClassSettings({ userRole, user }: ClassSettingsProps) {
     setErrorMessage("");
 
     try {
-      const token = localStorage.getItem("token");
 
       const response = await fetch("/api/user/teaching-settings", {
         method: "PUT",
         headers: {
-          Authorization: `Bearer ${token}`,
+          ...getAuthHeaders(),
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
@@ -310,7 +312,7 @@ export function ClassSettings({ userRole, user }: ClassSettingsProps) {
           <div className="flex items-center mb-4">
             <Users className="w-5 h-5 mr-2 text-ilaw-gold" />
             <h3 className="font-heading font-bold text-ilaw-navy">
-              Preferred class size
+              Class size
             </h3>
           </div>
 
@@ -333,8 +335,9 @@ export function ClassSettings({ userRole, user }: ClassSettingsProps) {
 
           <div className="mt-3 p-3 bg-brand-navy-50 rounded-xl border border-brand-navy-200">
             <p className="text-sm text-ilaw-navy">
-              <strong>Current preference:</strong> Up to{" "}
-              {teacherSettings.maxClassSize} students per class
+              <strong>Current limit:</strong> Up to{" "}
+              {teacherSettings.maxClassSize} students per class. Classes at the limit don't take new
+              students.
             </p>
           </div>
         </div>
@@ -360,6 +363,10 @@ export function ClassSettings({ userRole, user }: ClassSettingsProps) {
             </>
           )}
         </button>
+
+        {userRole === "teacher" && <ClassRosters />}
+        {userRole === "teacher" && <ClassJoinCodes />}
+        {userRole === "teacher" && <ClassSignInSettings />}
       </div>
     </div>
   );
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Smile, Loader, RefreshCw, Copy, Power, Image, Hash, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { pictureSecretToEmoji } from "@/lib/classLogin";
+
+type ClassLoginKind = "pictures" | "pin";
+
+type RosterStudent = {
+  id: number;
+  firstName: string;
+  lastName: string;
+  gradeLevel: string;
+  kind: ClassLoginKind | null;
+};
+
+type ClassSignInData = { code: string | null; students: RosterStudent[] };
+
+// A freshly generated secret, shown once so the teacher can hand it out
+type Revealed = { studentId: number; kind: ClassLoginKind; secret: string };
+
+export function ClassSignInSettings() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [revealed, setRevealed] = useState<Revealed | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const { data, isLoading } = useQuery<ClassSignInData>({
+    queryKey: ["teacher-class-sign-in"],
+    queryFn: () => apiRequest("GET", "/api/teacher/class-sign-in"),
+  });
+
+  const fail = (error: any) =>
+    toast({ title: "Error", description: error?.message || "Request failed", variant: "destructive" });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["teacher-class-sign-in"] });
+
+  const run = async (fn: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await fn();
+      refresh();
+    } catch (e) {
+      fail(e);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const rotateCode = () =>
+    run(async () => {
+      if (data?.code && !confirm("Make a new class code? Devices using the old code will need the new one.")) return;
+      await apiRequest("POST", "/api/teacher/class-sign-in/code");
+    });
+
+  const turnOff = () =>
+    run(async () => {
+      if (!confirm("Turn off class sign-in? Students will need their username and password.")) return;
+      await apiRequest("DELETE", "/api/teacher/class-sign-in/code");
+    });
+
+  const setSecret = (studentId: number, kind: ClassLoginKind) =>
+    run(async () => {
+      const res = await apiRequest<{ kind: ClassLoginKind; secret: string }>(
+        "PUT",
+        `/api/students/${studentId}/class-login`,
+        { kind }
+      );
+      setRevealed({ studentId, kind: res.kind, secret: res.secret });
+    });
+
+  const removeSecret = (studentId: number) =>
+    run(async () => {
+      await apiRequest("DELETE", `/api/students/${studentId}/class-login`);
+      if (revealed?.studentId === studentId) setRevealed(null);
+    });
+
+  const copyLink = async () => {
+    if (!data?.code) return;
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/login/class/${data.code}`);
+      toast({ title: "Class sign-in link copied" });
+    } catch {
+      // clipboard blocked; code is still on screen
+    }
+  };
+
+  return (
+    <div className="bg-white border-2 border-brand-navy-200 rounded-2xl p-6">
+      <div className="flex items-center mb-2">
+        <Smile className="w-5 h-5 mr-2 text-ilaw-gold" />
+        <h3 className="font-heading font-bold text-ilaw-navy">Picture &amp; PIN sign-in (Kinder – Grade 2)</h3>
+      </div>
+      <p className="text-sm text-ilaw-navy/70 mb-4">
+        On a classroom device, open the class once with your code. Students then tap their name and
+        enter their secret pictures or PIN.
+      </p>
+
+      {isLoading ? (
+        <div className="flex items-center text-sm text-gray-500">
+          <Loader className="w-4 h-4 mr-2 animate-spin" />
+          Loading class sign-in...
+        </div>
+      ) : (
+        <>
+          {/* Class code */}
+          <div className="flex flex-wrap items-center gap-2 mb-6">
+            {data?.code ? (
+              <>
+                <span className="font-mono font-bold text-lg text-ilaw-navy px-3 py-1 bg-brand-navy-50 rounded-lg">
+                  {data.code}
+                </span>
+                <button
+                  type="button"
+                  onClick={copyLink}
+                  className="px-3 py-1.5 rounded-lg border border-gray-300 text-gray-700 text-sm inline-flex items-center"
+                >
+                  <Copy className="w-4 h-4 mr-1" />
+                  Copy link
+                </button>
+                <button
+                  type="button"
+                  onClick={rotateCode}
+                  disabled={busy}
+                  className="px-3 py-1.5 rounded-lg border border-gray-300 text-gray-700 text-sm inline-flex items-center"
+                >
+                  <RefreshCw className="w-4 h-4 mr-1" />
+                  New code
+                </button>
+                <button
+                  type="button"
+                  onClick={turnOff}
+                  disabled={busy}
+                  className="px-3 py-1.5 rounded-lg border border-red-300 text-red-700 text-sm inline-flex items-center"
+                >
+                  <Power className="w-4 h-4 mr-1" />
+                  Turn off
+                </button>
+              </>
+            ) : (
+              <button
+                type="button"
+                onClick={rotateCode}
+                disabled={busy}
+                className="px-4 py-2 bg-ilaw-gold hover:bg-brand-amber text-ilaw-navy rounded-xl inline-flex items-center font-heading font-bold disabled:opacity-50"
+              >
+                <Power className="w-4 h-4 mr-2" />
+                Turn on class sign-in
+              </button>
+            )}
+          </div>
+
+          {/* Roster */}
+          {data?.students.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No Kinder – Grade 2 students are enrolled with you yet. Students join your class with a class
+              join code or a CSV import.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {data?.students.map(s => (
+                <div
+                  key={s.id}
+                  className="flex flex-wrap items-center justify-between gap-2 p-3 border border-brand-navy-200 rounded-xl"
+                >
+                  <div>
+                    <p className="font-medium text-ilaw-navy">
+                      {s.firstName} {s.lastName}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {s.gradeLevel === "K" ? "Kinder" : `Grade ${s.gradeLevel}`} ·{" "}
+                      {s.kind === "pictures" ? "Picture password" : s.kind === "pin" ? "PIN" : "Not set up"}
+                    </p>
+                    {revealed?.studentId === s.id && (
+                      <p className="mt-1 text-sm p-2 rounded-lg bg-amber-50 border border-amber-200 text-amber-900">
+                        New {revealed.kind === "pin" ? "PIN" : "pictures"}:{" "}
+                        <span className="font-mono text-lg">
+                          {revealed.kind === "pin" ? revealed.secret : pictureSecretToEmoji(revealed.secret)}
+                        </span>{" "}
+                        — share it with the student now; it won't be shown again.
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setSecret(s.id, "pictures")}
+                      disabled={busy}
+                      className="px-3 py-1.5 rounded-lg border border-gray-300 text-gray-700 text-sm inline-flex items-center"
+                    >
+                      <Image className="w-4 h-4 mr-1" />
+                      {s.kind === "pictures" ? "New pictures" : "Pictures"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setSecret(s.id, "pin")}
+                      disabled={busy}
+                      className="px-3 py-1.5 rounded-lg border border-gray-300 text-gray-700 text-sm inline-flex items-center"
+                    >
+                      <Hash className="w-4 h-4 mr-1" />
+                      {s.kind === "pin" ? "New PIN" : "PIN"}
+                    </button>
+                    {s.kind && (
+                      <button
+                        type="button"
+                        onClick={() => removeSecret(s.id)}
+                        disabled={busy}
+                        title="Remove picture/PIN sign-in"
+                        className="px-3 py-1.5 rounded-lg border border-red-300 text-red-700 text-sm inline-flex items-center"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ClassSignInSettings;
@@ -0,0 +1,150 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { UserX, RotateCcw, Trash2, Loader } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { motion } from "@/lib/motionShim";
+
+type DeletedAccountsProps = {
+  userRole: "admin" | "teacher" | "student" | "parent";
+  user: any;
+};
+
+interface DeletedAccount {
+  id: number;
+  username: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: string;
+  gradeLevel: string | null;
+  deletedAt: string;
+  purgeAfter: string | null;
+}
+
+const daysLeft = (purgeAfter: string | null) => {
+  if (!purgeAfter) return 0;
+  return Math.max(0, Math.ceil((new Date(purgeAfter).getTime() - Date.now()) / 86_400_000));
+};
+
+// == DELETED ACCOUNTS (ADMIN) ==
+// Accounts inside their deletion grace period, with restore / purge-now actions.
+export function DeletedAccounts(_props: DeletedAccountsProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<{ accounts: DeletedAccount[] }>({
+    queryKey: ["deleted-accounts"],
+    queryFn: () => apiRequest("GET", "/api/admin/deleted-accounts"),
+  });
+  const accounts = data?.accounts ?? [];
+
+  const onDone = (title: string) => (res: { message?: string }) => {
+    queryClient.invalidateQueries({ queryKey: ["deleted-accounts"] });
+    toast({ title, description: res?.message });
+  };
+  const onFail = (error: any) =>
+    toast({ title: "Error", description: error?.message || "Request failed", variant: "destructive" });
+
+  const restoreMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("POST", `/api/admin/deleted-accounts/${id}/restore`),
+    onSuccess: onDone("Account restored"),
+    onError: onFail,
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/admin/deleted-accounts/${id}`),
+    onSuccess: onDone("Account purged"),
+    onError: onFail,
+  });
+
+  const handlePurge = (account: DeletedAccount) => {
+    const name = `${account.firstName} ${account.lastName}`;
+    if (window.confirm(`Permanently delete ${name} and all of their data now? This cannot be undone.`)) {
+      purgeMutation.mutate(account.id);
+    }
+  };
+
+  return (
+    <motion.div
+      className="w-full max-w-none space-y-6 p-6"
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.45, ease: "easeOut" }}
+    >
+      <Card className="border-2 border-brand-gold-200 shadow-lg w-full max-w-none">
+        <CardHeader className="border-b border-brand-gold-200 bg-brand-gold-50">
+          <CardTitle className="text-ilaw-navy font-heading font-bold flex items-center">
+            <UserX className="w-6 h-6 text-ilaw-gold mr-2" />
+            Deleted Accounts
+          </CardTitle>
+          <CardDescription className="text-brand-gold-600">
+            Accounts waiting to be purged. Users can restore their own account by signing in before
+            the purge date.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="p-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-10">
+              <Loader className="w-6 h-6 animate-spin text-ilaw-gold mr-2" />
+              <span className="text-ilaw-navy font-heading font-bold">Loading...</span>
+            </div>
+          ) : accounts.length === 0 ? (
+            <p className="text-center text-gray-500 py-10">No accounts are pending deletion.</p>
+          ) : (
+            <div className="divide-y divide-brand-gold-100">
+              {accounts.map((account) => (
+                <div key={account.id} className="flex items-center justify-between py-4 gap-4">
+                  <div className="min-w-0">
+                    <div className="font-heading font-bold text-ilaw-navy truncate">
+                      {account.firstName} {account.lastName}{" "}
+                      <Badge variant="outline" className="ml-1 capitalize">
+                        {account.role}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-gray-600 truncate">{account.email}</p>
+                    <p className="text-xs text-gray-500">
+                      Deleted {new Date(account.deletedAt).toLocaleDateString()} · purged in{" "}
+                      {daysLeft(account.purgeAfter)} day(s)
+                    </p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => restoreMutation.mutate(account.id)}
+                      disabled={restoreMutation.isPending}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Restore
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => handlePurge(account)}
+                      disabled={purgeMutation.isPending}
+                    >
+                      <Trash2 className="w-4 h-4 mr-1" />
+                      Purge now
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
+
+export default DeletedAccounts;
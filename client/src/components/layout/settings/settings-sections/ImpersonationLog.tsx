@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { VenetianMask, Loader, ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { apiRequest } from "@/lib/queryClient";
+import { motion } from "@/lib/motionShim";
+
+type ImpersonationLogProps = {
+  userRole: "admin" | "teacher" | "student" | "parent";
+  user: any;
+};
+
+interface ImpersonationActionRow {
+  id: number;
+  method: string;
+  path: string;
+  statusCode: number | null;
+  blocked: boolean;
+  ipAddress: string | null;
+  createdAt: string;
+  admin: { id: number; firstName: string; lastName: string; email: string };
+  target: { id: number; firstName: string; lastName: string; role: string };
+}
+
+interface ImpersonationActionsResponse {
+  actions: ImpersonationActionRow[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+const PAGE_SIZE = 50;
+
+// == VIEW-AS LOG (ADMIN) ==
+// Every request an admin made while viewing the site as another user.
+export function ImpersonationLog(_props: ImpersonationLogProps) {
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading, isFetching } = useQuery<ImpersonationActionsResponse>({
+    queryKey: ["admin-impersonation-actions", page],
+    queryFn: () => apiRequest("GET", `/api/admin/impersonation-actions?page=${page}&pageSize=${PAGE_SIZE}`),
+  });
+
+  const actions = data?.actions ?? [];
+  const totalPages = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE));
+
+  return (
+    <motion.div
+      className="w-full max-w-none space-y-6 p-6"
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.45, ease: "easeOut" }}
+    >
+      <Card className="border-2 border-brand-gold-200 shadow-lg w-full max-w-none">
+        <CardHeader className="border-b border-brand-gold-200 bg-brand-gold-50">
+          <CardTitle className="text-ilaw-navy font-heading font-bold flex items-center">
+            <VenetianMask className="w-6 h-6 text-ilaw-gold mr-2" />
+            View-As Log
+          </CardTitle>
+          <CardDescription className="text-brand-gold-600">
+            Requests made by admins while viewing the site as another user, including refused ones.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="p-6 space-y-4">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-10">
+              <Loader className="w-6 h-6 animate-spin text-ilaw-gold mr-2" />
+              <span className="text-ilaw-navy font-heading font-bold">Loading activity...</span>
+            </div>
+          ) : actions.length === 0 ? (
+            <p className="text-center text-gray-500 py-10">No one has used "view as user" yet.</p>
+          ) : (
+            <div className="overflow-x-auto border border-brand-gold-100 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-brand-gold-50 text-ilaw-navy">
+                  <tr>
+                    <th className="text-left px-3 py-2">When</th>
+                    <th className="text-left px-3 py-2">Admin</th>
+                    <th className="text-left px-3 py-2">Viewing as</th>
+                    <th className="text-left px-3 py-2">Request</th>
+                    <th className="text-left px-3 py-2">Result</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-brand-gold-100">
+                  {actions.map((a) => (
+                    <tr key={a.id} className={isFetching ? "opacity-60" : ""}>
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                        {new Date(a.createdAt).toLocaleString()}
+                      </td>
+                      <td className="px-3 py-2">
+                        <div className="font-medium text-ilaw-navy">
+                          {a.admin.firstName} {a.admin.lastName}
+                        </div>
+                        <div className="text-xs text-gray-500">{a.admin.email}</div>
+                      </td>
+                      <td className="px-3 py-2">
+                        <span className="font-medium text-ilaw-navy">
+                          {a.target.firstName} {a.target.lastName}
+                        </span>
+                        <span className="ml-1 text-xs text-gray-500 capitalize">({a.target.role})</span>
+                      </td>
+                      <td className="px-3 py-2 font-mono text-xs text-gray-700 break-all">
+                        {a.method} {a.path}
+                      </td>
+                      <td className="px-3 py-2">
+                        {a.blocked ? (
+                          <Badge variant="destructive">Blocked</Badge>
+                        ) : (
+                          <span className="text-gray-600">{a.statusCode ?? "—"}</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between text-sm text-gray-600">
+            <span>{data?.total ?? 0} request(s)</span>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                disabled={page <= 1}
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <span>
+                Page {page} of {totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                disabled={page >= totalPages}
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
+
+export default ImpersonationLog;
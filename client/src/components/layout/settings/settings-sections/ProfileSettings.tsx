@@ -12,9 +12,10 @@ import {
   Shield
 } from "lucide-react";
 import { motion, AnimatePresence } from "@/lib/motionShim";
+import { getAuthHeaders } from "@/lib/auth";
 
 type ProfileSettingsProps = {
-  userRole: "admin" | "teacher" | "student";
+  userRole: "admin" | "teacher" | "student" | "parent";
   user: {
     id: number;
     firstName?: string;
@@ -78,10 +79,9 @@ export function ProfileSettings({ userRole, user }: ProfileSettingsProps) {
   const loadProfileData = async () => {
     try {
       setIsLoadingProfile(true);
-      const token = localStorage.getItem("token") || "";
       const res = await fetch("/api/user/profile", {
         headers: {
-          Authorization: `Bearer ${token}`,
+          ...getAuthHeaders(),
           "Content-Type": "application/json"
         }
       });
@@ -138,14 +138,13 @@ export function ProfileSettings({ userRole, user }: ProfileSettingsProps) {
     setErrorMessage("");
 
     try {
-      const token = localStorage.getItem("token") || "";
       const fd = new FormData();
       fd.append("avatar", file);
 
       const res = await fetch("/api/user/avatar", {
         method: "POST",
         headers: {
-          Authorization: `Bearer ${token}`
+          ...getAuthHeaders()
         },
         body: fd
       });
@@ -219,11 +218,10 @@ export function ProfileSettings({ userRole, user }: ProfileSettingsProps) {
     setErrorMessage("");
 
     try {
-      const token = localStorage.getItem("token") || "";
       const res = await fetch("/api/user/profile", {
         method: "PUT",
         headers: {
-          Authorization: `Bearer ${token}`,
+          ...getAuthHeaders(),
           "Content-Type": "application/json"
         },
         body: JSON.stringify({
@@ -256,11 +254,10 @@ export function ProfileSettings({ userRole, user }: ProfileSettingsProps) {
     setSaveStatus("idle");
     setErrorMessage("");
     try {
-      const token = localStorage.getItem("token") || "";
       const res = await fetch("/api/user/profile", {
         method: "PUT",
         headers: {
-          Authorization: `Bearer ${token}`,
+          ...getAuthHeaders(),
           "Content-Type": "application/json"
         },
         body: JSON.stringify({
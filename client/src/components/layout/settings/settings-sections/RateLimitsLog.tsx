@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Gauge, Loader, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import { motion } from "@/lib/motionShim";
+
+type RateLimitsLogProps = {
+  userRole: "admin" | "teacher" | "student" | "parent";
+  user: any;
+};
+
+interface RateLimitPolicy {
+  name: string;
+  windowMs: number;
+  max: number;
+}
+
+interface RateLimitBucketRow {
+  key: string;
+  policy: string;
+  count: number;
+  max: number;
+  expiresAt: string;
+  limited: boolean;
+}
+
+interface RateLimitsResponse {
+  policies: RateLimitPolicy[];
+  buckets: RateLimitBucketRow[];
+}
+
+// the bucket key is "<policy>:<client key>"; show just the client part
+const clientKey = (b: RateLimitBucketRow) =>
+  b.key.startsWith(`${b.policy}:`) ? b.key.slice(b.policy.length + 1) : b.key;
+
+// == RATE LIMITS (ADMIN) ==
+// Keys currently counted by the rate limiters, with a way to lift a block early.
+export function RateLimitsLog(_props: RateLimitsLogProps) {
+  const queryClient = useQueryClient();
+  const [limitedOnly, setLimitedOnly] = useState(true);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const { data, isLoading, isFetching, refetch } = useQuery<RateLimitsResponse>({
+    queryKey: ["admin-rate-limits", limitedOnly],
+    queryFn: () => apiRequest("GET", `/api/admin/rate-limits${limitedOnly ? "?limited=1" : ""}`),
+  });
+
+  const buckets = data?.buckets ?? [];
+  const policies = data?.policies ?? [];
+
+  const clear = async (body: { key: string } | { all: true }, label: string) => {
+    setBusyKey(label);
+    try {
+      const result = await apiRequest<{ cleared: number }>("DELETE", "/api/admin/rate-limits", body);
+      toast({ title: "Limit cleared", description: `${result.cleared} key(s) can try again now.` });
+    } catch (err: any) {
+      toast({ title: "Error", description: err?.message || "Request failed", variant: "destructive" });
+    } finally {
+      setBusyKey(null);
+      queryClient.invalidateQueries({ queryKey: ["admin-rate-limits"] });
+    }
+  };
+
+  return (
+    <motion.div
+      className="w-full max-w-none space-y-6 p-6"
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.45, ease: "easeOut" }}
+    >
+      <Card className="border-2 border-brand-gold-200 shadow-lg w-full max-w-none">
+        <CardHeader className="border-b border-brand-gold-200 bg-brand-gold-50">
+          <CardTitle className="text-ilaw-navy font-heading font-bold flex items-center">
+            <Gauge className="w-6 h-6 text-ilaw-gold mr-2" />
+            Rate Limits
+          </CardTitle>
+          <CardDescription className="text-brand-gold-600">
+            Sign-ins, sign-ups, uploads and quiz submissions are limited per device or account. Clear a key to let
+            someone who was blocked try again right away.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="p-6 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <label className="flex items-center gap-2 text-sm text-ilaw-navy">
+              <Switch checked={limitedOnly} onCheckedChange={setLimitedOnly} />
+              Only show blocked keys
+            </label>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                <RefreshCw className={`w-4 h-4 mr-1 ${isFetching ? "animate-spin" : ""}`} />
+                Refresh
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-red-600 border-red-200 hover:bg-red-50"
+                disabled={buckets.length === 0 || busyKey !== null}
+                onClick={() => clear({ all: true }, "*")}
+              >
+                <Trash2 className="w-4 h-4 mr-1" />
+                Clear all
+              </Button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-10">
+              <Loader className="w-6 h-6 animate-spin text-ilaw-gold mr-2" />
+              <span className="text-ilaw-navy font-heading font-bold">Loading limits...</span>
+            </div>
+          ) : buckets.length === 0 ? (
+            <p className="text-center text-gray-500 py-10">
+              {limitedOnly ? "No one is being rate limited right now." : "No requests are being counted right now."}
+            </p>
+          ) : (
+            <div className="overflow-x-auto border border-brand-gold-100 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-brand-gold-50 text-ilaw-navy">
+                  <tr>
+                    <th className="text-left px-3 py-2">Limit</th>
+                    <th className="text-left px-3 py-2">Key</th>
+                    <th className="text-left px-3 py-2">Requests</th>
+                    <th className="text-left px-3 py-2">Resets</th>
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-brand-gold-100">
+                  {buckets.map((b) => (
+                    <tr key={b.key} className={isFetching ? "opacity-60" : ""}>
+                      <td className="px-3 py-2 font-medium text-ilaw-navy">{b.policy}</td>
+                      <td className="px-3 py-2 font-mono text-xs text-gray-700 break-all">{clientKey(b)}</td>
+                      <td className="px-3 py-2">
+                        {b.limited ? (
+                          <Badge variant="destructive">
+                            {b.count} / {b.max}
+                          </Badge>
+                        ) : (
+                          <span className="text-gray-600">
+                            {b.count} / {b.max}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                        {new Date(b.expiresAt).toLocaleTimeString()}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={busyKey !== null}
+                          onClick={() => clear({ key: b.key }, b.key)}
+                        >
+                          {busyKey === b.key ? <Loader className="w-4 h-4 animate-spin" /> : "Clear"}
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {policies.length > 0 && (
+            <div className="text-xs text-gray-500">
+              <span className="font-semibold text-ilaw-navy">Policies: </span>
+              {policies
+                .map((p) => `${p.name} ${p.max} per ${Math.round(p.windowMs / 60000)} min`)
+                .join(" · ")}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
+
+export default RateLimitsLog;
@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { KeySquare, Loader, RotateCcw, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import { motion } from "@/lib/motionShim";
+import {
+  EDITABLE_ROLES,
+  PERMISSIONS,
+  type EditableRole,
+  type Permission,
+  type RolePermissions as RolePermissionMap,
+} from "@shared/permissions";
+
+type RolePermissionsProps = {
+  userRole: "admin" | "teacher" | "student" | "parent";
+  user: any;
+};
+
+interface PermissionsResponse {
+  roles: RolePermissionMap;
+  defaults: RolePermissionMap;
+}
+
+const ROLE_LABELS: Record<EditableRole, string> = { teacher: "Teacher", student: "Student", parent: "Parent" };
+
+// catalog rows grouped by area, in catalog order
+const GROUPS = Object.entries(PERMISSIONS).reduce<Record<string, Permission[]>>((acc, [name, meta]) => {
+  (acc[meta.group] ??= []).push(name as Permission);
+  return acc;
+}, {});
+
+// == PERMISSIONS (ADMIN) ==
+// Which actions each role may take; the server enforces the same list.
+export function RolePermissions(_props: RolePermissionsProps) {
+  const queryClient = useQueryClient();
+  const [roles, setRoles] = useState<RolePermissionMap | null>(null);
+
+  const { data, isLoading } = useQuery<PermissionsResponse>({
+    queryKey: ["admin-permissions"],
+    queryFn: () => apiRequest("GET", "/api/admin/permissions"),
+  });
+
+  useEffect(() => {
+    if (data?.roles) setRoles(data.roles);
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: (next: RolePermissionMap) => apiRequest("PUT", "/api/admin/permissions", { roles: next }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-permissions"] });
+      toast({ title: "Success", description: "Permissions saved. Signed-in users get them on their next page load." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error?.message || "Failed to save permissions", variant: "destructive" });
+    },
+  });
+
+  const toggle = (role: EditableRole, permission: Permission) => {
+    setRoles((prev) => {
+      if (!prev) return prev;
+      const has = prev[role].includes(permission);
+      return { ...prev, [role]: has ? prev[role].filter((p) => p !== permission) : [...prev[role], permission] };
+    });
+  };
+
+  if (isLoading || !roles) {
+    return (
+      <div className="p-6 flex items-center justify-center min-h-96">
+        <Loader className="w-8 h-8 animate-spin text-ilaw-gold mr-3" />
+        <span className="text-ilaw-navy text-lg font-heading font-bold">Loading permissions...</span>
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      className="w-full max-w-none space-y-6 p-6"
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.45, ease: "easeOut" }}
+    >
+      <Card className="border-2 border-brand-gold-200 shadow-lg w-full max-w-none">
+        <CardHeader className="border-b border-brand-gold-200 bg-brand-gold-50">
+          <CardTitle className="text-ilaw-navy font-heading font-bold flex items-center">
+            <KeySquare className="w-6 h-6 text-ilaw-gold mr-2" />
+            Permissions
+          </CardTitle>
+          <CardDescription className="text-brand-gold-600">
+            Choose what each role may do. "Own" permissions only cover books the user owns (and, for edits, books
+            shared with them as an editor). Admins always have every permission.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="p-6 space-y-4">
+          <div className="overflow-x-auto border border-brand-gold-100 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-brand-gold-50 text-ilaw-navy">
+                <tr>
+                  <th className="text-left px-3 py-2">Permission</th>
+                  {EDITABLE_ROLES.map((role) => (
+                    <th key={role} className="px-3 py-2 text-center">
+                      {ROLE_LABELS[role]}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-brand-gold-100">
+                {Object.entries(GROUPS).map(([group, names]) => [
+                  <tr key={group} className="bg-brand-gold-50/50">
+                    <td colSpan={EDITABLE_ROLES.length + 1} className="px-3 py-1.5 font-bold text-ilaw-navy">
+                      {group}
+                    </td>
+                  </tr>,
+                  ...names.map((name) => (
+                    <tr key={name}>
+                      <td className="px-3 py-2">
+                        <div className="text-ilaw-navy">{PERMISSIONS[name].label}</div>
+                        <div className="font-mono text-xs text-gray-500">{name}</div>
+                      </td>
+                      {EDITABLE_ROLES.map((role) => (
+                        <td key={role} className="px-3 py-2 text-center">
+                          <Checkbox
+                            checked={roles[role].includes(name)}
+                            onCheckedChange={() => toggle(role, name)}
+                            aria-label={`${ROLE_LABELS[role]}: ${name}`}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  )),
+                ])}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => data && setRoles(data.defaults)}
+              disabled={saveMutation.isPending}
+            >
+              <RotateCcw className="w-4 h-4 mr-1" />
+              Restore defaults
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate(roles)}
+              disabled={saveMutation.isPending}
+              className="bg-ilaw-gold hover:bg-brand-amber text-ilaw-navy font-bold"
+            >
+              {saveMutation.isPending ? (
+                <Loader className="w-4 h-4 mr-1 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4 mr-1" />
+              )}
+              Save permissions
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
+
+export default RolePermissions;
@@ -1,4 +1,6 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import {
   Lock,
   Save,
@@ -7,15 +9,32 @@ import {
   EyeOff,
   Loader,
   CheckCircle,
-  AlertCircle
+  AlertCircle,
+  History
 } from "lucide-react";
 import { motion, AnimatePresence } from "@/lib/motionShim";
+import { apiRequest } from "@/lib/queryClient";
+import { authEventLabel, describeUserAgent, isWarningEvent } from "@/lib/authEvents";
+import { usePasswordPolicy } from "@/components/ui/password-checklist";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { checkPassword } from "@shared/passwordPolicy";
+import TwoFactorSettings from "./TwoFactorSettings";
+import { getAuthHeaders } from "@/lib/auth";
 
 type SecuritySettingsProps = {
-  userRole: "admin" | "teacher" | "student";
+  userRole: "admin" | "teacher" | "student" | "parent";
   user: any;
 };
 
+type AuthEventRow = {
+  id: number;
+  type: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+};
+
 const fadeInUp = {
   hidden: { opacity: 0, y: 10 },
   visible: { opacity: 1, y: 0 }
@@ -39,6 +58,20 @@ export function SecuritySettings({ userRole, user }: SecuritySettingsProps) {
   const [errorMessage, setErrorMessage] = useState("");
 
   const isAdmin = userRole === "admin";
+  const passwordPolicy = usePasswordPolicy();
+  const { logout } = useAuth();
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  // signed in with an expired password: this form is the only thing that works
+  const passwordExpired = !!user?.passwordChangeRequired;
+
+  // Own sign-in / password activity
+  const { data: activity, isLoading: activityLoading, refetch: refetchActivity } = useQuery<{
+    events: AuthEventRow[];
+  }>({
+    queryKey: ["auth-events", "me"],
+    queryFn: () => apiRequest("GET", "/api/user/auth-events?limit=20"),
+  });
 
   // Role-based styling (admin gets the strong Ilaw theme)
   const styles = isAdmin
@@ -72,18 +105,10 @@ export function SecuritySettings({ userRole, user }: SecuritySettingsProps) {
         infoText: "text-blue-700"
       };
 
-  // Password validation
+  // Password validation (admin policy, same rules the server enforces)
   const validatePassword = (password: string) => {
-    const minLength = password.length >= 8;
-    const hasUpper = /[A-Z]/.test(password);
-    const hasLower = /[a-z]/.test(password);
-    const hasNumber = /\d/.test(password);
-    const hasSpecial = /[!@#$%^&*(),.?":{}|<>]/.test(password);
-
-    return {
-      isValid: minLength && hasUpper && hasLower && hasNumber && hasSpecial,
-      requirements: { minLength, hasUpper, hasLower, hasNumber, hasSpecial }
-    };
+    const checks = checkPassword(password, passwordPolicy);
+    return { isValid: checks.every(c => c.ok), checks };
   };
 
   const handleInputChange = (field: keyof typeof formData, value: string) => {
@@ -127,11 +152,10 @@ export function SecuritySettings({ userRole, user }: SecuritySettingsProps) {
     setErrorMessage("");
 
     try {
-      const token = localStorage.getItem("token");
       const response = await fetch("/api/user/password", {
         method: "PUT",
         headers: {
-          Authorization: `Bearer ${token}`,
+          ...getAuthHeaders(),
           "Content-Type": "application/json"
         },
         body: JSON.stringify({
@@ -145,9 +169,15 @@ export function SecuritySettings({ userRole, user }: SecuritySettingsProps) {
       if (data.success) {
         setSaveStatus("success");
         setFormData({ currentPassword: "", newPassword: "", confirmPassword: "" });
+        if (passwordExpired) {
+          toast({ title: "Password updated", description: "Please sign in with your new password." });
+          logout();
+          navigate("/login");
+        }
       } else {
         setSaveStatus("error");
         setErrorMessage(data.message || "Failed to update password");
+        refetchActivity();
       }
     } catch (error) {
       setSaveStatus("error");
@@ -197,6 +227,15 @@ export function SecuritySettings({ userRole, user }: SecuritySettingsProps) {
       </div>
 
       <div className="p-6">
+        {passwordExpired && (
+          <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-center">
+            <AlertCircle className="w-5 h-5 text-amber-600 mr-2" />
+            <span className="text-amber-800">
+              Your password has expired. Choose a new one to continue using your account.
+            </span>
+          </div>
+        )}
+
         {/* Status Messages */}
         <AnimatePresence mode="wait">
           {saveStatus === "success" && (
@@ -324,12 +363,17 @@ export function SecuritySettings({ userRole, user }: SecuritySettingsProps) {
             >
               <h3 className={`font-medium mb-2 ${styles.infoTitle}`}>Password Strength</h3>
               <div className="space-y-1">
-                <Req ok={passwordValidation.requirements.minLength} text="At least 8 characters" />
-                <Req ok={passwordValidation.requirements.hasUpper} text="Uppercase letter" />
-                <Req ok={passwordValidation.requirements.hasLower} text="Lowercase letter" />
-                <Req ok={passwordValidation.requirements.hasNumber} text="Number" />
-                <Req ok={passwordValidation.requirements.hasSpecial} text="Special character" />
+                {passwordValidation.checks.map(c => (
+                  <Req key={c.id} ok={c.ok} text={c.label} />
+                ))}
               </div>
+              {passwordPolicy.historyCount > 0 && (
+                <p className={`text-xs mt-2 ${styles.infoText}`}>
+                  {passwordPolicy.historyCount === 1
+                    ? "Must be different from your current password."
+                    : `Must not be one of your last ${passwordPolicy.historyCount} passwords.`}
+                </p>
+              )}
             </motion.div>
           )}
 
@@ -382,6 +426,60 @@ export function SecuritySettings({ userRole, user }: SecuritySettingsProps) {
               </>
             )}
           </motion.button>
+
+          {/* Two-Factor Authentication (admins & teachers) */}
+          <TwoFactorSettings userRole={userRole} fieldClass={styles.field} buttonClass={styles.button} />
+
+          {/* Recent Activity */}
+          <motion.div
+            variants={fadeInUp}
+            initial="hidden"
+            animate="visible"
+            transition={{ duration: 0.35, delay: 0.22 }}
+            className="pt-6 border-t border-gray-200"
+          >
+            <h3 className="font-medium text-ilaw-navy mb-1 flex items-center">
+              <History className="w-4 h-4 mr-2" />
+              Recent Account Activity
+            </h3>
+            <p className="text-sm text-gray-500 mb-3">
+              Sign-ins and password changes on your account. If something looks unfamiliar, change
+              your password.
+            </p>
+
+            {activityLoading ? (
+              <div className="flex items-center text-sm text-gray-500">
+                <Loader className="w-4 h-4 mr-2 animate-spin" />
+                Loading activity...
+              </div>
+            ) : !activity?.events?.length ? (
+              <p className="text-sm text-gray-500">No activity recorded yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {activity.events.map(ev => (
+                  <li key={ev.id} className="px-4 py-2 flex items-center justify-between text-sm">
+                    <div className="min-w-0">
+                      <span
+                        className={`font-medium ${
+                          isWarningEvent(ev.type) ? "text-red-700" : "text-ilaw-navy"
+                        }`}
+                      >
+                        {authEventLabel(ev.type)}
+                      </span>
+                      <span className="text-gray-500">
+                        {" "}
+                        · {describeUserAgent(ev.userAgent)}
+                        {ev.ipAddress ? ` · ${ev.ipAddress}` : ""}
+                      </span>
+                    </div>
+                    <span className="text-gray-400 shrink-0 ml-3">
+                      {new Date(ev.createdAt).toLocaleString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </motion.div>
         </div>
       </div>
     </motion.div>
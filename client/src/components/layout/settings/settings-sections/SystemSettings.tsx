@@ -8,10 +8,12 @@ import {
   Crown,
   Loader,
   Clock,
+  Trash2,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import {
   Card,
@@ -23,9 +25,16 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { motion, AnimatePresence } from "@/lib/motionShim";
+import {
+  DEFAULT_PASSWORD_POLICY,
+  PASSWORD_HISTORY_MAX,
+  PASSWORD_MAX_AGE_DAYS_MAX,
+  PASSWORD_MIN_LENGTH_RANGE,
+} from "@shared/passwordPolicy";
+import { getAuthHeaders } from "@/lib/auth";
 
 type SystemSettingsProps = {
-  userRole: "admin" | "teacher" | "student";
+  userRole: "admin" | "teacher" | "student" | "parent";
   user: any;
 };
 
@@ -40,7 +49,23 @@ interface PlatformSettings {
   // Security
   sessionTimeoutMinutes: number;
   maxLoginAttempts: number;
-  requireStrongPasswords: boolean;
+  requireAdminTwoFactor: boolean;
+
+  // Password policy
+  passwordMinLength: number;
+  passwordRequireUpper: boolean;
+  passwordRequireLower: boolean;
+  passwordRequireNumber: boolean;
+  passwordRequireSymbol: boolean;
+  passwordHistoryCount: number;
+  passwordMaxAgeDays: number;
+  passwordBlocklist: string;
+
+  // Accounts
+  accountDeletionGraceDays: number;
+
+  // Books
+  trashRetentionDays: number;
 }
 
 const fadeInUp = {
@@ -106,7 +131,20 @@ export function SystemSettings({ userRole }: SystemSettingsProps) {
 
     sessionTimeoutMinutes: 60,
     maxLoginAttempts: 5,
-    requireStrongPasswords: true,
+    requireAdminTwoFactor: false,
+
+    passwordMinLength: DEFAULT_PASSWORD_POLICY.minLength,
+    passwordRequireUpper: false,
+    passwordRequireLower: false,
+    passwordRequireNumber: false,
+    passwordRequireSymbol: false,
+    passwordHistoryCount: 0,
+    passwordMaxAgeDays: 0,
+    passwordBlocklist: "",
+
+    accountDeletionGraceDays: 30,
+
+    trashRetentionDays: 30,
   });
 
   // Load settings from API
@@ -115,7 +153,7 @@ export function SystemSettings({ userRole }: SystemSettingsProps) {
     queryFn: async () => {
       try {
         const response = await fetch("/api/admin/system-settings", {
-          headers: { Authorization: `Bearer ${localStorage.getItem("token")}` },
+          headers: getAuthHeaders(),
         });
         if (!response.ok) throw new Error("Failed to fetch system settings");
         return response.json();
@@ -143,7 +181,7 @@ export function SystemSettings({ userRole }: SystemSettingsProps) {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${localStorage.getItem("token") || ""}`,
+          ...getAuthHeaders(),
         },
         body: JSON.stringify(settings),
       });
@@ -409,7 +447,7 @@ export function SystemSettings({ userRole }: SystemSettingsProps) {
               {/* Security Tab */}
               <TabsContent value="security" className="space-y-6 m-0 w-full">
                 <motion.div
-                  className="grid grid-cols-1 lg:grid-cols-3 gap-6 w-full"
+                  className="grid grid-cols-1 lg:grid-cols-2 gap-6 w-full"
                   variants={fadeInUp}
                   initial="hidden"
                   animate="visible"
@@ -425,7 +463,7 @@ export function SystemSettings({ userRole }: SystemSettingsProps) {
                     <CardContent>
                       <div>
                         <label className="block text-sm font-heading font-bold text-red-700 mb-2">
-                          Session Timeout (minutes)
+                          Idle Timeout (minutes)
                         </label>
                         <Input
                           type="number"
@@ -440,7 +478,10 @@ export function SystemSettings({ userRole }: SystemSettingsProps) {
                           max="480"
                           className="border-2 border-red-200 w-full"
                         />
-                        <p className="text-xs text-red-600 mt-1">15-480 minutes</p>
+                        <p className="text-xs text-red-600 mt-1">
+                          15-480 minutes without activity before users (admins included) are signed out. Active
+                          sessions are extended automatically.
+                        </p>
                       </div>
                     </CardContent>
                   </Card>
@@ -469,6 +510,18 @@ export function SystemSettings({ userRole }: SystemSettingsProps) {
                         />
                         <p className="text-xs text-orange-600 mt-1">3-10 attempts</p>
                       </div>
+                      <div className="flex items-center justify-between p-3 mt-4 bg-white border border-orange-200 rounded-lg">
+                        <div className="flex-1">
+                          <div className="font-medium text-orange-700">Require 2FA for Admins</div>
+                          <p className="text-sm text-orange-600">
+                            Admins must set up an authenticator app at next sign-in
+                          </p>
+                        </div>
+                        <Switch
+                          checked={platformSettings.requireAdminTwoFactor}
+                          onCheckedChange={() => handleToggle("requireAdminTwoFactor")}
+                        />
+                      </div>
                     </CardContent>
                   </Card>
 
@@ -479,16 +532,169 @@ export function SystemSettings({ userRole }: SystemSettingsProps) {
                         🛡️ Password Policy
                       </CardTitle>
                     </CardHeader>
-                    <CardContent>
-                      <div className="flex items-center justify-between p-3 bg-white border border-purple-200 rounded-lg">
-                        <div className="flex-1">
-                          <div className="font-medium text-purple-700">Strong Passwords</div>
-                          <p className="text-sm text-purple-600">Require complex passwords</p>
+                    <CardContent className="space-y-4">
+                      <div>
+                        <label className="block text-sm font-heading font-bold text-purple-700 mb-2">
+                          Minimum Length
+                        </label>
+                        <Input
+                          type="number"
+                          value={platformSettings.passwordMinLength}
+                          onChange={(e) =>
+                            handleChange(
+                              "passwordMinLength",
+                              parseInt(e.target.value) || PASSWORD_MIN_LENGTH_RANGE.min
+                            )
+                          }
+                          min={PASSWORD_MIN_LENGTH_RANGE.min}
+                          max={PASSWORD_MIN_LENGTH_RANGE.max}
+                          className="border-2 border-purple-200 w-full"
+                        />
+                        <p className="text-xs text-purple-600 mt-1">
+                          {PASSWORD_MIN_LENGTH_RANGE.min}-{PASSWORD_MIN_LENGTH_RANGE.max} characters
+                        </p>
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-2">
+                        {(
+                          [
+                            ["passwordRequireUpper", "Uppercase letter"],
+                            ["passwordRequireLower", "Lowercase letter"],
+                            ["passwordRequireNumber", "Number"],
+                            ["passwordRequireSymbol", "Symbol"],
+                          ] as const
+                        ).map(([key, label]) => (
+                          <div
+                            key={key}
+                            className="flex items-center justify-between p-2 bg-white border border-purple-200 rounded-lg"
+                          >
+                            <span className="text-sm font-medium text-purple-700">{label}</span>
+                            <Switch
+                              checked={platformSettings[key]}
+                              onCheckedChange={() => handleToggle(key)}
+                            />
+                          </div>
+                        ))}
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-sm font-heading font-bold text-purple-700 mb-2">
+                            Password History
+                          </label>
+                          <Input
+                            type="number"
+                            value={platformSettings.passwordHistoryCount}
+                            onChange={(e) =>
+                              handleChange("passwordHistoryCount", parseInt(e.target.value) || 0)
+                            }
+                            min="0"
+                            max={PASSWORD_HISTORY_MAX}
+                            className="border-2 border-purple-200 w-full"
+                          />
+                          <p className="text-xs text-purple-600 mt-1">
+                            Block reuse of the last N passwords (0 = off)
+                          </p>
                         </div>
-                        <Switch
-                          checked={platformSettings.requireStrongPasswords}
-                          onCheckedChange={() => handleToggle("requireStrongPasswords")}
+                        <div>
+                          <label className="block text-sm font-heading font-bold text-purple-700 mb-2">
+                            Maximum Age (days)
+                          </label>
+                          <Input
+                            type="number"
+                            value={platformSettings.passwordMaxAgeDays}
+                            onChange={(e) =>
+                              handleChange("passwordMaxAgeDays", parseInt(e.target.value) || 0)
+                            }
+                            min="0"
+                            max={PASSWORD_MAX_AGE_DAYS_MAX}
+                            className="border-2 border-purple-200 w-full"
+                          />
+                          <p className="text-xs text-purple-600 mt-1">
+                            Force a change at next sign-in (0 = never)
+                          </p>
+                        </div>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-heading font-bold text-purple-700 mb-2">
+                          Blocked Passwords
+                        </label>
+                        <Textarea
+                          value={platformSettings.passwordBlocklist}
+                          onChange={(e) => handleChange("passwordBlocklist", e.target.value)}
+                          rows={4}
+                          placeholder={"schoolname\nmascot2024"}
+                          className="border-2 border-purple-200 w-full font-mono text-sm"
+                        />
+                        <p className="text-xs text-purple-600 mt-1">
+                          One per line, on top of the built-in list of common passwords
+                        </p>
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  <Card className="border-2 border-gray-200 bg-gray-50">
+                    <CardHeader>
+                      <CardTitle className="text-gray-800 font-heading font-bold flex items-center">
+                        <Trash2 className="w-5 h-5 mr-2" />
+                        🗑️ Account Deletion
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div>
+                        <label className="block text-sm font-heading font-bold text-gray-700 mb-2">
+                          Grace Period (days)
+                        </label>
+                        <Input
+                          type="number"
+                          value={platformSettings.accountDeletionGraceDays}
+                          onChange={(e) =>
+                            handleChange(
+                              "accountDeletionGraceDays",
+                              parseInt(e.target.value) || 1
+                            )
+                          }
+                          min="1"
+                          max="365"
+                          className="border-2 border-gray-200 w-full"
+                        />
+                        <p className="text-xs text-gray-600 mt-1">
+                          Deleted accounts can be restored for 1-365 days before being purged
+                        </p>
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  <Card className="border-2 border-gray-200 bg-gray-50">
+                    <CardHeader>
+                      <CardTitle className="text-gray-800 font-heading font-bold flex items-center">
+                        <Trash2 className="w-5 h-5 mr-2" />
+                        📚 Book Trash
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div>
+                        <label className="block text-sm font-heading font-bold text-gray-700 mb-2">
+                          Keep Deleted Books (days)
+                        </label>
+                        <Input
+                          type="number"
+                          value={platformSettings.trashRetentionDays}
+                          onChange={(e) =>
+                            handleChange(
+                              "trashRetentionDays",
+                              parseInt(e.target.value) || 1
+                            )
+                          }
+                          min="1"
+                          max="365"
+                          className="border-2 border-gray-200 w-full"
                         />
+                        <p className="text-xs text-gray-600 mt-1">
+                          Deleted books, pages and questions stay in the trash for 1-365 days, then are removed with their
+                          images and audio
+                        </p>
                       </div>
                     </CardContent>
                   </Card>
@@ -0,0 +1,329 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { KeyRound, ShieldCheck, ShieldOff, Loader, Copy, RefreshCw } from "lucide-react";
+import { motion, AnimatePresence } from "@/lib/motionShim";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type TwoFactorSettingsProps = {
+  userRole: "admin" | "teacher" | "student" | "parent";
+  fieldClass: string;
+  buttonClass: string;
+};
+
+type TwoFactorStatus = {
+  available: boolean;
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+};
+
+type SetupData = { secret: string; otpauthUrl: string; qrCode: string };
+
+// Which password+code form is open (disable / new recovery codes)
+type ProofAction = "disable" | "regenerate" | null;
+
+export function TwoFactorSettings({ userRole, fieldClass, buttonClass }: TwoFactorSettingsProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+
+  const [setup, setSetup] = useState<SetupData | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [proofAction, setProofAction] = useState<ProofAction>(null);
+  const [proofPassword, setProofPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["two-factor-status"],
+    queryFn: () => apiRequest("GET", "/api/user/2fa"),
+  });
+
+  const fail = (error: any) =>
+    toast({ title: "Error", description: error?.message || "Request failed", variant: "destructive" });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["two-factor-status"] });
+
+  const startSetup = async () => {
+    setBusy(true);
+    try {
+      setSetup(await apiRequest<SetupData>("POST", "/api/user/2fa/setup"));
+      setCode("");
+    } catch (e) {
+      fail(e);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmSetup = async () => {
+    setBusy(true);
+    try {
+      const res = await apiRequest<{ recoveryCodes: string[] }>(
+        "POST",
+        "/api/user/2fa/enable",
+        { code }
+      );
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(res.recoveryCodes);
+      // an enrollment-only session was swapped for a full one on the server
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      toast({ title: "Two-factor authentication enabled", description: "Other devices were signed out." });
+      refresh();
+    } catch (e) {
+      fail(e);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submitProof = async () => {
+    if (!proofAction) return;
+    setBusy(true);
+    try {
+      const body = { password: proofPassword, code };
+      if (proofAction === "disable") {
+        await apiRequest("POST", "/api/user/2fa/disable", body);
+        toast({ title: "Two-factor authentication disabled" });
+      } else {
+        const res = await apiRequest<{ recoveryCodes: string[] }>(
+          "POST",
+          "/api/user/2fa/recovery-codes",
+          body
+        );
+        setRecoveryCodes(res.recoveryCodes);
+      }
+      setProofAction(null);
+      setProofPassword("");
+      setCode("");
+      refresh();
+    } catch (e) {
+      fail(e);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copyCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+      toast({ title: "Recovery codes copied" });
+    } catch {
+      // clipboard blocked; codes are still on screen
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <Loader className="w-4 h-4 mr-2 animate-spin" />
+        Loading two-factor settings...
+      </div>
+    );
+  }
+  if (!status?.available) return null;
+
+  return (
+    <div className="pt-6 border-t border-gray-200 space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="font-medium text-ilaw-navy flex items-center">
+            <KeyRound className="w-4 h-4 mr-2" />
+            Two-Factor Authentication
+          </h3>
+          <p className="text-sm text-gray-500">
+            Require a code from an authenticator app (Google Authenticator, Authy, 1Password...)
+            when signing in.
+          </p>
+        </div>
+        <span
+          className={`text-xs font-semibold px-2 py-1 rounded-full ${
+            status.enabled ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-600"
+          }`}
+        >
+          {status.enabled ? "ON" : "OFF"}
+        </span>
+      </div>
+
+      {status.required && !status.enabled && (
+        <p className="text-sm p-3 rounded-lg bg-red-50 border border-red-200 text-red-800">
+          Two-factor authentication is required for {userRole} accounts. Set it up to continue using
+          the platform.
+        </p>
+      )}
+
+      {/* Recovery codes (shown once) */}
+      <AnimatePresence>
+        {recoveryCodes && (
+          <motion.div
+            initial={{ opacity: 0, y: -6 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -6 }}
+            className="p-4 rounded-lg bg-amber-50 border border-amber-200"
+          >
+            <p className="text-sm text-amber-900 font-medium mb-2">
+              Save these recovery codes somewhere safe. Each one works once if you lose your phone.
+              They won't be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-1 font-mono text-sm text-amber-900 mb-3">
+              {recoveryCodes.map(c => (
+                <span key={c}>{c}</span>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={copyCodes}
+                className="px-3 py-1.5 rounded-lg border border-amber-300 text-amber-900 text-sm inline-flex items-center"
+              >
+                <Copy className="w-4 h-4 mr-1" />
+                Copy
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setRecoveryCodes(null);
+                  if (status.required && userRole === "admin") navigate("/admin");
+                }}
+                className={`px-3 py-1.5 rounded-lg text-sm ${buttonClass}`}
+              >
+                I saved them
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Not enabled: enrollment */}
+      {!status.enabled && !setup && (
+        <button
+          type="button"
+          onClick={startSetup}
+          disabled={busy}
+          className={`px-4 py-2 rounded-lg ${buttonClass} inline-flex items-center disabled:opacity-50`}
+        >
+          {busy ? <Loader className="w-4 h-4 mr-2 animate-spin" /> : <ShieldCheck className="w-4 h-4 mr-2" />}
+          Set up two-factor authentication
+        </button>
+      )}
+
+      {setup && (
+        <div className="grid md:grid-cols-[auto,1fr] gap-4 items-start">
+          <img src={setup.qrCode} alt="Authenticator QR code" className="w-44 h-44 border rounded-lg" />
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Scan the QR code with your authenticator app, or enter this key manually:
+            </p>
+            <code className="block text-sm bg-gray-100 rounded px-2 py-1 break-all">{setup.secret}</code>
+            <input
+              value={code}
+              onChange={e => setCode(e.target.value)}
+              placeholder="6-digit code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              className={fieldClass}
+            />
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={confirmSetup}
+                disabled={busy || code.trim().length < 6}
+                className={`px-4 py-2 rounded-lg ${buttonClass} disabled:opacity-50`}
+              >
+                Verify & enable
+              </button>
+              <button
+                type="button"
+                onClick={() => setSetup(null)}
+                className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Enabled: manage */}
+      {status.enabled && !proofAction && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-gray-600 mr-2">
+            {status.recoveryCodesRemaining} recovery code(s) left
+          </span>
+          <button
+            type="button"
+            onClick={() => setProofAction("regenerate")}
+            className="px-3 py-1.5 rounded-lg border border-gray-300 text-gray-700 text-sm inline-flex items-center"
+          >
+            <RefreshCw className="w-4 h-4 mr-1" />
+            New recovery codes
+          </button>
+          {!status.required && (
+            <button
+              type="button"
+              onClick={() => setProofAction("disable")}
+              className="px-3 py-1.5 rounded-lg border border-red-300 text-red-700 text-sm inline-flex items-center"
+            >
+              <ShieldOff className="w-4 h-4 mr-1" />
+              Turn off
+            </button>
+          )}
+        </div>
+      )}
+
+      {proofAction && (
+        <div className="space-y-3 max-w-md">
+          <p className="text-sm text-gray-600">
+            {proofAction === "disable"
+              ? "Confirm with your password and a current code to turn off two-factor authentication."
+              : "Confirm with your password and a current code. Your old recovery codes will stop working."}
+          </p>
+          <input
+            type="password"
+            value={proofPassword}
+            onChange={e => setProofPassword(e.target.value)}
+            placeholder="Password"
+            className={fieldClass}
+          />
+          <input
+            value={code}
+            onChange={e => setCode(e.target.value)}
+            placeholder="6-digit code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            className={fieldClass}
+          />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={submitProof}
+              disabled={busy || !proofPassword || code.trim().length < 6}
+              className={`px-4 py-2 rounded-lg disabled:opacity-50 ${
+                proofAction === "disable" ? "bg-red-600 hover:bg-red-700 text-white" : buttonClass
+              }`}
+            >
+              {proofAction === "disable" ? "Turn off" : "Generate codes"}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setProofAction(null);
+                setProofPassword("");
+                setCode("");
+              }}
+              className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TwoFactorSettings;
@@ -6,6 +6,7 @@ import { Link } from 'wouter';
 import { useMutation } from '@tanstack/react-query';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useAuth } from '@/contexts/AuthContext';
+import { getAuthHeaders } from '@/lib/auth';
 
 // --- SECTION: Interface Definitions ---
 interface Question {
@@ -187,7 +188,6 @@ export function BookReader({ title, pages, returnPath, musicUrl, bookId }: BookR
   // Create mutation for marking a book as completed
   const markBookCompletedMutation = useMutation({
     mutationFn: async (bookId: number) => {
-      const token = localStorage.getItem('token');
       
       console.log("Marking book as completed:", bookId);
       
@@ -196,7 +196,7 @@ export function BookReader({ title, pages, returnPath, musicUrl, bookId }: BookR
           method: 'POST',
           headers: { 
             'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}` 
+            ...getAuthHeaders()
           },
           credentials: 'include'
         });
@@ -240,7 +240,6 @@ export function BookReader({ title, pages, returnPath, musicUrl, bookId }: BookR
   // Create mutation for updating progress
   const updateProgressMutation = useMutation({
     mutationFn: async (progressData: { bookId: number; currentPage: number; percentComplete: number }) => {
-      const token = localStorage.getItem('token');
       
       // Include explicit userId from the authenticated user
       const formattedData = {
@@ -255,7 +254,7 @@ export function BookReader({ title, pages, returnPath, musicUrl, bookId }: BookR
         method: 'POST',
         headers: { 
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}` 
+          ...getAuthHeaders()
         },
         body: JSON.stringify(formattedData),
         credentials: 'include'
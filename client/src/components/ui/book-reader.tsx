@@ -17,6 +17,7 @@ import {
 import { Button } from '@/components/ui/button';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import '@/Book-reader.css';
+import { getAuthHeaders } from '@/lib/auth';
 
 // --- SECTION: Interface Definitions ---
 interface Question {
@@ -140,7 +141,7 @@ export function BookReader({
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${localStorage.getItem('token')}`,
+          ...getAuthHeaders(),
         },
         body: JSON.stringify({ bookId: Number(bookIdRef.current) }),
       });
@@ -166,7 +167,7 @@ export function BookReader({
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${localStorage.getItem('token')}`,
+          ...getAuthHeaders(),
         },
         body: JSON.stringify({ bookId: Number(bookIdRef.current) }),
       });
@@ -192,12 +193,11 @@ export function BookReader({
 
   const updateProgressMutation = useMutation({
     mutationFn: async (progressData: { bookId: number; currentPage: number; percentComplete: number }) => {
-      const token = localStorage.getItem('token');
       const res = await fetch('/api/progress', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
+          ...getAuthHeaders(),
         },
         body: JSON.stringify({
           bookId: progressData.bookId,
@@ -215,12 +215,11 @@ export function BookReader({
 
   const markBookCompletedMutation = useMutation({
     mutationFn: async (id: number) => {
-      const token = localStorage.getItem('token');
       const response = await fetch(`/api/books/${id}/complete`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
+          ...getAuthHeaders(),
         },
         body: JSON.stringify({}),
         credentials: 'include',
@@ -255,12 +254,11 @@ export function BookReader({
 
   const quizAttemptMutation = useMutation({
     mutationFn: async (payload: QuizAttemptPayload) => {
-      const token = localStorage.getItem('token');
       const res = await fetch('/api/quiz-attempts', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
+          ...getAuthHeaders(),
         },
         body: JSON.stringify(payload),
       });
@@ -3,7 +3,7 @@ import { GraduationCap } from 'lucide-react';
 import { SCHOOL_NAME_FULL, SCHOOL_NAME_SHORT, SCHOOL_MOTTO_NATIVE } from "@/lib/branding";
 
 interface LogoProps {
-  variant?: "visitor" | "admin" | "student" | "teacher";
+  variant?: "visitor" | "admin" | "student" | "teacher" | "parent";
   className?: string;
   showText?: boolean;
   size?: "sm" | "default" | "lg" | "xl";
@@ -0,0 +1,48 @@
+// == PASSWORD CHECKLIST ==
+// Live feedback against the admin's password policy (GET /api/auth/password-policy).
+// The rules come from @shared/passwordPolicy, the same code the server enforces with.
+import { useQuery } from "@tanstack/react-query";
+import { CheckCircle2, XCircle } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { DEFAULT_PASSWORD_POLICY, checkPassword, type PasswordPolicy } from "@shared/passwordPolicy";
+
+/** Current policy; the defaults stand in until it loads (or if the request fails). */
+export function usePasswordPolicy(): PasswordPolicy {
+  const { data } = useQuery<{ policy: PasswordPolicy }>({
+    queryKey: ["password-policy"],
+    queryFn: () => apiRequest("GET", "/api/auth/password-policy"),
+    staleTime: 5 * 60 * 1000,
+  });
+  return data?.policy ?? DEFAULT_PASSWORD_POLICY;
+}
+
+type PasswordChecklistProps = {
+  password: string;
+  policy: PasswordPolicy;
+  // existing accounts only: mention the "no reuse" rule (checked on the server)
+  showHistory?: boolean;
+  className?: string;
+};
+
+export function PasswordChecklist({ password, policy, showHistory = false, className = "" }: PasswordChecklistProps) {
+  const checks = checkPassword(password, policy);
+  return (
+    <ul className={`space-y-1 text-sm ${className}`}>
+      {checks.map((c) => (
+        <li key={c.id} className={`flex items-center ${c.ok ? "text-green-600" : "text-gray-500"}`}>
+          {c.ok ? <CheckCircle2 className="h-4 w-4 mr-2" /> : <XCircle className="h-4 w-4 mr-2" />}
+          {c.label}
+        </li>
+      ))}
+      {showHistory && policy.historyCount > 0 && (
+        <li className="text-gray-500 pl-6">
+          {policy.historyCount === 1
+            ? "Different from your current password"
+            : `Not one of your last ${policy.historyCount} passwords`}
+        </li>
+      )}
+    </ul>
+  );
+}
+
+export default PasswordChecklist;
@@ -1,10 +1,42 @@
 // FIXED AuthContext.tsx - With Avatar + Refresh Persistence
 // --- SECTION: Imports ---
-import { createContext, useContext, useState, useEffect, ReactNode } from "react";
-import { loginUser, registerUser, logoutUser } from "@/lib/auth";
+import { createContext, useContext, useState, useEffect, useRef, ReactNode } from "react";
+import {
+  loginUser,
+  registerUser,
+  logoutUser,
+  verifyTwoFactorLogin,
+  classLoginUser,
+  startImpersonation,
+  endImpersonation,
+  migrateLegacyToken,
+  getSessionInfo,
+  refreshSession,
+} from "@/lib/auth";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Clock } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import {
+  canActOn,
+  isPermission,
+  ownsForAction,
+  type BookAccess,
+  type Permission,
+  type ScopedAction,
+} from "@shared/permissions";
 
 // --- SECTION: Interface Definitions ---
+type OwnedRecord = { addedById?: number | null; myAccess?: BookAccess | null };
+
 interface User {
   id: number;
   username: string;
@@ -14,12 +46,31 @@ interface User {
   role: string;
   gradeLevel?: string;
   avatar?: string; // ✅ NEW: Cloudinary avatar URL
+  impersonatedBy?: { id: number; firstName: string; lastName: string }; // admin "view as user"
+  passwordChangeRequired?: boolean; // signed in with an expired password
+  permissions?: Permission[]; // from /api/auth/user (shared/permissions.ts)
 }
 
+// Either a signed-in user, or a pending second step (2FA code needed)
+type LoginResult =
+  | {
+      user: User;
+      twoFactorRequired?: false;
+      twoFactorSetupRequired?: boolean;
+      passwordChangeRequired?: boolean;
+      recoveryCodesRemaining?: number;
+    }
+  | { user?: undefined; twoFactorRequired: true; challengeToken: string };
+
 interface AuthContextType {
   user: User | null;
   loading: boolean;
-  login: (email: string, password: string) => Promise<{ user: User }>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  completeTwoFactorLogin: (
+    challengeToken: string,
+    proof: { code?: string; recoveryCode?: string }
+  ) => Promise<LoginResult>;
+  classLogin: (classCode: string, studentId: number, secret: string) => Promise<LoginResult>;
   register: (userData: {
     username: string;
     email: string;
@@ -30,13 +81,48 @@ interface AuthContextType {
     gradeLevel?: string;
     securityQuestion?: string;
     securityAnswer?: string;
+    joinCode?: string;
+    parentInviteCode?: string;
   }) => Promise<{ user: User }>;
   logout: () => void;
+  impersonate: (userId: number) => Promise<User>;
+  stopImpersonating: () => Promise<void>;
+  // hide actions the server would refuse: can("students.approve"), or for
+  // .own/.any pairs can("books.edit", book) — uses book.myAccess when the
+  // server sent it (co-authors), else book.addedById
+  can: (permission: Permission | ScopedAction, record?: OwnedRecord | null) => boolean;
 }
 
 // --- SECTION: Context Creation ---
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// --- SECTION: Sliding Session ---
+// Active users get their token refreshed (at most once a minute); after
+// sessionTimeoutMinutes without activity a countdown appears, and when it runs
+// out the registered savers (e.g. story checkpoints) run before signing out.
+const REFRESH_EVERY_MS = 60 * 1000;
+const WARNING_MS = 60 * 1000;
+const SIGN_OUT_EARLY_MS = 5 * 1000; // leave the savers a still-valid token
+const SAVER_TIMEOUT_MS = 4 * 1000;
+const ACTIVITY_EVENTS = ["mousedown", "keydown", "touchstart", "scroll", "wheel"] as const;
+
+type SessionSaver = () => Promise<unknown> | void;
+const sessionSavers = new Set<SessionSaver>();
+
+/** Run `saver` before an idle sign-out (e.g. save the reader's checkpoint). Returns the unregister function. */
+export function registerSessionSaver(saver: SessionSaver) {
+  sessionSavers.add(saver);
+  return () => {
+    sessionSavers.delete(saver);
+  };
+}
+
+const runSessionSavers = () =>
+  Promise.race([
+    Promise.allSettled(Array.from(sessionSavers, (saver) => Promise.resolve().then(saver))),
+    new Promise((resolve) => setTimeout(resolve, SAVER_TIMEOUT_MS)),
+  ]);
+
 // --- SECTION: AuthProvider Component ---
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
@@ -44,32 +130,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [isInitializing, setIsInitializing] = useState(true); 
   const queryClient = useQueryClient();
 
-  // ✅ Token helper
-  const getToken = () => {
-    if (typeof window === "undefined") return null;
-    const token = localStorage.getItem("token");
-    if (!token || token === "null") return null;
-    return token;
-  };
-
-  // ✅ Auth check query
+  // ✅ Auth check query (the httpOnly session cookie is sent automatically)
   const { data, isLoading, error } = useQuery({
     queryKey: ["/api/auth/user"],
     queryFn: async () => {
-      const token = getToken();
-      if (!token) throw new Error("No token found");
+      await migrateLegacyToken();
 
-      console.log("🔍 Checking authentication with token...");
+      console.log("🔍 Checking authentication...");
 
-      const response = await fetch("/api/auth/user", {
-        headers: { Authorization: `Bearer ${token}` },
-        credentials: "include",
-      });
+      const response = await fetch("/api/auth/user", { credentials: "include" });
 
       if (!response.ok) {
         console.log("❌ Auth check failed:", response.status);
         if (response.status === 401) {
-          localStorage.removeItem("token");
           setAuthFailed(true);
         }
         throw new Error(`Auth failed: ${response.status}`);
@@ -83,7 +156,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     retry: false,
     staleTime: 5 * 60 * 1000,
     refetchOnWindowFocus: false,
-    enabled: !!getToken() && !authFailed,
+    enabled: !authFailed,
   });
 
   // ✅ Sync state from query
@@ -96,34 +169,34 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       console.log("🚫 Clearing user due to error/auth failure");
       setUser(null);
       setIsInitializing(false);
-    } else if (!getToken()) {
-      console.log("🔑 No token found, user not authenticated");
-      setUser(null);
-      setIsInitializing(false);
     }
   }, [data, error, authFailed]);
 
-  // ✅ Handle first load
-  useEffect(() => {
-    const token = getToken();
-    if (!token) {
-      console.log("🔄 No token on app init, marking as not authenticated");
-      setIsInitializing(false);
-      setUser(null);
-    }
-  }, []);
+  // ✅ Shared by both login steps once the server hands out a token
+  const applyLogin = (response: Awaited<ReturnType<typeof loginUser>>): LoginResult => {
+    setUser(response.passwordChangeRequired ? { ...response.user, passwordChangeRequired: true } : response.user);
+    setAuthFailed(false);
+    setIsInitializing(false);
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    console.log("✅ Login successful:", response.user.email);
+    return {
+      user: response.user,
+      twoFactorSetupRequired: response.twoFactorSetupRequired,
+      passwordChangeRequired: response.passwordChangeRequired,
+      recoveryCodesRemaining: response.recoveryCodesRemaining,
+    };
+  };
 
   // ✅ Login
-  const login = async (email: string, password: string) => {
+  const login = async (email: string, password: string): Promise<LoginResult> => {
     try {
       console.log("🔐 Attempting login for:", email);
       const response = await loginUser(email, password);
-      setUser(response.user); // includes avatar
-      setAuthFailed(false);
-      setIsInitializing(false);
-      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
-      console.log("✅ Login successful:", response.user.email);
-      return { user: response.user };
+      if (response.twoFactorRequired && response.challengeToken) {
+        console.log("🔑 Two-factor code required");
+        return { twoFactorRequired: true, challengeToken: response.challengeToken };
+      }
+      return applyLogin(response);
     } catch (error) {
       console.error("❌ Login failed:", error);
       setAuthFailed(true);
@@ -131,6 +204,29 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // ✅ Login step 2 (authenticator or recovery code)
+  const completeTwoFactorLogin = async (
+    challengeToken: string,
+    proof: { code?: string; recoveryCode?: string }
+  ): Promise<LoginResult> => {
+    try {
+      return applyLogin(await verifyTwoFactorLogin(challengeToken, proof));
+    } catch (error) {
+      console.error("❌ Two-factor verification failed:", error);
+      throw error;
+    }
+  };
+
+  // ✅ Class sign-in (K–2 picture / PIN)
+  const classLogin = async (classCode: string, studentId: number, secret: string): Promise<LoginResult> => {
+    try {
+      return applyLogin(await classLoginUser(classCode, studentId, secret));
+    } catch (error) {
+      console.error("❌ Class sign-in failed:", error);
+      throw error;
+    }
+  };
+
   // ✅ Register
   const register = async (userData: {
     username: string;
@@ -142,16 +238,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     gradeLevel?: string;
     securityQuestion?: string;
     securityAnswer?: string;
+    joinCode?: string;
+    parentInviteCode?: string;
   }) => {
     try {
       console.log("📝 Attempting registration for:", userData.email);
       const response = await registerUser(userData);
 
-      if (response.token && !response.requiresApproval) {
-        localStorage.setItem("token", response.token);
-        console.log("🔐 Token stored:", response.token);
-      } else {
-        console.log("🕒 Account pending approval. No token stored.");
+      if (response.requiresApproval) {
+        console.log("🕒 Account pending approval. Not signed in yet.");
       }
 
       setUser(response.user); // includes avatar
@@ -166,24 +261,150 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // ✅ View as user (admin) — swaps tokens, the admin's is restored on stop
+  const impersonate = async (userId: number) => {
+    const response = await startImpersonation(userId);
+    setUser(response.user);
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    return response.user;
+  };
+
+  const stopImpersonating = async () => {
+    await endImpersonation();
+    setUser(null);
+    setAuthFailed(false);
+    setIsInitializing(true);
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+  };
+
+  // ✅ Permissions (the server checks the same names)
+  const can = (permission: Permission | ScopedAction, record?: OwnedRecord | null) => {
+    const granted = user?.permissions ?? [];
+    if (isPermission(permission)) return granted.includes(permission);
+    const access = record?.myAccess ?? (user && record?.addedById === user.id ? "owner" : null);
+    return canActOn(granted, permission, ownsForAction(permission, access));
+  };
+
   // ✅ Logout
   const logout = () => {
+    // while viewing as someone, "log out" returns to the admin account
+    if (user?.impersonatedBy) {
+      void stopImpersonating();
+      return;
+    }
     console.log("🚪 Logging out user");
     logoutUser();
-    localStorage.removeItem("token");
     setUser(null);
-    setAuthFailed(false);
+    setAuthFailed(true); // nothing to check until the next sign-in
     setIsInitializing(false);
     queryClient.clear();
   };
 
-  const loading = isInitializing || (isLoading && !!getToken() && !authFailed);
+  // ✅ Sliding session: keepalive refresh, idle countdown, forced sign-out
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<number | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const lastActivityRef = useRef(Date.now());
+  const lastRefreshRef = useRef(0);
+  const sessionBusyRef = useRef(false);
+  const sessionSyncedRef = useRef(false);
+
+  const applySessionInfo = (info: { expiresAt: string }) => {
+    const expiresAt = new Date(info.expiresAt).getTime();
+    setSessionExpiresAt(Number.isFinite(expiresAt) ? expiresAt : null);
+  };
+
+  const staySignedIn = async () => {
+    try {
+      applySessionInfo(await refreshSession());
+      lastRefreshRef.current = Date.now();
+      setSecondsLeft(null);
+    } catch (error) {
+      console.error("❌ Session refresh failed:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (!user) {
+      setSessionExpiresAt(null);
+      setSecondsLeft(null);
+      return;
+    }
+    lastActivityRef.current = Date.now();
+    lastRefreshRef.current = 0;
+    getSessionInfo().then(applySessionInfo).catch(() => {});
+
+    const onActivity = () => {
+      lastActivityRef.current = Date.now();
+    };
+    ACTIVITY_EVENTS.forEach((name) => window.addEventListener(name, onActivity, { passive: true }));
+    return () => {
+      ACTIVITY_EVENTS.forEach((name) => window.removeEventListener(name, onActivity));
+    };
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!user || sessionExpiresAt === null) return;
+    sessionSyncedRef.current = false;
+
+    const tick = async () => {
+      if (sessionBusyRef.current) return;
+      const now = Date.now();
+      const signOutAt = sessionExpiresAt - SIGN_OUT_EARLY_MS;
+      const warning = signOutAt - now <= WARNING_MS;
+
+      // keepalive while the user is active (once the countdown shows, only the button extends)
+      if (!warning && lastActivityRef.current > lastRefreshRef.current && now - lastRefreshRef.current >= REFRESH_EVERY_MS) {
+        sessionBusyRef.current = true;
+        lastRefreshRef.current = now;
+        await refreshSession().then(applySessionInfo).catch(() => {});
+        sessionBusyRef.current = false;
+        return;
+      }
+
+      sessionBusyRef.current = true;
+      try {
+        // tabs share the session cookie: another tab may have kept it alive
+        if (warning && !sessionSyncedRef.current) {
+          sessionSyncedRef.current = true;
+          const info = await getSessionInfo().catch(() => null);
+          if (info && new Date(info.expiresAt).getTime() !== sessionExpiresAt) {
+            applySessionInfo(info);
+            return;
+          }
+        }
+
+        if (now < signOutAt) {
+          setSecondsLeft(warning ? Math.ceil((signOutAt - now) / 1000) : null);
+          return;
+        }
+
+        const info = await getSessionInfo().catch(() => null);
+        if (info && new Date(info.expiresAt).getTime() - SIGN_OUT_EARLY_MS - Date.now() > WARNING_MS) {
+          applySessionInfo(info);
+          setSecondsLeft(null);
+          return;
+        }
+        console.log("⏰ Session idle, signing out");
+        await runSessionSavers();
+        setSecondsLeft(null);
+        logout();
+        toast({ title: "Signed out", description: "You were signed out after a period of inactivity." });
+      } finally {
+        sessionBusyRef.current = false;
+      }
+    };
+
+    const timer = window.setInterval(() => void tick(), 1000);
+    return () => window.clearInterval(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.id, sessionExpiresAt]);
+
+  const loading = isInitializing || (isLoading && !authFailed);
 
   console.log("🔄 AuthProvider state:", {
     hasUser: !!user,
     loading,
     isInitializing,
-    hasToken: !!getToken(),
     authFailed,
     isLoading,
   });
@@ -194,11 +415,47 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         user,
         loading,
         login,
+        completeTwoFactorLogin,
+        classLogin,
         register,
         logout,
+        impersonate,
+        stopImpersonating,
+        can,
       }}
     >
       {children}
+      <Dialog open={secondsLeft !== null} onOpenChange={(open) => !open && void staySignedIn()}>
+        <DialogContent className="max-w-sm bg-white border-2 border-brand-gold-200">
+          <DialogHeader>
+            <DialogTitle className="text-ilaw-navy flex items-center">
+              <Clock className="h-5 w-5 mr-2 text-ilaw-gold" />
+              Still there?
+            </DialogTitle>
+            <DialogDescription>
+              You will be signed out in {secondsLeft ?? 0} second{secondsLeft === 1 ? "" : "s"} because of inactivity.
+              Your place in any story will be saved.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={async () => {
+                await runSessionSavers();
+                logout();
+              }}
+            >
+              Sign out
+            </Button>
+            <Button
+              className="bg-ilaw-gold hover:bg-brand-amber text-ilaw-navy font-bold"
+              onClick={() => void staySignedIn()}
+            >
+              Stay signed in
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </AuthContext.Provider>
   );
 }
@@ -1,7 +1,16 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 
+// A live "maintenance" announcement; replaces the default maintenance page text
+export interface MaintenanceNotice {
+  title: string;
+  body: string;
+  publishAt: string;
+  expiresAt: string | null;
+}
+
 interface MaintenanceContextType {
   isMaintenanceMode: boolean;
+  notice: MaintenanceNotice | null;
   setMaintenanceMode: (enabled: boolean) => void;
   checkMaintenanceMode: () => Promise<void>;
 }
@@ -18,6 +27,7 @@ export const useMaintenanceMode = () => {
 
 export const MaintenanceProvider = ({ children }: { children: React.ReactNode }) => {
   const [isMaintenanceMode, setIsMaintenanceMode] = useState(false);
+  const [notice, setNotice] = useState<MaintenanceNotice | null>(null);
 
   const setMaintenanceMode = (enabled: boolean) => {
     setIsMaintenanceMode(enabled);
@@ -29,6 +39,7 @@ export const MaintenanceProvider = ({ children }: { children: React.ReactNode })
       if (response.ok) {
         const data = await response.json();
         setIsMaintenanceMode(data.maintenanceMode || false);
+        setNotice(data.notice ?? null);
       }
     } catch (error) {
       console.error('Failed to check maintenance mode:', error);
@@ -47,6 +58,7 @@ export const MaintenanceProvider = ({ children }: { children: React.ReactNode })
   return (
     <MaintenanceContext.Provider value={{
       isMaintenanceMode,
+      notice,
       setMaintenanceMode,
       checkMaintenanceMode
     }}>
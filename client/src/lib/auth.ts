@@ -1,6 +1,6 @@
 // == IMPORTS & DEPENDENCIES ==
 import { queryClient } from "./queryClient";
-import { apiRequest } from "./queryClient";
+import { apiRequest, csrfHeaders, getCsrfToken } from "./queryClient";
 
 // == TYPE DEFINITIONS ==
 interface User {
@@ -13,12 +13,22 @@ interface User {
   gradeLevel?: string;
 }
 
+// The server keeps the token behind an httpOnly cookie; `token` is only still
+// returned for bearer clients during the migration and is never stored here.
 interface AuthResponse {
   user: User;
-  token: string;
+  token?: string;
   message: string;
   requiresApproval?: boolean;
   emailSent?: boolean;
+  // two-step login: no user/token yet, exchange challengeToken + code via verifyTwoFactorLogin
+  twoFactorRequired?: boolean;
+  challengeToken?: string;
+  // admin must enroll in 2FA; the token only reaches the enrollment endpoints
+  twoFactorSetupRequired?: boolean;
+  // password past the policy's maximum age; the token only reaches the change-password endpoint
+  passwordChangeRequired?: boolean;
+  recoveryCodesRemaining?: number;
 }
 
 // == AUTHENTICATION FUNCTIONS ==
@@ -26,11 +36,25 @@ export async function loginUser(email: string, password: string): Promise<AuthRe
   if (!email || !password) throw new Error("Missing credentials");
   const data = await apiRequest<AuthResponse>("POST", "/api/auth/login", { email, password });
 
-  try {
-    if (data?.token) localStorage.setItem("token", String(data.token));
-  } catch {
-    // ignore localStorage write failures (e.g., in private mode)
-  }
+  return data;
+}
+
+export async function verifyTwoFactorLogin(
+  challengeToken: string,
+  proof: { code?: string; recoveryCode?: string }
+): Promise<AuthResponse> {
+  const data = await apiRequest<AuthResponse>("POST", "/api/auth/login/2fa", { challengeToken, ...proof });
+
+  return data;
+}
+
+// K–2 class sign-in on a shared device: picture sequence (names joined by "-") or PIN
+export async function classLoginUser(classCode: string, studentId: number, secret: string): Promise<AuthResponse> {
+  const data = await apiRequest<AuthResponse>(
+    "POST",
+    `/api/auth/class/${encodeURIComponent(classCode)}/login`,
+    { studentId, secret }
+  );
 
   return data;
 }
@@ -45,44 +69,104 @@ export async function registerUser(userData: {
   gradeLevel?: string;
   securityQuestion?: string;
   securityAnswer?: string;
+  joinCode?: string;
+  parentInviteCode?: string;
 }): Promise<AuthResponse> {
   try {
-    const data = await apiRequest<AuthResponse>("POST", "/api/auth/register", userData);
-    
-    try {
-      if (data?.token) {
-        localStorage.setItem("token", String(data.token));
-      } else {
-        try { localStorage.removeItem("token"); } catch {}
-      }
-    } catch {
-      // ignore storage errors
-    }
-    
-    return data;
+    return await apiRequest<AuthResponse>("POST", "/api/auth/register", userData);
   } catch (error) {
     console.error("Registration error:", error);
     throw error;
   }
 }
 
+// == VIEW AS USER (admin impersonation) ==
+// The server parks the admin's own token in the cookie session while the
+// short-lived impersonation token is the active one; ending it switches back.
+export async function startImpersonation(userId: number): Promise<AuthResponse> {
+  const data = await apiRequest<AuthResponse>("POST", `/api/admin/users/${userId}/impersonate`, {});
+  queryClient.clear();
+  return data;
+}
+
+export async function endImpersonation(): Promise<void> {
+  try {
+    await apiRequest("POST", "/api/auth/impersonation/end", {});
+  } catch {
+    // session may already have expired; the auth check decides where we land
+  }
+  queryClient.clear();
+}
+
+// == SLIDING SESSIONS ==
+// The token lives for the admin's session timeout; while the user is active the
+// client swaps it for a fresh one. expiresAt = when the session ends if idle.
+export interface SessionInfo {
+  idleTimeoutMinutes: number;
+  expiresAt: string;
+}
+
+export async function getSessionInfo(): Promise<SessionInfo> {
+  return apiRequest<SessionInfo>("GET", "/api/auth/session");
+}
+
+export async function refreshSession(): Promise<SessionInfo> {
+  return apiRequest<SessionInfo>("POST", "/api/auth/session/refresh", {});
+}
+
+// == MIGRATION FROM localStorage TOKENS ==
+// Tabs signed in before cookie sessions still hold a bearer token (and, while
+// viewing as a user, the parked admin token). Trade them for a cookie session
+// once, then drop them from storage.
+const LEGACY_TOKEN_KEY = "token";
+const LEGACY_IMPERSONATOR_TOKEN_KEY = "impersonatorToken";
+
+export async function migrateLegacyToken(): Promise<void> {
+  let token: string | null = null;
+  let impersonatorToken: string | null = null;
+  try {
+    token = localStorage.getItem(LEGACY_TOKEN_KEY);
+    impersonatorToken = localStorage.getItem(LEGACY_IMPERSONATOR_TOKEN_KEY);
+  } catch {
+    return;
+  }
+  if (!token || token === "null") return;
+
+  try {
+    await fetch("/api/auth/session/cookie", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+      credentials: "include",
+      body: JSON.stringify(impersonatorToken ? { impersonatorToken } : {}),
+    });
+  } catch {
+    // offline or token already expired: the user just signs in again
+  } finally {
+    try {
+      localStorage.removeItem(LEGACY_TOKEN_KEY);
+      localStorage.removeItem(LEGACY_IMPERSONATOR_TOKEN_KEY);
+    } catch {}
+  }
+}
+
 export function logoutUser(): void {
-  try { localStorage.removeItem("token"); } catch {}
+  // revoke this device's session server-side and clear the cookie (fire-and-forget)
+  fetch("/api/auth/logout", {
+    method: "POST",
+    headers: csrfHeaders("POST"),
+    credentials: "include",
+  }).catch(() => {});
   queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
   queryClient.clear();
 }
 
 // == UTILITY FUNCTIONS ==
-export function getAuthToken(): string | null {
-  try { return localStorage.getItem("token"); } catch { return null; }
-}
-
+// The session cookie is httpOnly; the readable CSRF cookie shows a session exists.
 export function isAuthenticated(): boolean {
-  return !!getAuthToken();
+  return !!getCsrfToken();
 }
 
-export function getAuthHeaders(): HeadersInit {
-  const token = getAuthToken();
-  if (!token) return {};
-  return { Authorization: `Bearer ${token}` };
-}
\ No newline at end of file
+// Headers for hand-written fetch calls (the cookie itself is sent automatically)
+export function getAuthHeaders(): Record<string, string> {
+  return csrfHeaders("POST");
+}
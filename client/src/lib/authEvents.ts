@@ -0,0 +1,55 @@
+// == AUTH EVENT LABELS ==
+// Human-readable names for `auth_events.type` (see shared/schema.ts AUTH_EVENT_TYPES).
+import type { AuthEventType } from "@shared/schema";
+
+export const AUTH_EVENT_LABELS: Record<AuthEventType, string> = {
+  login: "Signed in",
+  login_failed: "Failed sign-in",
+  lockout: "Locked out",
+  logout: "Signed out",
+  session_timeout: "Signed out after inactivity",
+  password_changed: "Password changed",
+  password_change_failed: "Password change failed",
+  password_reset_requested: "Password reset requested",
+  password_reset: "Password reset",
+  email_verification_sent: "Verification email sent",
+  email_verified: "Email verified",
+  two_factor_enabled: "Two-factor enabled",
+  two_factor_disabled: "Two-factor disabled",
+  two_factor_failed: "Wrong two-factor code",
+  recovery_code_used: "Recovery code used",
+  impersonation_started: "Started viewing as a user",
+  impersonation_ended: "Stopped viewing as a user",
+  reset_code_issued: "Teacher reset code issued",
+  reset_code_redeemed: "Password reset with teacher code",
+  reset_code_failed: "Wrong teacher reset code",
+};
+
+// events worth highlighting in red
+export const isWarningEvent = (type: string) =>
+  type === "login_failed" ||
+  type === "lockout" ||
+  type === "password_change_failed" ||
+  type === "two_factor_failed" ||
+  type === "reset_code_failed" ||
+  type === "two_factor_disabled";
+
+export const authEventLabel = (type: string) =>
+  AUTH_EVENT_LABELS[type as AuthEventType] ?? type;
+
+// "Chrome on Windows"-style summary of a user agent string
+export function describeUserAgent(ua?: string | null): string {
+  if (!ua) return "Unknown device";
+  const browser =
+    /Edg\//.test(ua) ? "Edge" :
+    /Chrome\//.test(ua) ? "Chrome" :
+    /Firefox\//.test(ua) ? "Firefox" :
+    /Safari\//.test(ua) ? "Safari" : "Browser";
+  const os =
+    /Windows/.test(ua) ? "Windows" :
+    /Android/.test(ua) ? "Android" :
+    /iPhone|iPad/.test(ua) ? "iOS" :
+    /Mac OS X/.test(ua) ? "macOS" :
+    /Linux/.test(ua) ? "Linux" : "";
+  return os ? `${browser} on ${os}` : browser;
+}
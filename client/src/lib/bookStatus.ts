@@ -0,0 +1,34 @@
+// == BOOK STATUS ==
+// Labels and badge colours for the publishing lifecycle (draft → in review →
+// published → archived), shared by the book lists and the publishing card.
+import type { BookStatus } from "@shared/schema";
+
+type StatusBook = { status?: BookStatus | null; publishAt?: string | Date | null };
+
+export const BOOK_STATUS_LABELS: Record<BookStatus, string> = {
+  draft: "Draft",
+  in_review: "In review",
+  published: "Published",
+  archived: "Archived",
+};
+
+/** Published with a publish time still ahead. */
+export const isScheduled = (book: StatusBook) =>
+  book.status === "published" && !!book.publishAt && new Date(book.publishAt) > new Date();
+
+export const bookStatusLabel = (book: StatusBook) =>
+  isScheduled(book) ? "Scheduled" : BOOK_STATUS_LABELS[book.status ?? "published"];
+
+export const bookStatusBadgeClass = (book: StatusBook) => {
+  if (isScheduled(book)) return "bg-sky-100 text-sky-800 border border-sky-300";
+  switch (book.status) {
+    case "draft":
+      return "bg-slate-100 text-slate-700 border border-slate-300";
+    case "in_review":
+      return "bg-amber-100 text-amber-800 border border-amber-300";
+    case "archived":
+      return "bg-gray-200 text-gray-600 border border-gray-300";
+    default:
+      return "bg-green-100 text-green-800 border border-green-300";
+  }
+};
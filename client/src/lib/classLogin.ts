@@ -0,0 +1,66 @@
+// == CLASS SIGN-IN (K–2) ==
+// Picture alphabet display + the classes remembered on a shared classroom device.
+// Type-only import keeps drizzle out of the client bundle; the Record below
+// fails to compile if the server's picture list changes.
+import type { CLASS_LOGIN_PICTURES as ServerPictures } from "@shared/schema";
+
+export type ClassLoginPicture = (typeof ServerPictures)[number];
+
+export const CLASS_LOGIN_PICTURE_COUNT = 4; // keep in sync with shared/schema.ts
+export const CLASS_LOGIN_PIN_LENGTH = 4;
+
+export const PICTURE_EMOJI: Record<ClassLoginPicture, string> = {
+  cat: "🐱",
+  dog: "🐶",
+  fish: "🐟",
+  bird: "🐦",
+  sun: "☀️",
+  moon: "🌙",
+  star: "⭐",
+  tree: "🌳",
+  flower: "🌸",
+  apple: "🍎",
+  ball: "⚽",
+  car: "🚗",
+};
+
+export const CLASS_LOGIN_PICTURES = Object.keys(PICTURE_EMOJI) as ClassLoginPicture[];
+
+// "cat-sun-star-apple" -> "🐱 ☀️ ⭐ 🍎"
+export const pictureSecretToEmoji = (secret: string) =>
+  secret
+    .split("-")
+    .map((p) => PICTURE_EMOJI[p as ClassLoginPicture] ?? p)
+    .join(" ");
+
+/* ---------- classes saved on this device ---------- */
+
+export type SavedClass = { code: string; teacherName: string };
+
+const STORAGE_KEY = "classSignIn.classes";
+
+export function getSavedClasses(): SavedClass[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(raw) ? raw.filter((c) => c && typeof c.code === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveClass(entry: SavedClass) {
+  const next = [entry, ...getSavedClasses().filter((c) => c.code !== entry.code)].slice(0, 10);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // storage blocked; the class just won't be remembered
+  }
+}
+
+export function forgetClass(code: string) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(getSavedClasses().filter((c) => c.code !== code)));
+  } catch {
+    // ignore
+  }
+}
@@ -0,0 +1,47 @@
+// == FILE DOWNLOADS ==
+// Fetches an authenticated endpoint that returns a file (zip/csv/pdf...) and
+// hands it to the browser as a download. The server's Content-Disposition
+// filename wins over `fallbackName` when present. With `body` the request is a
+// JSON POST (for downloads that need more input than fits in a query string).
+
+import { csrfHeaders } from "@/lib/queryClient";
+
+async function readError(res: Response): Promise<string> {
+  try {
+    const body = await res.json();
+    return body?.message || res.statusText;
+  } catch {
+    return res.statusText || `Request failed (${res.status})`;
+  }
+}
+
+function filenameFrom(res: Response, fallbackName: string) {
+  const cd = res.headers.get("Content-Disposition") || "";
+  const m = cd.match(/filename="?([^";]+)"?/i);
+  return m?.[1] || fallbackName;
+}
+
+export async function downloadFile(url: string, fallbackName: string, body?: unknown): Promise<void> {
+  const res = await fetch(
+    url,
+    body === undefined
+      ? { credentials: "include" }
+      : {
+          method: "POST",
+          credentials: "include",
+          headers: { "Content-Type": "application/json", ...csrfHeaders("POST") },
+          body: JSON.stringify(body),
+        }
+  );
+  if (!res.ok) throw new Error(await readError(res));
+
+  const blob = await res.blob();
+  const href = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = href;
+  a.download = filenameFrom(res, fallbackName);
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(href), 1000);
+}
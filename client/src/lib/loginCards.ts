@@ -0,0 +1,62 @@
+// == PRINTABLE LOGIN CARDS ==
+// Opens a print-ready sheet of cut-out cards (name, grade, username, password)
+// for students created by the CSV import. Nothing is stored; the passwords
+// only exist in the import response.
+
+export type LoginCard = {
+  firstName: string;
+  lastName: string;
+  gradeLevel: string | null;
+  username: string;
+  password: string;
+};
+
+const escapeHtml = (s: string) =>
+  s.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+
+const gradeLabel = (g: string | null) => (!g ? "" : g === "K" ? "Kindergarten" : `Grade ${g}`);
+
+export function printLoginCards(cards: LoginCard[], title = "Adonai & Grace — Student Login Cards") {
+  const loginUrl = `${window.location.origin}/login`;
+  const cardHtml = cards
+    .map(
+      (c) => `
+      <div class="card">
+        <div class="name">${escapeHtml(`${c.firstName} ${c.lastName}`)}</div>
+        <div class="grade">${escapeHtml(gradeLabel(c.gradeLevel))}</div>
+        <div class="row"><span>Username</span><code>${escapeHtml(c.username)}</code></div>
+        <div class="row"><span>Password</span><code>${escapeHtml(c.password)}</code></div>
+        <div class="url">${escapeHtml(loginUrl)}</div>
+      </div>`
+    )
+    .join("");
+
+  const win = window.open("", "_blank");
+  if (!win) throw new Error("Allow pop-ups for this site to print the login cards");
+
+  win.document.write(`<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 16px; color: #0d2342; }
+    h1 { font-size: 16px; margin: 0 0 12px; }
+    .grid { display: grid; grid-template-columns: repeat(2, 1fr); gap: 12px; }
+    .card { border: 2px dashed #c9a227; border-radius: 10px; padding: 12px 14px; break-inside: avoid; }
+    .name { font-size: 18px; font-weight: 700; }
+    .grade { font-size: 12px; color: #6b7280; margin-bottom: 8px; }
+    .row { display: flex; justify-content: space-between; align-items: center; margin: 4px 0; font-size: 13px; }
+    .row code { font-size: 16px; font-weight: 700; letter-spacing: 0.5px; }
+    .url { margin-top: 8px; font-size: 11px; color: #6b7280; }
+    @media print { h1 { display: none; } body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)} (${cards.length})</h1>
+  <div class="grid">${cardHtml}</div>
+  <script>window.onload = function () { window.print(); };</script>
+</body>
+</html>`);
+  win.document.close();
+}
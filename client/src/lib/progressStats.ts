@@ -0,0 +1,12 @@
+// == READING PROGRESS STATS ==
+// The calculations live in @shared/progressStats so printed report cards match
+// what students and parents see; this adds the client-only styling helpers.
+
+export * from "@shared/progressStats";
+
+export const quizBadgeClass = (pct: number) =>
+  pct >= 80
+    ? "border-green-400 text-green-700"
+    : pct >= 50
+    ? "border-amber-400 text-amber-700"
+    : "border-red-400 text-red-700";
@@ -19,6 +19,24 @@ function toHttpError(res: Response, body: any): Error {
   return error;
 }
 
+// == CSRF ==
+// Signed-in requests ride on the httpOnly session cookie; mutating ones must
+// echo the CSRF token the server mirrors into the readable "ag.csrf" cookie.
+const CSRF_COOKIE = "ag.csrf";
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+export function getCsrfToken(): string | null {
+  if (typeof document === "undefined") return null;
+  const match = document.cookie.split("; ").find((c) => c.startsWith(`${CSRF_COOKIE}=`));
+  return match ? decodeURIComponent(match.slice(CSRF_COOKIE.length + 1)) : null;
+}
+
+export function csrfHeaders(method = "POST"): Record<string, string> {
+  if (SAFE_METHODS.includes(method.toUpperCase())) return {};
+  const token = getCsrfToken();
+  return token ? { "X-CSRF-Token": token } : {};
+}
+
 // == API BASE URL ==
 // Allow overriding via env to make the client configurable. If not provided,
 // use the current origin (works for production) instead of hardcoding localhost.
@@ -37,12 +55,9 @@ export async function apiRequest<T = any>(
   data?: any,
   options?: RequestInit
 ): Promise<T> {
-  let token: string | null = null;
-  try { token = localStorage.getItem("token"); } catch { token = null; }
-
   const headers: HeadersInit = {
     "Content-Type": "application/json",
-    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    ...csrfHeaders(method),
     ...(options?.headers || {}),
   };
 
@@ -68,14 +83,8 @@ type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn =
   <T>({ on401 }: { on401: UnauthorizedBehavior }): QueryFunction<T> =>
   async ({ queryKey }) => {
-    const token = localStorage.getItem("token");
-
-    const headers: HeadersInit = {
-      ...(token ? { Authorization: `Bearer ${token}` } : {}),
-    };
-
     const url = queryKey[0] as string;
-    const res = await fetch(url, { credentials: "include", headers });
+    const res = await fetch(url, { credentials: "include" });
 
     if (on401 === "returnNull" && res.status === 401) {
       return null as unknown as T;
@@ -1,4 +1,5 @@
 // src/lib/quiz.ts
+import { csrfHeaders } from "@/lib/queryClient";
 
 export type QuizMode = "retry" | "straight";
 
@@ -36,10 +37,6 @@ export type QuizStatsByBook = Record<number, QuizStats>;
  * Calculates percentage on the client to avoid trusting the caller.
  */
 export async function submitQuizAttempt(opts: SubmitQuizAttemptOptions) {
-  let token: string | null = null;
-  try { token = localStorage.getItem("token"); } catch { token = null; }
-  if (!token) throw new Error("Not authenticated: missing token");
-
   // basic guards
   const bookId = Number(opts.bookId);
   if (!Number.isFinite(bookId) || bookId <= 0) throw new Error("Invalid bookId");
@@ -57,7 +54,7 @@ export async function submitQuizAttempt(opts: SubmitQuizAttemptOptions) {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        Authorization: `Bearer ${token}`,
+        ...csrfHeaders("POST"),
       },
       credentials: "include",
       body: JSON.stringify({
@@ -94,10 +91,6 @@ export async function fetchQuizAttempts(params?: {
   pageId?: number;
   limit?: number;
 }) {
-  let token: string | null = null;
-  try { token = localStorage.getItem("token"); } catch { token = null; }
-  if (!token) throw new Error("Not authenticated: missing token");
-
   const qs = new URLSearchParams();
   if (params?.userId != null) qs.set("userId", String(params.userId));
   if (params?.bookId != null) qs.set("bookId", String(params.bookId));
@@ -107,10 +100,7 @@ export async function fetchQuizAttempts(params?: {
   const url = `/api/quiz-attempts${qs.toString() ? `?${qs.toString()}` : ""}`;
 
   try {
-    const res = await fetch(url, {
-      headers: { Authorization: `Bearer ${token}` },
-      credentials: "include",
-    });
+    const res = await fetch(url, { credentials: "include" });
 
     if (!res.ok) {
       const text = await res.text().catch(() => "");
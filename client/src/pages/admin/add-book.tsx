@@ -38,6 +38,7 @@ import {
 } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { motion, AnimatePresence } from "@/lib/motionShim";
+import { getAuthHeaders } from "@/lib/auth";
 
 // == ANIMATION PRESETS (UI only) ==
 const fadeCard = {
@@ -91,12 +92,6 @@ type AwardMethod = "auto_on_book_complete" | "manual";
 type CoverState = { url: string; publicId: string } | null;
 
 // == HELPERS ==
-function getToken() {
-  if (typeof window === "undefined") return null;
-  const t = localStorage.getItem("token");
-  return t && t !== "null" ? t : null;
-}
-
 async function uploadToCloudinary(
   file: File,
   folder: string,
@@ -106,10 +101,9 @@ async function uploadToCloudinary(
   fd.append("file", file);
   if (kind) fd.append("kind", kind);
 
-  const token = getToken();
   const resp = await fetch(`/api/upload?folder=${encodeURIComponent(folder)}`, {
     method: "POST",
-    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    headers: getAuthHeaders(),
     body: fd,
   });
   const data = await resp.json();
@@ -185,9 +179,8 @@ export default function AddBook() {
     (async () => {
       try {
         setLoadingBadges(true);
-        const token = getToken();
         const resp = await fetch("/api/badges?active=1", {
-          headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+          headers: getAuthHeaders(),
         });
         const data = await resp.json();
         if (resp.ok && data?.badges && mounted) {
@@ -306,7 +299,11 @@ export default function AddBook() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/books"] });
-      toast({ title: "Success!", description: "Book has been added successfully." });
+      // new books start as drafts; they go live from the book page
+      toast({
+        title: "Book saved as a draft",
+        description: "Students won't see it yet. Open the book to publish it or submit it for review.",
+      });
       navigate("/admin/books");
     },
     onError: (error) => {
@@ -12,6 +12,7 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage,} from "
 import { Card, CardContent } from "@/components/ui/card";
 import { ChevronLeft, GraduationCap, UserPlus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { getAuthHeaders } from "@/lib/auth";
 
 // == TYPE DEFINITIONS ==
 const teacherFormSchema = z.object({
@@ -68,7 +69,7 @@ export default function AddTeacher() {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
+          ...getAuthHeaders(),
         },
         body: JSON.stringify({
           ...teacherData,
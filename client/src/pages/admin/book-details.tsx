@@ -10,6 +10,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { motion, AnimatePresence } from '@/lib/motionShim';
+import { BookPublishingCard } from '@/components/admin/BookPublishingCard';
+import { BookSharingCard } from '@/components/admin/BookSharingCard';
+import { BookExportButton } from '@/components/admin/BookExportButton';
 
 // == Animation presets (UI-only) ==
 const fadeIn = {
@@ -164,11 +167,17 @@ export default function BookDetails() {
               </Button>
             </Link>
           </div>
-          <Link href={`/admin/edit-book/${bookId}`}>
-            <Button className="bg-gradient-to-r from-ilaw-gold to-amber-500 hover:from-amber-500 hover:to-yellow-600 text-ilaw-navy font-heading font-bold transition-transform hover:-translate-y-0.5">
-              <Edit className="h-4 w-4 mr-2" /> Edit Book
-            </Button>
-          </Link>
+          <div className="flex items-center gap-2">
+            <BookExportButton
+              bookId={bookId}
+              className="border border-brand-gold-300 text-ilaw-navy hover:bg-brand-gold-50 font-heading font-bold"
+            />
+            <Link href={`/admin/edit-book/${bookId}`}>
+              <Button className="bg-gradient-to-r from-ilaw-gold to-amber-500 hover:from-amber-500 hover:to-yellow-600 text-ilaw-navy font-heading font-bold transition-transform hover:-translate-y-0.5">
+                <Edit className="h-4 w-4 mr-2" /> Edit Book
+              </Button>
+            </Link>
+          </div>
         </motion.div>
 
         {/* == Content Grid == */}
@@ -179,7 +188,7 @@ export default function BookDetails() {
           className="grid grid-cols-1 lg:grid-cols-3 gap-8"
         >
           {/* == Book Information == */}
-          <motion.div variants={fadeIn} className="lg:col-span-1">
+          <motion.div variants={fadeIn} className="lg:col-span-1 space-y-8">
             <div className={cardBase}>
               <div className="border-b border-brand-gold-200 p-6 rounded-t-2xl">
                 <h3 className="text-xl font-heading font-bold text-ilaw-navy flex items-center">
@@ -255,6 +264,9 @@ export default function BookDetails() {
                 </div>
               </div>
             </div>
+
+            <BookPublishingCard book={bookData} />
+            <BookSharingCard bookId={bookId} />
           </motion.div>
 
           {/* == Book Content Tabs == */}
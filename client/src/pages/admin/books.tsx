@@ -19,6 +19,7 @@ import {
   BookOpen,
   GraduationCap,
   Library,
+  PackageOpen,
 } from "lucide-react";
 import {
   Table,
@@ -57,6 +58,12 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { BookCover } from "@/components/ui/media";
 import { motion, AnimatePresence } from "@/lib/motionShim";
+import { getAuthHeaders } from "@/lib/auth";
+import { useAuth } from "@/contexts/AuthContext";
+import { BookReviewQueue } from "@/components/admin/BookReviewQueue";
+import { TrashDialog } from "@/components/admin/TrashDialog";
+import { BookImportDialog } from "@/components/admin/BookImportDialog";
+import { BOOK_STATUS_LABELS, bookStatusBadgeClass, bookStatusLabel } from "@/lib/bookStatus";
 
 // == Animation presets (UI-only) ==
 const fadeIn = {
@@ -99,8 +106,12 @@ export default function AdminBooks() {
   const [searchTerm, setSearchTerm] = useState("");
   const [bookType, setBookType] = useState<"all" | "storybook" | "educational">("all");
   const [subjectFilter, setSubjectFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("all");
   const [page, setPage] = useState(1);
   const [deleteBookId, setDeleteBookId] = useState<number | null>(null);
+  const [trashOpen, setTrashOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const { can } = useAuth();
   const { toast } = useToast();
 
   // Reset subject filter when switching away from educational
@@ -112,9 +123,10 @@ export default function AdminBooks() {
 
   // == DATA FETCHING ==
   const { data: booksData, isLoading } = useQuery({
-    queryKey: ["/api/books", page, bookType, subjectFilter, searchTerm],
+    queryKey: ["/api/books", page, bookType, subjectFilter, searchTerm, statusFilter],
     queryFn: async () => {
       let url = `/api/books?page=${page}`;
+      if (statusFilter !== "all") url += `&status=${statusFilter}`;
       if (bookType !== "all") url += `&type=${bookType}`;
       if (bookType === "educational" && subjectFilter !== "all") {
         url += `&subject=${subjectFilter}`;
@@ -122,7 +134,7 @@ export default function AdminBooks() {
       if (searchTerm) url += `&search=${encodeURIComponent(searchTerm)}`;
 
       const response = await fetch(url, {
-        headers: { Authorization: `Bearer ${localStorage.getItem("token")}` },
+        headers: getAuthHeaders(),
       });
 
       if (!response.ok) throw new Error("Failed to fetch books");
@@ -134,7 +146,7 @@ export default function AdminBooks() {
   const deleteMutation = useMutation({
     mutationFn: async (bookId: number) => apiRequest("DELETE", `/api/books/${bookId}`),
     onSuccess: () => {
-      toast({ title: "Book deleted", description: "The book has been successfully deleted." });
+      toast({ title: "Moved to trash", description: "You can restore the book from the trash." });
       queryClient.invalidateQueries({ queryKey: ["/api/books"] });
       setDeleteBookId(null);
     },
@@ -152,7 +164,7 @@ export default function AdminBooks() {
     e.preventDefault();
     setPage(1);
     queryClient.invalidateQueries({
-      queryKey: ["/api/books", 1, bookType, subjectFilter, searchTerm],
+      queryKey: ["/api/books", 1, bookType, subjectFilter, searchTerm, statusFilter],
     });
   };
 
@@ -161,12 +173,16 @@ export default function AdminBooks() {
   const changeBookType = (val: "all" | "storybook" | "educational") => {
     setBookType(val);
     setPage(1);
-    queryClient.invalidateQueries({ queryKey: ["/api/books", 1, val, subjectFilter, searchTerm] });
+    queryClient.invalidateQueries({ queryKey: ["/api/books", 1, val, subjectFilter, searchTerm, statusFilter] });
   };
   const changeSubject = (val: string) => {
     setSubjectFilter(val);
     setPage(1);
-    queryClient.invalidateQueries({ queryKey: ["/api/books", 1, bookType, val, searchTerm] });
+    queryClient.invalidateQueries({ queryKey: ["/api/books", 1, bookType, val, searchTerm, statusFilter] });
+  };
+  const changeStatus = (val: string) => {
+    setStatusFilter(val);
+    setPage(1);
   };
 
   // Subject display helper
@@ -226,12 +242,30 @@ return (
               </Button>
             </Link>
           </div>
-          <Link href="/admin/add-book">
-            <Button className="mt-4 md:mt-0 bg-gradient-to-r from-ilaw-gold to-amber-500 hover:from-amber-500 hover:to-yellow-600 text-ilaw-navy flex items-center shadow-md transition-transform hover:-translate-y-0.5">
-              <Plus className="mr-2 h-4 w-4" />
-              Add New Book
+          <div className="flex items-center gap-2 mt-4 md:mt-0">
+            <Button
+              variant="outline"
+              onClick={() => setTrashOpen(true)}
+              className="border border-brand-gold-300 text-ilaw-navy hover:bg-brand-gold-50"
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Trash
             </Button>
-          </Link>
+            <Button
+              variant="outline"
+              onClick={() => setImportOpen(true)}
+              className="border border-brand-gold-300 text-ilaw-navy hover:bg-brand-gold-50"
+            >
+              <PackageOpen className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+            <Link href="/admin/add-book">
+              <Button className="bg-gradient-to-r from-ilaw-gold to-amber-500 hover:from-amber-500 hover:to-yellow-600 text-ilaw-navy flex items-center shadow-md transition-transform hover:-translate-y-0.5">
+                <Plus className="mr-2 h-4 w-4" />
+                Add New Book
+              </Button>
+            </Link>
+          </div>
         </motion.div>
 
         {/* == Search & Filter Section == */}
@@ -272,6 +306,21 @@ return (
                   </Select>
                 </div>
 
+                {/* == Status Filter == */}
+                <Select value={statusFilter} onValueChange={changeStatus}>
+                  <SelectTrigger className="w-[160px] border border-brand-gold-200 focus:border-ilaw-gold">
+                    <SelectValue placeholder="Status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Any status</SelectItem>
+                    {Object.entries(BOOK_STATUS_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
                 {/* Subject Filter (educational only) */}
                 {bookType === "educational" && (
                   <div className="flex items-center gap-2">
@@ -301,6 +350,8 @@ return (
           </div>
         </motion.div>
 
+<BookReviewQueue />
+
 {/* == Books Table Section == */}
 <motion.div variants={fadeIn} initial="hidden" animate="visible" className={`${cardBase} font-sans font-bold`}>
   <div className="border-b border-brand-gold-200 p-6">
@@ -317,6 +368,7 @@ return (
         <TableRow className="border-b border-brand-gold-200">
           <TableHead className="text-ilaw-navy">Title</TableHead>
           <TableHead className="text-ilaw-navy">Type</TableHead>
+          <TableHead className="text-ilaw-navy">Status</TableHead>
           <TableHead className="text-ilaw-navy">Subject</TableHead>
           <TableHead className="text-ilaw-navy">Grade Level</TableHead>
           <TableHead className="text-ilaw-navy">Date Added</TableHead>
@@ -328,7 +380,7 @@ return (
       <TableBody>
         {isLoading ? (
           <TableRow>
-            <TableCell colSpan={6} className="text-center py-8 text-yellow-700">
+            <TableCell colSpan={7} className="text-center py-8 text-yellow-700">
               Loading books...
             </TableCell>
           </TableRow>
@@ -375,6 +427,13 @@ return (
                       </span>
                     </TableCell>
 
+                    {/* == Publishing Status == */}
+                    <TableCell>
+                      <span className={`px-3 py-1 rounded-full text-xs ${bookStatusBadgeClass(book)}`}>
+                        {bookStatusLabel(book)}
+                      </span>
+                    </TableCell>
+
                     {/* Subject Badge (educational only) */}
                     <TableCell>
                       {book.type === "educational" && book.subject ? (
@@ -420,17 +479,21 @@ return (
                               <Eye className="mr-2 h-4 w-4" /> View Details
                             </DropdownMenuItem>
                           </Link>
-                          <Link href={`/admin/edit-book/${book.id}`}>
-                            <DropdownMenuItem className="flex items-center text-ilaw-navy hover:bg-brand-gold-50">
-                              <Edit className="mr-2 h-4 w-4" /> Edit Book
+                          {can("books.edit", book) && (
+                            <Link href={`/admin/edit-book/${book.id}`}>
+                              <DropdownMenuItem className="flex items-center text-ilaw-navy hover:bg-brand-gold-50">
+                                <Edit className="mr-2 h-4 w-4" /> Edit Book
+                              </DropdownMenuItem>
+                            </Link>
+                          )}
+                          {can("books.delete", book) && (
+                            <DropdownMenuItem
+                              className="flex items-center text-red-600 hover:bg-red-50"
+                              onClick={() => setDeleteBookId(book.id)}
+                            >
+                              <Trash2 className="mr-2 h-4 w-4" /> Delete Book
                             </DropdownMenuItem>
-                          </Link>
-                          <DropdownMenuItem
-                            className="flex items-center text-red-600 hover:bg-red-50"
-                            onClick={() => setDeleteBookId(book.id)}
-                          >
-                            <Trash2 className="mr-2 h-4 w-4" /> Delete Book
-                          </DropdownMenuItem>
+                          )}
                         </DropdownMenuContent>
                       </DropdownMenu>
                     </TableCell>
@@ -439,7 +502,7 @@ return (
               })
             ) : (
               <motion.tr key="no-books" variants={rowFade} initial="hidden" animate="visible" exit="exit">
-                <TableCell colSpan={6} className="text-center py-8 text-yellow-700">
+                <TableCell colSpan={7} className="text-center py-8 text-yellow-700">
                   No books found
                 </TableCell>
               </motion.tr>
@@ -482,13 +545,29 @@ return (
         </div>
       </main>
 
+{/* == Trash == */}
+<TrashDialog
+  open={trashOpen}
+  onOpenChange={setTrashOpen}
+  onRestored={() => queryClient.invalidateQueries({ queryKey: ["/api/books"] })}
+/>
+
+{/* == Import == */}
+<BookImportDialog
+  open={importOpen}
+  onOpenChange={setImportOpen}
+  bookHref={(id) => `/admin/books/${id}`}
+  onImported={() => queryClient.invalidateQueries({ queryKey: ["/api/books"] })}
+/>
+
 {/* == Delete Confirmation Dialog == */}
 <AlertDialog open={deleteBookId !== null} onOpenChange={() => setDeleteBookId(null)}>
   <AlertDialogContent className="border border-brand-gold-200 rounded-2xl shadow-lg font-sans font-bold">
     <AlertDialogHeader>
       <AlertDialogTitle className="text-ilaw-navy">Are you sure?</AlertDialogTitle>
       <AlertDialogDescription className="text-slate-600">
-        This action cannot be undone. This will permanently delete the book and all associated data.
+        The book moves to the trash with its pages and student progress. You can restore it from there until it
+        is removed for good.
       </AlertDialogDescription>
     </AlertDialogHeader>
     <AlertDialogFooter>
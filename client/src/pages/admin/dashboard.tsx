@@ -15,6 +15,7 @@ import {
   Shield,
 } from "lucide-react";
 import { motion } from "@/lib/motionShim";
+import { getAuthHeaders } from "@/lib/auth";
 
 // Small animation presets (UI-only; no data logic touched)
 const fadeIn = {
@@ -41,7 +42,7 @@ export default function AdminDashboard() {
     queryKey: ["/api/students", "approved"],
     queryFn: async () => {
       const response = await fetch("/api/students?status=approved", {
-        headers: { Authorization: `Bearer ${localStorage.getItem("token")}` },
+        headers: getAuthHeaders(),
       });
       if (!response.ok) throw new Error("Failed to fetch approved students data");
       return response.json();
@@ -52,7 +53,7 @@ export default function AdminDashboard() {
     queryKey: ["/api/stats"],
     queryFn: async () => {
       const response = await fetch("/api/stats", {
-        headers: { Authorization: `Bearer ${localStorage.getItem("token")}` },
+        headers: getAuthHeaders(),
       });
       if (!response.ok) throw new Error("Failed to fetch dashboard stats");
       return response.json();
@@ -63,7 +64,7 @@ export default function AdminDashboard() {
     queryKey: ["/api/teachers", "pending"],
     queryFn: async () => {
       const response = await fetch("/api/teachers?status=pending", {
-        headers: { Authorization: `Bearer ${localStorage.getItem("token")}` },
+        headers: getAuthHeaders(),
       });
       if (!response.ok) throw new Error("Failed to fetch pending teachers");
       return response.json();
@@ -2,7 +2,7 @@
 // == IMPORTS & DEPENDENCIES ==
 import { useState, useMemo } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Link } from "wouter";
+import { Link, useLocation } from "wouter";
 import { motion, AnimatePresence } from "@/lib/motionShim";
 import Header from "@/components/layout/Header";
 import { Card, CardContent } from "@/components/ui/card";
@@ -25,6 +25,11 @@ import {
   BarChart3,
   Award,
   Loader2,
+  LogOut,
+  Download,
+  Upload,
+  VenetianMask,
+  UserPlus,
 } from "lucide-react";
 import {
   Table,
@@ -64,9 +69,14 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { apiRequest } from "@/lib/queryClient";
 import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { downloadFile } from "@/lib/download";
+import { StudentImportDialog } from "@/components/admin/StudentImportDialog";
+import { ParentInvitesDialog } from "@/components/admin/ParentInvitesDialog";
 
 // shared media components
 import { AvatarImg, BookCover } from "@/components/ui/media";
+import { getAuthHeaders } from "@/lib/auth";
 
 // ---------- animations ----------
 const fadeInUp = {
@@ -182,8 +192,12 @@ export default function AdminStudents() {
   const [selectedStudent, setSelectedStudent] = useState<any>(null);
   const [rejectDialogOpen, setRejectDialogOpen] = useState(false);
   const [showProgressDialog, setShowProgressDialog] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [parentInvitesFor, setParentInvitesFor] = useState<any>(null);
 
   const queryClient = useQueryClient();
+  const { impersonate } = useAuth();
+  const [, navigate] = useLocation();
 
   // == DATA ==
   const { data: studentsData, isLoading } = useQuery({
@@ -195,7 +209,7 @@ export default function AdminStudents() {
       if (searchTerm) url += `&search=${encodeURIComponent(searchTerm)}`;
 
       const response = await fetch(url, {
-        headers: { Authorization: `Bearer ${localStorage.getItem("token")}` },
+        headers: getAuthHeaders(),
       });
       if (!response.ok) throw new Error("Failed to fetch students");
       return response.json();
@@ -206,7 +220,7 @@ export default function AdminStudents() {
     queryKey: ["/api/students", "pending"],
     queryFn: async () => {
       const response = await fetch("/api/students?status=pending", {
-        headers: { Authorization: `Bearer ${localStorage.getItem("token")}` },
+        headers: getAuthHeaders(),
       });
       if (!response.ok) throw new Error("Failed to fetch pending students");
       return response.json();
@@ -217,7 +231,7 @@ export default function AdminStudents() {
     queryKey: ["/api/progress"],
     queryFn: async () => {
       const response = await fetch("/api/progress", {
-        headers: { Authorization: `Bearer ${localStorage.getItem("token")}` },
+        headers: getAuthHeaders(),
       });
       if (!response.ok) throw new Error("Failed to fetch progress data");
       return response.json();
@@ -229,7 +243,7 @@ export default function AdminStudents() {
     queryKey: ["/api/quiz-attempts"],
     queryFn: async () => {
       const res = await fetch("/api/quiz-attempts", {
-        headers: { Authorization: `Bearer ${localStorage.getItem("token")}` },
+        headers: getAuthHeaders(),
       });
       if (!res.ok) throw new Error("Failed to fetch quiz attempts");
       return res.json();
@@ -383,6 +397,39 @@ export default function AdminStudents() {
     },
   });
 
+  const forceSignOutMutation = useMutation({
+    mutationFn: (studentId: number) =>
+      apiRequest<{ revokedCount: number }>("POST", `/api/admin/users/${studentId}/sign-out`, {}),
+    onSuccess: (data) => {
+      const n = data?.revokedCount ?? 0;
+      toast({
+        title: "Signed out",
+        description: n === 0 ? "No active sessions were found" : `Revoked ${n} active session${n === 1 ? "" : "s"}`,
+      });
+    },
+    onError: (err: any) => {
+      toast({ title: "Error", description: err?.message || "Failed to sign out student", variant: "destructive" });
+    },
+  });
+
+  const handleViewAsStudent = async (student: any) => {
+    if (!confirm(`View the site as ${student.firstName} ${student.lastName}? Everything you do will be recorded.`)) return;
+    try {
+      await impersonate(student.id);
+      navigate("/student");
+    } catch (err: any) {
+      toast({ title: "Error", description: err?.message || "Failed to view as student", variant: "destructive" });
+    }
+  };
+
+  const handleExportStudent = async (student: any) => {
+    try {
+      await downloadFile(`/api/admin/users/${student.id}/export`, `data-export-${student.username}.zip`);
+    } catch (err: any) {
+      toast({ title: "Error", description: err?.message || "Failed to export student data", variant: "destructive" });
+    }
+  };
+
   // == UI handlers ==
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
@@ -463,6 +510,14 @@ return (
               </Button>
             </Link>
           </div>
+          <Button
+            size="sm"
+            onClick={() => setImportOpen(true)}
+            className="bg-ilaw-navy hover:bg-brand-navy-800 text-white mt-2 md:mt-0"
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            Import Students (CSV)
+          </Button>
         </motion.div>
 
         {/* Search & Filter */}
@@ -704,6 +759,43 @@ return (
                         >
                           <Eye className="h-4 w-4 text-ilaw-navy" />
                         </motion.button>
+                        <motion.button
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.98 }}
+                          className="h-8 w-8 rounded-md inline-flex items-center justify-center hover:bg-red-50 border-2 border-transparent hover:border-red-200"
+                          onClick={() => forceSignOutMutation.mutate(student.id)}
+                          disabled={forceSignOutMutation.isPending}
+                          title="Force sign-out on all devices"
+                        >
+                          <LogOut className="h-4 w-4 text-red-600" />
+                        </motion.button>
+                        <motion.button
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.98 }}
+                          className="h-8 w-8 rounded-md inline-flex items-center justify-center hover:bg-brand-gold-100 border-2 border-transparent hover:border-brand-gold-200"
+                          onClick={() => handleExportStudent(student)}
+                          title="Export student data"
+                        >
+                          <Download className="h-4 w-4 text-ilaw-navy" />
+                        </motion.button>
+                        <motion.button
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.98 }}
+                          className="h-8 w-8 rounded-md inline-flex items-center justify-center hover:bg-brand-gold-100 border-2 border-transparent hover:border-brand-gold-200"
+                          onClick={() => handleViewAsStudent(student)}
+                          title="View as this student"
+                        >
+                          <VenetianMask className="h-4 w-4 text-ilaw-navy" />
+                        </motion.button>
+                        <motion.button
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.98 }}
+                          className="h-8 w-8 rounded-md inline-flex items-center justify-center hover:bg-brand-gold-100 border-2 border-transparent hover:border-brand-gold-200"
+                          onClick={() => setParentInvitesFor(student)}
+                          title="Parent access"
+                        >
+                          <UserPlus className="h-4 w-4 text-ilaw-navy" />
+                        </motion.button>
                       </div>
                     </TableCell>
                   </motion.tr>
@@ -991,6 +1083,13 @@ return (
       </main>
 
       {/* == Progress Dialog == */}
+      <StudentImportDialog open={importOpen} onOpenChange={setImportOpen} />
+      <ParentInvitesDialog
+        student={parentInvitesFor}
+        open={!!parentInvitesFor}
+        onOpenChange={(open) => !open && setParentInvitesFor(null)}
+      />
+
       <Dialog open={showProgressDialog} onOpenChange={setShowProgressDialog}>
         <DialogContent className="max-w-4xl max-h-[90vh] overflow-auto bg-ilaw-white border-2 border-ilaw-gold">
           <DialogHeader className="border-b border-brand-gold-200 pb-4">
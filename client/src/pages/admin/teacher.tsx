@@ -3,7 +3,7 @@
 // == IMPORTS & DEPENDENCIES ==
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Link } from "wouter";
+import { Link, useLocation } from "wouter";
 import Header from "@/components/layout/Header";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -15,6 +15,7 @@ import {
   GraduationCap,
   Users,
   UserCheck,
+  VenetianMask,
 } from "lucide-react";
 import {
   Table,
@@ -36,10 +37,12 @@ import {
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
 import { AvatarImg } from "@/components/ui/media";
 
 // ✨ animations
 import { motion, AnimatePresence } from "@/lib/motionShim";
+import { getAuthHeaders } from "@/lib/auth";
 
 // == TYPES ==
 type Teacher = {
@@ -71,6 +74,8 @@ const fade = {
 export default function AdminTeacher() {
   // == HOOKS & STATE ==
   const queryClient = useQueryClient();
+  const { impersonate } = useAuth();
+  const [, navigate] = useLocation();
   const [searchQuery, setSearchQuery] = useState<string>("");
   const [isRejectDialogOpen, setIsRejectDialogOpen] = useState(false);
   const [rejectionReason, setRejectionReason] = useState("");
@@ -87,7 +92,7 @@ export default function AdminTeacher() {
         }`,
         {
           headers: {
-            Authorization: `Bearer ${localStorage.getItem("token")}`,
+            ...getAuthHeaders(),
           },
         }
       );
@@ -100,7 +105,7 @@ export default function AdminTeacher() {
     queryKey: ["teachers", "pending"],
     queryFn: async () => {
       const response = await fetch("/api/teachers?status=pending", {
-        headers: { Authorization: `Bearer ${localStorage.getItem("token")}` },
+        headers: getAuthHeaders(),
       });
       if (!response.ok) throw new Error("Failed to fetch pending teachers");
       return response.json();
@@ -114,7 +119,7 @@ export default function AdminTeacher() {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
+          ...getAuthHeaders(),
         },
         body: JSON.stringify({}),
       });
@@ -153,7 +158,7 @@ export default function AdminTeacher() {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
+          ...getAuthHeaders(),
         },
         body: JSON.stringify({ reason }),
       });
@@ -190,6 +195,15 @@ export default function AdminTeacher() {
 
   // == EVENT HANDLERS ==
   const handleApproveTeacher = (teacherId: number) => approveMutation.mutate(teacherId);
+  const handleViewAsTeacher = async (teacher: Teacher) => {
+    if (!confirm(`View the site as ${teacher.firstName} ${teacher.lastName}? Everything you do will be recorded.`)) return;
+    try {
+      await impersonate(teacher.id);
+      navigate("/teacher");
+    } catch (err: any) {
+      toast({ title: "Error", description: err?.message || "Failed to view as teacher", variant: "destructive" });
+    }
+  };
   const handleRejectTeacher = (teacherId: number) => {
     setSelectedTeacherId(teacherId);
     setIsRejectDialogOpen(true);
@@ -407,6 +421,17 @@ export default function AdminTeacher() {
                                   </TableCell>
                                   <TableCell className="text-center">
                                     <div className="flex items-center justify-center space-x-2">
+                                      <motion.div whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }}>
+                                        <Button
+                                          variant="outline"
+                                          size="sm"
+                                          className="text-ilaw-navy border-brand-gold-300 hover:bg-brand-gold-50 font-sans font-bold"
+                                          onClick={() => handleViewAsTeacher(teacher)}
+                                        >
+                                          <VenetianMask className="h-4 w-4 mr-1" />
+                                          View as
+                                        </Button>
+                                      </motion.div>
                                       <motion.div whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }}>
                                         <Button
                                           variant="outline"
@@ -17,11 +17,7 @@ export type BadgeDTO = {
 };
 
 export async function listBadges(): Promise<BadgeDTO[]> {
-  let token: string | null = null;
-  try { token = localStorage.getItem("token"); } catch { token = null; }
-  const res = await fetch("/api/badges", {
-    headers: token ? { Authorization: `Bearer ${token}` } : {},
-  });
+  const res = await fetch("/api/badges", { credentials: "include" });
   if (!res.ok) throw new Error("Failed to load badges");
   const data = await res.json();
   return data.badges ?? [];
@@ -90,13 +86,9 @@ export async function attachBadgeToBook(
 }
 
 export async function listBookBadges(bookId: number): Promise<BookBadgeDTO[]> {
-  let token: string | null = null;
-  try { token = localStorage.getItem("token"); } catch { token = null; }
   const id = Number(bookId);
   if (!Number.isFinite(id) || id <= 0) throw new Error("Invalid bookId");
-  const res = await fetch(`/api/books/${encodeURIComponent(String(id))}/badges`, {
-    headers: token ? { Authorization: `Bearer ${token}` } : {},
-  });
+  const res = await fetch(`/api/books/${encodeURIComponent(String(id))}/badges`, { credentials: "include" });
   if (!res.ok) throw new Error("Failed to load book badges");
   const data = await res.json();
   return data.bookBadges ?? data.mappings ?? [];
@@ -121,13 +113,9 @@ export type EarnedBadgeDTO = {
 };
 
 export async function listUserBadges(userId: number): Promise<EarnedBadgeDTO[]> {
-  let token: string | null = null;
-  try { token = localStorage.getItem("token"); } catch { token = null; }
   const id = Number(userId);
   if (!Number.isFinite(id) || id <= 0) throw new Error("Invalid userId");
-  const res = await fetch(`/api/users/${encodeURIComponent(String(id))}/badges`, {
-    headers: token ? { Authorization: `Bearer ${token}` } : {},
-  });
+  const res = await fetch(`/api/users/${encodeURIComponent(String(id))}/badges`, { credentials: "include" });
   if (!res.ok) throw new Error("Failed to load user badges");
   const data = await res.json();
   return data.badges ?? data.earnedBadges ?? [];
@@ -1,5 +1,7 @@
 // client/src/pages/api/storyCheckpoints.ts
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { csrfHeaders } from "@/lib/queryClient";
+import { isAuthenticated } from "@/lib/auth";
 
 /** ============ Types ============ */
 export type StoryCheckpointDTO = {
@@ -33,14 +35,10 @@ export type SaveCheckpointInput = Partial<{
 }>;
 
 /** ============ Low-level fetchers ============ */
-const authHeaders = () => {
-  let token: string | null = null;
-  try { token = localStorage.getItem("token"); } catch { token = null; }
-  return {
-    "Content-Type": "application/json",
-    ...(token ? { Authorization: `Bearer ${token}` } : {}),
-  };
-};
+const authHeaders = () => ({
+  "Content-Type": "application/json",
+  ...csrfHeaders("PUT"),
+});
 
 export async function getCheckpoint(bookId: number): Promise<StoryCheckpointDTO | null> {
   const id = Number(bookId);
@@ -97,7 +95,7 @@ export async function resetCheckpoint(bookId: number): Promise<{ success: boolea
 
 /** ============ React Query helpers (optional) ============ */
 export function useCheckpoint(bookId: number) {
-  const enabled = Number.isFinite(bookId) && !!localStorage.getItem("token");
+  const enabled = Number.isFinite(bookId) && isAuthenticated();
   return useQuery({
     queryKey: ["story-checkpoint", bookId],
     queryFn: () => getCheckpoint(bookId),
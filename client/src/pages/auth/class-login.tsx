@@ -0,0 +1,293 @@
+// == IMPORTS & DEPENDENCIES ==
+import { useEffect, useState } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { Logo } from "@/components/ui/logo";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AvatarImg } from "@/components/ui/media";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowLeft, Delete, Loader2, X } from "lucide-react";
+import {
+  CLASS_LOGIN_PICTURES,
+  CLASS_LOGIN_PICTURE_COUNT,
+  CLASS_LOGIN_PIN_LENGTH,
+  PICTURE_EMOJI,
+  forgetClass,
+  getSavedClasses,
+  saveClass,
+  type ClassLoginPicture,
+} from "@/lib/classLogin";
+
+// == TYPE DEFINITIONS ==
+type RosterStudent = { id: number; name: string; avatar: string | null; kind: "pictures" | "pin" };
+type ClassRoster = { teacherName: string; students: RosterStudent[] };
+
+const normalizeCode = (raw: string) => raw.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+// == CLASS LOGIN COMPONENT ==
+// Shared classroom device: pick class -> tap your name -> pictures or PIN
+export default function ClassLogin() {
+  const params = useParams<{ code?: string }>();
+  const [, navigate] = useLocation();
+  const { classLogin } = useAuth();
+  const { toast } = useToast();
+
+  const code = params.code ? normalizeCode(params.code) : "";
+  const [codeInput, setCodeInput] = useState("");
+  const [savedClasses, setSavedClasses] = useState(getSavedClasses);
+  const [student, setStudent] = useState<RosterStudent | null>(null);
+  const [entry, setEntry] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  const { data: roster, isLoading, error } = useQuery<ClassRoster>({
+    queryKey: ["class-roster", code],
+    queryFn: () => apiRequest("GET", `/api/auth/class/${code}`),
+    enabled: !!code,
+    retry: false,
+  });
+
+  // remember this class on the device once it loads
+  useEffect(() => {
+    if (code && roster) {
+      saveClass({ code, teacherName: roster.teacherName });
+      setSavedClasses(getSavedClasses());
+    }
+  }, [code, roster]);
+
+  const needed = student?.kind === "pin" ? CLASS_LOGIN_PIN_LENGTH : CLASS_LOGIN_PICTURE_COUNT;
+
+  const submit = async (values: string[]) => {
+    if (!student) return;
+    setSubmitting(true);
+    try {
+      await classLogin(code, student.id, student.kind === "pin" ? values.join("") : values.join("-"));
+      navigate("/student");
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: "Oops!",
+        description: err instanceof Error ? err.message : "That's not quite right. Try again!",
+      });
+      setEntry([]);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const press = (value: string) => {
+    if (submitting || entry.length >= needed) return;
+    const next = [...entry, value];
+    setEntry(next);
+    if (next.length === needed) submit(next);
+  };
+
+  // == RENDER COMPONENT ==
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4">
+      <div className="max-w-3xl w-full space-y-8 bg-white p-8 rounded-lg shadow-md">
+        <div className="text-center">
+          <Logo className="mx-auto" />
+          <h2 className="mt-6 text-3xl font-bold font-serif text-gray-900">
+            {student ? `Hi, ${student.name}!` : roster ? roster.teacherName + "'s class" : "Class sign-in"}
+          </h2>
+        </div>
+
+        {/* == Step 1: pick a class == */}
+        {!code && (
+          <div className="space-y-6 max-w-md mx-auto">
+            {savedClasses.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-gray-600 text-center">Pick your class</p>
+                {savedClasses.map((c) => (
+                  <div key={c.code} className="flex items-center gap-2">
+                    <Button
+                      className="flex-1 h-14 text-lg bg-primary hover:bg-primary/90"
+                      onClick={() => navigate(`/login/class/${c.code}`)}
+                    >
+                      {c.teacherName}
+                    </Button>
+                    <button
+                      type="button"
+                      title="Forget this class on this device"
+                      className="p-2 text-gray-400 hover:text-red-600"
+                      onClick={() => {
+                        forgetClass(c.code);
+                        setSavedClasses(getSavedClasses());
+                      }}
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <form
+              className="space-y-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                const next = normalizeCode(codeInput);
+                if (next) navigate(`/login/class/${next}`);
+              }}
+            >
+              <p className="text-sm text-gray-600">Teachers: enter your class sign-in code to add this device.</p>
+              <div className="flex gap-2">
+                <Input
+                  value={codeInput}
+                  onChange={(e) => setCodeInput(e.target.value)}
+                  placeholder="Class code"
+                  className="uppercase"
+                  autoComplete="off"
+                />
+                <Button type="submit" disabled={!codeInput.trim()}>
+                  Open
+                </Button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        {code && isLoading && (
+          <div className="flex justify-center text-gray-500">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        )}
+
+        {code && error && (
+          <div className="text-center space-y-4">
+            <p className="text-red-600">This class could not be found. Ask your teacher for help.</p>
+            <Button variant="outline" onClick={() => navigate("/login/class")}>
+              Choose another class
+            </Button>
+          </div>
+        )}
+
+        {/* == Step 2: tap your name == */}
+        {roster && !student && (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+            {roster.students.length === 0 && (
+              <p className="col-span-full text-center text-gray-500">
+                No one in this class can use picture sign-in yet.
+              </p>
+            )}
+            {roster.students.map((s) => (
+              <button
+                key={s.id}
+                type="button"
+                onClick={() => {
+                  setStudent(s);
+                  setEntry([]);
+                }}
+                className="flex flex-col items-center gap-2 p-4 rounded-2xl border-2 border-gray-200 hover:border-primary hover:bg-primary/5 transition"
+              >
+                <AvatarImg
+                  url={s.avatar}
+                  firstName={s.name}
+                  lastName=""
+                  size={72}
+                />
+                <span className="text-lg font-semibold text-gray-900">{s.name}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* == Step 3: pictures or PIN == */}
+        {student && (
+          <div className="space-y-6 max-w-lg mx-auto">
+            <p className="text-center text-gray-600">
+              {student.kind === "pin" ? "Type your secret number" : "Tap your secret pictures in order"}
+            </p>
+
+            {/* progress dots / chosen pictures */}
+            <div className="flex justify-center gap-3 min-h-[3.5rem]">
+              {Array.from({ length: needed }, (_, i) => (
+                <div
+                  key={i}
+                  className="w-14 h-14 rounded-xl border-2 border-gray-300 flex items-center justify-center text-3xl"
+                >
+                  {entry[i] ? (student.kind === "pin" ? "●" : PICTURE_EMOJI[entry[i] as ClassLoginPicture]) : ""}
+                </div>
+              ))}
+            </div>
+
+            {student.kind === "pin" ? (
+              <div className="grid grid-cols-3 gap-3">
+                {["1", "2", "3", "4", "5", "6", "7", "8", "9", "", "0"].map((d, i) =>
+                  d ? (
+                    <button
+                      key={i}
+                      type="button"
+                      disabled={submitting}
+                      onClick={() => press(d)}
+                      className="h-16 rounded-2xl border-2 border-gray-200 text-2xl font-bold hover:bg-primary/10"
+                    >
+                      {d}
+                    </button>
+                  ) : (
+                    <span key={i} />
+                  )
+                )}
+                <button
+                  type="button"
+                  onClick={() => setEntry((e) => e.slice(0, -1))}
+                  className="h-16 rounded-2xl border-2 border-gray-200 flex items-center justify-center hover:bg-gray-100"
+                  title="Undo"
+                >
+                  <Delete className="h-6 w-6" />
+                </button>
+              </div>
+            ) : (
+              <div className="grid grid-cols-4 gap-3">
+                {CLASS_LOGIN_PICTURES.map((p) => (
+                  <button
+                    key={p}
+                    type="button"
+                    disabled={submitting}
+                    onClick={() => press(p)}
+                    className="h-20 rounded-2xl border-2 border-gray-200 text-4xl hover:bg-primary/10"
+                    title={p}
+                  >
+                    {PICTURE_EMOJI[p]}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStudent(null)}>
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                That's not me
+              </Button>
+              {submitting ? (
+                <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+              ) : (
+                student.kind === "pictures" && (
+                  <Button variant="ghost" onClick={() => setEntry([])} disabled={entry.length === 0}>
+                    Start over
+                  </Button>
+                )
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* == Navigation == */}
+        <div className="flex justify-between text-sm">
+          {code ? (
+            <button type="button" className="text-primary hover:underline" onClick={() => navigate("/login/class")}>
+              Switch class
+            </button>
+          ) : (
+            <span />
+          )}
+          <Link href="/login" className="text-primary hover:underline">
+            Sign in with email or username
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,13 +4,15 @@ import { Logo } from "@/components/ui/logo";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Loader2, Mail, HelpCircle } from "lucide-react";
+import { ArrowLeft, Loader2, Mail, HelpCircle, KeyRound } from "lucide-react";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { PasswordChecklist, usePasswordPolicy } from "@/components/ui/password-checklist";
+import { passwordPolicyError } from "@shared/passwordPolicy";
 
 // == VALIDATION SCHEMAS ==
 const emailResetSchema = z.object({
@@ -35,11 +37,25 @@ const resetPasswordSchema = z
     path: ["confirmPassword"],
   });
 
+// code a teacher created on their students page
+const teacherCodeSchema = z
+  .object({
+    username: z.string().min(3, "Username must be at least 3 characters"),
+    code: z.string().min(8, "Enter the 8-character code from your teacher"),
+    newPassword: z.string().min(6, "Password must be at least 6 characters"),
+    confirmPassword: z.string().min(6, "Confirm password is required"),
+  })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
+
 // == TYPE DEFINITIONS ==
 type EmailResetFormValues = z.infer<typeof emailResetSchema>;
 type UsernameFormValues = z.infer<typeof usernameSchema>;
 type SecurityAnswerFormValues = z.infer<typeof securityAnswerSchema>;
 type ResetPasswordFormValues = z.infer<typeof resetPasswordSchema>;
+type TeacherCodeFormValues = z.infer<typeof teacherCodeSchema>;
 
 export default function ForgotPassword() {
   const { toast } = useToast();
@@ -80,6 +96,15 @@ export default function ForgotPassword() {
     resolver: zodResolver(resetPasswordSchema),
     defaultValues: { newPassword: "", confirmPassword: "" },
   });
+  const teacherCodeForm = useForm<TeacherCodeFormValues>({
+    resolver: zodResolver(teacherCodeSchema),
+    defaultValues: { username: "", code: "", newPassword: "", confirmPassword: "" },
+  });
+  const [teacherCodeLoading, setTeacherCodeLoading] = useState(false);
+
+  const passwordPolicy = usePasswordPolicy();
+  const newPassword = resetForm.watch("newPassword");
+  const teacherCodePassword = teacherCodeForm.watch("newPassword");
 
   // == EMAIL RESET HANDLER ==
   const onEmailSubmit = async (data: EmailResetFormValues) => {
@@ -204,6 +229,11 @@ export default function ForgotPassword() {
   };
 
   const onResetSubmit = async (data: ResetPasswordFormValues) => {
+    const policyError = passwordPolicyError(data.newPassword, passwordPolicy);
+    if (policyError) {
+      resetForm.setError("newPassword", { message: policyError });
+      return;
+    }
     setSecurityLoading(true);
     try {
       const response = await fetch("/api/auth/forgot-password/reset", {
@@ -257,6 +287,39 @@ export default function ForgotPassword() {
     }
   };
 
+  // == TEACHER CODE HANDLER ==
+  const onTeacherCodeSubmit = async (data: TeacherCodeFormValues) => {
+    const policyError = passwordPolicyError(data.newPassword, passwordPolicy);
+    if (policyError) {
+      teacherCodeForm.setError("newPassword", { message: policyError });
+      return;
+    }
+    setTeacherCodeLoading(true);
+    try {
+      const response = await fetch("/api/auth/reset-code", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username: data.username, code: data.code, newPassword: data.newPassword }),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || !result.success) throw new Error(result.message || "Failed to reset password");
+
+      toast({
+        title: "Password Reset Successful",
+        description: "You can now log in with your new password.",
+      });
+      navigate("/login?reset=success");
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to reset password",
+      });
+    } finally {
+      setTeacherCodeLoading(false);
+    }
+  };
+
   // == RENDER ==
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4">
@@ -306,7 +369,7 @@ export default function ForgotPassword() {
         ) : (
           /* == RESET OPTIONS TABS == */
           <Tabs defaultValue="email" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="email" className="flex items-center gap-2">
                 <Mail className="h-4 w-4" />
                 Email Reset
@@ -315,6 +378,10 @@ export default function ForgotPassword() {
                 <HelpCircle className="h-4 w-4" />
                 Security Question
               </TabsTrigger>
+              <TabsTrigger value="teacher-code" className="flex items-center gap-2">
+                <KeyRound className="h-4 w-4" />
+                Teacher Code
+              </TabsTrigger>
             </TabsList>
 
             {/* == EMAIL RESET TAB == */}
@@ -460,6 +527,9 @@ export default function ForgotPassword() {
                             <FormControl>
                               <Input {...field} type="password" placeholder="Enter new password" />
                             </FormControl>
+                            {newPassword && (
+                              <PasswordChecklist password={newPassword} policy={passwordPolicy} showHistory />
+                            )}
                             <FormMessage />
                           </FormItem>
                         )}
@@ -517,6 +587,83 @@ export default function ForgotPassword() {
                 </>
               )}
             </TabsContent>
+
+            {/* == TEACHER CODE TAB == */}
+            <TabsContent value="teacher-code" className="space-y-6">
+              <div className="text-center">
+                <p className="text-sm text-gray-600">
+                  Ask your teacher for a reset code, then enter it with your username
+                </p>
+              </div>
+
+              <Form {...teacherCodeForm}>
+                <form onSubmit={teacherCodeForm.handleSubmit(onTeacherCodeSubmit)} className="space-y-4">
+                  <FormField
+                    control={teacherCodeForm.control}
+                    name="username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Username</FormLabel>
+                        <FormControl>
+                          <Input {...field} placeholder="Enter your username" autoComplete="username" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={teacherCodeForm.control}
+                    name="code"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Reset code</FormLabel>
+                        <FormControl>
+                          <Input {...field} placeholder="ABCD-EFGH" className="uppercase font-mono" autoComplete="off" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={teacherCodeForm.control}
+                    name="newPassword"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>New Password</FormLabel>
+                        <FormControl>
+                          <Input {...field} type="password" placeholder="Enter new password" autoComplete="new-password" />
+                        </FormControl>
+                        {teacherCodePassword && (
+                          <PasswordChecklist password={teacherCodePassword} policy={passwordPolicy} showHistory />
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={teacherCodeForm.control}
+                    name="confirmPassword"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Confirm Password</FormLabel>
+                        <FormControl>
+                          <Input {...field} type="password" placeholder="Confirm your password" autoComplete="new-password" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <Button type="submit" className="w-full bg-primary hover:bg-primary/90" disabled={teacherCodeLoading}>
+                    {teacherCodeLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                    Reset Password
+                  </Button>
+                </form>
+              </Form>
+            </TabsContent>
           </Tabs>
         )}
 
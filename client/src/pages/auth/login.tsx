@@ -7,7 +7,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Loader2 } from "lucide-react";
+import { ArrowLeft, Loader2, Smile } from "lucide-react";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -22,7 +22,8 @@ import {
 
 // == VALIDATION SCHEMA ==
 const loginSchema = z.object({
-  email: z.string().email("Please enter a valid email address"),
+  // email, or username for students whose accounts were imported by the school
+  email: z.string().trim().min(1, "Please enter your email or username"),
   password: z.string().min(1, "Password is required"),
   rememberMe: z.boolean().optional().default(false),
 });
@@ -33,7 +34,7 @@ type LoginFormValues = z.infer<typeof loginSchema>;
 // == LOGIN COMPONENT ==
 export default function Login() {
   // == HOOKS & STATE ==
-  const { login } = useAuth();
+  const { login, completeTwoFactorLogin } = useAuth();
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
@@ -43,6 +44,16 @@ export default function Login() {
   const [resendLoading, setResendLoading] = useState(false);
   const [inlineMsg, setInlineMsg] = useState<string | null>(null);
 
+  // account scheduled for deletion: offer restore
+  const [pendingDeletion, setPendingDeletion] = useState(false);
+  const [restoreLoading, setRestoreLoading] = useState(false);
+  const [restoreMsg, setRestoreMsg] = useState<string | null>(null);
+
+  // two-step login: set when the password was right and a 2FA code is needed
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
   // == FORM SETUP ==
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -58,31 +69,19 @@ export default function Login() {
     setIsLoading(true);
     setNeedsVerify(false);
     setInlineMsg(null);
+    setPendingDeletion(false);
+    setRestoreMsg(null);
 
     try {
       const result = await login(data.email, data.password);
 
-      // Add delay to ensure AuthContext updates
-      await new Promise((resolve) => setTimeout(resolve, 100));
-
-      // == SUCCESS TOAST ==
-      toast({
-        title: "Login successful!",
-        description: `Welcome back, ${result.user.firstName}!`,
-      });
-
-      // == ROLE-BASED REDIRECT ==
-      const userRole = result.user.role.toLowerCase();
-
-      if (userRole === "admin") {
-        navigate("/admin");
-      } else if (userRole === "teacher") {
-        navigate("/teacher");
-      } else if (userRole === "student") {
-        navigate("/student");
-      } else {
-        navigate("/");
+      if (result.twoFactorRequired) {
+        setChallengeToken(result.challengeToken);
+        setTwoFactorCode("");
+        return;
       }
+
+      await finishLogin(result);
     } catch (error) {
       // == ERROR HANDLING ==
       console.error("Login error:", error);
@@ -105,6 +104,78 @@ export default function Login() {
           "Your email isn’t verified yet. You can resend the verification email below."
         );
       }
+
+      if (/scheduled for deletion/i.test(message)) {
+        setPendingDeletion(true);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // shared by both login steps
+  const finishLogin = async (result: Awaited<ReturnType<typeof login>>) => {
+    if (!result.user) return;
+
+    // Add delay to ensure AuthContext updates
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    // == SUCCESS TOAST ==
+    toast({
+      title: "Login successful!",
+      description: `Welcome back, ${result.user.firstName}!`,
+    });
+
+    if (result.recoveryCodesRemaining !== undefined && result.recoveryCodesRemaining <= 3) {
+      toast({
+        title: "Running low on recovery codes",
+        description: `${result.recoveryCodesRemaining} left. Generate new ones in Password & Security.`,
+      });
+    }
+
+    // == ROLE-BASED REDIRECT ==
+    const userRole = result.user.role.toLowerCase();
+
+    if (result.passwordChangeRequired) {
+      toast({
+        title: "Your password has expired",
+        description: "Please choose a new password to continue.",
+      });
+      navigate(`/${userRole}/settings?section=security`);
+    } else if (result.twoFactorSetupRequired) {
+      toast({
+        title: "Set up two-factor authentication",
+        description: "Admin accounts must use an authenticator app before continuing.",
+      });
+      navigate(`/${userRole}/settings?section=security`);
+    } else if (userRole === "admin") {
+      navigate("/admin");
+    } else if (userRole === "teacher") {
+      navigate("/teacher");
+    } else if (userRole === "student") {
+      navigate("/student");
+    } else if (userRole === "parent") {
+      navigate("/parent");
+    } else {
+      navigate("/");
+    }
+  };
+
+  // == 2FA STEP ==
+  const onSubmitTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken || !twoFactorCode.trim()) return;
+    setIsLoading(true);
+    try {
+      const proof = useRecoveryCode
+        ? { recoveryCode: twoFactorCode.trim() }
+        : { code: twoFactorCode.trim() };
+      await finishLogin(await completeTwoFactorLogin(challengeToken, proof));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Invalid verification code";
+      toast({ variant: "destructive", title: "Verification failed", description: message });
+      // challenge expired → back to the password step
+      if (/sign in again|invalid verification request/i.test(message)) setChallengeToken(null);
     } finally {
       setIsLoading(false);
     }
@@ -134,6 +205,31 @@ export default function Login() {
     }
   };
 
+  // restore an account that is still in its deletion grace period, then sign in
+  const restoreAccount = async () => {
+    const { email, password } = form.getValues();
+    setRestoreLoading(true);
+    setRestoreMsg(null);
+    try {
+      const res = await fetch("/api/auth/restore-account", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        setRestoreMsg(data.message || "Failed to restore account. Please try again.");
+        return;
+      }
+      toast({ title: "Account restored", description: data.message });
+      await onSubmit(form.getValues());
+    } catch {
+      setRestoreMsg("Failed to restore account. Please try again.");
+    } finally {
+      setRestoreLoading(false);
+    }
+  };
+
   // == RENDER COMPONENT ==
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4">
@@ -152,89 +248,146 @@ export default function Login() {
           </p>
         </div>
 
-        {/* == Login Form == */}
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="mt-8 space-y-6">
-            {/* == Form Fields == */}
-            <div className="space-y-4">
-              <FormField
-                control={form.control}
-                name="email"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Email address</FormLabel>
-                    <FormControl>
-                      <Input
-                        {...field}
-                        type="email"
-                        placeholder="your@email.com"
-                        autoComplete="email"
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="password"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Password</FormLabel>
-                    <FormControl>
-                      <Input
-                        {...field}
-                        type="password"
-                        placeholder="••••••••"
-                        autoComplete="current-password"
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
+        {/* == Two-factor step == */}
+        {challengeToken && (
+          <form onSubmit={onSubmitTwoFactor} className="mt-8 space-y-4">
+            <div>
+              <label htmlFor="two-factor-code" className="text-sm font-medium">
+                {useRecoveryCode ? "Recovery code" : "Authentication code"}
+              </label>
+              <Input
+                id="two-factor-code"
+                value={twoFactorCode}
+                onChange={(e) => setTwoFactorCode(e.target.value)}
+                placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+                autoComplete="one-time-code"
+                inputMode={useRecoveryCode ? "text" : "numeric"}
+                autoFocus
+                className="mt-2"
               />
+              <p className="text-xs text-gray-500 mt-2">
+                {useRecoveryCode
+                  ? "Each recovery code can be used once."
+                  : "Open your authenticator app and enter the 6-digit code."}
+              </p>
             </div>
 
-            {/* == Form Options == */}
-            <div className="flex items-center justify-between">
-              <FormField
-                control={form.control}
-                name="rememberMe"
-                render={({ field }) => (
-                  <FormItem className="flex items-center space-x-2">
-                    <FormControl>
-                      <Checkbox
-                        checked={field.value}
-                        onCheckedChange={field.onChange}
-                        id="remember-me"
-                      />
-                    </FormControl>
-                    <label
-                      htmlFor="remember-me"
-                      className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                    >
-                      Remember me
-                    </label>
-                  </FormItem>
-                )}
-              />
-              <Link to="/auth/forgot-password" className="text-sm text-primary hover:underline">
-                Forgot your password?
-              </Link>
-            </div>
-
-            {/* == Submit Button == */}
             <Button
               type="submit"
               className="w-full bg-primary hover:bg-primary/90"
-              disabled={isLoading}
+              disabled={isLoading || !twoFactorCode.trim()}
             >
               {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
-              Sign In
+              Verify
             </Button>
+
+            <div className="flex items-center justify-between text-sm">
+              <button
+                type="button"
+                className="text-primary hover:underline"
+                onClick={() => {
+                  setUseRecoveryCode((v) => !v);
+                  setTwoFactorCode("");
+                }}
+              >
+                {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+              </button>
+              <button
+                type="button"
+                className="text-gray-500 hover:underline"
+                onClick={() => setChallengeToken(null)}
+              >
+                Back
+              </button>
+            </div>
           </form>
-        </Form>
+        )}
+
+        {/* == Login Form == */}
+        {!challengeToken && (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="mt-8 space-y-6">
+              {/* == Form Fields == */}
+              <div className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email or username</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="text"
+                          placeholder="your@email.com or username"
+                          autoComplete="username"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="password"
+                          placeholder="••••••••"
+                          autoComplete="current-password"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {/* == Form Options == */}
+              <div className="flex items-center justify-between">
+                <FormField
+                  control={form.control}
+                  name="rememberMe"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center space-x-2">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                          id="remember-me"
+                        />
+                      </FormControl>
+                      <label
+                        htmlFor="remember-me"
+                        className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                      >
+                        Remember me
+                      </label>
+                    </FormItem>
+                  )}
+                />
+                <Link to="/auth/forgot-password" className="text-sm text-primary hover:underline">
+                  Forgot your password?
+                </Link>
+              </div>
+
+              {/* == Submit Button == */}
+              <Button
+                type="submit"
+                className="w-full bg-primary hover:bg-primary/90"
+                disabled={isLoading}
+              >
+                {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                Sign In
+              </Button>
+            </form>
+          </Form>
+        )}
 
         {/* == Resend verification helper == */}
         {needsVerify && (
@@ -259,8 +412,34 @@ export default function Login() {
           </div>
         )}
 
+        {/* == Restore deleted account helper == */}
+        {pendingDeletion && (
+          <div className="rounded-md border border-red-200 p-4 mt-2">
+            <p className="text-sm text-red-700">
+              {restoreMsg ??
+                "This account was deleted but can still be restored. Restoring keeps all your progress and badges."}
+            </p>
+            <div className="flex gap-2 mt-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={restoreAccount}
+                disabled={restoreLoading}
+              >
+                {restoreLoading ? "Restoring..." : "Restore my account"}
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* == Navigation Section == */}
-        <div className="mt-6">
+        <div className="mt-6 space-y-3">
+          <Link href="/login/class">
+            <Button variant="outline" className="w-full flex items-center justify-center">
+              <Smile className="mr-2 h-4 w-4" />
+              Class sign-in (Kinder – Grade 2)
+            </Button>
+          </Link>
           <Link href="/">
             <Button variant="outline" className="w-full flex items-center justify-center">
               <ArrowLeft className="mr-2 h-4 w-4" />
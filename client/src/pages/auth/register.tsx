@@ -1,5 +1,5 @@
 // == IMPORTS & DEPENDENCIES ==
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/contexts/AuthContext";
 import { Logo } from "@/components/ui/logo";
@@ -7,7 +7,10 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { PasswordChecklist, usePasswordPolicy } from "@/components/ui/password-checklist";
+import { passwordPolicyError } from "@shared/passwordPolicy";
+import { ArrowLeft, CheckCircle2, Loader2 } from "lucide-react";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -49,8 +52,10 @@ const registerSchema = z
     email: z.string().email("Please enter a valid email address"),
     password: z.string().min(6, "Password must be at least 6 characters"),
     confirmPassword: z.string().min(1, "Please confirm your password"),
-    role: z.enum(["student", "teacher", "admin"]),
+    role: z.enum(["student", "teacher", "admin", "parent"]),
     gradeLevel: z.enum(["K", "1", "2", "3", "4", "5", "6"]).optional(),
+    joinCode: z.string().optional(),
+    parentInviteCode: z.string().optional(),
     securityQuestion: z.string().min(1, "Please select a security question"),
     securityAnswer: z.string().min(1, "Security answer is required"),
     agreeTerms: z.boolean().refine((val) => val === true, {
@@ -63,24 +68,41 @@ const registerSchema = z
   })
   .refine(
     (data) => {
-      if (data.role === "student") return !!data.gradeLevel;
+      // a class code brings its own grade
+      if (data.role === "student") return !!data.gradeLevel || !!data.joinCode?.trim();
       return true;
     },
     {
       message: "Grade level is required for student accounts",
       path: ["gradeLevel"],
     }
-  );
+  )
+  .refine((data) => data.role !== "parent" || !!data.parentInviteCode?.trim(), {
+    message: "Parent accounts need an invite code from your child's teacher",
+    path: ["parentInviteCode"],
+  });
 
 // == TYPE DEFINITIONS ==
 type RegisterFormValues = z.infer<typeof registerSchema>;
 
+type JoinCodePreview = { teacherName: string; gradeLevel: string; label: string | null };
+
+const gradeLabel = (g: string) => (g === "K" ? "Kindergarten" : `Grade ${g}`);
+
+// ?invite=XXXX-XXXX (link handed to a family) preselects the parent account type
+const initialInvite = new URLSearchParams(window.location.search).get("invite") ?? "";
+
 // == REGISTER COMPONENT ==
 export default function Register() {
   const { register } = useAuth();
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
+  const [classPreview, setClassPreview] = useState<JoinCodePreview | null>(null);
+  const [classCodeError, setClassCodeError] = useState<string | null>(null);
+  const [childPreview, setChildPreview] = useState<string | null>(null);
+  const [inviteError, setInviteError] = useState<string | null>(null);
+  const passwordPolicy = usePasswordPolicy();
 
   const form = useForm<RegisterFormValues>({
     resolver: zodResolver(registerSchema),
@@ -91,14 +113,59 @@ export default function Register() {
       email: "",
       password: "",
       confirmPassword: "",
-      role: "student",
+      role: initialInvite ? "parent" : "student",
       securityQuestion: "",
       securityAnswer: "",
+      joinCode: new URLSearchParams(window.location.search).get("code") ?? "",
+      parentInviteCode: initialInvite,
       agreeTerms: false,
     },
   });
 
+  // == CLASS CODE PREVIEW ==
+  const checkClassCode = async (raw: string) => {
+    const code = raw.replace(/[^a-z0-9]/gi, "");
+    setClassPreview(null);
+    setClassCodeError(null);
+    if (!code) return;
+    try {
+      const preview = await apiRequest<JoinCodePreview>("GET", `/api/auth/join-codes/${code}`);
+      setClassPreview(preview);
+      form.setValue("gradeLevel", preview.gradeLevel as RegisterFormValues["gradeLevel"]);
+    } catch (err) {
+      setClassCodeError(err instanceof Error ? err.message : "Invalid class code");
+    }
+  };
+
+  // == PARENT INVITE PREVIEW ==
+  const checkParentInvite = async (raw: string) => {
+    const code = raw.replace(/[^a-z0-9]/gi, "");
+    setChildPreview(null);
+    setInviteError(null);
+    if (!code) return;
+    try {
+      const preview = await apiRequest<{ childFirstName: string }>("GET", `/api/auth/parent-invites/${code}`);
+      setChildPreview(preview.childFirstName);
+    } catch (err) {
+      setInviteError(err instanceof Error ? err.message : "Invalid invite code");
+    }
+  };
+
+  useEffect(() => {
+    const initial = form.getValues("joinCode");
+    if (initial) checkClassCode(initial);
+    if (initialInvite) checkParentInvite(initialInvite);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const password = form.watch("password");
+
   const onSubmit = async (data: RegisterFormValues) => {
+    const policyError = passwordPolicyError(data.password, passwordPolicy);
+    if (policyError) {
+      form.setError("password", { message: policyError });
+      return;
+    }
     setIsLoading(true);
     try {
       await register({
@@ -111,6 +178,8 @@ export default function Register() {
         gradeLevel: data.gradeLevel,
         securityQuestion: data.securityQuestion,
         securityAnswer: data.securityAnswer,
+        joinCode: data.role === "student" ? data.joinCode?.trim() || undefined : undefined,
+        parentInviteCode: data.role === "parent" ? data.parentInviteCode?.trim() || undefined : undefined,
       });
 
       // Match Phase-2 copy: verification link validity = 24h
@@ -225,6 +294,7 @@ export default function Register() {
                     <FormControl>
                       <Input {...field} type="password" autoComplete="new-password" />
                     </FormControl>
+                    {password && <PasswordChecklist password={password} policy={passwordPolicy} />}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -300,7 +370,7 @@ export default function Register() {
                     <Select
                       onValueChange={(value) => {
                         field.onChange(value);
-                        if (value === "admin" || value === "teacher") {
+                        if (value === "admin" || value === "teacher" || value === "parent") {
                           form.setValue("gradeLevel", undefined);
                         }
                       }}
@@ -314,6 +384,7 @@ export default function Register() {
                       <SelectContent>
                         <SelectItem value="student">Student</SelectItem>
                         <SelectItem value="teacher">Teacher</SelectItem>
+                        <SelectItem value="parent">Parent / Guardian</SelectItem>
                         <SelectItem value="admin">Admin</SelectItem>
                       </SelectContent>
                     </Select>
@@ -322,15 +393,104 @@ export default function Register() {
                         ? "Admin accounts require email verification and approval from school administration."
                         : field.value === "teacher"
                         ? "Teacher accounts require email verification and approval from administration."
-                        : "Student accounts require email verification and approval from administration."}
+                        : field.value === "parent"
+                        ? "Parent accounts are linked to your child with an invite code from their teacher."
+                        : "Student accounts require email verification and approval from administration, unless you join with a class code."}
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
                 )}
               />
 
-              {/* Grade for students */}
+              {/* Class code for students (optional) */}
               {form.watch("role") === "student" && (
+                <FormField
+                  control={form.control}
+                  name="joinCode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Class code (optional)</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="text"
+                          autoComplete="off"
+                          placeholder="ABCD-EFGH"
+                          className="uppercase"
+                          onBlur={() => {
+                            field.onBlur();
+                            checkClassCode(field.value ?? "");
+                          }}
+                          onChange={(e) => {
+                            field.onChange(e);
+                            setClassPreview(null);
+                            setClassCodeError(null);
+                          }}
+                        />
+                      </FormControl>
+                      {classPreview ? (
+                        <p className="text-sm text-green-700 flex items-center">
+                          <CheckCircle2 className="mr-1 h-4 w-4" />
+                          Joining {classPreview.label ? `${classPreview.label} with ` : ""}
+                          {classPreview.teacherName} ({gradeLabel(classPreview.gradeLevel)})
+                        </p>
+                      ) : classCodeError ? (
+                        <p className="text-sm text-red-600">{classCodeError}</p>
+                      ) : (
+                        <FormDescription>
+                          Got a code from your teacher? Enter it to join their class right away.
+                        </FormDescription>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {/* Invite code for parents (required) */}
+              {form.watch("role") === "parent" && (
+                <FormField
+                  control={form.control}
+                  name="parentInviteCode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Parent invite code</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="text"
+                          autoComplete="off"
+                          placeholder="ABCD-EFGH"
+                          className="uppercase"
+                          onBlur={() => {
+                            field.onBlur();
+                            checkParentInvite(field.value ?? "");
+                          }}
+                          onChange={(e) => {
+                            field.onChange(e);
+                            setChildPreview(null);
+                            setInviteError(null);
+                          }}
+                        />
+                      </FormControl>
+                      {childPreview ? (
+                        <p className="text-sm text-green-700 flex items-center">
+                          <CheckCircle2 className="mr-1 h-4 w-4" />
+                          You'll be able to follow {childPreview}'s reading
+                        </p>
+                      ) : inviteError ? (
+                        <p className="text-sm text-red-600">{inviteError}</p>
+                      ) : (
+                        <FormDescription>Your child's teacher can give you this code.</FormDescription>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {/* Grade for students (set by the class code when one is used) */}
+              {form.watch("role") === "student" && !classPreview && (
                 <FormField
                   control={form.control}
                   name="gradeLevel"
@@ -9,6 +9,8 @@ import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { PasswordChecklist, usePasswordPolicy } from "@/components/ui/password-checklist";
+import { passwordPolicyError } from "@shared/passwordPolicy";
 
 const resetPasswordSchema = z
   .object({
@@ -33,6 +35,7 @@ export default function ResetPassword() {
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [resetSuccess, setResetSuccess] = useState(false);
+  const passwordPolicy = usePasswordPolicy();
 
   const form = useForm<ResetPasswordFormValues>({
     resolver: zodResolver(resetPasswordSchema),
@@ -54,7 +57,15 @@ export default function ResetPassword() {
     setIsValidToken(true);
   }, [searchParams]);
 
+  const newPassword = form.watch("newPassword");
+
   const onSubmit = async (data: ResetPasswordFormValues) => {
+    const policyError = passwordPolicyError(data.newPassword, passwordPolicy);
+    if (policyError) {
+      form.setError("newPassword", { message: policyError });
+      return;
+    }
+
     if (!token) {
       toast({
         variant: "destructive",
@@ -218,6 +229,9 @@ export default function ResetPassword() {
                       </Button>
                     </div>
                   </FormControl>
+                  {newPassword && (
+                    <PasswordChecklist password={newPassword} policy={passwordPolicy} showHistory />
+                  )}
                   <FormMessage />
                 </FormItem>
               )}
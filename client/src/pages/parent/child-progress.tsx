@@ -0,0 +1,211 @@
+// == IMPORTS & DEPENDENCIES ==
+import { Link, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import Header from "@/components/layout/Header";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { AvatarImg } from "@/components/ui/media";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  averageQuizPercentage,
+  formatReadingTime,
+  getUniqueProgress,
+  latestQuizSession,
+  quizBadgeClass,
+  readingStats,
+  type QuizAttempt,
+} from "@/lib/progressStats";
+import { Award, BarChart3, BookOpen, ChevronLeft, Clock, GraduationCap, Loader2 } from "lucide-react";
+
+// == TYPE DEFINITIONS ==
+type ChildProgress = {
+  child: { id: number; firstName: string; lastName: string; gradeLevel: string | null; avatar: string | null };
+  progress: any[];
+  attempts: QuizAttempt[];
+  earnedBadges: Array<{
+    id: number;
+    bookId: number | null;
+    awardedAt: string | null;
+    badge: { id: number; name: string; description: string | null; iconUrl: string | null } | null;
+    book: { id: number; title: string } | null;
+  }>;
+};
+
+const formatDate = (d?: string | null) => (d ? new Date(d).toLocaleDateString() : "—");
+
+// == CHILD PROGRESS (READ-ONLY) ==
+// Same numbers the child sees on student/progress.tsx, without any actions
+export default function ParentChildProgress() {
+  const params = useParams<{ id: string }>();
+
+  const { data, isLoading, error } = useQuery<ChildProgress>({
+    queryKey: ["parent-child-progress", params.id],
+    queryFn: () => apiRequest("GET", `/api/parent/children/${params.id}/progress`),
+    retry: false,
+  });
+
+  const attempts = data?.attempts ?? [];
+  const stats = readingStats(data?.progress);
+  const avgQuiz = averageQuizPercentage(attempts);
+  const books = getUniqueProgress(data?.progress ?? []);
+
+  const statCards = [
+    { label: "Books completed", value: stats.booksCompleted, icon: BookOpen },
+    { label: "In progress", value: stats.booksInProgress, icon: BarChart3 },
+    { label: "Reading time", value: formatReadingTime(stats.totalReadingTime), icon: Clock },
+    { label: "Average quiz", value: avgQuiz != null ? `${avgQuiz}%` : "—", icon: GraduationCap },
+  ];
+
+  // == RENDER COMPONENT ==
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-br from-brand-navy-50 to-ilaw-white">
+      <Header variant="parent" />
+
+      <main className="flex-grow p-4 md:p-6">
+        <div className="container mx-auto space-y-8">
+          <Link href="/parent">
+            <Button variant="outline" className="border-2 border-brand-gold-300 text-ilaw-navy">
+              <ChevronLeft className="mr-2 h-4 w-4" />
+              My Children
+            </Button>
+          </Link>
+
+          {isLoading ? (
+            <div className="flex justify-center py-16 text-gray-500">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : error || !data ? (
+            <p className="text-center text-red-600 py-16">This child could not be found.</p>
+          ) : (
+            <>
+              {/* Child header */}
+              <div className="flex items-center bg-white rounded-2xl border-2 border-brand-gold-200 p-6">
+                <AvatarImg
+                  url={data.child.avatar}
+                  firstName={data.child.firstName}
+                  lastName={data.child.lastName}
+                  size={64}
+                />
+                <div className="ml-4">
+                  <h1 className="text-2xl font-bold text-ilaw-navy">
+                    {data.child.firstName} {data.child.lastName}
+                  </h1>
+                  {data.child.gradeLevel && (
+                    <p className="text-gray-500">
+                      {data.child.gradeLevel === "K" ? "Kindergarten" : `Grade ${data.child.gradeLevel}`}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              {/* Summary */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {statCards.map(({ label, value, icon: Icon }) => (
+                  <div key={label} className="bg-white rounded-xl border-2 border-brand-gold-200 p-4">
+                    <div className="flex items-center text-sm text-gray-500 mb-1">
+                      <Icon className="h-4 w-4 mr-1 text-ilaw-gold" />
+                      {label}
+                    </div>
+                    <p className="text-2xl font-bold text-ilaw-navy">{value}</p>
+                  </div>
+                ))}
+              </div>
+
+              {/* Badges */}
+              <section className="bg-white rounded-xl border-2 border-brand-gold-200 p-6">
+                <h2 className="text-lg font-heading font-bold text-ilaw-navy flex items-center mb-4">
+                  <Award className="h-5 w-5 mr-2 text-ilaw-gold" />
+                  Badges ({data.earnedBadges.length})
+                </h2>
+                {data.earnedBadges.length === 0 ? (
+                  <p className="text-gray-500">No badges earned yet.</p>
+                ) : (
+                  <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                    {data.earnedBadges.map((eb) => (
+                      <div key={eb.id} className="flex items-center p-3 rounded-lg border border-brand-gold-100">
+                        {eb.badge?.iconUrl ? (
+                          <img src={eb.badge.iconUrl} alt="" className="h-12 w-12 rounded-full object-cover" />
+                        ) : (
+                          <div className="h-12 w-12 rounded-full bg-brand-gold-100 flex items-center justify-center">
+                            <Award className="h-6 w-6 text-ilaw-gold" />
+                          </div>
+                        )}
+                        <div className="ml-3">
+                          <p className="font-semibold text-ilaw-navy">{eb.badge?.name ?? "Badge"}</p>
+                          <p className="text-xs text-gray-500">
+                            {eb.book?.title ? `${eb.book.title} · ` : ""}
+                            {formatDate(eb.awardedAt)}
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </section>
+
+              {/* Reading history */}
+              <section className="bg-white rounded-xl border-2 border-brand-gold-200 p-6">
+                <h2 className="text-lg font-heading font-bold text-ilaw-navy flex items-center mb-4">
+                  <BookOpen className="h-5 w-5 mr-2 text-ilaw-gold" />
+                  Reading history
+                </h2>
+                {books.length === 0 ? (
+                  <p className="text-gray-500">No books started yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Book</TableHead>
+                        <TableHead>Progress</TableHead>
+                        <TableHead>Reading time</TableHead>
+                        <TableHead>Last read</TableHead>
+                        <TableHead>Latest quiz</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {books.map((p: any) => {
+                        const bookId: number = p.book?.id ?? p.bookId;
+                        const latest = latestQuizSession(attempts, bookId);
+                        return (
+                          <TableRow key={bookId}>
+                            <TableCell className="font-medium text-ilaw-navy">{p.book?.title ?? "Book"}</TableCell>
+                            <TableCell className="min-w-[140px]">
+                              <div className="flex items-center gap-2">
+                                <Progress value={p.percentComplete ?? 0} className="h-2" />
+                                <span className="text-sm text-gray-600">{p.percentComplete ?? 0}%</span>
+                              </div>
+                            </TableCell>
+                            <TableCell>{formatReadingTime(p.totalReadingTime || 0)}</TableCell>
+                            <TableCell>{formatDate(p.lastReadAt)}</TableCell>
+                            <TableCell>
+                              {latest ? (
+                                <Badge variant="outline" className={`font-bold ${quizBadgeClass(latest.percentage)}`}>
+                                  {latest.percentage}%
+                                </Badge>
+                              ) : (
+                                "—"
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </section>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+// == IMPORTS & DEPENDENCIES ==
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import Header from "@/components/layout/Header";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AvatarImg } from "@/components/ui/media";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ChevronRight, Loader2, UserPlus, Users } from "lucide-react";
+
+// == TYPE DEFINITIONS ==
+type Child = {
+  id: number;
+  firstName: string;
+  lastName: string;
+  gradeLevel: string | null;
+  avatar: string | null;
+};
+
+const gradeLabel = (g: string | null) => (!g ? "" : g === "K" ? "Kindergarten" : `Grade ${g}`);
+
+// == PARENT DASHBOARD ==
+// Linked children + redeeming another invite code
+export default function ParentDashboard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [code, setCode] = useState("");
+  const [linking, setLinking] = useState(false);
+
+  const { data, isLoading } = useQuery<{ children: Child[] }>({
+    queryKey: ["parent-children"],
+    queryFn: () => apiRequest("GET", "/api/parent/children"),
+  });
+  const children = data?.children ?? [];
+
+  const linkChild = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    setLinking(true);
+    try {
+      const res = await apiRequest<{ child: { firstName: string } }>("POST", "/api/parent/children", {
+        code: code.trim(),
+      });
+      toast({ title: "Child linked", description: `You can now follow ${res.child.firstName}'s reading.` });
+      setCode("");
+      queryClient.invalidateQueries({ queryKey: ["parent-children"] });
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: "Could not link child",
+        description: err instanceof Error ? err.message : "Please check the code and try again.",
+      });
+    } finally {
+      setLinking(false);
+    }
+  };
+
+  // == RENDER COMPONENT ==
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-br from-brand-navy-50 to-ilaw-white">
+      <Header variant="parent" />
+
+      <main className="flex-grow p-4 md:p-6">
+        <div className="container mx-auto max-w-4xl space-y-8">
+          {/* Hero */}
+          <div className="bg-gradient-to-r from-ilaw-navy to-brand-navy-800 rounded-2xl p-8 text-ilaw-white shadow-navy">
+            <div className="flex items-center mb-2">
+              <Users className="h-8 w-8 text-ilaw-gold mr-3" />
+              <span className="text-sm font-semibold uppercase tracking-wide text-brand-gold-200">
+                Parent Portal
+              </span>
+            </div>
+            <h1 className="text-3xl md:text-4xl font-sans font-bold">
+              Welcome, {user?.firstName}
+            </h1>
+            <p className="mt-2 text-brand-gold-100">
+              Follow your children's reading, quiz results and badges.
+            </p>
+          </div>
+
+          {/* Children */}
+          <section className="space-y-3">
+            <h2 className="text-xl font-heading font-bold text-ilaw-navy">My Children</h2>
+            {isLoading ? (
+              <div className="flex items-center text-gray-500">
+                <Loader2 className="h-5 w-5 animate-spin mr-2" />
+                Loading...
+              </div>
+            ) : children.length === 0 ? (
+              <p className="text-gray-600">
+                No children are linked to your account yet. Enter an invite code from your child's teacher below.
+              </p>
+            ) : (
+              <div className="grid gap-3 sm:grid-cols-2">
+                {children.map((c) => (
+                  <Link
+                    key={c.id}
+                    href={`/parent/children/${c.id}`}
+                    className="flex items-center justify-between p-4 bg-white rounded-xl border-2 border-brand-gold-200 hover:border-ilaw-gold hover:shadow-ilaw transition"
+                  >
+                    <div className="flex items-center">
+                      <AvatarImg url={c.avatar} firstName={c.firstName} lastName={c.lastName} size={48} />
+                      <div className="ml-3">
+                        <p className="font-bold text-ilaw-navy">
+                          {c.firstName} {c.lastName}
+                        </p>
+                        <p className="text-sm text-gray-500">{gradeLabel(c.gradeLevel)}</p>
+                      </div>
+                    </div>
+                    <ChevronRight className="h-5 w-5 text-ilaw-gold" />
+                  </Link>
+                ))}
+              </div>
+            )}
+          </section>
+
+          {/* Link another child */}
+          <section className="bg-white rounded-xl border-2 border-brand-navy-200 p-6">
+            <h2 className="text-lg font-heading font-bold text-ilaw-navy flex items-center mb-2">
+              <UserPlus className="h-5 w-5 mr-2 text-ilaw-gold" />
+              Link another child
+            </h2>
+            <form onSubmit={linkChild} className="flex gap-2">
+              <Input
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="ABCD-EFGH"
+                className="uppercase"
+                autoComplete="off"
+              />
+              <Button type="submit" disabled={linking || !code.trim()}>
+                {linking ? <Loader2 className="h-4 w-4 animate-spin" /> : "Link"}
+              </Button>
+            </form>
+          </section>
+        </div>
+      </main>
+    </div>
+  );
+}
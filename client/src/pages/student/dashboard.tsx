@@ -4,20 +4,15 @@ import Header from "@/components/layout/Header";
 import { useAuth } from "@/contexts/AuthContext";
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from "@/components/ui/button";
-import { BookOpen, UserCircle, Clock, Award, ChevronRight, Bookmark, GraduationCap, Palette, Star, Target, TrendingUp, Heart, Lightbulb} from "lucide-react";
+import { BookOpen, UserCircle, Clock, Award, ChevronRight, Bookmark, GraduationCap, Palette, Star, Target, TrendingUp, Heart, Lightbulb, ClipboardList, CalendarClock, CheckCircle2} from "lucide-react";
 import { Progress } from "@/components/ui/progress";
-import { useEffect } from "react";
-import { jwtDecode } from "jwt-decode";
 
 // Import book preview images for the dashboard
 import storybook1Image from "@/assets/books/book1.svg";
 import educationalBookImage from "@/assets/books/educational1.svg";
 import animatedStorybookImage from "@/assets/books/animated-storybook.svg.avif";
-
-// Interface for JWT payload
-interface JwtPayload {
-  exp: number; // expiration timestamp (seconds)
-}
+import { getAuthHeaders } from "@/lib/auth";
+import { AnnouncementsFeed } from "@/components/AnnouncementsFeed";
 
 // FIXED: Format reading time to handle seconds and display H:MM:SS format
 const formatTime = (totalSeconds: number) => {
@@ -30,41 +25,28 @@ const formatTime = (totalSeconds: number) => {
   return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
 };
 
-export default function StudentDashboard() {
-  const { user, logout } = useAuth();
-
-  // --- JWT Session Timeout Auto-Logout ---
-  useEffect(() => {
-    const token = localStorage.getItem('token');
-    if (!token) return;
-
-    try {
-      const decoded = jwtDecode<JwtPayload>(token);
-      const expiresAt = decoded.exp * 1000; // Convert seconds to ms
-      const now = Date.now();
-
-      if (expiresAt < now) {
-        // Token already expired
-        logout();
-        alert("Session timed out. Please log in again.");
-        window.location.href = "/login"; // or use your router's navigate
-        return;
-      }
+// Due-date badge: done, overdue, due within 2 days, or just the date
+const dueBadge = (assignment: any) => {
+  if (assignment.status === "done") {
+    return { label: "Done", className: "bg-green-100 text-green-800 border-green-300" };
+  }
+  if (!assignment.dueAt) {
+    return { label: "No due date", className: "bg-gray-100 text-gray-700 border-gray-300" };
+  }
+  const due = new Date(assignment.dueAt);
+  const date = due.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+  const msLeft = due.getTime() - Date.now();
+  if (msLeft < 0) {
+    return { label: `Overdue • ${date}`, className: "bg-red-100 text-red-800 border-red-300" };
+  }
+  if (msLeft < 2 * 24 * 60 * 60 * 1000) {
+    return { label: `Due soon • ${date}`, className: "bg-amber-100 text-amber-800 border-amber-300" };
+  }
+  return { label: `Due ${date}`, className: "bg-brand-navy-50 text-ilaw-navy border-brand-navy-200" };
+};
 
-      const timeout = expiresAt - now;
-      const timer = setTimeout(() => {
-        logout();
-        alert("Session timed out. Please log in again.");
-        window.location.href = "/login";
-      }, timeout);
-
-      return () => clearTimeout(timer);
-    } catch (error) {
-      console.error("Invalid token:", error);
-      logout();
-      window.location.href = "/login";
-    }
-  }, [logout]);
+export default function StudentDashboard() {
+  const { user } = useAuth();
 
   // Fetch student progress
   const { data: progressData, isLoading: isLoadingProgress } = useQuery({
@@ -72,7 +54,7 @@ export default function StudentDashboard() {
     queryFn: async () => {
       const response = await fetch("/api/progress", {
         headers: {
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
+          ...getAuthHeaders(),
         },
       });
       
@@ -90,7 +72,7 @@ export default function StudentDashboard() {
     queryFn: async () => {
       const response = await fetch("/api/books", {
         headers: {
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
+          ...getAuthHeaders(),
         },
       });
       
@@ -102,6 +84,32 @@ export default function StudentDashboard() {
     }
   });
 
+  // Fetch assignments from teachers
+  const { data: assignmentsData } = useQuery({
+    queryKey: ["/api/student/assignments"],
+    queryFn: async () => {
+      const response = await fetch("/api/student/assignments", {
+        headers: {
+          ...getAuthHeaders(),
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch assignments");
+      }
+
+      return response.json();
+    }
+  });
+
+  // Open assignments first; finished ones stay listed for a week after their due date
+  const getAssignments = () => {
+    const weekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
+    return (assignmentsData?.assignments ?? []).filter(
+      (a: any) => a.status !== "done" || !a.dueAt || new Date(a.dueAt).getTime() > weekAgo
+    );
+  };
+
   // Get books by type
   const getBooksByType = (type: string) => {
     if (!booksData?.books) return [];
@@ -203,6 +211,88 @@ export default function StudentDashboard() {
             </div>
           </div>
 
+{/* Announcements */}
+<AnnouncementsFeed className="mb-6" />
+
+{/* Assigned to you */}
+{getAssignments().length > 0 && (
+<div className="mb-6 border-4 md:border-8 border-brand-navy-200 hover:border-ilaw-navy transition-all duration-300 shadow-lg bg-white rounded-2xl p-6 md:p-8">
+  <div className="flex items-center mb-6">
+    <ClipboardList className="h-7 w-7 text-ilaw-gold mr-3" />
+    <h2 className="text-2xl font-sans font-bold text-ilaw-navy">
+      Assigned to You
+    </h2>
+  </div>
+
+  <div className="space-y-4">
+    {getAssignments().map((assignment: any) => {
+      const due = dueBadge(assignment);
+      return (
+        <div
+          key={assignment.id}
+          className="bg-gradient-to-br from-brand-navy-50 to-ilaw-white p-4 md:p-5 rounded-xl border-2 border-brand-navy-200"
+        >
+          <div className="flex flex-wrap items-start justify-between gap-2 mb-3">
+            <div className="min-w-0">
+              <h3 className="font-sans font-bold text-base md:text-lg text-ilaw-navy">
+                {assignment.title || "Reading assignment"}
+              </h3>
+              <p className="text-sm text-brand-navy-700 font-sans font-bold">
+                {assignment.teacher ? `From ${assignment.teacher.firstName} ${assignment.teacher.lastName} • ` : ""}
+                Read {assignment.minPercent}%
+                {assignment.minQuizScore != null ? ` and score ${assignment.minQuizScore}% on the quiz` : ""}
+              </p>
+              {assignment.note && (
+                <p className="text-sm text-gray-600 mt-1 italic">{assignment.note}</p>
+              )}
+            </div>
+            <span className={`inline-flex items-center text-xs font-bold px-3 py-1 rounded-full border ${due.className}`}>
+              {assignment.status === "done" ? (
+                <CheckCircle2 className="h-4 w-4 mr-1" />
+              ) : (
+                <CalendarClock className="h-4 w-4 mr-1" />
+              )}
+              {due.label}
+            </span>
+          </div>
+
+          <div className="grid sm:grid-cols-2 gap-3">
+            {assignment.books.map((book: any) => (
+              <Link
+                key={book.id}
+                href={
+                  book.type === "educational"
+                    ? `/student/educational-books/${book.id}`
+                    : `/student/storybooks/${book.id}`
+                }
+              >
+                <div className="flex items-center gap-3 p-2 rounded-lg bg-white border border-brand-gold-200 hover:border-ilaw-gold cursor-pointer transition-colors">
+                  <div className="flex-shrink-0 w-10 h-14 bg-gradient-to-br from-ilaw-gold to-brand-amber rounded flex items-center justify-center text-ilaw-navy">
+                    {book.coverImage ? (
+                      <img src={book.coverImage} alt={book.title} className="w-full h-full object-cover rounded" />
+                    ) : (
+                      <BookOpen className="h-5 w-5" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-sans font-bold text-sm text-ilaw-navy truncate">{book.title}</p>
+                    <Progress value={book.percent} className="h-2 mt-1 bg-brand-gold-200" />
+                    <p className="text-xs text-gray-500 mt-1">
+                      {book.status === "done" ? "Done ✓" : `${book.percent}% read`}
+                      {book.bestScore != null ? ` • Quiz ${book.bestScore}%` : ""}
+                    </p>
+                  </div>
+                </div>
+              </Link>
+            ))}
+          </div>
+        </div>
+      );
+    })}
+  </div>
+</div>
+)}
+
 {/* Currently Reading Section - responsive sizes */}
 <div className="mb-6 border-4 md:border-8 border-brand-gold-200 hover:border-ilaw-gold transition-all duration-300 shadow-lg bg-white rounded-2xl p-6 md:p-8">
   <div className="flex items-center mb-6">
@@ -16,6 +16,7 @@ import {
   Lightbulb,
 } from "lucide-react";
 import type { Book } from "@shared/schema";
+import { getAuthHeaders } from "@/lib/auth";
 
 export default function EducationalBooks() {
   const [gradeFilter, setGradeFilter] = useState("all");
@@ -47,11 +48,8 @@ export default function EducationalBooks() {
       if (subjectFilter !== "all") url += `&subject=${subjectFilter}`;
       if (searchTerm) url += `&search=${encodeURIComponent(searchTerm)}`;
 
-      const token = localStorage.getItem("token");
       const response = await fetch(url, {
-        headers: {
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        },
+        headers: getAuthHeaders(),
       });
 
       if (!response.ok) throw new Error("Failed to fetch books");
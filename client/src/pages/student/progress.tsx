@@ -35,31 +35,19 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 // ✅ badge API helper (normalizes server response shapes)
 import { listUserBadges } from "@/pages/api/badges";
+import {
+  averageQuizPercentage,
+  formatReadingTime,
+  getUniqueProgress,
+  latestQuizSession,
+  quizBadgeClass,
+  quizSessionsForBook,
+  readingStats,
+  type QuizAttempt,
+} from "@/lib/progressStats";
+import { getAuthHeaders, isAuthenticated } from "@/lib/auth";
 
 /* ----------------------------- Types ----------------------------- */
-type QuizAttempt = {
-  userId: number;
-  bookId: number;
-  pageId?: number | null;
-  scoreCorrect?: number | null;
-  scoreTotal?: number | null;
-  percentage?: number | null;
-  mode?: "retry" | "straight" | string;
-  attemptNumber?: number | null;
-  durationSec?: number | null;
-  createdAt?: string;
-};
-
-type QuizSession = {
-  bookId: number;
-  startAt: number;
-  endAt: number;
-  totalCorrect: number;
-  totalTotal: number;
-  percentage: number;
-  mode: "retry" | "straight";
-};
-
 type EarnedBadge = {
   id: number;
   userId: number;
@@ -82,8 +70,6 @@ type EarnedBadge = {
   };
 };
 
-const SESSION_GAP_SEC = 120;
-
 /* ===========================================================
    EXCLUSIVE STORY ROUTING (title → slug)
 =========================================================== */
@@ -146,7 +132,7 @@ export default function StudentProgress() {
     queryKey: ["/api/progress"],
     queryFn: async () => {
       const response = await fetch("/api/progress", {
-        headers: { Authorization: `Bearer ${localStorage.getItem("token")}` },
+        headers: getAuthHeaders(),
       });
       if (!response.ok) throw new Error("Failed to fetch progress");
       return response.json();
@@ -157,7 +143,7 @@ export default function StudentProgress() {
     queryKey: ["/api/quiz-attempts"],
     queryFn: async () => {
       const res = await fetch("/api/quiz-attempts", {
-        headers: { Authorization: `Bearer ${localStorage.getItem("token")}` },
+        headers: getAuthHeaders(),
       });
       if (!res.ok) throw new Error("Failed to fetch quiz attempts");
       return res.json();
@@ -171,9 +157,9 @@ export default function StudentProgress() {
     error: badgesError,
   } = useQuery({
     queryKey: ["earned-badges"],
-    enabled: !!localStorage.getItem("token"),
+    enabled: isAuthenticated(),
     queryFn: async () => {
-      const headers = { Authorization: `Bearer ${localStorage.getItem("token")}` };
+      const headers = getAuthHeaders();
 
       // Who am I? try a few endpoints you already have
       const tryFetch = async (url: string) => {
@@ -205,24 +191,6 @@ export default function StudentProgress() {
   const otherEarned = allEarnedBadges.filter((b) => !isExclusiveBadge(b));
 
   /* ----------------------------- Helpers ----------------------------- */
-  const getUniqueProgress = (arr: any[]) => {
-    if (!arr) return [];
-    return arr.reduce((unique: any[], p: any) => {
-      const i = unique.findIndex((x) => x.bookId === p.bookId);
-      if (i === -1) unique.push(p);
-      else if (new Date(p.lastReadAt) > new Date(unique[i].lastReadAt)) unique[i] = p;
-      return unique;
-    }, []);
-  };
-
-  const formatReadingTime = (totalSeconds: number) => {
-    if (!totalSeconds || totalSeconds === 0) return "0:00:00";
-    const h = Math.floor(totalSeconds / 3600);
-    const m = Math.floor((totalSeconds % 3600) / 60);
-    const s = totalSeconds % 60;
-    return `${h}:${m.toString().padStart(2, "0")}:${s.toString().padStart(2, "0")}`;
-  };
-
   const formatDate = (d?: string | null) =>
     d ? new Date(d).toLocaleDateString() : "—";
 
@@ -258,99 +226,10 @@ export default function StudentProgress() {
   }, [progressData]);
 
   const attempts = (quizAttemptsData?.attempts || []) as QuizAttempt[];
-  const ts = (a: QuizAttempt) => (a.createdAt ? new Date(a.createdAt).getTime() : 0);
-
-  const groupIntoSessions = (list: QuizAttempt[], gapSec = SESSION_GAP_SEC): QuizSession[] => {
-    const out: QuizSession[] = [];
-    let cur: QuizSession | null = null;
-    for (const a of list) {
-      const time = ts(a);
-      const corr = Number(a.scoreCorrect ?? 0);
-      const tot = Number(a.scoreTotal ?? 0);
-      const mode = a.mode === "straight" ? "straight" : "retry";
-      if (!cur || time - cur.endAt > gapSec * 1000) {
-        cur = {
-          bookId: a.bookId,
-          startAt: time,
-          endAt: time,
-          totalCorrect: 0,
-          totalTotal: 0,
-          percentage: 0,
-          mode,
-        };
-        out.push(cur);
-      } else {
-        cur.endAt = time;
-      }
-      cur.totalCorrect += corr;
-      cur.totalTotal += tot;
-      cur.percentage =
-        cur.totalTotal > 0 ? Math.round((cur.totalCorrect / cur.totalTotal) * 100) : 0;
-      if (mode === "straight") cur.mode = "straight";
-    }
-    return out;
-  };
-
-  const sessionsForBook = (bookId: number) => {
-    const list = attempts.filter((a) => a.bookId === bookId).sort((a, b) => ts(a) - ts(b));
-    return groupIntoSessions(list);
-  };
-
-  const latestQuizForBook = (bookId: number) => {
-    const sessions = sessionsForBook(bookId);
-    return sessions.length ? sessions[sessions.length - 1] : null;
-  };
-
-  const averageQuizAcrossSessions = () => {
-    const byKey = new Map<string, QuizAttempt[]>();
-    for (const a of attempts) {
-      const key = `${a.userId}:${a.bookId}`;
-      const arr = byKey.get(key) ?? [];
-      arr.push(a);
-      byKey.set(key, arr);
-    }
-    const sessions: QuizSession[] = [];
-    byKey.forEach((arr) => {
-      const sorted = arr.slice().sort((a: QuizAttempt, b: QuizAttempt) => ts(a) - ts(b));
-      sessions.push(...groupIntoSessions(sorted));
-    });
-    if (sessions.length === 0) return null;
-    const sum = sessions.reduce((s, x) => s + x.percentage, 0);
-    return Math.round(sum / sessions.length);
-  };
-
-  const quizBadgeClass = (pct: number) =>
-    pct >= 80
-      ? "border-green-400 text-green-700"
-      : pct >= 50
-      ? "border-amber-400 text-amber-700"
-      : "border-red-400 text-red-700";
-
-  /* ----------------------------- Reading stats ----------------------------- */
-  const getStats = () => {
-    if (!progressData?.progress) {
-      return { booksCompleted: 0, booksInProgress: 0, totalReadingTime: 0, completionRate: 0 };
-    }
-    const unique = getUniqueProgress(progressData.progress);
-    const completed = unique.filter((p: any) => p.percentComplete === 100).length;
-    const inProgress = unique.filter((p: any) => p.percentComplete > 0 && p.percentComplete < 100)
-      .length;
-    const totalSeconds = unique.reduce(
-      (sum: number, p: any) => sum + (p.totalReadingTime || 0),
-      0
-    );
-    const totalStarted = completed + inProgress;
-    const completionRate = totalStarted > 0 ? Math.round((completed / totalStarted) * 100) : 0;
-    return {
-      booksCompleted: completed,
-      booksInProgress: inProgress,
-      totalReadingTime: totalSeconds,
-      completionRate,
-    };
-  };
-
-  const stats = getStats();
-  const avgQuiz = averageQuizAcrossSessions();
+  const sessionsForBook = (bookId: number) => quizSessionsForBook(attempts, bookId);
+  const latestQuizForBook = (bookId: number) => latestQuizSession(attempts, bookId);
+  const stats = readingStats(progressData?.progress);
+  const avgQuiz = averageQuizPercentage(attempts);
 
   /* ============================== UI ============================== */
   return (
@@ -11,6 +11,7 @@ import LoopingVideo from '@/components/LoopingVideo';
 import '@/pages/student/stories/bernardo-carpio.css';
 import '@/pages/student/stories/2danimatedstorybook.css';
 import { getCheckpoint as getCheckpointAPI, saveCheckpoint as saveCheckpointAPI, resetCheckpoint as resetCheckpointAPI } from '@/lib/stories/checkpointClient';
+import { registerSessionSaver } from '@/contexts/AuthContext';
 import { markBookComplete as markBookCompleteAPI } from '@/lib/clients/completeClient';
 import { queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
@@ -205,6 +206,10 @@ export default function BernardoCarpioStory(){
   useEffect(()=>{ saveCheckpoint().catch(()=>{}); // initial gentle save
   // eslint-disable-next-line react-hooks/exhaustive-deps
   },[]);
+  // save the reader's place before an idle sign-out
+  const saveCheckpointRef = useRef(saveCheckpoint);
+  saveCheckpointRef.current = saveCheckpoint;
+  useEffect(()=> registerSessionSaver(()=> saveCheckpointRef.current()), []);
 
   /* ===== navigation / gating ===== */
   const handleNext = () => {
@@ -18,6 +18,7 @@ import LoopingVideo from "@/components/LoopingVideo";
 import './necklace-comb.css';
 // checkpoint + completion APIs (missing earlier)
 import { getCheckpoint as getCheckpointAPI, saveCheckpoint as saveCheckpointAPI, resetCheckpoint as resetCheckpointAPI } from '@/lib/stories/checkpointClient';
+import { registerSessionSaver } from '@/contexts/AuthContext';
 import { markBookComplete as markBookCompleteAPI } from '@/lib/clients/completeClient';
 
 // ===== types & constants =====
@@ -559,6 +560,11 @@ export default function NecklaceCombStory() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // save the reader's place before an idle sign-out
+  const saveCheckpointRef = useRef(saveCheckpoint);
+  saveCheckpointRef.current = saveCheckpoint;
+  useEffect(() => registerSessionSaver(() => saveCheckpointRef.current()), []);
+
   // Ensure audio starts playing (muted) after component mounts & pages load
   useEffect(() => {
     const el = bgAudioRef.current;
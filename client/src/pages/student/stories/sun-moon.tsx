@@ -42,6 +42,7 @@ import {
   saveCheckpoint as saveCheckpointAPI,
   resetCheckpoint as resetCheckpointAPI,
 } from "@/lib/stories/checkpointClient";
+import { registerSessionSaver } from "@/contexts/AuthContext";
 
 import { markBookComplete as markBookCompleteAPI } from "@/lib/clients/completeClient";
 import { queryClient } from "@/lib/queryClient";
@@ -621,6 +622,11 @@ export default function SunMoonStory() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // save the reader's place before an idle sign-out
+  const saveCheckpointRef = useRef(saveCheckpoint);
+  saveCheckpointRef.current = saveCheckpoint;
+  useEffect(() => registerSessionSaver(() => saveCheckpointRef.current()), []);
+
   const leftPage = storyPages[spreadStart];
   const rightPage = storyPages[spreadStart + 1];
 
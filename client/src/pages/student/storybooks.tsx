@@ -5,6 +5,7 @@ import { Logo } from "@/components/ui/logo";
 import { Button } from "@/components/ui/button";
 import { Menu, ChevronLeft, Search, BookOpen, Filter, Star, Target, Lightbulb, Heart, Sparkles } from "lucide-react";
 import type { Book } from "@shared/schema";
+import { getAuthHeaders } from "@/lib/auth";
 
 export default function Storybooks() {
   // State for filter
@@ -23,12 +24,8 @@ export default function Storybooks() {
         url += `&search=${encodeURIComponent(searchTerm)}`;
       }
 
-      // FIXED: Add Authorization header
-      const token = localStorage.getItem("token");
       const response = await fetch(url, {
-        headers: {
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        },
+        headers: getAuthHeaders(),
       });
 
       if (!response.ok) {
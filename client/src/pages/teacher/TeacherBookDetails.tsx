@@ -8,6 +8,10 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { apiRequest } from "@/lib/queryClient";
 import { motion, AnimatePresence } from "@/lib/motionShim";
+import { useAuth } from "@/contexts/AuthContext";
+import { BookPublishingCard } from "@/components/admin/BookPublishingCard";
+import { BookSharingCard } from "@/components/admin/BookSharingCard";
+import { BookExportButton } from "@/components/admin/BookExportButton";
 
 /* --- motion variants to match dashboard --- */
 const fadeInUp = { hidden: { opacity: 0, y: 12 }, visible: { opacity: 1, y: 0 } };
@@ -30,6 +34,8 @@ function TeacherBookDetails() {
     return (map as any)[subject] ?? subject;
   };
 
+  const { can } = useAuth();
+
   // Book
   const { data: bookData, isLoading } = useQuery({
     queryKey: [`/api/books/${bookId}`],
@@ -153,12 +159,20 @@ function TeacherBookDetails() {
                       Back to Books
                     </Button>
                   </Link>
-                  <Link href={`/teacher/edit-book/${bookId}`}>
-                    <Button className="bg-ilaw-gold hover:bg-brand-gold-600 text-ilaw-navy font-sans font-bold px-6 py-3 shadow-lg">
-                      <Edit className="mr-2 h-4 w-4" />
-                      Edit Book
-                    </Button>
-                  </Link>
+                  {can("books.edit", bookData) && (
+                    <Link href={`/teacher/edit-book/${bookId}`}>
+                      <Button className="bg-ilaw-gold hover:bg-brand-gold-600 text-ilaw-navy font-sans font-bold px-6 py-3 shadow-lg">
+                        <Edit className="mr-2 h-4 w-4" />
+                        Edit Book
+                      </Button>
+                    </Link>
+                  )}
+                  {can("books.edit", bookData) && (
+                    <BookExportButton
+                      bookId={bookId}
+                      className="border-2 border-white text-white hover:bg-white hover:text-ilaw-navy font-sans font-bold px-6 py-3"
+                    />
+                  )}
                 </motion.div>
               </div>
             </motion.div>
@@ -172,7 +186,7 @@ function TeacherBookDetails() {
             className="grid grid-cols-1 lg:grid-cols-3 gap-8"
           >
             {/* Left: Book info */}
-            <motion.div variants={fadeInUp} className="lg:col-span-1">
+            <motion.div variants={fadeInUp} className="lg:col-span-1 space-y-8">
               <div className="bg-white rounded-2xl shadow-lg border-2 border-brand-navy-200 overflow-hidden">
                 <div className="bg-gradient-to-r from-ilaw-navy to-brand-navy-800 p-4">
                   <h2 className="text-xl font-sans font-bold text-ilaw-gold flex items-center">
@@ -292,6 +306,9 @@ function TeacherBookDetails() {
                   </motion.div>
                 </div>
               </div>
+
+              <BookPublishingCard book={bookData} />
+              <BookSharingCard bookId={bookId} />
             </motion.div>
 
             {/* Right: Tabs */}
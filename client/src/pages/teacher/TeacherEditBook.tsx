@@ -38,14 +38,9 @@ import {
 import { Checkbox } from "@/components/ui/checkbox";
 import Header from "@/components/layout/Header";
 import { motion, AnimatePresence } from "@/lib/motionShim";
+import { getAuthHeaders } from "@/lib/auth";
 
 /* =================== Helpers (Cloudinary upload) =================== */
-function getToken() {
-  if (typeof window === "undefined") return null;
-  const t = localStorage.getItem("token");
-  return t && t !== "null" ? t : null;
-}
-
 async function uploadToCloudinary(
   file: File,
   folder: string,
@@ -55,10 +50,9 @@ async function uploadToCloudinary(
   fd.append("file", file);
   if (kind) fd.append("kind", kind);
 
-  const token = getToken();
   const resp = await fetch(`/api/upload?folder=${encodeURIComponent(folder)}`, {
     method: "POST",
-    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    headers: getAuthHeaders(),
     body: fd,
   });
 
@@ -325,7 +319,7 @@ export default function TeacherEditBook() {
   const deletePageMutation = useMutation({
     mutationFn: async (pageId: number) => await apiRequest("DELETE", `/api/pages/${pageId}`),
     onSuccess: () => {
-      toast({ title: "✅ Page Deleted", description: "The page has been deleted successfully." });
+      toast({ title: "✅ Page Deleted", description: "The page was moved to the trash." });
       queryClient.invalidateQueries({ queryKey: [`/api/books/${bookId}/pages`] });
     },
     onError: (error: any) => {
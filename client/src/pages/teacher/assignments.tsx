@@ -0,0 +1,294 @@
+// src/pages/teacher/assignments.tsx
+import { useState, type ReactNode } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import Header from "@/components/layout/Header";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChevronLeft, ClipboardList, Loader2, Trash2, CalendarClock, Users, BookOpen } from "lucide-react";
+import { motion } from "@/lib/motionShim";
+import { apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+
+const fadeIn = { hidden: { opacity: 0, y: 8 }, visible: { opacity: 1, y: 0, transition: { duration: 0.35 } } };
+
+type Status = "not_started" | "in_progress" | "done" | "late";
+type Counts = Record<Status, number>;
+type BookRef = { id: number; title: string; type: string };
+
+type AssignmentRow = {
+  id: number;
+  title: string | null;
+  note: string | null;
+  dueAt: string | null;
+  minPercent: number;
+  minQuizScore: number | null;
+  class: { id: number; name: string } | null;
+  createdBy: { id: number; firstName: string; lastName: string } | null;
+  books: BookRef[];
+  counts: Counts;
+  studentCount: number;
+};
+
+type StatusGrid = {
+  books: BookRef[];
+  rows: {
+    student: { id: number; firstName: string; lastName: string; username: string };
+    status: Status;
+    books: { bookId: number; status: Status; percent: number; bestScore: number | null }[];
+  }[];
+  counts: Counts;
+};
+
+const STATUS_LABEL: Record<Status, string> = {
+  not_started: "Not started",
+  in_progress: "In progress",
+  done: "Done",
+  late: "Late",
+};
+
+const STATUS_CLASS: Record<Status, string> = {
+  not_started: "bg-gray-100 text-gray-700 border-gray-300",
+  in_progress: "bg-blue-100 text-blue-800 border-blue-300",
+  done: "bg-green-100 text-green-800 border-green-300",
+  late: "bg-red-100 text-red-800 border-red-300",
+};
+
+const STATUSES = Object.keys(STATUS_LABEL) as Status[];
+
+const assignmentName = (a: Pick<AssignmentRow, "title" | "books">) =>
+  a.title || a.books.map((b) => b.title).join(", ") || "Untitled assignment";
+
+const formatDue = (dueAt: string | null) =>
+  dueAt ? new Date(dueAt).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" }) : "No due date";
+
+function StatusBadge({ status, children }: { status: Status; children?: ReactNode }) {
+  return (
+    <Badge variant="outline" className={`${STATUS_CLASS[status]} font-bold`}>
+      {children ?? STATUS_LABEL[status]}
+    </Badge>
+  );
+}
+
+export default function TeacherAssignments() {
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data, isLoading, error } = useQuery<{ assignments: AssignmentRow[] }>({
+    queryKey: ["assignments"],
+    queryFn: () => apiRequest("GET", "/api/assignments"),
+  });
+
+  const { data: grid, isLoading: gridLoading } = useQuery<StatusGrid>({
+    queryKey: ["assignments", selectedId, "status"],
+    queryFn: () => apiRequest("GET", `/api/assignments/${selectedId}/status`),
+    enabled: selectedId != null,
+  });
+
+  const remove = async (a: AssignmentRow) => {
+    if (!confirm(`Delete "${assignmentName(a)}"? Students keep their reading progress.`)) return;
+    try {
+      await apiRequest("DELETE", `/api/assignments/${a.id}`);
+      toast({ title: "Assignment deleted" });
+      if (selectedId === a.id) setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: ["assignments"] });
+    } catch (err: any) {
+      toast({ title: "Error", description: err?.message || "Failed to delete", variant: "destructive" });
+    }
+  };
+
+  const assignments = data?.assignments ?? [];
+  const selected = assignments.find((a) => a.id === selectedId) ?? null;
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-br from-brand-navy-50 via-ilaw-white to-brand-gold-50">
+      <Header variant="teacher" />
+
+      <main className="flex-grow p-4 md:p-6">
+        <div className="container mx-auto">
+          {/* Header */}
+          <motion.div
+            variants={fadeIn}
+            initial="hidden"
+            animate="visible"
+            className="bg-gradient-to-r from-ilaw-navy to-brand-navy-800 rounded-2xl p-8 mb-8 text-white shadow-lg"
+          >
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between">
+              <div>
+                <div className="flex items-center mb-2">
+                  <ClipboardList className="h-8 w-8 text-ilaw-gold mr-3" />
+                  <span className="text-sm font-sans font-bold uppercase tracking-wide text-white/80">
+                    Reading Assignments
+                  </span>
+                </div>
+                <h1 className="text-3xl md:text-4xl font-sans font-bold mb-2">Assignments</h1>
+                <p className="text-lg font-sans font-bold text-white/80">
+                  See who has finished their assigned books. Assign new ones from the Books page.
+                </p>
+              </div>
+              <div className="mt-6 md:mt-0 flex flex-col sm:flex-row gap-3">
+                <Link href="/teacher/books">
+                  <Button className="bg-ilaw-gold hover:bg-brand-amber text-ilaw-navy font-sans font-bold px-6 py-3">
+                    <BookOpen className="mr-2 h-4 w-4" />
+                    Assign Books
+                  </Button>
+                </Link>
+                <Link href="/teacher">
+                  <Button
+                    variant="outline"
+                    className="border-2 border-white text-white hover:bg-white hover:text-ilaw-navy font-sans font-bold px-6 py-3"
+                  >
+                    <ChevronLeft className="mr-2 h-4 w-4" />
+                    Back to Dashboard
+                  </Button>
+                </Link>
+              </div>
+            </div>
+          </motion.div>
+
+          {/* List */}
+          <div className="bg-white rounded-xl shadow-lg border-2 border-brand-navy-200 p-6 mb-8">
+            {isLoading ? (
+              <div className="flex justify-center py-10 text-gray-500">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : error ? (
+              <p className="text-red-600 font-medium">
+                {error instanceof Error ? error.message : "Failed to load assignments"}
+              </p>
+            ) : assignments.length === 0 ? (
+              <div className="text-center py-10">
+                <ClipboardList className="h-12 w-12 mx-auto mb-3 text-brand-gold-300" />
+                <p className="text-ilaw-navy font-bold">No assignments yet.</p>
+                <p className="text-sm text-gray-500">Select books on the Books page and choose "Assign".</p>
+              </div>
+            ) : (
+              <ul className="space-y-3">
+                {assignments.map((a) => {
+                  const overdue = a.dueAt && new Date(a.dueAt) < new Date();
+                  return (
+                    <li
+                      key={a.id}
+                      className={`p-4 rounded-xl border-2 transition-colors ${
+                        selectedId === a.id ? "border-ilaw-gold bg-brand-gold-50" : "border-brand-navy-200"
+                      }`}
+                    >
+                      <div className="flex flex-wrap items-start justify-between gap-3">
+                        <button type="button" className="text-left flex-1 min-w-0" onClick={() => setSelectedId(a.id)}>
+                          <p className="font-bold text-ilaw-navy truncate">{assignmentName(a)}</p>
+                          <p className="text-xs text-gray-500 mt-1 flex flex-wrap items-center gap-x-3 gap-y-1">
+                            <span className="inline-flex items-center">
+                              <CalendarClock className={`h-3.5 w-3.5 mr-1 ${overdue ? "text-red-600" : ""}`} />
+                              {formatDue(a.dueAt)}
+                            </span>
+                            <span className="inline-flex items-center">
+                              <Users className="h-3.5 w-3.5 mr-1" />
+                              {a.class?.name ?? "Individual students"} · {a.studentCount} student
+                              {a.studentCount === 1 ? "" : "s"}
+                            </span>
+                            <span>
+                              {a.books.length} book{a.books.length === 1 ? "" : "s"} · read {a.minPercent}%
+                              {a.minQuizScore != null ? ` · quiz ≥ ${a.minQuizScore}%` : ""}
+                            </span>
+                          </p>
+                          <div className="flex flex-wrap gap-2 mt-2">
+                            {STATUSES.map((s) => (
+                              <StatusBadge key={s} status={s}>
+                                {STATUS_LABEL[s]}: {a.counts[s]}
+                              </StatusBadge>
+                            ))}
+                          </div>
+                        </button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Delete assignment"
+                          className="text-red-600 border-red-300"
+                          onClick={() => remove(a)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
+          {/* Status grid */}
+          {selected && (
+            <motion.div
+              variants={fadeIn}
+              initial="hidden"
+              animate="visible"
+              className="bg-white rounded-xl shadow-lg border-2 border-brand-navy-200 p-6"
+            >
+              <h2 className="text-xl font-sans font-bold text-ilaw-navy mb-1">{assignmentName(selected)}</h2>
+              <p className="text-sm text-gray-500 mb-4">
+                {formatDue(selected.dueAt)}
+                {selected.note ? ` · ${selected.note}` : ""}
+              </p>
+
+              {gridLoading || !grid ? (
+                <div className="flex justify-center py-8 text-gray-500">
+                  <Loader2 className="h-6 w-6 animate-spin" />
+                </div>
+              ) : grid.rows.length === 0 ? (
+                <p className="text-sm text-gray-500">No students are assigned.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Student</TableHead>
+                        <TableHead>Overall</TableHead>
+                        {grid.books.map((b) => (
+                          <TableHead key={b.id} className="min-w-[9rem]">
+                            {b.title}
+                          </TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {grid.rows.map((r) => (
+                        <TableRow key={r.student.id}>
+                          <TableCell>
+                            <p className="font-bold text-ilaw-navy">
+                              {r.student.firstName} {r.student.lastName}
+                            </p>
+                            <p className="text-xs text-gray-500">@{r.student.username}</p>
+                          </TableCell>
+                          <TableCell>
+                            <StatusBadge status={r.status} />
+                          </TableCell>
+                          {r.books.map((c) => (
+                            <TableCell key={c.bookId}>
+                              <StatusBadge status={c.status} />
+                              <p className="text-xs text-gray-500 mt-1">
+                                {c.percent}% read
+                                {c.bestScore != null ? ` · quiz ${c.bestScore}%` : ""}
+                              </p>
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </motion.div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -18,6 +18,8 @@ import {
   Star,
   MoreVertical,
   Library,
+  ClipboardList,
+  PackageOpen,
 } from "lucide-react";
 import {
   Table,
@@ -59,6 +61,13 @@ import { motion, AnimatePresence } from "@/lib/motionShim";
 
 // shared media
 import { BookCover } from "@/components/ui/media";
+import { getAuthHeaders } from "@/lib/auth";
+import { useAuth } from "@/contexts/AuthContext";
+import { Checkbox } from "@/components/ui/checkbox";
+import { AssignBooksDialog } from "@/components/admin/AssignBooksDialog";
+import { TrashDialog } from "@/components/admin/TrashDialog";
+import { BookImportDialog } from "@/components/admin/BookImportDialog";
+import { bookStatusBadgeClass, bookStatusLabel, isScheduled } from "@/lib/bookStatus";
 
 /* ----------------- Helpers ----------------- */
 const subjectLabel = (s?: string) => s || "General";
@@ -141,10 +150,26 @@ export default function TeacherBooks() {
   const [bookType, setBookType] = useState<"all" | "storybook" | "educational">("all");
   const [page, setPage] = useState(1);
   const [deleteBookId, setDeleteBookId] = useState<number | null>(null);
+  // books picked for an assignment (checkboxes or a row's "Assign" action)
+  const [selectedBooks, setSelectedBooks] = useState<{ id: number; title: string }[]>([]);
+  const [assignBooks, setAssignBooks] = useState<{ id: number; title: string }[] | null>(null);
+  const { can } = useAuth();
+  const canAssign = can("assignments.manage");
+  const canManageTrash = (["books.delete.own", "books.delete.any", "books.edit.own", "books.edit.any"] as const).some(
+    (p) => can(p)
+  );
+  const [trashOpen, setTrashOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+
+  const toggleSelected = (book: { id: number; title: string }) =>
+    setSelectedBooks((prev) =>
+      prev.some((b) => b.id === book.id) ? prev.filter((b) => b.id !== book.id) : [...prev, { id: book.id, title: book.title }]
+    );
 
   // Filters (leave "all" so backend can apply *all* teacher preferences)
   const [gradeFilter, setGradeFilter] = useState("all");
   const [subjectFilter, setSubjectFilter] = useState("all");
+  const [scope, setScope] = useState<"all" | "mine">("all"); // mine = owned or shared with me
   const [settingsLoaded, setSettingsLoaded] = useState(false);
 
   const { toast } = useToast();
@@ -154,7 +179,7 @@ export default function TeacherBooks() {
     async function fetchTeachingSettings() {
       try {
         const res = await fetch("/api/user/teaching-settings", {
-          headers: { Authorization: `Bearer ${localStorage.getItem("token")}` },
+          headers: getAuthHeaders(),
         });
         await res.json().catch(() => null);
       } catch {
@@ -168,10 +193,11 @@ export default function TeacherBooks() {
 
   /* ----------------- Books query (teacher endpoint) ----------------- */
   const { data: booksData, isLoading } = useQuery({
-    queryKey: ["/api/teacher/books", page, bookType, searchTerm, gradeFilter, subjectFilter],
+    queryKey: ["/api/teacher/books", page, bookType, searchTerm, gradeFilter, subjectFilter, scope],
     queryFn: async () => {
       let url = `/api/teacher/books`;
 
+      if (scope === "mine") url = append(url, "mine", "1");
       if (bookType !== "all") url = append(url, "type", bookType);
       if (searchTerm) url = append(url, "search", searchTerm);
 
@@ -183,7 +209,7 @@ export default function TeacherBooks() {
       }
 
       const response = await fetch(url, {
-        headers: { Authorization: `Bearer ${localStorage.getItem("token")}` },
+        headers: getAuthHeaders(),
       });
 
       if (!response.ok) throw new Error("Failed to fetch books");
@@ -202,7 +228,7 @@ export default function TeacherBooks() {
   const deleteMutation = useMutation({
     mutationFn: async (bookId: number) => apiRequest("DELETE", `/api/teacher/books/${bookId}`),
     onSuccess: () => {
-      toast({ title: "Book deleted", description: "The book has been successfully deleted." });
+      toast({ title: "Moved to trash", description: "You can restore the book from the trash." });
       queryClient.invalidateQueries({ queryKey: ["/api/teacher/books"] });
       setDeleteBookId(null);
     },
@@ -219,7 +245,7 @@ export default function TeacherBooks() {
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     queryClient.invalidateQueries({
-      queryKey: ["/api/teacher/books", 1, bookType, searchTerm, gradeFilter, subjectFilter],
+      queryKey: ["/api/teacher/books", 1, bookType, searchTerm, gradeFilter, subjectFilter, scope],
     });
     setPage(1);
   };
@@ -277,12 +303,43 @@ export default function TeacherBooks() {
             Back to Dashboard
           </Button>
         </Link>
-        <Link href="/teacher/add-book">
-          <Button className="bg-ilaw-gold hover:bg-brand-gold-600 text-ilaw-navy font-sans font-bold px-6 py-3 shadow-lg">
-            <Plus className="mr-2 h-4 w-4" />
-            Add New Book
+        {can("books.create") && (
+          <Link href="/teacher/add-book">
+            <Button className="bg-ilaw-gold hover:bg-brand-gold-600 text-ilaw-navy font-sans font-bold px-6 py-3 shadow-lg">
+              <Plus className="mr-2 h-4 w-4" />
+              Add New Book
+            </Button>
+          </Link>
+        )}
+        {can("books.create") && (
+          <Button
+            variant="outline"
+            onClick={() => setImportOpen(true)}
+            className="border-2 border-white text-white hover:bg-white hover:text-ilaw-navy font-sans font-bold px-6 py-3"
+          >
+            <PackageOpen className="mr-2 h-4 w-4" />
+            Import
           </Button>
-        </Link>
+        )}
+        {canManageTrash && (
+          <Button
+            variant="outline"
+            onClick={() => setTrashOpen(true)}
+            className="border-2 border-white text-white hover:bg-white hover:text-ilaw-navy font-sans font-bold px-6 py-3"
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Trash
+          </Button>
+        )}
+        {canAssign && selectedBooks.length > 0 && (
+          <Button
+            onClick={() => setAssignBooks(selectedBooks)}
+            className="bg-white hover:bg-brand-gold-50 text-ilaw-navy font-sans font-bold px-6 py-3 shadow-lg"
+          >
+            <ClipboardList className="mr-2 h-4 w-4" />
+            Assign {selectedBooks.length} Book{selectedBooks.length === 1 ? "" : "s"}
+          </Button>
+        )}
       </motion.div>
     </div>
   </motion.div>
@@ -308,7 +365,24 @@ export default function TeacherBooks() {
       </div>
     </form>
 
-    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 w-full md:w-auto">
+    <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 w-full md:w-auto">
+      {/* Owned / shared */}
+      <Select
+        value={scope}
+        onValueChange={(v) => {
+          setScope(v as "all" | "mine");
+          setPage(1);
+        }}
+      >
+        <SelectTrigger className="h-12 border-2 border-brand-navy-200 focus:border-ilaw-navy rounded-lg font-sans font-bold">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="font-sans font-bold">
+          <SelectItem value="all">Library</SelectItem>
+          <SelectItem value="mine">My &amp; Shared Books</SelectItem>
+        </SelectContent>
+      </Select>
+
       {/* Book type */}
       <Select
         value={bookType}
@@ -403,6 +477,7 @@ export default function TeacherBooks() {
   <Table>
     <TableHeader>
       <TableRow className="bg-brand-navy-50/40">
+        {canAssign && <TableHead className="w-10" />}
         <TableHead className="font-sans font-bold text-ilaw-navy">BOOK</TableHead>
         <TableHead className="font-sans font-bold text-ilaw-navy">TYPE & SUBJECT</TableHead>
         <TableHead className="font-sans font-bold text-ilaw-navy">GRADE LEVEL</TableHead>
@@ -414,7 +489,7 @@ export default function TeacherBooks() {
     <TableBody>
       {isLoading ? (
         <TableRow>
-          <TableCell colSpan={6} className="text-center py-8">
+          <TableCell colSpan={canAssign ? 7 : 6} className="text-center py-8">
             <div className="flex items-center justify-center">
               <div className="animate-spin rounded-full h-8 w-8 border-2 border-ilaw-navy border-t-transparent mr-3"></div>
               <span className="text-brand-navy-700 font-sans font-bold">Loading books...</span>
@@ -434,6 +509,15 @@ export default function TeacherBooks() {
                 transition={{ duration: 0.22, delay: idx * 0.02 }}
                 className="border-b border-brand-navy-100 hover:bg-brand-navy-50/50 transition-colors"
               >
+                {canAssign && (
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedBooks.some((b) => b.id === book.id)}
+                      onCheckedChange={() => toggleSelected(book)}
+                      aria-label={`Select ${book.title}`}
+                    />
+                  </TableCell>
+                )}
                 <TableCell className="font-sans font-bold">
                   <div className="flex items-center">
                     <div className="mr-4 w-12">
@@ -470,6 +554,13 @@ export default function TeacherBooks() {
         {subjectLabel(book.subject)}
       </Badge>
     )}
+
+    {/* live books need no label; drafts, reviews and schedules do */}
+    {book.status && (book.status !== "published" || isScheduled(book)) && (
+      <Badge className={`${bookStatusBadgeClass(book)} font-sans font-bold text-xs w-fit`}>
+        {bookStatusLabel(book)}
+      </Badge>
+    )}
   </div>
 </TableCell>
 
@@ -508,19 +599,32 @@ export default function TeacherBooks() {
             View Details
           </DropdownMenuItem>
         </Link>
-        <Link href={`/teacher/edit-book/${book.id}`}>
-          <DropdownMenuItem className="flex items-center font-sans font-bold text-ilaw-navy hover:bg-brand-navy-50/60">
-            <Edit className="mr-2 h-4 w-4" />
-            Edit Book
+        {canAssign && (
+          <DropdownMenuItem
+            className="flex items-center font-sans font-bold text-ilaw-navy hover:bg-brand-navy-50/60"
+            onClick={() => setAssignBooks([{ id: book.id, title: book.title }])}
+          >
+            <ClipboardList className="mr-2 h-4 w-4" />
+            Assign to Students
           </DropdownMenuItem>
-        </Link>
-        <DropdownMenuItem
-          className="flex items-center text-red-600 font-sans font-bold hover:bg-red-50"
-          onClick={() => setDeleteBookId(book.id)}
-        >
-          <Trash2 className="mr-2 h-4 w-4" />
-          Delete Book
-        </DropdownMenuItem>
+        )}
+        {can("books.edit", book) && (
+          <Link href={`/teacher/edit-book/${book.id}`}>
+            <DropdownMenuItem className="flex items-center font-sans font-bold text-ilaw-navy hover:bg-brand-navy-50/60">
+              <Edit className="mr-2 h-4 w-4" />
+              Edit Book
+            </DropdownMenuItem>
+          </Link>
+        )}
+        {can("books.delete", book) && (
+          <DropdownMenuItem
+            className="flex items-center text-red-600 font-sans font-bold hover:bg-red-50"
+            onClick={() => setDeleteBookId(book.id)}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete Book
+          </DropdownMenuItem>
+        )}
       </DropdownMenuContent>
     </DropdownMenu>
   </div>
@@ -531,7 +635,7 @@ export default function TeacherBooks() {
                   </AnimatePresence>
                 ) : (
 <TableRow>
-  <TableCell colSpan={6} className="text-center py-12">
+  <TableCell colSpan={canAssign ? 7 : 6} className="text-center py-12">
     <div className="flex flex-col items-center">
       <BookOpen className="h-16 w-16 text-brand-navy-200 mb-4" />
       <p className="text-xl font-sans font-bold text-ilaw-navy mb-2">
@@ -583,6 +687,26 @@ export default function TeacherBooks() {
 </main>
 
 {/* Delete Confirmation Dialog */}
+<AssignBooksDialog
+  books={assignBooks ?? []}
+  open={!!assignBooks}
+  onOpenChange={(open) => !open && setAssignBooks(null)}
+  onAssigned={() => setSelectedBooks([])}
+/>
+
+<TrashDialog
+  open={trashOpen}
+  onOpenChange={setTrashOpen}
+  onRestored={() => queryClient.invalidateQueries({ queryKey: ["/api/teacher/books"] })}
+/>
+
+<BookImportDialog
+  open={importOpen}
+  onOpenChange={setImportOpen}
+  bookHref={(id) => `/teacher/books/${id}`}
+  onImported={() => queryClient.invalidateQueries({ queryKey: ["/api/teacher/books"] })}
+/>
+
 <AlertDialog open={deleteBookId !== null} onOpenChange={() => setDeleteBookId(null)}>
   <AlertDialogContent className="border-2 border-brand-navy-200">
     <AlertDialogHeader>
@@ -590,7 +714,8 @@ export default function TeacherBooks() {
         Are you sure?
       </AlertDialogTitle>
       <AlertDialogDescription className="text-brand-navy-700 font-sans font-bold">
-        This action cannot be undone. This will permanently delete the book and all associated data.
+        The book moves to the trash with its pages and student progress. You can restore it from there until it
+        is removed for good.
       </AlertDialogDescription>
     </AlertDialogHeader>
     <AlertDialogFooter>
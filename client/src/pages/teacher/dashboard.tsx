@@ -1,7 +1,5 @@
-import { useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Link } from "wouter";
-import { jwtDecode } from "jwt-decode";
 import { motion, AnimatePresence } from "@/lib/motionShim";
 import Header from "@/components/layout/Header";
 import { Button } from "@/components/ui/button";
@@ -17,11 +15,9 @@ import {
   Award,
   ChevronRight,
 } from "lucide-react";
-
-// JWT payload type
-interface JwtPayload {
-  exp: number;
-}
+import { getAuthHeaders } from "@/lib/auth";
+import { useAuth } from "@/contexts/AuthContext";
+import { AnnouncementsFeed } from "@/components/AnnouncementsFeed";
 
 // --- motion variants ---
 const fadeInUp = {
@@ -35,44 +31,14 @@ const stagger = {
 };
 
 function TeacherDashboard() {
-  // Auto-logout based on JWT expiration
-  useEffect(() => {
-    const token = localStorage.getItem("token");
-    if (!token) return;
-
-    try {
-      const decoded = jwtDecode<JwtPayload>(token);
-      const expiresAt = decoded.exp * 1000;
-      const now = Date.now();
-
-      if (expiresAt < now) {
-        alert("Session timed out. Please log in again.");
-        localStorage.removeItem("token");
-        window.location.href = "/login";
-        return;
-      }
-
-      const timeout = expiresAt - now;
-      const timer = setTimeout(() => {
-        alert("Session timed out. Please log in again.");
-        localStorage.removeItem("token");
-        window.location.href = "/login";
-      }, timeout);
-
-      return () => clearTimeout(timer);
-    } catch (error) {
-      console.error("Invalid token:", error);
-      localStorage.removeItem("token");
-      window.location.href = "/login";
-    }
-  }, []);
+  const { can } = useAuth();
 
   // Fetch APPROVED students
   const { data: studentsData, isLoading: isLoadingStudents } = useQuery({
     queryKey: ["/api/students", "approved"],
     queryFn: async () => {
       const response = await fetch("/api/students?status=approved", {
-        headers: { Authorization: `Bearer ${localStorage.getItem("token")}` },
+        headers: getAuthHeaders(),
       });
       if (!response.ok) throw new Error("Failed to fetch approved students data");
       return response.json();
@@ -84,7 +50,7 @@ function TeacherDashboard() {
     queryKey: ["/api/stats"],
     queryFn: async () => {
       const response = await fetch("/api/stats", {
-        headers: { Authorization: `Bearer ${localStorage.getItem("token")}` },
+        headers: getAuthHeaders(),
       });
       if (!response.ok) throw new Error("Failed to fetch dashboard stats");
       return response.json();
@@ -135,17 +101,22 @@ function TeacherDashboard() {
                 </motion.p>
 
                 <motion.div variants={fadeInUp} className="mt-6 font-sans font-bold">
-                  <Link href="/teacher/add-book">
-                    <Button className="bg-ilaw-gold hover:bg-brand-gold-600 text-ilaw-navy border-2 border-ilaw-gold px-6 py-3 text-lg inline-flex items-center group transition-all duration-300 hover:scale-[1.02] font-sans font-bold">
-                      <Plus className="mr-2 h-5 w-5 group-hover:rotate-90 transition-transform duration-300" />
-                      Add New Book
-                    </Button>
-                  </Link>
+                  {can("books.create") && (
+                    <Link href="/teacher/add-book">
+                      <Button className="bg-ilaw-gold hover:bg-brand-gold-600 text-ilaw-navy border-2 border-ilaw-gold px-6 py-3 text-lg inline-flex items-center group transition-all duration-300 hover:scale-[1.02] font-sans font-bold">
+                        <Plus className="mr-2 h-5 w-5 group-hover:rotate-90 transition-transform duration-300" />
+                        Add New Book
+                      </Button>
+                    </Link>
+                  )}
                 </motion.div>
               </div>
             </motion.div>
           </motion.div>
 
+          {/* ===== Announcements ===== */}
+          <AnnouncementsFeed className="mb-8" />
+
           {/* ===== Stats ===== */}
           <motion.div
             className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8 font-sans font-bold"
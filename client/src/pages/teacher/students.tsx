@@ -21,6 +21,12 @@ import {
   Book,
   BarChart3,
   Loader2,
+  Upload,
+  UserPlus,
+  KeyRound,
+  School,
+  FileSpreadsheet,
+  FileText,
 } from "lucide-react";
 import {
   Table,
@@ -51,9 +57,17 @@ import { Badge } from "@/components/ui/badge";
 // media + api
 import { AvatarImg, BookCover } from "@/components/ui/media";
 import { apiRequest } from "@/lib/queryClient";
+import { StudentImportDialog } from "@/components/admin/StudentImportDialog";
+import { ParentInvitesDialog } from "@/components/admin/ParentInvitesDialog";
+import { ResetCodeDialog } from "@/components/admin/ResetCodeDialog";
+import { ClassRosterDialog, type ClassSummary } from "@/components/admin/ClassRosterDialog";
+import { GradebookExportDialog } from "@/components/admin/GradebookExportDialog";
+import { ReportCardDialog } from "@/components/admin/ReportCardDialog";
 
 // ✨ animations
 import { motion, AnimatePresence } from "@/lib/motionShim";
+import { getAuthHeaders } from "@/lib/auth";
+import { useAuth } from "@/contexts/AuthContext";
 const fadeIn = { hidden: { opacity: 0, y: 8 }, visible: { opacity: 1, y: 0, transition: { duration: 0.35 } } };
 const fadeInFast = { hidden: { opacity: 0, y: 6 }, visible: { opacity: 1, y: 0, transition: { duration: 0.25 } } };
 const stagger = { hidden: {}, visible: { transition: { staggerChildren: 0.06 } } };
@@ -163,20 +177,38 @@ function TeacherStudents() {
   const [gradeFilter, setGradeFilter] = useState("all");
   const [selectedStudent, setSelectedStudent] = useState<any>(null);
   const [showProgressDialog, setShowProgressDialog] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [parentInvitesFor, setParentInvitesFor] = useState<any>(null);
+  const [resetCodeFor, setResetCodeFor] = useState<any>(null);
+  const [classFilter, setClassFilter] = useState("all");
+  const [rosterFor, setRosterFor] = useState<ClassSummary | null>(null);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [reportCardsOpen, setReportCardsOpen] = useState(false);
+  const [reportCardFor, setReportCardFor] = useState<any>(null);
+  const { can } = useAuth();
+
+  // Classes this teacher teaches (roster filter)
+  const { data: classesData } = useQuery<{ classes: ClassSummary[] }>({
+    queryKey: ["classes", false],
+    queryFn: () => apiRequest("GET", "/api/classes"),
+    enabled: can("classes.manage"),
+  });
+  const classes = classesData?.classes ?? [];
+  const selectedClass = classes.find((c) => String(c.id) === classFilter) ?? null;
 
   // Approved students
   const { data: studentsData, isLoading, error } = useQuery({
-    queryKey: ["/api/students", "approved", gradeFilter, searchTerm],
+    queryKey: ["/api/students", "approved", gradeFilter, searchTerm, classFilter],
     queryFn: async () => {
       const params = new URLSearchParams();
       params.append("status", "approved");
       if (gradeFilter !== "all") params.append("grade", gradeFilter);
+      if (classFilter !== "all") params.append("classId", classFilter);
       if (searchTerm && searchTerm.trim() !== "") params.append("search", searchTerm);
 
-      const token = localStorage.getItem("token");
       const res = await fetch(`/api/students?${params.toString()}`, {
         headers: {
-          Authorization: `Bearer ${token}`,
+          ...getAuthHeaders(),
           "Content-Type": "application/json",
         },
       });
@@ -191,7 +223,7 @@ function TeacherStudents() {
     queryKey: ["/api/progress"],
     queryFn: async () => {
       const res = await fetch("/api/progress", {
-        headers: { Authorization: `Bearer ${localStorage.getItem("token")}` },
+        headers: getAuthHeaders(),
       });
       if (!res.ok) throw new Error("Failed to fetch progress data");
       return res.json();
@@ -203,7 +235,7 @@ function TeacherStudents() {
     queryKey: ["/api/quiz-attempts"],
     queryFn: async () => {
       const res = await fetch("/api/quiz-attempts", {
-        headers: { Authorization: `Bearer ${localStorage.getItem("token")}` },
+        headers: getAuthHeaders(),
       });
       if (!res.ok) throw new Error("Failed to fetch quiz attempts");
       return res.json();
@@ -412,7 +444,34 @@ function TeacherStudents() {
         Monitor and track your students' learning progress
       </p>
     </div>
-    <div className="mt-6 md:mt-0">
+    <div className="mt-6 md:mt-0 flex flex-col sm:flex-row gap-3">
+      {can("students.import") && (
+        <Button
+          onClick={() => setImportOpen(true)}
+          className="bg-ilaw-gold hover:bg-brand-amber text-ilaw-navy font-sans font-bold px-6 py-3"
+        >
+          <Upload className="mr-2 h-4 w-4" />
+          Import Students (CSV)
+        </Button>
+      )}
+      {can("gradebook.export") && (
+        <Button
+          onClick={() => setExportOpen(true)}
+          className="bg-ilaw-gold hover:bg-brand-amber text-ilaw-navy font-sans font-bold px-6 py-3"
+        >
+          <FileSpreadsheet className="mr-2 h-4 w-4" />
+          Export Gradebook
+        </Button>
+      )}
+      {can("reportCards.print") && (
+        <Button
+          onClick={() => setReportCardsOpen(true)}
+          className="bg-ilaw-gold hover:bg-brand-amber text-ilaw-navy font-sans font-bold px-6 py-3"
+        >
+          <FileText className="mr-2 h-4 w-4" />
+          Report Cards
+        </Button>
+      )}
       <Link href="/teacher">
         <Button
           variant="outline"
@@ -433,7 +492,7 @@ function TeacherStudents() {
   className="bg-white rounded-xl shadow-lg border-2 border-brand-navy-200 p-6 mb-8 font-sans font-bold"
 >
   <div className="flex flex-col md:flex-row gap-6">
-    <form onSubmit={handleSearch} className="w-full md:w-2/3">
+    <form onSubmit={handleSearch} className="w-full md:w-1/2">
       <div className="relative">
         <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-brand-navy-300" size={20} />
         <Input
@@ -445,7 +504,39 @@ function TeacherStudents() {
       </div>
     </form>
 
-    <div className="w-full md:w-1/3">
+    <div className="w-full md:w-1/4 flex gap-2">
+      <Select value={classFilter} onValueChange={setClassFilter}>
+        <SelectTrigger className="h-12 border-2 border-brand-navy-200 focus:border-ilaw-gold rounded-lg font-sans font-bold">
+          <SelectValue>
+            <div className="flex items-center font-sans font-bold">
+              <School className="w-5 h-5 mr-3 text-ilaw-gold" />
+              <span className="truncate">{selectedClass?.name ?? "All My Students"}</span>
+            </div>
+          </SelectValue>
+        </SelectTrigger>
+        <SelectContent className="font-sans font-bold">
+          <SelectItem value="all">All My Students</SelectItem>
+          {classes.map((c) => (
+            <SelectItem key={c.id} value={String(c.id)}>
+              {c.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {selectedClass && (
+        <Button
+          type="button"
+          variant="outline"
+          title="Manage roster"
+          onClick={() => setRosterFor(selectedClass)}
+          className="h-12 border-2 border-brand-navy-200 text-ilaw-navy"
+        >
+          <Users className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+
+    <div className="w-full md:w-1/4">
       <Select value={gradeFilter} onValueChange={setGradeFilter}>
         <SelectTrigger className="h-12 border-2 border-brand-navy-200 focus:border-ilaw-gold rounded-lg font-sans font-bold">
           <SelectValue>
@@ -606,6 +697,39 @@ function TeacherStudents() {
                     >
                       <Eye className="h-4 w-4" />
                     </Button>
+                    {can("reportCards.print") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title="Report card (PDF)"
+                        className="h-9 w-9 p-0 border-brand-navy-300 text-ilaw-navy hover:bg-brand-navy-50 font-sans font-bold"
+                        onClick={() => setReportCardFor(student)}
+                      >
+                        <FileText className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {can("students.manage") && (
+                      <>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Parent access"
+                          className="h-9 w-9 p-0 border-brand-navy-300 text-ilaw-navy hover:bg-brand-navy-50 font-sans font-bold"
+                          onClick={() => setParentInvitesFor(student)}
+                        >
+                          <UserPlus className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Password reset code"
+                          className="h-9 w-9 p-0 border-brand-navy-300 text-ilaw-navy hover:bg-brand-navy-50 font-sans font-bold"
+                          onClick={() => setResetCodeFor(student)}
+                        >
+                          <KeyRound className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
                   </div>
                 </TableCell>
               </motion.tr>
@@ -637,6 +761,42 @@ function TeacherStudents() {
           </motion.div>
 
           {/* Student Progress Dialog */}
+          <StudentImportDialog open={importOpen} onOpenChange={setImportOpen} />
+          <ParentInvitesDialog
+            student={parentInvitesFor}
+            open={!!parentInvitesFor}
+            onOpenChange={(open) => !open && setParentInvitesFor(null)}
+          />
+          <ResetCodeDialog
+            student={resetCodeFor}
+            open={!!resetCodeFor}
+            onOpenChange={(open) => !open && setResetCodeFor(null)}
+          />
+          <ClassRosterDialog
+            cls={rosterFor}
+            open={!!rosterFor}
+            onOpenChange={(open) => !open && setRosterFor(null)}
+          />
+          <GradebookExportDialog
+            classes={classes}
+            initialClassId={classFilter}
+            initialGrade={gradeFilter}
+            open={exportOpen}
+            onOpenChange={setExportOpen}
+          />
+          <ReportCardDialog
+            classes={classes}
+            initialClassId={classFilter}
+            initialGrade={gradeFilter}
+            open={reportCardsOpen}
+            onOpenChange={setReportCardsOpen}
+          />
+          <ReportCardDialog
+            student={reportCardFor}
+            open={!!reportCardFor}
+            onOpenChange={(open) => !open && setReportCardFor(null)}
+          />
+
           <Dialog open={showProgressDialog} onOpenChange={setShowProgressDialog}>
             <DialogContent className="max-w-4xl max-h-[90vh] overflow-auto bg-white border-2 border-brand-navy-200">
               <DialogHeader className="border-b border-brand-navy-200 pb-4">
@@ -10,6 +10,9 @@ import cors from "cors";
 import applySecurityHeaders, { getCSPHeader } from "./security";
 import crypto from 'crypto';
 import { runStartupSeed } from "./startupSeed";
+import { startSessionPurgeJob } from "./utils/sessions";
+import { startAccountPurgeJob } from "./utils/accountDeletion";
+import { startTrashPurgeJob } from "./utils/bookTrash";
 
 // Environment configuration for deployment
 const host = process.env.NODE_ENV === 'production' ? '0.0.0.0' : (process.env.HOST || '0.0.0.0');
@@ -163,6 +166,13 @@ app.use((req, res, next) => {
     // Perform idempotent startup seed (non-blocking)
     runStartupSeed().catch(e => log(`Startup seed failed: ${(e as Error).message}`, 'seed'));
 
+    // Delete expired and revoked user_sessions rows (hourly)
+    startSessionPurgeJob();
+    // Purge soft-deleted accounts whose grace period has ended (hourly)
+    startAccountPurgeJob();
+    // ...and books, pages and questions kept in the trash past their retention
+    startTrashPurgeJob();
+
     // Start the server
     log(`Attempting to listen on ${host}:${port}`);
     server.on('error', (err) => {
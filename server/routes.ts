@@ -5,7 +5,7 @@ import bcrypt from "bcrypt";
 import jwt from "jsonwebtoken";
 import * as schema from "@shared/schema";
 import { ZodError } from "zod";
-import { eq, and, desc, asc, or, like, inArray, isNull, isNotNull, not } from "drizzle-orm";
+import { eq, and, desc, asc, or, like, inArray, notInArray, isNull, isNotNull, not, sql, TransactionRollbackError } from "drizzle-orm";
 import { db } from "@db";
 import { sendVerificationEmail, sendPasswordResetEmail, sendWelcomeEmail } from "@/pages/api/emailService";
 import crypto from "crypto";
@@ -14,8 +14,198 @@ import { v2 as cloudinary } from "cloudinary";
 import { CloudinaryStorage } from "multer-storage-cloudinary";
 import uploadHandler from "@/pages/api/upload";
 import { resetExpiresAt, verifyExpiresAt, resetTtlHuman, verifyTtlHuman, RESET_TTL_MIN } from "./utils/ttl";
-import { simpleRateLimit } from "./utils/rateLimit";
+import { getRateLimitStore, listRateLimitPolicies, simpleRateLimit } from "./utils/rateLimit";
+import {
+  createSession,
+  findActiveSession,
+  forgetIdleTimeout,
+  getIdleTimeoutMinutes,
+  newSessionId,
+  revokeSession,
+  revokeUserSessions,
+  sessionDeadline,
+  touchSession,
+} from "./utils/sessions";
+import { buildUserExportArchive, collectUserData, exportFileName } from "./utils/userExport";
+import { purgeAccount, restoreAccount, scheduleAccountDeletion } from "./utils/accountDeletion";
+import { listUserAuthEvents, recordAuthEvent, searchAuthEvents } from "./utils/authEvents";
+import {
+  beginImpersonationSession,
+  cookieSessionMiddleware,
+  endCookieSession,
+  endImpersonationSession,
+  hasValidCsrfToken,
+  replaceSessionToken,
+  startCookieSession,
+  tokenFromRequest,
+} from "./utils/cookieSession";
+import {
+  consumeRecoveryCode,
+  decryptSecret,
+  encryptSecret,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  otpauthUrl,
+  verifyTotp,
+} from "./utils/totp";
+import QRCode from "qrcode";
+import {
+  findUsableJoinCode,
+  formatJoinCode,
+  generateUniqueJoinCode,
+  normalizeJoinCode,
+  redeemJoinCode,
+} from "./utils/joinCodes";
+import { checkImportRows, createImportedStudents, parseStudentCsv } from "./utils/studentImport";
+import { completedAtOnInsert, completedAtOnUpdate } from "./utils/progress";
+import { buildGradebook, findStudents, gradebookCsv, gradebookFileName, gradebookXlsx } from "./utils/gradebook";
+import {
+  buildReportCards,
+  quarterStart,
+  renderReportCards,
+  reportCardFileName,
+  type ReportPeriod,
+} from "./utils/reportCard";
+import { XLSX_CONTENT_TYPE } from "./utils/xlsx";
+import {
+  RESET_CODE_TTL_MIN,
+  consumeResetCode,
+  findUsableResetCode,
+  issueResetCode,
+  listResetCodes,
+  recordFailedResetCode,
+} from "./utils/resetCodes";
+import {
+  checkNewPassword,
+  isPasswordExpired,
+  loadPasswordPolicy,
+  policyFromSettings,
+  rememberPreviousPassword,
+} from "./utils/passwordPolicy";
+import {
+  canActOnBook,
+  canEditBookId,
+  canShareBook,
+  forgetRolePermissions,
+  hasPermission,
+  loadRolePermissions,
+  requirePermission,
+  userPermissions,
+} from "./utils/permissions";
+import {
+  bookAccessFor,
+  bookAccessMap,
+  findBookAuthor,
+  listBookSharing,
+  removeBookCollaborator,
+  setBookCollaborator,
+  sharedBookIdsQuery,
+  transferBookOwnership,
+} from "./utils/bookSharing";
+import {
+  addBookReviewComment,
+  bookStatusChangeError,
+  canViewBook,
+  canViewBookId,
+  changeBookStatus,
+  deleteBookReviewEvents,
+  isBookStatusAction,
+  listBookReviewEvents,
+  listReviewQueue,
+  MAX_REVIEW_COMMENT,
+  visibleBooksCondition,
+} from "./utils/bookPublishing";
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  findTrashItem,
+  getTrashRetentionDays,
+  isTrashKind,
+  listTrash,
+  purgeTrashItem,
+  restoreTrashItem,
+  trashBook,
+  trashPage,
+  trashQuestion,
+  trashQuestions,
+} from "./utils/bookTrash";
+import {
+  MAX_PACKAGE_BYTES,
+  buildBookPackage,
+  findPackageConflicts,
+  importBookPackage,
+  isPackageMediaMode,
+  readBookPackage,
+  summarizePackage,
+  type PackageIssue,
+  type ReadPackage,
+} from "./utils/bookPackage";
+import {
+  CLASS_LOGIN_LOCK_MINUTES,
+  CLASS_LOGIN_MAX_ATTEMPTS,
+  classRoster,
+  findClassByCode,
+  generateClassLoginSecret,
+  generateClassSignInCode,
+  hashClassLoginSecret,
+  isClassLoginGrade,
+  isClassLoginKind,
+  normalizeClassLoginSecret,
+  verifyClassLoginSecret,
+} from "./utils/classSignIn";
+import {
+  canSeeStudent,
+  classCapacity,
+  classRosterStudents,
+  currentSchoolYear,
+  deleteClass,
+  enrollInClass,
+  findClassTeacher,
+  findManagedClass,
+  isSchoolYear,
+  listClasses,
+  teachesStudent,
+  teachesStudentCondition,
+} from "./utils/classes";
+import {
+  assignmentStatusGrid,
+  deleteAssignment,
+  findManagedAssignment,
+  listManagedAssignments,
+  studentAssignments,
+} from "./utils/assignments";
+import {
+  announcementFeed,
+  deleteAnnouncements,
+  findManagedAnnouncement,
+  listManagedAnnouncements,
+  liveMaintenanceNotice,
+  markAnnouncementsRead,
+} from "./utils/announcements";
+import {
+  IMPERSONATION_TTL,
+  isBlockedWhileImpersonating,
+  listImpersonationActions,
+  recordImpersonationAction,
+} from "./utils/impersonation";
+import {
+  PARENT_INVITE_TTL_DAYS,
+  childProgressSnapshot,
+  findUsableParentInvite,
+  generateUniqueParentInviteCode,
+  isParentApiPath,
+  isParentOf,
+  listChildren,
+  redeemParentInvite,
+} from "./utils/parents";
 import { BookCreateApiSchema } from "@shared/bookCreateApiSchema";
+import { DEFAULT_PASSWORD_POLICY, parseBlocklist } from "@shared/passwordPolicy";
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  EDITABLE_ROLES,
+  PERMISSIONS,
+  isPermission,
+  resolveRolePermissions,
+} from "@shared/permissions";
 import cors from "cors";
 import { awardExclusiveStoryBadge } from "@/lib/awardExclusiveStoryBadge";
 // -----------------------------------------------------------------------------
@@ -69,8 +259,8 @@ const corsOptions: cors.CorsOptions = {
   credentials: true, // allow cookies/Authorization with credentials mode
   methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
   // explicitly allow common headers only
-  allowedHeaders: ["Content-Type", "Authorization", "X-Requested-With", "Accept"],
-  exposedHeaders: ["Content-Length"],
+  allowedHeaders: ["Content-Type", "Authorization", "X-Requested-With", "Accept", "X-CSRF-Token"],
+  exposedHeaders: ["Content-Length", "RateLimit-Limit", "RateLimit-Remaining", "RateLimit-Reset", "RateLimit-Policy", "Retry-After"],
 };
 
 // -----------------------------------------------------------------------------
@@ -105,21 +295,35 @@ const uploadAvatar = multer({
   },
 });
 
+// Book packages stay in memory: the importer reads them and uploads the media itself
+const uploadBookPackage = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_PACKAGE_BYTES, files: 1 },
+  fileFilter: (req, file, cb) => {
+    if (/\.zip$/i.test(file.originalname) || /zip/.test(file.mimetype)) return cb(null, true);
+    cb(new Error("Upload the .zip book package"));
+  },
+});
+
 // -----------------------------------------------------------------------------
 // Auth helpers
 // -----------------------------------------------------------------------------
 
 const authenticate = async (req: Request, res: Response, next: Function) => {
-  const authHeader = req.headers.authorization;
-  if (!authHeader?.startsWith("Bearer ")) {
+  // httpOnly session cookie, or a Bearer header while clients migrate
+  const { token, viaCookie } = tokenFromRequest(req);
+  if (!token) {
     return res.status(401).json({
       success: false,
-      message: "Authentication required. Please provide a valid Bearer token.",
+      message: "Authentication required. Please log in.",
     });
   }
-  const token = authHeader.split(" ")[1];
-  if (!token) {
-    return res.status(401).json({ success: false, message: "Authentication token is missing." });
+  if (viaCookie && !hasValidCsrfToken(req)) {
+    return res.status(403).json({
+      success: false,
+      message: "Missing or invalid CSRF token. Please reload the page and try again.",
+      csrfFailed: true,
+    });
   }
   try {
     const decoded = jwt.verify(token, JWT_SECRET) as jwt.JwtPayload;
@@ -130,9 +334,34 @@ const authenticate = async (req: Request, res: Response, next: Function) => {
 
     const user = await db.query.users.findFirst({
       where: eq(schema.users.id, userId),
-      columns: { id: true, role: true, email: true, passwordChangedAt: true },
+      columns: { id: true, role: true, email: true, passwordChangedAt: true, deletedAt: true },
     });
     if (!user) return res.status(401).json({ success: false, message: "User not found." });
+    if (user.deletedAt) {
+      return res.status(401).json({ success: false, message: "This account is scheduled for deletion." });
+    }
+
+    // every token must map to a live row in user_sessions (revoked on logout-all / force sign-out)
+    const sessionId = typeof decoded.sid === "string" ? decoded.sid : null;
+    const session = sessionId ? await findActiveSession(sessionId, user.id) : null;
+    if (!sessionId || !session) {
+      return res.status(401).json({
+        success: false,
+        message: "Session has been signed out. Please log in again.",
+      });
+    }
+
+    // sliding sessions: no refresh for longer than the idle timeout signs the device out
+    const idleTimeoutMinutes = await getIdleTimeoutMinutes();
+    if (sessionDeadline(session, idleTimeoutMinutes) <= new Date()) {
+      await revokeSession(sessionId);
+      await recordAuthEvent(req, { type: "session_timeout", userId: user.id, metadata: { idleTimeoutMinutes } });
+      return res.status(401).json({
+        success: false,
+        message: "You were signed out after a period of inactivity. Please log in again.",
+        sessionExpired: true,
+      });
+    }
 
     if (user.passwordChangedAt && decoded.iat) {
       const tokenIssuedAt = new Date(decoded.iat * 1000);
@@ -144,7 +373,67 @@ const authenticate = async (req: Request, res: Response, next: Function) => {
       }
     }
 
-    (req as any).user = { id: user.id, role: user.role, email: user.email };
+    // admins forced to enroll in 2FA get a token that only reaches the enrollment endpoints
+    const twoFactorSetupRequired = decoded.tfaSetup === true;
+    if (twoFactorSetupRequired && !TWO_FACTOR_SETUP_PATHS.some((p) => req.originalUrl.startsWith(p))) {
+      return res.status(403).json({
+        success: false,
+        message: "Two-factor authentication must be set up before continuing.",
+        twoFactorSetupRequired: true,
+      });
+    }
+
+    // expired passwords: the token only reaches the change-password endpoint until it is changed
+    const passwordChangeRequired = decoded.pwdChange === true;
+    if (passwordChangeRequired && !PASSWORD_CHANGE_PATHS.some((p) => req.originalUrl.startsWith(p))) {
+      return res.status(403).json({
+        success: false,
+        message: "Your password has expired. Please choose a new one before continuing.",
+        passwordChangeRequired: true,
+      });
+    }
+
+    // parents only reach their portal and their own account endpoints
+    if (user.role === "parent" && !isParentApiPath(req)) {
+      return res.status(403).json({ success: false, message: "Access denied" });
+    }
+
+    // "view as user": the admin behind the token must still be an active admin;
+    // every request is audited and account-level/destructive calls are refused
+    const impersonatorId = typeof decoded.imp === "number" ? decoded.imp : null;
+    if (impersonatorId) {
+      const admin = await db.query.users.findFirst({
+        where: eq(schema.users.id, impersonatorId),
+        columns: { id: true, role: true, deletedAt: true },
+      });
+      if (!admin || admin.role !== "admin" || admin.deletedAt) {
+        return res.status(401).json({ success: false, message: "Impersonation session is no longer valid." });
+      }
+
+      const audit = { adminId: admin.id, targetUserId: user.id, sessionId };
+      if (isBlockedWhileImpersonating(req)) {
+        await recordImpersonationAction(req, { ...audit, statusCode: 403, blocked: true });
+        return res.status(403).json({
+          success: false,
+          message: "This action is not available while viewing as another user.",
+          impersonationBlocked: true,
+        });
+      }
+      res.on("finish", () => {
+        void recordImpersonationAction(req, { ...audit, statusCode: res.statusCode });
+      });
+    }
+
+    (req as any).user = {
+      id: user.id,
+      role: user.role,
+      email: user.email,
+      sessionId,
+      twoFactorSetupRequired,
+      passwordChangeRequired,
+      impersonatorId,
+      viaCookie,
+    };
     return next();
   } catch (error) {
     let message = "Invalid or expired token";
@@ -154,6 +443,56 @@ const authenticate = async (req: Request, res: Response, next: Function) => {
   }
 };
 
+// Endpoints a `tfaSetup` token may call
+const TWO_FACTOR_SETUP_PATHS = [
+  "/api/user/2fa",
+  "/api/user/auth-events",
+  "/api/auth/user",
+  "/api/auth/logout",
+  "/api/auth/session",
+  "/api/user/me",
+];
+
+// Endpoints a `pwdChange` token (expired password) may call
+const PASSWORD_CHANGE_PATHS = ["/api/user/password", "/api/auth/user", "/api/auth/logout", "/api/auth/session", "/api/user/me"];
+
+// Sign a JWT and register its session row so it can be revoked later
+async function issueAuthToken(
+  user: { id: number; email?: string; role: string },
+  expiresIn: string,
+  req?: Request,
+  extraClaims: Record<string, unknown> = {}
+): Promise<string> {
+  const sessionId = newSessionId();
+  const token = jwt.sign({ ...extraClaims, id: user.id, email: user.email, role: user.role, sid: sessionId }, JWT_SECRET, {
+    expiresIn,
+  } as jwt.SignOptions);
+  const { exp } = jwt.decode(token) as jwt.JwtPayload;
+  await createSession({
+    sessionId,
+    userId: user.id,
+    expiresAt: new Date((exp ?? 0) * 1000),
+    req,
+    impersonatorId: typeof extraClaims.imp === "number" ? extraClaims.imp : null,
+  });
+  return token;
+}
+
+// Re-sign the token of a live session (sliding sessions) and push its expiry out
+async function refreshAuthToken(
+  user: { id: number; email?: string; role: string },
+  sessionId: string,
+  expiresIn: string
+): Promise<{ token: string; expiresAt: Date }> {
+  const token = jwt.sign({ id: user.id, email: user.email, role: user.role, sid: sessionId }, JWT_SECRET, {
+    expiresIn,
+  } as jwt.SignOptions);
+  const { exp } = jwt.decode(token) as jwt.JwtPayload;
+  const expiresAt = new Date((exp ?? 0) * 1000);
+  await touchSession(sessionId, expiresAt);
+  return { token, expiresAt };
+}
+
 const authorize = (roles: string[]) => {
   return (req: Request, res: Response, next: Function) => {
     const user = (req as any).user;
@@ -175,11 +514,21 @@ const requireAdmin = (req: any, res: any, next: any) => {
   next();
 };
 
+// `.own` permission but not the user's book (see requirePermission + canActOnBook)
+const bookForbidden = (res: Response) =>
+  res.status(403).json({ success: false, message: "You can only change books you added" });
+
 let maintenanceMode = false;
 
-function isStrongPassword(password: string): boolean {
-  const strongRegex = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[\W_]).{8,}$/;
-  return strongRegex.test(password);
+// Sign-in identifier: an email, or a username for accounts without a real
+// email (bulk-imported students). Both are unique case-insensitively.
+function findUserByLogin(identifier: string) {
+  const id = identifier.trim().toLowerCase();
+  return db.query.users.findFirst({
+    where: id.includes("@")
+      ? sql`lower(${schema.users.email}) = ${id}`
+      : sql`lower(${schema.users.username}) = ${id}`,
+  });
 }
 
 export async function approveStudent(studentId: number) {
@@ -214,23 +563,130 @@ const RL_WINDOW_MS = Number(process.env.RATE_LIMIT_WINDOW_MS ?? 10 * 60 * 1000);
 const RL_MAX       = Number(process.env.RATE_LIMIT_MAX ?? 5);
 
 const resendVerifyLimiter = simpleRateLimit({
+  name: "resend-verification",
   windowMs: RL_WINDOW_MS,
   max: RL_MAX,
   message: "Too many verification emails. Please try again later."
 });
 
 const forgotPasswordLimiter = simpleRateLimit({
+  name: "forgot-password",
   windowMs: RL_WINDOW_MS,
   max: RL_MAX,
   message: "Too many reset requests. Please try again later."
 });
 
 const securityResetLimiter = simpleRateLimit({
+  name: "security-reset",
+  windowMs: RL_WINDOW_MS,
+  max: RL_MAX,
+  message: "Too many attempts. Please try again later."
+});
+
+const twoFactorLimiter = simpleRateLimit({
+  name: "two-factor",
+  windowMs: RL_WINDOW_MS,
+  max: RL_MAX * 2,
+  message: "Too many verification attempts. Please try again later."
+});
+
+const joinCodeLimiter = simpleRateLimit({
+  name: "join-code",
+  windowMs: RL_WINDOW_MS,
+  max: RL_MAX * 4,
+  message: "Too many class code checks. Please try again later."
+});
+
+const parentInviteLimiter = simpleRateLimit({
+  name: "parent-invite",
+  windowMs: RL_WINDOW_MS,
+  max: RL_MAX * 4,
+  keyer: (req) => String(req.ip || "unknown").slice(0, 100),
+  message: "Too many invite code checks. Please try again later."
+});
+
+// shared classroom devices sit behind one IP, so these are per class code + IP and
+// sized for a whole class (maxClassSize tops out at 50) signing in together; the
+// per-student lockout is what stops PIN/picture guessing
+const CLASS_SIGN_IN_SEATS = 50;
+const classCodeKey = (req: Request) =>
+  `${String(req.ip || "unknown").slice(0, 100)}::${normalizeJoinCode(req.params?.code)}`;
+
+const classRosterLimiter = simpleRateLimit({
+  name: "class-roster",
+  windowMs: RL_WINDOW_MS,
+  max: CLASS_SIGN_IN_SEATS * 4,
+  keyer: classCodeKey,
+  message: "Too many requests from this device. Please wait a few minutes."
+});
+
+const classSignInLimiter = simpleRateLimit({
+  name: "class-sign-in",
+  windowMs: RL_WINDOW_MS,
+  max: CLASS_SIGN_IN_SEATS * CLASS_LOGIN_MAX_ATTEMPTS,
+  keyer: classCodeKey,
+  message: "Too many sign-in attempts from this device. Please wait a few minutes."
+});
+
+const resetCodeLimiter = simpleRateLimit({
+  name: "reset-code",
   windowMs: RL_WINDOW_MS,
   max: RL_MAX,
+  keyer: (req) => String(req.ip || "unknown").slice(0, 100),
   message: "Too many attempts. Please try again later."
 });
 
+const restoreAccountLimiter = simpleRateLimit({
+  name: "restore-account",
+  windowMs: RL_WINDOW_MS,
+  max: RL_MAX,
+  message: "Too many restore attempts. Please try again later."
+});
+
+// per IP + username; the per-account lockout (maxLoginAttempts) still applies on top
+const loginLimiter = simpleRateLimit({
+  name: "login",
+  windowMs: RL_WINDOW_MS,
+  max: RL_MAX * 2,
+  message: "Too many sign-in attempts. Please try again later."
+});
+
+// per IP + email/username, so a class signing up with a join code behind one school
+// address isn't blocked; the per-IP policy below still caps mass sign-ups
+const registerLimiter = simpleRateLimit({
+  name: "register",
+  windowMs: RL_WINDOW_MS,
+  max: RL_MAX,
+  message: "Too many sign-up attempts. Please try again later."
+});
+
+const registerNetworkLimiter = simpleRateLimit({
+  name: "register-network",
+  windowMs: RL_WINDOW_MS,
+  max: RL_MAX * 30,
+  keyer: (req) => String(req.ip || "unknown").slice(0, 100),
+  message: "Too many accounts created from this network. Please try again later."
+});
+
+// signed-in routes below are keyed by user (run after authenticate)
+const userKey = (req: Request) => `user:${(req as any).user?.id ?? String(req.ip || "unknown").slice(0, 100)}`;
+
+const uploadLimiter = simpleRateLimit({
+  name: "upload",
+  windowMs: RL_WINDOW_MS,
+  max: RL_MAX * 12,
+  keyer: userKey,
+  message: "Too many uploads. Please wait a few minutes."
+});
+
+const quizAttemptLimiter = simpleRateLimit({
+  name: "quiz-attempt",
+  windowMs: RL_WINDOW_MS,
+  max: RL_MAX * 6,
+  keyer: userKey,
+  message: "Too many quiz submissions. Please wait a few minutes."
+});
+
 const sha256 = (v: string) => crypto.createHash("sha256").update(v).digest("hex");
 
 
@@ -319,6 +775,8 @@ export function setupRoutes(app: Express): Server {
 app.use(cors(corsOptions));
 // ensure preflight gets headers
 app.options("*", cors(corsOptions));
+// httpOnly cookie sessions (see utils/cookieSession.ts)
+app.use("/api", cookieSessionMiddleware(JWT_SECRET));
 
   // =========================
   // Profile
@@ -426,7 +884,7 @@ app.options("*", cors(corsOptions));
   });
 
   // Avatar upload -> Cloudinary
-  app.post("/api/user/avatar", authenticate, uploadAvatar.single("avatar"), async (req: any, res) => {
+  app.post("/api/user/avatar", authenticate, uploadLimiter, uploadAvatar.single("avatar"), async (req: any, res) => {
     try {
       const userId = req.user?.id;
       if (!req.file) return res.status(400).json({ success: false, message: "No file uploaded" });
@@ -446,7 +904,7 @@ app.options("*", cors(corsOptions));
     }
   });
    
-app.post("/api/upload", authenticate, (req, res) => {
+app.post("/api/upload", authenticate, uploadLimiter, (req, res) => {
   // 🔐 Optional: uncomment if you want only teachers/admins to upload
   // if (!["admin", "teacher"].includes((req as any).user?.role)) {
   //   return res.status(403).json({ success: false, error: "Forbidden" });
@@ -459,6 +917,16 @@ app.post("/api/upload", authenticate, (req, res) => {
   // =========================
   // Password / Security
   // =========================
+  // Public: the rules the register / reset / change-password forms check live
+  app.get("/api/auth/password-policy", async (_req, res) => {
+    try {
+      res.json({ success: true, policy: await loadPasswordPolicy() });
+    } catch (error) {
+      console.error("Get password policy error:", error);
+      res.status(500).json({ success: false, message: "Failed to load password policy" });
+    }
+  });
+
   app.put("/api/user/password", authenticate, async (req, res) => {
     try {
       const userId = (req as any).user?.id;
@@ -467,149 +935,1720 @@ app.post("/api/upload", authenticate, (req, res) => {
       if (!currentPassword || !newPassword)
         return res.status(400).json({ success: false, message: "Current password and new password are required" });
 
-      if (newPassword.length < 6)
-        return res.status(400).json({ success: false, message: "New password must be at least 6 characters long" });
-
       const user = await db.query.users.findFirst({ where: eq(schema.users.id, userId) });
       if (!user) return res.status(404).json({ success: false, message: "User not found" });
 
       const validPassword = await bcrypt.compare(currentPassword, user.password);
-      if (!validPassword) return res.status(400).json({ success: false, message: "Current password is incorrect" });
+      if (!validPassword) {
+        await recordAuthEvent(req, { type: "password_change_failed", userId, identifier: user.email });
+        return res.status(400).json({ success: false, message: "Current password is incorrect" });
+      }
+
+      const policy = await loadPasswordPolicy();
+      const policyError = await checkNewPassword(String(newPassword), { policy, userId, currentHash: user.password });
+      if (policyError) return res.status(400).json({ success: false, message: policyError });
 
       const hashedNewPassword = await bcrypt.hash(newPassword, 10);
+      await rememberPreviousPassword(userId, user.password, policy);
       await db.update(schema.users).set({ password: hashedNewPassword, passwordChangedAt: new Date() }).where(eq(schema.users.id, userId));
+      const revokedSessions = await revokeUserSessions(userId);
+      await recordAuthEvent(req, {
+        type: "password_changed",
+        userId,
+        identifier: user.email,
+        metadata: { revokedSessions },
+      });
 
-      res.json({ success: true, message: "Password changed successfully" });
+      res.json({ success: true, message: "Password changed successfully", revokedSessions });
     } catch (error) {
       console.error("Change password error:", error);
       res.status(500).json({ success: false, message: "Failed to change password" });
     }
   });
 
-// --- helpers (place near other route helpers) ---
-const toCanonicalGrade = (g: string): string => {
-  const v = String(g || "").trim();
-  if (!v) return v;
-  // Kinder / Kindergarten → "K"
-  if (/^k(in(der(garten)?)?)?$/i.test(v) || /^kinder$/i.test(v)) return "K";
-  // "Grade 1" → "1", "grade 6" → "6"
-  const m = v.match(/\d+/);
-  if (m) return m[0]; // ✅ FIXED: was m[1], should be m[0]
-  // Already canonical? allow "K" or plain "1".."12"
-  if (/^(K|[0-9]{1,2})$/i.test(v)) return v.toUpperCase();
-  return v; // fallback
-};
-
-
-const toLabelGrade = (canon: string): string => {
-  if (!canon) return canon;
-  if (canon.toUpperCase() === "K") return "Kinder";
-  if (/^[0-9]{1,2}$/.test(canon)) return `Grade ${canon}`;
-  // If someone previously stored "Grade 3", pass it through for backward compatibility
-  if (/^grade\s*\d+$/i.test(canon)) return canon.replace(/^grade\s*/i, (m) => m[0].toUpperCase() + m.slice(1));
-  return canon;
-};
+  // =========================
+  // Two-factor authentication (TOTP)
+  // =========================
+  const isTwoFactorRequired = async (role: string) => {
+    if (role !== "admin") return false;
+    const settings = await db.query.systemSettings.findFirst({ columns: { requireAdminTwoFactor: true } });
+    return !!settings?.requireAdminTwoFactor;
+  };
 
-const uniq = <T,>(arr: T[]) => Array.from(new Set(arr));
+  app.get("/api/user/2fa", authenticate, async (req, res) => {
+    try {
+      const { id: userId, role } = (req as any).user;
+      const user = await db.query.users.findFirst({
+        where: eq(schema.users.id, userId),
+        columns: { twoFactorEnabled: true, twoFactorRecoveryCodes: true },
+      });
+      if (!user) return res.status(404).json({ success: false, message: "User not found" });
 
-// =========================
-// Teaching settings
-// =========================
-app.get("/api/user/teaching-settings", authenticate, async (req, res) => {
-  try {
-    const userId = (req as any).user?.id;
-    const userRole = (req as any).user?.role;
-    if (userRole !== "teacher" && userRole !== "admin") {
-      return res.status(403).json({ success: false, message: "Only teachers can access teaching settings" });
+      res.json({
+        success: true,
+        available: role === "admin" || role === "teacher",
+        enabled: user.twoFactorEnabled,
+        required: await isTwoFactorRequired(role),
+        recoveryCodesRemaining: user.twoFactorRecoveryCodes?.length ?? 0,
+      });
+    } catch (error) {
+      console.error("Get 2FA status error:", error);
+      res.status(500).json({ success: false, message: "Failed to load two-factor status" });
     }
+  });
 
-    const existing = await db
-      .select()
-      .from(schema.teachingSettings)
-      .where(eq(schema.teachingSettings.userId, userId))
-      .limit(1);
-
-    const settings = existing[0] || {
-      preferredGrades: ["Grade 5"],
-      subjects: ["Storybook"], // ✅ default includes Storybook
-      maxClassSize: 30,
-    };
-
-    const preferredGrades = Array.isArray(settings.preferredGrades)
-      ? settings.preferredGrades.filter((x: any) => typeof x === "string" && x.trim() !== "")
-      : [];
+  // Start enrollment: store a new (not yet active) secret and return the QR code
+  app.post("/api/user/2fa/setup", authenticate, authorize(["admin", "teacher"]), async (req, res) => {
+    try {
+      const userId = (req as any).user.id;
+      const user = await db.query.users.findFirst({
+        where: eq(schema.users.id, userId),
+        columns: { email: true, twoFactorEnabled: true },
+      });
+      if (!user) return res.status(404).json({ success: false, message: "User not found" });
+      if (user.twoFactorEnabled) {
+        return res.status(400).json({ success: false, message: "Two-factor authentication is already enabled" });
+      }
 
-    // ✅ normalize subjects (Storybook variations -> "Storybook")
-    const subjects = normalizeSubjects(settings.subjects);
+      const secret = generateTotpSecret();
+      await db
+        .update(schema.users)
+        .set({ twoFactorSecret: encryptSecret(secret), twoFactorLastStep: null })
+        .where(eq(schema.users.id, userId));
 
-    res.json({
-      success: true,
-      settings: {
-        preferredGrades,
-        subjects,
-        maxClassSize: typeof settings.maxClassSize === "number" ? settings.maxClassSize : 30,
-      },
-    });
-  } catch (error) {
-    console.error("Get teaching settings error:", error);
-    res.status(500).json({ success: false, message: "Failed to fetch teaching settings" });
-  }
-});
+      const url = otpauthUrl(user.email, secret);
+      const qrCode = await QRCode.toDataURL(url, { margin: 1, width: 220 });
 
-app.put("/api/user/teaching-settings", authenticate, async (req, res) => {
-  try {
-    const userId = (req as any).user?.id;
-    const userRole = (req as any).user?.role;
-    if (userRole !== "teacher" && userRole !== "admin") {
-      return res.status(403).json({ success: false, message: "Only teachers can update teaching settings" });
+      res.json({ success: true, secret, otpauthUrl: url, qrCode });
+    } catch (error) {
+      console.error("2FA setup error:", error);
+      res.status(500).json({ success: false, message: "Failed to start two-factor setup" });
     }
+  });
 
-    const payload = {
-      preferredGrades: Array.isArray(req.body?.preferredGrades)
-        ? req.body.preferredGrades.filter((x: any) => typeof x === "string" && x.trim() !== "")
-        : [],
-      // ✅ normalize subjects so “Storybooks” etc. -> “Storybook”
-      subjects: normalizeSubjects(req.body?.subjects),
-      maxClassSize: Number.isFinite(Number(req.body?.maxClassSize))
-        ? Number(req.body.maxClassSize)
-        : 30,
-    };
+  // Finish enrollment with a code from the app; returns recovery codes (shown once)
+  app.post("/api/user/2fa/enable", authenticate, authorize(["admin", "teacher"]), twoFactorLimiter, async (req, res) => {
+    try {
+      const { id: userId, sessionId, twoFactorSetupRequired } = (req as any).user;
+      const { code } = req.body ?? {};
 
-    const validatedData = schema.updateTeachingSettingsSchema.parse(payload);
+      const user = await db.query.users.findFirst({ where: eq(schema.users.id, userId) });
+      if (!user) return res.status(404).json({ success: false, message: "User not found" });
+      if (user.twoFactorEnabled) {
+        return res.status(400).json({ success: false, message: "Two-factor authentication is already enabled" });
+      }
+      if (!user.twoFactorSecret) {
+        return res.status(400).json({ success: false, message: "Start two-factor setup first" });
+      }
 
-    const existing = await db
-      .select()
-      .from(schema.teachingSettings)
-      .where(eq(schema.teachingSettings.userId, userId))
-      .limit(1);
+      const step = verifyTotp(decryptSecret(user.twoFactorSecret), String(code ?? ""));
+      if (step === null) {
+        return res.status(400).json({ success: false, message: "Invalid verification code" });
+      }
 
-    if (existing.length > 0) {
+      const { codes, hashes } = generateRecoveryCodes();
       await db
-        .update(schema.teachingSettings)
-        .set({ ...validatedData, updatedAt: new Date() })
-        .where(eq(schema.teachingSettings.userId, userId));
-    } else {
-      await db.insert(schema.teachingSettings).values({
-        userId,
-        preferredGrades: validatedData.preferredGrades || [],
-        subjects: validatedData.subjects || [],
-        maxClassSize: validatedData.maxClassSize || 30,
+        .update(schema.users)
+        .set({ twoFactorEnabled: true, twoFactorRecoveryCodes: hashes, twoFactorLastStep: step })
+        .where(eq(schema.users.id, userId));
+      await recordAuthEvent(req, { type: "two_factor_enabled", userId, identifier: user.email });
+
+      // sign out other devices; swap an enrollment-only token for a normal one
+      let token: string | undefined;
+      if (twoFactorSetupRequired) {
+        await revokeUserSessions(userId);
+        const settings = await db.query.systemSettings.findFirst();
+        token = await issueAuthToken(user, sessionTimeoutFor(user.role, settings ?? { sessionTimeoutMinutes: 60 }), req);
+        if ((req as any).user.viaCookie) {
+          await replaceSessionToken(req, res, token);
+          token = undefined;
+        }
+      } else {
+        await revokeUserSessions(userId, { exceptSessionId: sessionId });
+      }
+
+      res.json({ success: true, message: "Two-factor authentication enabled", recoveryCodes: codes, token });
+    } catch (error) {
+      console.error("2FA enable error:", error);
+      res.status(500).json({ success: false, message: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  // Verifies password + a current code (or recovery code) before sensitive 2FA changes
+  const checkTwoFactorProof = async (
+    user: schema.User,
+    body: { password?: string; code?: string; recoveryCode?: string }
+  ): Promise<string | null> => {
+    if (!body.password || !(await bcrypt.compare(String(body.password), user.password))) {
+      return "Password is incorrect";
+    }
+    if (!user.twoFactorSecret) return "Two-factor authentication is not enabled";
+    if (body.code) {
+      const step = verifyTotp(decryptSecret(user.twoFactorSecret), String(body.code), {
+        afterStep: user.twoFactorLastStep,
       });
+      if (step === null) return "Invalid verification code";
+      // same as sign-in: a code is good once, so it can't be replayed within its window
+      await db.update(schema.users).set({ twoFactorLastStep: step }).where(eq(schema.users.id, user.id));
+      return null;
+    }
+    const remaining = body.recoveryCode
+      ? consumeRecoveryCode(user.twoFactorRecoveryCodes ?? [], String(body.recoveryCode))
+      : null;
+    if (remaining) {
+      await db.update(schema.users).set({ twoFactorRecoveryCodes: remaining }).where(eq(schema.users.id, user.id));
+      return null;
     }
+    return "Invalid verification code";
+  };
 
-    res.json({ success: true, message: "Teaching settings saved successfully" });
-  } catch (error) {
-    console.error("Update teaching settings error:", error);
-    res.status(500).json({ success: false, message: "Failed to save teaching settings" });
-  }
-});
+  app.post("/api/user/2fa/disable", authenticate, twoFactorLimiter, async (req, res) => {
+    try {
+      const { id: userId, role } = (req as any).user;
+      const user = await db.query.users.findFirst({ where: eq(schema.users.id, userId) });
+      if (!user) return res.status(404).json({ success: false, message: "User not found" });
+      if (!user.twoFactorEnabled) {
+        return res.status(400).json({ success: false, message: "Two-factor authentication is not enabled" });
+      }
+      if (await isTwoFactorRequired(role)) {
+        return res
+          .status(400)
+          .json({ success: false, message: "Two-factor authentication is required for admin accounts" });
+      }
 
+      const problem = await checkTwoFactorProof(user, req.body ?? {});
+      if (problem) {
+        await recordAuthEvent(req, { type: "two_factor_failed", userId, identifier: user.email, metadata: { action: "disable" } });
+        return res.status(400).json({ success: false, message: problem });
+      }
 
-  // =========================
-  // System settings (Admin)
-  // =========================
-  app.get("/api/admin/system-settings", authenticate, requireAdmin, async (req, res) => {
-    try {
+      await db
+        .update(schema.users)
+        .set({ twoFactorEnabled: false, twoFactorSecret: null, twoFactorRecoveryCodes: null, twoFactorLastStep: null })
+        .where(eq(schema.users.id, userId));
+      await recordAuthEvent(req, { type: "two_factor_disabled", userId, identifier: user.email });
+
+      res.json({ success: true, message: "Two-factor authentication disabled" });
+    } catch (error) {
+      console.error("2FA disable error:", error);
+      res.status(500).json({ success: false, message: "Failed to disable two-factor authentication" });
+    }
+  });
+
+  // Replace all recovery codes (old ones stop working)
+  app.post("/api/user/2fa/recovery-codes", authenticate, twoFactorLimiter, async (req, res) => {
+    try {
+      const userId = (req as any).user.id;
+      const user = await db.query.users.findFirst({ where: eq(schema.users.id, userId) });
+      if (!user) return res.status(404).json({ success: false, message: "User not found" });
+      if (!user.twoFactorEnabled) {
+        return res.status(400).json({ success: false, message: "Two-factor authentication is not enabled" });
+      }
+
+      const problem = await checkTwoFactorProof(user, req.body ?? {});
+      if (problem) return res.status(400).json({ success: false, message: problem });
+
+      const { codes, hashes } = generateRecoveryCodes();
+      await db.update(schema.users).set({ twoFactorRecoveryCodes: hashes }).where(eq(schema.users.id, userId));
+
+      res.json({ success: true, recoveryCodes: codes });
+    } catch (error) {
+      console.error("2FA recovery codes error:", error);
+      res.status(500).json({ success: false, message: "Failed to regenerate recovery codes" });
+    }
+  });
+
+  // =========================
+  // Classes & sections
+  // =========================
+  const GRADE_LEVELS = schema.gradeLevelEnum.enumValues;
+
+  // teachers: classes they teach; admins: all (?schoolYear=2026-2027, ?archived=1)
+  app.get("/api/classes", authenticate, requirePermission("classes.manage"), async (req, res) => {
+    try {
+      const schoolYear = isSchoolYear(req.query.schoolYear) ? req.query.schoolYear : undefined;
+      const classes = await listClasses((req as any).user, { schoolYear, includeArchived: req.query.archived === "1" });
+      res.json({ success: true, classes, currentSchoolYear: currentSchoolYear() });
+    } catch (error) {
+      console.error("List classes error:", error);
+      res.status(500).json({ success: false, message: "Failed to load classes" });
+    }
+  });
+
+  // Body: { name, gradeLevel, schoolYear?, teacherEmail? (admins) }; a teacher teaches the classes they create
+  app.post("/api/classes", authenticate, requirePermission("classes.manage"), async (req, res) => {
+    try {
+      const me = (req as any).user;
+      const name = typeof req.body?.name === "string" ? req.body.name.trim().slice(0, 100) : "";
+      const gradeLevel = toCanonicalGrade(String(req.body?.gradeLevel ?? ""));
+      const schoolYear = req.body?.schoolYear ?? currentSchoolYear();
+
+      if (!name) return res.status(400).json({ success: false, message: "Class name is required" });
+      if (!(GRADE_LEVELS as readonly string[]).includes(gradeLevel)) {
+        return res.status(400).json({ success: false, message: "Invalid grade level" });
+      }
+      if (!isSchoolYear(schoolYear)) {
+        return res.status(400).json({ success: false, message: "School year must look like 2026-2027" });
+      }
+
+      let teacherId: number | null = me.role === "teacher" ? me.id : null;
+      if (me.role !== "teacher" && req.body?.teacherEmail) {
+        const teacher = await findClassTeacher({ email: String(req.body.teacherEmail) });
+        if (!teacher) return res.status(404).json({ success: false, message: "No approved teacher with that email" });
+        teacherId = teacher.id;
+      }
+
+      const created = await db.transaction(async (tx) => {
+        const [row] = await tx
+          .insert(schema.classes)
+          .values({ name, gradeLevel: gradeLevel as (typeof GRADE_LEVELS)[number], schoolYear, createdById: me.id })
+          .returning();
+        if (teacherId) await tx.insert(schema.classTeachers).values({ classId: row.id, teacherId });
+        return row;
+      });
+
+      res.status(201).json({ success: true, class: created });
+    } catch (error) {
+      console.error("Create class error:", error);
+      res.status(500).json({ success: false, message: "Failed to create class" });
+    }
+  });
+
+  // Body: any of { name, gradeLevel, schoolYear, archived: boolean }
+  app.patch("/api/classes/:id", authenticate, requirePermission("classes.manage"), async (req, res) => {
+    try {
+      const id = parseNumericId(req.params.id);
+      if (!id) return res.status(400).json({ success: false, message: "Invalid class id" });
+      const cls = await findManagedClass((req as any).user, id);
+      if (!cls) return res.status(404).json({ success: false, message: "Class not found" });
+
+      const updates: Partial<typeof schema.classes.$inferInsert> = { updatedAt: new Date() };
+      if (req.body?.name !== undefined) {
+        const name = String(req.body.name).trim().slice(0, 100);
+        if (!name) return res.status(400).json({ success: false, message: "Class name is required" });
+        updates.name = name;
+      }
+      if (req.body?.gradeLevel !== undefined) {
+        const gradeLevel = toCanonicalGrade(String(req.body.gradeLevel));
+        if (!(GRADE_LEVELS as readonly string[]).includes(gradeLevel)) {
+          return res.status(400).json({ success: false, message: "Invalid grade level" });
+        }
+        updates.gradeLevel = gradeLevel as (typeof GRADE_LEVELS)[number];
+      }
+      if (req.body?.schoolYear !== undefined) {
+        if (!isSchoolYear(req.body.schoolYear)) {
+          return res.status(400).json({ success: false, message: "School year must look like 2026-2027" });
+        }
+        updates.schoolYear = req.body.schoolYear;
+      }
+      if (typeof req.body?.archived === "boolean") updates.archivedAt = req.body.archived ? new Date() : null;
+
+      const [updated] = await db.update(schema.classes).set(updates).where(eq(schema.classes.id, id)).returning();
+      res.json({ success: true, class: updated });
+    } catch (error) {
+      console.error("Update class error:", error);
+      res.status(500).json({ success: false, message: "Failed to update class" });
+    }
+  });
+
+  app.delete("/api/classes/:id", authenticate, requirePermission("classes.manage"), async (req, res) => {
+    try {
+      const id = parseNumericId(req.params.id);
+      if (!id) return res.status(400).json({ success: false, message: "Invalid class id" });
+      const cls = await findManagedClass((req as any).user, id);
+      if (!cls) return res.status(404).json({ success: false, message: "Class not found" });
+
+      await deleteClass(id);
+      res.json({ success: true, message: "Class deleted" });
+    } catch (error) {
+      console.error("Delete class error:", error);
+      res.status(500).json({ success: false, message: "Failed to delete class" });
+    }
+  });
+
+  app.get("/api/classes/:id/students", authenticate, requirePermission("classes.manage"), async (req, res) => {
+    try {
+      const id = parseNumericId(req.params.id);
+      if (!id) return res.status(400).json({ success: false, message: "Invalid class id" });
+      const cls = await findManagedClass((req as any).user, id);
+      if (!cls) return res.status(404).json({ success: false, message: "Class not found" });
+
+      const [students, teachers, capacity] = await Promise.all([
+        classRosterStudents(id),
+        db.query.classTeachers.findMany({
+          where: eq(schema.classTeachers.classId, id),
+          with: { teacher: { columns: { id: true, firstName: true, lastName: true, email: true } } },
+        }),
+        classCapacity(id),
+      ]);
+      res.json({ success: true, class: cls, students, teachers: teachers.map((t) => t.teacher), capacity });
+    } catch (error) {
+      console.error("Get class roster error:", error);
+      res.status(500).json({ success: false, message: "Failed to load class roster" });
+    }
+  });
+
+  // Approved students not on the roster, for adding (?search=, ?grade=all to look beyond the class's grade)
+  app.get("/api/classes/:id/candidates", authenticate, requirePermission("classes.manage"), async (req, res) => {
+    try {
+      const id = parseNumericId(req.params.id);
+      if (!id) return res.status(400).json({ success: false, message: "Invalid class id" });
+      const cls = await findManagedClass((req as any).user, id);
+      if (!cls) return res.status(404).json({ success: false, message: "Class not found" });
+
+      const conditions: any[] = [
+        eq(schema.users.role, "student"),
+        eq(schema.users.approvalStatus, "approved"),
+        isNull(schema.users.deletedAt),
+        notInArray(
+          schema.users.id,
+          db
+            .select({ id: schema.classStudents.studentId })
+            .from(schema.classStudents)
+            .where(eq(schema.classStudents.classId, id))
+        ),
+      ];
+      if (req.query.grade !== "all") conditions.push(eq(schema.users.gradeLevel, cls.gradeLevel));
+      const search = String(req.query.search ?? "").trim();
+      if (search) {
+        const term = escapeLike(search).slice(0, 100);
+        conditions.push(
+          or(
+            like(schema.users.firstName, `%${term}%`),
+            like(schema.users.lastName, `%${term}%`),
+            like(schema.users.username, `%${term}%`)
+          )
+        );
+      }
+
+      const students = await db.query.users.findMany({
+        where: and(...conditions),
+        columns: { id: true, firstName: true, lastName: true, username: true, gradeLevel: true },
+        orderBy: [asc(schema.users.lastName), asc(schema.users.firstName)],
+        limit: 50,
+      });
+      res.json({ success: true, students });
+    } catch (error) {
+      console.error("Class candidates error:", error);
+      res.status(500).json({ success: false, message: "Failed to load students" });
+    }
+  });
+
+  // Body: { studentIds: number[] }; refused as a whole when it would go over the class size
+  app.post("/api/classes/:id/students", authenticate, requirePermission("classes.manage"), async (req, res) => {
+    try {
+      const me = (req as any).user;
+      const id = parseNumericId(req.params.id);
+      if (!id) return res.status(400).json({ success: false, message: "Invalid class id" });
+      const cls = await findManagedClass(me, id);
+      if (!cls) return res.status(404).json({ success: false, message: "Class not found" });
+      if (cls.archivedAt) return res.status(400).json({ success: false, message: "This class is archived" });
+
+      const studentIds: number[] = Array.isArray(req.body?.studentIds)
+        ? req.body.studentIds.map(Number).filter((n: number) => Number.isInteger(n) && n > 0)
+        : [];
+      if (!studentIds.length) return res.status(400).json({ success: false, message: "Choose at least one student" });
+
+      const result = await db.transaction((tx) => enrollInClass(tx, id, studentIds, me.id));
+      if (!result.ok && result.reason === "full") {
+        return res.status(409).json({
+          success: false,
+          message: `This class is limited to ${result.capacity} students (${result.enrolled} enrolled)`,
+          capacity: result.capacity,
+          enrolled: result.enrolled,
+        });
+      }
+      if (!result.ok) {
+        return res.status(400).json({
+          success: false,
+          message: "Only approved students can be added to a class",
+          studentIds: result.studentIds,
+        });
+      }
+      res.json({ success: true, added: result.added.length });
+    } catch (error) {
+      console.error("Add class students error:", error);
+      res.status(500).json({ success: false, message: "Failed to add students" });
+    }
+  });
+
+  app.delete("/api/classes/:id/students/:studentId", authenticate, requirePermission("classes.manage"), async (req, res) => {
+    try {
+      const id = parseNumericId(req.params.id);
+      const studentId = parseNumericId(req.params.studentId);
+      if (!id || !studentId) return res.status(400).json({ success: false, message: "Invalid id(s)" });
+      const cls = await findManagedClass((req as any).user, id);
+      if (!cls) return res.status(404).json({ success: false, message: "Class not found" });
+
+      const removed = await db
+        .delete(schema.classStudents)
+        .where(and(eq(schema.classStudents.classId, id), eq(schema.classStudents.studentId, studentId)))
+        .returning({ id: schema.classStudents.id });
+      if (removed.length === 0) return res.status(404).json({ success: false, message: "Student is not in this class" });
+      res.json({ success: true, message: "Student removed from class" });
+    } catch (error) {
+      console.error("Remove class student error:", error);
+      res.status(500).json({ success: false, message: "Failed to remove student" });
+    }
+  });
+
+  // Body: { email } of an approved teacher to co-teach the class
+  app.post("/api/classes/:id/teachers", authenticate, requirePermission("classes.manage"), async (req, res) => {
+    try {
+      const id = parseNumericId(req.params.id);
+      if (!id) return res.status(400).json({ success: false, message: "Invalid class id" });
+      const cls = await findManagedClass((req as any).user, id);
+      if (!cls) return res.status(404).json({ success: false, message: "Class not found" });
+
+      const teacher = await findClassTeacher({ email: String(req.body?.email ?? "") });
+      if (!teacher) return res.status(404).json({ success: false, message: "No approved teacher with that email" });
+
+      await db.insert(schema.classTeachers).values({ classId: id, teacherId: teacher.id }).onConflictDoNothing();
+      res.json({ success: true, message: `${teacher.firstName} ${teacher.lastName} now teaches this class` });
+    } catch (error) {
+      console.error("Add class teacher error:", error);
+      res.status(500).json({ success: false, message: "Failed to add teacher" });
+    }
+  });
+
+  // a class keeps at least one teacher; teachers may remove themselves
+  app.delete("/api/classes/:id/teachers/:teacherId", authenticate, requirePermission("classes.manage"), async (req, res) => {
+    try {
+      const id = parseNumericId(req.params.id);
+      const teacherId = parseNumericId(req.params.teacherId);
+      if (!id || !teacherId) return res.status(400).json({ success: false, message: "Invalid id(s)" });
+      const cls = await findManagedClass((req as any).user, id);
+      if (!cls) return res.status(404).json({ success: false, message: "Class not found" });
+
+      const teachers = await db.query.classTeachers.findMany({
+        where: eq(schema.classTeachers.classId, id),
+        columns: { teacherId: true },
+      });
+      if (!teachers.some((t) => t.teacherId === teacherId)) {
+        return res.status(404).json({ success: false, message: "Teacher does not teach this class" });
+      }
+      if (teachers.length === 1) {
+        return res.status(400).json({ success: false, message: "A class needs at least one teacher" });
+      }
+
+      await db
+        .delete(schema.classTeachers)
+        .where(and(eq(schema.classTeachers.classId, id), eq(schema.classTeachers.teacherId, teacherId)));
+      res.json({ success: true, message: "Teacher removed from class" });
+    } catch (error) {
+      console.error("Remove class teacher error:", error);
+      res.status(500).json({ success: false, message: "Failed to remove teacher" });
+    }
+  });
+
+  // =========================
+  // Assignments
+  // =========================
+  // Shared by create/update: title, note, dueAt (ISO or null), minPercent (1–100), minQuizScore (0–100 or null)
+  function parseAssignmentFields(body: any): { error: string } | Partial<typeof schema.assignments.$inferInsert> {
+    const out: Partial<typeof schema.assignments.$inferInsert> = {};
+    if (body?.title !== undefined) out.title = String(body.title ?? "").trim().slice(0, 150) || null;
+    if (body?.note !== undefined) out.note = String(body.note ?? "").trim().slice(0, 1000) || null;
+    if (body?.dueAt !== undefined) {
+      const due = body.dueAt ? new Date(body.dueAt) : null;
+      if (due && Number.isNaN(due.getTime())) return { error: "Invalid due date" };
+      out.dueAt = due;
+    }
+    if (body?.minPercent !== undefined) {
+      const n = Number(body.minPercent);
+      if (!Number.isInteger(n) || n < 1 || n > 100) return { error: "Minimum completion must be 1–100%" };
+      out.minPercent = n;
+    }
+    if (body?.minQuizScore !== undefined) {
+      const n = body.minQuizScore === null || body.minQuizScore === "" ? null : Number(body.minQuizScore);
+      if (n !== null && (!Number.isInteger(n) || n < 0 || n > 100)) {
+        return { error: "Minimum quiz score must be 0–100%" };
+      }
+      out.minQuizScore = n;
+    }
+    return out;
+  }
+
+  // teachers: ones they made or for their classes, with status counts
+  app.get("/api/assignments", authenticate, requirePermission("assignments.manage"), async (req, res) => {
+    try {
+      const assignments = await listManagedAssignments((req as any).user);
+      res.json({ success: true, assignments });
+    } catch (error) {
+      console.error("List assignments error:", error);
+      res.status(500).json({ success: false, message: "Failed to load assignments" });
+    }
+  });
+
+  // Body: { bookIds, classId?, studentIds?, ...parseAssignmentFields }; needs a class or at least one student
+  app.post("/api/assignments", authenticate, requirePermission("assignments.manage"), async (req, res) => {
+    try {
+      const me = (req as any).user;
+      const fields = parseAssignmentFields(req.body);
+      if ("error" in fields) return res.status(400).json({ success: false, message: fields.error });
+
+      const ids = (v: unknown) =>
+        Array.isArray(v) ? Array.from(new Set(v.map(Number).filter((n) => Number.isInteger(n) && n > 0))) : [];
+      const bookIds = ids(req.body?.bookIds);
+      const studentIds = ids(req.body?.studentIds);
+      const classId = req.body?.classId ? Number(req.body.classId) : null;
+
+      if (!bookIds.length) return res.status(400).json({ success: false, message: "Choose at least one book" });
+      if (!classId && !studentIds.length) {
+        return res.status(400).json({ success: false, message: "Choose a class or at least one student" });
+      }
+
+      const books = await db.query.books.findMany({
+        where: and(inArray(schema.books.id, bookIds), isNull(schema.books.deletedAt)),
+        columns: { id: true },
+      });
+      if (books.length !== bookIds.length) return res.status(404).json({ success: false, message: "Book not found" });
+
+      if (classId) {
+        const cls = await findManagedClass(me, classId);
+        if (!cls || cls.archivedAt) return res.status(404).json({ success: false, message: "Class not found" });
+      }
+      for (const studentId of studentIds) {
+        if (!(await canSeeStudent(me, studentId))) {
+          return res.status(403).json({ success: false, message: "This student is not in your class" });
+        }
+      }
+
+      const created = await db.transaction(async (tx) => {
+        const [row] = await tx
+          .insert(schema.assignments)
+          .values({ ...fields, classId, createdById: me.id })
+          .returning();
+        await tx.insert(schema.assignmentBooks).values(bookIds.map((bookId) => ({ assignmentId: row.id, bookId })));
+        if (studentIds.length) {
+          await tx
+            .insert(schema.assignmentStudents)
+            .values(studentIds.map((studentId) => ({ assignmentId: row.id, studentId })));
+        }
+        return row;
+      });
+
+      res.status(201).json({ success: true, assignment: created });
+    } catch (error) {
+      console.error("Create assignment error:", error);
+      res.status(500).json({ success: false, message: "Failed to create assignment" });
+    }
+  });
+
+  app.patch("/api/assignments/:id", authenticate, requirePermission("assignments.manage"), async (req, res) => {
+    try {
+      const id = parseNumericId(req.params.id);
+      if (!id) return res.status(400).json({ success: false, message: "Invalid assignment id" });
+      const assignment = await findManagedAssignment((req as any).user, id);
+      if (!assignment) return res.status(404).json({ success: false, message: "Assignment not found" });
+
+      const fields = parseAssignmentFields(req.body);
+      if ("error" in fields) return res.status(400).json({ success: false, message: fields.error });
+
+      const [updated] = await db
+        .update(schema.assignments)
+        .set({ ...fields, updatedAt: new Date() })
+        .where(eq(schema.assignments.id, id))
+        .returning();
+      res.json({ success: true, assignment: updated });
+    } catch (error) {
+      console.error("Update assignment error:", error);
+      res.status(500).json({ success: false, message: "Failed to update assignment" });
+    }
+  });
+
+  app.delete("/api/assignments/:id", authenticate, requirePermission("assignments.manage"), async (req, res) => {
+    try {
+      const id = parseNumericId(req.params.id);
+      if (!id) return res.status(400).json({ success: false, message: "Invalid assignment id" });
+      const assignment = await findManagedAssignment((req as any).user, id);
+      if (!assignment) return res.status(404).json({ success: false, message: "Assignment not found" });
+
+      await deleteAssignment(id);
+      res.json({ success: true, message: "Assignment deleted" });
+    } catch (error) {
+      console.error("Delete assignment error:", error);
+      res.status(500).json({ success: false, message: "Failed to delete assignment" });
+    }
+  });
+
+  // Status grid: one row per student, one cell per book (not started / in progress / done / late)
+  app.get("/api/assignments/:id/status", authenticate, requirePermission("assignments.manage"), async (req, res) => {
+    try {
+      const id = parseNumericId(req.params.id);
+      if (!id) return res.status(400).json({ success: false, message: "Invalid assignment id" });
+      const assignment = await findManagedAssignment((req as any).user, id);
+      if (!assignment) return res.status(404).json({ success: false, message: "Assignment not found" });
+
+      const grid = await assignmentStatusGrid(assignment);
+      res.json({ success: true, assignment, ...grid });
+    } catch (error) {
+      console.error("Assignment status error:", error);
+      res.status(500).json({ success: false, message: "Failed to load assignment status" });
+    }
+  });
+
+  // Student: what they have been asked to read
+  app.get("/api/student/assignments", authenticate, authorize(["student"]), async (req, res) => {
+    try {
+      const assignments = await studentAssignments((req as any).user.id);
+      res.json({ success: true, assignments });
+    } catch (error) {
+      console.error("Student assignments error:", error);
+      res.status(500).json({ success: false, message: "Failed to load assignments" });
+    }
+  });
+
+  // =========================
+  // Announcements
+  // =========================
+  // Shared by create/update. Audience: "school" | "role" (+ audienceRole) | "grade" (+ audienceGrade)
+  // | "class" (+ audienceClassId); publishAt / expiresAt are ISO strings (publishAt null = now).
+  function parseAnnouncementFields(body: any): { error: string } | Partial<typeof schema.announcements.$inferInsert> {
+    const out: Partial<typeof schema.announcements.$inferInsert> = {};
+    if (body?.title !== undefined) {
+      const title = String(body.title ?? "").trim();
+      if (!title) return { error: "Title is required" };
+      out.title = title.slice(0, 200);
+    }
+    if (body?.body !== undefined) {
+      const text = String(body.body ?? "").trim();
+      if (!text) return { error: "Message is required" };
+      if (text.length > 5000) return { error: "Message is too long (5000 characters max)" };
+      out.body = text;
+    }
+    if (body?.kind !== undefined) {
+      if (!(schema.ANNOUNCEMENT_KINDS as readonly string[]).includes(body.kind)) return { error: "Invalid kind" };
+      out.kind = body.kind;
+    }
+    if (body?.audience !== undefined) {
+      const audience = body.audience as schema.AnnouncementAudience;
+      if (!schema.ANNOUNCEMENT_AUDIENCES.includes(audience)) return { error: "Invalid audience" };
+      out.audience = audience;
+      out.audienceRole = null;
+      out.audienceGrade = null;
+      out.audienceClassId = null;
+      if (audience === "role") {
+        if (!schema.userRoleEnum.enumValues.includes(body.audienceRole)) return { error: "Choose a role" };
+        out.audienceRole = body.audienceRole;
+      } else if (audience === "grade") {
+        if (!schema.gradeLevelEnum.enumValues.includes(body.audienceGrade)) return { error: "Choose a grade" };
+        out.audienceGrade = body.audienceGrade;
+      } else if (audience === "class") {
+        const classId = parseNumericId(String(body.audienceClassId ?? ""));
+        if (!classId) return { error: "Choose a class" };
+        out.audienceClassId = classId;
+      }
+    }
+    if (body?.pinned !== undefined) out.pinned = body.pinned === true;
+    if (body?.publishAt !== undefined) {
+      const at = body.publishAt ? new Date(body.publishAt) : new Date();
+      if (Number.isNaN(at.getTime())) return { error: "Invalid publish time" };
+      out.publishAt = at;
+    }
+    if (body?.expiresAt !== undefined) {
+      const at = body.expiresAt ? new Date(body.expiresAt) : null;
+      if (at && Number.isNaN(at.getTime())) return { error: "Invalid expiry time" };
+      out.expiresAt = at;
+    }
+    return out;
+  }
+
+  // What a poster without announcements.school may not do: reach beyond their own classes
+  async function announcementScopeError(
+    me: { id: number; role: string },
+    fields: Partial<typeof schema.announcements.$inferInsert>
+  ): Promise<string | null> {
+    if (fields.publishAt && fields.expiresAt && fields.expiresAt <= fields.publishAt) {
+      return "Expiry must be after the publish time";
+    }
+    if (fields.audience === "class" && fields.audienceClassId) {
+      const cls = await findManagedClass(me, fields.audienceClassId);
+      if (!cls || cls.archivedAt) return "Class not found";
+    }
+    if (await hasPermission(me, "announcements.school")) return null;
+    if (fields.audience !== undefined && fields.audience !== "class") {
+      return "You can only post announcements to your own classes";
+    }
+    if (fields.kind === "maintenance") return "Only administrators can post maintenance notices";
+    return null;
+  }
+
+  // Everyone: live announcements for their audience with read flags
+  app.get("/api/announcements/feed", authenticate, async (req, res) => {
+    try {
+      const feed = await announcementFeed((req as any).user);
+      res.json({ success: true, ...feed });
+    } catch (error) {
+      console.error("Announcement feed error:", error);
+      res.status(500).json({ success: false, message: "Failed to load announcements" });
+    }
+  });
+
+  // Body: { ids: number[] } or {} for everything in the feed
+  app.post("/api/announcements/read", authenticate, async (req, res) => {
+    try {
+      const ids = Array.isArray(req.body?.ids)
+        ? req.body.ids.map(Number).filter((n: number) => Number.isInteger(n) && n > 0)
+        : undefined;
+      const marked = await markAnnouncementsRead((req as any).user, ids);
+      res.json({ success: true, marked });
+    } catch (error) {
+      console.error("Mark announcements read error:", error);
+      res.status(500).json({ success: false, message: "Failed to mark announcements as read" });
+    }
+  });
+
+  // Posters: their own (announcements.school: everyone's), with read counts
+  app.get(
+    "/api/announcements",
+    authenticate,
+    requirePermission("announcements.class", "announcements.school"),
+    async (req, res) => {
+      try {
+        const me = (req as any).user;
+        const announcements = await listManagedAnnouncements(me, await hasPermission(me, "announcements.school"));
+        res.json({ success: true, announcements });
+      } catch (error) {
+        console.error("List announcements error:", error);
+        res.status(500).json({ success: false, message: "Failed to load announcements" });
+      }
+    }
+  );
+
+  app.post(
+    "/api/announcements",
+    authenticate,
+    requirePermission("announcements.class", "announcements.school"),
+    async (req, res) => {
+      try {
+        const me = (req as any).user;
+        const fields = parseAnnouncementFields({ audience: "school", publishAt: null, ...req.body });
+        if ("error" in fields) return res.status(400).json({ success: false, message: fields.error });
+        if (!fields.title || !fields.body) {
+          return res.status(400).json({ success: false, message: "Title and message are required" });
+        }
+        const scopeError = await announcementScopeError(me, fields);
+        if (scopeError) return res.status(403).json({ success: false, message: scopeError });
+
+        const [created] = await db
+          .insert(schema.announcements)
+          .values({ ...fields, title: fields.title, body: fields.body, createdById: me.id })
+          .returning();
+        res.status(201).json({ success: true, announcement: created });
+      } catch (error) {
+        console.error("Create announcement error:", error);
+        res.status(500).json({ success: false, message: "Failed to create announcement" });
+      }
+    }
+  );
+
+  app.patch(
+    "/api/announcements/:id",
+    authenticate,
+    requirePermission("announcements.class", "announcements.school"),
+    async (req, res) => {
+      try {
+        const me = (req as any).user;
+        const id = parseNumericId(req.params.id);
+        if (!id) return res.status(400).json({ success: false, message: "Invalid announcement id" });
+        const existing = await findManagedAnnouncement(me, id, await hasPermission(me, "announcements.school"));
+        if (!existing) return res.status(404).json({ success: false, message: "Announcement not found" });
+
+        const fields = parseAnnouncementFields(req.body);
+        if ("error" in fields) return res.status(400).json({ success: false, message: fields.error });
+        const scopeError = await announcementScopeError(me, {
+          ...fields,
+          publishAt: fields.publishAt ?? existing.publishAt,
+          expiresAt: fields.expiresAt === undefined ? existing.expiresAt : fields.expiresAt,
+        });
+        if (scopeError) return res.status(403).json({ success: false, message: scopeError });
+
+        const [updated] = await db
+          .update(schema.announcements)
+          .set({ ...fields, updatedAt: new Date() })
+          .where(eq(schema.announcements.id, id))
+          .returning();
+        res.json({ success: true, announcement: updated });
+      } catch (error) {
+        console.error("Update announcement error:", error);
+        res.status(500).json({ success: false, message: "Failed to update announcement" });
+      }
+    }
+  );
+
+  app.delete(
+    "/api/announcements/:id",
+    authenticate,
+    requirePermission("announcements.class", "announcements.school"),
+    async (req, res) => {
+      try {
+        const me = (req as any).user;
+        const id = parseNumericId(req.params.id);
+        if (!id) return res.status(400).json({ success: false, message: "Invalid announcement id" });
+        const existing = await findManagedAnnouncement(me, id, await hasPermission(me, "announcements.school"));
+        if (!existing) return res.status(404).json({ success: false, message: "Announcement not found" });
+
+        await db.transaction((tx) => deleteAnnouncements(tx, [id]));
+        res.json({ success: true, message: "Announcement deleted" });
+      } catch (error) {
+        console.error("Delete announcement error:", error);
+        res.status(500).json({ success: false, message: "Failed to delete announcement" });
+      }
+    }
+  );
+
+  // =========================
+  // Gradebook export
+  // =========================
+  // ?format=csv|xlsx&classId=&grade=&from=YYYY-MM-DD&to=YYYY-MM-DD (both days inclusive)
+  app.get("/api/gradebook/export", authenticate, requirePermission("gradebook.export"), async (req, res) => {
+    try {
+      const me = (req as any).user;
+      const format = req.query.format === "xlsx" ? "xlsx" : "csv";
+
+      let label = "my-students";
+      let classId: number | null = null;
+      if (req.query.classId) {
+        classId = parseNumericId(String(req.query.classId));
+        const cls = classId ? await findManagedClass(me, classId) : null;
+        if (!cls) return res.status(404).json({ success: false, message: "Class not found" });
+        label = cls.name;
+      } else if (me.role === "admin") {
+        label = "all-students";
+      }
+
+      const grade = req.query.grade ? String(req.query.grade) : null;
+      if (grade && !schema.gradeLevelEnum.enumValues.includes(grade as any)) {
+        return res.status(400).json({ success: false, message: "Invalid grade" });
+      }
+
+      const day = (v: unknown) => {
+        if (!v) return null;
+        const d = new Date(`${String(v)}T00:00:00Z`);
+        return Number.isNaN(d.getTime()) ? undefined : d;
+      };
+      const from = day(req.query.from);
+      const toDay = day(req.query.to);
+      if (from === undefined || toDay === undefined) {
+        return res.status(400).json({ success: false, message: "Dates must be YYYY-MM-DD" });
+      }
+      const to = toDay ? new Date(toDay.getTime() + 24 * 60 * 60 * 1000) : null;
+      if (from && to && to <= from) {
+        return res.status(400).json({ success: false, message: "The end date is before the start date" });
+      }
+
+      const gradebook = await buildGradebook(me, {
+        classId,
+        grade: grade as (typeof schema.gradeLevelEnum.enumValues)[number] | null,
+        from,
+        to,
+      });
+      if (grade) label += `-grade-${grade}`;
+
+      if (format === "xlsx") {
+        const file = await gradebookXlsx(gradebook, "Gradebook");
+        res.setHeader("Content-Type", XLSX_CONTENT_TYPE);
+        res.setHeader("Content-Disposition", `attachment; filename="${gradebookFileName(label, "xlsx")}"`);
+        return res.send(file);
+      }
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${gradebookFileName(label, "csv")}"`);
+      // BOM so Excel opens UTF-8 names correctly
+      return res.send("\uFEFF" + gradebookCsv(gradebook));
+    } catch (error) {
+      console.error("Gradebook export error:", error);
+      res.status(500).json({ success: false, message: "Failed to export gradebook" });
+    }
+  });
+
+  // =========================
+  // Report cards (PDF)
+  // =========================
+  const MAX_REPORT_COMMENT = 2000;
+
+  // from/to are YYYY-MM-DD, both days inclusive; default is this quarter so far
+  function parseReportPeriod(body: any): { error: string } | ReportPeriod {
+    const day = (v: unknown) => {
+      const d = new Date(`${String(v)}T00:00:00Z`);
+      return Number.isNaN(d.getTime()) ? null : d;
+    };
+    const from = body?.from ? day(body.from) : quarterStart();
+    const lastDay = body?.to ? day(body.to) : new Date();
+    if (!from || !lastDay) return { error: "Dates must be YYYY-MM-DD" };
+    const to = new Date(Date.UTC(lastDay.getUTCFullYear(), lastDay.getUTCMonth(), lastDay.getUTCDate() + 1));
+    if (to <= from) return { error: "The end date is before the start date" };
+    if (to.getTime() - from.getTime() > 366 * 24 * 60 * 60 * 1000) {
+      return { error: "A report card covers at most one year" };
+    }
+    return { from, to };
+  }
+
+  const reportComment = (v: unknown) =>
+    typeof v === "string" && v.trim() ? v.trim().slice(0, MAX_REPORT_COMMENT) : undefined;
+
+  async function reportPreparedBy(me: { id: number; role: string }) {
+    if (me.role !== "teacher") return null;
+    const teacher = await db.query.users.findFirst({
+      where: eq(schema.users.id, me.id),
+      columns: { firstName: true, lastName: true },
+    });
+    return teacher ? `${teacher.firstName} ${teacher.lastName}` : null;
+  }
+
+  // One student. body: { from?, to?, comment? }
+  app.post(
+    "/api/students/:id/report-card",
+    authenticate,
+    requirePermission("reportCards.print"),
+    async (req, res) => {
+      try {
+        const me = (req as any).user;
+        const studentId = parseNumericId(req.params.id);
+        if (!studentId) return res.status(400).json({ success: false, message: "Invalid student id" });
+        if (!(await canSeeStudent(me, studentId))) {
+          return res.status(403).json({ success: false, message: "This student is not in your class" });
+        }
+        const student = await db.query.users.findFirst({
+          where: and(eq(schema.users.id, studentId), eq(schema.users.role, "student"), isNull(schema.users.deletedAt)),
+          columns: { id: true, firstName: true, lastName: true, username: true, gradeLevel: true },
+        });
+        if (!student) return res.status(404).json({ success: false, message: "Student not found" });
+
+        const period = parseReportPeriod(req.body);
+        if ("error" in period) return res.status(400).json({ success: false, message: period.error });
+
+        const cards = await buildReportCards([student], period);
+        const pdf = await renderReportCards(cards, period, {
+          comments: { [student.id]: reportComment(req.body?.comment) ?? "" },
+          preparedBy: await reportPreparedBy(me),
+          title: `Report card - ${student.firstName} ${student.lastName}`,
+        });
+        res.setHeader("Content-Type", "application/pdf");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${reportCardFileName(`${student.lastName}-${student.firstName}`)}"`
+        );
+        return res.send(pdf);
+      } catch (error) {
+        console.error("Report card error:", error);
+        res.status(500).json({ success: false, message: "Failed to create the report card" });
+      }
+    }
+  );
+
+  // A whole grade (optionally one class of it) in one merged PDF.
+  // body: { grade, classId?, from?, to?, comments?: { [studentId]: text } }
+  app.post("/api/report-cards", authenticate, requirePermission("reportCards.print"), async (req, res) => {
+    try {
+      const me = (req as any).user;
+      const grade = String(req.body?.grade ?? "");
+      if (!schema.gradeLevelEnum.enumValues.includes(grade as any)) {
+        return res.status(400).json({ success: false, message: "Choose a grade" });
+      }
+
+      let classId: number | null = null;
+      if (req.body?.classId) {
+        classId = parseNumericId(String(req.body.classId));
+        if (!classId || !(await findManagedClass(me, classId))) {
+          return res.status(404).json({ success: false, message: "Class not found" });
+        }
+      }
+
+      const period = parseReportPeriod(req.body);
+      if ("error" in period) return res.status(400).json({ success: false, message: period.error });
+
+      const students = await findStudents(me, {
+        classId,
+        grade: grade as (typeof schema.gradeLevelEnum.enumValues)[number],
+      });
+      if (!students.length) {
+        return res.status(404).json({ success: false, message: "No students in that grade" });
+      }
+
+      const comments: Record<number, string> = {};
+      const given = req.body?.comments && typeof req.body.comments === "object" ? req.body.comments : {};
+      for (const s of students) {
+        const comment = reportComment(given[s.id]);
+        if (comment) comments[s.id] = comment;
+      }
+
+      const cards = await buildReportCards(students, period);
+      const label = grade === "K" ? "kindergarten" : `grade-${grade}`;
+      const pdf = await renderReportCards(cards, period, {
+        comments,
+        preparedBy: await reportPreparedBy(me),
+        title: `Report cards - ${grade === "K" ? "Kindergarten" : `Grade ${grade}`}`,
+      });
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${reportCardFileName(label)}"`);
+      return res.send(pdf);
+    } catch (error) {
+      console.error("Report cards error:", error);
+      res.status(500).json({ success: false, message: "Failed to create report cards" });
+    }
+  });
+
+  // =========================
+  // Class join codes
+  // =========================
+
+  // Public: preview a code on the registration form
+  app.get("/api/auth/join-codes/:code", joinCodeLimiter, async (req, res) => {
+    try {
+      const joinCode = await findUsableJoinCode(req.params.code);
+      if (!joinCode) {
+        return res.status(404).json({ success: false, message: "Invalid or expired class code" });
+      }
+      res.json({
+        success: true,
+        teacherName: `${joinCode.teacher.firstName} ${joinCode.teacher.lastName}`,
+        gradeLevel: joinCode.gradeLevel,
+        label: joinCode.label,
+      });
+    } catch (error) {
+      console.error("Check join code error:", error);
+      res.status(500).json({ success: false, message: "Failed to check class code" });
+    }
+  });
+
+  app.get("/api/teacher/join-codes", authenticate, authorize(["teacher"]), async (req, res) => {
+    try {
+      const teacherId = (req as any).user.id;
+      const codes = await db.query.classJoinCodes.findMany({
+        where: eq(schema.classJoinCodes.teacherId, teacherId),
+        with: { class: { columns: { id: true, name: true } } },
+        orderBy: desc(schema.classJoinCodes.createdAt),
+      });
+      res.json({
+        success: true,
+        codes: codes.map((c) => ({ ...c, code: formatJoinCode(c.code) })),
+      });
+    } catch (error) {
+      console.error("List join codes error:", error);
+      res.status(500).json({ success: false, message: "Failed to load class codes" });
+    }
+  });
+
+  app.post("/api/teacher/join-codes", authenticate, authorize(["teacher"]), async (req, res) => {
+    try {
+      const teacherId = (req as any).user.id;
+      // optional class: students who join go on its roster and take its grade
+      const classId = req.body?.classId == null || req.body.classId === "" ? null : Number(req.body.classId);
+      const cls = classId ? await findManagedClass((req as any).user, classId) : null;
+      if (classId && (!cls || cls.archivedAt)) {
+        return res.status(404).json({ success: false, message: "Class not found" });
+      }
+      const gradeLevel = cls?.gradeLevel ?? toCanonicalGrade(String(req.body?.gradeLevel ?? ""));
+      const expiresInDays = Number(req.body?.expiresInDays ?? 14);
+      const maxUses = req.body?.maxUses == null || req.body.maxUses === "" ? null : Number(req.body.maxUses);
+      const label = typeof req.body?.label === "string" ? req.body.label.trim().slice(0, 100) || null : null;
+
+      if (!(GRADE_LEVELS as readonly string[]).includes(gradeLevel)) {
+        return res.status(400).json({ success: false, message: "Invalid grade level" });
+      }
+      if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > 90) {
+        return res.status(400).json({ success: false, message: "Expiry must be between 1 and 90 days" });
+      }
+      if (maxUses !== null && (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > 500)) {
+        return res.status(400).json({ success: false, message: "Max uses must be between 1 and 500" });
+      }
+
+      const [created] = await db
+        .insert(schema.classJoinCodes)
+        .values({
+          code: await generateUniqueJoinCode(),
+          teacherId,
+          gradeLevel: gradeLevel as (typeof GRADE_LEVELS)[number],
+          label: label ?? cls?.name ?? null,
+          classId: cls?.id ?? null,
+          maxUses,
+          expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+        })
+        .returning();
+
+      res.status(201).json({ success: true, code: { ...created, code: formatJoinCode(created.code) } });
+    } catch (error) {
+      console.error("Create join code error:", error);
+      res.status(500).json({ success: false, message: "Failed to create class code" });
+    }
+  });
+
+  app.delete("/api/teacher/join-codes/:id", authenticate, authorize(["teacher"]), async (req, res) => {
+    try {
+      const teacherId = (req as any).user.id;
+      const id = parseNumericId(req.params.id);
+      if (!id) return res.status(400).json({ success: false, message: "Invalid code id" });
+
+      const revoked = await db
+        .update(schema.classJoinCodes)
+        .set({ revokedAt: new Date() })
+        .where(
+          and(
+            eq(schema.classJoinCodes.id, id),
+            eq(schema.classJoinCodes.teacherId, teacherId),
+            isNull(schema.classJoinCodes.revokedAt)
+          )
+        )
+        .returning({ id: schema.classJoinCodes.id });
+      if (revoked.length === 0) return res.status(404).json({ success: false, message: "Class code not found" });
+
+      res.json({ success: true, message: "Class code revoked" });
+    } catch (error) {
+      console.error("Revoke join code error:", error);
+      res.status(500).json({ success: false, message: "Failed to revoke class code" });
+    }
+  });
+
+  // =========================
+  // Class sign-in management
+  // =========================
+  app.get("/api/teacher/class-sign-in", authenticate, authorize(["teacher"]), async (req, res) => {
+    try {
+      const teacherId = (req as any).user.id;
+      const settings = await db.query.teachingSettings.findFirst({
+        where: eq(schema.teachingSettings.userId, teacherId),
+        columns: { classSignInCode: true },
+      });
+      const students = await classRoster(teacherId);
+      res.json({
+        success: true,
+        code: settings?.classSignInCode ?? null,
+        students: students.map((s) => ({
+          id: s.id,
+          firstName: s.firstName,
+          lastName: s.lastName,
+          gradeLevel: s.gradeLevel,
+          avatar: s.avatar,
+          kind: s.classLoginKind,
+        })),
+      });
+    } catch (error) {
+      console.error("Get class sign-in error:", error);
+      res.status(500).json({ success: false, message: "Failed to load class sign-in" });
+    }
+  });
+
+  // turn on / rotate the class sign-in code (old code stops working)
+  app.post("/api/teacher/class-sign-in/code", authenticate, authorize(["teacher"]), async (req, res) => {
+    try {
+      const teacherId = (req as any).user.id;
+      const code = await generateClassSignInCode();
+
+      const existing = await db
+        .select({ id: schema.teachingSettings.id })
+        .from(schema.teachingSettings)
+        .where(eq(schema.teachingSettings.userId, teacherId))
+        .limit(1);
+      if (existing.length > 0) {
+        await db
+          .update(schema.teachingSettings)
+          .set({ classSignInCode: code, updatedAt: new Date() })
+          .where(eq(schema.teachingSettings.userId, teacherId));
+      } else {
+        await db.insert(schema.teachingSettings).values({
+          userId: teacherId,
+          preferredGrades: [],
+          subjects: [],
+          classSignInCode: code,
+        });
+      }
+
+      res.json({ success: true, code });
+    } catch (error) {
+      console.error("Create class sign-in code error:", error);
+      res.status(500).json({ success: false, message: "Failed to create class sign-in code" });
+    }
+  });
+
+  app.delete("/api/teacher/class-sign-in/code", authenticate, authorize(["teacher"]), async (req, res) => {
+    try {
+      const teacherId = (req as any).user.id;
+      await db
+        .update(schema.teachingSettings)
+        .set({ classSignInCode: null, updatedAt: new Date() })
+        .where(eq(schema.teachingSettings.userId, teacherId));
+      res.json({ success: true, message: "Class sign-in turned off" });
+    } catch (error) {
+      console.error("Disable class sign-in error:", error);
+      res.status(500).json({ success: false, message: "Failed to turn off class sign-in" });
+    }
+  });
+
+  // set (or generate) a student's picture password / PIN; the plain secret is returned once
+  app.put("/api/students/:id/class-login", authenticate, requirePermission("students.manage"), async (req, res) => {
+    try {
+      const me = (req as any).user;
+      const studentId = parseNumericId(req.params.id);
+      if (!studentId) return res.status(400).json({ success: false, message: "Invalid student id" });
+
+      const kind = req.body?.kind;
+      if (!isClassLoginKind(kind)) {
+        return res.status(400).json({ success: false, message: "Sign-in type must be pictures or pin" });
+      }
+
+      const student = await db.query.users.findFirst({ where: eq(schema.users.id, studentId) });
+      if (!student || student.role !== "student" || student.deletedAt) {
+        return res.status(404).json({ success: false, message: "Student not found" });
+      }
+      if (me.role === "teacher" && !(await teachesStudent(me.id, studentId))) {
+        return res.status(403).json({ success: false, message: "This student is not in your class" });
+      }
+      if (!isClassLoginGrade(student.gradeLevel)) {
+        return res.status(400).json({
+          success: false,
+          message: "Picture and PIN sign-in is only for Kindergarten to Grade 2",
+        });
+      }
+
+      const secret =
+        req.body?.secret == null || req.body.secret === ""
+          ? generateClassLoginSecret(kind)
+          : normalizeClassLoginSecret(kind, req.body.secret);
+      if (!secret) {
+        return res.status(400).json({
+          success: false,
+          message:
+            kind === "pin"
+              ? `PIN must be ${schema.CLASS_LOGIN_PIN_LENGTH} digits`
+              : `Pick ${schema.CLASS_LOGIN_PICTURE_COUNT} pictures`,
+        });
+      }
+
+      await db
+        .update(schema.users)
+        .set({
+          classLoginKind: kind,
+          classLoginSecret: await hashClassLoginSecret(kind, secret),
+          classLoginAttempts: 0,
+          classLoginLockedUntil: null,
+        })
+        .where(eq(schema.users.id, studentId));
+
+      res.json({ success: true, kind, secret });
+    } catch (error) {
+      console.error("Set class login error:", error);
+      res.status(500).json({ success: false, message: "Failed to set class sign-in" });
+    }
+  });
+
+  app.delete("/api/students/:id/class-login", authenticate, requirePermission("students.manage"), async (req, res) => {
+    try {
+      const me = (req as any).user;
+      const studentId = parseNumericId(req.params.id);
+      if (!studentId) return res.status(400).json({ success: false, message: "Invalid student id" });
+      if (me.role === "teacher" && !(await teachesStudent(me.id, studentId))) {
+        return res.status(403).json({ success: false, message: "This student is not in your class" });
+      }
+
+      await db
+        .update(schema.users)
+        .set({ classLoginKind: null, classLoginSecret: null, classLoginAttempts: 0, classLoginLockedUntil: null })
+        .where(and(eq(schema.users.id, studentId), eq(schema.users.role, "student")));
+
+      res.json({ success: true, message: "Class sign-in removed" });
+    } catch (error) {
+      console.error("Remove class login error:", error);
+      res.status(500).json({ success: false, message: "Failed to remove class sign-in" });
+    }
+  });
+
+  // =========================
+  // Student reset codes (teacher/admin side)
+  // =========================
+  // teachers can only reset their own students
+  const canResetPasswordOf = canSeeStudent;
+
+  app.get("/api/students/:id/reset-codes", authenticate, requirePermission("students.manage"), async (req, res) => {
+    try {
+      const me = (req as any).user;
+      const studentId = parseNumericId(req.params.id);
+      if (!studentId) return res.status(400).json({ success: false, message: "Invalid student id" });
+      if (!(await canResetPasswordOf(me, studentId))) {
+        return res.status(403).json({ success: false, message: "This student is not in your class" });
+      }
+
+      res.json({ success: true, codes: await listResetCodes(studentId) });
+    } catch (error) {
+      console.error("List reset codes error:", error);
+      res.status(500).json({ success: false, message: "Failed to load reset codes" });
+    }
+  });
+
+  app.post("/api/students/:id/reset-codes", authenticate, requirePermission("students.manage"), async (req, res) => {
+    try {
+      const me = (req as any).user;
+      const studentId = parseNumericId(req.params.id);
+      if (!studentId) return res.status(400).json({ success: false, message: "Invalid student id" });
+
+      const student = await db.query.users.findFirst({
+        where: eq(schema.users.id, studentId),
+        columns: { id: true, role: true, username: true, deletedAt: true },
+      });
+      if (!student || student.role !== "student" || student.deletedAt) {
+        return res.status(404).json({ success: false, message: "Student not found" });
+      }
+      if (!(await canResetPasswordOf(me, studentId))) {
+        return res.status(403).json({ success: false, message: "This student is not in your class" });
+      }
+
+      const issued = await issueResetCode(studentId, me.id);
+      await recordAuthEvent(req, {
+        type: "reset_code_issued",
+        userId: studentId,
+        identifier: student.username,
+        metadata: { issuedById: me.id, resetCodeId: issued.id },
+      });
+
+      res.status(201).json({
+        success: true,
+        code: formatJoinCode(issued.code),
+        expiresAt: issued.expiresAt,
+        username: student.username,
+        ttlMinutes: RESET_CODE_TTL_MIN,
+      });
+    } catch (error) {
+      console.error("Issue reset code error:", error);
+      res.status(500).json({ success: false, message: "Failed to create reset code" });
+    }
+  });
+
+  // =========================
+  // Parent invites (teacher/admin side)
+  // =========================
+  // teachers manage invites only for their own students
+  const canManageParentsOf = canSeeStudent;
+
+  app.get("/api/students/:id/parent-invites", authenticate, requirePermission("students.manage"), async (req, res) => {
+    try {
+      const me = (req as any).user;
+      const studentId = parseNumericId(req.params.id);
+      if (!studentId) return res.status(400).json({ success: false, message: "Invalid student id" });
+      if (!(await canManageParentsOf(me, studentId))) {
+        return res.status(403).json({ success: false, message: "This student is not in your class" });
+      }
+
+      const [invites, links] = await Promise.all([
+        db.query.parentInviteCodes.findMany({
+          where: eq(schema.parentInviteCodes.studentId, studentId),
+          orderBy: desc(schema.parentInviteCodes.createdAt),
+        }),
+        db.query.parentStudentLinks.findMany({
+          where: eq(schema.parentStudentLinks.studentId, studentId),
+          with: { parent: { columns: { id: true, firstName: true, lastName: true, email: true } } },
+          orderBy: desc(schema.parentStudentLinks.createdAt),
+        }),
+      ]);
+
+      res.json({
+        success: true,
+        invites: invites.map((i) => ({ ...i, code: formatJoinCode(i.code) })),
+        parents: links.map((l) => ({ ...l.parent, linkedAt: l.createdAt })),
+      });
+    } catch (error) {
+      console.error("List parent invites error:", error);
+      res.status(500).json({ success: false, message: "Failed to load parent invites" });
+    }
+  });
+
+  app.post("/api/students/:id/parent-invites", authenticate, requirePermission("students.manage"), async (req, res) => {
+    try {
+      const me = (req as any).user;
+      const studentId = parseNumericId(req.params.id);
+      if (!studentId) return res.status(400).json({ success: false, message: "Invalid student id" });
+
+      const student = await db.query.users.findFirst({
+        where: eq(schema.users.id, studentId),
+        columns: { id: true, role: true, deletedAt: true },
+      });
+      if (!student || student.role !== "student" || student.deletedAt) {
+        return res.status(404).json({ success: false, message: "Student not found" });
+      }
+      if (!(await canManageParentsOf(me, studentId))) {
+        return res.status(403).json({ success: false, message: "This student is not in your class" });
+      }
+
+      const [created] = await db
+        .insert(schema.parentInviteCodes)
+        .values({
+          code: await generateUniqueParentInviteCode(),
+          studentId,
+          createdById: me.id,
+          expiresAt: new Date(Date.now() + PARENT_INVITE_TTL_DAYS * 24 * 60 * 60 * 1000),
+        })
+        .returning();
+
+      res.status(201).json({ success: true, invite: { ...created, code: formatJoinCode(created.code) } });
+    } catch (error) {
+      console.error("Create parent invite error:", error);
+      res.status(500).json({ success: false, message: "Failed to create parent invite" });
+    }
+  });
+
+  app.delete(
+    "/api/students/:id/parent-invites/:inviteId",
+    authenticate,
+    requirePermission("students.manage"),
+    async (req, res) => {
+      try {
+        const me = (req as any).user;
+        const studentId = parseNumericId(req.params.id);
+        const inviteId = parseNumericId(req.params.inviteId);
+        if (!studentId || !inviteId) return res.status(400).json({ success: false, message: "Invalid id" });
+        if (!(await canManageParentsOf(me, studentId))) {
+          return res.status(403).json({ success: false, message: "This student is not in your class" });
+        }
+
+        const revoked = await db
+          .update(schema.parentInviteCodes)
+          .set({ revokedAt: new Date() })
+          .where(
+            and(
+              eq(schema.parentInviteCodes.id, inviteId),
+              eq(schema.parentInviteCodes.studentId, studentId),
+              isNull(schema.parentInviteCodes.usedAt),
+              isNull(schema.parentInviteCodes.revokedAt)
+            )
+          )
+          .returning({ id: schema.parentInviteCodes.id });
+        if (revoked.length === 0) return res.status(404).json({ success: false, message: "Invite not found" });
+
+        res.json({ success: true, message: "Invite revoked" });
+      } catch (error) {
+        console.error("Revoke parent invite error:", error);
+        res.status(500).json({ success: false, message: "Failed to revoke invite" });
+      }
+    }
+  );
+
+  // Unlink a parent from a student
+  app.delete(
+    "/api/students/:id/parents/:parentId",
+    authenticate,
+    requirePermission("students.manage"),
+    async (req, res) => {
+      try {
+        const me = (req as any).user;
+        const studentId = parseNumericId(req.params.id);
+        const parentId = parseNumericId(req.params.parentId);
+        if (!studentId || !parentId) return res.status(400).json({ success: false, message: "Invalid id" });
+        if (!(await canManageParentsOf(me, studentId))) {
+          return res.status(403).json({ success: false, message: "This student is not in your class" });
+        }
+
+        const removed = await db
+          .delete(schema.parentStudentLinks)
+          .where(
+            and(eq(schema.parentStudentLinks.studentId, studentId), eq(schema.parentStudentLinks.parentId, parentId))
+          )
+          .returning({ id: schema.parentStudentLinks.id });
+        if (removed.length === 0) return res.status(404).json({ success: false, message: "Parent link not found" });
+
+        res.json({ success: true, message: "Parent unlinked" });
+      } catch (error) {
+        console.error("Unlink parent error:", error);
+        res.status(500).json({ success: false, message: "Failed to unlink parent" });
+      }
+    }
+  );
+
+  // =========================
+  // Parent portal (read-only)
+  // =========================
+  // Public: preview an invite on the registration form
+  app.get("/api/auth/parent-invites/:code", parentInviteLimiter, async (req, res) => {
+    try {
+      const invite = await findUsableParentInvite(req.params.code);
+      if (!invite) {
+        return res.status(404).json({ success: false, message: "Invalid or expired invite code" });
+      }
+      res.json({ success: true, childFirstName: invite.student.firstName });
+    } catch (error) {
+      console.error("Check parent invite error:", error);
+      res.status(500).json({ success: false, message: "Failed to check invite code" });
+    }
+  });
+
+  app.get("/api/parent/children", authenticate, authorize(["parent"]), async (req, res) => {
+    try {
+      const children = await listChildren((req as any).user.id);
+      res.json({ success: true, children });
+    } catch (error) {
+      console.error("List children error:", error);
+      res.status(500).json({ success: false, message: "Failed to load children" });
+    }
+  });
+
+  // Link another child with a new invite code
+  app.post("/api/parent/children", authenticate, authorize(["parent"]), parentInviteLimiter, async (req, res) => {
+    try {
+      const parentId = (req as any).user.id;
+      const invite = await findUsableParentInvite(req.body?.code);
+      if (!invite) {
+        return res.status(400).json({ success: false, message: "That invite code is invalid or has expired" });
+      }
+
+      const linked = await db.transaction((tx) => redeemParentInvite(tx, invite, parentId));
+      if (!linked) {
+        return res.status(400).json({ success: false, message: "That invite code has already been used" });
+      }
+
+      res.status(201).json({
+        success: true,
+        child: { id: invite.student.id, firstName: invite.student.firstName, lastName: invite.student.lastName },
+      });
+    } catch (error) {
+      console.error("Link child error:", error);
+      res.status(500).json({ success: false, message: "Failed to link child" });
+    }
+  });
+
+  app.get("/api/parent/children/:id/progress", authenticate, authorize(["parent"]), async (req, res) => {
+    try {
+      const parentId = (req as any).user.id;
+      const studentId = parseNumericId(req.params.id);
+      if (!studentId) return res.status(400).json({ success: false, message: "Invalid student id" });
+      if (!(await isParentOf(parentId, studentId))) {
+        return res.status(404).json({ success: false, message: "Child not found" });
+      }
+
+      const child = await db.query.users.findFirst({
+        where: and(eq(schema.users.id, studentId), isNull(schema.users.deletedAt)),
+        columns: { id: true, firstName: true, lastName: true, gradeLevel: true, avatar: true },
+      });
+      if (!child) return res.status(404).json({ success: false, message: "Child not found" });
+
+      res.json({ success: true, child, ...(await childProgressSnapshot(studentId)) });
+    } catch (error) {
+      console.error("Child progress error:", error);
+      res.status(500).json({ success: false, message: "Failed to load progress" });
+    }
+  });
+
+// --- helpers (place near other route helpers) ---
+const toCanonicalGrade = (g: string): string => {
+  const v = String(g || "").trim();
+  if (!v) return v;
+  // Kinder / Kindergarten → "K"
+  if (/^k(in(der(garten)?)?)?$/i.test(v) || /^kinder$/i.test(v)) return "K";
+  // "Grade 1" → "1", "grade 6" → "6"
+  const m = v.match(/\d+/);
+  if (m) return m[0]; // ✅ FIXED: was m[1], should be m[0]
+  // Already canonical? allow "K" or plain "1".."12"
+  if (/^(K|[0-9]{1,2})$/i.test(v)) return v.toUpperCase();
+  return v; // fallback
+};
+
+
+const toLabelGrade = (canon: string): string => {
+  if (!canon) return canon;
+  if (canon.toUpperCase() === "K") return "Kinder";
+  if (/^[0-9]{1,2}$/.test(canon)) return `Grade ${canon}`;
+  // If someone previously stored "Grade 3", pass it through for backward compatibility
+  if (/^grade\s*\d+$/i.test(canon)) return canon.replace(/^grade\s*/i, (m) => m[0].toUpperCase() + m.slice(1));
+  return canon;
+};
+
+const uniq = <T,>(arr: T[]) => Array.from(new Set(arr));
+
+// =========================
+// Teaching settings
+// =========================
+app.get("/api/user/teaching-settings", authenticate, async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    const userRole = (req as any).user?.role;
+    if (userRole !== "teacher" && userRole !== "admin") {
+      return res.status(403).json({ success: false, message: "Only teachers can access teaching settings" });
+    }
+
+    const existing = await db
+      .select()
+      .from(schema.teachingSettings)
+      .where(eq(schema.teachingSettings.userId, userId))
+      .limit(1);
+
+    const settings = existing[0] || {
+      preferredGrades: ["Grade 5"],
+      subjects: ["Storybook"], // ✅ default includes Storybook
+      maxClassSize: 30,
+    };
+
+    const preferredGrades = Array.isArray(settings.preferredGrades)
+      ? settings.preferredGrades.filter((x: any) => typeof x === "string" && x.trim() !== "")
+      : [];
+
+    // ✅ normalize subjects (Storybook variations -> "Storybook")
+    const subjects = normalizeSubjects(settings.subjects);
+
+    res.json({
+      success: true,
+      settings: {
+        preferredGrades,
+        subjects,
+        maxClassSize: typeof settings.maxClassSize === "number" ? settings.maxClassSize : 30,
+      },
+    });
+  } catch (error) {
+    console.error("Get teaching settings error:", error);
+    res.status(500).json({ success: false, message: "Failed to fetch teaching settings" });
+  }
+});
+
+app.put("/api/user/teaching-settings", authenticate, async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    const userRole = (req as any).user?.role;
+    if (userRole !== "teacher" && userRole !== "admin") {
+      return res.status(403).json({ success: false, message: "Only teachers can update teaching settings" });
+    }
+
+    const payload = {
+      preferredGrades: Array.isArray(req.body?.preferredGrades)
+        ? req.body.preferredGrades.filter((x: any) => typeof x === "string" && x.trim() !== "")
+        : [],
+      // ✅ normalize subjects so “Storybooks” etc. -> “Storybook”
+      subjects: normalizeSubjects(req.body?.subjects),
+      maxClassSize: Number.isFinite(Number(req.body?.maxClassSize))
+        ? Number(req.body.maxClassSize)
+        : 30,
+    };
+
+    const validatedData = schema.updateTeachingSettingsSchema.parse(payload);
+
+    const existing = await db
+      .select()
+      .from(schema.teachingSettings)
+      .where(eq(schema.teachingSettings.userId, userId))
+      .limit(1);
+
+    if (existing.length > 0) {
+      await db
+        .update(schema.teachingSettings)
+        .set({ ...validatedData, updatedAt: new Date() })
+        .where(eq(schema.teachingSettings.userId, userId));
+    } else {
+      await db.insert(schema.teachingSettings).values({
+        userId,
+        preferredGrades: validatedData.preferredGrades || [],
+        subjects: validatedData.subjects || [],
+        maxClassSize: validatedData.maxClassSize || 30,
+      });
+    }
+
+    res.json({ success: true, message: "Teaching settings saved successfully" });
+  } catch (error) {
+    console.error("Update teaching settings error:", error);
+    res.status(500).json({ success: false, message: "Failed to save teaching settings" });
+  }
+});
+
+
+  // =========================
+  // System settings (Admin)
+  // =========================
+  app.get("/api/admin/system-settings", authenticate, requireAdmin, async (req, res) => {
+    try {
       let settings = await db.query.systemSettings.findFirst();
       if (!settings) {
         const [newSettings] = await db
@@ -634,7 +2673,17 @@ app.put("/api/user/teaching-settings", authenticate, async (req, res) => {
           autoApproveStudents: settings.autoApproveStudents,
           sessionTimeoutMinutes: settings.sessionTimeoutMinutes ?? 60,
           maxLoginAttempts: settings.maxLoginAttempts ?? 5,
-          requireStrongPasswords: settings.requireStrongPasswords ?? false,
+          passwordMinLength: settings.passwordMinLength,
+          passwordRequireUpper: settings.passwordRequireUpper,
+          passwordRequireLower: settings.passwordRequireLower,
+          passwordRequireNumber: settings.passwordRequireNumber,
+          passwordRequireSymbol: settings.passwordRequireSymbol,
+          passwordHistoryCount: settings.passwordHistoryCount,
+          passwordMaxAgeDays: settings.passwordMaxAgeDays,
+          passwordBlocklist: settings.passwordBlocklist ?? "",
+          accountDeletionGraceDays: settings.accountDeletionGraceDays ?? 30,
+          trashRetentionDays: settings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS,
+          requireAdminTwoFactor: settings.requireAdminTwoFactor ?? false,
         },
       });
     } catch (error) {
@@ -653,7 +2702,17 @@ app.put("/api/user/teaching-settings", authenticate, async (req, res) => {
         autoApproveStudents,
         sessionTimeoutMinutes,
         maxLoginAttempts,
-        requireStrongPasswords,
+        passwordMinLength,
+        passwordRequireUpper,
+        passwordRequireLower,
+        passwordRequireNumber,
+        passwordRequireSymbol,
+        passwordHistoryCount,
+        passwordMaxAgeDays,
+        passwordBlocklist,
+        accountDeletionGraceDays,
+        trashRetentionDays,
+        requireAdminTwoFactor,
       } = req.body;
 
       maintenanceMode = newMaintenanceMode;
@@ -666,6 +2725,12 @@ app.put("/api/user/teaching-settings", authenticate, async (req, res) => {
       if (maxLoginAttempts < 3 || maxLoginAttempts > 10) {
         return res.status(400).json({ success: false, message: "Max login attempts must be between 3 and 10" });
       }
+      if (accountDeletionGraceDays !== undefined && (accountDeletionGraceDays < 1 || accountDeletionGraceDays > 365)) {
+        return res.status(400).json({ success: false, message: "Deletion grace period must be between 1 and 365 days" });
+      }
+      if (trashRetentionDays !== undefined && (trashRetentionDays < 1 || trashRetentionDays > 365)) {
+        return res.status(400).json({ success: false, message: "Trash retention must be between 1 and 365 days" });
+      }
 
       const settingsToSave = {
         allowNewRegistrations: allowNewRegistrations ?? true,
@@ -674,7 +2739,17 @@ app.put("/api/user/teaching-settings", authenticate, async (req, res) => {
         autoApproveStudents: autoApproveStudents ?? false,
         sessionTimeoutMinutes: sessionTimeoutMinutes ?? 60,
         maxLoginAttempts: maxLoginAttempts ?? 5,
-        requireStrongPasswords: requireStrongPasswords ?? false,
+        passwordMinLength: passwordMinLength ?? DEFAULT_PASSWORD_POLICY.minLength,
+        passwordRequireUpper: passwordRequireUpper ?? false,
+        passwordRequireLower: passwordRequireLower ?? false,
+        passwordRequireNumber: passwordRequireNumber ?? false,
+        passwordRequireSymbol: passwordRequireSymbol ?? false,
+        passwordHistoryCount: passwordHistoryCount ?? 0,
+        passwordMaxAgeDays: passwordMaxAgeDays ?? 0,
+        passwordBlocklist: passwordBlocklist ? parseBlocklist(String(passwordBlocklist)).join("\n") : null,
+        accountDeletionGraceDays: accountDeletionGraceDays ?? 30,
+        trashRetentionDays: trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS,
+        requireAdminTwoFactor: requireAdminTwoFactor ?? false,
       };
 
       const validated = schema.updateSystemSettingsSchema.parse(settingsToSave);
@@ -690,6 +2765,7 @@ app.put("/api/user/teaching-settings", authenticate, async (req, res) => {
         await db.insert(schema.systemSettings).values(validated).returning();
       }
 
+      forgetIdleTimeout();
       res.json({ success: true, message: "System settings saved successfully" });
     } catch (error) {
       if (error instanceof ZodError) {
@@ -700,7 +2776,73 @@ app.put("/api/user/teaching-settings", authenticate, async (req, res) => {
     }
   });
 
+  // =========================
+  // Permissions (admin)
+  // =========================
+  app.get("/api/admin/permissions", authenticate, requireAdmin, async (_req, res) => {
+    try {
+      res.json({
+        success: true,
+        permissions: PERMISSIONS,
+        roles: await loadRolePermissions(),
+        defaults: DEFAULT_ROLE_PERMISSIONS,
+      });
+    } catch (error) {
+      console.error("Get permissions error:", error);
+      res.status(500).json({ success: false, message: "Failed to load permissions" });
+    }
+  });
+
+  // Body: { roles: { teacher?: string[], student?: string[], parent?: string[] } }; admin is fixed
+  app.put("/api/admin/permissions", authenticate, requireAdmin, async (req, res) => {
+    try {
+      const input = req.body?.roles;
+      if (!input || typeof input !== "object") {
+        return res.status(400).json({ success: false, message: "roles is required" });
+      }
+      for (const role of EDITABLE_ROLES) {
+        const list = input[role];
+        if (list === undefined) continue;
+        if (!Array.isArray(list) || !list.every(isPermission)) {
+          return res.status(400).json({ success: false, message: `Unknown permission for ${role}` });
+        }
+      }
+
+      const roles = resolveRolePermissions({ ...(await loadRolePermissions()), ...input });
+      const existing = await db.query.systemSettings.findFirst({ columns: { id: true } });
+      if (existing) {
+        await db
+          .update(schema.systemSettings)
+          .set({ rolePermissions: roles, updatedAt: new Date() })
+          .where(eq(schema.systemSettings.id, existing.id));
+      } else {
+        await db.insert(schema.systemSettings).values({ rolePermissions: roles });
+      }
+
+      forgetRolePermissions();
+      res.json({ success: true, message: "Permissions saved", roles });
+    } catch (error) {
+      console.error("Update permissions error:", error);
+      res.status(500).json({ success: false, message: "Failed to save permissions" });
+    }
+  });
+
 // Account Actions API endpoints
+// Streams the export zip (or plain JSON with ?format=json)
+const sendUserExport = async (req: Request, res: Response, userId: number) => {
+  const data = await collectUserData(userId);
+  if (!data) return res.status(404).json({ success: false, message: 'User not found' });
+
+  if (req.query.format === 'json') {
+    return res.json({ success: true, data, message: 'Data export completed' });
+  }
+
+  const archive = await buildUserExportArchive(data);
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Disposition', `attachment; filename="${exportFileName(data.profile.username)}"`);
+  return res.send(archive);
+};
+
 app.get('/api/user/export', authenticate, async (req, res) => {
 try {
 const userId = (req as any).user?.id;
@@ -708,30 +2850,33 @@ const userEmail = (req as any).user?.email;
 
 console.log('📤 Data export request for:', userEmail);
 
-const userData = {
-profile: {
-email: userEmail,
-exportDate: new Date().toISOString(),
-accountCreated: '2024-01-01'
-},
-settings: {
-preferences: 'User preferences data...',
-security: 'Security settings...'
-},
-activity: {
-loginHistory: 'Recent login activity...',
-actions: 'User actions history...'
+return await sendUserExport(req, res, userId);
+} catch (error) {
+console.error('Export data error:', error);
+res.status(500).json({
+success: false,
+message: 'Failed to export data'
+});
 }
-};
+});
 
-res.json({
-success: true,
-data: userData,
-message: 'Data export completed'
+// Admin: export a student's data on behalf of the family/school
+app.get('/api/admin/users/:id/export', authenticate, requireAdmin, async (req, res) => {
+try {
+const targetId = parseNumericId(req.params.id);
+if (!targetId) return res.status(400).json({ success: false, message: 'Invalid user id' });
+
+const target = await db.query.users.findFirst({
+  where: and(eq(schema.users.id, targetId), eq(schema.users.role, 'student')),
+  columns: { id: true },
 });
+if (!target) return res.status(404).json({ success: false, message: 'Student not found' });
 
+console.log('📤 Admin data export for student:', targetId, 'by', (req as any).user?.email);
+
+return await sendUserExport(req, res, targetId);
 } catch (error) {
-console.error('Export data error:', error);
+console.error('Admin export data error:', error);
 res.status(500).json({
 success: false,
 message: 'Failed to export data'
@@ -739,65 +2884,211 @@ message: 'Failed to export data'
 }
 });
 
-// Logout all devices
+// Logout all devices (keeps the current one signed in)
 app.post('/api/user/logout-all', authenticate, async (req, res) => {
 try {
 const userId = (req as any).user?.id;
 const userEmail = (req as any).user?.email;
+const currentSessionId = (req as any).user?.sessionId;
+
+console.log('🚪 Logout all devices for:', userEmail);
+
+const revokedCount = await revokeUserSessions(userId, { exceptSessionId: currentSessionId });
+
+res.json({
+success: true,
+revokedCount,
+message: revokedCount === 1
+  ? 'Signed out 1 other session'
+  : `Signed out ${revokedCount} other sessions`
+});
+
+} catch (error) {
+console.error('Logout all error:', error);
+res.status(500).json({
+success: false,
+message: 'Failed to logout from all devices'
+});
+}
+});
+
+// Recent sign-in / password activity for the current user
+app.get('/api/user/auth-events', authenticate, async (req, res) => {
+try {
+const userId = (req as any).user?.id;
+const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+
+const events = await listUserAuthEvents(userId, limit);
+res.json({ success: true, events });
+} catch (error) {
+console.error('Get auth events error:', error);
+res.status(500).json({ success: false, message: 'Failed to fetch account activity' });
+}
+});
+
+// Admin: search auth events across all users
+app.get('/api/admin/auth-events', authenticate, requireAdmin, async (req, res) => {
+try {
+const search = typeof req.query.search === 'string' ? escapeLike(req.query.search.trim()).slice(0, 100) : '';
+const types = String(req.query.type || '')
+  .split(',')
+  .filter((t): t is schema.AuthEventType => (schema.AUTH_EVENT_TYPES as readonly string[]).includes(t));
+const userId = req.query.userId ? parseNumericId(String(req.query.userId)) : null;
+const from = req.query.from ? new Date(String(req.query.from)) : undefined;
+const to = req.query.to ? new Date(String(req.query.to)) : undefined;
+if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+  return res.status(400).json({ success: false, message: 'Invalid date range' });
+}
+const page = Math.max(Number(req.query.page) || 1, 1);
+const pageSize = Math.min(Math.max(Number(req.query.pageSize) || 25, 1), 100);
+
+const { events, total } = await searchAuthEvents({
+  search: search || undefined,
+  types,
+  userId: userId ?? undefined,
+  from,
+  to,
+  page,
+  pageSize,
+});
+
+res.json({ success: true, events, total, page, pageSize });
+} catch (error) {
+console.error('Search auth events error:', error);
+res.status(500).json({ success: false, message: 'Failed to search auth events' });
+}
+});
+
+// Delete account (soft delete; purged after the grace period)
+app.delete('/api/user/account', authenticate, async (req, res) => {
+try {
+const userId = (req as any).user?.id;
+const userEmail = (req as any).user?.email;
+const userRole = (req as any).user?.role;
+
+console.log('🗑️ Account deletion request for:', userEmail);
+
+// never leave the platform without an admin
+if (userRole === 'admin') {
+  const otherAdmin = await db.query.users.findFirst({
+    where: and(
+      eq(schema.users.role, 'admin'),
+      not(eq(schema.users.id, userId)),
+      isNull(schema.users.deletedAt)
+    ),
+    columns: { id: true },
+  });
+  if (!otherAdmin) {
+    return res.status(400).json({
+      success: false,
+      message: 'You are the only administrator. Add another admin before deleting this account.'
+    });
+  }
+}
 
-console.log('🚪 Logout all devices for:', userEmail);
+const purgeAfter = await scheduleAccountDeletion(userId);
 
 res.json({
 success: true,
-message: 'Logged out from all devices successfully'
+purgeAfter,
+message: `Account scheduled for deletion on ${purgeAfter.toDateString()}. Sign in before then to restore it.`
 });
 
 } catch (error) {
-console.error('Logout all error:', error);
+console.error('Delete account error:', error);
 res.status(500).json({
 success: false,
-message: 'Failed to logout from all devices'
+message: 'Failed to delete account'
 });
 }
 });
 
-// Delete account
-app.delete('/api/user/account', authenticate, async (req, res) => {
+// Restore an account that is still inside its deletion grace period
+app.post('/api/auth/restore-account', restoreAccountLimiter, async (req, res) => {
 try {
-const userId = (req as any).user?.id;
-const userEmail = (req as any).user?.email;
+const { email, password } = schema.loginSchema.parse(req.body);
 
-console.log('🗑️ Account deletion request for:', userEmail);
+const user = await findUserByLogin(email);
+if (!user || !user.deletedAt || !(await bcrypt.compare(password, user.password))) {
+  return res.status(400).json({ success: false, message: 'Invalid email/username or password' });
+}
 
-// Delete user progress
-await db.delete(schema.progress)
-.where(eq(schema.progress.userId, userId));
+await restoreAccount(user.id);
+console.log('♻️ Account restored:', user.email);
 
-// Delete reading sessions
-await db.delete(schema.readingSessions)
-.where(eq(schema.readingSessions.userId, userId));
+res.json({ success: true, message: 'Your account has been restored. You can now sign in.' });
+} catch (error) {
+if (error instanceof ZodError) {
+  return res.status(400).json({ success: false, message: 'Validation error', errors: error.errors });
+}
+console.error('Restore account error:', error);
+res.status(500).json({ success: false, message: 'Failed to restore account' });
+}
+});
 
-// Delete user account
-await db.delete(schema.users)
-.where(eq(schema.users.id, userId));
+// Admin: accounts waiting to be purged
+app.get('/api/admin/deleted-accounts', authenticate, requireAdmin, async (req, res) => {
+try {
+const accounts = await db.query.users.findMany({
+  where: isNotNull(schema.users.deletedAt),
+  columns: {
+    id: true,
+    username: true,
+    email: true,
+    firstName: true,
+    lastName: true,
+    role: true,
+    gradeLevel: true,
+    deletedAt: true,
+    purgeAfter: true,
+  },
+  orderBy: asc(schema.users.purgeAfter),
+});
 
-res.json({
-success: true,
-message: 'Account deleted successfully'
+res.json({ success: true, accounts });
+} catch (error) {
+console.error('Get deleted accounts error:', error);
+res.status(500).json({ success: false, message: 'Failed to fetch deleted accounts' });
+}
 });
 
+app.post('/api/admin/deleted-accounts/:id/restore', authenticate, requireAdmin, async (req, res) => {
+try {
+const targetId = parseNumericId(req.params.id);
+if (!targetId) return res.status(400).json({ success: false, message: 'Invalid user id' });
+
+const restored = await restoreAccount(targetId);
+if (!restored) return res.status(404).json({ success: false, message: 'No pending deletion for this user' });
+
+res.json({ success: true, message: 'Account restored' });
 } catch (error) {
-console.error('Delete account error:', error);
-res.status(500).json({
-success: false,
-message: 'Failed to delete account'
+console.error('Admin restore account error:', error);
+res.status(500).json({ success: false, message: 'Failed to restore account' });
+}
 });
+
+// Admin: purge now instead of waiting for the grace period
+app.delete('/api/admin/deleted-accounts/:id', authenticate, requireAdmin, async (req, res) => {
+try {
+const targetId = parseNumericId(req.params.id);
+if (!targetId) return res.status(400).json({ success: false, message: 'Invalid user id' });
+
+const purged = await purgeAccount(targetId);
+if (!purged) return res.status(404).json({ success: false, message: 'No pending deletion for this user' });
+
+console.log('🗑️ Account purged:', targetId, 'by', (req as any).user?.email);
+res.json({ success: true, message: 'Account permanently deleted' });
+} catch (error) {
+console.error('Purge account error:', error);
+res.status(500).json({ success: false, message: 'Failed to purge account' });
 }
 });
 
   app.get("/api/system/maintenance-status", async (req, res) => {
     try {
-      res.json({ success: true, maintenanceMode });
+      // a live maintenance announcement replaces the default maintenance page message
+      const notice = maintenanceMode ? await liveMaintenanceNotice() : null;
+      res.json({ success: true, maintenanceMode, notice });
     } catch (error) {
       console.error("Get maintenance status error:", error);
       res.status(500).json({ success: false, message: "Failed to get maintenance status" });
@@ -880,7 +3171,7 @@ message: 'Failed to delete account'
     }
   };
 
-  app.get("/api/stats", authenticate, authorize(["admin", "teacher"]), statsHandler);
+  app.get("/api/stats", authenticate, requirePermission("stats.view"), statsHandler);
 
   // =========================
   // Email verification + Password reset (email-token flows)
@@ -921,6 +3212,7 @@ app.get("/api/auth/verify-email", async (req, res) => {
         emailVerificationExpires: null,
       })
       .where(eq(schema.users.id, user.id));
+    await recordAuthEvent(req, { type: "email_verified", userId: user.id, identifier: user.email });
 
     // fire-and-forget welcome email
     try {
@@ -976,6 +3268,12 @@ app.post("/api/auth/resend-verification", resendVerifyLimiter, async (req, res)
       rawToken,
       user.firstName || user.username || "User"
     );
+    await recordAuthEvent(req, {
+      type: "email_verification_sent",
+      userId: user.id,
+      identifier: user.email,
+      metadata: { trigger: "resend" },
+    });
 
     return res.status(200).json({ message: "Verification email sent" });
   } catch (error) {
@@ -1026,6 +3324,12 @@ app.post("/api/auth/forgot-password", forgotPasswordLimiter, async (req, res) =>
       rawToken,
       user.firstName || user.username || "User"
     );
+    await recordAuthEvent(req, {
+      type: "password_reset_requested",
+      userId: user.id,
+      identifier: user.email,
+      metadata: { method: "email" },
+    });
 
     return res
       .status(200)
@@ -1052,9 +3356,11 @@ app.post("/api/auth/reset-password", async (req, res) => {
       // optional: be explicit about what we read
       columns: {
         id: true,
+        email: true,
         emailVerified: true,
         approvalStatus: true,
         passwordResetExpires: true,
+        password: true,
       },
     });
 
@@ -1072,16 +3378,12 @@ app.post("/api/auth/reset-password", async (req, res) => {
       });
     }
 
-    // (optional) strong password policy
-    const systemSettings = await db.query.systemSettings.findFirst();
-    if (systemSettings?.requireStrongPasswords && !isStrongPassword(newPassword)) {
-      return res.status(400).json({
-        message:
-          "New password does not meet strong password requirements. It must include at least 8 characters, one uppercase letter, one lowercase letter, one number, and one special character.",
-      });
-    }
+    const policy = await loadPasswordPolicy();
+    const policyError = await checkNewPassword(String(newPassword), { policy, userId: user.id, currentHash: user.password });
+    if (policyError) return res.status(400).json({ message: policyError });
 
     const hashedPassword = await bcrypt.hash(newPassword, 10);
+    await rememberPreviousPassword(user.id, user.password, policy);
 
     await db
       .update(schema.users)
@@ -1094,6 +3396,13 @@ app.post("/api/auth/reset-password", async (req, res) => {
         lastFailedLoginAt: new Date(0),
       })
       .where(eq(schema.users.id, user.id));
+    await revokeUserSessions(user.id);
+    await recordAuthEvent(req, {
+      type: "password_reset",
+      userId: user.id,
+      identifier: user.email,
+      metadata: { method: "email" },
+    });
 
     return res.status(200).json({ message: "Password reset successfully" });
   } catch (error) {
@@ -1125,7 +3434,7 @@ app.get("/api/test-email", async (req, res) => {
   // =========================
   // Registration / Login
   // =========================
-app.post("/api/auth/register", async (req, res) => {
+app.post("/api/auth/register", registerNetworkLimiter, registerLimiter, async (req, res) => {
   try {
     if (!req.body || Object.keys(req.body).length === 0) {
       return res.status(400).json({ message: "Request body is required" });
@@ -1141,7 +3450,6 @@ app.post("/api/auth/register", async (req, res) => {
           requireEmailVerification: false,
           autoApproveTeachers: false,
           autoApproveStudents: false,
-          requireStrongPasswords: true,
         })
         .returning();
       systemSettings = newSettings;
@@ -1162,13 +3470,29 @@ app.post("/api/auth/register", async (req, res) => {
       username: userDataIn.username.toLowerCase(),
     };
 
-    if (systemSettings.requireStrongPasswords && !isStrongPassword(userData.password)) {
+    // Optional class join code (students only): grade comes from the code
+    const joinCode =
+      userData.role === "student" && req.body.joinCode ? await findUsableJoinCode(req.body.joinCode) : null;
+    if (userData.role === "student" && req.body.joinCode && !joinCode) {
+      return res.status(400).json({
+        success: false,
+        message: "That class code is invalid or has expired. Please check with your teacher.",
+      });
+    }
+    if (joinCode) userData.gradeLevel = joinCode.gradeLevel;
+
+    // Parents can only sign up with an invite code for their child
+    const parentInvite = userData.role === "parent" ? await findUsableParentInvite(req.body.parentInviteCode) : null;
+    if (userData.role === "parent" && !parentInvite) {
       return res.status(400).json({
         success: false,
-        message:
-          "Password does not meet strength requirements. It must be at least 8 characters long, contain uppercase and lowercase letters, a number, and a special character.",
+        message: "A valid parent invite code is required. Please ask your child's teacher for one.",
       });
     }
+    if (parentInvite) userData.gradeLevel = null;
+
+    const passwordError = await checkNewPassword(userData.password, { policy: policyFromSettings(systemSettings) });
+    if (passwordError) return res.status(400).json({ success: false, message: passwordError });
 
     // Case-insensitive uniqueness (also enforced by DB LOWER() unique indexes)
     const existingUser = await db.query.users.findFirst({
@@ -1192,8 +3516,9 @@ app.post("/api/auth/register", async (req, res) => {
     let approvalStatus: "pending" | "approved" = "pending";
     if (userData.role === "teacher" && systemSettings.autoApproveTeachers) approvalStatus = "approved";
     else if (userData.role === "student" && systemSettings.autoApproveStudents) approvalStatus = "approved";
+    if (joinCode || parentInvite) approvalStatus = "approved";
 
-    const [newUser] = await db
+    const insertUser = (tx: typeof db) => tx
       .insert(schema.users)
       .values({
         ...userData,
@@ -1216,6 +3541,27 @@ app.post("/api/auth/register", async (req, res) => {
         approvalStatus: schema.users.approvalStatus,
       });
 
+    // user + join code use + enrollment (or parent invite + link) succeed or fail together
+    let newUser: Awaited<ReturnType<typeof insertUser>>[number];
+    try {
+      newUser = await db.transaction(async (tx) => {
+        const [created] = await insertUser(tx as unknown as typeof db);
+        if (joinCode && !(await redeemJoinCode(tx, joinCode, created.id))) tx.rollback();
+        if (parentInvite && !(await redeemParentInvite(tx, parentInvite, created.id))) tx.rollback();
+        return created;
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) {
+        return res.status(400).json({
+          success: false,
+          message: parentInvite
+            ? "That parent invite code has already been used. Please ask your child's teacher for a new one."
+            : "That class code is no longer available. Please check with your teacher.",
+        });
+      }
+      throw error;
+    }
+
     // Send email with the **plain** token
     try {
       await sendVerificationEmail(
@@ -1223,6 +3569,12 @@ app.post("/api/auth/register", async (req, res) => {
         verificationTokenPlain,
         newUser.firstName || newUser.username || "User"
       );
+      await recordAuthEvent(req, {
+        type: "email_verification_sent",
+        userId: newUser.id,
+        identifier: newUser.email,
+        metadata: { trigger: "register" },
+      });
     } catch (emailError) {
       console.error("Failed to send verification email:", emailError);
     }
@@ -1230,7 +3582,8 @@ app.post("/api/auth/register", async (req, res) => {
     // Optional immediate session if auto-approved
     let token: string | null = null;
     if (approvalStatus === "approved") {
-      token = jwt.sign({ id: newUser.id, role: newUser.role }, JWT_SECRET, { expiresIn: "24h" });
+      token = await issueAuthToken(newUser, "24h", req);
+      await startCookieSession(req, res, token);
     }
 
     return res.status(201).json({
@@ -1243,6 +3596,8 @@ app.post("/api/auth/register", async (req, res) => {
       token,
       emailSent: true,
       requiresApproval: approvalStatus === "pending",
+      enrolledWith: joinCode ? `${joinCode.teacher.firstName} ${joinCode.teacher.lastName}` : undefined,
+      linkedChild: parentInvite ? parentInvite.student.firstName : undefined,
     });
   } catch (error) {
     if (error instanceof ZodError) {
@@ -1257,7 +3612,100 @@ app.post("/api/auth/register", async (req, res) => {
   }
 });
 
-  app.post("/api/auth/login", async (req, res) => {
+  const TWO_FACTOR_CHALLENGE_TTL = "5m";
+
+  // Token lifetime = idle timeout for every role; active clients refresh it (POST /api/auth/session/refresh)
+  const sessionTimeoutFor = (_role: string, settings: { sessionTimeoutMinutes: number | null }) =>
+    `${settings.sessionTimeoutMinutes ?? 60}m`;
+
+  const loginUserPayload = (user: schema.User) => ({
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    role: user.role,
+    gradeLevel: user.gradeLevel,
+    approvalStatus: user.approvalStatus,
+    emailVerified: user.emailVerified,
+  });
+
+  // Password older than the policy's maximum age: sign in with a short token that
+  // only reaches the change-password endpoint (see PASSWORD_CHANGE_PATHS)
+  const expiredPasswordLogin = async (user: schema.User, req: Request, res: Response) => {
+    const token = await issueAuthToken(user, "30m", req, { pwdChange: true });
+    await startCookieSession(req, res, token);
+    await recordAuthEvent(req, {
+      type: "login",
+      userId: user.id,
+      identifier: user.email,
+      metadata: { passwordChangeRequired: true },
+    });
+    return {
+      success: true,
+      message: "Your password has expired. Please choose a new one.",
+      passwordChangeRequired: true,
+      user: loginUserPayload(user),
+      token,
+    };
+  };
+
+  // Account-state gates applied after the credential check, shared by every
+  // sign-in method. Returns the refusal (auth event reason + 403 body) or null.
+  const accountGateRefusal = (
+    user: schema.User,
+    settings: { requireEmailVerification: boolean | null }
+  ): { reason: string; body: Record<string, unknown> } | null => {
+    if (user.deletedAt) {
+      return {
+        reason: "pending_deletion",
+        body: {
+          success: false,
+          message: `This account is scheduled for deletion${
+            user.purgeAfter ? ` on ${new Date(user.purgeAfter).toDateString()}` : ""
+          }. Restore it to sign in again.`,
+          accountPendingDeletion: true,
+          purgeAfter: user.purgeAfter,
+        },
+      };
+    }
+
+    if (settings.requireEmailVerification && !user.emailVerified) {
+      return {
+        reason: "email_unverified",
+        body: {
+          success: false,
+          message: "Email verification is required. Please verify your email before logging in.",
+          emailVerificationRequired: true,
+        },
+      };
+    }
+
+    if (user.approvalStatus === "pending") {
+      const roleMessage =
+        user.role === "student"
+          ? "Your account is pending approval from an administrator. Please check back later."
+          : user.role === "teacher"
+          ? "Your teacher account is pending approval from an administrator. Please check back later."
+          : "Your account is pending approval from an administrator. Please check back later.";
+      return { reason: "approval_pending", body: { success: false, message: roleMessage } };
+    }
+    if (user.approvalStatus === "rejected") {
+      const roleMessage =
+        user.role === "student"
+          ? "Your account application has been rejected."
+          : user.role === "teacher"
+          ? "Your teacher account application has been rejected."
+          : "Your account application has been rejected.";
+      return {
+        reason: "approval_rejected",
+        body: { success: false, message: roleMessage, reason: user.rejectionReason || "No reason provided." },
+      };
+    }
+    return null;
+  };
+
+  app.post("/api/auth/login", loginLimiter, async (req, res) => {
     try {
       let systemSettings = await db.query.systemSettings.findFirst();
       if (!systemSettings) {
@@ -1270,15 +3718,25 @@ app.post("/api/auth/register", async (req, res) => {
             autoApproveStudents: false,
             maxLoginAttempts: 5,
             sessionTimeoutMinutes: 60,
-            requireStrongPasswords: true,
           })
           .returning();
         systemSettings = newSettings;
       }
 
       const loginData = schema.loginSchema.parse(req.body);
-      const user = await db.query.users.findFirst({ where: eq(schema.users.email, loginData.email) });
-      if (!user) return res.status(400).json({ success: false, message: "Invalid email or password" });
+      const user = await findUserByLogin(loginData.email);
+      if (!user) {
+        await recordAuthEvent(req, {
+          type: "login_failed",
+          identifier: loginData.email,
+          metadata: { reason: "unknown_account" },
+        });
+        return res.status(400).json({ success: false, message: "Invalid email/username or password" });
+      }
+
+      // records a refused sign-in for this account; `reason` says which gate refused it
+      const loginRefused = (reason: string) =>
+        recordAuthEvent(req, { type: "login_failed", userId: user.id, identifier: user.email, metadata: { reason } });
 
       const MAX_LOGIN_ATTEMPTS = systemSettings.maxLoginAttempts ?? 5;
       const COOLDOWN_MINUTES = 15;
@@ -1286,6 +3744,7 @@ app.post("/api/auth/register", async (req, res) => {
         const lastAttemptTime = new Date(user.lastFailedLoginAt).getTime();
         const cooldown = COOLDOWN_MINUTES * 60 * 1000;
         if (Date.now() - lastAttemptTime < cooldown) {
+          await loginRefused("locked_out");
           return res.status(403).json({
             success: false,
             message: `Too many failed login attempts. Please try again after ${COOLDOWN_MINUTES} minutes.`,
@@ -1297,100 +3756,465 @@ app.post("/api/auth/register", async (req, res) => {
 
       const isPasswordValid = await bcrypt.compare(loginData.password, user.password);
       if (!isPasswordValid) {
+        const attempts = (user.loginAttempts || 0) + 1;
         await db
           .update(schema.users)
-          .set({ loginAttempts: (user.loginAttempts || 0) + 1, lastFailedLoginAt: new Date() })
+          .set({ loginAttempts: attempts, lastFailedLoginAt: new Date() })
           .where(eq(schema.users.id, user.id));
-        return res.status(400).json({ success: false, message: "Invalid email or password" });
+        await loginRefused("bad_password");
+        if (attempts === MAX_LOGIN_ATTEMPTS) {
+          await recordAuthEvent(req, {
+            type: "lockout",
+            userId: user.id,
+            identifier: user.email,
+            metadata: { attempts, cooldownMinutes: COOLDOWN_MINUTES },
+          });
+        }
+        return res.status(400).json({ success: false, message: "Invalid email/username or password" });
+      }
+
+      const refusal = accountGateRefusal(user, systemSettings);
+      if (refusal) {
+        await loginRefused(refusal.reason);
+        return res.status(403).json(refusal.body);
+      }
+
+      // second step: password is right, now ask for the authenticator code
+      if (user.twoFactorEnabled) {
+        const challengeToken = jwt.sign({ id: user.id, purpose: "2fa-login" }, JWT_SECRET, {
+          expiresIn: TWO_FACTOR_CHALLENGE_TTL,
+        });
+        return res.status(200).json({
+          success: true,
+          message: "Enter the code from your authenticator app",
+          twoFactorRequired: true,
+          challengeToken,
+        });
+      }
+
+      await db
+        .update(schema.users)
+        .set({ loginAttempts: 0, lastFailedLoginAt: new Date(0) })
+        .where(eq(schema.users.id, user.id));
+
+      if (isPasswordExpired(user, policyFromSettings(systemSettings))) {
+        return res.status(200).json(await expiredPasswordLogin(user, req, res));
+      }
+
+      // mandatory 2FA for admins who have not enrolled yet: short, enrollment-only token
+      if (user.role === "admin" && systemSettings.requireAdminTwoFactor) {
+        const token = await issueAuthToken(user, "30m", req, { tfaSetup: true });
+        await startCookieSession(req, res, token);
+        await recordAuthEvent(req, {
+          type: "login",
+          userId: user.id,
+          identifier: user.email,
+          metadata: { twoFactorSetupRequired: true },
+        });
+        return res.status(200).json({
+          success: true,
+          message: "Two-factor authentication is required for admin accounts. Please set it up now.",
+          twoFactorSetupRequired: true,
+          user: loginUserPayload(user),
+          token,
+        });
+      }
+
+      const token = await issueAuthToken(user, sessionTimeoutFor(user.role, systemSettings), req);
+      await startCookieSession(req, res, token);
+      await recordAuthEvent(req, { type: "login", userId: user.id, identifier: user.email });
+
+      return res.status(200).json({
+        success: true,
+        message: "Login successful",
+        user: loginUserPayload(user),
+        token,
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ success: false, message: "Validation error", errors: error.errors });
+      }
+      console.error("Error logging in:", error);
+      return res.status(500).json({ success: false, message: "Internal server error" });
+    }
+  });
+
+  // =========================
+  // Class sign-in (K–2 picture / PIN)
+  // =========================
+  // Public: the class roster for a shared device (first name + last initial only)
+  app.get("/api/auth/class/:code", classRosterLimiter, async (req, res) => {
+    try {
+      const teacher = await findClassByCode(req.params.code);
+      if (!teacher) return res.status(404).json({ success: false, message: "Class not found" });
+
+      const students = await classRoster(teacher.id, { signInOnly: true });
+      res.json({
+        success: true,
+        teacherName: `${teacher.firstName} ${teacher.lastName}`,
+        students: students.map((s) => ({
+          id: s.id,
+          name: `${s.firstName} ${s.lastName.charAt(0)}.`,
+          avatar: s.avatar,
+          kind: s.classLoginKind,
+        })),
+      });
+    } catch (error) {
+      console.error("Class roster error:", error);
+      res.status(500).json({ success: false, message: "Failed to load class" });
+    }
+  });
+
+  app.post("/api/auth/class/:code/login", classSignInLimiter, async (req, res) => {
+    try {
+      const teacher = await findClassByCode(req.params.code);
+      if (!teacher) return res.status(404).json({ success: false, message: "Class not found" });
+
+      const studentId = parseNumericId(String(req.body?.studentId ?? ""));
+      const wrong = { success: false, message: "That's not quite right. Try again!" };
+      if (!studentId || !(await teachesStudent(teacher.id, studentId))) return res.status(400).json(wrong);
+
+      const user = await db.query.users.findFirst({ where: eq(schema.users.id, studentId) });
+      if (
+        !user ||
+        user.role !== "student" ||
+        !isClassLoginGrade(user.gradeLevel) ||
+        !user.classLoginKind ||
+        !user.classLoginSecret
+      ) {
+        return res.status(400).json(wrong);
       }
 
-      if (systemSettings.requireEmailVerification && !user.emailVerified) {
+      const loginRefused = (reason: string) =>
+        recordAuthEvent(req, {
+          type: "login_failed",
+          userId: user.id,
+          identifier: user.username,
+          metadata: { reason, method: "class" },
+        });
+
+      if (user.classLoginLockedUntil && user.classLoginLockedUntil.getTime() > Date.now()) {
+        await loginRefused("locked_out");
         return res.status(403).json({
           success: false,
-          message: "Email verification is required. Please verify your email before logging in.",
-          emailVerificationRequired: true,
+          message: "Too many tries. Ask your teacher for help, or wait a little and try again.",
+          lockedUntil: user.classLoginLockedUntil,
         });
       }
 
-      if (user.approvalStatus !== "approved") {
-        if (user.approvalStatus === "pending") {
-          const roleMessage =
-            user.role === "student"
-              ? "Your account is pending approval from an administrator. Please check back later."
-              : user.role === "teacher"
-              ? "Your teacher account is pending approval from an administrator. Please check back later."
-              : "Your account is pending approval from an administrator. Please check back later.";
-          return res.status(403).json({ success: false, message: roleMessage });
-        } else if (user.approvalStatus === "rejected") {
-          const roleMessage =
-            user.role === "student"
-              ? "Your account application has been rejected."
-              : user.role === "teacher"
-              ? "Your teacher account application has been rejected."
-              : "Your account application has been rejected.";
-          return res
-            .status(403)
-            .json({ success: false, message: roleMessage, reason: user.rejectionReason || "No reason provided." });
+      const secret = normalizeClassLoginSecret(user.classLoginKind, req.body?.secret);
+      if (!secret || !(await verifyClassLoginSecret(user.classLoginKind, secret, user.classLoginSecret))) {
+        const attempts = user.classLoginAttempts + 1;
+        const locked = attempts >= CLASS_LOGIN_MAX_ATTEMPTS;
+        await db
+          .update(schema.users)
+          .set(
+            locked
+              ? {
+                  classLoginAttempts: 0,
+                  classLoginLockedUntil: new Date(Date.now() + CLASS_LOGIN_LOCK_MINUTES * 60 * 1000),
+                }
+              : { classLoginAttempts: attempts }
+          )
+          .where(eq(schema.users.id, user.id));
+        await loginRefused("bad_class_secret");
+        if (locked) {
+          await recordAuthEvent(req, {
+            type: "lockout",
+            userId: user.id,
+            identifier: user.username,
+            metadata: { method: "class", attempts, cooldownMinutes: CLASS_LOGIN_LOCK_MINUTES },
+          });
         }
+        return res.status(400).json(wrong);
+      }
+
+      const systemSettings = await db.query.systemSettings.findFirst();
+      const refusal = accountGateRefusal(user, {
+        requireEmailVerification: systemSettings?.requireEmailVerification ?? false,
+      });
+      if (refusal) {
+        await loginRefused(refusal.reason);
+        return res.status(403).json(refusal.body);
+      }
+
+      await db
+        .update(schema.users)
+        .set({ classLoginAttempts: 0, classLoginLockedUntil: null })
+        .where(eq(schema.users.id, user.id));
+
+      const token = await issueAuthToken(
+        user,
+        sessionTimeoutFor(user.role, { sessionTimeoutMinutes: systemSettings?.sessionTimeoutMinutes ?? null }),
+        req
+      );
+      await startCookieSession(req, res, token);
+      await recordAuthEvent(req, {
+        type: "login",
+        userId: user.id,
+        identifier: user.username,
+        metadata: { method: `class_${user.classLoginKind}`, teacherId: teacher.id },
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: "Login successful",
+        user: loginUserPayload(user),
+        token,
+      });
+    } catch (error) {
+      console.error("Class sign-in error:", error);
+      return res.status(500).json({ success: false, message: "Internal server error" });
+    }
+  });
+
+app.get("/api/auth/user", authenticate, async (req, res) => {
+  try {
+    const userId = (req as any).user.id;
+    const user = await db.query.users.findFirst({
+      where: eq(schema.users.id, userId),
+      columns: {
+        id: true,
+        username: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        role: true,
+        gradeLevel: true,
+        createdAt: true,
+        avatar: true, // ✅ add this
+      },
+    });
+    if (!user) return res.status(404).json({ message: "User not found" });
+
+    // "view as user": tell the client who is really signed in (drives the Header banner)
+    const impersonatorId = (req as any).user.impersonatorId;
+    const impersonatedBy = impersonatorId
+      ? await db.query.users.findFirst({
+          where: eq(schema.users.id, impersonatorId),
+          columns: { id: true, firstName: true, lastName: true },
+        })
+      : null;
+    // expired password: the client sends the user to Password & Security
+    const passwordChangeRequired = (req as any).user.passwordChangeRequired === true;
+    return res.status(200).json({
+      user: {
+        ...user,
+        // what the client's can() checks; the server enforces the same list
+        permissions: await userPermissions(user),
+        ...(impersonatedBy ? { impersonatedBy } : {}),
+        ...(passwordChangeRequired ? { passwordChangeRequired } : {}),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching user:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Second login step for accounts with 2FA: exchange the challenge + code for a session
+app.post("/api/auth/login/2fa", twoFactorLimiter, async (req, res) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body ?? {};
+    if (!challengeToken || (!code && !recoveryCode)) {
+      return res.status(400).json({ success: false, message: "Verification code is required" });
+    }
+
+    let decoded: any;
+    try {
+      decoded = jwt.verify(String(challengeToken), JWT_SECRET);
+    } catch {
+      return res.status(401).json({ success: false, message: "Verification expired. Please sign in again." });
+    }
+    if (decoded.purpose !== "2fa-login") {
+      return res.status(401).json({ success: false, message: "Invalid verification request" });
+    }
+
+    const user = await db.query.users.findFirst({ where: eq(schema.users.id, decoded.id) });
+    if (!user || !user.twoFactorEnabled || !user.twoFactorSecret || user.deletedAt) {
+      return res.status(401).json({ success: false, message: "Invalid verification request" });
+    }
+
+    const systemSettings = await db.query.systemSettings.findFirst();
+    const MAX_LOGIN_ATTEMPTS = systemSettings?.maxLoginAttempts ?? 5;
+    const COOLDOWN_MINUTES = 15;
+    if (
+      user.loginAttempts >= MAX_LOGIN_ATTEMPTS &&
+      Date.now() - new Date(user.lastFailedLoginAt).getTime() < COOLDOWN_MINUTES * 60 * 1000
+    ) {
+      return res.status(403).json({
+        success: false,
+        message: `Too many failed login attempts. Please try again after ${COOLDOWN_MINUTES} minutes.`,
+      });
+    }
+
+    let method: "totp" | "recovery_code" | null = null;
+    const updates: Partial<typeof schema.users.$inferInsert> = {};
+
+    if (code) {
+      const step = verifyTotp(decryptSecret(user.twoFactorSecret), String(code), {
+        afterStep: user.twoFactorLastStep,
+      });
+      if (step !== null) {
+        method = "totp";
+        updates.twoFactorLastStep = step;
+      }
+    } else {
+      const remaining = consumeRecoveryCode(user.twoFactorRecoveryCodes ?? [], String(recoveryCode));
+      if (remaining) {
+        method = "recovery_code";
+        updates.twoFactorRecoveryCodes = remaining;
+      }
+    }
+
+    if (!method) {
+      const attempts = (user.loginAttempts || 0) + 1;
+      await db
+        .update(schema.users)
+        .set({ loginAttempts: attempts, lastFailedLoginAt: new Date() })
+        .where(eq(schema.users.id, user.id));
+      await recordAuthEvent(req, {
+        type: "two_factor_failed",
+        userId: user.id,
+        identifier: user.email,
+        metadata: { via: code ? "totp" : "recovery_code" },
+      });
+      if (attempts === MAX_LOGIN_ATTEMPTS) {
+        await recordAuthEvent(req, {
+          type: "lockout",
+          userId: user.id,
+          identifier: user.email,
+          metadata: { attempts, cooldownMinutes: COOLDOWN_MINUTES },
+        });
       }
+      return res.status(400).json({ success: false, message: "Invalid verification code" });
+    }
+
+    await db
+      .update(schema.users)
+      .set({ ...updates, loginAttempts: 0, lastFailedLoginAt: new Date(0) })
+      .where(eq(schema.users.id, user.id));
+
+    if (isPasswordExpired(user, policyFromSettings(systemSettings))) {
+      return res.status(200).json(await expiredPasswordLogin(user, req, res));
+    }
+
+    if (method === "recovery_code") {
+      await recordAuthEvent(req, {
+        type: "recovery_code_used",
+        userId: user.id,
+        identifier: user.email,
+        metadata: { remaining: updates.twoFactorRecoveryCodes?.length ?? 0 },
+      });
+    }
+
+    const token = await issueAuthToken(user, sessionTimeoutFor(user.role, systemSettings ?? { sessionTimeoutMinutes: 60 }), req);
+    await startCookieSession(req, res, token);
+    await recordAuthEvent(req, { type: "login", userId: user.id, identifier: user.email, metadata: { twoFactor: method } });
+
+    return res.status(200).json({
+      success: true,
+      message: "Login successful",
+      user: loginUserPayload(user),
+      token,
+      recoveryCodesRemaining:
+        method === "recovery_code" ? updates.twoFactorRecoveryCodes?.length ?? 0 : undefined,
+    });
+  } catch (error) {
+    console.error("Error verifying 2FA login:", error);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
 
-      await db
-        .update(schema.users)
-        .set({ loginAttempts: 0, lastFailedLoginAt: new Date(0) })
-        .where(eq(schema.users.id, user.id));
+// Sign out the current device (revokes this token's session)
+app.post("/api/auth/logout", authenticate, async (req, res) => {
+  try {
+    const sessionId = (req as any).user?.sessionId;
+    if (sessionId) await revokeSession(sessionId);
+    await endCookieSession(req, res);
+    await recordAuthEvent(req, { type: "logout", userId: (req as any).user?.id });
+    return res.status(200).json({ success: true, message: "Logged out" });
+  } catch (error) {
+    console.error("Error logging out:", error);
+    return res.status(500).json({ success: false, message: "Failed to log out" });
+  }
+});
 
-      const sessionTimeout = user.role === "admin" ? "7d" : `${systemSettings.sessionTimeoutMinutes ?? 60}m`;
-      const token = jwt.sign({ id: user.id, email: user.email, role: user.role }, JWT_SECRET, {
-        expiresIn: sessionTimeout,
-      } as jwt.SignOptions);
+// Sliding sessions: when this device signs out if it stays idle
+app.get("/api/auth/session", authenticate, async (req, res) => {
+  try {
+    const { id, sessionId } = (req as any).user;
+    const session = await findActiveSession(sessionId, id);
+    if (!session) return res.status(401).json({ success: false, message: "Session has been signed out." });
+    const idleTimeoutMinutes = await getIdleTimeoutMinutes();
+    return res.json({
+      success: true,
+      idleTimeoutMinutes,
+      expiresAt: sessionDeadline(session, idleTimeoutMinutes),
+    });
+  } catch (error) {
+    console.error("Error loading session:", error);
+    return res.status(500).json({ success: false, message: "Failed to load session" });
+  }
+});
 
-      return res.status(200).json({
+// Called by the client while the user is active. Normal sessions get a fresh
+// token; restricted ones (view-as-user, 2FA enrollment, expired password) keep
+// their short fixed lifetime and only have the activity recorded.
+app.post("/api/auth/session/refresh", authenticate, async (req, res) => {
+  try {
+    const { id, email, role, sessionId, impersonatorId, twoFactorSetupRequired, passwordChangeRequired, viaCookie } = (
+      req as any
+    ).user;
+    const idleTimeoutMinutes = await getIdleTimeoutMinutes();
+
+    if (impersonatorId || twoFactorSetupRequired || passwordChangeRequired) {
+      await touchSession(sessionId);
+      const session = await findActiveSession(sessionId, id);
+      return res.json({
         success: true,
-        message: "Login successful",
-        user: {
-          id: user.id,
-          username: user.username,
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          role: user.role,
-          gradeLevel: user.gradeLevel,
-          approvalStatus: user.approvalStatus,
-          emailVerified: user.emailVerified,
-        },
-        token,
+        idleTimeoutMinutes,
+        expiresAt: session ? sessionDeadline(session, idleTimeoutMinutes) : new Date(),
       });
-    } catch (error) {
-      if (error instanceof ZodError) {
-        return res.status(400).json({ success: false, message: "Validation error", errors: error.errors });
-      }
-      console.error("Error logging in:", error);
-      return res.status(500).json({ success: false, message: "Internal server error" });
     }
-  });
 
-app.get("/api/auth/user", authenticate, async (req, res) => {
+    const { token, expiresAt } = await refreshAuthToken({ id, email, role }, sessionId, `${idleTimeoutMinutes}m`);
+    if (viaCookie) {
+      await replaceSessionToken(req, res, token);
+      return res.json({ success: true, idleTimeoutMinutes, expiresAt });
+    }
+    return res.json({ success: true, token, idleTimeoutMinutes, expiresAt });
+  } catch (error) {
+    console.error("Error refreshing session:", error);
+    return res.status(500).json({ success: false, message: "Failed to refresh session" });
+  }
+});
+
+// Migration from localStorage tokens: a client still holding a bearer token
+// trades it for the httpOnly cookie session (and then forgets the token).
+// While viewing as a user it also hands over the admin token it had parked.
+app.post("/api/auth/session/cookie", authenticate, async (req, res) => {
   try {
-    const userId = (req as any).user.id;
-    const user = await db.query.users.findFirst({
-      where: eq(schema.users.id, userId),
-      columns: {
-        id: true,
-        username: true,
-        email: true,
-        firstName: true,
-        lastName: true,
-        role: true,
-        gradeLevel: true,
-        createdAt: true,
-        avatar: true, // ✅ add this
-      },
-    });
-    if (!user) return res.status(404).json({ message: "User not found" });
-    return res.status(200).json({ user });
+    const me = (req as any).user;
+    if (me.viaCookie) return res.json({ success: true, message: "Already using a cookie session" });
+
+    const { token } = tokenFromRequest(req);
+    let impersonatorToken: string | undefined;
+    const parked = req.body?.impersonatorToken;
+    if (me.impersonatorId && typeof parked === "string") {
+      try {
+        const decoded = jwt.verify(parked, JWT_SECRET) as jwt.JwtPayload;
+        if (decoded.id === me.impersonatorId) impersonatorToken = parked;
+      } catch {
+        // expired admin token: ending the impersonation will simply sign out
+      }
+    }
+
+    await startCookieSession(req, res, token!, { impersonatorToken });
+    return res.json({ success: true, message: "Switched to a cookie session" });
   } catch (error) {
-    console.error("Error fetching user:", error);
-    return res.status(500).json({ message: "Internal server error" });
+    console.error("Error switching to cookie session:", error);
+    return res.status(500).json({ success: false, message: "Failed to switch to a cookie session" });
   }
 });
 
@@ -1399,16 +4223,24 @@ app.get("/api/auth/user", authenticate, async (req, res) => {
 // =========================
 
 // List all books
-app.get("/api/books", authenticate, authorize(["admin", "teacher", "student"]), async (req, res) => {
+app.get("/api/books", authenticate, requirePermission("books.view"), async (req, res) => {
   try {
     const type = req.query.type as string;
     const search = req.query.search as string;
     const grade = req.query.grade as string;
     const subject = req.query.subject as string;
+    const status = req.query.status as string;
 
     let query = db.select().from(schema.books);
-    const conditions: any[] = [];
+    // students only ever see live (published) books
+    const conditions: any[] = [await visibleBooksCondition((req as any).user)];
 
+    if (status && status !== "all") {
+      if (!(schema.BOOK_STATUSES as readonly string[]).includes(status)) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+      conditions.push(eq(schema.books.status, status as schema.BookStatus));
+    }
     if (type && type !== "all") conditions.push(eq(schema.books.type, type as any));
     if (grade && grade !== "all") conditions.push(eq(schema.books.grade, grade));
     if (subject && subject !== "all") conditions.push(eq(schema.books.subject, subject));
@@ -1421,7 +4253,7 @@ app.get("/api/books", authenticate, authorize(["admin", "teacher", "student"]),
         )
       );
     }
-    if (conditions.length > 0) query = (query.where(and(...conditions)) as typeof query) || query;
+    query = (query.where(and(...conditions)) as typeof query) || query;
 
     const books = await query.orderBy(desc(schema.books.createdAt));
     return res.status(200).json({ books });
@@ -1432,15 +4264,18 @@ app.get("/api/books", authenticate, authorize(["admin", "teacher", "student"]),
 });
 
 // Get single book by ID
-app.get("/api/books/:id", authenticate, authorize(["admin", "teacher", "student"]), async (req, res) => {
+app.get("/api/books/:id", authenticate, requirePermission("books.view"), async (req, res) => {
   try {
     const bookId = parseInt(req.params.id);
     const book = await db.query.books.findFirst({
       where: eq(schema.books.id, bookId),
       with: { chapters: { orderBy: asc(schema.chapters.orderIndex) } },
     });
-    if (!book) return res.status(404).json({ message: "Book not found" });
-    return res.status(200).json({ book });
+    if (!book || !(await canViewBook((req as any).user, book))) {
+      return res.status(404).json({ message: "Book not found" });
+    }
+    const myAccess = await bookAccessFor((req as any).user.id, book);
+    return res.status(200).json({ book: { ...book, myAccess } });
   } catch (error) {
     console.error("Error fetching book:", error);
     return res.status(500).json({ message: "Internal server error" });
@@ -1448,30 +4283,18 @@ app.get("/api/books/:id", authenticate, authorize(["admin", "teacher", "student"
 });
 
 // Delete book
-app.delete("/api/books/:id", authenticate, authorize(["admin", "teacher"]), async (req, res) => {
+app.delete("/api/books/:id", authenticate, requirePermission("books.delete.own", "books.delete.any"), async (req, res) => {
   try {
     const bookId = parseInt(req.params.id);
-    const book = await db.query.books.findFirst({ where: eq(schema.books.id, bookId) });
-    if (!book) return res.status(404).json({ message: "Book not found" });
-
-    const pages = await db.query.pages.findMany({
-      where: eq(schema.pages.bookId, bookId),
-      with: { questions: true },
-    });
-
-    await db.transaction(async (tx) => {
-      await tx.delete(schema.readingSessions).where(eq(schema.readingSessions.bookId, bookId));
-      for (const page of pages) {
-        if (page.questions?.length) {
-          await tx.delete(schema.questions).where(inArray(schema.questions.id, page.questions.map((q) => q.id)));
-        }
-      }
-      if (pages.length) await tx.delete(schema.pages).where(eq(schema.pages.bookId, bookId));
-      await tx.delete(schema.progress).where(eq(schema.progress.bookId, bookId));
-      await tx.delete(schema.books).where(eq(schema.books.id, bookId));
+    const book = await db.query.books.findFirst({
+      where: and(eq(schema.books.id, bookId), isNull(schema.books.deletedAt)),
     });
+    if (!book) return res.status(404).json({ message: "Book not found" });
+    if (!(await canActOnBook((req as any).user, book, "books.delete"))) return bookForbidden(res);
 
-    return res.status(200).json({ message: "Book deleted successfully", id: bookId });
+    // to the trash; pages, questions and student progress stay until it is purged
+    const purgeAfter = await trashBook(bookId, (req as any).user.id);
+    return res.status(200).json({ message: "Book moved to the trash", id: bookId, purgeAfter });
   } catch (error) {
     console.error("Error deleting book:", error);
     return res.status(500).json({ message: "Internal server error" });
@@ -1479,7 +4302,7 @@ app.delete("/api/books/:id", authenticate, authorize(["admin", "teacher"]), asyn
 });
 
 // Update book (admin/teacher)
-app.put("/api/books/:id", authenticate, authorize(["admin", "teacher"]), async (req, res) => {
+app.put("/api/books/:id", authenticate, requirePermission("books.edit.own", "books.edit.any"), async (req, res) => {
   try {
     const bookId = parseInt(req.params.id);
     const { title, description, type, grade, subject, coverImage, coverPublicId, musicUrl, quizMode } = req.body;
@@ -1507,8 +4330,11 @@ app.put("/api/books/:id", authenticate, authorize(["admin", "teacher"]), async (
       quizMode: safeQuizMode,
     };
 
-    const exists = await db.query.books.findFirst({ where: eq(schema.books.id, bookId) });
+    const exists = await db.query.books.findFirst({
+      where: and(eq(schema.books.id, bookId), isNull(schema.books.deletedAt)),
+    });
     if (!exists) return res.status(404).json({ message: "Book not found" });
+    if (!(await canActOnBook((req as any).user, exists, "books.edit"))) return bookForbidden(res);
 
     const [updatedBook] = await db.update(schema.books).set(update).where(eq(schema.books.id, bookId)).returning();
     return res.status(200).json({ message: "Book updated successfully", book: updatedBook });
@@ -1519,7 +4345,7 @@ app.put("/api/books/:id", authenticate, authorize(["admin", "teacher"]), async (
 });
 
 // Create book (admin/teacher)
-app.post("/api/books", authenticate, authorize(["admin", "teacher"]), async (req, res) => {
+app.post("/api/books", authenticate, requirePermission("books.create"), async (req, res) => {
   try {
     const parsed = BookCreateApiSchema.parse(req.body);
 
@@ -1555,6 +4381,7 @@ app.post("/api/books", authenticate, authorize(["admin", "teacher"]), async (req
       musicUrl,
       quizMode,
       addedById: userId,
+      status: "draft", // hidden from students until published
     }).returning();
 
     return res.status(201).json({ message: "Book added successfully", book: newBook });
@@ -1576,14 +4403,17 @@ app.post("/api/books", authenticate, authorize(["admin", "teacher"]), async (req
 app.post(
   "/api/books/:bookId/chapters",
   authenticate,
-  authorize(["admin", "teacher"]),
+  requirePermission("books.edit.own", "books.edit.any"),
   async (req, res) => {
     try {
       const bookId = parseInt(req.params.bookId, 10);
       const chapterData = schema.insertChapterSchema.parse(req.body);
 
-      const book = await db.query.books.findFirst({ where: eq(schema.books.id, bookId) });
+      const book = await db.query.books.findFirst({
+        where: and(eq(schema.books.id, bookId), isNull(schema.books.deletedAt)),
+      });
       if (!book) return res.status(404).json({ message: "Book not found" });
+      if (!(await canActOnBook((req as any).user, book, "books.edit"))) return bookForbidden(res);
 
       const chapters = await db.query.chapters.findMany({
         where: eq(schema.chapters.bookId, bookId),
@@ -1625,17 +4455,35 @@ app.get("/api/teacher/books", authenticate, authorize(["teacher"]), async (req,
     const gradeQ = (req.query.grade as string) || "all";
     const subjectQ = (req.query.subject as string) || "all";
     const userId = (req as any).user?.id;
+    // ?mine=1: books the teacher owns or co-authors, regardless of their grade/subject settings
+    const mineOnly = req.query.mine === "1";
 
     // Load teacher settings
-    const teacherSettings = await db
-      .select()
-      .from(schema.teachingSettings)
-      .where(eq(schema.teachingSettings.userId, userId))
-      .limit(1);
+    const teacherSettings = mineOnly
+      ? []
+      : await db
+          .select()
+          .from(schema.teachingSettings)
+          .where(eq(schema.teachingSettings.userId, userId))
+          .limit(1);
 
     let query = db.select().from(schema.books);
     const conditions: any[] = [];
 
+    if (mineOnly) {
+      conditions.push(
+        isNull(schema.books.deletedAt),
+        or(eq(schema.books.addedById, userId), inArray(schema.books.id, sharedBookIdsQuery(userId)))
+      );
+    } else {
+      // live books plus their own drafts
+      conditions.push(await visibleBooksCondition((req as any).user));
+    }
+    const statusQ = (req.query.status as string) || "all";
+    if (statusQ !== "all" && (schema.BOOK_STATUSES as readonly string[]).includes(statusQ)) {
+      conditions.push(eq(schema.books.status, statusQ as schema.BookStatus));
+    }
+
     // ---------- Settings: grades ----------
     if (
       teacherSettings.length > 0 &&
@@ -1753,7 +4601,8 @@ app.get("/api/teacher/books", authenticate, authorize(["teacher"]), async (req,
     }
 
     const books = await query.orderBy(desc(schema.books.createdAt));
-    return res.status(200).json({ books });
+    const access = await bookAccessMap(userId, books);
+    return res.status(200).json({ books: books.map((b) => ({ ...b, myAccess: access.get(b.id) ?? null })) });
   } catch (error) {
     console.error("Error fetching books for teacher:", error);
     return res.status(500).json({ message: "Internal server error" });
@@ -1767,8 +4616,11 @@ app.get("/api/teacher/books/:id", authenticate, authorize(["teacher"]), async (r
       where: eq(schema.books.id, bookId),
       with: { chapters: { orderBy: asc(schema.chapters.orderIndex) } },
     });
-    if (!book) return res.status(404).json({ message: "Book not found" });
-    return res.status(200).json({ book });
+    if (!book || !(await canViewBook((req as any).user, book))) {
+      return res.status(404).json({ message: "Book not found" });
+    }
+    const myAccess = await bookAccessFor((req as any).user.id, book);
+    return res.status(200).json({ book: { ...book, myAccess } });
   } catch (error) {
     console.error("Error fetching book for teacher:", error);
     return res.status(500).json({ message: "Internal server error" });
@@ -1779,7 +4631,7 @@ app.get("/api/teacher/books/:id", authenticate, authorize(["teacher"]), async (r
 app.post(
   "/api/teacher/books",
   authenticate,
-  authorize(["teacher"]),
+  requirePermission("books.create"),
   async (req, res) => {
     try {
       // 1) Validate shape (lenient) with API schema
@@ -1833,6 +4685,8 @@ app.post(
           quizMode,
           // attribution
           addedById: userId,
+          // hidden from students until published
+          status: "draft",
         })
         .returning();
 
@@ -1860,99 +4714,472 @@ app.post(
         }
       }
 
-      console.error("Error adding book for teacher:", error);
-      return res.status(500).json({ message: "Internal server error" });
-    }
+      console.error("Error adding book for teacher:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  }
+);
+
+// Update (teacher)
+app.put("/api/teacher/books/:id", authenticate, requirePermission("books.edit.own", "books.edit.any"), async (req, res) => {
+  try {
+    const bookId = parseInt(req.params.id, 10);
+
+    const {
+      title,
+      description,
+      type,              // "storybook" | "educational"
+      grade,
+      subject,
+      coverImage,
+      coverPublicId,
+      musicUrl,
+      quizMode,
+    } = (req.body ?? {}) as any;
+
+    if (!title || !description || !type || !grade) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: "Title, description, type, and grade are required",
+      });
+    }
+    if (type === "educational" && (!subject || !String(subject).trim())) {
+      return res.status(400).json({ message: "Subject is required for educational books" });
+    }
+
+    const safeQuizMode: "retry" | "straight" = quizMode === "straight" ? "straight" : "retry";
+    const update = {
+      title: String(title).trim(),
+      description: String(description).trim(),
+      type,
+      grade,
+      subject: type === "educational" ? String(subject).trim() : null,
+      coverImage: coverImage ?? null,
+      coverPublicId: coverPublicId ?? null,
+      musicUrl: musicUrl ?? null,
+      quizMode: safeQuizMode,
+    };
+
+    const exists = await db.query.books.findFirst({
+      where: and(eq(schema.books.id, bookId), isNull(schema.books.deletedAt)),
+    });
+    if (!exists) return res.status(404).json({ message: "Book not found" });
+    if (!(await canActOnBook((req as any).user, exists, "books.edit"))) return bookForbidden(res);
+
+    const [updated] = await db.update(schema.books).set(update).where(eq(schema.books.id, bookId)).returning();
+    return res.status(200).json({ message: "Book updated successfully", book: updated });
+  } catch (error) {
+    console.error("Error in edit book (teacher):", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+app.delete("/api/teacher/books/:id", authenticate, requirePermission("books.delete.own", "books.delete.any"), async (req, res) => {
+  try {
+    const bookId = parseInt(req.params.id);
+    const book = await db.query.books.findFirst({
+      where: and(eq(schema.books.id, bookId), isNull(schema.books.deletedAt)),
+    });
+    if (!book) return res.status(404).json({ message: "Book not found" });
+    if (!(await canActOnBook((req as any).user, book, "books.delete"))) return bookForbidden(res);
+
+    const purgeAfter = await trashBook(bookId, (req as any).user.id);
+    return res.status(200).json({ message: "Book moved to the trash", id: bookId, purgeAfter });
+  } catch (error) {
+    console.error("Error deleting book for teacher:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+
+// =========================
+// Book ownership & co-authors
+// =========================
+// Owner + collaborators; visible to the owner, collaborators and editors of any book
+app.get("/api/books/:id/collaborators", authenticate, requirePermission("books.edit.own", "books.edit.any"), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const bookId = parseNumericId(req.params.id);
+    if (!bookId) return res.status(400).json({ success: false, message: "Invalid book id" });
+    const book = await db.query.books.findFirst({ where: eq(schema.books.id, bookId) });
+    if (!book) return res.status(404).json({ success: false, message: "Book not found" });
+
+    const myAccess = await bookAccessFor(user.id, book);
+    const canShare = await canShareBook(user, book);
+    if (!myAccess && !canShare) {
+      return res.status(403).json({ success: false, message: "This book is not shared with you" });
+    }
+
+    const sharing = await listBookSharing(book);
+    return res.status(200).json({ success: true, ...sharing, myAccess, canShare });
+  } catch (error) {
+    console.error("Error listing book collaborators:", error);
+    return res.status(500).json({ success: false, message: "Failed to load collaborators" });
+  }
+});
+
+// Body: { email | userId, role: "editor" | "viewer" }; adds or changes a collaborator
+app.post("/api/books/:id/collaborators", authenticate, requirePermission("books.edit.own", "books.edit.any"), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const bookId = parseNumericId(req.params.id);
+    if (!bookId) return res.status(400).json({ success: false, message: "Invalid book id" });
+    const book = await db.query.books.findFirst({ where: eq(schema.books.id, bookId) });
+    if (!book) return res.status(404).json({ success: false, message: "Book not found" });
+    if (!(await canShareBook(user, book))) {
+      return res.status(403).json({ success: false, message: "Only the book's owner can share it" });
+    }
+
+    const { email, userId, role } = req.body ?? {};
+    if (!schema.BOOK_COLLABORATOR_ROLES.includes(role)) {
+      return res.status(400).json({ success: false, message: "Role must be editor or viewer" });
+    }
+    if (!email && !userId) return res.status(400).json({ success: false, message: "Email is required" });
+
+    const target = await findBookAuthor(userId ? { id: Number(userId) } : { email: String(email) });
+    if (!target) {
+      return res.status(404).json({ success: false, message: "No approved teacher with that email" });
+    }
+    if (target.id === book.addedById) {
+      return res.status(400).json({ success: false, message: "That teacher already owns this book" });
+    }
+
+    await setBookCollaborator(book.id, target.id, role, user.id);
+    return res.status(200).json({ success: true, ...(await listBookSharing(book)) });
+  } catch (error) {
+    console.error("Error adding book collaborator:", error);
+    return res.status(500).json({ success: false, message: "Failed to share book" });
+  }
+});
+
+// The owner removes anyone; a collaborator may remove themselves (leave the book)
+app.delete("/api/books/:id/collaborators/:userId", authenticate, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const bookId = parseNumericId(req.params.id);
+    const collaboratorId = parseNumericId(req.params.userId);
+    if (!bookId || !collaboratorId) return res.status(400).json({ success: false, message: "Invalid id(s)" });
+    const book = await db.query.books.findFirst({ where: eq(schema.books.id, bookId) });
+    if (!book) return res.status(404).json({ success: false, message: "Book not found" });
+    if (collaboratorId !== user.id && !(await canShareBook(user, book))) {
+      return res.status(403).json({ success: false, message: "Only the book's owner can change who it is shared with" });
+    }
+
+    if (!(await removeBookCollaborator(book.id, collaboratorId))) {
+      return res.status(404).json({ success: false, message: "Collaborator not found" });
+    }
+    return res.status(200).json({ success: true, ...(await listBookSharing(book)) });
+  } catch (error) {
+    console.error("Error removing book collaborator:", error);
+    return res.status(500).json({ success: false, message: "Failed to remove collaborator" });
+  }
+});
+
+// Body: { email | userId, keepPreviousOwner?: boolean } — e.g. when a teacher leaves
+app.post("/api/books/:id/transfer", authenticate, requirePermission("books.transfer"), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const bookId = parseNumericId(req.params.id);
+    if (!bookId) return res.status(400).json({ success: false, message: "Invalid book id" });
+    const book = await db.query.books.findFirst({ where: eq(schema.books.id, bookId) });
+    if (!book) return res.status(404).json({ success: false, message: "Book not found" });
+
+    const { email, userId, keepPreviousOwner } = req.body ?? {};
+    if (!email && !userId) return res.status(400).json({ success: false, message: "New owner is required" });
+    const target = await findBookAuthor(userId ? { id: Number(userId) } : { email: String(email) });
+    if (!target) {
+      return res.status(404).json({ success: false, message: "No approved teacher with that email" });
+    }
+    if (target.id === book.addedById) {
+      return res.status(400).json({ success: false, message: "That teacher already owns this book" });
+    }
+
+    await transferBookOwnership(book, target.id, { keepPreviousOwner: keepPreviousOwner === true, transferredById: user.id });
+    const updated = { ...book, addedById: target.id };
+    return res.status(200).json({ success: true, message: "Ownership transferred", ...(await listBookSharing(updated)) });
+  } catch (error) {
+    console.error("Error transferring book:", error);
+    return res.status(500).json({ success: false, message: "Failed to transfer book" });
+  }
+});
+
+// =========================
+// Book publishing & review
+// =========================
+// Publishers, and whoever owns, co-authors or may edit the book
+async function canSeeBookReviews(user: { id: number; role: string }, book: schema.Book) {
+  if (await hasPermission(user, "books.publish")) return true;
+  if ((await bookAccessFor(user.id, book)) !== null) return true;
+  return canActOnBook(user, book, "books.edit");
+}
+
+// Books waiting for a publisher, longest waiting first
+app.get("/api/book-reviews", authenticate, requirePermission("books.publish"), async (_req, res) => {
+  try {
+    const books = await listReviewQueue();
+    return res.status(200).json({ success: true, books });
+  } catch (error) {
+    console.error("Error loading review queue:", error);
+    return res.status(500).json({ success: false, message: "Failed to load review queue" });
+  }
+});
+
+// Body: { action: submit | withdraw | approve | reject | publish | archive | restore, comment?, publishAt? }
+// publishAt: ISO time (future = scheduled), null = right away, omitted = keep the current one
+app.post("/api/books/:id/status", authenticate, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const bookId = parseNumericId(req.params.id);
+    if (!bookId) return res.status(400).json({ success: false, message: "Invalid book id" });
+    const book = await db.query.books.findFirst({
+      where: and(eq(schema.books.id, bookId), isNull(schema.books.deletedAt)),
+    });
+    if (!book) return res.status(404).json({ success: false, message: "Book not found" });
+
+    const { action } = req.body ?? {};
+    if (!isBookStatusAction(action)) return res.status(400).json({ success: false, message: "Invalid action" });
+    const comment = typeof req.body.comment === "string" ? req.body.comment.trim() : "";
+    if (comment.length > MAX_REVIEW_COMMENT) {
+      return res.status(400).json({ success: false, message: `Comment must be at most ${MAX_REVIEW_COMMENT} characters` });
+    }
+
+    let publishAt: Date | null | undefined;
+    if (req.body.publishAt === null || req.body.publishAt === "") publishAt = null;
+    else if (req.body.publishAt !== undefined) {
+      publishAt = new Date(req.body.publishAt);
+      if (Number.isNaN(publishAt.getTime())) {
+        return res.status(400).json({ success: false, message: "Invalid publish time" });
+      }
+    }
+
+    const denied = await bookStatusChangeError(user, book, action, comment || null);
+    if (denied) return res.status(denied.status).json({ success: false, message: denied.message });
+
+    const updated = await changeBookStatus(book, action, user.id, { comment: comment || null, publishAt });
+    return res.status(200).json({ success: true, book: updated, events: await listBookReviewEvents(book.id) });
+  } catch (error) {
+    console.error("Error changing book status:", error);
+    return res.status(500).json({ success: false, message: "Failed to change book status" });
+  }
+});
+
+// Status changes and review comments on a book, oldest first
+app.get("/api/books/:id/reviews", authenticate, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const bookId = parseNumericId(req.params.id);
+    if (!bookId) return res.status(400).json({ success: false, message: "Invalid book id" });
+    const book = await db.query.books.findFirst({ where: eq(schema.books.id, bookId) });
+    if (!book) return res.status(404).json({ success: false, message: "Book not found" });
+    if (!(await canSeeBookReviews(user, book))) {
+      return res.status(403).json({ success: false, message: "This book is not shared with you" });
+    }
+
+    const events = await listBookReviewEvents(book.id);
+    return res.status(200).json({ success: true, events });
+  } catch (error) {
+    console.error("Error loading book reviews:", error);
+    return res.status(500).json({ success: false, message: "Failed to load review history" });
+  }
+});
+
+// Body: { comment } — a note between the author and the reviewer, status unchanged
+app.post("/api/books/:id/reviews", authenticate, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const bookId = parseNumericId(req.params.id);
+    if (!bookId) return res.status(400).json({ success: false, message: "Invalid book id" });
+    const book = await db.query.books.findFirst({ where: eq(schema.books.id, bookId) });
+    if (!book) return res.status(404).json({ success: false, message: "Book not found" });
+    if (!(await canSeeBookReviews(user, book))) {
+      return res.status(403).json({ success: false, message: "This book is not shared with you" });
+    }
+
+    const comment = typeof req.body?.comment === "string" ? req.body.comment.trim() : "";
+    if (!comment) return res.status(400).json({ success: false, message: "Comment is required" });
+    if (comment.length > MAX_REVIEW_COMMENT) {
+      return res.status(400).json({ success: false, message: `Comment must be at most ${MAX_REVIEW_COMMENT} characters` });
+    }
+
+    await addBookReviewComment(book.id, user.id, comment);
+    return res.status(201).json({ success: true, events: await listBookReviewEvents(book.id) });
+  } catch (error) {
+    console.error("Error adding book review comment:", error);
+    return res.status(500).json({ success: false, message: "Failed to add comment" });
+  }
+});
+
+// =========================
+// Trash (books, pages, questions)
+// =========================
+const trashPermissions = ["books.delete.own", "books.delete.any", "books.edit.own", "books.edit.any"] as const;
+
+// What the user may restore or delete for good, newest first
+app.get("/api/trash", authenticate, requirePermission(...trashPermissions), async (req, res) => {
+  try {
+    const [trash, retentionDays] = await Promise.all([listTrash((req as any).user), getTrashRetentionDays()]);
+    return res.status(200).json({ success: true, ...trash, retentionDays });
+  } catch (error) {
+    console.error("Error loading trash:", error);
+    return res.status(500).json({ success: false, message: "Failed to load trash" });
   }
-);
+});
 
-// Update (teacher)
-app.put("/api/teacher/books/:id", authenticate, authorize(["teacher"]), async (req, res) => {
+// :kind = books | pages | questions
+app.post("/api/trash/:kind/:id/restore", authenticate, requirePermission(...trashPermissions), async (req, res) => {
   try {
-    const bookId = parseInt(req.params.id, 10);
+    const { kind } = req.params;
+    const id = parseNumericId(req.params.id);
+    if (!isTrashKind(kind) || !id) return res.status(400).json({ success: false, message: "Invalid item" });
 
-    const {
-      title,
-      description,
-      type,              // "storybook" | "educational"
-      grade,
-      subject,
-      coverImage,
-      coverPublicId,
-      musicUrl,
-      quizMode,
-    } = (req.body ?? {}) as any;
+    const item = await findTrashItem((req as any).user, kind, id);
+    if ("error" in item) return res.status(item.error.status).json({ success: false, message: item.error.message });
 
-    if (!title || !description || !type || !grade) {
-      return res.status(400).json({
-        message: "Validation error",
-        errors: "Title, description, type, and grade are required",
-      });
-    }
-    if (type === "educational" && (!subject || !String(subject).trim())) {
-      return res.status(400).json({ message: "Subject is required for educational books" });
-    }
+    const failed = await restoreTrashItem(item);
+    if (failed) return res.status(failed.status).json({ success: false, message: failed.message });
+    return res.status(200).json({ success: true, message: "Restored" });
+  } catch (error) {
+    console.error("Error restoring from trash:", error);
+    return res.status(500).json({ success: false, message: "Failed to restore" });
+  }
+});
 
-    const safeQuizMode: "retry" | "straight" = quizMode === "straight" ? "straight" : "retry";
-    const update = {
-      title: String(title).trim(),
-      description: String(description).trim(),
-      type,
-      grade,
-      subject: type === "educational" ? String(subject).trim() : null,
-      coverImage: coverImage ?? null,
-      coverPublicId: coverPublicId ?? null,
-      musicUrl: musicUrl ?? null,
-      quizMode: safeQuizMode,
-    };
+// Delete for good now instead of waiting for the purge (also removes the Cloudinary files)
+app.delete("/api/trash/:kind/:id", authenticate, requirePermission(...trashPermissions), async (req, res) => {
+  try {
+    const { kind } = req.params;
+    const id = parseNumericId(req.params.id);
+    if (!isTrashKind(kind) || !id) return res.status(400).json({ success: false, message: "Invalid item" });
 
-    const exists = await db.query.books.findFirst({ where: eq(schema.books.id, bookId) });
-    if (!exists) return res.status(404).json({ message: "Book not found" });
+    const item = await findTrashItem((req as any).user, kind, id);
+    if ("error" in item) return res.status(item.error.status).json({ success: false, message: item.error.message });
 
-    const [updated] = await db.update(schema.books).set(update).where(eq(schema.books.id, bookId)).returning();
-    return res.status(200).json({ message: "Book updated successfully", book: updated });
+    await purgeTrashItem(kind, id);
+    return res.status(200).json({ success: true, message: "Deleted permanently" });
   } catch (error) {
-    console.error("Error in edit book (teacher):", error);
-    return res.status(500).json({ message: "Internal server error" });
+    console.error("Error purging from trash:", error);
+    return res.status(500).json({ success: false, message: "Failed to delete permanently" });
   }
 });
 
-app.delete("/api/teacher/books/:id", authenticate, authorize(["teacher"]), async (req, res) => {
+// =========================
+// Book packages (export / import)
+// =========================
+// Multer errors (size, file type) as a 400 instead of the generic error handler
+const receiveBookPackage = (req: Request, res: Response, next: Function) =>
+  uploadBookPackage.single("package")(req, res, (err: any) => {
+    if (!err) return next();
+    const message =
+      err?.code === "LIMIT_FILE_SIZE"
+        ? `The package is larger than ${MAX_PACKAGE_BYTES / (1024 * 1024)} MB`
+        : err?.message || "Upload failed";
+    return res.status(400).json({ success: false, message });
+  });
+
+// Open + validate the uploaded package and work out the slug it would get
+const readUploadedPackage = async (
+  req: Request
+): Promise<{ read: ReadPackage; slug: string } | { error: string; issues?: PackageIssue[] }> => {
+  const file = (req as any).file as { buffer: Buffer } | undefined;
+  if (!file) return { error: "No package uploaded" };
+  const title = typeof req.body?.title === "string" ? req.body.title : undefined;
+  const read = await readBookPackage(file.buffer, { title });
+  if ("error" in read) return read;
+  const slug = await ensureUniqueSlug(read.pkg.slug || read.book.title);
+  return { read, slug };
+};
+
+// Zip of the book; ?media=manifest leaves the media as links instead of bundling them
+app.get("/api/books/:id/package", authenticate, requirePermission("books.edit.own", "books.edit.any"), async (req, res) => {
   try {
-    const bookId = parseInt(req.params.id);
-    const book = await db.query.books.findFirst({ where: eq(schema.books.id, bookId) });
-    if (!book) return res.status(404).json({ message: "Book not found" });
+    const bookId = parseNumericId(req.params.id);
+    if (!bookId) return res.status(400).json({ success: false, message: "Invalid book id" });
+    const media = req.query.media ?? "files";
+    if (!isPackageMediaMode(media)) return res.status(400).json({ success: false, message: "media must be files or manifest" });
 
-    const pages = await db.query.pages.findMany({
-      where: eq(schema.pages.bookId, bookId),
-      with: { questions: true },
+    const book = await db.query.books.findFirst({
+      where: and(eq(schema.books.id, bookId), isNull(schema.books.deletedAt)),
     });
+    if (!book) return res.status(404).json({ success: false, message: "Book not found" });
+    if (!(await canActOnBook((req as any).user, book, "books.edit"))) return bookForbidden(res);
 
-    await db.transaction(async (tx) => {
-      for (const page of pages) {
-        if (page.questions?.length) {
-          await tx.delete(schema.questions).where(inArray(schema.questions.id, page.questions.map((q) => q.id)));
-        }
-      }
-      if (pages.length) await tx.delete(schema.pages).where(eq(schema.pages.bookId, bookId));
-      await tx.delete(schema.progress).where(eq(schema.progress.bookId, bookId));
-      await tx.delete(schema.books).where(eq(schema.books.id, bookId));
-    });
+    const pkg = await buildBookPackage(bookId, media);
+    if (!pkg) return res.status(404).json({ success: false, message: "Book not found" });
 
-    return res.status(200).json({ message: "Book deleted successfully by teacher", id: bookId });
+    res.setHeader("Content-Type", "application/zip");
+    res.setHeader("Content-Disposition", `attachment; filename="${pkg.fileName}"`);
+    return res.send(pkg.archive);
   } catch (error) {
-    console.error("Error deleting book for teacher:", error);
-    return res.status(500).json({ message: "Internal server error" });
+    console.error("Error exporting book package:", error);
+    return res.status(500).json({ success: false, message: "Failed to export the book" });
   }
 });
 
+// preview: validate + conflicts, nothing is uploaded or written
+app.post(
+  "/api/books/import/preview",
+  authenticate,
+  requirePermission("books.create"),
+  uploadLimiter,
+  receiveBookPackage,
+  async (req, res) => {
+    try {
+      const result = await readUploadedPackage(req);
+      if ("error" in result) return res.status(400).json({ success: false, message: result.error, issues: result.issues });
+
+      const conflicts = await findPackageConflicts(result.read, result.slug);
+      return res.json({ success: true, ...summarizePackage(result.read), slug: result.slug, conflicts });
+    } catch (error) {
+      console.error("Book package preview error:", error);
+      return res.status(500).json({ success: false, message: "Failed to read the book package" });
+    }
+  }
+);
+
+// import: creates the book as a draft owned by the importer
+app.post(
+  "/api/books/import",
+  authenticate,
+  requirePermission("books.create"),
+  uploadLimiter,
+  receiveBookPackage,
+  async (req, res) => {
+    try {
+      const result = await readUploadedPackage(req);
+      if ("error" in result) return res.status(400).json({ success: false, message: result.error, issues: result.issues });
+
+      const found = await findPackageConflicts(result.read, result.slug);
+      const blocking = found.filter((c) => c.blocking);
+      if (blocking.length) {
+        return res.status(409).json({ success: false, message: blocking[0].message, conflicts: blocking });
+      }
+
+      const { book, conflicts } = await importBookPackage(result.read, {
+        slug: result.slug,
+        userId: (req as any).user.id,
+        conflicts: found,
+      });
+      return res.status(201).json({ success: true, message: "Book imported as a draft", book, conflicts });
+    } catch (error: any) {
+      // a book created meanwhile can still win the unique index race
+      if (error?.code === "23505") {
+        return res.status(409).json({
+          success: false,
+          message: "A book with this title or address was just added. Preview the package again and retry.",
+        });
+      }
+      console.error("Book package import error:", error);
+      return res.status(500).json({ success: false, message: "Failed to import the book" });
+    }
+  }
+);
 
 // =========================
 // Badges & Book–Badge Mapping
 // =========================
 
 // Create a badge (admin/teacher)
-app.post("/api/badges", authenticate,authorize(["admin", "teacher"]),async (req, res) => {
+app.post("/api/badges", authenticate,requirePermission("badges.manage"),async (req, res) => {
     try {
       const userId = (req as any).user?.id;
       const {
@@ -2020,7 +5247,7 @@ app.get("/api/badges", authenticate, async (req, res) => {
 });
 
 // Update badge (admin/teacher)
-app.patch("/api/badges/:id", authenticate, authorize(["admin", "teacher"]),
+app.patch("/api/badges/:id", authenticate, requirePermission("badges.manage"),
   async (req, res) => {
     try {
       const id = parseInt(req.params.id);
@@ -2048,7 +5275,7 @@ app.patch("/api/badges/:id", authenticate, authorize(["admin", "teacher"]),
 );
 
 // Delete badge (admin only)
-app.delete("/api/badges/:id", authenticate, authorize(["admin"]),
+app.delete("/api/badges/:id", authenticate, requirePermission("badges.delete"),
   async (req, res) => {
     try {
       const id = parseInt(req.params.id);
@@ -2073,7 +5300,7 @@ app.delete("/api/badges/:id", authenticate, authorize(["admin"]),
 app.post(
   "/api/books/:bookId/badges",
   authenticate,
-  authorize(["admin", "teacher"]),
+  requirePermission("badges.manage"),
   async (req, res) => {
     try {
       const bookId = Number(req.params.bookId);
@@ -2089,6 +5316,7 @@ app.post(
       // ensure book & badge exist
       const book = await db.query.books.findFirst({ where: eq(schema.books.id, bookId) });
       if (!book) return res.status(404).json({ success: false, message: "Book not found" });
+      if (!(await canActOnBook((req as any).user, book, "books.edit"))) return bookForbidden(res);
 
       const badge = await db.query.badges.findFirst({
         where: eq(schema.badges.id, Number(badgeId)),
@@ -2142,7 +5370,7 @@ app.post(
 );
 
 // List badges attached to a book
-app.get( "/api/books/:bookId/badges", authenticate, authorize(["admin", "teacher", "student"]),
+app.get( "/api/books/:bookId/badges", authenticate, requirePermission("books.view"),
   async (req, res) => {
     try {
       const bookId = parseInt(req.params.bookId);
@@ -2163,7 +5391,7 @@ app.get( "/api/books/:bookId/badges", authenticate, authorize(["admin", "teacher
 );
 
 // Remove badge mapping from a book (admin/teacher)
-app.delete( "/api/books/:bookId/badges/:bookBadgeId", authenticate, authorize(["admin", "teacher"]), async (req, res) => {
+app.delete( "/api/books/:bookId/badges/:bookBadgeId", authenticate, requirePermission("badges.manage"), async (req, res) => {
     try {
       const bookId = parseInt(req.params.bookId);
       const bookBadgeId = parseInt(req.params.bookBadgeId);
@@ -2175,6 +5403,7 @@ app.delete( "/api/books/:bookId/badges/:bookBadgeId", authenticate, authorize(["
         where: and(eq(schema.bookBadges.id, bookBadgeId), eq(schema.bookBadges.bookId, bookId)),
       });
       if (!mapping) return res.status(404).json({ success: false, message: "Book badge mapping not found" });
+      if (!(await canEditBookId((req as any).user, bookId))) return bookForbidden(res);
 
       await db.delete(schema.bookBadges).where(eq(schema.bookBadges.id, bookBadgeId));
       return res.status(200).json({ success: true, message: "Book badge removed" });
@@ -2195,6 +5424,9 @@ app.get("/api/users/:userId/badges", authenticate, async (req, res) => {
     if (requester.role === "student" && requester.id !== userId) {
       return res.status(403).json({ success: false, message: "Access denied" });
     }
+    if (requester.role === "teacher" && requester.id !== userId && !(await teachesStudent(requester.id, userId))) {
+      return res.status(403).json({ success: false, message: "This student is not in your class" });
+    }
 
     const earned = await db.query.earnedBadges.findMany({
       where: eq(schema.earnedBadges.userId, userId),
@@ -2234,7 +5466,7 @@ app.get("/api/users/:userId/badges", authenticate, async (req, res) => {
 app.post(
   "/api/users/:userId/badges",
   authenticate,
-  authorize(["admin", "teacher"]),
+  requirePermission("badges.award"),
   async (req, res) => {
     try {
       const userId = Number(req.params.userId);
@@ -2250,6 +5482,10 @@ app.post(
       // ensure user & badge exist
       const user = await db.query.users.findFirst({ where: eq(schema.users.id, userId) });
       if (!user) return res.status(404).json({ success: false, message: "User not found" });
+      const me = (req as any).user;
+      if (me.role === "teacher" && !(await teachesStudent(me.id, userId))) {
+        return res.status(403).json({ success: false, message: "This student is not in your class" });
+      }
 
       const badge = await db.query.badges.findFirst({
         where: eq(schema.badges.id, Number(badgeId)),
@@ -2355,9 +5591,10 @@ app.get(
         return res.status(200).json({ progress: progressData });
       }
 
-      // Teacher: only approved students
+      // Teacher: only approved students they teach
       if (role === "teacher") {
         const progressData = await db.query.progress.findMany({
+          where: teachesStudentCondition(userId, schema.progress.userId),
           with: {
             book: true,
             user: {
@@ -2380,13 +5617,13 @@ app.get(
         return res.status(200).json({ progress: approved });
       }
 
-      // Student: only own progress
+      // Student: only own progress, on books that are not in the trash
       const progressData = await db.query.progress.findMany({
         where: eq(schema.progress.userId, userId),
         with: { book: true },
         orderBy: desc(schema.progress.lastReadAt),
       });
-      return res.status(200).json({ progress: progressData });
+      return res.status(200).json({ progress: progressData.filter((p) => !p.book.deletedAt) });
     } catch (error) {
       console.error("Error fetching progress:", error);
       return res.status(500).json({ message: "Internal server error" });
@@ -2417,12 +5654,15 @@ app.post(
       if (!Number.isFinite(bookId)) {
         return res.status(400).json({ message: "Invalid or missing bookId" });
       }
+      if (userId !== authUserId && !(await canSeeStudent({ id: authUserId, role }, userId))) {
+        return res.status(403).json({ message: "This student is not in your class" });
+      }
       if (!Number.isFinite(percentComplete)) percentComplete = 0;
       percentComplete = Math.max(0, Math.min(100, Math.round(percentComplete)));
 
-      // ensure book exists (no slug dependency)
+      // ensure book exists and is not in the trash (no slug dependency)
       const book = await db.query.books.findFirst({
-        where: eq(schema.books.id, bookId),
+        where: and(eq(schema.books.id, bookId), isNull(schema.books.deletedAt)),
       });
       if (!book) return res.status(404).json({ message: "Book not found" });
 
@@ -2438,6 +5678,7 @@ app.post(
           .update(schema.progress)
           .set({
             percentComplete,
+            completedAt: completedAtOnUpdate(percentComplete),
             lastReadAt: now,
           })
           .where(eq(schema.progress.id, existing.id))
@@ -2452,6 +5693,7 @@ app.post(
           userId,
           bookId,
           percentComplete,
+          completedAt: completedAtOnInsert(percentComplete),
           totalReadingTime: 0, // keep your existing default
           lastReadAt: now,
         })
@@ -2472,31 +5714,19 @@ app.post(
 // Exclusive 2D Storybook (slug-based)
 // =========================
 
-// tiny auth helper (same style you use elsewhere)
-function requireUserId(req: Request): number {
-  const token = req.headers.authorization?.split(" ")[1];
-  if (!token) {
-    throw new Error("Authentication required");
-  }
-  const payload = jwt.verify(token, JWT_SECRET) as any;
-  if (!payload?.id) {
-    throw new Error("Invalid token");
-  }
-  return payload.id as number;
-}
-
-// Resolve slug -> bookId
-async function resolveBookIdBySlug(slug: string): Promise<number> {
+// Resolve slug -> bookId; 404 for books in the trash and unless the user may see the
+// book (students: published and live)
+async function resolveBookIdBySlug(slug: string, user: { id: number; role: string }): Promise<number> {
   // If you created the ensure helper, use it so exclusives self-register:
   // const row = await ensureExclusiveBookForSlug({ slug, defaults: { type: "storybook" } });
   // return row.id;
 
   // Otherwise, do a simple lookup. (Returns 404 if missing.)
   const row = await db.query.books.findFirst({
-    where: eq(schema.books.slug as any, slug),
-    columns: { id: true },
+    where: and(eq(schema.books.slug as any, slug), isNull(schema.books.deletedAt)),
+    columns: { id: true, addedById: true, status: true, publishAt: true, deletedAt: true },
   });
-  if (!row) {
+  if (!row || !(await canViewBook(user, row))) {
     throw Object.assign(new Error("Not found"), { status: 404 });
   }
   return row.id;
@@ -2506,11 +5736,11 @@ async function resolveBookIdBySlug(slug: string): Promise<number> {
  * GET /api/stories/:slug/checkpoint
  * Returns the last checkpoint for this user+book (by slug).
  */
-app.get("/api/stories/:slug/checkpoint", async (req: Request, res: Response) => {
+app.get("/api/stories/:slug/checkpoint", authenticate, async (req: Request, res: Response) => {
   try {
-    const userId = requireUserId(req);
+    const userId = (req as any).user.id as number;
     const slug = req.params.slug;
-    const bookId = await resolveBookIdBySlug(slug);
+    const bookId = await resolveBookIdBySlug(slug, (req as any).user);
 
     const cp = await db.query.storyCheckpoints.findFirst({
       where: and(
@@ -2521,7 +5751,7 @@ app.get("/api/stories/:slug/checkpoint", async (req: Request, res: Response) =>
 
     return res.status(200).json({ checkpoint: cp ?? null });
   } catch (err: any) {
-    const status = err?.status ?? (err?.message?.includes("Authentication") ? 401 : 500);
+    const status = err?.status ?? 500;
     return res.status(status).json({ message: err.message || "Error getting checkpoint" });
   }
 });
@@ -2531,11 +5761,11 @@ app.get("/api/stories/:slug/checkpoint", async (req: Request, res: Response) =>
  * Upsert the checkpoint payload for this user+book (by slug).
  * Body can include: pageId, pageNumber, answersJson, quizStateJson, audioPositionSec, percentComplete
  */
-app.put("/api/stories/:slug/checkpoint", async (req: Request, res: Response) => {
+app.put("/api/stories/:slug/checkpoint", authenticate, async (req: Request, res: Response) => {
   try {
-    const userId = requireUserId(req);
+    const userId = (req as any).user.id as number;
     const slug = req.params.slug;
-    const bookId = await resolveBookIdBySlug(slug);
+    const bookId = await resolveBookIdBySlug(slug, (req as any).user);
 
     const {
       pageId = null,
@@ -2576,7 +5806,7 @@ app.put("/api/stories/:slug/checkpoint", async (req: Request, res: Response) =>
 
     return res.status(200).json({ checkpoint: updated[0] });
   } catch (err: any) {
-    const status = err?.status ?? (err?.message?.includes("Authentication") ? 401 : 500);
+    const status = err?.status ?? 500;
     return res.status(status).json({ message: err.message || "Error saving checkpoint" });
   }
 });
@@ -2585,20 +5815,20 @@ app.put("/api/stories/:slug/checkpoint", async (req: Request, res: Response) =>
  * POST /api/stories/:slug/complete
  * Marks the book as completed for this user (and bumps Progress to 100%).
  */
-app.post("/api/stories/:slug/complete", async (req: Request, res: Response) => {
+app.post("/api/stories/:slug/complete", authenticate, async (req: Request, res: Response) => {
   try {
-    const userId = requireUserId(req);
+    const userId = (req as any).user.id as number;
     const slug = req.params.slug;
-    const bookId = await resolveBookIdBySlug(slug);
+    const bookId = await resolveBookIdBySlug(slug, (req as any).user);
 
     // upsert progress as 100%
     const now = new Date();
     await db
       .insert(schema.progress)
-      .values({ userId, bookId, percentComplete: 100, lastReadAt: now })
+      .values({ userId, bookId, percentComplete: 100, completedAt: now, lastReadAt: now })
       .onConflictDoUpdate({
         target: [schema.progress.userId, schema.progress.bookId],
-        set: { percentComplete: 100, lastReadAt: now },
+        set: { percentComplete: 100, completedAt: completedAtOnUpdate(100), lastReadAt: now },
       });
 
     // NEW: try to award the exclusive finisher badge (slug-gated)
@@ -2613,7 +5843,7 @@ app.post("/api/stories/:slug/complete", async (req: Request, res: Response) => {
       alreadyHad: badge.alreadyHad,
     });
   } catch (err: any) {
-    const status = err?.status ?? (err?.message?.includes("Authentication") ? 401 : 500);
+    const status = err?.status ?? 500;
     return res.status(status).json({ message: err.message || "Error marking complete" });
   }
 });
@@ -2628,11 +5858,13 @@ app.post(
       if (!userId) return res.status(401).json({ success: false, message: "Unauthorized" });
 
       const slug = req.params.slug;
-      const result = await awardExclusiveStoryBadge({ userId, slug });
+      const bookId = await resolveBookIdBySlug(slug, (req as any).user);
+      const result = await awardExclusiveStoryBadge({ userId, bookId, slug });
 
       // result has { attempted, awarded, alreadyHad, badgeId?, badgeName? }
       return res.status(200).json({ success: true, ...result });
     } catch (err: any) {
+      if (err?.status === 404) return res.status(404).json({ success: false, message: "Book not found" });
       console.error("POST /api/stories/:slug/award-exclusive-badge error:", err);
       return res.status(500).json({ success: false, message: "Failed to award badge" });
     }
@@ -2642,7 +5874,7 @@ app.post(
   // =========================
   // Quiz Attempts
   // =========================
-  app.post("/api/quiz-attempts", authenticate, async (req, res) => {
+  app.post("/api/quiz-attempts", authenticate, quizAttemptLimiter, async (req, res) => {
     try {
       const user = (req as any).user as { id: number; role: "student" | "teacher" | "admin" };
       if (!["student", "teacher", "admin"].includes(user.role)) {
@@ -2737,8 +5969,12 @@ app.post(
       if (user.role === "student" && filterUserId && filterUserId !== user.id) {
         return res.status(403).json({ success: false, message: "Access denied" });
       }
+      if (user.role === "teacher" && filterUserId !== undefined && !(await teachesStudent(user.id, filterUserId))) {
+        return res.status(403).json({ success: false, message: "This student is not in your class" });
+      }
 
       const whereClauses: any[] = [];
+      if (user.role === "teacher") whereClauses.push(teachesStudentCondition(user.id, schema.quizAttempts.userId));
       if (filterUserId !== undefined) whereClauses.push(eq(schema.quizAttempts.userId, filterUserId));
       else if (user.role === "student") whereClauses.push(eq(schema.quizAttempts.userId, user.id));
       if (filterBookId !== undefined) whereClauses.push(eq(schema.quizAttempts.bookId, filterBookId));
@@ -2885,7 +6121,7 @@ app.post(
   // Students / Teachers (admin views)
   // =========================
 
-app.get("/api/students", authenticate,authorize(["admin", "teacher"]),async (req, res) => {
+app.get("/api/students", authenticate,requirePermission("students.view"),async (req, res) => {
     try {
       const approvalStatus = (req.query.status as string) || "";
       const gradeLevelQ = (req.query.grade as string) || "all";
@@ -2893,7 +6129,7 @@ app.get("/api/students", authenticate,authorize(["admin", "teacher"]),async (req
       const userRole = (req as any).user?.role;
       const userId = (req as any).user?.id;
 
-      const conditions: any[] = [eq(schema.users.role, "student")];
+      const conditions: any[] = [eq(schema.users.role, "student"), isNull(schema.users.deletedAt)];
 
       // status filter
       if (approvalStatus && ["pending", "approved", "rejected"].includes(approvalStatus)) {
@@ -2919,22 +6155,21 @@ if (gradeLevelQ && gradeLevelQ !== "all") {
         );
       }
 
-      // teacher settings narrowing (grades) — canonicalize stored values too
-      if (userRole === "teacher") {
-        const teacherSettings = await db
-          .select()
-          .from(schema.teachingSettings)
-          .where(eq(schema.teachingSettings.userId, userId))
-          .limit(1);
+      // teachers only see the students they teach (class rosters and direct enrollments)
+      if (userRole === "teacher") conditions.push(teachesStudentCondition(userId, schema.users.id));
 
-        if (teacherSettings.length > 0 && teacherSettings[0].preferredGrades?.length) {
-          const canon = teacherSettings[0].preferredGrades
-            .map((g: string) => toCanonicalGrade(g))
-            .filter(Boolean);
-          if (canon.length) {
-            conditions.push(inArray(schema.users.gradeLevel, canon as any));
-          }
-        }
+      // one class's roster
+      const classId = parseNumericId(req.query.classId as string | undefined);
+      if (classId) {
+        conditions.push(
+          inArray(
+            schema.users.id,
+            db
+              .select({ id: schema.classStudents.studentId })
+              .from(schema.classStudents)
+              .where(eq(schema.classStudents.classId, classId))
+          )
+        );
       }
 
       const students = await db
@@ -2951,7 +6186,7 @@ if (gradeLevelQ && gradeLevelQ !== "all") {
   }
 );
 
-  app.get("/api/students/pending", authenticate, authorize(["admin"]), async (req, res) => {
+  app.get("/api/students/pending", authenticate, requirePermission("students.approve"), async (req, res) => {
     try {
       const pendingStudents = await storage.getPendingStudents();
       return res.status(200).json({ students: pendingStudents });
@@ -2960,8 +6195,66 @@ if (gradeLevelQ && gradeLevelQ !== "all") {
       return res.status(500).json({ message: "Internal server error" });
     }
   });
+  // =========================
+  // Bulk student import (CSV)
+  // =========================
+  // preview: parse + validate + duplicate check, nothing is written
+  app.post("/api/students/import/preview", authenticate, requirePermission("students.import"), async (req, res) => {
+    try {
+      const { rows, error } = parseStudentCsv(String(req.body?.csv ?? ""));
+      if (error) return res.status(400).json({ success: false, message: error });
+
+      await checkImportRows(rows);
+      const invalid = rows.filter((r) => r.errors.length > 0).length;
+      res.json({
+        success: true,
+        rows: rows.map(({ password, ...r }) => ({ ...r, hasPassword: !!password })),
+        valid: rows.length - invalid,
+        invalid,
+      });
+    } catch (error) {
+      console.error("Student import preview error:", error);
+      res.status(500).json({ success: false, message: "Failed to read the CSV file" });
+    }
+  });
+
+  // create: all-or-nothing; returns the credentials for the login cards
+  app.post("/api/students/import", authenticate, requirePermission("students.import"), async (req, res) => {
+    try {
+      const { rows, error } = parseStudentCsv(String(req.body?.csv ?? ""));
+      if (error) return res.status(400).json({ success: false, message: error });
+
+      await checkImportRows(rows);
+      const invalid = rows.filter((r) => r.errors.length > 0);
+      if (invalid.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: `${invalid.length} row(s) have problems. Fix them and try again.`,
+          rows: invalid.map(({ password, ...r }) => r),
+        });
+      }
+
+      const user = (req as any).user;
+      const students = await createImportedStudents(rows, {
+        teacherId: user.role === "teacher" ? user.id : undefined,
+      });
+
+      res.status(201).json({ success: true, created: students.length, students });
+    } catch (error: any) {
+      // a concurrent signup can still win the unique index race
+      if (error?.code === "23505") {
+        return res.status(409).json({
+          success: false,
+          message: "Some usernames or emails were just taken. Preview the file again and retry.",
+        });
+      }
+      console.error("Student import error:", error);
+      res.status(500).json({ success: false, message: "Failed to import students" });
+    }
+  });
+
 // APPROVE (idempotent; works from pending/rejected/approved)
-app.post("/api/students/:id/approve", authenticate, authorize(["admin"]), async (req, res) => {
+app.post("/api/students/:id/approve", authenticate, requirePermission("students.approve"), async (req, res) => {
   try {
     const studentId = parseNumericId(req.params.id);
     if (!studentId) return res.status(400).json({ message: "Invalid student id" });
@@ -3001,7 +6294,7 @@ app.post("/api/students/:id/approve", authenticate, authorize(["admin"]), async
 });
 
 // REJECT (still only from pending)
-app.post("/api/students/:id/reject", authenticate, authorize(["admin"]), async (req, res) => {
+app.post("/api/students/:id/reject", authenticate, requirePermission("students.approve"), async (req, res) => {
   try {
     const studentId = parseNumericId(req.params.id);
     if (!studentId) return res.status(400).json({ message: "Invalid student id" });
@@ -3036,12 +6329,12 @@ app.post("/api/students/:id/reject", authenticate, authorize(["admin"]), async (
   }
 });
 
-  app.get("/api/teachers", authenticate, authorize(["admin"]), async (req, res) => {
+  app.get("/api/teachers", authenticate, requirePermission("teachers.approve"), async (req, res) => {
     try {
       const approvalStatus = req.query.status as string;
       const search = req.query.search as string;
 
-      const conditions: any[] = [eq(schema.users.role, "teacher")];
+      const conditions: any[] = [eq(schema.users.role, "teacher"), isNull(schema.users.deletedAt)];
       if (approvalStatus && ["pending", "approved", "rejected"].includes(approvalStatus)) {
         conditions.push(eq(schema.users.approvalStatus, approvalStatus as any));
       }
@@ -3065,7 +6358,7 @@ app.post("/api/students/:id/reject", authenticate, authorize(["admin"]), async (
     }
   });
 
-  app.post("/api/teachers/:id/approve", authenticate, authorize(["admin"]), async (req, res) => {
+  app.post("/api/teachers/:id/approve", authenticate, requirePermission("teachers.approve"), async (req, res) => {
     try {
       const teacherId = parseNumericId(req.params.id);
       if (!teacherId) return res.status(400).json({ message: "Invalid teacher id" });
@@ -3087,7 +6380,7 @@ app.post("/api/students/:id/reject", authenticate, authorize(["admin"]), async (
     }
   });
 
-  app.post("/api/teachers/:id/reject", authenticate, authorize(["admin"]), async (req, res) => {
+  app.post("/api/teachers/:id/reject", authenticate, requirePermission("teachers.approve"), async (req, res) => {
     try {
       const teacherId = parseNumericId(req.params.id);
       if (!teacherId) return res.status(400).json({ message: "Invalid teacher id" });
@@ -3111,17 +6404,156 @@ app.post("/api/students/:id/reject", authenticate, authorize(["admin"]), async (
     }
   });
 
+  // Force sign-out (admin): revoke every live session of a user
+  app.post("/api/admin/users/:id/sign-out", authenticate, requireAdmin, async (req, res) => {
+    try {
+      const targetId = parseNumericId(req.params.id);
+      if (!targetId) return res.status(400).json({ success: false, message: "Invalid user id" });
+
+      const target = await db.query.users.findFirst({
+        where: eq(schema.users.id, targetId),
+        columns: { id: true },
+      });
+      if (!target) return res.status(404).json({ success: false, message: "User not found" });
+
+      const revokedCount = await revokeUserSessions(targetId);
+      return res.status(200).json({ success: true, revokedCount, message: `Revoked ${revokedCount} session(s)` });
+    } catch (error) {
+      console.error("Error forcing sign-out:", error);
+      return res.status(500).json({ success: false, message: "Failed to sign out user" });
+    }
+  });
+
+  // =========================
+  // "View as user" (impersonation)
+  // =========================
+  app.post("/api/admin/users/:id/impersonate", authenticate, requireAdmin, async (req, res) => {
+    try {
+      const me = (req as any).user;
+      const targetId = parseNumericId(req.params.id);
+      if (!targetId) return res.status(400).json({ success: false, message: "Invalid user id" });
+
+      const target = await db.query.users.findFirst({ where: eq(schema.users.id, targetId) });
+      if (!target || target.deletedAt) return res.status(404).json({ success: false, message: "User not found" });
+      if (target.role === "admin") {
+        return res.status(403).json({ success: false, message: "Admin accounts cannot be viewed as another user" });
+      }
+
+      const token = await issueAuthToken(target, IMPERSONATION_TTL, req, { imp: me.id });
+      const { exp } = jwt.decode(token) as jwt.JwtPayload;
+      if (me.viaCookie) await beginImpersonationSession(req, res, token);
+      await recordAuthEvent(req, {
+        type: "impersonation_started",
+        userId: me.id,
+        identifier: me.email,
+        metadata: { targetUserId: target.id, targetEmail: target.email },
+      });
+
+      return res.status(200).json({
+        success: true,
+        token: me.viaCookie ? undefined : token,
+        user: loginUserPayload(target),
+        expiresAt: new Date((exp ?? 0) * 1000),
+      });
+    } catch (error) {
+      console.error("Error starting impersonation:", error);
+      return res.status(500).json({ success: false, message: "Failed to view as user" });
+    }
+  });
+
+  // ends the impersonation session; cookie sessions switch back to the parked admin
+  // token here, bearer clients switch back to the admin token they saved
+  app.post("/api/auth/impersonation/end", authenticate, async (req, res) => {
+    try {
+      const me = (req as any).user;
+      if (!me.impersonatorId) {
+        return res.status(400).json({ success: false, message: "Not viewing as another user" });
+      }
+      await revokeSession(me.sessionId);
+      if (me.viaCookie && !(await endImpersonationSession(req, res))) await endCookieSession(req, res);
+      await recordAuthEvent(req, {
+        type: "impersonation_ended",
+        userId: me.impersonatorId,
+        metadata: { targetUserId: me.id },
+      });
+      return res.status(200).json({ success: true, message: "Returned to your admin account" });
+    } catch (error) {
+      console.error("Error ending impersonation:", error);
+      return res.status(500).json({ success: false, message: "Failed to end impersonation" });
+    }
+  });
+
+  app.get("/api/admin/impersonation-actions", authenticate, requireAdmin, async (req, res) => {
+    try {
+      const page = Math.max(1, Number(req.query.page) || 1);
+      const pageSize = Math.min(200, Math.max(1, Number(req.query.pageSize) || 50));
+      const adminId = req.query.adminId ? parseNumericId(String(req.query.adminId)) ?? undefined : undefined;
+      const targetUserId = req.query.targetUserId
+        ? parseNumericId(String(req.query.targetUserId)) ?? undefined
+        : undefined;
+
+      const { actions, total } = await listImpersonationActions({ adminId, targetUserId, page, pageSize });
+      return res.status(200).json({ success: true, actions, total, page, pageSize });
+    } catch (error) {
+      console.error("Error listing impersonation actions:", error);
+      return res.status(500).json({ success: false, message: "Failed to load impersonation log" });
+    }
+  });
+
+  // =========================
+  // Rate limits (admin)
+  // =========================
+  // Open buckets (busiest first); ?limited=1 for keys currently being refused
+  app.get("/api/admin/rate-limits", authenticate, requireAdmin, async (req, res) => {
+    try {
+      const policy = typeof req.query.policy === "string" && req.query.policy ? req.query.policy : undefined;
+      const limitedOnly = req.query.limited === "1" || req.query.limited === "true";
+      const buckets = await getRateLimitStore().list({ policy, limitedOnly, limit: 200 });
+      return res.status(200).json({
+        success: true,
+        policies: listRateLimitPolicies(),
+        buckets: buckets.map((b) => ({ ...b, limited: b.count > b.max })),
+      });
+    } catch (error) {
+      console.error("Error listing rate limits:", error);
+      return res.status(500).json({ success: false, message: "Failed to load rate limits" });
+    }
+  });
+
+  // Clear one key ({ key }) or everything ({ all: true }, optionally for one { policy })
+  app.delete("/api/admin/rate-limits", authenticate, requireAdmin, async (req, res) => {
+    try {
+      const { key, all, policy } = req.body ?? {};
+      if (typeof key === "string" && key) {
+        const cleared = await getRateLimitStore().reset(key);
+        if (!cleared) return res.status(404).json({ success: false, message: "That limit has already expired" });
+        return res.status(200).json({ success: true, cleared: 1 });
+      }
+      if (all === true) {
+        const cleared = await getRateLimitStore().resetAll(typeof policy === "string" && policy ? policy : undefined);
+        return res.status(200).json({ success: true, cleared });
+      }
+      return res.status(400).json({ success: false, message: "Provide a key, or all: true" });
+    } catch (error) {
+      console.error("Error clearing rate limits:", error);
+      return res.status(500).json({ success: false, message: "Failed to clear rate limits" });
+    }
+  });
+
   // =========================
   // Pages & Questions
   // =========================
-  app.get("/api/books/:bookId/pages", authenticate, authorize(["admin", "teacher", "student"]), async (req, res) => {
+  app.get("/api/books/:bookId/pages", authenticate, requirePermission("books.view"), async (req, res) => {
     try {
       const bookId = parseNumericId(req.params.bookId);
       if (!bookId) return res.status(400).json({ message: "Invalid book id" });
+      if (!(await canViewBookId((req as any).user, bookId))) {
+        return res.status(404).json({ message: "Book not found" });
+      }
       const pages = await db.query.pages.findMany({
-        where: eq(schema.pages.bookId, bookId),
+        where: and(eq(schema.pages.bookId, bookId), isNull(schema.pages.deletedAt)),
         orderBy: asc(schema.pages.pageNumber),
-        with: { questions: true },
+        with: { questions: { where: isNull(schema.questions.deletedAt) } },
       });
       return res.status(200).json({ pages });
     } catch (error) {
@@ -3130,15 +6562,17 @@ app.post("/api/students/:id/reject", authenticate, authorize(["admin"]), async (
     }
   });
 
-  app.get("/api/pages/:id", authenticate, authorize(["admin", "teacher", "student"]), async (req, res) => {
+  app.get("/api/pages/:id", authenticate, requirePermission("books.view"), async (req, res) => {
     try {
       const pageId = parseNumericId(req.params.id);
       if (!pageId) return res.status(400).json({ message: "Invalid page id" });
       const page = await db.query.pages.findFirst({
-        where: eq(schema.pages.id, pageId),
-        with: { questions: true },
+        where: and(eq(schema.pages.id, pageId), isNull(schema.pages.deletedAt)),
+        with: { questions: { where: isNull(schema.questions.deletedAt) } },
       });
-      if (!page) return res.status(404).json({ message: "Page not found" });
+      if (!page || !(await canViewBookId((req as any).user, page.bookId))) {
+        return res.status(404).json({ message: "Page not found" });
+      }
       return res.status(200).json({ page });
     } catch (error) {
       console.error("Error fetching page:", error);
@@ -3146,7 +6580,7 @@ app.post("/api/students/:id/reject", authenticate, authorize(["admin"]), async (
     }
   });
 
-  app.post("/api/pages", authenticate, authorize(["admin", "teacher"]), async (req, res) => {
+  app.post("/api/pages", authenticate, requirePermission("books.edit.own", "books.edit.any"), async (req, res) => {
     try {
       const { title, content, imageUrl, pageNumber, bookId, questions, shuffleQuestions } = req.body;
       if (!content || pageNumber === undefined || pageNumber === null || !bookId) {
@@ -3155,14 +6589,18 @@ app.post("/api/students/:id/reject", authenticate, authorize(["admin"]), async (
         });
       }
 
-      const book = await db.query.books.findFirst({ where: eq(schema.books.id, Number(bookId)) });
+      const book = await db.query.books.findFirst({
+        where: and(eq(schema.books.id, Number(bookId)), isNull(schema.books.deletedAt)),
+      });
       if (!book) return res.status(404).json({ message: "Book not found" });
+      if (!(await canActOnBook((req as any).user, book, "books.edit"))) return bookForbidden(res);
 
       // Check if a page with the same page number already exists
       const existingPage = await db.query.pages.findFirst({
         where: and(
           eq(schema.pages.bookId, Number(bookId)),
-          eq(schema.pages.pageNumber, Number(pageNumber))
+          eq(schema.pages.pageNumber, Number(pageNumber)),
+          isNull(schema.pages.deletedAt)
         )
       });
 
@@ -3215,7 +6653,7 @@ app.post("/api/students/:id/reject", authenticate, authorize(["admin"]), async (
     }
   });
 
-  app.put("/api/pages/:id", authenticate, authorize(["admin", "teacher"]), async (req, res) => {
+  app.put("/api/pages/:id", authenticate, requirePermission("books.edit.own", "books.edit.any"), async (req, res) => {
     try {
       const pageId = parseNumericId(req.params.id);
       if (!pageId) return res.status(400).json({ message: "Invalid page id" });
@@ -3225,8 +6663,11 @@ app.post("/api/students/:id/reject", authenticate, authorize(["admin"]), async (
         return res.status(400).json({ message: "Content and page number are required" });
       }
 
-      const page = await db.query.pages.findFirst({ where: eq(schema.pages.id, pageId) });
+      const page = await db.query.pages.findFirst({
+        where: and(eq(schema.pages.id, pageId), isNull(schema.pages.deletedAt)),
+      });
       if (!page) return res.status(404).json({ message: "Page not found" });
+      if (!(await canEditBookId((req as any).user, page.bookId))) return bookForbidden(res);
 
       const updateData: any = {
         title: title || "",
@@ -3239,18 +6680,30 @@ app.post("/api/students/:id/reject", authenticate, authorize(["admin"]), async (
       const [updatedPage] = await db.update(schema.pages).set(updateData).where(eq(schema.pages.id, pageId)).returning();
 
       if (Array.isArray(questions)) {
-        await db.delete(schema.questions).where(eq(schema.questions.pageId, pageId));
+        // questions keep their id (and attempts) when edited; ones left out go to the trash
+        const live = await db.query.questions.findMany({
+          where: and(eq(schema.questions.pageId, pageId), isNull(schema.questions.deletedAt)),
+          columns: { id: true },
+        });
+        const liveIds = new Set(live.map((q) => q.id));
+        const kept = new Set<number>();
         for (const q of questions) {
-          if (q?.questionText && q.questionText.trim()) {
-            await db.insert(schema.questions).values({
-              pageId,
-              questionText: q.questionText.trim(),
-              answerType: q.answerType || "text",
-              correctAnswer: q.correctAnswer || "",
-              options: q.options || "",
-            });
+          if (!q?.questionText || !q.questionText.trim()) continue;
+          const values = {
+            questionText: q.questionText.trim(),
+            answerType: q.answerType || "text",
+            correctAnswer: q.correctAnswer || "",
+            options: q.options || "",
+          };
+          const id = Number(q.id);
+          if (liveIds.has(id) && !kept.has(id)) {
+            kept.add(id);
+            await db.update(schema.questions).set(values).where(eq(schema.questions.id, id));
+          } else {
+            await db.insert(schema.questions).values({ pageId, ...values });
           }
         }
+        await trashQuestions(Array.from(liveIds).filter((id) => !kept.has(id)), (req as any).user.id);
       }
 
       return res.status(200).json({ message: "Page updated successfully", page: updatedPage });
@@ -3260,28 +6713,26 @@ app.post("/api/students/:id/reject", authenticate, authorize(["admin"]), async (
     }
   });
 
-  app.delete("/api/pages/:id", authenticate, authorize(["admin", "teacher"]), async (req, res) => {
+  app.delete("/api/pages/:id", authenticate, requirePermission("books.edit.own", "books.edit.any"), async (req, res) => {
     try {
       const pageId = parseNumericId(req.params.id);
       if (!pageId) return res.status(400).json({ message: "Invalid page id" });
       const page = await db.query.pages.findFirst({
-        where: eq(schema.pages.id, pageId),
-        with: { questions: true },
+        where: and(eq(schema.pages.id, pageId), isNull(schema.pages.deletedAt)),
       });
       if (!page) return res.status(404).json({ message: "Page not found" });
+      if (!(await canEditBookId((req as any).user, page.bookId))) return bookForbidden(res);
 
-      if (page.questions?.length) {
-        await db.delete(schema.questions).where(inArray(schema.questions.id, page.questions.map((q) => q.id)));
-      }
-      const [deletedPage] = await db.delete(schema.pages).where(eq(schema.pages.id, pageId)).returning();
-      return res.status(200).json({ message: "Page deleted successfully", page: deletedPage });
+      // its questions go to the trash with it
+      const purgeAfter = await trashPage(pageId, (req as any).user.id);
+      return res.status(200).json({ message: "Page moved to the trash", page, purgeAfter });
     } catch (error) {
       console.error("Error deleting page:", error);
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/books/:bookId/pages", authenticate, authorize(["admin", "teacher"]), async (req, res) => {
+  app.post("/api/books/:bookId/pages", authenticate, requirePermission("books.edit.own", "books.edit.any"), async (req, res) => {
     try {
       const bookId = parseNumericId(req.params.bookId);
       if (!bookId) return res.status(400).json({ message: "Invalid book id" });
@@ -3290,14 +6741,18 @@ app.post("/api/students/:id/reject", authenticate, authorize(["admin"]), async (
       if (!content || pageNumber === undefined || pageNumber === null) {
         return res.status(400).json({ message: "Content and page number are required" });
       }
-      const book = await db.query.books.findFirst({ where: eq(schema.books.id, bookId) });
+      const book = await db.query.books.findFirst({
+        where: and(eq(schema.books.id, bookId), isNull(schema.books.deletedAt)),
+      });
       if (!book) return res.status(404).json({ message: "Book not found" });
+      if (!(await canActOnBook((req as any).user, book, "books.edit"))) return bookForbidden(res);
 
       // Check if a page with the same page number already exists
       const existingPage = await db.query.pages.findFirst({
         where: and(
           eq(schema.pages.bookId, bookId),
-          eq(schema.pages.pageNumber, Number(pageNumber) || 1)
+          eq(schema.pages.pageNumber, Number(pageNumber) || 1),
+          isNull(schema.pages.deletedAt)
         )
       });
 
@@ -3353,10 +6808,19 @@ app.post("/api/students/:id/reject", authenticate, authorize(["admin"]), async (
   // =========================
   // Questions
   // =========================
-  app.get("/api/pages/:pageId/questions", authenticate, authorize(["admin", "teacher", "student"]), async (req, res) => {
+  app.get("/api/pages/:pageId/questions", authenticate, requirePermission("books.view"), async (req, res) => {
     try {
       const pageId = parseInt(req.params.pageId);
-      const questions = await db.query.questions.findMany({ where: eq(schema.questions.pageId, pageId) });
+      const page = await db.query.pages.findFirst({
+        where: and(eq(schema.pages.id, pageId), isNull(schema.pages.deletedAt)),
+        columns: { bookId: true },
+      });
+      if (!page || !(await canViewBookId((req as any).user, page.bookId))) {
+        return res.status(404).json({ message: "Page not found" });
+      }
+      const questions = await db.query.questions.findMany({
+        where: and(eq(schema.questions.pageId, pageId), isNull(schema.questions.deletedAt)),
+      });
       return res.status(200).json({ questions });
     } catch (error) {
       console.error("Error fetching questions:", error);
@@ -3364,11 +6828,14 @@ app.post("/api/students/:id/reject", authenticate, authorize(["admin"]), async (
     }
   });
 
-  app.post("/api/questions", authenticate, authorize(["admin", "teacher"]), async (req, res) => {
+  app.post("/api/questions", authenticate, requirePermission("books.edit.own", "books.edit.any"), async (req, res) => {
     try {
       const questionData = schema.insertQuestionSchema.parse(req.body);
-      const page = await db.query.pages.findFirst({ where: eq(schema.pages.id, questionData.pageId) });
+      const page = await db.query.pages.findFirst({
+        where: and(eq(schema.pages.id, questionData.pageId), isNull(schema.pages.deletedAt)),
+      });
       if (!page) return res.status(404).json({ message: "Page not found" });
+      if (!(await canEditBookId((req as any).user, page.bookId))) return bookForbidden(res);
 
       const [newQuestion] = await db.insert(schema.questions).values(questionData).returning();
       return res.status(201).json({ message: "Question added successfully", question: newQuestion });
@@ -3381,12 +6848,22 @@ app.post("/api/students/:id/reject", authenticate, authorize(["admin"]), async (
     }
   });
 
-  app.put("/api/questions/:id", authenticate, authorize(["admin", "teacher"]), async (req, res) => {
+  app.put("/api/questions/:id", authenticate, requirePermission("books.edit.own", "books.edit.any"), async (req, res) => {
     try {
       const questionId = parseInt(req.params.id);
       const questionData = schema.insertQuestionSchema.parse(req.body);
-      const question = await db.query.questions.findFirst({ where: eq(schema.questions.id, questionId) });
+      const question = await db.query.questions.findFirst({
+        where: and(eq(schema.questions.id, questionId), isNull(schema.questions.deletedAt)),
+        with: { page: { columns: { bookId: true } } },
+      });
       if (!question) return res.status(404).json({ message: "Question not found" });
+      if (!(await canEditBookId((req as any).user, question.page.bookId))) return bookForbidden(res);
+      // the question may only move to a page of a book the user can edit too
+      const target = await db.query.pages.findFirst({
+        where: and(eq(schema.pages.id, questionData.pageId), isNull(schema.pages.deletedAt)),
+      });
+      if (!target) return res.status(404).json({ message: "Page not found" });
+      if (!(await canEditBookId((req as any).user, target.bookId))) return bookForbidden(res);
 
       const [updatedQuestion] = await db
         .update(schema.questions)
@@ -3404,14 +6881,18 @@ app.post("/api/students/:id/reject", authenticate, authorize(["admin"]), async (
     }
   });
 
-  app.delete("/api/questions/:id", authenticate, authorize(["admin", "teacher"]), async (req, res) => {
+  app.delete("/api/questions/:id", authenticate, requirePermission("books.edit.own", "books.edit.any"), async (req, res) => {
     try {
       const questionId = parseInt(req.params.id);
-      const question = await db.query.questions.findFirst({ where: eq(schema.questions.id, questionId) });
+      const question = await db.query.questions.findFirst({
+        where: and(eq(schema.questions.id, questionId), isNull(schema.questions.deletedAt)),
+        with: { page: { columns: { bookId: true } } },
+      });
       if (!question) return res.status(404).json({ message: "Question not found" });
+      if (!(await canEditBookId((req as any).user, question.page.bookId))) return bookForbidden(res);
 
-      const [deletedQuestion] = await db.delete(schema.questions).where(eq(schema.questions.id, questionId)).returning();
-      return res.status(200).json({ message: "Question deleted successfully", question: deletedQuestion });
+      const purgeAfter = await trashQuestion(questionId, (req as any).user.id);
+      return res.status(200).json({ message: "Question moved to the trash", question, purgeAfter });
     } catch (error) {
       console.error("Error deleting question:", error);
       return res.status(500).json({ message: "Internal server error" });
@@ -3454,7 +6935,7 @@ app.post("/api/books/:bookId/complete", authenticate, async (req, res) => {
     if (existingProgress) {
       const [updated] = await db
         .update(schema.progress)
-        .set({ percentComplete: 100, lastReadAt: new Date() })
+        .set({ percentComplete: 100, completedAt: completedAtOnUpdate(100), lastReadAt: new Date() })
         .where(eq(schema.progress.id, existingProgress.id))
         .returning();
       progressRow = updated;
@@ -3465,6 +6946,7 @@ app.post("/api/books/:bookId/complete", authenticate, async (req, res) => {
           userId,
           bookId,
           percentComplete: 100,
+          completedAt: new Date(),
           lastReadAt: new Date(),
         })
         .returning();
@@ -3619,9 +7101,22 @@ app.post("/api/auth/forgot-password/verify-security", securityResetLimiter, asyn
     }
 
     if (!ok) {
+      await recordAuthEvent(req, {
+        type: "password_reset_requested",
+        userId: user.id,
+        identifier: user.username,
+        metadata: { method: "security_question", outcome: "wrong_answer" },
+      });
       return res.status(400).json({ success: false, message: "Incorrect security answer" });
     }
 
+    await recordAuthEvent(req, {
+      type: "password_reset_requested",
+      userId: user.id,
+      identifier: user.username,
+      metadata: { method: "security_question", outcome: "verified" },
+    });
+
     // Issue short-lived JWT for the legacy reset flow
     const resetToken = jwt.sign(
       { id: user.id, username: user.username, purpose: "password-reset" },
@@ -3643,6 +7138,62 @@ app.post("/api/auth/forgot-password/verify-security", securityResetLimiter, asyn
   }
 });
 
+// Student redeems a teacher-issued reset code (no email or security question needed)
+app.post("/api/auth/reset-code", resetCodeLimiter, async (req, res) => {
+  try {
+    const { username, code, newPassword } = req.body ?? {};
+    if (!username || !code || !newPassword) {
+      return res.status(400).json({ success: false, message: "Username, reset code and new password are required" });
+    }
+
+    const invalid = () =>
+      res.status(400).json({ success: false, message: "That username and reset code do not match, or the code has expired." });
+
+    const user = await findUserByLogin(String(username));
+    if (!user || user.role !== "student" || user.deletedAt) return invalid();
+
+    const resetCode = await findUsableResetCode(user.id, code);
+    if (!resetCode) {
+      await recordFailedResetCode(user.id);
+      await recordAuthEvent(req, { type: "reset_code_failed", userId: user.id, identifier: String(username) });
+      return invalid();
+    }
+
+    // checked before the code is spent so a weak password does not burn it
+    const policy = await loadPasswordPolicy();
+    const policyError = await checkNewPassword(String(newPassword), { policy, userId: user.id, currentHash: user.password });
+    if (policyError) return res.status(400).json({ success: false, message: policyError });
+
+    if (!(await consumeResetCode(resetCode.id))) return invalid();
+
+    const hashedPassword = await bcrypt.hash(String(newPassword), 10);
+    await rememberPreviousPassword(user.id, user.password, policy);
+    await db
+      .update(schema.users)
+      .set({
+        password: hashedPassword,
+        passwordChangedAt: new Date(),
+        loginAttempts: 0,
+        lastFailedLoginAt: new Date(0),
+        passwordResetToken: null,
+        passwordResetExpires: null,
+      })
+      .where(eq(schema.users.id, user.id));
+    await revokeUserSessions(user.id);
+    await recordAuthEvent(req, {
+      type: "reset_code_redeemed",
+      userId: user.id,
+      identifier: user.username,
+      metadata: { resetCodeId: resetCode.id, issuedById: resetCode.createdById },
+    });
+
+    return res.status(200).json({ success: true, message: "Password reset successful" });
+  } catch (error) {
+    console.error("Error redeeming reset code:", error);
+    return res.status(500).json({ success: false, message: "Internal server error" });
+  }
+});
+
 app.post("/api/auth/forgot-password/reset", securityResetLimiter, async (req, res) => {
   try {
     const data = schema.resetPasswordSchema.parse(req.body);
@@ -3679,18 +7230,13 @@ app.post("/api/auth/forgot-password/reset", securityResetLimiter, async (req, re
       });
     }
 
-    // Optional: enforce strong password if enabled
-    const systemSettings = await db.query.systemSettings.findFirst();
-    if (systemSettings?.requireStrongPasswords && !isStrongPassword(data.newPassword)) {
-      return res.status(400).json({
-        success: false,
-        message:
-          "New password does not meet strong password requirements. It must include at least 8 characters, one uppercase letter, one lowercase letter, one number, and one special character.",
-      });
-    }
+    const policy = await loadPasswordPolicy();
+    const policyError = await checkNewPassword(data.newPassword, { policy, userId: user.id, currentHash: user.password });
+    if (policyError) return res.status(400).json({ success: false, message: policyError });
 
     // Update password and mark passwordChangedAt so existing JWTs can be invalidated
     const hashedPassword = await bcrypt.hash(data.newPassword, 10);
+    await rememberPreviousPassword(user.id, user.password, policy);
     await db
       .update(schema.users)
       .set({
@@ -3703,6 +7249,13 @@ app.post("/api/auth/forgot-password/reset", securityResetLimiter, async (req, re
         passwordResetExpires: null, // cleanup if you also support hash-based email reset
       })
       .where(eq(schema.users.id, user.id));
+    await revokeUserSessions(user.id);
+    await recordAuthEvent(req, {
+      type: "password_reset",
+      userId: user.id,
+      identifier: user.username,
+      metadata: { method: "security_question" },
+    });
 
     return res.status(200).json({ success: true, message: "Password reset successful" });
   } catch (error) {
@@ -2,6 +2,7 @@ import { db } from "@db";
 import * as schema from "@shared/schema";
 import { eq, and, desc, asc } from "drizzle-orm";
 import bcrypt from "bcrypt";
+import { completedAtOnInsert, completedAtOnUpdate } from "./utils/progress";
 
 export const storage = {
   // User operations
@@ -182,6 +183,7 @@ export const storage = {
         const [updatedProgress] = await db.update(schema.progress)
           .set({
             ...progress,
+            completedAt: completedAtOnUpdate(progress.percentComplete),
             lastReadAt: new Date()
           })
           .where(eq(schema.progress.id, existingProgress.id))
@@ -191,7 +193,7 @@ export const storage = {
       }
 
       const [newProgress] = await db.insert(schema.progress)
-        .values(progress)
+        .values({ ...progress, completedAt: completedAtOnInsert(progress.percentComplete) })
         .returning();
 
       return newProgress;
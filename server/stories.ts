@@ -5,6 +5,7 @@ import * as schema from "@shared/schema";
 import { eq } from "drizzle-orm";
 import jwt from "jsonwebtoken";
 import { ensureExclusiveBookForSlug } from "@/lib/ensureExclusiveBook";
+import { completedAtOnInsert, completedAtOnUpdate } from "./utils/progress";
 
 const JWT_SECRET = process.env.JWT_SECRET || "adonai_grace_school_secret";
 
@@ -48,6 +49,7 @@ async function upsertProgress(
           pct != null
             ? Math.max(existing.percentComplete ?? 0, pct)
             : existing.percentComplete,
+        completedAt: completedAtOnUpdate(pct),
         lastReadAt: new Date(),
       })
       .where(eq(schema.progress.id, existing.id));
@@ -56,6 +58,7 @@ async function upsertProgress(
       userId,
       bookId,
       percentComplete: pct ?? 0,
+      completedAt: completedAtOnInsert(pct),
       totalReadingTime: 0,
       lastReadAt: new Date(),
     });
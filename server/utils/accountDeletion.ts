@@ -0,0 +1,190 @@
+// server/utils/accountDeletion.ts
+
+/**
+ * Soft-delete + purge for user accounts.
+ *
+ * `DELETE /api/user/account` only marks the account (`deletedAt`/`purgeAfter`)
+ * and signs every session out. Until `purgeAfter` the user can restore it by
+ * signing in again. Once the grace period (systemSettings.accountDeletionGraceDays)
+ * is over, the purge job removes every row that belongs to the user, detaches
+ * rows that merely reference them and hands authored books/badges to an admin.
+ *
+ * Any new table that references `users.id` must be handled in `purgeAccount`.
+ */
+
+import { and, asc, eq, inArray, isNotNull, isNull, lte, ne, or } from "drizzle-orm";
+import { db } from "@db";
+import * as schema from "@shared/schema";
+import { revokeUserSessions } from "./sessions";
+import { log } from "../vite";
+
+export const DEFAULT_GRACE_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000; // hourly
+
+export async function getGraceDays(): Promise<number> {
+  const settings = await db.query.systemSettings.findFirst({
+    columns: { accountDeletionGraceDays: true },
+  });
+  return settings?.accountDeletionGraceDays ?? DEFAULT_GRACE_DAYS;
+}
+
+/** Mark an account for deletion and sign it out everywhere. Returns the purge date. */
+export async function scheduleAccountDeletion(userId: number): Promise<Date> {
+  const now = new Date();
+  const purgeAfter = new Date(now.getTime() + (await getGraceDays()) * DAY_MS);
+
+  await db
+    .update(schema.users)
+    .set({ deletedAt: now, purgeAfter })
+    .where(eq(schema.users.id, userId));
+  await revokeUserSessions(userId);
+
+  return purgeAfter;
+}
+
+/** Undo a pending deletion. Returns false if the account was not pending. */
+export async function restoreAccount(userId: number): Promise<boolean> {
+  const rows = await db
+    .update(schema.users)
+    .set({ deletedAt: null, purgeAfter: null })
+    .where(and(eq(schema.users.id, userId), isNotNull(schema.users.deletedAt)))
+    .returning({ id: schema.users.id });
+  return rows.length > 0;
+}
+
+/** Oldest active admin other than `excludeUserId`; receives the purged user's books. */
+async function findSuccessorAdmin(excludeUserId: number): Promise<number | null> {
+  const admin = await db.query.users.findFirst({
+    where: and(
+      eq(schema.users.role, "admin"),
+      ne(schema.users.id, excludeUserId),
+      isNull(schema.users.deletedAt)
+    ),
+    columns: { id: true },
+    orderBy: asc(schema.users.id),
+  });
+  return admin?.id ?? null;
+}
+
+/**
+ * Permanently remove a soft-deleted account and everything that depends on it.
+ * Returns false when the user does not exist or is not pending deletion.
+ */
+export async function purgeAccount(userId: number): Promise<boolean> {
+  const user = await db.query.users.findFirst({
+    where: and(eq(schema.users.id, userId), isNotNull(schema.users.deletedAt)),
+    columns: { id: true },
+  });
+  if (!user) return false;
+
+  const successorId = await findSuccessorAdmin(userId);
+
+  await db.transaction(async (tx) => {
+    // content the user authored stays on the platform under an admin
+    await tx.update(schema.books).set({ addedById: successorId }).where(eq(schema.books.addedById, userId));
+    await tx.update(schema.badges).set({ createdById: successorId }).where(eq(schema.badges.createdById, userId));
+    await tx
+      .update(schema.bookCollaborators)
+      .set({ addedById: null })
+      .where(eq(schema.bookCollaborators.addedById, userId));
+    await tx.delete(schema.bookCollaborators).where(eq(schema.bookCollaborators.userId, userId));
+    await tx.update(schema.bookReviewEvents).set({ userId: null }).where(eq(schema.bookReviewEvents.userId, userId));
+    await tx.update(schema.books).set({ deletedById: null }).where(eq(schema.books.deletedById, userId));
+    await tx.update(schema.pages).set({ deletedById: null }).where(eq(schema.pages.deletedById, userId));
+    await tx.update(schema.questions).set({ deletedById: null }).where(eq(schema.questions.deletedById, userId));
+
+    // badges this user awarded to others keep existing, without the awarder
+    await tx
+      .update(schema.earnedBadges)
+      .set({ awardedById: null })
+      .where(eq(schema.earnedBadges.awardedById, userId));
+
+    // personal data
+    await tx.delete(schema.earnedBadges).where(eq(schema.earnedBadges.userId, userId));
+    await tx.delete(schema.quizAttempts).where(eq(schema.quizAttempts.userId, userId));
+    await tx.delete(schema.storyCheckpoints).where(eq(schema.storyCheckpoints.userId, userId));
+    await tx.delete(schema.progress).where(eq(schema.progress.userId, userId));
+    await tx.delete(schema.readingSessions).where(eq(schema.readingSessions.userId, userId));
+    await tx.delete(schema.teachingSettings).where(eq(schema.teachingSettings.userId, userId));
+    await tx
+      .delete(schema.impersonationActions)
+      .where(or(eq(schema.impersonationActions.adminId, userId), eq(schema.impersonationActions.targetUserId, userId)));
+    await tx
+      .update(schema.userSessions)
+      .set({ impersonatorId: null })
+      .where(eq(schema.userSessions.impersonatorId, userId));
+    await tx.delete(schema.userSessions).where(eq(schema.userSessions.userId, userId));
+    await tx.delete(schema.authEvents).where(eq(schema.authEvents.userId, userId));
+    await tx.delete(schema.passwordHistory).where(eq(schema.passwordHistory.userId, userId));
+    await tx
+      .delete(schema.studentResetCodes)
+      .where(or(eq(schema.studentResetCodes.studentId, userId), eq(schema.studentResetCodes.createdById, userId)));
+    await tx
+      .delete(schema.studentEnrollments)
+      .where(or(eq(schema.studentEnrollments.studentId, userId), eq(schema.studentEnrollments.teacherId, userId)));
+    await tx.delete(schema.classJoinCodes).where(eq(schema.classJoinCodes.teacherId, userId));
+    // classes they created or taught stay (with the remaining teachers)
+    await tx.update(schema.classes).set({ createdById: null }).where(eq(schema.classes.createdById, userId));
+    await tx.update(schema.classStudents).set({ addedById: null }).where(eq(schema.classStudents.addedById, userId));
+    await tx.delete(schema.classStudents).where(eq(schema.classStudents.studentId, userId));
+    await tx.delete(schema.classTeachers).where(eq(schema.classTeachers.teacherId, userId));
+    await tx.update(schema.assignments).set({ createdById: null }).where(eq(schema.assignments.createdById, userId));
+    await tx.delete(schema.assignmentStudents).where(eq(schema.assignmentStudents.studentId, userId));
+    await tx.update(schema.announcements).set({ createdById: null }).where(eq(schema.announcements.createdById, userId));
+    await tx.delete(schema.announcementReads).where(eq(schema.announcementReads.userId, userId));
+    await tx
+      .delete(schema.parentStudentLinks)
+      .where(or(eq(schema.parentStudentLinks.parentId, userId), eq(schema.parentStudentLinks.studentId, userId)));
+    // invites issued by or for this user go; links made with them stay
+    const invites = or(eq(schema.parentInviteCodes.createdById, userId), eq(schema.parentInviteCodes.studentId, userId));
+    await tx
+      .update(schema.parentStudentLinks)
+      .set({ inviteCodeId: null })
+      .where(
+        inArray(
+          schema.parentStudentLinks.inviteCodeId,
+          tx.select({ id: schema.parentInviteCodes.id }).from(schema.parentInviteCodes).where(invites)
+        )
+      );
+    await tx
+      .update(schema.parentInviteCodes)
+      .set({ usedById: null })
+      .where(eq(schema.parentInviteCodes.usedById, userId));
+    await tx.delete(schema.parentInviteCodes).where(invites);
+
+    await tx.delete(schema.users).where(eq(schema.users.id, userId));
+  });
+
+  return true;
+}
+
+/** Purge every account whose grace period has ended. Returns how many were purged. */
+export async function purgeExpiredAccounts(): Promise<number> {
+  const due = await db.query.users.findMany({
+    where: and(isNotNull(schema.users.deletedAt), lte(schema.users.purgeAfter, new Date())),
+    columns: { id: true },
+  });
+
+  let purged = 0;
+  for (const { id } of due) {
+    try {
+      if (await purgeAccount(id)) purged++;
+    } catch (e) {
+      log(`Purge of user ${id} failed: ${(e as Error).message}`, "purge");
+    }
+  }
+  return purged;
+}
+
+export function startAccountPurgeJob() {
+  const run = () =>
+    purgeExpiredAccounts()
+      .then((n) => n > 0 && log(`Purged ${n} deleted account(s)`, "purge"))
+      .catch((e) => log(`Account purge failed: ${(e as Error).message}`, "purge"));
+
+  run();
+  const timer = setInterval(run, PURGE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,164 @@
+// server/utils/announcements.ts
+
+/**
+ * Announcements feed.
+ *
+ * An announcement is shown between `publishAt` and `expiresAt` to its
+ * audience: the whole school, one role, students of one grade, or one
+ * (non-archived) class — its roster and its teachers. Pinned ones come first.
+ * Reads are tracked per user in `announcementReads`. Admins (and anyone with
+ * `announcements.school`) may post to any audience; `announcements.class`
+ * only covers the poster's own classes. A "maintenance" announcement that is
+ * live also supplies the message of the maintenance page.
+ */
+
+import { and, count, desc, eq, gt, inArray, isNull, lte, or, type SQL } from "drizzle-orm";
+import { db } from "@db";
+import * as schema from "@shared/schema";
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Requester = { id: number; role: string };
+
+const FEED_LIMIT = 50;
+
+const authorColumns = { id: true, firstName: true, lastName: true, role: true } as const;
+
+/** Published and not yet expired. */
+const liveCondition = (now: Date) =>
+  and(
+    lte(schema.announcements.publishAt, now),
+    or(isNull(schema.announcements.expiresAt), gt(schema.announcements.expiresAt, now))
+  )!;
+
+// ids of the non-archived classes the user is on (students) or teaches (teachers)
+function memberClassIds(user: Requester) {
+  if (user.role === "teacher") {
+    return db
+      .select({ id: schema.classTeachers.classId })
+      .from(schema.classTeachers)
+      .innerJoin(schema.classes, eq(schema.classes.id, schema.classTeachers.classId))
+      .where(and(eq(schema.classTeachers.teacherId, user.id), isNull(schema.classes.archivedAt)));
+  }
+  return db
+    .select({ id: schema.classStudents.classId })
+    .from(schema.classStudents)
+    .innerJoin(schema.classes, eq(schema.classes.id, schema.classStudents.classId))
+    .where(and(eq(schema.classStudents.studentId, user.id), isNull(schema.classes.archivedAt)));
+}
+
+/** Announcements whose audience includes `user`. */
+async function audienceCondition(user: Requester): Promise<SQL> {
+  const a = schema.announcements;
+  const conditions: SQL[] = [
+    eq(a.audience, "school"),
+    and(eq(a.audience, "role"), eq(a.audienceRole, user.role as schema.User["role"]))!,
+  ];
+  if (user.role === "student") {
+    const row = await db.query.users.findFirst({
+      where: eq(schema.users.id, user.id),
+      columns: { gradeLevel: true },
+    });
+    if (row?.gradeLevel) conditions.push(and(eq(a.audience, "grade"), eq(a.audienceGrade, row.gradeLevel))!);
+  }
+  if (user.role === "student" || user.role === "teacher") {
+    conditions.push(and(eq(a.audience, "class"), inArray(a.audienceClassId, memberClassIds(user)))!);
+  }
+  return or(...conditions)!;
+}
+
+/** Live announcements for `user`, pinned first then newest, each with `read`. */
+export async function announcementFeed(user: Requester, now = new Date()) {
+  const rows = await db.query.announcements.findMany({
+    where: and(liveCondition(now), await audienceCondition(user)),
+    with: {
+      createdBy: { columns: authorColumns },
+      class: { columns: { id: true, name: true } },
+    },
+    orderBy: (a) => [desc(a.pinned), desc(a.publishAt)],
+    limit: FEED_LIMIT,
+  });
+  if (!rows.length) return { announcements: [], unread: 0 };
+
+  const reads = await db
+    .select({ id: schema.announcementReads.announcementId })
+    .from(schema.announcementReads)
+    .where(
+      and(
+        eq(schema.announcementReads.userId, user.id),
+        inArray(schema.announcementReads.announcementId, rows.map((r) => r.id))
+      )
+    );
+  const readIds = new Set(reads.map((r) => r.id));
+  const announcements = rows.map((r) => ({ ...r, read: readIds.has(r.id) }));
+  return { announcements, unread: announcements.filter((a) => !a.read).length };
+}
+
+/**
+ * Record reads for the given ids (or everything in the feed when `ids` is
+ * omitted). Ids outside the user's feed are ignored. Returns how many were new.
+ */
+export async function markAnnouncementsRead(user: Requester, ids?: number[]) {
+  const { announcements } = await announcementFeed(user);
+  const wanted = ids ? new Set(ids) : null;
+  const toMark = announcements.filter((a) => !a.read && (!wanted || wanted.has(a.id)));
+  if (!toMark.length) return 0;
+  await db
+    .insert(schema.announcementReads)
+    .values(toMark.map((a) => ({ announcementId: a.id, userId: user.id })))
+    .onConflictDoNothing();
+  return toMark.length;
+}
+
+/** Everything a school-wide poster can manage, or just the requester's own posts. */
+export async function listManagedAnnouncements(requester: Requester, schoolWide: boolean) {
+  const rows = await db.query.announcements.findMany({
+    where: schoolWide ? undefined : eq(schema.announcements.createdById, requester.id),
+    with: {
+      createdBy: { columns: authorColumns },
+      class: { columns: { id: true, name: true } },
+    },
+    orderBy: (a) => [desc(a.pinned), desc(a.publishAt)],
+  });
+  if (!rows.length) return [];
+
+  const readCounts = await db
+    .select({ id: schema.announcementReads.announcementId, n: count() })
+    .from(schema.announcementReads)
+    .where(inArray(schema.announcementReads.announcementId, rows.map((r) => r.id)))
+    .groupBy(schema.announcementReads.announcementId);
+  const readsById = new Map(readCounts.map((r) => [r.id, Number(r.n)]));
+  return rows.map((r) => ({ ...r, readCount: readsById.get(r.id) ?? 0 }));
+}
+
+/** The announcement if the requester may edit it: their own, or any with `announcements.school`. */
+export async function findManagedAnnouncement(requester: Requester, id: number, schoolWide: boolean) {
+  const row = await db.query.announcements.findFirst({ where: eq(schema.announcements.id, id) });
+  if (!row) return null;
+  return schoolWide || row.createdById === requester.id ? row : null;
+}
+
+/** Newest live maintenance announcement, for the (public) maintenance page. */
+export async function liveMaintenanceNotice(now = new Date()) {
+  const row = await db.query.announcements.findFirst({
+    where: and(liveCondition(now), eq(schema.announcements.kind, "maintenance")),
+    columns: { id: true, title: true, body: true, publishAt: true, expiresAt: true },
+    orderBy: (a) => [desc(a.publishAt)],
+  });
+  return row ?? null;
+}
+
+/** Delete announcements with their read receipts. */
+export async function deleteAnnouncements(tx: Tx, ids: number[]) {
+  if (!ids.length) return;
+  await tx.delete(schema.announcementReads).where(inArray(schema.announcementReads.announcementId, ids));
+  await tx.delete(schema.announcements).where(inArray(schema.announcements.id, ids));
+}
+
+/** Announcements addressed to a class have no audience once it is deleted. */
+export async function deleteClassAnnouncements(tx: Tx, classId: number) {
+  const rows = await tx
+    .select({ id: schema.announcements.id })
+    .from(schema.announcements)
+    .where(eq(schema.announcements.audienceClassId, classId));
+  await deleteAnnouncements(tx, rows.map((r) => r.id));
+}
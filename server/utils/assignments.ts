@@ -0,0 +1,267 @@
+// server/utils/assignments.ts
+
+/**
+ * Book assignments.
+ *
+ * A teacher assigns one or more books to a class (its current roster) and/or
+ * to individual students, optionally with a due date. A book counts as done
+ * for a student once `progress.percentComplete` reaches the assignment's
+ * `minPercent` and, when `minQuizScore` is set, their best quiz percentage on
+ * that book reaches it too. Nothing is stored per student: status is worked
+ * out from progress and quiz attempts whenever it is read.
+ */
+
+import { and, eq, inArray, isNull, max, or, type SQL } from "drizzle-orm";
+import { db } from "@db";
+import * as schema from "@shared/schema";
+import { isBookLive } from "./bookPublishing";
+
+type Requester = { id: number; role: string };
+type Activity = { percent: number; bestScore: number | null };
+
+const bookColumns = {
+  id: true,
+  title: true,
+  type: true,
+  grade: true,
+  coverImage: true,
+  status: true,
+  publishAt: true,
+  deletedAt: true,
+} as const;
+const studentColumns = { id: true, firstName: true, lastName: true, username: true, gradeLevel: true } as const;
+
+/** Status of one book for one student. */
+export function bookStatus(
+  assignment: Pick<schema.Assignment, "dueAt" | "minPercent" | "minQuizScore">,
+  activity: Activity | undefined,
+  now = new Date()
+): schema.AssignmentStatus {
+  const percent = activity?.percent ?? 0;
+  const score = activity?.bestScore ?? null;
+  const done =
+    percent >= assignment.minPercent &&
+    (assignment.minQuizScore == null || (score != null && score >= assignment.minQuizScore));
+  if (done) return "done";
+  if (assignment.dueAt && assignment.dueAt < now) return "late";
+  return percent > 0 || score != null ? "in_progress" : "not_started";
+}
+
+/** Whole assignment for one student: done when every book is, late when any book is. */
+export function overallStatus(statuses: schema.AssignmentStatus[]): schema.AssignmentStatus {
+  if (statuses.length && statuses.every((s) => s === "done")) return "done";
+  if (statuses.includes("late")) return "late";
+  if (statuses.some((s) => s !== "not_started")) return "in_progress";
+  return "not_started";
+}
+
+const activityKey = (studentId: number, bookId: number) => `${studentId}:${bookId}`;
+
+/** Progress and best quiz score for every student/book pair, keyed "student:book". */
+async function loadActivity(studentIds: number[], bookIds: number[]) {
+  const activity = new Map<string, Activity>();
+  if (!studentIds.length || !bookIds.length) return activity;
+
+  const [progressRows, quizRows] = await Promise.all([
+    db
+      .select({
+        userId: schema.progress.userId,
+        bookId: schema.progress.bookId,
+        percent: schema.progress.percentComplete,
+      })
+      .from(schema.progress)
+      .where(and(inArray(schema.progress.userId, studentIds), inArray(schema.progress.bookId, bookIds))),
+    db
+      .select({
+        userId: schema.quizAttempts.userId,
+        bookId: schema.quizAttempts.bookId,
+        best: max(schema.quizAttempts.percentage),
+      })
+      .from(schema.quizAttempts)
+      .where(and(inArray(schema.quizAttempts.userId, studentIds), inArray(schema.quizAttempts.bookId, bookIds)))
+      .groupBy(schema.quizAttempts.userId, schema.quizAttempts.bookId),
+  ]);
+
+  for (const p of progressRows) {
+    activity.set(activityKey(p.userId, p.bookId), { percent: p.percent ?? 0, bestScore: null });
+  }
+  for (const q of quizRows) {
+    const key = activityKey(q.userId, q.bookId);
+    activity.set(key, { percent: activity.get(key)?.percent ?? 0, bestScore: q.best ?? null });
+  }
+  return activity;
+}
+
+/** Everyone an assignment is for: its class roster plus individually assigned students. */
+async function assignedStudentIds(assignment: Pick<schema.Assignment, "id" | "classId">) {
+  const [individual, roster] = await Promise.all([
+    db
+      .select({ id: schema.assignmentStudents.studentId })
+      .from(schema.assignmentStudents)
+      .where(eq(schema.assignmentStudents.assignmentId, assignment.id)),
+    assignment.classId
+      ? db
+          .select({ id: schema.classStudents.studentId })
+          .from(schema.classStudents)
+          .where(eq(schema.classStudents.classId, assignment.classId))
+      : [],
+  ]);
+  return Array.from(new Set([...individual, ...roster].map((r) => r.id)));
+}
+
+/** Admins, the teacher who made it, and teachers of its class. */
+export async function findManagedAssignment(requester: Requester, assignmentId: number) {
+  const assignment = await db.query.assignments.findFirst({ where: eq(schema.assignments.id, assignmentId) });
+  if (!assignment) return null;
+  if (requester.role === "admin" || assignment.createdById === requester.id) return assignment;
+  if (assignment.classId) {
+    const teaches = await db.query.classTeachers.findFirst({
+      where: and(
+        eq(schema.classTeachers.classId, assignment.classId),
+        eq(schema.classTeachers.teacherId, requester.id)
+      ),
+      columns: { id: true },
+    });
+    if (teaches) return assignment;
+  }
+  return null;
+}
+
+/** Status of every assigned student for every book of the assignment. */
+export async function assignmentStatusGrid(assignment: schema.Assignment) {
+  const [bookRows, studentIds] = await Promise.all([
+    db.query.assignmentBooks.findMany({
+      where: eq(schema.assignmentBooks.assignmentId, assignment.id),
+      with: { book: { columns: bookColumns } },
+    }),
+    assignedStudentIds(assignment),
+  ]);
+  const books = bookRows.map((r) => r.book);
+  const students = studentIds.length
+    ? await db.query.users.findMany({
+        where: and(inArray(schema.users.id, studentIds), isNull(schema.users.deletedAt)),
+        columns: studentColumns,
+        orderBy: (u, { asc }) => [asc(u.lastName), asc(u.firstName)],
+      })
+    : [];
+
+  const activity = await loadActivity(
+    students.map((s) => s.id),
+    books.map((b) => b.id)
+  );
+  const now = new Date();
+  const rows = students.map((student) => {
+    const cells = books.map((book) => {
+      const a = activity.get(activityKey(student.id, book.id));
+      return {
+        bookId: book.id,
+        status: bookStatus(assignment, a, now),
+        percent: a?.percent ?? 0,
+        bestScore: a?.bestScore ?? null,
+      };
+    });
+    return { student, status: overallStatus(cells.map((c) => c.status)), books: cells };
+  });
+
+  const counts = Object.fromEntries(schema.ASSIGNMENT_STATUSES.map((s) => [s, 0])) as Record<
+    schema.AssignmentStatus,
+    number
+  >;
+  for (const r of rows) counts[r.status]++;
+
+  return { books, rows, counts };
+}
+
+/** Assignments a teacher made or that are for their classes (admins: all), newest first. */
+export async function listManagedAssignments(requester: Requester) {
+  let where: SQL | undefined;
+  if (requester.role !== "admin") {
+    where = or(
+      eq(schema.assignments.createdById, requester.id),
+      inArray(
+        schema.assignments.classId,
+        db
+          .select({ id: schema.classTeachers.classId })
+          .from(schema.classTeachers)
+          .where(eq(schema.classTeachers.teacherId, requester.id))
+      )
+    );
+  }
+  const rows = await db.query.assignments.findMany({
+    where,
+    with: {
+      class: { columns: { id: true, name: true } },
+      createdBy: { columns: { id: true, firstName: true, lastName: true } },
+    },
+    orderBy: (a, { desc }) => [desc(a.createdAt)],
+  });
+  return Promise.all(
+    rows.map(async (a) => {
+      const { books, counts, rows: students } = await assignmentStatusGrid(a);
+      return { ...a, books, counts, studentCount: students.length };
+    })
+  );
+}
+
+/** A student's assignments with per-book status (live books only); soonest due first, undated last. */
+export async function studentAssignments(studentId: number) {
+  const rows = await db.query.assignments.findMany({
+    where: or(
+      inArray(
+        schema.assignments.id,
+        db
+          .select({ id: schema.assignmentStudents.assignmentId })
+          .from(schema.assignmentStudents)
+          .where(eq(schema.assignmentStudents.studentId, studentId))
+      ),
+      inArray(
+        schema.assignments.classId,
+        db
+          .select({ id: schema.classStudents.classId })
+          .from(schema.classStudents)
+          .innerJoin(schema.classes, eq(schema.classes.id, schema.classStudents.classId))
+          .where(and(eq(schema.classStudents.studentId, studentId), isNull(schema.classes.archivedAt)))
+      )
+    ),
+    with: {
+      books: { with: { book: { columns: bookColumns } } },
+      createdBy: { columns: { id: true, firstName: true, lastName: true } },
+    },
+  });
+
+  const bookIds = Array.from(new Set(rows.flatMap((a) => a.books.map((b) => b.bookId))));
+  const activity = await loadActivity([studentId], bookIds);
+  const now = new Date();
+
+  // books taken down (or not yet out) since they were assigned are left off
+  return rows
+    .filter((a) => a.books.some(({ book }) => isBookLive(book, now)))
+    .map((a) => {
+      const books = a.books.filter(({ book }) => isBookLive(book, now)).map(({ book }) => {
+        const act = activity.get(activityKey(studentId, book.id));
+        return { ...book, status: bookStatus(a, act, now), percent: act?.percent ?? 0, bestScore: act?.bestScore ?? null };
+      });
+      return {
+        id: a.id,
+        title: a.title,
+        note: a.note,
+        dueAt: a.dueAt,
+        minPercent: a.minPercent,
+        minQuizScore: a.minQuizScore,
+        createdAt: a.createdAt,
+        teacher: a.createdBy,
+        status: overallStatus(books.map((b) => b.status)),
+        books,
+      };
+    })
+    .sort((x, y) => (x.dueAt?.getTime() ?? Infinity) - (y.dueAt?.getTime() ?? Infinity));
+}
+
+/** Delete an assignment with its book and student links. */
+export async function deleteAssignment(assignmentId: number) {
+  await db.transaction(async (tx) => {
+    await tx.delete(schema.assignmentBooks).where(eq(schema.assignmentBooks.assignmentId, assignmentId));
+    await tx.delete(schema.assignmentStudents).where(eq(schema.assignmentStudents.assignmentId, assignmentId));
+    await tx.delete(schema.assignments).where(eq(schema.assignments.id, assignmentId));
+  });
+}
@@ -0,0 +1,113 @@
+// server/utils/authEvents.ts
+
+/**
+ * Append-only log of sign-in and password activity (`auth_events`).
+ *
+ * Routes call `recordAuthEvent` after the fact; it never throws, so a logging
+ * failure can't break a login or reset. Users read their own history through
+ * `GET /api/user/auth-events`, admins search everything through
+ * `GET /api/admin/auth-events`.
+ */
+
+import type { Request } from "express";
+import { and, desc, eq, gte, ilike, inArray, lte, or, sql } from "drizzle-orm";
+import { db } from "@db";
+import * as schema from "@shared/schema";
+import type { AuthEventType } from "@shared/schema";
+
+export async function recordAuthEvent(
+  req: Request,
+  event: {
+    type: AuthEventType;
+    userId?: number | null;
+    identifier?: string | null;
+    metadata?: Record<string, unknown>;
+  }
+) {
+  try {
+    const userAgent = req.headers["user-agent"];
+    await db.insert(schema.authEvents).values({
+      type: event.type,
+      userId: event.userId ?? null,
+      identifier: event.identifier ? String(event.identifier).slice(0, 255) : null,
+      ipAddress: req.ip ? String(req.ip).slice(0, 100) : null,
+      userAgent: typeof userAgent === "string" ? userAgent.slice(0, 500) : null,
+      metadata: event.metadata ?? null,
+    });
+  } catch (error) {
+    console.error("Failed to record auth event:", error);
+  }
+}
+
+export async function listUserAuthEvents(userId: number, limit = 50) {
+  return db.query.authEvents.findMany({
+    where: eq(schema.authEvents.userId, userId),
+    columns: { id: true, type: true, ipAddress: true, userAgent: true, metadata: true, createdAt: true },
+    orderBy: desc(schema.authEvents.createdAt),
+    limit,
+  });
+}
+
+export type AuthEventSearch = {
+  search?: string; // matches identifier, user name/email/username, or IP
+  types?: AuthEventType[];
+  userId?: number;
+  from?: Date;
+  to?: Date;
+  page: number;
+  pageSize: number;
+};
+
+export async function searchAuthEvents(q: AuthEventSearch) {
+  const conditions: any[] = [];
+  if (q.userId) conditions.push(eq(schema.authEvents.userId, q.userId));
+  if (q.types?.length) conditions.push(inArray(schema.authEvents.type, q.types));
+  if (q.from) conditions.push(gte(schema.authEvents.createdAt, q.from));
+  if (q.to) conditions.push(lte(schema.authEvents.createdAt, q.to));
+  if (q.search) {
+    const term = `%${q.search}%`;
+    conditions.push(
+      or(
+        ilike(schema.authEvents.identifier, term),
+        ilike(schema.authEvents.ipAddress, term),
+        ilike(schema.users.email, term),
+        ilike(schema.users.username, term),
+        ilike(schema.users.firstName, term),
+        ilike(schema.users.lastName, term)
+      )
+    );
+  }
+  const where = conditions.length ? and(...conditions) : undefined;
+
+  const [rows, [{ total }]] = await Promise.all([
+    db
+      .select({
+        id: schema.authEvents.id,
+        type: schema.authEvents.type,
+        identifier: schema.authEvents.identifier,
+        ipAddress: schema.authEvents.ipAddress,
+        userAgent: schema.authEvents.userAgent,
+        metadata: schema.authEvents.metadata,
+        createdAt: schema.authEvents.createdAt,
+        userId: schema.authEvents.userId,
+        username: schema.users.username,
+        email: schema.users.email,
+        firstName: schema.users.firstName,
+        lastName: schema.users.lastName,
+        role: schema.users.role,
+      })
+      .from(schema.authEvents)
+      .leftJoin(schema.users, eq(schema.authEvents.userId, schema.users.id))
+      .where(where)
+      .orderBy(desc(schema.authEvents.createdAt))
+      .limit(q.pageSize)
+      .offset((q.page - 1) * q.pageSize),
+    db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(schema.authEvents)
+      .leftJoin(schema.users, eq(schema.authEvents.userId, schema.users.id))
+      .where(where),
+  ]);
+
+  return { events: rows, total };
+}
@@ -0,0 +1,634 @@
+// server/utils/bookPackage.ts
+
+/**
+ * Portable book packages: one zip that moves a book between deployments
+ * (staging → production) or to a sister school.
+ *
+ * `book.json` holds the book's metadata, its pages with their questions, the
+ * chapters and the badge mappings. Badges are referenced by name because ids
+ * differ between deployments. Media (cover, page images, page audio) are
+ * either bundled under `media/` or left as links to the source's Cloudinary
+ * files (a manifest-only package). Only files we uploaded to Cloudinary
+ * (those with a public id) are downloaded, through the SDK's delivery URL;
+ * any other URL is just linked, so the export never fetches addresses a
+ * teacher typed in. Either way the importer uploads its own copy, so the new
+ * book never shares files with the one it came from.
+ *
+ * Importing validates the whole package before anything is uploaded or
+ * written: the book against BookCreateApiSchema, and the pages, questions,
+ * chapters and badges against the package schema. The book is then created
+ * as a draft owned by the importer in one transaction. Problems that don't
+ * stop the import are reported back as conflicts: a renamed slug, badges
+ * this deployment doesn't have, media that could not be copied.
+ */
+
+import type { Readable } from "stream";
+import JSZip from "jszip";
+import { z } from "zod";
+import { and, asc, eq, isNull, sql } from "drizzle-orm";
+import { v2 as cloudinary } from "cloudinary";
+import { db } from "@db";
+import * as schema from "@shared/schema";
+import { BookCreateApiSchema, type BookCreateApiInput } from "@shared/bookCreateApiSchema";
+
+export const BOOK_PACKAGE_FORMAT = "ilaw-book-package";
+export const BOOK_PACKAGE_VERSION = 1;
+export const MAX_PACKAGE_BYTES = 50 * 1024 * 1024;
+const MANIFEST_FILE = "book.json";
+const MEDIA_FETCH_TIMEOUT_MS = 20_000;
+const MAX_MEDIA_BYTES = 25 * 1024 * 1024;
+const MAX_MANIFEST_BYTES = 10 * 1024 * 1024;
+const MAX_PAGES = 500;
+
+export const PACKAGE_MEDIA_MODES = ["files", "manifest"] as const;
+export type PackageMediaMode = (typeof PACKAGE_MEDIA_MODES)[number];
+
+export const isPackageMediaMode = (v: unknown): v is PackageMediaMode =>
+  typeof v === "string" && (PACKAGE_MEDIA_MODES as readonly string[]).includes(v);
+
+/* ----------------------------- Format ----------------------------- */
+
+// `file` points into the archive; `url` is the source's copy (used when no file is bundled)
+const mediaRefSchema = z
+  .object({
+    file: z
+      .string()
+      .regex(/^media\/[\w.-]{1,120}$/, "Media files must live in media/")
+      .optional(),
+    // anything but http(s) would be read as a local path by the Cloudinary uploader
+    url: z
+      .string()
+      .url("Media URL must be a valid URL")
+      .refine((u) => /^https?:\/\//i.test(u), "Media URL must start with http:// or https://")
+      .optional(),
+  })
+  .refine((m) => !!m.file || !!m.url, "Media needs a file or a URL");
+
+const packageQuestionSchema = z.object({
+  questionText: z.string().trim().min(5, "Question must be at least 5 characters").max(2000),
+  answerType: z.enum(["text", "multiple_choice"]).default("text"),
+  correctAnswer: z.string().max(2000).nullable().optional(),
+  options: z.string().max(10000).nullable().optional(),
+});
+
+const packagePageSchema = z.object({
+  pageNumber: z.number().int().min(1, "Page number must be at least 1"),
+  title: z.string().max(200).nullable().optional(),
+  content: z.string().min(1, "Content cannot be empty"),
+  shuffleQuestions: z.boolean().default(false),
+  image: mediaRefSchema.nullable().optional(),
+  audio: mediaRefSchema.nullable().optional(),
+  questions: z.array(packageQuestionSchema).max(200).default([]),
+});
+
+const packageChapterSchema = z.object({
+  title: z.string().trim().min(2, "Title must be at least 2 characters").max(200),
+  content: z.string().min(10, "Content must be at least 10 characters"),
+  orderIndex: z.number().int().min(0),
+});
+
+const packageBadgeSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  awardMethod: z.enum(schema.badgeAwardMethodEnum.enumValues).default("auto_on_book_complete"),
+  completionThreshold: z.number().int().min(1).max(100).default(100),
+  isEnabled: z.boolean().default(true),
+  criteriaJson: z.record(z.unknown()).nullable().optional(),
+});
+
+const bookPackageSchema = z
+  .object({
+    format: z.literal(BOOK_PACKAGE_FORMAT, { errorMap: () => ({ message: "Not a book package" }) }),
+    version: z.number().int().min(1),
+    exportedAt: z.string().optional(),
+    slug: z.string().max(200).optional(),
+    book: z.record(z.unknown()), // checked with BookCreateApiSchema below
+    cover: mediaRefSchema.nullable().optional(),
+    pages: z.array(packagePageSchema).max(MAX_PAGES, `A book can have at most ${MAX_PAGES} pages`),
+    chapters: z.array(packageChapterSchema).default([]),
+    badges: z.array(packageBadgeSchema).default([]),
+  })
+  .superRefine((pkg, ctx) => {
+    const seen = new Set<number>();
+    pkg.pages.forEach((p, i) => {
+      if (seen.has(p.pageNumber)) {
+        ctx.addIssue({ code: "custom", path: ["pages", i, "pageNumber"], message: `Page ${p.pageNumber} appears twice` });
+      }
+      seen.add(p.pageNumber);
+    });
+  });
+
+type MediaRef = z.infer<typeof mediaRefSchema>;
+type BookPackage = z.infer<typeof bookPackageSchema>;
+
+export type PackageIssue = { path: string; message: string };
+
+export type PackageConflict = {
+  type: "title" | "slug" | "badge" | "media";
+  message: string;
+  blocking: boolean; // the import can't go ahead until it is resolved
+};
+
+export type ReadPackage = { pkg: BookPackage; book: BookCreateApiInput; zip: JSZip };
+
+/* ----------------------------- Export ----------------------------- */
+
+const extensionOf = (url: string, fallback: string) => {
+  try {
+    const m = new URL(url).pathname.match(/\.([a-z0-9]{1,5})$/i);
+    return m ? m[1].toLowerCase() : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Read a response body, giving up once it passes `limit` bytes
+async function readCapped(res: Response, limit: number): Promise<Buffer | null> {
+  if (Number(res.headers.get("content-length") ?? 0) > limit || !res.body) return null;
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Download one of our Cloudinary files by public id. The URL comes from the
+ * SDK (the configured delivery host), never from the book's stored URL, and
+ * redirects are refused.
+ */
+async function fetchCloudinaryMedia(
+  publicId: string,
+  resourceType: "image" | "video",
+  format: string | null,
+  limit: number
+): Promise<Buffer | null> {
+  const url = cloudinary.url(publicId, {
+    resource_type: resourceType,
+    type: "upload",
+    secure: true,
+    ...(format ? { format } : {}),
+  });
+  try {
+    const res = await fetch(url, { redirect: "error", signal: AbortSignal.timeout(MEDIA_FETCH_TIMEOUT_MS) });
+    if (!res.ok) return null;
+    return await readCapped(res, limit);
+  } catch (err) {
+    console.warn("Book package: could not download", publicId, err);
+    return null;
+  }
+}
+
+/**
+ * Zip a book (without anything in the trash). With `files` the Cloudinary
+ * media are downloaded into the archive; anything else, or a file that can't
+ * be downloaded or would push the archive past MAX_PACKAGE_BYTES, stays a
+ * link. Returns null when the book doesn't exist or is in the trash.
+ */
+export async function buildBookPackage(bookId: number, media: PackageMediaMode) {
+  const book = await db.query.books.findFirst({
+    where: and(eq(schema.books.id, bookId), isNull(schema.books.deletedAt)),
+  });
+  if (!book) return null;
+
+  const [pages, chapters, bookBadges] = await Promise.all([
+    db.query.pages.findMany({
+      where: and(eq(schema.pages.bookId, bookId), isNull(schema.pages.deletedAt)),
+      orderBy: asc(schema.pages.pageNumber),
+      with: {
+        questions: {
+          where: isNull(schema.questions.deletedAt),
+          orderBy: asc(schema.questions.id),
+        },
+      },
+    }),
+    db.query.chapters.findMany({
+      where: eq(schema.chapters.bookId, bookId),
+      orderBy: asc(schema.chapters.orderIndex),
+    }),
+    db.query.bookBadges.findMany({
+      where: eq(schema.bookBadges.bookId, bookId),
+      with: { badge: { columns: { name: true } } },
+      orderBy: asc(schema.bookBadges.id),
+    }),
+  ]);
+
+  const zip = new JSZip();
+
+  let bundledBytes = 0;
+  const mediaRef = async (
+    url: string | null,
+    asset: { publicId: string | null; resourceType: "image" | "video" },
+    name: string,
+    fallbackExt: string
+  ): Promise<MediaRef | null> => {
+    if (!url) return null;
+    if (media === "manifest" || !asset.publicId) return { url };
+    const ext = extensionOf(url, "");
+    const room = Math.min(MAX_MEDIA_BYTES, MAX_PACKAGE_BYTES - bundledBytes);
+    const data = room > 0 ? await fetchCloudinaryMedia(asset.publicId, asset.resourceType, ext || null, room) : null;
+    if (!data) return { url };
+    bundledBytes += data.length;
+    const file = `media/${name}.${ext || fallbackExt}`;
+    zip.file(file, data);
+    return { file, url };
+  };
+
+  // one download at a time; packages are rare and media can be large
+  const cover = await mediaRef(book.coverImage, { publicId: book.coverPublicId, resourceType: "image" }, "cover", "jpg");
+  const packagePages = [];
+  for (const p of pages) {
+    packagePages.push({
+      pageNumber: p.pageNumber,
+      title: p.title,
+      content: p.content,
+      shuffleQuestions: p.shuffleQuestions,
+      image: await mediaRef(
+        p.imageUrl,
+        { publicId: p.imagePublicId, resourceType: "image" },
+        `page-${p.pageNumber}-image`,
+        "jpg"
+      ),
+      audio: await mediaRef(
+        p.audioUrl,
+        { publicId: p.audioPublicId, resourceType: "video" },
+        `page-${p.pageNumber}-audio`,
+        "mp3"
+      ),
+      questions: p.questions.map((q) => ({
+        questionText: q.questionText,
+        answerType: q.answerType,
+        correctAnswer: q.correctAnswer,
+        options: q.options,
+      })),
+    });
+  }
+
+  const manifest = {
+    format: BOOK_PACKAGE_FORMAT,
+    version: BOOK_PACKAGE_VERSION,
+    exportedAt: new Date().toISOString(),
+    slug: book.slug,
+    // the fields POST /api/books takes; the cover travels separately
+    book: {
+      title: book.title,
+      description: book.description,
+      type: book.type,
+      subject: book.subject ?? undefined,
+      grade: book.grade ?? undefined,
+      quizMode: book.quizMode,
+      musicUrl: book.musicUrl ?? undefined,
+    },
+    cover,
+    pages: packagePages,
+    chapters: chapters.map(({ title, content, orderIndex }) => ({ title, content, orderIndex })),
+    badges: bookBadges
+      .filter((bb) => bb.badge)
+      .map((bb) => ({
+        name: bb.badge!.name,
+        awardMethod: bb.awardMethod,
+        completionThreshold: bb.completionThreshold,
+        isEnabled: bb.isEnabled,
+        criteriaJson: bb.criteriaJson,
+      })),
+  };
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+
+  const archive = await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+  return { archive, fileName: packageFileName(book.slug) };
+}
+
+export function packageFileName(slug: string) {
+  const safe = slug.replace(/[^a-z0-9_-]/gi, "_").slice(0, 60) || "book";
+  return `book-${safe}-${new Date().toISOString().slice(0, 10)}.zip`;
+}
+
+/* ----------------------------- Import ----------------------------- */
+
+class PackageEntryTooLarge extends Error {}
+
+/**
+ * Unpack one entry, counting bytes as they inflate and giving up once it
+ * passes `limit`; a small zip entry can inflate far past the upload cap.
+ */
+function readEntry(file: JSZip.JSZipObject, limit: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const stream = file.nodeStream("nodebuffer") as Readable;
+    const chunks: Buffer[] = [];
+    let size = 0;
+    stream.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        stream.destroy();
+        reject(new PackageEntryTooLarge(file.name));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("error", reject);
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+const toIssues = (err: z.ZodError, prefix = ""): PackageIssue[] =>
+  err.errors.map((e) => ({ path: [prefix, ...e.path].filter((s) => s !== "").join("."), message: e.message }));
+
+/**
+ * Open and validate an uploaded package; nothing is written. `title`
+ * replaces the packaged title (to import next to a book that already has it).
+ */
+export async function readBookPackage(
+  buffer: Buffer,
+  overrides: { title?: string } = {}
+): Promise<ReadPackage | { error: string; issues?: PackageIssue[] }> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    return { error: "The file is not a zip archive" };
+  }
+
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (!manifestFile) return { error: `The archive has no ${MANIFEST_FILE}; is it a book package?` };
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse((await readEntry(manifestFile, MAX_MANIFEST_BYTES)).toString("utf8"));
+  } catch (err) {
+    if (err instanceof PackageEntryTooLarge) {
+      return { error: `${MANIFEST_FILE} is larger than ${MAX_MANIFEST_BYTES / (1024 * 1024)} MB` };
+    }
+    return { error: `${MANIFEST_FILE} is not valid JSON` };
+  }
+
+  const parsed = bookPackageSchema.safeParse(raw);
+  if (!parsed.success) {
+    return { error: "The package has problems", issues: toIssues(parsed.error) };
+  }
+  const pkg = parsed.data;
+  if (pkg.version > BOOK_PACKAGE_VERSION) {
+    return { error: "This package was made by a newer version of the site. Update this site first." };
+  }
+
+  const title = overrides.title?.trim();
+  const book = BookCreateApiSchema.safeParse(title ? { ...pkg.book, title } : pkg.book);
+  if (!book.success) {
+    return { error: "The book details have problems", issues: toIssues(book.error, "book") };
+  }
+
+  // every bundled file must be there, unless the source URL can stand in
+  const missing: PackageIssue[] = [];
+  const checkRef = (ref: MediaRef | null | undefined, path: string) => {
+    if (ref?.file && !ref.url && !zip.file(ref.file)) {
+      missing.push({ path, message: `${ref.file} is missing from the archive` });
+    }
+  };
+  checkRef(pkg.cover, "cover");
+  pkg.pages.forEach((p, i) => {
+    checkRef(p.image, `pages.${i}.image`);
+    checkRef(p.audio, `pages.${i}.audio`);
+  });
+  if (missing.length) return { error: "The package is missing media files", issues: missing };
+
+  return { pkg, book: book.data, zip };
+}
+
+const badgeKey = (name: string) => name.trim().toLowerCase();
+
+async function badgesByName(names: string[]) {
+  if (!names.length) return new Map<string, number>();
+  const rows = await db
+    .select({ id: schema.badges.id, name: schema.badges.name })
+    .from(schema.badges)
+    .orderBy(asc(schema.badges.id));
+  const byName = new Map<string, number>();
+  for (const b of rows) if (!byName.has(badgeKey(b.name))) byName.set(badgeKey(b.name), b.id);
+  return byName;
+}
+
+/**
+ * What stands in the way of importing: a live book with the same title,
+ * grade and subject (blocking, same rule as uniq_title_grade_subject_ci), a
+ * slug already taken here, and badges this deployment doesn't have.
+ */
+export async function findPackageConflicts({ pkg, book }: ReadPackage, slug: string): Promise<PackageConflict[]> {
+  const conflicts: PackageConflict[] = [];
+  const subject = book.type === "educational" ? book.subject ?? null : null;
+
+  const [clash] = await db
+    .select({ id: schema.books.id })
+    .from(schema.books)
+    .where(
+      and(
+        isNull(schema.books.deletedAt),
+        sql`lower(${schema.books.title}) = lower(${book.title})`,
+        sql`coalesce(${schema.books.grade}, '') = ${book.grade ?? ""}`,
+        sql`coalesce(${schema.books.subject}, '') = ${subject ?? ""}`
+      )
+    )
+    .limit(1);
+  if (clash) {
+    conflicts.push({
+      type: "title",
+      message: `A book called "${book.title}" already exists for this grade and subject. Import it under another title.`,
+      blocking: true,
+    });
+  }
+
+  if (pkg.slug && pkg.slug !== slug) {
+    conflicts.push({
+      type: "slug",
+      message: `The address "${pkg.slug}" is taken here; the book will use "${slug}".`,
+      blocking: false,
+    });
+  }
+
+  const known = await badgesByName(pkg.badges.map((b) => b.name));
+  for (const b of pkg.badges) {
+    if (!known.has(badgeKey(b.name))) {
+      conflicts.push({
+        type: "badge",
+        message: `There is no "${b.name}" badge here; it will not be attached.`,
+        blocking: false,
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+/** Counts for the import preview. */
+export function summarizePackage({ pkg, book }: ReadPackage) {
+  const refs = [pkg.cover, ...pkg.pages.flatMap((p) => [p.image, p.audio])].filter((r): r is MediaRef => !!r);
+  return {
+    title: book.title,
+    type: book.type,
+    grade: book.grade ?? null,
+    subject: book.type === "educational" ? book.subject ?? null : null,
+    exportedAt: pkg.exportedAt ?? null,
+    pages: pkg.pages.length,
+    questions: pkg.pages.reduce((n, p) => n + p.questions.length, 0),
+    chapters: pkg.chapters.length,
+    badges: pkg.badges.length,
+    media: { bundled: refs.filter((r) => r.file).length, linked: refs.filter((r) => !r.file).length },
+  };
+}
+
+type MediaKind = "cover" | "image" | "audio";
+
+const MEDIA_FOLDERS: Record<MediaKind, string> = {
+  cover: "ilaw/books/covers",
+  image: "ilaw/books/pages/images",
+  audio: "ilaw/books/pages/audio",
+};
+
+type Uploaded = { url: string; publicId: string; resourceType: "image" | "video" };
+
+// Cloudinary keeps audio under the "video" resource type
+function uploadMedia(source: Buffer | string, kind: MediaKind): Promise<Uploaded> {
+  const resourceType = kind === "audio" ? "video" : "image";
+  const options = { folder: MEDIA_FOLDERS[kind], resource_type: resourceType } as const;
+  return new Promise((resolve, reject) => {
+    const done = (err?: unknown, result?: { secure_url: string; public_id: string }) =>
+      err || !result
+        ? reject(err || new Error("Upload failed"))
+        : resolve({ url: result.secure_url, publicId: result.public_id, resourceType });
+    if (typeof source === "string") {
+      cloudinary.uploader.upload(source, options, done);
+    } else {
+      cloudinary.uploader.upload_stream(options, done).end(source);
+    }
+  });
+}
+
+/**
+ * Create the book from a validated package whose `findPackageConflicts` have
+ * no blocking entry; the others come back with any media that failed. Media
+ * are uploaded before the transaction and deleted again if it fails.
+ */
+export async function importBookPackage(
+  read: ReadPackage,
+  { slug, userId, conflicts: found }: { slug: string; userId: number; conflicts: PackageConflict[] }
+) {
+  const { pkg, book, zip } = read;
+  const conflicts = [...found];
+  const uploaded: Uploaded[] = [];
+
+  const copy = async (ref: MediaRef | null | undefined, kind: MediaKind, label: string) => {
+    if (!ref) return null;
+    try {
+      const bundled = ref.file ? zip.file(ref.file) : null;
+      const source = bundled ? await readEntry(bundled, MAX_MEDIA_BYTES) : ref.url;
+      if (!source) throw new Error("no file or URL");
+      const result = await uploadMedia(source, kind);
+      uploaded.push(result);
+      return result;
+    } catch (err) {
+      console.warn("Book package: could not upload", label, err);
+      conflicts.push({ type: "media", message: `${label} could not be copied and was left out.`, blocking: false });
+      return null;
+    }
+  };
+
+  const cover = await copy(pkg.cover, "cover", "The cover");
+  const pageMedia: { image: Uploaded | null; audio: Uploaded | null }[] = [];
+  for (const p of pkg.pages) {
+    pageMedia.push({
+      image: await copy(p.image, "image", `The picture on page ${p.pageNumber}`),
+      audio: await copy(p.audio, "audio", `The audio on page ${p.pageNumber}`),
+    });
+  }
+
+  const known = await badgesByName(pkg.badges.map((b) => b.name));
+
+  try {
+    const created = await db.transaction(async (tx) => {
+      const [newBook] = await tx
+        .insert(schema.books)
+        .values({
+          slug,
+          title: book.title,
+          description: book.description,
+          type: book.type,
+          subject: book.type === "educational" ? book.subject ?? null : null,
+          grade: book.grade ?? null,
+          coverImage: cover?.url ?? null,
+          coverPublicId: cover?.publicId ?? null,
+          musicUrl: book.musicUrl ?? null,
+          quizMode: book.quizMode,
+          addedById: userId,
+          status: "draft",
+        })
+        .returning();
+
+      for (let i = 0; i < pkg.pages.length; i++) {
+        const p = pkg.pages[i];
+        const [page] = await tx
+          .insert(schema.pages)
+          .values({
+            bookId: newBook.id,
+            pageNumber: p.pageNumber,
+            title: p.title ?? null,
+            content: p.content,
+            shuffleQuestions: p.shuffleQuestions,
+            imageUrl: pageMedia[i].image?.url ?? null,
+            imagePublicId: pageMedia[i].image?.publicId ?? null,
+            audioUrl: pageMedia[i].audio?.url ?? null,
+            audioPublicId: pageMedia[i].audio?.publicId ?? null,
+          })
+          .returning({ id: schema.pages.id });
+
+        if (p.questions.length) {
+          await tx.insert(schema.questions).values(
+            p.questions.map((q) => ({
+              pageId: page.id,
+              questionText: q.questionText,
+              answerType: q.answerType,
+              correctAnswer: q.correctAnswer ?? null,
+              options: q.options ?? null,
+            }))
+          );
+        }
+      }
+
+      if (pkg.chapters.length) {
+        await tx.insert(schema.chapters).values(pkg.chapters.map((c) => ({ ...c, bookId: newBook.id })));
+      }
+
+      // a badge listed twice is attached once (uniq_book_badge)
+      const attached = new Set<number>();
+      for (const b of pkg.badges) {
+        const badgeId = known.get(badgeKey(b.name));
+        if (!badgeId || attached.has(badgeId)) continue;
+        attached.add(badgeId);
+        await tx.insert(schema.bookBadges).values({
+          bookId: newBook.id,
+          badgeId,
+          awardMethod: b.awardMethod,
+          completionThreshold: b.completionThreshold,
+          isEnabled: b.isEnabled,
+          criteriaJson: b.criteriaJson ?? null,
+        });
+      }
+
+      return newBook;
+    });
+
+    return { book: created, conflicts };
+  } catch (err) {
+    for (const u of uploaded) {
+      await cloudinary.uploader
+        .destroy(u.publicId, { resource_type: u.resourceType, invalidate: true })
+        .catch((e: Error) => console.warn("Book package: could not clean up", u.publicId, e.message));
+    }
+    throw err;
+  }
+}
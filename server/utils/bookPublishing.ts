@@ -0,0 +1,227 @@
+// server/utils/bookPublishing.ts
+
+/**
+ * Book publishing workflow: draft → in review → published → archived.
+ *
+ * New books start as drafts so nobody but their authors sees them while pages
+ * are still being added. A teacher submits a draft for review (optionally
+ * asking for a publish time); a user with books.publish approves it, or
+ * rejects it back to draft with a comment, and can also publish drafts
+ * directly. A published book with `publishAt` in the future stays hidden until
+ * then, so scheduling needs no job. Every change and comment is kept in
+ * `bookReviewEvents` for the history on the book page.
+ *
+ * Students (and anyone else who cannot edit books) only ever see live books:
+ * published with `publishAt` passed. Teachers also see drafts they own or
+ * co-author; books.edit.any / books.publish see everything. Nobody sees books
+ * in the trash here (server/utils/bookTrash.ts).
+ */
+
+import { and, asc, desc, eq, inArray, isNull, lte, or, sql, type SQL } from "drizzle-orm";
+import { db } from "@db";
+import * as schema from "@shared/schema";
+import { bookAccessFor, sharedBookIdsQuery } from "./bookSharing";
+import { canActOnBook, userPermissions } from "./permissions";
+
+type Requester = { id: number; role: string };
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const userColumns = { id: true, firstName: true, lastName: true, role: true } as const;
+
+export const MAX_REVIEW_COMMENT = 2000;
+
+/* ----------------------------- Visibility ----------------------------- */
+
+/** Published, past its publishAt and not in the trash. */
+export const liveBookCondition = () =>
+  and(
+    eq(schema.books.status, "published"),
+    or(isNull(schema.books.publishAt), lte(schema.books.publishAt, sql`now()`)),
+    isNull(schema.books.deletedAt)
+  )!;
+
+export const isBookLive = (book: Pick<schema.Book, "status" | "publishAt" | "deletedAt">, now = new Date()) =>
+  book.status === "published" && (!book.publishAt || book.publishAt <= now) && !book.deletedAt;
+
+/** Filter for book lists; never includes the trash. */
+export async function visibleBooksCondition(user: Requester): Promise<SQL> {
+  const granted = await userPermissions(user);
+  if (granted.includes("books.edit.any") || granted.includes("books.publish")) return isNull(schema.books.deletedAt);
+  if (granted.includes("books.edit.own")) {
+    return and(
+      isNull(schema.books.deletedAt),
+      or(
+        liveBookCondition(),
+        eq(schema.books.addedById, user.id),
+        inArray(schema.books.id, sharedBookIdsQuery(user.id))
+      )
+    )!;
+  }
+  return liveBookCondition();
+}
+
+export async function canViewBook(
+  user: Requester,
+  book: Pick<schema.Book, "id" | "addedById" | "status" | "publishAt" | "deletedAt">
+): Promise<boolean> {
+  if (book.deletedAt) return false;
+  if (isBookLive(book)) return true;
+  const granted = await userPermissions(user);
+  if (granted.includes("books.edit.any") || granted.includes("books.publish")) return true;
+  return granted.includes("books.edit.own") && (await bookAccessFor(user.id, book)) !== null;
+}
+
+/** Same for a book id (pages, questions); false when it does not exist. */
+export async function canViewBookId(user: Requester, bookId: number): Promise<boolean> {
+  const book = await db.query.books.findFirst({
+    where: eq(schema.books.id, bookId),
+    columns: { id: true, addedById: true, status: true, publishAt: true, deletedAt: true },
+  });
+  return !!book && (await canViewBook(user, book));
+}
+
+/* ----------------------------- Status changes ----------------------------- */
+
+export const BOOK_STATUS_ACTIONS = ["submit", "withdraw", "approve", "reject", "publish", "archive", "restore"] as const;
+export type BookStatusAction = (typeof BOOK_STATUS_ACTIONS)[number];
+
+// `publisher`: needs books.publish; otherwise books.edit on the book (publishers may too)
+const TRANSITIONS: Record<
+  BookStatusAction,
+  { from: schema.BookStatus[]; to: schema.BookStatus; event: schema.BookReviewAction; publisher: boolean }
+> = {
+  submit: { from: ["draft"], to: "in_review", event: "submitted", publisher: false },
+  withdraw: { from: ["in_review"], to: "draft", event: "withdrawn", publisher: false },
+  approve: { from: ["in_review"], to: "published", event: "approved", publisher: true },
+  reject: { from: ["in_review"], to: "draft", event: "rejected", publisher: true },
+  // also reschedules a published book
+  publish: { from: ["draft", "published"], to: "published", event: "published", publisher: true },
+  archive: { from: ["draft", "in_review", "published"], to: "archived", event: "archived", publisher: false },
+  restore: { from: ["archived"], to: "draft", event: "restored", publisher: false },
+};
+
+export const isBookStatusAction = (v: unknown): v is BookStatusAction =>
+  typeof v === "string" && (BOOK_STATUS_ACTIONS as readonly string[]).includes(v);
+
+const STATUS_LABELS: Record<schema.BookStatus, string> = {
+  draft: "a draft",
+  in_review: "in review",
+  published: "published",
+  archived: "archived",
+};
+
+/** Why `user` may not apply `action` to the book right now, or null when they may. */
+export async function bookStatusChangeError(
+  user: Requester,
+  book: Pick<schema.Book, "id" | "addedById" | "status">,
+  action: BookStatusAction,
+  comment: string | null
+): Promise<{ status: number; message: string } | null> {
+  const t = TRANSITIONS[action];
+  const publisher = (await userPermissions(user)).includes("books.publish");
+  if (t.publisher ? !publisher : !publisher && !(await canActOnBook(user, book, "books.edit"))) {
+    return { status: 403, message: "You do not have permission to do that" };
+  }
+  if (!t.from.includes(book.status)) {
+    return { status: 409, message: `This book is ${STATUS_LABELS[book.status]}` };
+  }
+  if (action === "reject" && !comment) {
+    return { status: 400, message: "Tell the author what to change" };
+  }
+  return null;
+}
+
+/**
+ * Apply a checked status change and record it. `publishAt` is the requested
+ * time on submit and the schedule on approve / publish; undefined keeps the
+ * one already on the book.
+ */
+export async function changeBookStatus(
+  book: Pick<schema.Book, "id" | "publishAt">,
+  action: BookStatusAction,
+  byUserId: number,
+  options: { comment?: string | null; publishAt?: Date | null } = {}
+) {
+  const t = TRANSITIONS[action];
+  const now = new Date();
+  const publishAt = options.publishAt === undefined ? book.publishAt : options.publishAt;
+
+  const update: Partial<typeof schema.books.$inferInsert> = { status: t.to };
+  if (action === "submit") Object.assign(update, { submittedAt: now, publishAt });
+  if (t.to === "published") Object.assign(update, { publishedAt: now, publishAt });
+
+  return db.transaction(async (tx) => {
+    const [updated] = await tx.update(schema.books).set(update).where(eq(schema.books.id, book.id)).returning();
+    await tx.insert(schema.bookReviewEvents).values({
+      bookId: book.id,
+      userId: byUserId,
+      action: t.event,
+      comment: options.comment || null,
+      publishAt: action === "submit" || t.to === "published" ? publishAt : null,
+    });
+    return updated;
+  });
+}
+
+/* ----------------------------- Review history & queue ----------------------------- */
+
+export async function addBookReviewComment(bookId: number, userId: number, comment: string) {
+  const [row] = await db
+    .insert(schema.bookReviewEvents)
+    .values({ bookId, userId, action: "commented", comment })
+    .returning();
+  return row;
+}
+
+/** Status changes and comments on one book, oldest first. */
+export function listBookReviewEvents(bookId: number) {
+  return db.query.bookReviewEvents.findMany({
+    where: eq(schema.bookReviewEvents.bookId, bookId),
+    with: { user: { columns: userColumns } },
+    orderBy: [asc(schema.bookReviewEvents.createdAt), asc(schema.bookReviewEvents.id)],
+  });
+}
+
+/** Books waiting for review, longest waiting first, with their author and the submit note. */
+export async function listReviewQueue() {
+  const books = await db.query.books.findMany({
+    where: and(eq(schema.books.status, "in_review"), isNull(schema.books.deletedAt)),
+    columns: {
+      id: true,
+      title: true,
+      type: true,
+      subject: true,
+      grade: true,
+      coverImage: true,
+      publishAt: true,
+      submittedAt: true,
+    },
+    with: { addedBy: { columns: userColumns } },
+    orderBy: [asc(schema.books.submittedAt)],
+  });
+  if (!books.length) return [];
+
+  const submissions = await db.query.bookReviewEvents.findMany({
+    where: and(
+      inArray(
+        schema.bookReviewEvents.bookId,
+        books.map((b) => b.id)
+      ),
+      eq(schema.bookReviewEvents.action, "submitted")
+    ),
+    with: { user: { columns: userColumns } },
+    orderBy: [desc(schema.bookReviewEvents.createdAt)],
+  });
+  const latest = new Map<number, (typeof submissions)[number]>();
+  for (const s of submissions) if (!latest.has(s.bookId)) latest.set(s.bookId, s);
+
+  return books.map((b) => {
+    const s = latest.get(b.id);
+    return { ...b, submittedBy: s?.user ?? b.addedBy ?? null, submitComment: s?.comment ?? null };
+  });
+}
+
+/** Remove a book's history (the book is being deleted). */
+export async function deleteBookReviewEvents(tx: Tx, bookId: number) {
+  await tx.delete(schema.bookReviewEvents).where(eq(schema.bookReviewEvents.bookId, bookId));
+}
@@ -0,0 +1,148 @@
+// server/utils/bookSharing.ts
+
+/**
+ * Book ownership and co-authors.
+ *
+ * `books.addedById` is the owner. The owner (or anyone with books.edit.any)
+ * can share a book with other teachers as an editor, who may change it like
+ * the owner but not delete it, or as a viewer. `.own` permissions cover the
+ * owner and, for edits, editors (see ownsForAction in shared/permissions.ts).
+ * Users with books.transfer hand a book to a new owner, e.g. when a teacher
+ * leaves.
+ */
+
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { db } from "@db";
+import * as schema from "@shared/schema";
+import type { BookAccess } from "@shared/permissions";
+
+const userColumns = { id: true, firstName: true, lastName: true, email: true, role: true } as const;
+
+/** How `userId` relates to the book: owner, editor, viewer or null. */
+export async function bookAccessFor(
+  userId: number,
+  book: Pick<schema.Book, "id" | "addedById">
+): Promise<BookAccess | null> {
+  if (book.addedById === userId) return "owner";
+  const row = await db.query.bookCollaborators.findFirst({
+    where: and(eq(schema.bookCollaborators.bookId, book.id), eq(schema.bookCollaborators.userId, userId)),
+    columns: { role: true },
+  });
+  return row?.role ?? null;
+}
+
+/** Same for a list of books (one query), keyed by book id; books without access are left out. */
+export async function bookAccessMap(
+  userId: number,
+  books: Pick<schema.Book, "id" | "addedById">[]
+): Promise<Map<number, BookAccess>> {
+  const access = new Map<number, BookAccess>();
+  if (!books.length) return access;
+  const rows = await db.query.bookCollaborators.findMany({
+    where: and(
+      eq(schema.bookCollaborators.userId, userId),
+      inArray(schema.bookCollaborators.bookId, books.map((b) => b.id))
+    ),
+    columns: { bookId: true, role: true },
+  });
+  for (const r of rows) access.set(r.bookId, r.role);
+  for (const b of books) if (b.addedById === userId) access.set(b.id, "owner");
+  return access;
+}
+
+/** Ids of books shared with the user (any collaborator role). */
+export function sharedBookIdsQuery(userId: number) {
+  return db
+    .select({ id: schema.bookCollaborators.bookId })
+    .from(schema.bookCollaborators)
+    .where(eq(schema.bookCollaborators.userId, userId));
+}
+
+/** Owner plus collaborators, oldest first. */
+export async function listBookSharing(book: Pick<schema.Book, "id" | "addedById">) {
+  const [owner, collaborators] = await Promise.all([
+    book.addedById
+      ? db.query.users.findFirst({ where: eq(schema.users.id, book.addedById), columns: userColumns })
+      : null,
+    db.query.bookCollaborators.findMany({
+      where: eq(schema.bookCollaborators.bookId, book.id),
+      with: { user: { columns: userColumns } },
+      orderBy: schema.bookCollaborators.createdAt,
+    }),
+  ]);
+  return {
+    owner: owner ?? null,
+    collaborators: collaborators.map((c) => ({
+      userId: c.userId,
+      role: c.role,
+      createdAt: c.createdAt,
+      user: c.user,
+    })),
+  };
+}
+
+/** Teachers and admins that can own or co-author books (active, approved). */
+export async function findBookAuthor(where: { id?: number; email?: string }) {
+  const user = await db.query.users.findFirst({
+    where: where.id
+      ? eq(schema.users.id, where.id)
+      : sql`lower(${schema.users.email}) = ${String(where.email ?? "").trim().toLowerCase()}`,
+    columns: { ...userColumns, approvalStatus: true, deletedAt: true },
+  });
+  if (!user || user.deletedAt) return null;
+  if (user.role === "admin" || (user.role === "teacher" && user.approvalStatus === "approved")) return user;
+  return null;
+}
+
+/** Add or change a collaborator. */
+export async function setBookCollaborator(
+  bookId: number,
+  userId: number,
+  role: schema.BookCollaboratorRole,
+  addedById: number
+) {
+  const [row] = await db
+    .insert(schema.bookCollaborators)
+    .values({ bookId, userId, role, addedById })
+    .onConflictDoUpdate({
+      target: [schema.bookCollaborators.bookId, schema.bookCollaborators.userId],
+      set: { role },
+    })
+    .returning();
+  return row;
+}
+
+/** False when the user was not a collaborator. */
+export async function removeBookCollaborator(bookId: number, userId: number): Promise<boolean> {
+  const rows = await db
+    .delete(schema.bookCollaborators)
+    .where(and(eq(schema.bookCollaborators.bookId, bookId), eq(schema.bookCollaborators.userId, userId)))
+    .returning({ id: schema.bookCollaborators.id });
+  return rows.length > 0;
+}
+
+/**
+ * Make `newOwnerId` the owner. They stop being a collaborator; the previous
+ * owner stays on as an editor when `keepPreviousOwner` is set.
+ */
+export async function transferBookOwnership(
+  book: Pick<schema.Book, "id" | "addedById">,
+  newOwnerId: number,
+  opts: { keepPreviousOwner?: boolean; transferredById: number }
+) {
+  await db.transaction(async (tx) => {
+    await tx.update(schema.books).set({ addedById: newOwnerId }).where(eq(schema.books.id, book.id));
+    await tx
+      .delete(schema.bookCollaborators)
+      .where(and(eq(schema.bookCollaborators.bookId, book.id), eq(schema.bookCollaborators.userId, newOwnerId)));
+    if (opts.keepPreviousOwner && book.addedById && book.addedById !== newOwnerId) {
+      await tx
+        .insert(schema.bookCollaborators)
+        .values({ bookId: book.id, userId: book.addedById, role: "editor", addedById: opts.transferredById })
+        .onConflictDoUpdate({
+          target: [schema.bookCollaborators.bookId, schema.bookCollaborators.userId],
+          set: { role: "editor" },
+        });
+    }
+  });
+}
@@ -0,0 +1,390 @@
+// server/utils/bookTrash.ts
+
+/**
+ * Trash for books, pages and questions.
+ *
+ * Deleting only marks the row (`deletedAt`/`purgeAfter`/`deletedById`), so a
+ * book keeps its pages, questions and every student's progress, quiz attempts
+ * and reading sessions until it is purged. Trashed rows are left out of every
+ * read (a trashed book hides its pages, a trashed page its questions) and
+ * don't count for the title / slug / page number unique indexes; restoring
+ * checks those again. Once systemSettings.trashRetentionDays have passed the
+ * purge job removes the rows with everything that depends on them, and only
+ * then deletes their Cloudinary files (cover, page image, page audio).
+ *
+ * Any new table that references `books.id` or `pages.id` must be handled in
+ * `purgeBook` / `purgePage`.
+ */
+
+import { and, eq, inArray, isNotNull, isNull, lte, ne, or, sql } from "drizzle-orm";
+import { v2 as cloudinary } from "cloudinary";
+import { db } from "@db";
+import * as schema from "@shared/schema";
+import { deleteBookReviewEvents } from "./bookPublishing";
+import { canActOnBook, userPermissions } from "./permissions";
+import { log } from "../vite";
+
+type Requester = { id: number; role: string };
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000; // hourly
+
+export const TRASH_KINDS = ["books", "pages", "questions"] as const;
+export type TrashKind = (typeof TRASH_KINDS)[number];
+
+export const isTrashKind = (v: unknown): v is TrashKind =>
+  typeof v === "string" && (TRASH_KINDS as readonly string[]).includes(v);
+
+const userColumns = { id: true, firstName: true, lastName: true } as const;
+
+export async function getTrashRetentionDays(): Promise<number> {
+  const settings = await db.query.systemSettings.findFirst({ columns: { trashRetentionDays: true } });
+  return settings?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+async function trashMark(byUserId: number) {
+  const now = new Date();
+  return { deletedAt: now, deletedById: byUserId, purgeAfter: new Date(now.getTime() + (await getTrashRetentionDays()) * DAY_MS) };
+}
+
+const restoredMark = { deletedAt: null, deletedById: null, purgeAfter: null };
+
+/* ----------------------------- Moving to the trash ----------------------------- */
+
+/** Move a book (with its pages and questions) to the trash. Returns the purge date. */
+export async function trashBook(bookId: number, byUserId: number): Promise<Date> {
+  const mark = await trashMark(byUserId);
+  await db.update(schema.books).set(mark).where(eq(schema.books.id, bookId));
+  return mark.purgeAfter;
+}
+
+/** Move a page (with its questions) to the trash. Returns the purge date. */
+export async function trashPage(pageId: number, byUserId: number): Promise<Date> {
+  const mark = await trashMark(byUserId);
+  await db.update(schema.pages).set(mark).where(eq(schema.pages.id, pageId));
+  return mark.purgeAfter;
+}
+
+export async function trashQuestion(questionId: number, byUserId: number): Promise<Date> {
+  const mark = await trashMark(byUserId);
+  await db.update(schema.questions).set(mark).where(eq(schema.questions.id, questionId));
+  return mark.purgeAfter;
+}
+
+/** Move several questions to the trash at once (e.g. dropped from a page when it is saved). */
+export async function trashQuestions(questionIds: number[], byUserId: number): Promise<void> {
+  if (!questionIds.length) return;
+  const mark = await trashMark(byUserId);
+  await db.update(schema.questions).set(mark).where(inArray(schema.questions.id, questionIds));
+}
+
+/* ----------------------------- Listing ----------------------------- */
+
+/**
+ * What `user` may restore or purge: books they may delete, pages and
+ * questions of books they may edit. Pages of a trashed book come back with
+ * the book and are not listed separately; neither are questions of a
+ * trashed page.
+ */
+export async function listTrash(user: Requester) {
+  const granted = await userPermissions(user);
+
+  const bookScope =
+    granted.includes("books.delete.any") || !granted.includes("books.delete.own")
+      ? undefined
+      : eq(schema.books.addedById, user.id);
+  const books = granted.some((p) => p.startsWith("books.delete."))
+    ? await db.query.books.findMany({
+        where: and(isNotNull(schema.books.deletedAt), bookScope),
+        columns: {
+          id: true,
+          title: true,
+          type: true,
+          grade: true,
+          subject: true,
+          coverImage: true,
+          addedById: true,
+          deletedAt: true,
+          purgeAfter: true,
+        },
+        with: { deletedBy: { columns: userColumns } },
+        orderBy: (b, { desc }) => [desc(b.deletedAt)],
+      })
+    : [];
+
+  const [pages, questions] = await Promise.all([
+    db.query.pages.findMany({
+      where: and(
+        isNotNull(schema.pages.deletedAt),
+        inArray(
+          schema.pages.bookId,
+          db.select({ id: schema.books.id }).from(schema.books).where(isNull(schema.books.deletedAt))
+        )
+      ),
+      columns: { id: true, bookId: true, pageNumber: true, title: true, content: true, deletedAt: true, purgeAfter: true },
+      with: {
+        book: { columns: { id: true, title: true, addedById: true } },
+        deletedBy: { columns: userColumns },
+      },
+      orderBy: (p, { desc }) => [desc(p.deletedAt)],
+    }),
+    db.query.questions.findMany({
+      where: and(
+        isNotNull(schema.questions.deletedAt),
+        inArray(
+          schema.questions.pageId,
+          db
+            .select({ id: schema.pages.id })
+            .from(schema.pages)
+            .innerJoin(schema.books, eq(schema.books.id, schema.pages.bookId))
+            .where(and(isNull(schema.pages.deletedAt), isNull(schema.books.deletedAt)))
+        )
+      ),
+      columns: { id: true, pageId: true, questionText: true, deletedAt: true, purgeAfter: true },
+      with: {
+        page: {
+          columns: { id: true, pageNumber: true },
+          with: { book: { columns: { id: true, title: true, addedById: true } } },
+        },
+        deletedBy: { columns: userColumns },
+      },
+      orderBy: (q, { desc }) => [desc(q.deletedAt)],
+    }),
+  ]);
+
+  // editing rights per book, checked once each
+  const editable = new Map<number, boolean>();
+  for (const book of [...pages.map((p) => p.book), ...questions.map((q) => q.page.book)]) {
+    if (!editable.has(book.id)) editable.set(book.id, await canActOnBook(user, book, "books.edit"));
+  }
+
+  return {
+    books,
+    pages: pages.filter((p) => editable.get(p.book.id)),
+    questions: questions.filter((q) => editable.get(q.page.book.id)),
+  };
+}
+
+/* ----------------------------- Restoring ----------------------------- */
+
+type TrashError = { status: number; message: string };
+type TrashedPage = schema.Page & { book: schema.Book };
+type TrashItem =
+  | { book: schema.Book }
+  | { page: TrashedPage }
+  | { question: schema.Question & { page: TrashedPage } };
+
+/**
+ * Find a trashed item and check `user` may restore or purge it: books.delete
+ * for a book, books.edit on the book for a page or question.
+ */
+export async function findTrashItem(
+  user: Requester,
+  kind: TrashKind,
+  id: number
+): Promise<TrashItem | { error: TrashError }> {
+  const notFound = { error: { status: 404, message: "Not in the trash" } as TrashError };
+  const forbidden = { error: { status: 403, message: "You can only manage books you added" } as TrashError };
+
+  if (kind === "books") {
+    const book = await db.query.books.findFirst({
+      where: and(eq(schema.books.id, id), isNotNull(schema.books.deletedAt)),
+    });
+    if (!book) return notFound;
+    return (await canActOnBook(user, book, "books.delete")) ? { book } : forbidden;
+  }
+
+  if (kind === "pages") {
+    const page = await db.query.pages.findFirst({
+      where: and(eq(schema.pages.id, id), isNotNull(schema.pages.deletedAt)),
+      with: { book: true },
+    });
+    if (!page) return notFound;
+    return (await canActOnBook(user, page.book, "books.edit")) ? { page } : forbidden;
+  }
+
+  const question = await db.query.questions.findFirst({
+    where: and(eq(schema.questions.id, id), isNotNull(schema.questions.deletedAt)),
+    with: { page: { with: { book: true } } },
+  });
+  if (!question) return notFound;
+  return (await canActOnBook(user, question.page.book, "books.edit")) ? { question } : forbidden;
+}
+
+/** Put a trashed item back. Returns an error when something now takes its place. */
+export async function restoreTrashItem(item: TrashItem): Promise<TrashError | null> {
+  if ("book" in item) {
+    const { book } = item;
+    const clash = await db.query.books.findFirst({
+      where: and(
+        isNull(schema.books.deletedAt),
+        ne(schema.books.id, book.id),
+        or(
+          eq(schema.books.slug, book.slug),
+          and(
+            sql`lower(${schema.books.title}) = lower(${book.title})`,
+            sql`coalesce(${schema.books.grade}, '') = ${book.grade ?? ""}`,
+            sql`coalesce(${schema.books.subject}, '') = ${book.subject ?? ""}`
+          )
+        )
+      ),
+      columns: { id: true },
+    });
+    if (clash) {
+      return { status: 409, message: `Another book is now called "${book.title}"; rename it first` };
+    }
+    await db.update(schema.books).set(restoredMark).where(eq(schema.books.id, book.id));
+    return null;
+  }
+
+  if ("page" in item) {
+    const { page } = item;
+    if (page.book.deletedAt) return { status: 409, message: "Restore the book first" };
+    const clash = await db.query.pages.findFirst({
+      where: and(
+        eq(schema.pages.bookId, page.bookId),
+        eq(schema.pages.pageNumber, page.pageNumber),
+        isNull(schema.pages.deletedAt)
+      ),
+      columns: { id: true },
+    });
+    if (clash) {
+      return { status: 409, message: `Page ${page.pageNumber} already exists in this book; renumber it first` };
+    }
+    await db.update(schema.pages).set(restoredMark).where(eq(schema.pages.id, page.id));
+    return null;
+  }
+
+  const { question } = item;
+  if (question.page.book.deletedAt) return { status: 409, message: "Restore the book first" };
+  if (question.page.deletedAt) return { status: 409, message: "Restore the page first" };
+  await db.update(schema.questions).set(restoredMark).where(eq(schema.questions.id, question.id));
+  return null;
+}
+
+/* ----------------------------- Purging ----------------------------- */
+
+type Asset = { publicId: string; resourceType: "image" | "video" };
+
+const pageAssets = (pages: Pick<schema.Page, "imagePublicId" | "audioPublicId">[]): Asset[] =>
+  pages.flatMap((p) => [
+    ...(p.imagePublicId ? [{ publicId: p.imagePublicId, resourceType: "image" as const }] : []),
+    // Cloudinary files audio under "video"
+    ...(p.audioPublicId ? [{ publicId: p.audioPublicId, resourceType: "video" as const }] : []),
+  ]);
+
+/**
+ * Delete Cloudinary files no remaining book or page uses (copies of a book
+ * share them). Failures are logged: the rows are already gone.
+ */
+async function destroyAssets(assets: Asset[]) {
+  for (const { publicId, resourceType } of assets) {
+    try {
+      const [cover, page] = await Promise.all([
+        db.query.books.findFirst({ where: eq(schema.books.coverPublicId, publicId), columns: { id: true } }),
+        db.query.pages.findFirst({
+          where: or(eq(schema.pages.imagePublicId, publicId), eq(schema.pages.audioPublicId, publicId)),
+          columns: { id: true },
+        }),
+      ]);
+      if (cover || page) continue;
+      await cloudinary.uploader.destroy(publicId, { resource_type: resourceType, invalidate: true });
+    } catch (e) {
+      log(`Could not delete Cloudinary file ${publicId}: ${(e as Error).message}`, "trash");
+    }
+  }
+}
+
+/** Permanently remove a book with its pages, questions and all student activity on it. */
+export async function purgeBook(bookId: number): Promise<boolean> {
+  const book = await db.query.books.findFirst({ where: eq(schema.books.id, bookId) });
+  if (!book) return false;
+  const pages = await db.query.pages.findMany({ where: eq(schema.pages.bookId, bookId) });
+  const pageIds = pages.map((p) => p.id);
+
+  await db.transaction(async (tx) => {
+    if (pageIds.length) await tx.delete(schema.questions).where(inArray(schema.questions.pageId, pageIds));
+    await tx.delete(schema.quizAttempts).where(eq(schema.quizAttempts.bookId, bookId));
+    await tx.delete(schema.storyCheckpoints).where(eq(schema.storyCheckpoints.bookId, bookId));
+    if (pageIds.length) await tx.delete(schema.pages).where(eq(schema.pages.bookId, bookId));
+    await tx.delete(schema.readingSessions).where(eq(schema.readingSessions.bookId, bookId));
+    await tx.delete(schema.progress).where(eq(schema.progress.bookId, bookId));
+    await tx.delete(schema.chapters).where(eq(schema.chapters.bookId, bookId));
+    await tx.delete(schema.bookBadges).where(eq(schema.bookBadges.bookId, bookId));
+    // earned badges stay with the student, without the book
+    await tx.update(schema.earnedBadges).set({ bookId: null }).where(eq(schema.earnedBadges.bookId, bookId));
+    await tx.delete(schema.bookCollaborators).where(eq(schema.bookCollaborators.bookId, bookId));
+    await tx.delete(schema.assignmentBooks).where(eq(schema.assignmentBooks.bookId, bookId));
+    await deleteBookReviewEvents(tx, bookId);
+    await tx.delete(schema.books).where(eq(schema.books.id, bookId));
+  });
+
+  await destroyAssets([
+    ...(book.coverPublicId ? [{ publicId: book.coverPublicId, resourceType: "image" as const }] : []),
+    ...pageAssets(pages),
+  ]);
+  return true;
+}
+
+/** Permanently remove a page and its questions; quiz attempts and checkpoints on it lose the page link. */
+export async function purgePage(pageId: number): Promise<boolean> {
+  const page = await db.query.pages.findFirst({ where: eq(schema.pages.id, pageId) });
+  if (!page) return false;
+
+  await db.transaction(async (tx) => {
+    await tx.delete(schema.questions).where(eq(schema.questions.pageId, pageId));
+    await tx.update(schema.quizAttempts).set({ pageId: null }).where(eq(schema.quizAttempts.pageId, pageId));
+    await tx.update(schema.storyCheckpoints).set({ pageId: null }).where(eq(schema.storyCheckpoints.pageId, pageId));
+    await tx.delete(schema.pages).where(eq(schema.pages.id, pageId));
+  });
+
+  await destroyAssets(pageAssets([page]));
+  return true;
+}
+
+export async function purgeQuestion(questionId: number): Promise<boolean> {
+  const rows = await db
+    .delete(schema.questions)
+    .where(eq(schema.questions.id, questionId))
+    .returning({ id: schema.questions.id });
+  return rows.length > 0;
+}
+
+export function purgeTrashItem(kind: TrashKind, id: number) {
+  return kind === "books" ? purgeBook(id) : kind === "pages" ? purgePage(id) : purgeQuestion(id);
+}
+
+/** Purge everything whose retention period has ended. Returns how many items were purged. */
+export async function purgeExpiredTrash(): Promise<number> {
+  const now = new Date();
+  let purged = 0;
+  // books first: their pages and questions go with them
+  for (const kind of TRASH_KINDS) {
+    const table = schema[kind];
+    const due = await db
+      .select({ id: table.id })
+      .from(table)
+      .where(and(isNotNull(table.deletedAt), lte(table.purgeAfter, now)));
+    for (const { id } of due) {
+      try {
+        if (await purgeTrashItem(kind, id)) purged++;
+      } catch (e) {
+        log(`Purge of ${kind} ${id} failed: ${(e as Error).message}`, "trash");
+      }
+    }
+  }
+  return purged;
+}
+
+export function startTrashPurgeJob() {
+  const run = () =>
+    purgeExpiredTrash()
+      .then((n) => n > 0 && log(`Purged ${n} item(s) from the trash`, "trash"))
+      .catch((e) => log(`Trash purge failed: ${(e as Error).message}`, "trash"));
+
+  run();
+  const timer = setInterval(run, PURGE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,113 @@
+// server/utils/classSignIn.ts
+
+/**
+ * Class sign-in for K–2 students on a shared classroom device.
+ *
+ * A teacher turns it on to get a class sign-in code; the device opens that
+ * class, the student taps their name and enters a picture sequence or a short
+ * PIN. Secrets are bcrypt-hashed on the user row as "<kind>:<value>" and have
+ * their own attempt counter and lockout, separate from the password login.
+ */
+
+import crypto from "crypto";
+import bcrypt from "bcrypt";
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import { db } from "@db";
+import * as schema from "@shared/schema";
+import { teachesStudentCondition } from "./classes";
+import { normalizeJoinCode, randomCode } from "./joinCodes";
+
+export const CLASS_LOGIN_MAX_ATTEMPTS = 5;
+export const CLASS_LOGIN_LOCK_MINUTES = 15;
+const SIGN_IN_CODE_LENGTH = 6;
+
+const PICTURES = schema.CLASS_LOGIN_PICTURES as readonly string[];
+
+export const isClassLoginKind = (v: unknown): v is schema.ClassLoginKind =>
+  (schema.CLASS_LOGIN_KINDS as readonly unknown[]).includes(v);
+
+export const isClassLoginGrade = (g: string | null | undefined) =>
+  !!g && (schema.CLASS_LOGIN_GRADES as readonly string[]).includes(g);
+
+/**
+ * Canonical form of a secret, or null if it is not valid for `kind`.
+ * Pictures: array (or dash-separated string) of CLASS_LOGIN_PICTURE_COUNT names.
+ * PIN: exactly CLASS_LOGIN_PIN_LENGTH digits.
+ */
+export function normalizeClassLoginSecret(kind: schema.ClassLoginKind, raw: unknown): string | null {
+  if (kind === "pin") {
+    const pin = String(raw ?? "").trim();
+    return new RegExp(`^\\d{${schema.CLASS_LOGIN_PIN_LENGTH}}$`).test(pin) ? pin : null;
+  }
+  const parts = (Array.isArray(raw) ? raw : String(raw ?? "").split("-")).map((p) => String(p).trim().toLowerCase());
+  if (parts.length !== schema.CLASS_LOGIN_PICTURE_COUNT || !parts.every((p) => PICTURES.includes(p))) return null;
+  return parts.join("-");
+}
+
+export function generateClassLoginSecret(kind: schema.ClassLoginKind): string {
+  if (kind === "pin") {
+    return Array.from({ length: schema.CLASS_LOGIN_PIN_LENGTH }, () => crypto.randomInt(10)).join("");
+  }
+  return Array.from({ length: schema.CLASS_LOGIN_PICTURE_COUNT }, () => PICTURES[crypto.randomInt(PICTURES.length)]).join("-");
+}
+
+export const hashClassLoginSecret = (kind: schema.ClassLoginKind, secret: string) =>
+  bcrypt.hash(`${kind}:${secret}`, 10);
+
+export const verifyClassLoginSecret = (kind: schema.ClassLoginKind, secret: string, hash: string) =>
+  bcrypt.compare(`${kind}:${secret}`, hash);
+
+/** A new class sign-in code not used by another teacher. */
+export async function generateClassSignInCode(): Promise<string> {
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const code = randomCode(SIGN_IN_CODE_LENGTH);
+    const existing = await db.query.teachingSettings.findFirst({
+      where: eq(schema.teachingSettings.classSignInCode, code),
+      columns: { id: true },
+    });
+    if (!existing) return code;
+  }
+  throw new Error("Could not generate a unique class sign-in code");
+}
+
+/** Teacher (approved, active) behind a class sign-in code, or null. */
+export async function findClassByCode(raw: unknown) {
+  const code = normalizeJoinCode(raw);
+  if (code.length !== SIGN_IN_CODE_LENGTH) return null;
+
+  const settings = await db.query.teachingSettings.findFirst({
+    where: eq(schema.teachingSettings.classSignInCode, code),
+    columns: { userId: true },
+  });
+  if (!settings) return null;
+
+  const teacher = await db.query.users.findFirst({
+    where: and(eq(schema.users.id, settings.userId), isNull(schema.users.deletedAt)),
+    columns: { id: true, firstName: true, lastName: true, role: true, approvalStatus: true },
+  });
+  if (!teacher || teacher.role !== "teacher" || teacher.approvalStatus !== "approved") return null;
+  return teacher;
+}
+
+/** K–2 students the teacher teaches (optionally only those with class sign-in set up). */
+export async function classRoster(teacherId: number, opts: { signInOnly?: boolean } = {}) {
+  const students = await db.query.users.findMany({
+    where: and(
+      teachesStudentCondition(teacherId, schema.users.id),
+      eq(schema.users.role, "student"),
+      isNull(schema.users.deletedAt),
+      inArray(schema.users.gradeLevel, [...schema.CLASS_LOGIN_GRADES])
+    ),
+    columns: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      gradeLevel: true,
+      avatar: true,
+      classLoginKind: true,
+      approvalStatus: true,
+    },
+    orderBy: (u, { asc }) => [asc(u.firstName), asc(u.lastName)],
+  });
+  return opts.signInOnly ? students.filter((s) => s.classLoginKind) : students;
+}
@@ -0,0 +1,246 @@
+// server/utils/classes.ts
+
+/**
+ * Classes (sections) and their rosters.
+ *
+ * A class has a grade, a school year ("2026-2027") and one or more teachers.
+ * Its roster is capped at the smallest `teachingSettings.maxClassSize` of its
+ * teachers. What a teacher may see about students (the student list,
+ * progress, quiz attempts, badges) is scoped to the students they teach: the
+ * rosters of their active classes plus students enrolled with them directly
+ * (join codes without a class, spreadsheet imports). Admins see everyone.
+ */
+
+import { and, count, eq, inArray, isNull, or, sql, type SQL } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+import { db } from "@db";
+import * as schema from "@shared/schema";
+import { deleteClassAnnouncements } from "./announcements";
+
+export const DEFAULT_MAX_CLASS_SIZE = 30;
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Requester = { id: number; role: string };
+
+const personColumns = { id: true, firstName: true, lastName: true, email: true } as const;
+
+/** School year containing `now`; a new one starts in June. */
+export function currentSchoolYear(now = new Date()) {
+  const y = now.getFullYear();
+  return now.getMonth() >= 5 ? `${y}-${y + 1}` : `${y - 1}-${y}`;
+}
+
+/** "2026-2027" style, consecutive years. */
+export function isSchoolYear(v: unknown): v is string {
+  const m = /^(\d{4})-(\d{4})$/.exec(String(v ?? ""));
+  return !!m && Number(m[2]) === Number(m[1]) + 1;
+}
+
+// students on the rosters of the teacher's active classes
+const classRosterIds = (teacherId: number, studentId?: number) =>
+  db
+    .select({ id: schema.classStudents.studentId })
+    .from(schema.classStudents)
+    .innerJoin(schema.classTeachers, eq(schema.classTeachers.classId, schema.classStudents.classId))
+    .innerJoin(schema.classes, eq(schema.classes.id, schema.classStudents.classId))
+    .where(
+      and(
+        eq(schema.classTeachers.teacherId, teacherId),
+        isNull(schema.classes.archivedAt),
+        studentId === undefined ? undefined : eq(schema.classStudents.studentId, studentId)
+      )
+    );
+
+const directEnrollmentIds = (teacherId: number) =>
+  db
+    .select({ id: schema.studentEnrollments.studentId })
+    .from(schema.studentEnrollments)
+    .where(eq(schema.studentEnrollments.teacherId, teacherId));
+
+/** `column` (a student id) is one of the teacher's students. */
+export const teachesStudentCondition = (teacherId: number, column: PgColumn): SQL =>
+  or(inArray(column, classRosterIds(teacherId)), inArray(column, directEnrollmentIds(teacherId)))!;
+
+/** Does `teacherId` teach `studentId`? */
+export async function teachesStudent(teacherId: number, studentId: number) {
+  const [inClass] = await classRosterIds(teacherId, studentId).limit(1);
+  if (inClass) return true;
+  const direct = await db.query.studentEnrollments.findFirst({
+    where: and(
+      eq(schema.studentEnrollments.teacherId, teacherId),
+      eq(schema.studentEnrollments.studentId, studentId)
+    ),
+    columns: { id: true },
+  });
+  return !!direct;
+}
+
+/** Admins reach every student; teachers only their own. */
+export const canSeeStudent = async (requester: Requester, studentId: number) =>
+  requester.role === "admin" || (requester.role === "teacher" && (await teachesStudent(requester.id, studentId)));
+
+/** The class if the requester may manage it (admin, or one of its teachers), else null. */
+export async function findManagedClass(requester: Requester, classId: number) {
+  const row = await db.query.classes.findFirst({ where: eq(schema.classes.id, classId) });
+  if (!row) return null;
+  if (requester.role === "admin") return row;
+  const teaches = await db.query.classTeachers.findFirst({
+    where: and(eq(schema.classTeachers.classId, classId), eq(schema.classTeachers.teacherId, requester.id)),
+    columns: { id: true },
+  });
+  return teaches ? row : null;
+}
+
+/** Roster cap: the smallest maxClassSize among the class's teachers. */
+export async function classCapacity(classId: number, tx: Tx | typeof db = db) {
+  const rows = await tx
+    .select({ max: schema.teachingSettings.maxClassSize })
+    .from(schema.classTeachers)
+    .leftJoin(schema.teachingSettings, eq(schema.teachingSettings.userId, schema.classTeachers.teacherId))
+    .where(eq(schema.classTeachers.classId, classId));
+  const sizes = rows.map((r) => r.max ?? DEFAULT_MAX_CLASS_SIZE);
+  return sizes.length ? Math.min(...sizes) : DEFAULT_MAX_CLASS_SIZE;
+}
+
+/** Classes visible to the requester with teachers, roster size and cap. */
+export async function listClasses(
+  requester: Requester,
+  opts: { schoolYear?: string; includeArchived?: boolean } = {}
+) {
+  const conditions: SQL[] = [];
+  if (opts.schoolYear) conditions.push(eq(schema.classes.schoolYear, opts.schoolYear));
+  if (!opts.includeArchived) conditions.push(isNull(schema.classes.archivedAt));
+  if (requester.role !== "admin") {
+    conditions.push(
+      inArray(
+        schema.classes.id,
+        db
+          .select({ id: schema.classTeachers.classId })
+          .from(schema.classTeachers)
+          .where(eq(schema.classTeachers.teacherId, requester.id))
+      )
+    );
+  }
+
+  const rows = await db.query.classes.findMany({
+    where: conditions.length ? and(...conditions) : undefined,
+    with: { teachers: { with: { teacher: { columns: personColumns } } } },
+    orderBy: (c, { asc, desc }) => [desc(c.schoolYear), asc(c.gradeLevel), asc(c.name)],
+  });
+  if (!rows.length) return [];
+
+  const ids = rows.map((r) => r.id);
+  const counts = await db
+    .select({ classId: schema.classStudents.classId, n: count() })
+    .from(schema.classStudents)
+    .where(inArray(schema.classStudents.classId, ids))
+    .groupBy(schema.classStudents.classId);
+  const countById = new Map(counts.map((c) => [c.classId, Number(c.n)]));
+
+  return Promise.all(
+    rows.map(async (r) => ({
+      ...r,
+      teachers: r.teachers.map((t) => t.teacher),
+      studentCount: countById.get(r.id) ?? 0,
+      capacity: await classCapacity(r.id),
+    }))
+  );
+}
+
+/** Roster of one class, by name. */
+export async function classRosterStudents(classId: number) {
+  const rows = await db.query.classStudents.findMany({
+    where: eq(schema.classStudents.classId, classId),
+    with: {
+      student: {
+        columns: { ...personColumns, username: true, gradeLevel: true, avatar: true, approvalStatus: true, deletedAt: true },
+      },
+    },
+  });
+  return rows
+    .filter((r) => !r.student.deletedAt)
+    .map(({ student: { deletedAt: _deleted, ...student }, createdAt }) => ({ ...student, enrolledAt: createdAt }))
+    .sort((a, b) => `${a.lastName} ${a.firstName}`.localeCompare(`${b.lastName} ${b.firstName}`));
+}
+
+export type EnrollResult =
+  | { ok: true; added: number[] }
+  | { ok: false; reason: "full"; capacity: number; enrolled: number }
+  | { ok: false; reason: "invalid"; studentIds: number[] };
+
+/**
+ * Add approved students to a class inside the caller's transaction. The class
+ * row is locked so concurrent adds cannot overshoot the cap; students already
+ * on the roster are skipped. Nothing is added when the batch does not fit.
+ */
+export async function enrollInClass(
+  tx: Tx,
+  classId: number,
+  studentIds: number[],
+  addedById: number | null
+): Promise<EnrollResult> {
+  const wanted = Array.from(new Set(studentIds));
+  await tx.select({ id: schema.classes.id }).from(schema.classes).where(eq(schema.classes.id, classId)).for("update");
+
+  const valid = wanted.length
+    ? await tx
+        .select({ id: schema.users.id })
+        .from(schema.users)
+        .where(
+          and(
+            inArray(schema.users.id, wanted),
+            eq(schema.users.role, "student"),
+            eq(schema.users.approvalStatus, "approved"),
+            isNull(schema.users.deletedAt)
+          )
+        )
+    : [];
+  const validIds = new Set(valid.map((v) => v.id));
+  const invalid = wanted.filter((id) => !validIds.has(id));
+  if (invalid.length) return { ok: false, reason: "invalid", studentIds: invalid };
+
+  const existing = await tx
+    .select({ studentId: schema.classStudents.studentId })
+    .from(schema.classStudents)
+    .where(eq(schema.classStudents.classId, classId));
+  const onRoster = new Set(existing.map((e) => e.studentId));
+  const added = wanted.filter((id) => !onRoster.has(id));
+
+  const capacity = await classCapacity(classId, tx);
+  if (existing.length + added.length > capacity) {
+    return { ok: false, reason: "full", capacity, enrolled: existing.length };
+  }
+
+  if (added.length) {
+    await tx.insert(schema.classStudents).values(added.map((studentId) => ({ classId, studentId, addedById })));
+  }
+  return { ok: true, added };
+}
+
+/** Approved, active teacher by id or email (for co-teachers). */
+export async function findClassTeacher(where: { id?: number; email?: string }) {
+  const user = await db.query.users.findFirst({
+    where: where.id
+      ? eq(schema.users.id, where.id)
+      : sql`lower(${schema.users.email}) = ${String(where.email ?? "").trim().toLowerCase()}`,
+    columns: { ...personColumns, role: true, approvalStatus: true, deletedAt: true },
+  });
+  if (!user || user.deletedAt || user.role !== "teacher" || user.approvalStatus !== "approved") return null;
+  return user;
+}
+
+/**
+ * Remove a class with its roster and teachers. Join codes pointing at it stop
+ * adding to a class; its assignments keep their individually assigned students;
+ * announcements addressed to it are deleted.
+ */
+export async function deleteClass(classId: number) {
+  await db.transaction(async (tx) => {
+    await tx.update(schema.classJoinCodes).set({ classId: null }).where(eq(schema.classJoinCodes.classId, classId));
+    await tx.update(schema.assignments).set({ classId: null }).where(eq(schema.assignments.classId, classId));
+    await deleteClassAnnouncements(tx, classId);
+    await tx.delete(schema.classStudents).where(eq(schema.classStudents.classId, classId));
+    await tx.delete(schema.classTeachers).where(eq(schema.classTeachers.classId, classId));
+    await tx.delete(schema.classes).where(eq(schema.classes.id, classId));
+  });
+}
@@ -0,0 +1,132 @@
+// server/utils/cookieSession.ts
+
+/**
+ * Cookie-based sign-in for the browser app.
+ *
+ * The signed JWT (still tied to its `user_sessions` row) is kept server side
+ * in an express-session stored in Postgres (connect-pg-simple, table
+ * `http_sessions`); the browser only holds an httpOnly session cookie, so
+ * scripts on the page cannot read the token.
+ *
+ * Because cookies are sent automatically, mutating requests authenticated by
+ * the cookie must echo the CSRF token: it lives in the session and is mirrored
+ * in a readable `ag.csrf` cookie that the client copies into `X-CSRF-Token`.
+ *
+ * `Authorization: Bearer` keeps working while older clients migrate; bearer
+ * requests are not exposed to CSRF and skip the check.
+ */
+
+import crypto from "crypto";
+import type { Request, Response } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import { pool } from "@db";
+
+declare module "express-session" {
+  interface SessionData {
+    authToken?: string;
+    // the admin's own token while viewing as another user
+    impersonatorToken?: string;
+    csrfToken?: string;
+  }
+}
+
+export const SESSION_COOKIE = "ag.sid";
+export const CSRF_COOKIE = "ag.csrf";
+export const CSRF_HEADER = "x-csrf-token";
+
+// longest idle timeout the settings allow; refreshes keep the cookie alive
+const COOKIE_MAX_AGE_MS = 8 * 60 * 60 * 1000;
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+const cookieOptions = () => ({
+  sameSite: "lax" as const,
+  secure: process.env.NODE_ENV === "production",
+  maxAge: COOKIE_MAX_AGE_MS,
+  path: "/",
+});
+
+export function cookieSessionMiddleware(secret: string) {
+  const PgStore = connectPgSimple(session);
+  return session({
+    name: SESSION_COOKIE,
+    secret: process.env.SESSION_SECRET || secret,
+    store: new PgStore({ pool, tableName: "http_sessions", createTableIfMissing: false }),
+    resave: false,
+    saveUninitialized: false,
+    cookie: { ...cookieOptions(), httpOnly: true },
+  });
+}
+
+const promisify = (fn: (cb: (err?: any) => void) => void) =>
+  new Promise<void>((resolve, reject) => fn((err) => (err ? reject(err) : resolve())));
+
+const setCsrfCookie = (req: Request, res: Response) => {
+  if (req.session?.csrfToken) {
+    res.cookie(CSRF_COOKIE, req.session.csrfToken, { ...cookieOptions(), httpOnly: false });
+  }
+};
+
+/** Where this request's JWT came from: the bearer header, else the session cookie. */
+export function tokenFromRequest(req: Request): { token: string | null; viaCookie: boolean } {
+  const header = req.headers.authorization;
+  const bearer = header?.startsWith("Bearer ") ? header.slice(7).trim() : "";
+  // old pages send "Bearer null" once the token is no longer in localStorage
+  if (bearer && bearer !== "null" && bearer !== "undefined") return { token: bearer, viaCookie: false };
+  return { token: req.session?.authToken ?? null, viaCookie: !!req.session?.authToken };
+}
+
+/** False for a cookie-authenticated mutating request without the matching CSRF header. */
+export function hasValidCsrfToken(req: Request): boolean {
+  if (SAFE_METHODS.includes(req.method.toUpperCase())) return true;
+  const expected = req.session?.csrfToken;
+  const sent = req.headers[CSRF_HEADER];
+  if (!expected || typeof sent !== "string" || sent.length !== expected.length) return false;
+  return crypto.timingSafeEqual(Buffer.from(sent), Buffer.from(expected));
+}
+
+/** Sign-in: new session id (no fixation), store the token, issue a CSRF token. */
+export async function startCookieSession(
+  req: Request,
+  res: Response,
+  token: string,
+  opts: { impersonatorToken?: string } = {}
+) {
+  if (!req.session) return;
+  await promisify((cb) => req.session.regenerate(cb));
+  req.session.authToken = token;
+  if (opts.impersonatorToken) req.session.impersonatorToken = opts.impersonatorToken;
+  req.session.csrfToken = crypto.randomBytes(24).toString("hex");
+  await promisify((cb) => req.session.save(cb));
+  setCsrfCookie(req, res);
+}
+
+/** Swap the token of an existing cookie session (refresh, 2FA enrollment finished). */
+export async function replaceSessionToken(req: Request, res: Response, token: string) {
+  if (!req.session?.authToken) return;
+  req.session.authToken = token;
+  await promisify((cb) => req.session.save(cb));
+  setCsrfCookie(req, res);
+}
+
+/** "View as user": park the admin's token and switch to the impersonation token. */
+export async function beginImpersonationSession(req: Request, res: Response, token: string) {
+  if (!req.session?.authToken) return;
+  req.session.impersonatorToken = req.session.authToken;
+  await replaceSessionToken(req, res, token);
+}
+
+/** Back to the admin's own token. False when the session had none parked. */
+export async function endImpersonationSession(req: Request, res: Response): Promise<boolean> {
+  const adminToken = req.session?.impersonatorToken;
+  if (!adminToken) return false;
+  delete req.session.impersonatorToken;
+  await replaceSessionToken(req, res, adminToken);
+  return true;
+}
+
+export async function endCookieSession(req: Request, res: Response) {
+  if (req.session) await promisify((cb) => req.session.destroy(cb));
+  res.clearCookie(SESSION_COOKIE, { path: "/" });
+  res.clearCookie(CSRF_COOKIE, { path: "/" });
+}
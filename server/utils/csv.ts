@@ -0,0 +1,84 @@
+// server/utils/csv.ts
+
+/**
+ * Minimal RFC 4180 CSV writer used by the export endpoints.
+ * Dates become ISO strings, objects/arrays are JSON-encoded and any cell that
+ * contains a comma, quote or newline is quoted.
+ *
+ * Pass `{ spreadsheetSafe: true }` for files meant to be opened in Excel: text
+ * cells (headers included) starting with `=`, `+`, `-`, `@`, tab or CR get a
+ * leading `'` so they are not run as formulas. Numbers are left alone.
+ *
+ * `parseCsv` is the matching reader used by the imports.
+ */
+
+const toCell = (v: unknown): string => {
+  if (v === null || v === undefined) return "";
+  if (v instanceof Date) return v.toISOString();
+  if (typeof v === "object") return JSON.stringify(v);
+  return String(v);
+};
+
+const escapeCell = (raw: string) => (/[",\r\n]/.test(raw) ? `"${raw.replace(/"/g, '""')}"` : raw);
+
+const neutralizeFormula = (v: unknown) => (typeof v === "string" && /^[=+\-@\t\r]/.test(v) ? `'${v}` : v);
+
+export function toCsv(
+  rows: Record<string, unknown>[],
+  columns?: string[],
+  opts: { spreadsheetSafe?: boolean } = {}
+): string {
+  const cols = columns ?? Array.from(new Set(rows.flatMap((r) => Object.keys(r))));
+  const cell = (v: unknown) => escapeCell(toCell(opts.spreadsheetSafe ? neutralizeFormula(v) : v));
+  const lines = [cols.map(cell).join(",")];
+  for (const row of rows) {
+    lines.push(cols.map((c) => cell(row[c])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted cells (with "" escapes
+ * and embedded newlines), CRLF/LF line endings and a leading BOM; blank lines
+ * are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const src = text.replace(/^\uFEFF/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((c) => c.trim() !== "")) rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || row.length) endRow();
+  return rows;
+}
@@ -0,0 +1,269 @@
+// server/utils/gradebook.ts
+
+/**
+ * Gradebook export (GET /api/gradebook/export).
+ *
+ * One row per student and one column group per book the students touched:
+ * best and latest quiz percentage and attempt count (from `quizAttempts`),
+ * `progress.percentComplete`, reading time and completion date. Students are
+ * a class roster, or everyone the teacher teaches (admins: all students),
+ * optionally narrowed to one grade. With a date range only quiz attempts,
+ * reading sessions and progress touched inside it count, and reading time is
+ * summed from `readingSessions`; without one it is `progress.totalReadingTime`.
+ */
+
+import { and, asc, eq, gte, inArray, isNull, lt, or, type SQL } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+import { db } from "@db";
+import * as schema from "@shared/schema";
+import { teachesStudentCondition } from "./classes";
+import { toCsv } from "./csv";
+import { columnLetter, toXlsx } from "./xlsx";
+
+type Requester = { id: number; role: string };
+
+export type GradebookFilter = {
+  classId?: number | null;
+  grade?: (typeof schema.gradeLevelEnum.enumValues)[number] | null;
+  from?: Date | null; // inclusive
+  to?: Date | null; // exclusive
+};
+
+type Cell = {
+  bestScore: number | null;
+  latestScore: number | null;
+  attempts: number;
+  percent: number | null;
+  readingSeconds: number;
+  completedAt: Date | null;
+};
+
+const emptyCell = (): Cell => ({
+  bestScore: null,
+  latestScore: null,
+  attempts: 0,
+  percent: null,
+  readingSeconds: 0,
+  completedAt: null,
+});
+
+const GROUP_COLUMNS = [
+  "Best quiz %",
+  "Latest quiz %",
+  "Quiz attempts",
+  "% complete",
+  "Reading time (min)",
+  "Completed on",
+] as const;
+
+const STUDENT_COLUMNS = ["Last name", "First name", "Username", "Grade"] as const;
+
+const inRange = (column: PgColumn, filter: GradebookFilter): SQL | undefined =>
+  and(filter.from ? gte(column, filter.from) : undefined, filter.to ? lt(column, filter.to) : undefined);
+
+/** Students in a class roster, or everyone the requester teaches (admins: all), optionally one grade. */
+export async function findStudents(requester: Requester, filter: Pick<GradebookFilter, "classId" | "grade">) {
+  const studentConditions: (SQL | undefined)[] = [
+    eq(schema.users.role, "student"),
+    isNull(schema.users.deletedAt),
+  ];
+  if (filter.classId) {
+    studentConditions.push(
+      inArray(
+        schema.users.id,
+        db
+          .select({ id: schema.classStudents.studentId })
+          .from(schema.classStudents)
+          .where(eq(schema.classStudents.classId, filter.classId))
+      )
+    );
+  } else if (requester.role !== "admin") {
+    studentConditions.push(teachesStudentCondition(requester.id, schema.users.id));
+  }
+  if (filter.grade) {
+    studentConditions.push(eq(schema.users.gradeLevel, filter.grade));
+  }
+
+  return db.query.users.findMany({
+    where: and(...studentConditions),
+    columns: { id: true, firstName: true, lastName: true, username: true, gradeLevel: true },
+    orderBy: (u) => [asc(u.lastName), asc(u.firstName)],
+  });
+}
+
+export async function buildGradebook(requester: Requester, filter: GradebookFilter) {
+  const students = await findStudents(requester, filter);
+  const studentIds = students.map((s) => s.id);
+  if (!studentIds.length) return { students, books: [], cells: new Map<string, Cell>() };
+
+  const ranged = !!(filter.from || filter.to);
+  const [attempts, progressRows, sessions] = await Promise.all([
+    db
+      .select({
+        userId: schema.quizAttempts.userId,
+        bookId: schema.quizAttempts.bookId,
+        percentage: schema.quizAttempts.percentage,
+        createdAt: schema.quizAttempts.createdAt,
+      })
+      .from(schema.quizAttempts)
+      .where(and(inArray(schema.quizAttempts.userId, studentIds), inRange(schema.quizAttempts.createdAt, filter))),
+    db
+      .select({
+        userId: schema.progress.userId,
+        bookId: schema.progress.bookId,
+        percent: schema.progress.percentComplete,
+        totalReadingTime: schema.progress.totalReadingTime,
+        lastReadAt: schema.progress.lastReadAt,
+        completedAt: schema.progress.completedAt,
+      })
+      .from(schema.progress)
+      .where(
+        and(
+          inArray(schema.progress.userId, studentIds),
+          ranged
+            ? or(inRange(schema.progress.lastReadAt, filter), inRange(schema.progress.completedAt, filter))
+            : undefined
+        )
+      ),
+    ranged
+      ? db
+          .select({
+            userId: schema.readingSessions.userId,
+            bookId: schema.readingSessions.bookId,
+            seconds: schema.readingSessions.totalMinutes, // stores seconds
+          })
+          .from(schema.readingSessions)
+          .where(
+            and(inArray(schema.readingSessions.userId, studentIds), inRange(schema.readingSessions.startTime, filter))
+          )
+      : [],
+  ]);
+
+  const cells = new Map<string, Cell>();
+  const cellFor = (userId: number, bookId: number) => {
+    const key = `${userId}:${bookId}`;
+    let cell = cells.get(key);
+    if (!cell) cells.set(key, (cell = emptyCell()));
+    return cell;
+  };
+
+  const latestAt = new Map<string, number>();
+  for (const a of attempts) {
+    const cell = cellFor(a.userId, a.bookId);
+    cell.attempts++;
+    cell.bestScore = Math.max(cell.bestScore ?? 0, a.percentage);
+    const key = `${a.userId}:${a.bookId}`;
+    const at = a.createdAt.getTime();
+    if (at >= (latestAt.get(key) ?? -Infinity)) {
+      latestAt.set(key, at);
+      cell.latestScore = a.percentage;
+    }
+  }
+  for (const p of progressRows) {
+    const cell = cellFor(p.userId, p.bookId);
+    cell.percent = p.percent ?? 0;
+    if (!ranged) cell.readingSeconds = p.totalReadingTime ?? 0;
+    // rows completed before completedAt existed: best guess is the last read
+    cell.completedAt = p.completedAt ?? ((p.percent ?? 0) >= 100 ? p.lastReadAt : null);
+  }
+  for (const s of sessions) {
+    cellFor(s.userId, s.bookId).readingSeconds += s.seconds ?? 0;
+  }
+
+  const bookIds = Array.from(new Set(Array.from(cells.keys()).map((k) => Number(k.split(":")[1]))));
+  const books = bookIds.length
+    ? await db.query.books.findMany({
+        where: inArray(schema.books.id, bookIds),
+        columns: { id: true, title: true },
+        orderBy: (b) => [asc(b.title)],
+      })
+    : [];
+
+  return { students, books, cells };
+}
+
+export type Gradebook = Awaited<ReturnType<typeof buildGradebook>>;
+
+const minutes = (seconds: number) => Math.round((seconds / 60) * 10) / 10;
+
+// values of one column group, in GROUP_COLUMNS order
+function groupValues(cell: Cell | undefined): (number | Date | null)[] {
+  if (!cell) return GROUP_COLUMNS.map(() => null);
+  return [
+    cell.bestScore,
+    cell.latestScore,
+    cell.attempts,
+    cell.percent,
+    cell.readingSeconds ? minutes(cell.readingSeconds) : null,
+    cell.completedAt,
+  ];
+}
+
+// two books may share a title; keep headers unique
+function bookLabels(books: Gradebook["books"]) {
+  const seen = new Map<string, number>();
+  for (const b of books) seen.set(b.title, (seen.get(b.title) ?? 0) + 1);
+  return books.map((b) => ((seen.get(b.title) ?? 0) > 1 ? `${b.title} (#${b.id})` : b.title));
+}
+
+const gradeLabel = (g: string | null) => (!g ? "" : g === "K" ? "Kinder" : g);
+
+export function gradebookCsv(gb: Gradebook): string {
+  const labels = bookLabels(gb.books);
+  const columns = [
+    ...STUDENT_COLUMNS,
+    ...labels.flatMap((label) => GROUP_COLUMNS.map((c) => `${label} - ${c}`)),
+  ];
+  const rows = gb.students.map((s) => {
+    const row: Record<string, unknown> = {
+      "Last name": s.lastName,
+      "First name": s.firstName,
+      Username: s.username,
+      Grade: gradeLabel(s.gradeLevel),
+    };
+    gb.books.forEach((book, i) => {
+      groupValues(gb.cells.get(`${s.id}:${book.id}`)).forEach((v, j) => {
+        row[`${labels[i]} - ${GROUP_COLUMNS[j]}`] = v instanceof Date ? v.toISOString().slice(0, 10) : v;
+      });
+    });
+    return row;
+  });
+  // names and usernames are typed by students themselves, titles by teachers
+  return toCsv(rows, columns, { spreadsheetSafe: true });
+}
+
+export function gradebookXlsx(gb: Gradebook, sheetName: string): Promise<Buffer> {
+  const labels = bookLabels(gb.books);
+  const fixed = STUDENT_COLUMNS.length;
+  const width = GROUP_COLUMNS.length;
+
+  // row 1: book titles over their group; row 2: the group's column names
+  const titleRow = [...STUDENT_COLUMNS.map(() => ""), ...labels.flatMap((l) => [l, ...Array(width - 1).fill("")])];
+  const headerRow = [...STUDENT_COLUMNS, ...labels.flatMap(() => GROUP_COLUMNS)];
+  const merges = labels.map((_, i) => {
+    const start = fixed + i * width;
+    return `${columnLetter(start)}1:${columnLetter(start + width - 1)}1`;
+  });
+
+  const rows = gb.students.map((s) => [
+    s.lastName,
+    s.firstName,
+    s.username,
+    gradeLabel(s.gradeLevel),
+    ...gb.books.flatMap((book) => groupValues(gb.cells.get(`${s.id}:${book.id}`))),
+  ]);
+
+  return toXlsx({
+    name: sheetName,
+    rows: [titleRow, headerRow, ...rows],
+    headerRows: 2,
+    merges,
+    freeze: { rows: 2, cols: 2 },
+    columnWidths: [16, 16, 16, 8, ...labels.flatMap(() => [12, 13, 13, 11, 18, 13])],
+  });
+}
+
+export function gradebookFileName(label: string, ext: "csv" | "xlsx") {
+  const safe = label.replace(/[^a-z0-9_-]+/gi, "-").replace(/^-+|-+$/g, "").slice(0, 60) || "students";
+  return `gradebook-${safe}-${new Date().toISOString().slice(0, 10)}.${ext}`;
+}
@@ -0,0 +1,97 @@
+// server/utils/impersonation.ts
+
+/**
+ * Admin "view as user".
+ *
+ * An impersonation token is a normal session token for the target user with
+ * an `imp` claim holding the admin's id; its user_sessions row carries
+ * `impersonator_id`. `authenticate` records every request made with such a
+ * token in impersonation_actions (attributed to the admin) and refuses the
+ * account-level and destructive endpoints listed here.
+ */
+
+import type { Request } from "express";
+import { and, count, desc, eq } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { db } from "@db";
+import * as schema from "@shared/schema";
+
+export const IMPERSONATION_TTL = "30m";
+
+// [method ("*" = any), path prefix]
+const BLOCKED: Array<[string, string]> = [
+  ["DELETE", "/api/"], // anything destructive, including DELETE /api/user/account
+  ["*", "/api/user/password"],
+  ["*", "/api/user/2fa"],
+  ["*", "/api/user/logout-all"],
+  ["PUT", "/api/user/profile"],
+  ["POST", "/api/user/avatar"],
+  ["*", "/api/auth/restore-account"],
+];
+
+export function isBlockedWhileImpersonating(req: Request) {
+  const method = req.method.toUpperCase();
+  if (method === "GET" || method === "HEAD" || method === "OPTIONS") return false;
+  const path = req.originalUrl.split("?")[0];
+  return BLOCKED.some(([m, prefix]) => (m === "*" || m === method) && path.startsWith(prefix));
+}
+
+/** Audit one request; never throws (auditing must not break the request). */
+export async function recordImpersonationAction(
+  req: Request,
+  entry: { adminId: number; targetUserId: number; sessionId: string; statusCode?: number; blocked?: boolean }
+) {
+  try {
+    await db.insert(schema.impersonationActions).values({
+      adminId: entry.adminId,
+      targetUserId: entry.targetUserId,
+      sessionId: entry.sessionId,
+      method: req.method.toUpperCase().slice(0, 10),
+      path: req.originalUrl.slice(0, 1000),
+      statusCode: entry.statusCode ?? null,
+      blocked: entry.blocked ?? false,
+      ipAddress: req.ip ? String(req.ip).slice(0, 100) : null,
+    });
+  } catch (error) {
+    console.error("Failed to record impersonation action:", error);
+  }
+}
+
+/** Paged audit log, newest first, with admin and target names. */
+export async function listImpersonationActions(opts: {
+  adminId?: number;
+  targetUserId?: number;
+  page: number;
+  pageSize: number;
+}) {
+  const admin = alias(schema.users, "admin");
+  const target = alias(schema.users, "target");
+
+  const conditions = [];
+  if (opts.adminId) conditions.push(eq(schema.impersonationActions.adminId, opts.adminId));
+  if (opts.targetUserId) conditions.push(eq(schema.impersonationActions.targetUserId, opts.targetUserId));
+  const where = conditions.length ? and(...conditions) : undefined;
+
+  const actions = await db
+    .select({
+      id: schema.impersonationActions.id,
+      method: schema.impersonationActions.method,
+      path: schema.impersonationActions.path,
+      statusCode: schema.impersonationActions.statusCode,
+      blocked: schema.impersonationActions.blocked,
+      ipAddress: schema.impersonationActions.ipAddress,
+      createdAt: schema.impersonationActions.createdAt,
+      admin: { id: admin.id, firstName: admin.firstName, lastName: admin.lastName, email: admin.email },
+      target: { id: target.id, firstName: target.firstName, lastName: target.lastName, role: target.role },
+    })
+    .from(schema.impersonationActions)
+    .innerJoin(admin, eq(admin.id, schema.impersonationActions.adminId))
+    .innerJoin(target, eq(target.id, schema.impersonationActions.targetUserId))
+    .where(where)
+    .orderBy(desc(schema.impersonationActions.createdAt))
+    .limit(opts.pageSize)
+    .offset((opts.page - 1) * opts.pageSize);
+
+  const [{ total }] = await db.select({ total: count() }).from(schema.impersonationActions).where(where);
+  return { actions, total: Number(total) };
+}
@@ -0,0 +1,104 @@
+// server/utils/joinCodes.ts
+
+/**
+ * Teacher class join codes.
+ *
+ * Codes are 8 characters from an alphabet without look-alikes (no 0/O, 1/I/L)
+ * and are shown as `ABCD-EFGH`; they are stored normalized (uppercase, no
+ * dash). A student who registers with a usable code is auto-approved, takes
+ * the code's grade level and is enrolled with the issuing teacher (and put on
+ * the code's class roster when it has one).
+ */
+
+import crypto from "crypto";
+import { and, eq, gt, isNull, lt, or, sql } from "drizzle-orm";
+import { db } from "@db";
+import * as schema from "@shared/schema";
+import { enrollInClass } from "./classes";
+
+const ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+
+export const normalizeJoinCode = (raw: unknown) =>
+  String(raw ?? "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+export const formatJoinCode = (code: string) => `${code.slice(0, 4)}-${code.slice(4)}`;
+
+/** Random code from the look-alike-free alphabet (also used for class sign-in codes). */
+export function randomCode(length = CODE_LENGTH) {
+  const bytes = crypto.randomBytes(length);
+  let out = "";
+  for (let i = 0; i < length; i++) out += ALPHABET[bytes[i] % ALPHABET.length];
+  return out;
+}
+
+/** Random code that is not already taken. */
+export async function generateUniqueJoinCode(): Promise<string> {
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const code = randomCode();
+    const existing = await db.query.classJoinCodes.findFirst({
+      where: eq(schema.classJoinCodes.code, code),
+      columns: { id: true },
+    });
+    if (!existing) return code;
+  }
+  throw new Error("Could not generate a unique join code");
+}
+
+// not revoked, not expired, uses left
+const usableCondition = () =>
+  and(
+    isNull(schema.classJoinCodes.revokedAt),
+    gt(schema.classJoinCodes.expiresAt, new Date()),
+    or(
+      isNull(schema.classJoinCodes.maxUses),
+      lt(schema.classJoinCodes.usesCount, schema.classJoinCodes.maxUses)
+    )
+  );
+
+/** Look up a usable code together with its (approved, active) teacher. */
+export async function findUsableJoinCode(raw: unknown) {
+  const code = normalizeJoinCode(raw);
+  if (code.length !== CODE_LENGTH) return null;
+
+  const row = await db.query.classJoinCodes.findFirst({
+    where: and(eq(schema.classJoinCodes.code, code), usableCondition()),
+    with: {
+      teacher: {
+        columns: { id: true, firstName: true, lastName: true, approvalStatus: true, deletedAt: true },
+      },
+    },
+  });
+  if (!row || row.teacher.approvalStatus !== "approved" || row.teacher.deletedAt) return null;
+  return row;
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Take one use of the code and enroll the student, inside the caller's
+ * transaction. Returns false when the code ran out in the meantime or its
+ * class is full.
+ */
+export async function redeemJoinCode(
+  tx: Tx,
+  joinCode: { id: number; teacherId: number; classId: number | null },
+  studentId: number
+): Promise<boolean> {
+  const claimed = await tx
+    .update(schema.classJoinCodes)
+    .set({ usesCount: sql`${schema.classJoinCodes.usesCount} + 1` })
+    .where(and(eq(schema.classJoinCodes.id, joinCode.id), usableCondition()))
+    .returning({ id: schema.classJoinCodes.id });
+  if (claimed.length === 0) return false;
+
+  await tx
+    .insert(schema.studentEnrollments)
+    .values({ teacherId: joinCode.teacherId, studentId, joinCodeId: joinCode.id })
+    .onConflictDoNothing();
+  if (joinCode.classId) {
+    const enrolled = await enrollInClass(tx, joinCode.classId, [studentId], joinCode.teacherId);
+    if (!enrolled.ok) return false;
+  }
+  return true;
+}
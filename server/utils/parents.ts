@@ -0,0 +1,166 @@
+// server/utils/parents.ts
+
+/**
+ * Parent / guardian accounts.
+ *
+ * A teacher (for a student in their class) or an admin issues a single-use
+ * invite code for one student. A parent registers with it, or redeems it from
+ * the portal, to be linked to that student. Parents get a read-only view of
+ * their children's progress, quiz attempts, reading time and badges and can
+ * reach nothing outside PARENT_API_PATHS.
+ */
+
+import type { Request } from "express";
+import { and, desc, eq, gt, inArray, isNull } from "drizzle-orm";
+import { db } from "@db";
+import * as schema from "@shared/schema";
+import { normalizeJoinCode, randomCode } from "./joinCodes";
+
+export const PARENT_INVITE_TTL_DAYS = 14;
+const CODE_LENGTH = 8;
+
+// Endpoints a parent token may call; everything else answers 403
+const PARENT_API_PATHS = ["/api/parent/", "/api/user/", "/api/auth/"];
+
+export const isParentApiPath = (req: Request) =>
+  PARENT_API_PATHS.some((p) => req.originalUrl.startsWith(p));
+
+/** Random invite code that is not already taken. */
+export async function generateUniqueParentInviteCode(): Promise<string> {
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const code = randomCode(CODE_LENGTH);
+    const existing = await db.query.parentInviteCodes.findFirst({
+      where: eq(schema.parentInviteCodes.code, code),
+      columns: { id: true },
+    });
+    if (!existing) return code;
+  }
+  throw new Error("Could not generate a unique parent invite code");
+}
+
+// not used, not revoked, not expired
+const usableCondition = () =>
+  and(
+    isNull(schema.parentInviteCodes.usedAt),
+    isNull(schema.parentInviteCodes.revokedAt),
+    gt(schema.parentInviteCodes.expiresAt, new Date())
+  );
+
+/** Look up a usable invite together with its (active) student. */
+export async function findUsableParentInvite(raw: unknown) {
+  const code = normalizeJoinCode(raw);
+  if (code.length !== CODE_LENGTH) return null;
+
+  const row = await db.query.parentInviteCodes.findFirst({
+    where: and(eq(schema.parentInviteCodes.code, code), usableCondition()),
+    with: {
+      student: { columns: { id: true, firstName: true, lastName: true, role: true, deletedAt: true } },
+    },
+  });
+  if (!row || row.student.role !== "student" || row.student.deletedAt) return null;
+  return row;
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Mark the invite used and link the parent, inside the caller's transaction.
+ * Returns false when someone else redeemed it in the meantime.
+ */
+export async function redeemParentInvite(
+  tx: Tx,
+  invite: { id: number; studentId: number },
+  parentId: number
+): Promise<boolean> {
+  const claimed = await tx
+    .update(schema.parentInviteCodes)
+    .set({ usedAt: new Date(), usedById: parentId })
+    .where(and(eq(schema.parentInviteCodes.id, invite.id), usableCondition()))
+    .returning({ id: schema.parentInviteCodes.id });
+  if (claimed.length === 0) return false;
+
+  await tx
+    .insert(schema.parentStudentLinks)
+    .values({ parentId, studentId: invite.studentId, inviteCodeId: invite.id })
+    .onConflictDoNothing();
+  return true;
+}
+
+/** Is `studentId` linked to `parentId`? */
+export async function isParentOf(parentId: number, studentId: number) {
+  const row = await db.query.parentStudentLinks.findFirst({
+    where: and(
+      eq(schema.parentStudentLinks.parentId, parentId),
+      eq(schema.parentStudentLinks.studentId, studentId)
+    ),
+    columns: { id: true },
+  });
+  return !!row;
+}
+
+/** Active students linked to a parent. */
+export async function listChildren(parentId: number) {
+  const links = await db
+    .select({ studentId: schema.parentStudentLinks.studentId })
+    .from(schema.parentStudentLinks)
+    .where(eq(schema.parentStudentLinks.parentId, parentId));
+  if (links.length === 0) return [];
+
+  return db.query.users.findMany({
+    where: and(
+      inArray(schema.users.id, links.map((l) => l.studentId)),
+      eq(schema.users.role, "student"),
+      isNull(schema.users.deletedAt)
+    ),
+    columns: { id: true, firstName: true, lastName: true, gradeLevel: true, avatar: true },
+    orderBy: (u, { asc }) => [asc(u.firstName), asc(u.lastName)],
+  });
+}
+
+/**
+ * The same data student/progress.tsx reads from /api/progress,
+ * /api/quiz-attempts and /api/users/:id/badges, for one student.
+ */
+export async function childProgressSnapshot(studentId: number) {
+  const [progress, attempts, earned] = await Promise.all([
+    db.query.progress.findMany({
+      where: eq(schema.progress.userId, studentId),
+      with: { book: true },
+      orderBy: desc(schema.progress.lastReadAt),
+    }),
+    db.query.quizAttempts.findMany({
+      where: eq(schema.quizAttempts.userId, studentId),
+      orderBy: [desc(schema.quizAttempts.createdAt)],
+      with: {
+        book: { columns: { id: true, title: true, type: true, subject: true, grade: true, coverImage: true } },
+        page: { columns: { id: true, pageNumber: true, title: true } },
+      },
+    }),
+    db.query.earnedBadges.findMany({
+      where: eq(schema.earnedBadges.userId, studentId),
+      with: { badge: true, book: { columns: { id: true, title: true } } },
+      orderBy: [desc(schema.earnedBadges.createdAt)],
+    }),
+  ]);
+
+  const earnedBadges = earned.map((eb) => ({
+    id: eb.id,
+    userId: eb.userId,
+    badgeId: eb.badgeId,
+    bookId: eb.bookId,
+    awardedAt: eb.awardedAt ?? null,
+    note: eb.note,
+    badge: eb.badge
+      ? {
+          id: eb.badge.id,
+          name: eb.badge.name,
+          description: eb.badge.description,
+          iconUrl: eb.badge.iconUrl,
+          iconPublicId: eb.badge.iconPublicId,
+        }
+      : null,
+    book: eb.book || null,
+  }));
+
+  return { progress, attempts, earnedBadges };
+}
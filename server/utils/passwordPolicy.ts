@@ -0,0 +1,111 @@
+// server/utils/passwordPolicy.ts
+
+/**
+ * Server side of the admin-editable password policy.
+ *
+ * The character rules and blocklist live in shared/passwordPolicy.ts so the
+ * forms can show the same checklist; this module adds what needs the
+ * database: loading the policy from systemSettings, refusing the last N
+ * passwords (current hash + `password_history`) and password expiry.
+ *
+ * Every path that sets a password goes through `checkNewPassword` and, when
+ * replacing an existing one, `rememberPreviousPassword`.
+ */
+
+import bcrypt from "bcrypt";
+import { desc, eq, inArray } from "drizzle-orm";
+import { db } from "@db";
+import * as schema from "@shared/schema";
+import {
+  DEFAULT_PASSWORD_POLICY,
+  parseBlocklist,
+  passwordPolicyError,
+  type PasswordPolicy,
+} from "@shared/passwordPolicy";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function policyFromSettings(settings?: Partial<schema.SystemSettings> | null): PasswordPolicy {
+  const d = DEFAULT_PASSWORD_POLICY;
+  return {
+    minLength: settings?.passwordMinLength ?? d.minLength,
+    requireUpper: settings?.passwordRequireUpper ?? d.requireUpper,
+    requireLower: settings?.passwordRequireLower ?? d.requireLower,
+    requireNumber: settings?.passwordRequireNumber ?? d.requireNumber,
+    requireSymbol: settings?.passwordRequireSymbol ?? d.requireSymbol,
+    historyCount: settings?.passwordHistoryCount ?? d.historyCount,
+    maxAgeDays: settings?.passwordMaxAgeDays ?? d.maxAgeDays,
+    blocklist: parseBlocklist(settings?.passwordBlocklist),
+  };
+}
+
+export async function loadPasswordPolicy(): Promise<PasswordPolicy> {
+  return policyFromSettings(await db.query.systemSettings.findFirst());
+}
+
+/** Hashes the new password must not match: the current one plus older ones, newest first. */
+async function recentPasswordHashes(userId: number, currentHash: string | null, count: number) {
+  if (count <= 0) return [];
+  const older = await db.query.passwordHistory.findMany({
+    where: eq(schema.passwordHistory.userId, userId),
+    columns: { passwordHash: true },
+    orderBy: desc(schema.passwordHistory.createdAt),
+    limit: count,
+  });
+  return [...(currentHash ? [currentHash] : []), ...older.map((h) => h.passwordHash)].slice(0, count);
+}
+
+/**
+ * Validate a new password against the policy. For an existing account pass
+ * `userId` + `currentHash` so the history rule applies. Returns the message
+ * to show, or null when the password is acceptable.
+ */
+export async function checkNewPassword(
+  password: string,
+  opts: { policy?: PasswordPolicy; userId?: number; currentHash?: string | null } = {}
+): Promise<string | null> {
+  const policy = opts.policy ?? (await loadPasswordPolicy());
+  const ruleError = passwordPolicyError(password, policy);
+  if (ruleError) return ruleError;
+
+  if (opts.userId && policy.historyCount > 0) {
+    for (const hash of await recentPasswordHashes(opts.userId, opts.currentHash ?? null, policy.historyCount)) {
+      if (await bcrypt.compare(password, hash)) {
+        return policy.historyCount === 1
+          ? "New password must be different from your current password."
+          : `You cannot reuse any of your last ${policy.historyCount} passwords.`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Store the hash being replaced so it counts towards the history rule, and
+ * drop entries the policy no longer needs (the current password lives on the
+ * user row, so N passwords = current + N-1 history rows).
+ */
+export async function rememberPreviousPassword(userId: number, previousHash: string, policy?: PasswordPolicy) {
+  const keep = ((policy ?? (await loadPasswordPolicy())).historyCount || 0) - 1;
+  if (keep > 0) {
+    await db.insert(schema.passwordHistory).values({ userId, passwordHash: previousHash });
+  }
+
+  const rows = await db.query.passwordHistory.findMany({
+    where: eq(schema.passwordHistory.userId, userId),
+    columns: { id: true },
+    orderBy: desc(schema.passwordHistory.createdAt),
+  });
+  const stale = rows.slice(Math.max(keep, 0)).map((r) => r.id);
+  if (stale.length) await db.delete(schema.passwordHistory).where(inArray(schema.passwordHistory.id, stale));
+}
+
+/** True when the policy has a maximum age and the password is older than it. */
+export function isPasswordExpired(
+  user: { passwordChangedAt: Date | null; createdAt: Date },
+  policy: PasswordPolicy
+): boolean {
+  if (!policy.maxAgeDays) return false;
+  const setAt = new Date(user.passwordChangedAt ?? user.createdAt).getTime();
+  return Date.now() - setAt > policy.maxAgeDays * DAY_MS;
+}
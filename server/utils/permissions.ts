@@ -0,0 +1,102 @@
+// server/utils/permissions.ts
+
+/**
+ * Server side of the named permissions in shared/permissions.ts.
+ *
+ * The role → permission mapping lives in systemSettings.rolePermissions
+ * (admins edit it from Settings → Permissions) and is cached for a minute
+ * because it is read on most requests. Routes declare what they need with
+ * `requirePermission`; scoped `.own` / `.any` actions also check the record in
+ * the handler with `canActOnBook` (ownership and co-authors: ./bookSharing.ts).
+ */
+
+import type { NextFunction, Request, Response } from "express";
+import { and, eq, isNull } from "drizzle-orm";
+import { db } from "@db";
+import * as schema from "@shared/schema";
+import {
+  canActOn,
+  ownsForAction,
+  permissionsForRole,
+  resolveRolePermissions,
+  type Permission,
+  type RolePermissions,
+  type ScopedAction,
+} from "@shared/permissions";
+import { bookAccessFor } from "./bookSharing";
+
+const CACHE_MS = 60 * 1000;
+let cache: { mapping: RolePermissions; loadedAt: number } | null = null;
+
+export async function loadRolePermissions(): Promise<RolePermissions> {
+  if (cache && Date.now() - cache.loadedAt < CACHE_MS) return cache.mapping;
+  const settings = await db.query.systemSettings.findFirst({ columns: { rolePermissions: true } });
+  const mapping = resolveRolePermissions(settings?.rolePermissions);
+  cache = { mapping, loadedAt: Date.now() };
+  return mapping;
+}
+
+/** Call after the mapping changes so it applies right away. */
+export const forgetRolePermissions = () => {
+  cache = null;
+};
+
+export async function userPermissions(user: { role: string }): Promise<Permission[]> {
+  return permissionsForRole(user.role, await loadRolePermissions());
+}
+
+export async function hasPermission(user: { role: string }, permission: Permission): Promise<boolean> {
+  return (await userPermissions(user)).includes(permission);
+}
+
+/**
+ * Route guard (after `authenticate`): passes when the user has at least one of
+ * `permissions`. For `.own` / `.any` pairs list both and check the record in
+ * the handler.
+ */
+export function requirePermission(...permissions: Permission[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as any).user;
+    if (!user) return res.status(401).json({ success: false, message: "Authentication required" });
+    try {
+      const granted = await userPermissions(user);
+      if (!permissions.some((p) => granted.includes(p))) {
+        return res.status(403).json({
+          success: false,
+          message: "You do not have permission to do that",
+          permission: permissions[0],
+        });
+      }
+      next();
+    } catch (error) {
+      console.error("Permission check failed:", error);
+      return res.status(500).json({ success: false, message: "Internal server error" });
+    }
+  };
+}
+
+/** `books.edit` / `books.delete` on one book: `.any`, or `.own` for its owner (and editors, for edits). */
+export async function canActOnBook(
+  user: { id: number; role: string },
+  book: Pick<schema.Book, "id" | "addedById">,
+  action: ScopedAction
+): Promise<boolean> {
+  const granted = await userPermissions(user);
+  if (granted.includes(`${action}.any`)) return true;
+  return canActOn(granted, action, ownsForAction(action, await bookAccessFor(user.id, book)));
+}
+
+/** `books.edit` on the book with this id (pages, questions, chapters). False when it does not exist or is in the trash. */
+export async function canEditBookId(user: { id: number; role: string }, bookId: number): Promise<boolean> {
+  const book = await db.query.books.findFirst({
+    where: and(eq(schema.books.id, bookId), isNull(schema.books.deletedAt)),
+    columns: { id: true, addedById: true },
+  });
+  return !!book && (await canActOnBook(user, book, "books.edit"));
+}
+
+/** Managing a book's co-authors: its owner (with books.edit.own) or anyone with books.edit.any. */
+export async function canShareBook(user: { id: number; role: string }, book: Pick<schema.Book, "addedById">) {
+  const granted = await userPermissions(user);
+  return granted.includes("books.edit.any") || (book.addedById === user.id && granted.includes("books.edit.own"));
+}
@@ -0,0 +1,21 @@
+// server/utils/progress.ts
+
+/**
+ * `progress.completedAt`: stamped the first time a book reaches 100% and kept
+ * afterwards (re-reading or a later lower write does not move it). Every
+ * write that sets `percentComplete` passes its value through these helpers.
+ * Rows completed before the column existed have it null; readers fall back to
+ * `lastReadAt`.
+ */
+
+import { sql } from "drizzle-orm";
+import * as schema from "@shared/schema";
+
+const isComplete = (percent: number | null | undefined) => percent != null && percent >= 100;
+
+/** For `.update().set()` / `onConflictDoUpdate`: undefined leaves the column alone. */
+export const completedAtOnUpdate = (percent: number | null | undefined) =>
+  isComplete(percent) ? sql`coalesce(${schema.progress.completedAt}, now())` : undefined;
+
+/** For `.insert().values()`. */
+export const completedAtOnInsert = (percent: number | null | undefined) => (isComplete(percent) ? new Date() : null);
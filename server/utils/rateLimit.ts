@@ -1,16 +1,201 @@
+// server/utils/rateLimit.ts
+
+/**
+ * Fixed-window rate limiting with a pluggable bucket store.
+ *
+ * Every limiter is a named policy (`login`, `upload`, ...) and its buckets are
+ * keyed `<policy>:<client key>`, so two limiters never share a counter. The
+ * default store is Postgres (`rate_limit_buckets`), which survives restarts
+ * and is shared by every server process; `RATE_LIMIT_STORE=memory` keeps the
+ * old process-local Map for local development.
+ *
+ * Responses carry the standard `RateLimit-Limit`, `RateLimit-Remaining`,
+ * `RateLimit-Reset` and `RateLimit-Policy` headers, plus `Retry-After` on 429.
+ * If the store is unreachable the request is let through (and logged) rather
+ * than locking everyone out.
+ */
+
 import { Request, Response, NextFunction } from "express";
+import { and, asc, desc, eq, gt, lte, sql } from "drizzle-orm";
+import { db } from "@db";
+import * as schema from "@shared/schema";
 
 type Keyer = (req: Request) => string;
 
 interface Options {
+  name: string;       // policy name; prefixes every bucket key
   windowMs: number;   // time window in ms
   max: number;        // max requests per window
   keyer?: Keyer;      // how to build the key
   message?: string;   // message when limited
 }
 
-// Very small in-memory bucket store (OK for single-process dev/prod)
-const buckets = new Map<string, { count: number; expiresAt: number }>();
+export interface RateLimitHit {
+  count: number;      // requests in the current window, this one included
+  expiresAt: number;  // epoch ms when the window resets
+}
+
+export interface RateLimitBucket {
+  key: string;
+  policy: string;
+  count: number;
+  max: number;
+  expiresAt: Date;
+}
+
+export interface RateLimitStore {
+  /** Count one request against `key`, starting a new window if the old one ran out. */
+  hit(key: string, policy: string, max: number, windowMs: number): Promise<RateLimitHit>;
+  /** Buckets whose window is still open, busiest first. */
+  list(opts?: { policy?: string; limitedOnly?: boolean; limit?: number }): Promise<RateLimitBucket[]>;
+  /** Drop one bucket. False when there was none. */
+  reset(key: string): Promise<boolean>;
+  /** Drop every bucket (or one policy's). Returns how many were removed. */
+  resetAll(policy?: string): Promise<number>;
+}
+
+const MAX_KEY_LENGTH = 400;
+
+// Process-local store (single process only; counters are lost on restart)
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, RateLimitBucket>();
+
+  private active() {
+    const now = Date.now();
+    const rows: RateLimitBucket[] = [];
+    this.buckets.forEach((b, k) => {
+      if (b.expiresAt.getTime() <= now) this.buckets.delete(k);
+      else rows.push(b);
+    });
+    return rows;
+  }
+
+  async hit(key: string, policy: string, max: number, windowMs: number) {
+    const now = Date.now();
+    // small probabilistic prune to keep memory bounded
+    if (Math.random() < 0.01) this.active();
+
+    const entry = this.buckets.get(key);
+    if (!entry || entry.expiresAt.getTime() <= now) {
+      const fresh = { key, policy, count: 1, max, expiresAt: new Date(now + windowMs) };
+      this.buckets.set(key, fresh);
+      return { count: 1, expiresAt: fresh.expiresAt.getTime() };
+    }
+    entry.count += 1;
+    entry.max = max;
+    return { count: entry.count, expiresAt: entry.expiresAt.getTime() };
+  }
+
+  async list(opts: { policy?: string; limitedOnly?: boolean; limit?: number } = {}) {
+    return this.active()
+      .filter((b) => (!opts.policy || b.policy === opts.policy) && (!opts.limitedOnly || b.count > b.max))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, opts.limit ?? 200);
+  }
+
+  async reset(key: string) {
+    return this.buckets.delete(key);
+  }
+
+  async resetAll(policy?: string) {
+    let removed = 0;
+    this.buckets.forEach((b, k) => {
+      if (!policy || b.policy === policy) {
+        this.buckets.delete(k);
+        removed++;
+      }
+    });
+    return removed;
+  }
+}
+
+// Shared store in `rate_limit_buckets`; one atomic upsert per request
+export class PgRateLimitStore implements RateLimitStore {
+  // timestamps are stored as UTC wall time (see drizzle's timestamp mapping)
+  private nowSql = () => sql`${new Date().toISOString()}::timestamp`;
+
+  async hit(key: string, policy: string, max: number, windowMs: number) {
+    const t = schema.rateLimitBuckets;
+    const expiresAt = new Date(Date.now() + windowMs);
+    const expired = sql`${t.expiresAt} <= ${this.nowSql()}`;
+
+    if (Math.random() < 0.01) {
+      db.delete(t)
+        .where(lte(t.expiresAt, new Date()))
+        .catch((e) => console.error("rate limit prune failed:", e));
+    }
+
+    const [row] = await db
+      .insert(t)
+      .values({ key, policy, count: 1, max, expiresAt })
+      .onConflictDoUpdate({
+        target: t.key,
+        set: {
+          count: sql`case when ${expired} then 1 else ${t.count} + 1 end`,
+          expiresAt: sql`case when ${expired} then excluded.expires_at else ${t.expiresAt} end`,
+          max,
+        },
+      })
+      .returning({ count: t.count, expiresAt: t.expiresAt });
+
+    return { count: row.count, expiresAt: row.expiresAt.getTime() };
+  }
+
+  async list(opts: { policy?: string; limitedOnly?: boolean; limit?: number } = {}) {
+    const t = schema.rateLimitBuckets;
+    return db
+      .select()
+      .from(t)
+      .where(
+        and(
+          gt(t.expiresAt, new Date()),
+          opts.policy ? eq(t.policy, opts.policy) : undefined,
+          opts.limitedOnly ? sql`${t.count} > ${t.max}` : undefined
+        )
+      )
+      .orderBy(desc(t.count), asc(t.key))
+      .limit(opts.limit ?? 200);
+  }
+
+  async reset(key: string) {
+    const rows = await db
+      .delete(schema.rateLimitBuckets)
+      .where(eq(schema.rateLimitBuckets.key, key))
+      .returning({ key: schema.rateLimitBuckets.key });
+    return rows.length > 0;
+  }
+
+  async resetAll(policy?: string) {
+    const rows = await db
+      .delete(schema.rateLimitBuckets)
+      .where(policy ? eq(schema.rateLimitBuckets.policy, policy) : undefined)
+      .returning({ key: schema.rateLimitBuckets.key });
+    return rows.length;
+  }
+}
+
+let store: RateLimitStore =
+  (process.env.RATE_LIMIT_STORE || "").toLowerCase() === "memory"
+    ? new MemoryRateLimitStore()
+    : new PgRateLimitStore();
+
+export const getRateLimitStore = () => store;
+
+/** Swap the backing store (e.g. a Redis implementation); affects every limiter. */
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next;
+}
+
+export interface RateLimitPolicy {
+  name: string;
+  windowMs: number;
+  max: number;
+}
+
+// every limiter created, for the admin view
+const policies = new Map<string, RateLimitPolicy>();
+
+export const listRateLimitPolicies = () => Array.from(policies.values());
 
 export function simpleRateLimit(opts: Options) {
   // Clamp window and max to reasonable values to avoid abuse
@@ -38,18 +223,11 @@ export function simpleRateLimit(opts: Options) {
   const message =
     opts.message ?? "Too many attempts. Please try again later.";
 
-  // occasional prune of expired buckets (keeps memory bounded)
-  function pruneExpired() {
-    const now = Date.now();
-    buckets.forEach((v, k) => {
-      if (v.expiresAt <= now) buckets.delete(k);
-    });
-  }
-
-  return (req: Request, res: Response, next: NextFunction) => {
-    // small probabilistic prune to avoid expensive ops on every request
-    if (Math.random() < 0.01) pruneExpired();
+  const policy = opts.name;
+  if (policies.has(policy)) throw new Error(`Duplicate rate limit policy "${policy}"`);
+  policies.set(policy, { name: policy, windowMs, max });
 
+  return async (req: Request, res: Response, next: NextFunction) => {
     const key = (() => {
       try {
         return keyer(req);
@@ -58,20 +236,26 @@ export function simpleRateLimit(opts: Options) {
       }
     })();
 
-    const now = Date.now();
-    const entry = buckets.get(key);
-
-    // new bucket or expired -> reset
-    if (!entry || now > entry.expiresAt) {
-      buckets.set(key, { count: 1, expiresAt: now + windowMs });
+    let hit: RateLimitHit;
+    try {
+      hit = await store.hit(`${policy}:${key}`.slice(0, MAX_KEY_LENGTH), policy, max, windowMs);
+    } catch (e) {
+      // fail open: a broken store should not lock every user out
+      console.error(`rate limit store failed (${policy}):`, e);
       return next();
     }
 
-    if (entry.count >= max) {
+    const resetSeconds = Math.max(0, Math.ceil((hit.expiresAt - Date.now()) / 1000));
+    res.setHeader("RateLimit-Policy", `${max};w=${Math.round(windowMs / 1000)}`);
+    res.setHeader("RateLimit-Limit", String(max));
+    res.setHeader("RateLimit-Remaining", String(Math.max(0, max - hit.count)));
+    res.setHeader("RateLimit-Reset", String(resetSeconds));
+
+    if (hit.count > max) {
+      res.setHeader("Retry-After", String(resetSeconds));
       return res.status(429).json({ success: false, message });
     }
 
-    entry.count += 1;
     return next();
   };
 }
@@ -0,0 +1,573 @@
+// server/utils/reportCard.ts
+
+/**
+ * Printable progress report cards (PDF), one student per card.
+ *
+ * A card covers one reporting period (usually a quarter): books completed in
+ * it, reading minutes per week (from `readingSessions`), average and best quiz
+ * score per subject, every badge earned so far with its icon (the ones earned
+ * in the period marked new) and a teacher comment. Quiz scores are grouped
+ * into sittings with @shared/progressStats, the same way the student progress
+ * page does, and badges are the rows behind GET /api/users/:userId/badges.
+ *
+ * Batch mode renders many cards into one merged PDF; every card starts on a
+ * new page and numbers its own pages.
+ */
+
+import PDFDocument from "pdfkit";
+import sharp from "sharp";
+import { and, desc, eq, gte, inArray, isNull, lt, or } from "drizzle-orm";
+import { db } from "@db";
+import * as schema from "@shared/schema";
+import { allQuizSessions, averageQuizPercentage, type QuizAttempt } from "@shared/progressStats";
+
+export type ReportPeriod = { from: Date; to: Date }; // to is exclusive
+
+type Student = {
+  id: number;
+  firstName: string;
+  lastName: string;
+  username: string;
+  gradeLevel: string | null;
+};
+
+type SubjectScores = { subject: string; sittings: number; average: number; best: number };
+
+type CardBadge = { badgeId: number; name: string; awardedAt: Date; isNew: boolean; icon: Buffer | null };
+
+export type ReportCard = {
+  student: Student;
+  booksCompleted: { title: string; subject: string; completedAt: Date }[];
+  weeklyMinutes: { weekStart: Date; minutes: number }[];
+  totalMinutes: number;
+  quizAverage: number | null;
+  quizBySubject: SubjectScores[];
+  badges: CardBadge[];
+};
+
+const SCHOOL_NAME = process.env.SCHOOL_NAME || "Adonai And Grace Inc.";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SUBJECT_LABELS: Record<string, string> = {
+  "filipino-literature": "Filipino Literature",
+  "philippine-folklore": "Philippine Folklore",
+  "reading-comprehension": "Reading Comprehension",
+  "creative-writing": "Creative Writing",
+  "general-education": "General Education",
+};
+
+function subjectLabel(book: { subject: string | null; type: string } | undefined) {
+  if (!book?.subject) return book?.type === "storybook" ? "Storybooks" : "Other";
+  return SUBJECT_LABELS[book.subject] ?? book.subject;
+}
+
+/** First day of the calendar quarter `date` falls in (UTC). */
+export function quarterStart(date = new Date()) {
+  return new Date(Date.UTC(date.getUTCFullYear(), Math.floor(date.getUTCMonth() / 3) * 3, 1));
+}
+
+// Monday 00:00 UTC of the week `d` falls in
+const weekStart = (d: Date) => {
+  const day = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+  return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+};
+
+/* ----------------------------- Badge icons ----------------------------- */
+
+function badgeIconUrl(badge: { iconUrl: string | null; iconPublicId: string | null }) {
+  if (badge.iconUrl) return badge.iconUrl;
+  const cloud = process.env.CLOUDINARY_CLOUD_NAME;
+  return badge.iconPublicId && cloud
+    ? `https://res.cloudinary.com/${cloud}/image/upload/c_fill,w_128,h_128/${badge.iconPublicId}`
+    : null;
+}
+
+// PDFKit only embeds PNG and JPEG, so whatever the icon is goes through sharp.
+// A missing or broken icon just falls back to the drawn placeholder.
+async function loadIcon(url: string | null): Promise<Buffer | null> {
+  if (!url) return null;
+  try {
+    const res = await fetch(url, { signal: AbortSignal.timeout(5000) });
+    if (!res.ok) return null;
+    const input = Buffer.from(await res.arrayBuffer());
+    return await sharp(input).resize(128, 128, { fit: "contain", background: "#ffffff00" }).png().toBuffer();
+  } catch (err) {
+    console.warn("Report card: could not load badge icon", url, err);
+    return null;
+  }
+}
+
+/* ----------------------------- Data ----------------------------- */
+
+/** Report card data for each student, in the order given. */
+export async function buildReportCards(students: Student[], period: ReportPeriod): Promise<ReportCard[]> {
+  const ids = students.map((s) => s.id);
+  if (!ids.length) return [];
+
+  const [progressRows, sessions, attempts, earned] = await Promise.all([
+    db
+      .select({
+        userId: schema.progress.userId,
+        lastReadAt: schema.progress.lastReadAt,
+        completedAt: schema.progress.completedAt,
+        title: schema.books.title,
+        subject: schema.books.subject,
+        type: schema.books.type,
+      })
+      .from(schema.progress)
+      .innerJoin(schema.books, eq(schema.books.id, schema.progress.bookId))
+      .where(
+        and(
+          inArray(schema.progress.userId, ids),
+          or(
+            and(gte(schema.progress.completedAt, period.from), lt(schema.progress.completedAt, period.to)),
+            // rows completed before completedAt existed: the last read is the best guess
+            and(
+              isNull(schema.progress.completedAt),
+              gte(schema.progress.percentComplete, 100),
+              gte(schema.progress.lastReadAt, period.from),
+              lt(schema.progress.lastReadAt, period.to)
+            )
+          )
+        )
+      ),
+    db
+      .select({
+        userId: schema.readingSessions.userId,
+        startTime: schema.readingSessions.startTime,
+        seconds: schema.readingSessions.totalMinutes, // stores seconds
+      })
+      .from(schema.readingSessions)
+      .where(
+        and(
+          inArray(schema.readingSessions.userId, ids),
+          gte(schema.readingSessions.startTime, period.from),
+          lt(schema.readingSessions.startTime, period.to)
+        )
+      ),
+    db.query.quizAttempts.findMany({
+      where: and(
+        inArray(schema.quizAttempts.userId, ids),
+        gte(schema.quizAttempts.createdAt, period.from),
+        lt(schema.quizAttempts.createdAt, period.to)
+      ),
+      with: { book: { columns: { subject: true, type: true } } },
+    }),
+    db.query.earnedBadges.findMany({
+      where: and(inArray(schema.earnedBadges.userId, ids), lt(schema.earnedBadges.awardedAt, period.to)),
+      with: { badge: true },
+      orderBy: [desc(schema.earnedBadges.awardedAt)],
+    }),
+  ]);
+
+  // each badge icon is fetched once per batch
+  const iconByBadge = new Map<number, Buffer | null>();
+  await Promise.all(
+    Array.from(new Map(earned.filter((e) => e.badge).map((e) => [e.badgeId, e.badge!])).values()).map(
+      async (badge) => iconByBadge.set(badge.id, await loadIcon(badgeIconUrl(badge)))
+    )
+  );
+
+  const weeks: Date[] = [];
+  for (let w = weekStart(period.from); w < period.to; w = new Date(w.getTime() + 7 * DAY_MS)) weeks.push(w);
+
+  return students.map((student) => {
+    const booksCompleted = progressRows
+      .filter((p) => p.userId === student.id)
+      .map((p) => ({
+        title: p.title,
+        subject: subjectLabel(p),
+        completedAt: (p.completedAt ?? p.lastReadAt)!,
+      }))
+      .sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime());
+
+    const secondsByWeek = new Map<number, number>();
+    for (const s of sessions) {
+      if (s.userId !== student.id) continue;
+      const key = weekStart(s.startTime).getTime();
+      secondsByWeek.set(key, (secondsByWeek.get(key) ?? 0) + (s.seconds ?? 0));
+    }
+    const weeklyMinutes = weeks.map((w) => ({
+      weekStart: w,
+      minutes: Math.round((secondsByWeek.get(w.getTime()) ?? 0) / 60),
+    }));
+
+    const mine = attempts.filter((a) => a.userId === student.id);
+    const subjectByBook = new Map(mine.map((a) => [a.bookId, subjectLabel(a.book)]));
+    const asQuizAttempts: QuizAttempt[] = mine.map((a) => ({ ...a, createdAt: a.createdAt.toISOString() }));
+    const bySubject = new Map<string, number[]>();
+    for (const sitting of allQuizSessions(asQuizAttempts)) {
+      const subject = subjectByBook.get(sitting.bookId) ?? "Other";
+      bySubject.set(subject, [...(bySubject.get(subject) ?? []), sitting.percentage]);
+    }
+    const quizBySubject = Array.from(bySubject, ([subject, scores]) => ({
+      subject,
+      sittings: scores.length,
+      average: Math.round(scores.reduce((sum, x) => sum + x, 0) / scores.length),
+      best: Math.max(...scores),
+    })).sort((a, b) => a.subject.localeCompare(b.subject));
+
+    const badges = earned
+      .filter((e) => e.userId === student.id && e.badge)
+      .map((e) => ({
+        badgeId: e.badgeId,
+        name: e.badge!.name,
+        awardedAt: e.awardedAt,
+        isNew: e.awardedAt >= period.from,
+        icon: iconByBadge.get(e.badgeId) ?? null,
+      }));
+
+    return {
+      student,
+      booksCompleted,
+      weeklyMinutes,
+      totalMinutes: weeklyMinutes.reduce((sum, w) => sum + w.minutes, 0),
+      quizAverage: averageQuizPercentage(asQuizAttempts),
+      quizBySubject,
+      badges,
+    };
+  });
+}
+
+/* ----------------------------- PDF ----------------------------- */
+
+const NAVY = "#1A237E";
+const GOLD = "#F4B400";
+const GREY = "#6B7280";
+const LINE = "#D1D5DB";
+
+type Doc = PDFKit.PDFDocument;
+
+const fmtDate = (d: Date) =>
+  d.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" });
+const fmtShort = (d: Date) => d.toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+const gradeLabel = (g: string | null) => (!g ? "—" : g === "K" ? "Kindergarten" : `Grade ${g}`);
+
+const contentWidth = (doc: Doc) => doc.page.width - doc.page.margins.left - doc.page.margins.right;
+const bottom = (doc: Doc) => doc.page.height - doc.page.margins.bottom;
+
+// start a new page when fewer than `height` points are left on this one
+function ensureSpace(doc: Doc, height: number) {
+  if (doc.y + height > bottom(doc)) doc.addPage();
+}
+
+// `keepWith`: height of what follows that must stay on the heading's page
+function sectionTitle(doc: Doc, title: string, keepWith = 40) {
+  ensureSpace(doc, 45 + keepWith);
+  const x = doc.page.margins.left;
+  doc.moveDown(0.8);
+  doc.font("Helvetica-Bold").fontSize(13).fillColor(NAVY).text(title, x, doc.y);
+  doc
+    .moveTo(x, doc.y + 2)
+    .lineTo(x + contentWidth(doc), doc.y + 2)
+    .lineWidth(1.5)
+    .strokeColor(GOLD)
+    .stroke();
+  doc.moveDown(0.6);
+}
+
+function emptyNote(doc: Doc, text: string) {
+  doc.font("Helvetica-Oblique").fontSize(10).fillColor(GREY).text(text, doc.page.margins.left, doc.y);
+}
+
+function header(doc: Doc, card: ReportCard, period: ReportPeriod, preparedBy: string | null) {
+  const { left } = doc.page.margins;
+  const width = contentWidth(doc);
+  const top = doc.page.margins.top;
+
+  doc.rect(left, top, width, 62).fill(NAVY);
+  doc.font("Helvetica-Bold").fontSize(18).fillColor(GOLD).text(SCHOOL_NAME, left + 16, top + 12, { width: width - 32 });
+  doc
+    .font("Helvetica")
+    .fontSize(11)
+    .fillColor("#FFFFFF")
+    .text("Reading Progress Report Card", left + 16, top + 38, { width: width - 32 });
+  const lastDay = new Date(period.to.getTime() - DAY_MS);
+  doc.text(`${fmtDate(period.from)} – ${fmtDate(lastDay)}`, left + 16, top + 38, { width: width - 32, align: "right" });
+
+  const s = card.student;
+  doc.y = top + 76;
+  doc.font("Helvetica-Bold").fontSize(16).fillColor(NAVY).text(`${s.firstName} ${s.lastName}`, left, doc.y);
+  doc
+    .font("Helvetica")
+    .fontSize(10)
+    .fillColor(GREY)
+    .text(
+      [gradeLabel(s.gradeLevel), `@${s.username}`, preparedBy ? `Teacher: ${preparedBy}` : null]
+        .filter(Boolean)
+        .join("   ·   "),
+      left,
+      doc.y + 2
+    );
+}
+
+function summary(doc: Doc, card: ReportCard) {
+  const { left } = doc.page.margins;
+  const gap = 10;
+  const boxW = (contentWidth(doc) - gap * 3) / 4;
+  const top = doc.y + 14;
+  const stats: [string, string][] = [
+    ["Books completed", String(card.booksCompleted.length)],
+    ["Reading minutes", String(card.totalMinutes)],
+    ["Average quiz score", card.quizAverage === null ? "—" : `${card.quizAverage}%`],
+    ["Badges earned", `${card.badges.length}`],
+  ];
+  stats.forEach(([label, value], i) => {
+    const x = left + i * (boxW + gap);
+    doc.roundedRect(x, top, boxW, 52, 6).lineWidth(1).strokeColor(GOLD).stroke();
+    doc.font("Helvetica-Bold").fontSize(18).fillColor(NAVY).text(value, x, top + 9, { width: boxW, align: "center" });
+    doc.font("Helvetica").fontSize(9).fillColor(GREY).text(label, x, top + 33, { width: boxW, align: "center" });
+  });
+  doc.y = top + 52;
+}
+
+function weeklyChart(doc: Doc, weeks: ReportCard["weeklyMinutes"]) {
+  const chartH = 110;
+  sectionTitle(doc, "Reading minutes by week", chartH + 30);
+  if (!weeks.some((w) => w.minutes > 0)) return emptyNote(doc, "No reading sessions in this period.");
+
+  const { left } = doc.page.margins;
+  const width = contentWidth(doc);
+  const top = doc.y + 12; // room for the value over the tallest bar
+  const slot = width / weeks.length;
+  const barW = Math.min(28, slot * 0.7);
+  const max = Math.max(...weeks.map((w) => w.minutes));
+  const labelEvery = Math.ceil(weeks.length / 13); // about one label per 40pt
+
+  doc
+    .moveTo(left, top + chartH)
+    .lineTo(left + width, top + chartH)
+    .lineWidth(0.75)
+    .strokeColor(LINE)
+    .stroke();
+  weeks.forEach((w, i) => {
+    const h = max ? (w.minutes / max) * chartH : 0;
+    const x = left + i * slot + (slot - barW) / 2;
+    if (h > 0) doc.rect(x, top + chartH - h, barW, h).fill(NAVY);
+    if (w.minutes > 0) {
+      doc
+        .font("Helvetica")
+        .fontSize(7)
+        .fillColor(NAVY)
+        .text(String(w.minutes), left + i * slot, top + chartH - h - 10, { width: slot, align: "center" });
+    }
+    if (i % labelEvery === 0) {
+      doc
+        .font("Helvetica")
+        .fontSize(7)
+        .fillColor(GREY)
+        .text(fmtShort(w.weekStart), left + i * slot - 10, top + chartH + 4, { width: slot + 20, align: "center" });
+    }
+  });
+  doc.y = top + chartH + 16;
+  doc.font("Helvetica").fontSize(8).fillColor(GREY).text("Weeks start on Monday.", left, doc.y);
+}
+
+// simple ruled table; repeats its header row after a page break
+function table(doc: Doc, columns: { label: string; width: number; align?: "left" | "right" }[], rows: string[][]) {
+  const { left } = doc.page.margins;
+  const total = contentWidth(doc);
+  const widths = columns.map((c) => c.width * total);
+  const rowH = 18;
+
+  const drawRow = (cells: string[], bold: boolean) => {
+    ensureSpace(doc, rowH);
+    const y = doc.y;
+    let x = left;
+    cells.forEach((cell, i) => {
+      doc
+        .font(bold ? "Helvetica-Bold" : "Helvetica")
+        .fontSize(9.5)
+        .fillColor(bold ? NAVY : "#111827")
+        .text(cell, x + 4, y + 5, { width: widths[i] - 8, align: columns[i].align ?? "left", lineBreak: false, ellipsis: true });
+      x += widths[i];
+    });
+    doc
+      .moveTo(left, y + rowH)
+      .lineTo(left + total, y + rowH)
+      .lineWidth(bold ? 1 : 0.5)
+      .strokeColor(bold ? NAVY : LINE)
+      .stroke();
+    doc.y = y + rowH;
+  };
+
+  ensureSpace(doc, rowH * 2);
+  drawRow(columns.map((c) => c.label), true);
+  for (const row of rows) {
+    if (doc.y + rowH > bottom(doc)) {
+      doc.addPage();
+      drawRow(columns.map((c) => c.label), true);
+    }
+    drawRow(row, false);
+  }
+}
+
+function badgeGrid(doc: Doc, badges: CardBadge[]) {
+  const cellH = 88;
+  sectionTitle(doc, "Badges", cellH);
+  if (!badges.length) return emptyNote(doc, "No badges earned yet.");
+
+  const { left } = doc.page.margins;
+  const perRow = 5;
+  const cellW = contentWidth(doc) / perRow;
+  const icon = 40;
+
+  // text() moves doc.y, so every cell is placed from its row's top
+  let rowTop = doc.y;
+  badges.forEach((b, i) => {
+    if (i % perRow === 0) {
+      doc.y = i > 0 ? rowTop + cellH : rowTop;
+      ensureSpace(doc, cellH);
+      rowTop = doc.y;
+    }
+    const x = left + (i % perRow) * cellW;
+    const y = rowTop;
+    const ix = x + (cellW - icon) / 2;
+    if (b.icon) {
+      doc.image(b.icon, ix, y, { fit: [icon, icon], align: "center", valign: "center" });
+    } else {
+      doc.circle(ix + icon / 2, y + icon / 2, icon / 2).fill(GOLD);
+      doc
+        .font("Helvetica-Bold")
+        .fontSize(16)
+        .fillColor(NAVY)
+        .text(b.name.charAt(0).toUpperCase(), ix, y + 12, { width: icon, align: "center" });
+    }
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(8.5)
+      .fillColor(NAVY)
+      .text(b.name, x + 2, y + icon + 4, { width: cellW - 4, align: "center", height: 22, ellipsis: true });
+    doc
+      .font("Helvetica")
+      .fontSize(7.5)
+      .fillColor(b.isNew ? "#B45309" : GREY)
+      .text(b.isNew ? `New · ${fmtShort(b.awardedAt)}` : fmtDate(b.awardedAt), x + 2, y + icon + 28, {
+        width: cellW - 4,
+        align: "center",
+      });
+  });
+  doc.y = rowTop + cellH;
+}
+
+function teacherComment(doc: Doc, comment: string | undefined) {
+  const { left } = doc.page.margins;
+  const width = contentWidth(doc);
+  const text = comment?.trim();
+  const height = text
+    ? doc.font("Helvetica").fontSize(10.5).heightOfString(text, { width: width - 24 }) + 20
+    : 90; // room to write by hand
+  sectionTitle(doc, "Teacher's comment", height);
+  ensureSpace(doc, height);
+  const top = doc.y;
+  doc.roundedRect(left, top, width, height, 6).lineWidth(1).strokeColor(LINE).stroke();
+  if (text) {
+    doc.font("Helvetica").fontSize(10.5).fillColor("#111827").text(text, left + 12, top + 10, { width: width - 24 });
+  } else {
+    for (let y = top + 28; y < top + height - 8; y += 22) {
+      doc.moveTo(left + 12, y).lineTo(left + width - 12, y).lineWidth(0.5).strokeColor(LINE).stroke();
+    }
+  }
+  doc.y = top + height;
+}
+
+function renderCard(doc: Doc, card: ReportCard, period: ReportPeriod, comment: string | undefined, preparedBy: string | null) {
+  header(doc, card, period, preparedBy);
+  summary(doc, card);
+  weeklyChart(doc, card.weeklyMinutes);
+
+  sectionTitle(doc, "Quiz scores by subject");
+  if (card.quizBySubject.length) {
+    table(
+      doc,
+      [
+        { label: "Subject", width: 0.52 },
+        { label: "Quizzes taken", width: 0.16, align: "right" },
+        { label: "Average", width: 0.16, align: "right" },
+        { label: "Best", width: 0.16, align: "right" },
+      ],
+      card.quizBySubject.map((s) => [s.subject, String(s.sittings), `${s.average}%`, `${s.best}%`])
+    );
+  } else {
+    emptyNote(doc, "No quizzes taken in this period.");
+  }
+
+  sectionTitle(doc, "Books completed");
+  if (card.booksCompleted.length) {
+    table(
+      doc,
+      [
+        { label: "Title", width: 0.55 },
+        { label: "Subject", width: 0.27 },
+        { label: "Completed", width: 0.18, align: "right" },
+      ],
+      card.booksCompleted.map((b) => [b.title, b.subject, fmtDate(b.completedAt)])
+    );
+  } else {
+    emptyNote(doc, "No books completed in this period.");
+  }
+
+  badgeGrid(doc, card.badges);
+  teacherComment(doc, comment);
+}
+
+/**
+ * Renders the cards into one PDF, each starting on a new page. `comments` is
+ * keyed by student id; a card without one gets lines to write on.
+ */
+export function renderReportCards(
+  cards: ReportCard[],
+  period: ReportPeriod,
+  options: { comments?: Record<number, string>; preparedBy?: string | null; title?: string } = {}
+): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: 42,
+    bufferPages: true,
+    info: { Title: options.title ?? "Report cards", Author: SCHOOL_NAME },
+  });
+  const chunks: Buffer[] = [];
+  doc.on("data", (c: Buffer) => chunks.push(c));
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  // first page index of every card, for the per-card footers
+  const starts: number[] = [];
+  cards.forEach((card, i) => {
+    if (i > 0) doc.addPage();
+    starts.push(doc.bufferedPageRange().count - 1);
+    renderCard(doc, card, period, options.comments?.[card.student.id], options.preparedBy ?? null);
+  });
+
+  const generated = `Generated ${fmtDate(new Date())}`;
+  const pageCount = doc.bufferedPageRange().count;
+  cards.forEach((card, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1] : pageCount;
+    for (let p = starts[i]; p < end; p++) {
+      doc.switchToPage(p);
+      const { left, bottom: margin } = doc.page.margins;
+      doc.page.margins.bottom = 0; // writing inside the margin must not add a page
+      doc
+        .font("Helvetica")
+        .fontSize(8)
+        .fillColor(GREY)
+        .text(
+          `${card.student.firstName} ${card.student.lastName}  ·  ${generated}  ·  Page ${p - starts[i] + 1} of ${end - starts[i]}`,
+          left,
+          doc.page.height - margin + 14,
+          { width: contentWidth(doc), align: "center", lineBreak: false }
+        );
+      doc.page.margins.bottom = margin;
+    }
+  });
+
+  doc.end();
+  return done;
+}
+
+export function reportCardFileName(label: string) {
+  const safe = label.replace(/[^a-z0-9_-]+/gi, "-").replace(/^-+|-+$/g, "").slice(0, 60) || "students";
+  return `report-cards-${safe}-${new Date().toISOString().slice(0, 10)}.pdf`;
+}
@@ -0,0 +1,98 @@
+// server/utils/resetCodes.ts
+
+/**
+ * Teacher-issued password reset codes for students.
+ *
+ * For kids without a (verified) email the normal reset flows do not work, so
+ * a teacher or admin can issue a short-lived, single-use code from the
+ * students page. The student redeems it on the forgot-password page together
+ * with their username. Codes use the join-code alphabet (`ABCD-EFGH`), only
+ * their sha256 is stored, issuing a new one revokes the previous one, and a
+ * code is revoked after MAX_FAILED_ATTEMPTS wrong guesses for that student.
+ * Issuing, redeeming and wrong guesses are all recorded as auth events.
+ */
+
+import crypto from "crypto";
+import { and, desc, eq, gt, isNull, sql } from "drizzle-orm";
+import { db } from "@db";
+import * as schema from "@shared/schema";
+import { normalizeJoinCode, randomCode } from "./joinCodes";
+
+export const RESET_CODE_TTL_MIN = 30;
+const MAX_FAILED_ATTEMPTS = 5;
+
+const hashCode = (code: string) => crypto.createHash("sha256").update(code).digest("hex");
+
+// not used, not revoked, not expired
+const usableCondition = () =>
+  and(
+    isNull(schema.studentResetCodes.usedAt),
+    isNull(schema.studentResetCodes.revokedAt),
+    gt(schema.studentResetCodes.expiresAt, new Date())
+  );
+
+/** New code for a student; any code still open for them is revoked. Returns the plain code (shown once). */
+export async function issueResetCode(studentId: number, createdById: number) {
+  const code = randomCode();
+  const expiresAt = new Date(Date.now() + RESET_CODE_TTL_MIN * 60 * 1000);
+
+  const row = await db.transaction(async (tx) => {
+    await tx
+      .update(schema.studentResetCodes)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(schema.studentResetCodes.studentId, studentId), usableCondition()));
+    const [created] = await tx
+      .insert(schema.studentResetCodes)
+      .values({ studentId, createdById, codeHash: hashCode(code), expiresAt })
+      .returning();
+    return created;
+  });
+
+  return { id: row.id, code, expiresAt };
+}
+
+/** The student's open code if `raw` matches it, else null. */
+export async function findUsableResetCode(studentId: number, raw: unknown) {
+  const code = normalizeJoinCode(raw);
+  if (!code) return null;
+  const row = await db.query.studentResetCodes.findFirst({
+    where: and(
+      eq(schema.studentResetCodes.studentId, studentId),
+      eq(schema.studentResetCodes.codeHash, hashCode(code)),
+      usableCondition()
+    ),
+  });
+  return row ?? null;
+}
+
+/** Count a wrong guess against the student's open code(s); revokes them at the limit. */
+export async function recordFailedResetCode(studentId: number) {
+  await db
+    .update(schema.studentResetCodes)
+    .set({
+      failedAttempts: sql`${schema.studentResetCodes.failedAttempts} + 1`,
+      revokedAt: sql`case when ${schema.studentResetCodes.failedAttempts} + 1 >= ${MAX_FAILED_ATTEMPTS} then now() else null end`,
+    })
+    .where(and(eq(schema.studentResetCodes.studentId, studentId), usableCondition()));
+}
+
+/** Mark a code used. False when it was already used (two redeems racing). */
+export async function consumeResetCode(id: number): Promise<boolean> {
+  const rows = await db
+    .update(schema.studentResetCodes)
+    .set({ usedAt: new Date() })
+    .where(and(eq(schema.studentResetCodes.id, id), usableCondition()))
+    .returning({ id: schema.studentResetCodes.id });
+  return rows.length > 0;
+}
+
+/** Recent codes for a student (no hashes), newest first, with who issued them. */
+export async function listResetCodes(studentId: number, limit = 20) {
+  return db.query.studentResetCodes.findMany({
+    where: eq(schema.studentResetCodes.studentId, studentId),
+    columns: { codeHash: false },
+    with: { createdBy: { columns: { id: true, firstName: true, lastName: true } } },
+    orderBy: desc(schema.studentResetCodes.createdAt),
+    limit,
+  });
+}
@@ -0,0 +1,146 @@
+// server/utils/sessions.ts
+
+/**
+ * Server-side registry of issued auth tokens.
+ *
+ * Every JWT signed at login/registration carries a random `sid` claim that
+ * points at a row in `user_sessions`. `authenticate` rejects tokens whose row
+ * is missing, revoked or expired, so revoking rows signs devices out
+ * immediately instead of waiting for the JWT to expire.
+ *
+ * Sessions slide: tokens live for `sessionTimeoutMinutes` and the client
+ * trades them for fresh ones (POST /api/auth/session/refresh) while the user
+ * is active. `last_active_at` records the last refresh; once it is older than
+ * the idle timeout the session is revoked on its next request.
+ */
+
+import crypto from "crypto";
+import type { Request } from "express";
+import { and, eq, gt, isNotNull, isNull, lte, ne, or } from "drizzle-orm";
+import { db } from "@db";
+import * as schema from "@shared/schema";
+import { log } from "../vite";
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000; // hourly
+
+export const newSessionId = () => crypto.randomBytes(24).toString("hex");
+
+export async function createSession(opts: {
+  sessionId: string;
+  userId: number;
+  expiresAt: Date;
+  req?: Request;
+  impersonatorId?: number | null;
+}) {
+  const userAgent = opts.req?.headers["user-agent"];
+  await db.insert(schema.userSessions).values({
+    sessionId: opts.sessionId,
+    userId: opts.userId,
+    expiresAt: opts.expiresAt,
+    userAgent: typeof userAgent === "string" ? userAgent.slice(0, 500) : null,
+    ipAddress: opts.req?.ip ? String(opts.req.ip).slice(0, 100) : null,
+    impersonatorId: opts.impersonatorId ?? null,
+  });
+}
+
+/** The session row if it is neither revoked nor expired. */
+export async function findActiveSession(sessionId: string, userId: number) {
+  const row = await db.query.userSessions.findFirst({
+    where: and(
+      eq(schema.userSessions.sessionId, sessionId),
+      eq(schema.userSessions.userId, userId),
+      isNull(schema.userSessions.revokedAt),
+      gt(schema.userSessions.expiresAt, new Date())
+    ),
+    columns: { id: true, lastActiveAt: true, expiresAt: true, impersonatorId: true },
+  });
+  return row ?? null;
+}
+
+/* ---------- idle timeout ---------- */
+
+const IDLE_TIMEOUT_CACHE_MS = 60 * 1000;
+let idleTimeoutCache: { minutes: number; loadedAt: number } | null = null;
+
+/** systemSettings.sessionTimeoutMinutes, cached for a minute (read on every request). */
+export async function getIdleTimeoutMinutes(): Promise<number> {
+  if (idleTimeoutCache && Date.now() - idleTimeoutCache.loadedAt < IDLE_TIMEOUT_CACHE_MS) {
+    return idleTimeoutCache.minutes;
+  }
+  const settings = await db.query.systemSettings.findFirst({ columns: { sessionTimeoutMinutes: true } });
+  const minutes = settings?.sessionTimeoutMinutes ?? 60;
+  idleTimeoutCache = { minutes, loadedAt: Date.now() };
+  return minutes;
+}
+
+/** Call after the settings change so the new timeout applies right away. */
+export const forgetIdleTimeout = () => {
+  idleTimeoutCache = null;
+};
+
+/** When an idle session signs out: last activity + timeout, capped by the token's own expiry. */
+export const sessionDeadline = (session: { lastActiveAt: Date; expiresAt: Date }, idleMinutes: number) =>
+  new Date(Math.min(session.lastActiveAt.getTime() + idleMinutes * 60 * 1000, session.expiresAt.getTime()));
+
+/** Record activity; pass `expiresAt` when a fresh token was issued for the session. */
+export async function touchSession(sessionId: string, expiresAt?: Date) {
+  await db
+    .update(schema.userSessions)
+    .set({ lastActiveAt: new Date(), ...(expiresAt ? { expiresAt } : {}) })
+    .where(and(eq(schema.userSessions.sessionId, sessionId), isNull(schema.userSessions.revokedAt)));
+}
+
+/**
+ * Revoke every live session of a user. Pass `exceptSessionId` to keep the
+ * caller's own device signed in. Returns how many sessions were revoked.
+ */
+export async function revokeUserSessions(
+  userId: number,
+  opts: { exceptSessionId?: string | null } = {}
+): Promise<number> {
+  const conditions = [
+    eq(schema.userSessions.userId, userId),
+    isNull(schema.userSessions.revokedAt),
+    gt(schema.userSessions.expiresAt, new Date()),
+  ];
+  if (opts.exceptSessionId) conditions.push(ne(schema.userSessions.sessionId, opts.exceptSessionId));
+
+  const revoked = await db
+    .update(schema.userSessions)
+    .set({ revokedAt: new Date() })
+    .where(and(...conditions))
+    .returning({ id: schema.userSessions.id });
+  return revoked.length;
+}
+
+export async function revokeSession(sessionId: string) {
+  await db
+    .update(schema.userSessions)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(schema.userSessions.sessionId, sessionId), isNull(schema.userSessions.revokedAt)));
+}
+
+/**
+ * Delete rows of expired or revoked sessions. A missing row rejects its token
+ * just like a revoked one, so nothing is lost. Returns how many were deleted.
+ */
+export async function purgeStaleSessions(): Promise<number> {
+  const deleted = await db
+    .delete(schema.userSessions)
+    .where(or(lte(schema.userSessions.expiresAt, new Date()), isNotNull(schema.userSessions.revokedAt)))
+    .returning({ id: schema.userSessions.id });
+  return deleted.length;
+}
+
+// every login adds a row; drop the ones that can no longer sign anyone in
+export function startSessionPurgeJob() {
+  const run = () =>
+    purgeStaleSessions()
+      .then((n) => n > 0 && log(`Deleted ${n} expired or revoked session(s)`, "sessions"))
+      .catch((e) => log(`Session purge failed: ${(e as Error).message}`, "sessions"));
+
+  run();
+  const timer = setInterval(run, PURGE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,291 @@
+// server/utils/studentImport.ts
+
+/**
+ * Bulk student import from CSV.
+ *
+ * Columns (header row required, any order, case-insensitive):
+ *   firstName, lastName, gradeLevel  — required
+ *   username, email, password        — optional
+ *
+ * Missing usernames are generated from the name, missing passwords are
+ * generated as easy-to-type word pairs (made to fit the password policy),
+ * given passwords are checked against that policy, and students without an email get a
+ * placeholder address on the reserved `.invalid` domain (they sign in with
+ * their username). Duplicates are checked case-insensitively, the same way
+ * the users_*_lower_idx indexes enforce it, both within the file and against
+ * existing accounts.
+ */
+
+import crypto from "crypto";
+import bcrypt from "bcrypt";
+import { inArray, sql } from "drizzle-orm";
+import { db } from "@db";
+import * as schema from "@shared/schema";
+import { passwordPolicyError, type PasswordPolicy } from "@shared/passwordPolicy";
+import { parseCsv } from "./csv";
+import { loadPasswordPolicy } from "./passwordPolicy";
+
+export const MAX_IMPORT_ROWS = 500;
+export const PLACEHOLDER_EMAIL_DOMAIN = "students.invalid";
+
+export const isPlaceholderEmail = (email: string | null | undefined) =>
+  !!email && email.toLowerCase().endsWith(`@${PLACEHOLDER_EMAIL_DOMAIN}`);
+
+type GradeLevel = (typeof schema.gradeLevelEnum.enumValues)[number];
+
+export type ImportRow = {
+  line: number; // 1-based line in the file (header is line 1)
+  firstName: string;
+  lastName: string;
+  gradeLevel: string;
+  username: string;
+  email: string | null;
+  password: string | null;
+  errors: string[];
+};
+
+export type ImportedCredential = {
+  id: number;
+  firstName: string;
+  lastName: string;
+  gradeLevel: GradeLevel;
+  username: string;
+  password: string;
+};
+
+/* ---------- parsing ---------- */
+
+const HEADER_ALIASES: Record<string, keyof Omit<ImportRow, "line" | "errors">> = {
+  firstname: "firstName",
+  first: "firstName",
+  givenname: "firstName",
+  lastname: "lastName",
+  last: "lastName",
+  surname: "lastName",
+  familyname: "lastName",
+  grade: "gradeLevel",
+  gradelevel: "gradeLevel",
+  username: "username",
+  user: "username",
+  email: "email",
+  emailaddress: "email",
+  password: "password",
+};
+
+const canonicalGrade = (raw: string) => {
+  const g = raw.trim().toUpperCase().replace(/^GRADE\s*/, "");
+  if (g === "KINDER" || g === "KINDERGARTEN") return "K";
+  return g;
+};
+
+const GRADES = schema.gradeLevelEnum.enumValues as readonly string[];
+const USERNAME_RE = /^[a-z0-9._-]{3,30}$/;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const slug = (s: string) =>
+  s
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+
+/** Parse the CSV and run per-row checks (no database access). */
+export function parseStudentCsv(text: string): { rows: ImportRow[]; error?: string } {
+  const table = parseCsv(text);
+  if (table.length < 2) return { rows: [], error: "The file needs a header row and at least one student" };
+  if (table.length - 1 > MAX_IMPORT_ROWS) {
+    return { rows: [], error: `At most ${MAX_IMPORT_ROWS} students can be imported at once` };
+  }
+
+  const columns = table[0].map((h) => HEADER_ALIASES[h.toLowerCase().replace(/[^a-z]/g, "")]);
+  for (const required of ["firstName", "lastName", "gradeLevel"] as const) {
+    if (!columns.includes(required)) return { rows: [], error: `Missing required column: ${required}` };
+  }
+
+  const rows = table.slice(1).map((cells, i) => {
+    const get = (key: string) => {
+      const idx = columns.indexOf(key as any);
+      return idx === -1 ? "" : (cells[idx] ?? "").trim();
+    };
+    const row: ImportRow = {
+      line: i + 2,
+      firstName: get("firstName"),
+      lastName: get("lastName"),
+      gradeLevel: canonicalGrade(get("gradeLevel")),
+      username: get("username").toLowerCase(),
+      email: get("email").toLowerCase() || null,
+      password: get("password") || null,
+      errors: [],
+    };
+    if (!row.firstName) row.errors.push("First name is required");
+    if (!row.lastName) row.errors.push("Last name is required");
+    if (!GRADES.includes(row.gradeLevel)) row.errors.push("Grade must be K or 1–6");
+    if (row.username && !USERNAME_RE.test(row.username)) {
+      row.errors.push("Username must be 3–30 letters, numbers, dots, dashes or underscores");
+    }
+    if (row.email && !EMAIL_RE.test(row.email)) row.errors.push("Invalid email address");
+    return row;
+  });
+
+  return { rows };
+}
+
+/* ---------- duplicate checks + generated usernames ---------- */
+
+async function takenValues(column: "username" | "email", values: string[]) {
+  if (values.length === 0) return new Set<string>();
+  const col = column === "username" ? schema.users.username : schema.users.email;
+  const found = await db
+    .select({ value: sql<string>`lower(${col})` })
+    .from(schema.users)
+    .where(inArray(sql`lower(${col})`, values));
+  return new Set(found.map((f) => f.value));
+}
+
+/**
+ * Flag duplicate usernames/emails (in the file and in the database) and
+ * passwords the policy refuses, and fill in generated usernames for rows
+ * that did not provide one.
+ */
+export async function checkImportRows(rows: ImportRow[]): Promise<ImportRow[]> {
+  const policy = await loadPasswordPolicy();
+  for (const row of rows) {
+    const passwordError = row.password ? passwordPolicyError(row.password, policy) : null;
+    if (passwordError) row.errors.push(passwordError);
+  }
+
+  const givenUsernames = rows.map((r) => r.username).filter(Boolean);
+  const emails = rows.map((r) => r.email).filter((e): e is string => !!e);
+
+  const takenUsernames = await takenValues("username", givenUsernames);
+  const takenEmails = await takenValues("email", emails);
+
+  const seenUsernames = new Set<string>();
+  const seenEmails = new Set<string>();
+  for (const row of rows) {
+    if (row.username) {
+      if (takenUsernames.has(row.username)) row.errors.push(`Username "${row.username}" is already taken`);
+      else if (seenUsernames.has(row.username)) row.errors.push(`Username "${row.username}" appears more than once`);
+      seenUsernames.add(row.username);
+    }
+    if (row.email) {
+      if (takenEmails.has(row.email)) row.errors.push(`Email "${row.email}" is already registered`);
+      else if (seenEmails.has(row.email)) row.errors.push(`Email "${row.email}" appears more than once`);
+      seenEmails.add(row.email);
+    }
+  }
+
+  // generate usernames for the rest: first.last, then first.last2, first.last3...
+  const needName = rows.filter((r) => !r.username && r.firstName && r.lastName);
+  const bases = needName.map((r) => {
+    const base = [slug(r.firstName), slug(r.lastName)].filter(Boolean).join(".").slice(0, 24);
+    return base.length >= 3 ? base : `student${base}`;
+  });
+  const prefixes = Array.from(new Set(bases));
+  const existing = prefixes.length
+    ? await db
+        .select({ value: sql<string>`lower(${schema.users.username})` })
+        .from(schema.users)
+        .where(sql.join(prefixes.map((b) => sql`lower(${schema.users.username}) like ${b + "%"}`), sql` or `))
+    : [];
+  const used = new Set([...existing.map((e) => e.value), ...Array.from(seenUsernames)]);
+  needName.forEach((row, i) => {
+    let candidate = bases[i];
+    for (let n = 2; used.has(candidate); n++) candidate = `${bases[i]}${n}`;
+    used.add(candidate);
+    row.username = candidate;
+  });
+
+  return rows;
+}
+
+/* ---------- passwords ---------- */
+
+const WORDS = [
+  "apple", "brave", "cloud", "dolphin", "eagle", "forest", "garden", "happy", "island", "jelly",
+  "kite", "lemon", "mango", "night", "ocean", "panda", "quick", "river", "sunny", "tiger",
+  "umbrella", "violet", "whale", "yellow", "zebra", "rocket", "star", "maple", "pearl", "robin",
+];
+
+/**
+ * Easy to read aloud and type for young learners, e.g. "sunny-tiger-42"
+ * ("Sunny-Tiger-42" when the policy wants uppercase). Extra words are added
+ * until the policy's minimum length is met.
+ */
+export function generateStudentPassword(policy?: PasswordPolicy) {
+  const pick = () => {
+    const word = WORDS[crypto.randomInt(WORDS.length)];
+    return policy?.requireUpper ? word[0].toUpperCase() + word.slice(1) : word;
+  };
+  let password = "";
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const words = [pick(), pick()];
+    const number = String(crypto.randomInt(10, 100));
+    while (policy && [...words, number].join("-").length < policy.minLength) words.push(pick());
+    password = [...words, number].join("-");
+    if (!policy || !passwordPolicyError(password, policy)) break;
+  }
+  return password;
+}
+
+/* ---------- create ---------- */
+
+/**
+ * Create the (already checked, error-free) rows as approved, verified
+ * students. When `teacherId` is given, each student is also enrolled with
+ * that teacher. Returns the plain credentials for the login cards.
+ */
+export async function createImportedStudents(
+  rows: ImportRow[],
+  opts: { teacherId?: number } = {}
+): Promise<ImportedCredential[]> {
+  const policy = await loadPasswordPolicy();
+  const prepared = await Promise.all(
+    rows.map(async (r) => {
+      const password = r.password || generateStudentPassword(policy);
+      return { row: r, password, hash: await bcrypt.hash(password, 10) };
+    })
+  );
+
+  return db.transaction(async (tx) => {
+    const created = await tx
+      .insert(schema.users)
+      .values(
+        prepared.map(({ row, hash }) => ({
+          username: row.username,
+          email: row.email || `${row.username}@${PLACEHOLDER_EMAIL_DOMAIN}`,
+          password: hash,
+          firstName: row.firstName,
+          lastName: row.lastName,
+          role: "student" as const,
+          gradeLevel: row.gradeLevel as GradeLevel,
+          approvalStatus: "approved" as const,
+          emailVerified: true,
+        }))
+      )
+      .returning({
+        id: schema.users.id,
+        username: schema.users.username,
+        firstName: schema.users.firstName,
+        lastName: schema.users.lastName,
+        gradeLevel: schema.users.gradeLevel,
+      });
+
+    if (opts.teacherId) {
+      await tx
+        .insert(schema.studentEnrollments)
+        .values(created.map((u) => ({ teacherId: opts.teacherId!, studentId: u.id })))
+        .onConflictDoNothing();
+    }
+
+    const passwordByUsername = new Map(prepared.map((p) => [p.row.username, p.password]));
+    return created.map((u) => ({
+      id: u.id,
+      firstName: u.firstName,
+      lastName: u.lastName,
+      gradeLevel: u.gradeLevel as GradeLevel,
+      username: u.username,
+      password: passwordByUsername.get(u.username)!,
+    }));
+  });
+}
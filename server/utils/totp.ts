@@ -0,0 +1,141 @@
+// server/utils/totp.ts
+
+/**
+ * RFC 6238 TOTP (SHA-1, 6 digits, 30s step) plus the helpers 2FA needs:
+ * secret generation, at-rest encryption of the secret and recovery codes.
+ *
+ * ENV:
+ *  - TWO_FACTOR_ENCRYPTION_KEY (falls back to JWT_SECRET) — key for stored secrets
+ */
+
+import crypto from "crypto";
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const BASE32 = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export const TOTP_ISSUER = process.env.TWO_FACTOR_ISSUER || "Adonai & Grace";
+
+/* ---------- base32 ---------- */
+
+function base32Encode(buf: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let out = "";
+  for (let i = 0; i < buf.length; i++) {
+    value = (value << 8) | buf[i];
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32[(value << (5 - bits)) & 31];
+  return out;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.replace(/=+$/, "").replace(/\s+/g, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const out: number[] = [];
+  for (const ch of clean) {
+    const idx = BASE32.indexOf(ch);
+    if (idx === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | idx;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(out);
+}
+
+/* ---------- TOTP ---------- */
+
+export const generateTotpSecret = () => base32Encode(crypto.randomBytes(20));
+
+const currentStep = (now = Date.now()) => Math.floor(now / 1000 / STEP_SECONDS);
+
+function hotp(secret: string, counter: number): string {
+  const msg = Buffer.alloc(8);
+  msg.writeBigUInt64BE(BigInt(counter));
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(msg).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+  return String(code).padStart(DIGITS, "0");
+}
+
+/**
+ * Check a 6-digit code against the current step ±`window`.
+ * Returns the matched step (store it to reject replays) or null.
+ */
+export function verifyTotp(secret: string, code: string, opts: { window?: number; afterStep?: number | null } = {}) {
+  const token = String(code || "").replace(/\s+/g, "");
+  if (!/^\d{6}$/.test(token)) return null;
+  const window = opts.window ?? 1;
+  const now = currentStep();
+  for (let step = now - window; step <= now + window; step++) {
+    if (opts.afterStep != null && step <= opts.afterStep) continue;
+    const expected = hotp(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(token))) return step;
+  }
+  return null;
+}
+
+export function otpauthUrl(accountName: string, secret: string) {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/* ---------- secret encryption (AES-256-GCM) ---------- */
+
+const encryptionKey = () =>
+  crypto
+    .createHash("sha256")
+    .update(process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET || "dev-two-factor-key")
+    .digest();
+
+export function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const enc = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), enc].map((b) => b.toString("base64")).join(".");
+}
+
+export function decryptSecret(payload: string): string {
+  const [iv, tag, enc] = payload.split(".").map((p) => Buffer.from(p, "base64"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(enc), decipher.final()]).toString("utf8");
+}
+
+/* ---------- recovery codes ---------- */
+
+const hashRecoveryCode = (code: string) =>
+  crypto.createHash("sha256").update(code.replace(/[\s-]/g, "").toLowerCase()).digest("hex");
+
+/** Returns the plain codes (show once) and their hashes (store). */
+export function generateRecoveryCodes(count = 10) {
+  const codes = Array.from({ length: count }, () => {
+    const raw = crypto.randomBytes(5).toString("hex"); // 10 hex chars
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+/** If `code` matches one of `hashes`, returns the remaining hashes; otherwise null. */
+export function consumeRecoveryCode(hashes: string[], code: string): string[] | null {
+  const h = hashRecoveryCode(String(code || ""));
+  const idx = hashes.indexOf(h);
+  if (idx === -1) return null;
+  return hashes.filter((_, i) => i !== idx);
+}
@@ -0,0 +1,122 @@
+// server/utils/userExport.ts
+
+/**
+ * Personal data export (GET /api/user/export and the admin variant).
+ *
+ * Collects everything we store about one user and packs it into a zip with
+ * `export.json` (all tables) plus one CSV per table. Secrets such as password
+ * hashes, security answers and verification/reset tokens are never exported.
+ */
+
+import JSZip from "jszip";
+import { desc, eq } from "drizzle-orm";
+import { db } from "@db";
+import * as schema from "@shared/schema";
+import { toCsv } from "./csv";
+
+export async function collectUserData(userId: number) {
+  const profile = await db.query.users.findFirst({
+    where: eq(schema.users.id, userId),
+    columns: {
+      id: true,
+      username: true,
+      email: true,
+      firstName: true,
+      lastName: true,
+      role: true,
+      gradeLevel: true,
+      approvalStatus: true,
+      emailVerified: true,
+      avatar: true,
+      bio: true,
+      passwordChangedAt: true,
+      createdAt: true,
+    },
+  });
+  if (!profile) return null;
+
+  const [progress, readingSessions, quizAttempts, storyCheckpoints, earned, teachingSettings, authEvents] =
+    await Promise.all([
+      db.query.progress.findMany({
+        where: eq(schema.progress.userId, userId),
+        with: { book: { columns: { title: true } } },
+        orderBy: desc(schema.progress.lastReadAt),
+      }),
+      db.query.readingSessions.findMany({
+        where: eq(schema.readingSessions.userId, userId),
+        with: { book: { columns: { title: true } } },
+        orderBy: desc(schema.readingSessions.startTime),
+      }),
+      db.query.quizAttempts.findMany({
+        where: eq(schema.quizAttempts.userId, userId),
+        with: { book: { columns: { title: true } } },
+        orderBy: desc(schema.quizAttempts.createdAt),
+      }),
+      db.query.storyCheckpoints.findMany({
+        where: eq(schema.storyCheckpoints.userId, userId),
+        with: { book: { columns: { title: true } } },
+      }),
+      db.query.earnedBadges.findMany({
+        where: eq(schema.earnedBadges.userId, userId),
+        with: { badge: { columns: { name: true } }, book: { columns: { title: true } } },
+        orderBy: desc(schema.earnedBadges.awardedAt),
+      }),
+      db.query.teachingSettings.findMany({
+        where: eq(schema.teachingSettings.userId, userId),
+      }),
+      db.query.authEvents.findMany({
+        where: eq(schema.authEvents.userId, userId),
+        columns: { userId: false },
+        orderBy: desc(schema.authEvents.createdAt),
+      }),
+    ]);
+
+  // flatten the joined book/badge into plain columns so the CSVs stay tabular
+  const withBookTitle = <T extends { book?: { title: string } | null }>(rows: T[]) =>
+    rows.map(({ book, ...rest }) => ({ ...rest, bookTitle: book?.title ?? null }));
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile,
+    progress: withBookTitle(progress),
+    readingSessions: withBookTitle(readingSessions),
+    quizAttempts: withBookTitle(quizAttempts),
+    storyCheckpoints: withBookTitle(storyCheckpoints),
+    earnedBadges: earned.map(({ badge, book, ...rest }) => ({
+      ...rest,
+      badgeName: badge?.name ?? null,
+      bookTitle: book?.title ?? null,
+    })),
+    teachingSettings,
+    authEvents,
+  };
+}
+
+export type UserDataExport = NonNullable<Awaited<ReturnType<typeof collectUserData>>>;
+
+export async function buildUserExportArchive(data: UserDataExport): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file("export.json", JSON.stringify(data, null, 2));
+  zip.file("profile.csv", toCsv([data.profile]));
+
+  const tables = {
+    progress: data.progress,
+    reading_sessions: data.readingSessions,
+    quiz_attempts: data.quizAttempts,
+    story_checkpoints: data.storyCheckpoints,
+    earned_badges: data.earnedBadges,
+    teaching_settings: data.teachingSettings,
+    auth_events: data.authEvents,
+  } as Record<string, Record<string, unknown>[]>;
+
+  for (const [name, rows] of Object.entries(tables)) {
+    zip.file(`${name}.csv`, toCsv(rows));
+  }
+
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+export function exportFileName(username: string) {
+  const safe = username.replace(/[^a-z0-9_-]/gi, "_").slice(0, 60) || "user";
+  return `data-export-${safe}-${new Date().toISOString().slice(0, 10)}.zip`;
+}
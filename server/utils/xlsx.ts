@@ -0,0 +1,160 @@
+// server/utils/xlsx.ts
+
+/**
+ * Minimal single-sheet XLSX writer used by the spreadsheet exports.
+ *
+ * An .xlsx file is a zip of SpreadsheetML parts, so this builds the handful of
+ * parts Excel, LibreOffice and Google Sheets need with JSZip (already used for
+ * the data export) instead of pulling in a spreadsheet library. Supports
+ * strings (inline), numbers, dates (real date cells), bold header rows,
+ * merged cells, frozen panes and column widths — nothing else.
+ */
+
+import JSZip from "jszip";
+
+export type XlsxCell = string | number | Date | null | undefined;
+
+export type XlsxSheet = {
+  name: string;
+  rows: XlsxCell[][];
+  headerRows?: number; // leading rows shown bold
+  merges?: string[]; // e.g. "B1:G1"
+  freeze?: { rows: number; cols: number };
+  columnWidths?: number[]; // in characters, by column index
+};
+
+const NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const REL_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+// style indexes in STYLES below
+const STYLE_BOLD = 1;
+const STYLE_DATE = 2;
+const STYLE_BOLD_DATE = 3;
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="${NS}">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="4">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="14" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1" applyNumberFormat="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+// XML 1.0 forbids most control characters even when escaped
+const escapeXml = (s: string) =>
+  s
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/** 0 → "A", 25 → "Z", 26 → "AA". */
+export function columnLetter(index: number): string {
+  let n = index + 1;
+  let out = "";
+  while (n > 0) {
+    const r = (n - 1) % 26;
+    out = String.fromCharCode(65 + r) + out;
+    n = Math.floor((n - 1) / 26);
+  }
+  return out;
+}
+
+// Excel stores dates as days since 1899-12-30
+const excelDate = (d: Date) => d.getTime() / 86_400_000 + 25569;
+
+function cellXml(ref: string, value: XlsxCell, bold: boolean): string {
+  if (value === null || value === undefined || value === "") return "";
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return "";
+    return `<c r="${ref}" s="${bold ? STYLE_BOLD_DATE : STYLE_DATE}"><v>${excelDate(value)}</v></c>`;
+  }
+  const style = bold ? ` s="${STYLE_BOLD}"` : "";
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? `<c r="${ref}"${style}><v>${value}</v></c>` : "";
+  }
+  return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function sheetXml(sheet: XlsxSheet): string {
+  const headerRows = sheet.headerRows ?? 0;
+  const rows = sheet.rows
+    .map((row, r) => {
+      const cells = row.map((v, c) => cellXml(`${columnLetter(c)}${r + 1}`, v, r < headerRows)).join("");
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join("");
+
+  let views = "";
+  if (sheet.freeze && (sheet.freeze.rows || sheet.freeze.cols)) {
+    const { rows: fr, cols: fc } = sheet.freeze;
+    const topLeft = `${columnLetter(fc)}${fr + 1}`;
+    const split = `${fc ? ` xSplit="${fc}"` : ""}${fr ? ` ySplit="${fr}"` : ""}`;
+    const pane = fr && fc ? "bottomRight" : fr ? "bottomLeft" : "topRight";
+    views = `<sheetViews><sheetView workbookViewId="0"><pane${split} topLeftCell="${topLeft}" activePane="${pane}" state="frozen"/></sheetView></sheetViews>`;
+  }
+
+  const cols = sheet.columnWidths?.length
+    ? `<cols>${sheet.columnWidths
+        .map((w, i) => `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`)
+        .join("")}</cols>`
+    : "";
+
+  const merges = sheet.merges?.length
+    ? `<mergeCells count="${sheet.merges.length}">${sheet.merges.map((m) => `<mergeCell ref="${m}"/>`).join("")}</mergeCells>`
+    : "";
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="${NS}" xmlns:r="${REL_NS}">${views}${cols}<sheetData>${rows}</sheetData>${merges}</worksheet>`;
+}
+
+// Sheet names: 1–31 chars, none of []:*?/\
+const sheetName = (name: string) => name.replace(/[\[\]:*?/\\]/g, " ").trim().slice(0, 31) || "Sheet1";
+
+export async function toXlsx(sheet: XlsxSheet): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file(
+    "[Content_Types].xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`
+  );
+  zip.file(
+    "_rels/.rels",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`
+  );
+  zip.file(
+    "xl/workbook.xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="${NS}" xmlns:r="${REL_NS}"><sheets><sheet name="${escapeXml(sheetName(sheet.name))}" sheetId="1" r:id="rId1"/></sheets></workbook>`
+  );
+  zip.file(
+    "xl/_rels/workbook.xml.rels",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="${REL_NS}/styles" Target="styles.xml"/>
+</Relationships>`
+  );
+  zip.file("xl/styles.xml", STYLES);
+  zip.file("xl/worksheets/sheet1.xml", sheetXml(sheet));
+
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+export const XLSX_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
@@ -0,0 +1,99 @@
+// shared/passwordPolicy.ts
+
+/**
+ * Password policy rules, shared by the server (enforcement on every path that
+ * sets a password) and the client (live checklist on register / reset /
+ * change-password forms). Kept free of database and Node imports so the
+ * client bundle can use it.
+ *
+ * History (no reuse of the last N) and maximum age need stored hashes and
+ * timestamps, so they are checked on the server only (server/utils/passwordPolicy.ts).
+ */
+
+export type PasswordPolicy = {
+  minLength: number;
+  requireUpper: boolean;
+  requireLower: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  historyCount: number; // 0 = reuse allowed
+  maxAgeDays: number; // 0 = passwords never expire
+  blocklist: string[]; // admin additions on top of COMMON_PASSWORDS
+};
+
+export const PASSWORD_MIN_LENGTH_RANGE = { min: 6, max: 64 } as const;
+export const PASSWORD_HISTORY_MAX = 24;
+export const PASSWORD_MAX_AGE_DAYS_MAX = 365;
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUpper: false,
+  requireLower: false,
+  requireNumber: false,
+  requireSymbol: false,
+  historyCount: 0,
+  maxAgeDays: 0,
+  blocklist: [],
+};
+
+// Always refused, whatever the admin blocklist says
+export const COMMON_PASSWORDS = [
+  "123456", "1234567", "12345678", "123456789", "1234567890", "111111", "000000", "123123",
+  "654321", "121212", "password", "passw0rd", "p@ssw0rd", "password1", "qwerty", "qwertyuiop",
+  "asdfgh", "asdfghjkl", "zxcvbnm", "abc123", "abcdef", "iloveyou", "letmein", "welcome",
+  "monkey", "dragon", "sunshine", "princess", "football", "baseball", "basketball", "superman",
+  "batman", "master", "shadow", "trustno1", "admin", "administrator", "login", "changeme",
+  "secret", "hello", "freedom", "whatever", "starwars", "pokemon", "teacher", "student",
+  "school", "reading",
+];
+
+export type PasswordRuleId = "length" | "upper" | "lower" | "number" | "symbol" | "common";
+
+export type PasswordCheck = { id: PasswordRuleId; label: string; ok: boolean };
+
+/** Parse the admin blocklist textarea (one entry per line or comma separated). */
+export function parseBlocklist(raw: string | null | undefined): string[] {
+  if (!raw) return [];
+  const entries = raw
+    .split(/[\n,]/)
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(entries));
+}
+
+/** "Summer2024!" and "summer" both hit a blocked "summer". */
+export function isBlockedPassword(password: string, blocklist: string[] = []) {
+  const lower = password.toLowerCase();
+  const core = lower.replace(/^[^a-z]+|[^a-z]+$/g, "");
+  const blocked = new Set([...COMMON_PASSWORDS, ...blocklist.map((b) => b.toLowerCase())]);
+  return blocked.has(lower) || (core.length > 0 && blocked.has(core));
+}
+
+/** One entry per active rule, in checklist order. */
+export function checkPassword(password: string, policy: PasswordPolicy): PasswordCheck[] {
+  const checks: PasswordCheck[] = [
+    { id: "length", label: `At least ${policy.minLength} characters`, ok: password.length >= policy.minLength },
+  ];
+  if (policy.requireUpper) checks.push({ id: "upper", label: "An uppercase letter", ok: /[A-Z]/.test(password) });
+  if (policy.requireLower) checks.push({ id: "lower", label: "A lowercase letter", ok: /[a-z]/.test(password) });
+  if (policy.requireNumber) checks.push({ id: "number", label: "A number", ok: /\d/.test(password) });
+  if (policy.requireSymbol) {
+    checks.push({ id: "symbol", label: "A symbol (e.g. ! @ # -)", ok: /[^A-Za-z0-9\s]/.test(password) });
+  }
+  checks.push({
+    id: "common",
+    label: "Not a common or blocked password",
+    ok: password.length > 0 && !isBlockedPassword(password, policy.blocklist),
+  });
+  return checks;
+}
+
+/** Human-readable reason the password is refused, or null when it passes. */
+export function passwordPolicyError(password: string, policy: PasswordPolicy): string | null {
+  const failed = checkPassword(password, policy).filter((c) => !c.ok);
+  if (failed.length === 0) return null;
+  if (failed.some((c) => c.id === "common")) {
+    return "This password is too common or has been blocked. Please choose another one.";
+  }
+  return `Password must include: ${failed.map((c) => c.label.toLowerCase()).join(", ")}.`;
+}
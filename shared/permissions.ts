@@ -0,0 +1,118 @@
+// shared/permissions.ts
+
+/**
+ * Named permissions and the roles they are granted to.
+ *
+ * The server enforces them (server/utils/permissions.ts, `requirePermission`)
+ * and the client hides actions with `can()` from AuthContext; both read this
+ * catalog. Admins can change what teachers, students and parents may do from
+ * Settings → Permissions; the admin role always has every permission so it
+ * cannot be locked out. Kept free of database and Node imports so the client
+ * bundle can use it.
+ *
+ * `.own` / `.any` pairs are scoped: `.own` only covers records the user owns
+ * (e.g. books they added; for edits also books they co-author as an editor),
+ * `.any` covers everything.
+ */
+
+export const ROLES = ["admin", "teacher", "student", "parent"] as const;
+export type Role = (typeof ROLES)[number];
+
+// roles whose permissions admins can edit
+export const EDITABLE_ROLES = ["teacher", "student", "parent"] as const;
+export type EditableRole = (typeof EDITABLE_ROLES)[number];
+
+export const PERMISSIONS = {
+  "books.view": { group: "Books", label: "Browse and read books" },
+  "books.create": { group: "Books", label: "Add books" },
+  "books.edit.own": { group: "Books", label: "Edit books they own or co-author (pages, quizzes, chapters)" },
+  "books.edit.any": { group: "Books", label: "Edit any book" },
+  "books.delete.own": { group: "Books", label: "Delete books they added" },
+  "books.delete.any": { group: "Books", label: "Delete any book" },
+  "books.transfer": { group: "Books", label: "Transfer a book to another owner" },
+  "books.publish": {
+    group: "Books",
+    label: "Publish or schedule books directly, and approve or reject books submitted for review",
+  },
+  "badges.manage": { group: "Badges", label: "Create badges and attach them to books" },
+  "badges.delete": { group: "Badges", label: "Delete badges" },
+  "badges.award": { group: "Badges", label: "Award badges to students by hand" },
+  "students.view": { group: "Students", label: "See the student list" },
+  "students.manage": { group: "Students", label: "Class sign-in, reset codes and parent invites" },
+  "students.import": { group: "Students", label: "Import students from a spreadsheet" },
+  "students.approve": { group: "Students", label: "Approve or reject student sign-ups" },
+  "classes.manage": { group: "Classes", label: "Create classes and manage their rosters and co-teachers" },
+  "assignments.manage": { group: "Classes", label: "Assign books to classes and students and see their status" },
+  "announcements.class": { group: "Announcements", label: "Post announcements to their own classes" },
+  "announcements.school": {
+    group: "Announcements",
+    label: "Post announcements to the whole school, a role or a grade, and manage everyone's",
+  },
+  "teachers.approve": { group: "Teachers", label: "See, approve or reject teachers" },
+  "stats.view": { group: "Reports", label: "See dashboard statistics" },
+  "gradebook.export": { group: "Reports", label: "Export gradebooks (CSV / XLSX) for their students" },
+  "reportCards.print": { group: "Reports", label: "Print progress report cards (PDF) for their students" },
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+// actions that come in `.own` / `.any` flavours
+export type ScopedAction = "books.edit" | "books.delete";
+
+export type RolePermissions = Record<EditableRole, Permission[]>;
+
+export const DEFAULT_ROLE_PERMISSIONS: RolePermissions = {
+  teacher: [
+    "books.view",
+    "books.create",
+    "books.edit.own",
+    "books.delete.own",
+    "badges.manage",
+    "badges.award",
+    "students.view",
+    "students.manage",
+    "students.import",
+    "classes.manage",
+    "assignments.manage",
+    "announcements.class",
+    "stats.view",
+    "gradebook.export",
+    "reportCards.print",
+  ],
+  student: ["books.view"],
+  parent: [],
+};
+
+export const isPermission = (p: unknown): p is Permission =>
+  typeof p === "string" && Object.prototype.hasOwnProperty.call(PERMISSIONS, p);
+
+/**
+ * Stored overrides (systemSettings.rolePermissions) merged over the defaults.
+ * Unknown names are dropped; a role missing from `stored` keeps its defaults.
+ */
+export function resolveRolePermissions(stored?: Partial<Record<string, unknown>> | null): RolePermissions {
+  const out = { ...DEFAULT_ROLE_PERMISSIONS };
+  for (const role of EDITABLE_ROLES) {
+    const list = stored?.[role];
+    if (Array.isArray(list)) out[role] = Array.from(new Set(list.filter(isPermission)));
+  }
+  return out;
+}
+
+/** Everything `role` may do under the given mapping. */
+export function permissionsForRole(role: string, mapping: RolePermissions): Permission[] {
+  if (role === "admin") return ALL_PERMISSIONS;
+  return (EDITABLE_ROLES as readonly string[]).includes(role) ? mapping[role as EditableRole] : [];
+}
+
+// how a user relates to a book; the server adds it to book responses as `myAccess`
+export type BookAccess = "owner" | "editor" | "viewer";
+
+/** Whether `.own` covers a book for `action`: its owner, or an editor for edits. */
+export const ownsForAction = (action: ScopedAction, access: BookAccess | null | undefined) =>
+  access === "owner" || (action === "books.edit" && access === "editor");
+
+/** `.any`, or `.own` when the record belongs to the user. */
+export const canActOn = (granted: readonly string[], action: ScopedAction, isOwner: boolean) =>
+  granted.includes(`${action}.any`) || (isOwner && granted.includes(`${action}.own`));
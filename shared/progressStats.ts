@@ -0,0 +1,144 @@
+// shared/progressStats.ts
+
+/**
+ * Reading progress and quiz statistics.
+ *
+ * Used by the student progress page and the parent portal (through
+ * client/src/lib/progressStats.ts) and by the server for printed report cards:
+ * all of them read the same progress rows and quiz attempts, so totals must be
+ * computed the same way. Kept free of Node and DOM imports.
+ */
+
+export type QuizAttempt = {
+  userId: number;
+  bookId: number;
+  pageId?: number | null;
+  scoreCorrect?: number | null;
+  scoreTotal?: number | null;
+  percentage?: number | null;
+  mode?: "retry" | "straight" | string;
+  attemptNumber?: number | null;
+  durationSec?: number | null;
+  createdAt?: string;
+};
+
+export type QuizSession = {
+  bookId: number;
+  startAt: number;
+  endAt: number;
+  totalCorrect: number;
+  totalTotal: number;
+  percentage: number;
+  mode: "retry" | "straight";
+};
+
+// attempts closer together than this belong to one quiz sitting
+const SESSION_GAP_SEC = 120;
+
+/** Latest progress row per book. */
+export const getUniqueProgress = (arr: any[]) => {
+  if (!arr) return [];
+  return arr.reduce((unique: any[], p: any) => {
+    const i = unique.findIndex((x) => x.bookId === p.bookId);
+    if (i === -1) unique.push(p);
+    else if (new Date(p.lastReadAt) > new Date(unique[i].lastReadAt)) unique[i] = p;
+    return unique;
+  }, []);
+};
+
+/** 3725 -> "1:02:05" */
+export const formatReadingTime = (totalSeconds: number) => {
+  if (!totalSeconds || totalSeconds === 0) return "0:00:00";
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  return `${h}:${m.toString().padStart(2, "0")}:${s.toString().padStart(2, "0")}`;
+};
+
+const ts = (a: QuizAttempt) => (a.createdAt ? new Date(a.createdAt).getTime() : 0);
+
+function groupIntoSessions(list: QuizAttempt[], gapSec = SESSION_GAP_SEC): QuizSession[] {
+  const out: QuizSession[] = [];
+  let cur: QuizSession | null = null;
+  for (const a of list) {
+    const time = ts(a);
+    const corr = Number(a.scoreCorrect ?? 0);
+    const tot = Number(a.scoreTotal ?? 0);
+    const mode = a.mode === "straight" ? "straight" : "retry";
+    if (!cur || time - cur.endAt > gapSec * 1000) {
+      cur = {
+        bookId: a.bookId,
+        startAt: time,
+        endAt: time,
+        totalCorrect: 0,
+        totalTotal: 0,
+        percentage: 0,
+        mode,
+      };
+      out.push(cur);
+    } else {
+      cur.endAt = time;
+    }
+    cur.totalCorrect += corr;
+    cur.totalTotal += tot;
+    cur.percentage = cur.totalTotal > 0 ? Math.round((cur.totalCorrect / cur.totalTotal) * 100) : 0;
+    if (mode === "straight") cur.mode = "straight";
+  }
+  return out;
+}
+
+/** Quiz sittings for one book, oldest first. */
+export function quizSessionsForBook(attempts: QuizAttempt[], bookId: number) {
+  const list = attempts.filter((a) => a.bookId === bookId).sort((a, b) => ts(a) - ts(b));
+  return groupIntoSessions(list);
+}
+
+/** Most recent quiz sitting for a book, or null. */
+export function latestQuizSession(attempts: QuizAttempt[], bookId: number) {
+  const sessions = quizSessionsForBook(attempts, bookId);
+  return sessions.length ? sessions[sessions.length - 1] : null;
+}
+
+/** Every quiz sitting, grouped per student and book. */
+export function allQuizSessions(attempts: QuizAttempt[]) {
+  const byKey = new Map<string, QuizAttempt[]>();
+  for (const a of attempts) {
+    const key = `${a.userId}:${a.bookId}`;
+    const arr = byKey.get(key) ?? [];
+    arr.push(a);
+    byKey.set(key, arr);
+  }
+  const sessions: QuizSession[] = [];
+  byKey.forEach((arr) => {
+    const sorted = arr.slice().sort((a: QuizAttempt, b: QuizAttempt) => ts(a) - ts(b));
+    sessions.push(...groupIntoSessions(sorted));
+  });
+  return sessions;
+}
+
+/** Average score across all quiz sittings, or null when there are none. */
+export function averageQuizPercentage(attempts: QuizAttempt[]) {
+  const sessions = allQuizSessions(attempts);
+  if (sessions.length === 0) return null;
+  const sum = sessions.reduce((s, x) => s + x.percentage, 0);
+  return Math.round(sum / sessions.length);
+}
+
+/** Books completed / in progress, total reading seconds and completion rate. */
+export function readingStats(progress: any[] | undefined) {
+  if (!progress) {
+    return { booksCompleted: 0, booksInProgress: 0, totalReadingTime: 0, completionRate: 0 };
+  }
+  const unique = getUniqueProgress(progress);
+  const completed = unique.filter((p: any) => p.percentComplete === 100).length;
+  const inProgress = unique.filter((p: any) => p.percentComplete > 0 && p.percentComplete < 100).length;
+  const totalSeconds = unique.reduce((sum: number, p: any) => sum + (p.totalReadingTime || 0), 0);
+  const totalStarted = completed + inProgress;
+  const completionRate = totalStarted > 0 ? Math.round((completed / totalStarted) * 100) : 0;
+  return {
+    booksCompleted: completed,
+    booksInProgress: inProgress,
+    totalReadingTime: totalSeconds,
+    completionRate,
+  };
+}
@@ -17,11 +17,13 @@ import { relations } from "drizzle-orm";
 // add these
 import { uniqueIndex } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
+import { PASSWORD_HISTORY_MAX, PASSWORD_MAX_AGE_DAYS_MAX, PASSWORD_MIN_LENGTH_RANGE } from "./passwordPolicy";
+import type { RolePermissions } from "./permissions";
 
 /* =========================
    ENUMS
 ========================= */
-export const userRoleEnum = pgEnum("user_role", ["admin", "student", "teacher"]);
+export const userRoleEnum = pgEnum("user_role", ["admin", "student", "teacher", "parent"]);
 export const bookTypeEnum = pgEnum("book_type", ["storybook", "educational"]);
 export const approvalStatusEnum = pgEnum("approval_status", ["pending", "approved", "rejected"]);
 export const gradeLevelEnum = pgEnum("grade_level", ["K", "1", "2", "3", "4", "5", "6"]);
@@ -33,6 +35,23 @@ export const badgeAwardMethodEnum = pgEnum("badge_award_method", [
   "manual",                // teacher/admin awards manually
 ]);
 
+/* =========================
+   CLASS SIGN-IN (K–2)
+========================= */
+export const CLASS_LOGIN_KINDS = ["pictures", "pin"] as const;
+export type ClassLoginKind = (typeof CLASS_LOGIN_KINDS)[number];
+
+// Grades that may use picture/PIN sign-in
+export const CLASS_LOGIN_GRADES = ["K", "1", "2"] as const;
+
+// Picture alphabet for picture passwords (a sequence of CLASS_LOGIN_PICTURE_COUNT of these)
+export const CLASS_LOGIN_PICTURES = [
+  "cat", "dog", "fish", "bird", "sun", "moon",
+  "star", "tree", "flower", "apple", "ball", "car",
+] as const;
+export const CLASS_LOGIN_PICTURE_COUNT = 4;
+export const CLASS_LOGIN_PIN_LENGTH = 4;
+
 /* =========================
    USERS
 ========================= */
@@ -67,18 +86,214 @@ export const users = pgTable(
 
     passwordChangedAt: timestamp("password_changed_at"),
 
+    // TOTP 2FA: secret is AES-GCM encrypted, recovery codes are sha256 hashes
+    twoFactorEnabled: boolean("two_factor_enabled").notNull().default(false),
+    twoFactorSecret: text("two_factor_secret"),
+    twoFactorRecoveryCodes: json("two_factor_recovery_codes").$type<string[] | null>().default(null),
+    twoFactorLastStep: integer("two_factor_last_step"), // last accepted TOTP step (replay guard)
+
+    // Class sign-in for early grades: picture sequence or short PIN (bcrypt hash),
+    // with its own attempt counter/lockout separate from the password login
+    classLoginKind: varchar("class_login_kind", { length: 10 }).$type<ClassLoginKind>(),
+    classLoginSecret: text("class_login_secret"),
+    classLoginAttempts: integer("class_login_attempts").notNull().default(0),
+    classLoginLockedUntil: timestamp("class_login_locked_until"),
+
+    // Soft delete: set when the user deletes their account; purged after purgeAfter
+    deletedAt: timestamp("deleted_at"),
+    purgeAfter: timestamp("purge_after"),
+
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
   (t) => ({
     // Case-insensitive uniqueness
     emailLowerIdx: uniqueIndex("users_email_lower_idx").on(sql`lower(${t.email})`),
     usernameLowerIdx: uniqueIndex("users_username_lower_idx").on(sql`lower(${t.username})`),
+    idx_users_purge_after: index("idx_users_purge_after").on(t.purgeAfter),
+  })
+);
+
+/* =========================
+   USER SESSIONS (one row per issued JWT)
+========================= */
+export const userSessions = pgTable(
+  "user_sessions",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").references(() => users.id).notNull(),
+    // random id embedded in the JWT as `sid`; revoking the row kills the token
+    sessionId: varchar("session_id", { length: 64 }).notNull(),
+    userAgent: text("user_agent"),
+    ipAddress: varchar("ip_address", { length: 100 }),
+    // set when an admin is viewing the app as this user ("view as user")
+    impersonatorId: integer("impersonator_id").references(() => users.id),
+    // sliding sessions: refreshed on activity, idle past sessionTimeoutMinutes = signed out
+    lastActiveAt: timestamp("last_active_at").defaultNow().notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+    revokedAt: timestamp("revoked_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    uniq_session_id: uniqueIndex("uniq_session_id").on(t.sessionId),
+    idx_user_sessions_user: index("idx_user_sessions_user").on(t.userId),
+  })
+);
+
+/* =========================
+   HTTP SESSIONS (connect-pg-simple store behind the httpOnly session cookie)
+========================= */
+// layout expected by connect-pg-simple; the session data holds the JWT so
+// browsers never see it (see server/utils/cookieSession.ts)
+export const httpSessions = pgTable(
+  "http_sessions",
+  {
+    sid: varchar("sid").primaryKey(),
+    sess: json("sess").notNull(),
+    expire: timestamp("expire", { precision: 6 }).notNull(),
+  },
+  (t) => ({
+    idx_http_sessions_expire: index("idx_http_sessions_expire").on(t.expire),
+  })
+);
+
+/* =========================
+   RATE LIMIT BUCKETS (shared counters for server/utils/rateLimit.ts)
+========================= */
+// one row per limiter + client key; survives restarts and is shared by every
+// server process. Expired rows are reset on the next hit and pruned lazily.
+export const rateLimitBuckets = pgTable(
+  "rate_limit_buckets",
+  {
+    // "<policy>:<client key>", e.g. "login:203.0.113.5::ana@school.ph"
+    key: varchar("key", { length: 400 }).primaryKey(),
+    policy: varchar("policy", { length: 50 }).notNull(),
+    count: integer("count").default(0).notNull(),
+    max: integer("max").notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+  },
+  (t) => ({
+    idx_rate_limit_buckets_expires: index("idx_rate_limit_buckets_expires").on(t.expiresAt),
+  })
+);
+
+/* =========================
+   AUTH EVENTS (sign-in / password activity log)
+========================= */
+export const AUTH_EVENT_TYPES = [
+  "login",
+  "login_failed",
+  "lockout",
+  "logout",
+  "session_timeout",
+  "password_changed",
+  "password_change_failed",
+  "password_reset_requested",
+  "password_reset",
+  "email_verification_sent",
+  "email_verified",
+  "two_factor_enabled",
+  "two_factor_disabled",
+  "two_factor_failed",
+  "recovery_code_used",
+  "impersonation_started",
+  "impersonation_ended",
+  "reset_code_issued",
+  "reset_code_redeemed",
+  "reset_code_failed",
+] as const;
+export type AuthEventType = (typeof AUTH_EVENT_TYPES)[number];
+
+export const authEvents = pgTable(
+  "auth_events",
+  {
+    id: serial("id").primaryKey(),
+    // null when the attempt did not match an account (e.g. unknown email)
+    userId: integer("user_id").references(() => users.id),
+    // identifier the request was made with (email or username)
+    identifier: text("identifier"),
+    type: varchar("type", { length: 40 }).$type<AuthEventType>().notNull(),
+    ipAddress: varchar("ip_address", { length: 100 }),
+    userAgent: text("user_agent"),
+    metadata: json("metadata").$type<Record<string, unknown> | null>().default(null),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    idx_auth_events_user_time: index("idx_auth_events_user_time").on(t.userId, t.createdAt),
+    idx_auth_events_type_time: index("idx_auth_events_type_time").on(t.type, t.createdAt),
+  })
+);
+
+/* =========================
+   PASSWORD HISTORY (previous hashes, for the "no reuse of the last N" rule)
+========================= */
+export const passwordHistory = pgTable(
+  "password_history",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").references(() => users.id).notNull(),
+    passwordHash: text("password_hash").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    idx_password_history_user: index("idx_password_history_user").on(t.userId, t.createdAt),
+  })
+);
+
+/* =========================
+   STUDENT RESET CODES (teacher-issued, single use)
+========================= */
+// Lets a student without reliable email set a new password; only the sha256 of the code is stored
+export const studentResetCodes = pgTable(
+  "student_reset_codes",
+  {
+    id: serial("id").primaryKey(),
+    studentId: integer("student_id").references(() => users.id).notNull(),
+    createdById: integer("created_by_id").references(() => users.id).notNull(),
+    codeHash: varchar("code_hash", { length: 64 }).notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+    usedAt: timestamp("used_at"),
+    revokedAt: timestamp("revoked_at"), // replaced by a newer code or too many wrong guesses
+    failedAttempts: integer("failed_attempts").notNull().default(0),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    idx_student_reset_codes_student: index("idx_student_reset_codes_student").on(t.studentId, t.createdAt),
+  })
+);
+
+/* =========================
+   IMPERSONATION AUDIT ("view as user")
+========================= */
+// One row per request made with an impersonation token, attributed to the admin
+export const impersonationActions = pgTable(
+  "impersonation_actions",
+  {
+    id: serial("id").primaryKey(),
+    adminId: integer("admin_id").references(() => users.id).notNull(),
+    targetUserId: integer("target_user_id").references(() => users.id).notNull(),
+    sessionId: varchar("session_id", { length: 64 }).notNull(),
+    method: varchar("method", { length: 10 }).notNull(),
+    path: text("path").notNull(),
+    statusCode: integer("status_code"),
+    blocked: boolean("blocked").notNull().default(false),
+    ipAddress: varchar("ip_address", { length: 100 }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    idx_impersonation_admin_time: index("idx_impersonation_admin_time").on(t.adminId, t.createdAt),
+    idx_impersonation_target_time: index("idx_impersonation_target_time").on(t.targetUserId, t.createdAt),
   })
 );
 
 /* =========================
    BOOKS
 ========================= */
+// draft → in_review (a teacher submits it) → published (approved, or published
+// directly by a publisher) → archived. Students only see published books whose
+// publishAt has passed (server/utils/bookPublishing.ts).
+export const BOOK_STATUSES = ["draft", "in_review", "published", "archived"] as const;
+export type BookStatus = (typeof BOOK_STATUSES)[number];
+
 export const books = pgTable(
   "books",
   {
@@ -100,15 +315,79 @@ export const books = pgTable(
     quizMode: quizModeEnum("quiz_mode").notNull().default("retry"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     addedById: integer("added_by_id").references(() => users.id),
+    // the default keeps books from before the workflow live; new books are created as drafts
+    status: varchar("status", { length: 20 }).$type<BookStatus>().notNull().default("published"),
+    publishAt: timestamp("publish_at"), // scheduled: published but hidden until then; null = right away
+    publishedAt: timestamp("published_at"),
+    submittedAt: timestamp("submitted_at"), // last sent for review
+    // Trash: set on delete; restorable until purgeAfter (server/utils/bookTrash.ts)
+    deletedAt: timestamp("deleted_at"),
+    deletedById: integer("deleted_by_id").references(() => users.id),
+    purgeAfter: timestamp("purge_after"),
   },
   (t) => ({
-    // Case-insensitive uniqueness on title + grade + subject
-    uniq_title_grade_subject_ci: uniqueIndex("uniq_title_grade_subject_ci").on(
-      sql`lower(${t.title})`,
-      sql`coalesce(${t.grade}, '')`,
-      sql`coalesce(${t.subject}, '')`
-    ),
-    uniq_slug: uniqueIndex("uniq_slug").on(t.slug),
+    idx_books_status: index("idx_books_status").on(t.status),
+    idx_books_purge_after: index("idx_books_purge_after").on(t.purgeAfter),
+    // Case-insensitive uniqueness on title + grade + subject (books in the trash don't count)
+    uniq_title_grade_subject_ci: uniqueIndex("uniq_title_grade_subject_ci")
+      .on(sql`lower(${t.title})`, sql`coalesce(${t.grade}, '')`, sql`coalesce(${t.subject}, '')`)
+      .where(sql`deleted_at is null`),
+    uniq_slug: uniqueIndex("uniq_slug").on(t.slug).where(sql`deleted_at is null`),
+  })
+);
+
+/* =========================
+   BOOK COLLABORATORS (co-authors a book is shared with)
+========================= */
+// editors change the book like its owner (not delete it); viewers only see it
+export const BOOK_COLLABORATOR_ROLES = ["editor", "viewer"] as const;
+export type BookCollaboratorRole = (typeof BOOK_COLLABORATOR_ROLES)[number];
+
+export const bookCollaborators = pgTable(
+  "book_collaborators",
+  {
+    id: serial("id").primaryKey(),
+    bookId: integer("book_id").references(() => books.id).notNull(),
+    userId: integer("user_id").references(() => users.id).notNull(),
+    role: varchar("role", { length: 10 }).$type<BookCollaboratorRole>().notNull().default("viewer"),
+    addedById: integer("added_by_id").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    uniq_book_collaborator: uniqueIndex("uniq_book_collaborator").on(t.bookId, t.userId),
+    idx_book_collaborators_user: index("idx_book_collaborators_user").on(t.userId),
+  })
+);
+
+/* =========================
+   BOOK REVIEWS (publishing history and review comments)
+========================= */
+export const BOOK_REVIEW_ACTIONS = [
+  "submitted",
+  "withdrawn",
+  "approved",
+  "rejected",
+  "published",
+  "archived",
+  "restored",
+  "commented",
+] as const;
+export type BookReviewAction = (typeof BOOK_REVIEW_ACTIONS)[number];
+
+// One row per status change or comment, oldest first on the book page
+export const bookReviewEvents = pgTable(
+  "book_review_events",
+  {
+    id: serial("id").primaryKey(),
+    bookId: integer("book_id").references(() => books.id).notNull(),
+    userId: integer("user_id").references(() => users.id), // null once the account is deleted
+    action: varchar("action", { length: 20 }).$type<BookReviewAction>().notNull(),
+    comment: text("comment"),
+    publishAt: timestamp("publish_at"), // schedule asked for (submitted) or set (approved / published)
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    idx_book_review_events_book: index("idx_book_review_events_book").on(t.bookId, t.createdAt),
   })
 );
 
@@ -126,6 +405,7 @@ export const progress = pgTable(
     // Store SECONDS here for precision; keep the column name for now
     totalReadingTime: integer("total_reading_time").default(0),
     lastReadAt: timestamp("last_read_at").defaultNow(),
+    completedAt: timestamp("completed_at"), // first time percentComplete reached 100 (server/utils/progress.ts)
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
   (t) => ({
@@ -181,25 +461,43 @@ export const pages = pgTable(
     audioPublicId: varchar("audio_public_id", { length: 191 }),
     shuffleQuestions: boolean("shuffle_questions").notNull().default(false),
     createdAt: timestamp("created_at").defaultNow().notNull(),
+    // Trash (see books)
+    deletedAt: timestamp("deleted_at"),
+    deletedById: integer("deleted_by_id").references(() => users.id),
+    purgeAfter: timestamp("purge_after"),
   },
   (t) => ({
-    uniq_book_page_number: uniqueIndex("uniq_book_page_number").on(t.bookId, t.pageNumber),
+    // a page in the trash keeps its number free for a new page
+    uniq_book_page_number: uniqueIndex("uniq_book_page_number")
+      .on(t.bookId, t.pageNumber)
+      .where(sql`deleted_at is null`),
     idx_pages_book: index("idx_pages_book").on(t.bookId),
+    idx_pages_purge_after: index("idx_pages_purge_after").on(t.purgeAfter),
   })
 );
 
 /* =========================
    QUESTIONS
 ========================= */
-export const questions = pgTable("questions", {
-  id: serial("id").primaryKey(),
-  pageId: integer("page_id").references(() => pages.id).notNull(),
-  questionText: text("question_text").notNull(),
-  answerType: text("answer_type").default("text").notNull(), // "text" | "multiple_choice"
-  correctAnswer: text("correct_answer"),
-  options: text("options"),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+export const questions = pgTable(
+  "questions",
+  {
+    id: serial("id").primaryKey(),
+    pageId: integer("page_id").references(() => pages.id).notNull(),
+    questionText: text("question_text").notNull(),
+    answerType: text("answer_type").default("text").notNull(), // "text" | "multiple_choice"
+    correctAnswer: text("correct_answer"),
+    options: text("options"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    // Trash (see books)
+    deletedAt: timestamp("deleted_at"),
+    deletedById: integer("deleted_by_id").references(() => users.id),
+    purgeAfter: timestamp("purge_after"),
+  },
+  (t) => ({
+    idx_questions_purge_after: index("idx_questions_purge_after").on(t.purgeAfter),
+  })
+);
 
 /* =========================
    QUIZ ATTEMPTS
@@ -265,7 +563,20 @@ export const systemSettings = pgTable("system_settings", {
   autoApproveStudents: boolean("auto_approve_students").default(false).notNull(),
   sessionTimeoutMinutes: integer("session_timeout_minutes").default(60).notNull(),
   maxLoginAttempts: integer("max_login_attempts").default(5).notNull(),
-  requireStrongPasswords: boolean("require_strong_passwords").default(false).notNull(),
+  // password policy (rules in shared/passwordPolicy.ts)
+  passwordMinLength: integer("password_min_length").default(8).notNull(),
+  passwordRequireUpper: boolean("password_require_upper").default(false).notNull(),
+  passwordRequireLower: boolean("password_require_lower").default(false).notNull(),
+  passwordRequireNumber: boolean("password_require_number").default(false).notNull(),
+  passwordRequireSymbol: boolean("password_require_symbol").default(false).notNull(),
+  passwordHistoryCount: integer("password_history_count").default(0).notNull(), // 0 = reuse allowed
+  passwordMaxAgeDays: integer("password_max_age_days").default(0).notNull(), // 0 = never expires
+  passwordBlocklist: text("password_blocklist"), // one entry per line
+  accountDeletionGraceDays: integer("account_deletion_grace_days").default(30).notNull(),
+  trashRetentionDays: integer("trash_retention_days").default(30).notNull(), // deleted books/pages/questions
+  requireAdminTwoFactor: boolean("require_admin_two_factor").default(false).notNull(),
+  // per-role permission lists (shared/permissions.ts); null / missing role = defaults
+  rolePermissions: json("role_permissions").$type<Partial<RolePermissions>>(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -279,10 +590,249 @@ export const teachingSettings = pgTable("teaching_settings", {
   preferredGrades: json("preferred_grades").$type<string[]>().notNull(),
   subjects: json("subjects").$type<string[]>().notNull(),
   maxClassSize: integer("max_class_size").notNull().default(30),
+  // shared-device class sign-in (picture/PIN); null = disabled
+  classSignInCode: varchar("class_sign_in_code", { length: 16 }).unique(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+/* =========================
+   CLASSES & SECTIONS
+========================= */
+// A section for one school year ("2026-2027"), taught by one or more teachers
+export const classes = pgTable(
+  "classes",
+  {
+    id: serial("id").primaryKey(),
+    name: text("name").notNull(), // e.g. "Grade 3 - Sampaguita"
+    gradeLevel: gradeLevelEnum("grade_level").notNull(),
+    schoolYear: varchar("school_year", { length: 9 }).notNull(),
+    createdById: integer("created_by_id").references(() => users.id),
+    archivedAt: timestamp("archived_at"), // archived classes keep their roster but no longer scope anything
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    idx_classes_school_year: index("idx_classes_school_year").on(t.schoolYear),
+  })
+);
+
+export const classTeachers = pgTable(
+  "class_teachers",
+  {
+    id: serial("id").primaryKey(),
+    classId: integer("class_id").references(() => classes.id).notNull(),
+    teacherId: integer("teacher_id").references(() => users.id).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    uniq_class_teacher: uniqueIndex("uniq_class_teacher").on(t.classId, t.teacherId),
+    idx_class_teachers_teacher: index("idx_class_teachers_teacher").on(t.teacherId),
+  })
+);
+
+// Roster; size capped by the teachers' teachingSettings.maxClassSize
+export const classStudents = pgTable(
+  "class_students",
+  {
+    id: serial("id").primaryKey(),
+    classId: integer("class_id").references(() => classes.id).notNull(),
+    studentId: integer("student_id").references(() => users.id).notNull(),
+    addedById: integer("added_by_id").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    uniq_class_student: uniqueIndex("uniq_class_student").on(t.classId, t.studentId),
+    idx_class_students_student: index("idx_class_students_student").on(t.studentId),
+  })
+);
+
+/* =========================
+   CLASS JOIN CODES & ENROLLMENTS
+========================= */
+// Teacher-issued codes; a student registering with one is auto-approved and enrolled
+export const classJoinCodes = pgTable(
+  "class_join_codes",
+  {
+    id: serial("id").primaryKey(),
+    code: varchar("code", { length: 16 }).notNull(), // normalized: uppercase, no dashes
+    teacherId: integer("teacher_id").references(() => users.id).notNull(),
+    gradeLevel: gradeLevelEnum("grade_level").notNull(),
+    label: text("label"), // e.g. "Grade 3 - Section Sampaguita"
+    classId: integer("class_id").references(() => classes.id), // students who join are added to this class
+    maxUses: integer("max_uses"), // null = unlimited
+    usesCount: integer("uses_count").notNull().default(0),
+    expiresAt: timestamp("expires_at").notNull(),
+    revokedAt: timestamp("revoked_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    uniq_class_join_code: uniqueIndex("uniq_class_join_code").on(t.code),
+    idx_class_join_codes_teacher: index("idx_class_join_codes_teacher").on(t.teacherId),
+  })
+);
+
+// Which students are enrolled with which teacher
+export const studentEnrollments = pgTable(
+  "student_enrollments",
+  {
+    id: serial("id").primaryKey(),
+    teacherId: integer("teacher_id").references(() => users.id).notNull(),
+    studentId: integer("student_id").references(() => users.id).notNull(),
+    joinCodeId: integer("join_code_id").references(() => classJoinCodes.id), // how they joined (optional)
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    uniq_teacher_student: uniqueIndex("uniq_teacher_student").on(t.teacherId, t.studentId),
+    idx_student_enrollments_student: index("idx_student_enrollments_student").on(t.studentId),
+  })
+);
+
+/* =========================
+   PARENTS / GUARDIANS
+========================= */
+// Single-use code a teacher/admin hands to a family to link a parent account to a student
+export const parentInviteCodes = pgTable(
+  "parent_invite_codes",
+  {
+    id: serial("id").primaryKey(),
+    code: varchar("code", { length: 16 }).notNull(), // normalized: uppercase, no dashes
+    studentId: integer("student_id").references(() => users.id).notNull(),
+    createdById: integer("created_by_id").references(() => users.id).notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+    usedAt: timestamp("used_at"),
+    usedById: integer("used_by_id").references(() => users.id), // the parent who redeemed it
+    revokedAt: timestamp("revoked_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    uniq_parent_invite_code: uniqueIndex("uniq_parent_invite_code").on(t.code),
+    idx_parent_invite_codes_student: index("idx_parent_invite_codes_student").on(t.studentId),
+  })
+);
+
+// Which parent accounts may follow which students (read-only)
+export const parentStudentLinks = pgTable(
+  "parent_student_links",
+  {
+    id: serial("id").primaryKey(),
+    parentId: integer("parent_id").references(() => users.id).notNull(),
+    studentId: integer("student_id").references(() => users.id).notNull(),
+    inviteCodeId: integer("invite_code_id").references(() => parentInviteCodes.id),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    uniq_parent_student: uniqueIndex("uniq_parent_student").on(t.parentId, t.studentId),
+    idx_parent_student_links_student: index("idx_parent_student_links_student").on(t.studentId),
+  })
+);
+
+/* =========================
+   ASSIGNMENTS
+========================= */
+// per student and book, from progress and quiz attempts; "late" = past due and not done
+export const ASSIGNMENT_STATUSES = ["not_started", "in_progress", "done", "late"] as const;
+export type AssignmentStatus = (typeof ASSIGNMENT_STATUSES)[number];
+
+// Books a teacher asks a class and/or individual students to read
+export const assignments = pgTable(
+  "assignments",
+  {
+    id: serial("id").primaryKey(),
+    title: text("title"),
+    note: text("note"),
+    createdById: integer("created_by_id").references(() => users.id),
+    classId: integer("class_id").references(() => classes.id), // whole roster (as it is when viewed)
+    dueAt: timestamp("due_at"),
+    minPercent: integer("min_percent").notNull().default(100), // progress.percentComplete needed
+    minQuizScore: integer("min_quiz_score"), // best quiz percentage needed; null = no quiz requirement
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    idx_assignments_class: index("idx_assignments_class").on(t.classId),
+    idx_assignments_created_by: index("idx_assignments_created_by").on(t.createdById),
+  })
+);
+
+export const assignmentBooks = pgTable(
+  "assignment_books",
+  {
+    id: serial("id").primaryKey(),
+    assignmentId: integer("assignment_id").references(() => assignments.id).notNull(),
+    bookId: integer("book_id").references(() => books.id).notNull(),
+  },
+  (t) => ({
+    uniq_assignment_book: uniqueIndex("uniq_assignment_book").on(t.assignmentId, t.bookId),
+    idx_assignment_books_book: index("idx_assignment_books_book").on(t.bookId),
+  })
+);
+
+// Students assigned individually (in addition to the class roster, if any)
+export const assignmentStudents = pgTable(
+  "assignment_students",
+  {
+    id: serial("id").primaryKey(),
+    assignmentId: integer("assignment_id").references(() => assignments.id).notNull(),
+    studentId: integer("student_id").references(() => users.id).notNull(),
+  },
+  (t) => ({
+    uniq_assignment_student: uniqueIndex("uniq_assignment_student").on(t.assignmentId, t.studentId),
+    idx_assignment_students_student: index("idx_assignment_students_student").on(t.studentId),
+  })
+);
+
+/* =========================
+   ANNOUNCEMENTS
+========================= */
+// who sees an announcement: everyone, one role, one grade (students) or one class (roster + teachers)
+export const ANNOUNCEMENT_AUDIENCES = ["school", "role", "grade", "class"] as const;
+export type AnnouncementAudience = (typeof ANNOUNCEMENT_AUDIENCES)[number];
+
+// "maintenance" ones also replace the message on the maintenance page while it is up
+export const ANNOUNCEMENT_KINDS = ["general", "maintenance"] as const;
+export type AnnouncementKind = (typeof ANNOUNCEMENT_KINDS)[number];
+
+// Notices from admins (any audience) and teachers (their classes)
+export const announcements = pgTable(
+  "announcements",
+  {
+    id: serial("id").primaryKey(),
+    title: varchar("title", { length: 200 }).notNull(),
+    body: text("body").notNull(), // light markdown: **bold**, *italic*, [links](https://...), "- " lists
+    kind: varchar("kind", { length: 20 }).$type<AnnouncementKind>().notNull().default("general"),
+    audience: varchar("audience", { length: 10 }).$type<AnnouncementAudience>().notNull().default("school"),
+    audienceRole: userRoleEnum("audience_role"), // audience = "role"
+    audienceGrade: gradeLevelEnum("audience_grade"), // audience = "grade"
+    audienceClassId: integer("audience_class_id").references(() => classes.id), // audience = "class"
+    pinned: boolean("pinned").notNull().default(false),
+    publishAt: timestamp("publish_at").defaultNow().notNull(), // hidden until then
+    expiresAt: timestamp("expires_at"), // null = until deleted
+    createdById: integer("created_by_id").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    idx_announcements_publish: index("idx_announcements_publish").on(t.publishAt),
+    idx_announcements_class: index("idx_announcements_class").on(t.audienceClassId),
+  })
+);
+
+// Per-user read receipts
+export const announcementReads = pgTable(
+  "announcement_reads",
+  {
+    id: serial("id").primaryKey(),
+    announcementId: integer("announcement_id").references(() => announcements.id).notNull(),
+    userId: integer("user_id").references(() => users.id).notNull(),
+    readAt: timestamp("read_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    uniq_announcement_read: uniqueIndex("uniq_announcement_read").on(t.announcementId, t.userId),
+    idx_announcement_reads_user: index("idx_announcement_reads_user").on(t.userId),
+  })
+);
+
 /* =========================
    BADGES
 ========================= */
@@ -375,6 +925,49 @@ export const usersRelations = relations(users, ({ many }) => ({
   earnedBadges: many(earnedBadges, { relationName: "earnedBy" }),
   // checkpoints
   storyCheckpoints: many(storyCheckpoints),
+  sessions: many(userSessions),
+  authEvents: many(authEvents),
+  passwordHistory: many(passwordHistory),
+  impersonationsPerformed: many(impersonationActions, { relationName: "impersonationAdmin" }),
+  impersonationsReceived: many(impersonationActions, { relationName: "impersonationTarget" }),
+  // teacher side / student side of enrollments
+  enrolledStudents: many(studentEnrollments, { relationName: "enrolledTeacher" }),
+  enrollments: many(studentEnrollments, { relationName: "enrolledStudent" }),
+  joinCodes: many(classJoinCodes),
+  // parent side / student side of parent links
+  children: many(parentStudentLinks, { relationName: "linkedParent" }),
+  parents: many(parentStudentLinks, { relationName: "linkedStudent" }),
+}));
+
+export const bookCollaboratorsRelations = relations(bookCollaborators, ({ one }) => ({
+  book: one(books, { fields: [bookCollaborators.bookId], references: [books.id] }),
+  user: one(users, { fields: [bookCollaborators.userId], references: [users.id] }),
+  addedBy: one(users, { fields: [bookCollaborators.addedById], references: [users.id] }),
+}));
+
+export const userSessionsRelations = relations(userSessions, ({ one }) => ({
+  user: one(users, { fields: [userSessions.userId], references: [users.id] }),
+}));
+
+export const impersonationActionsRelations = relations(impersonationActions, ({ one }) => ({
+  admin: one(users, {
+    fields: [impersonationActions.adminId],
+    references: [users.id],
+    relationName: "impersonationAdmin",
+  }),
+  target: one(users, {
+    fields: [impersonationActions.targetUserId],
+    references: [users.id],
+    relationName: "impersonationTarget",
+  }),
+}));
+
+export const authEventsRelations = relations(authEvents, ({ one }) => ({
+  user: one(users, { fields: [authEvents.userId], references: [users.id] }),
+}));
+
+export const passwordHistoryRelations = relations(passwordHistory, ({ one }) => ({
+  user: one(users, { fields: [passwordHistory.userId], references: [users.id] }),
 }));
 
 export const booksRelations = relations(books, ({ many, one }) => ({
@@ -388,9 +981,12 @@ export const booksRelations = relations(books, ({ many, one }) => ({
     references: [users.id],
     relationName: "addedBooks",
   }),
+  deletedBy: one(users, { fields: [books.deletedById], references: [users.id], relationName: "deletedBooks" }),
   bookBadges: many(bookBadges),
   earnedBadges: many(earnedBadges),
   storyCheckpoints: many(storyCheckpoints),
+  collaborators: many(bookCollaborators),
+  reviewEvents: many(bookReviewEvents),
 }));
 
 export const progressRelations = relations(progress, ({ one }) => ({
@@ -407,10 +1003,12 @@ export const pagesRelations = relations(pages, ({ one, many }) => ({
   book: one(books, { fields: [pages.bookId], references: [books.id] }),
   questions: many(questions),
   quizAttempts: many(quizAttempts),
+  deletedBy: one(users, { fields: [pages.deletedById], references: [users.id] }),
 }));
 
 export const questionsRelations = relations(questions, ({ one }) => ({
   page: one(pages, { fields: [questions.pageId], references: [pages.id] }),
+  deletedBy: one(users, { fields: [questions.deletedById], references: [users.id] }),
 }));
 
 export const chaptersRelations = relations(chapters, ({ one }) => ({
@@ -426,6 +1024,104 @@ export const teachingSettingsRelations = relations(teachingSettings, ({ one }) =
   user: one(users, { fields: [teachingSettings.userId], references: [users.id] }),
 }));
 
+export const classesRelations = relations(classes, ({ one, many }) => ({
+  createdBy: one(users, { fields: [classes.createdById], references: [users.id] }),
+  teachers: many(classTeachers),
+  students: many(classStudents),
+  joinCodes: many(classJoinCodes),
+}));
+
+export const classTeachersRelations = relations(classTeachers, ({ one }) => ({
+  class: one(classes, { fields: [classTeachers.classId], references: [classes.id] }),
+  teacher: one(users, { fields: [classTeachers.teacherId], references: [users.id] }),
+}));
+
+export const classStudentsRelations = relations(classStudents, ({ one }) => ({
+  class: one(classes, { fields: [classStudents.classId], references: [classes.id] }),
+  student: one(users, { fields: [classStudents.studentId], references: [users.id] }),
+  addedBy: one(users, { fields: [classStudents.addedById], references: [users.id] }),
+}));
+
+export const assignmentsRelations = relations(assignments, ({ one, many }) => ({
+  createdBy: one(users, { fields: [assignments.createdById], references: [users.id] }),
+  class: one(classes, { fields: [assignments.classId], references: [classes.id] }),
+  books: many(assignmentBooks),
+  students: many(assignmentStudents),
+}));
+
+export const assignmentBooksRelations = relations(assignmentBooks, ({ one }) => ({
+  assignment: one(assignments, { fields: [assignmentBooks.assignmentId], references: [assignments.id] }),
+  book: one(books, { fields: [assignmentBooks.bookId], references: [books.id] }),
+}));
+
+export const assignmentStudentsRelations = relations(assignmentStudents, ({ one }) => ({
+  assignment: one(assignments, { fields: [assignmentStudents.assignmentId], references: [assignments.id] }),
+  student: one(users, { fields: [assignmentStudents.studentId], references: [users.id] }),
+}));
+
+export const bookReviewEventsRelations = relations(bookReviewEvents, ({ one }) => ({
+  book: one(books, { fields: [bookReviewEvents.bookId], references: [books.id] }),
+  user: one(users, { fields: [bookReviewEvents.userId], references: [users.id] }),
+}));
+
+export const announcementsRelations = relations(announcements, ({ one, many }) => ({
+  createdBy: one(users, { fields: [announcements.createdById], references: [users.id] }),
+  class: one(classes, { fields: [announcements.audienceClassId], references: [classes.id] }),
+  reads: many(announcementReads),
+}));
+
+export const announcementReadsRelations = relations(announcementReads, ({ one }) => ({
+  announcement: one(announcements, { fields: [announcementReads.announcementId], references: [announcements.id] }),
+  user: one(users, { fields: [announcementReads.userId], references: [users.id] }),
+}));
+
+export const classJoinCodesRelations = relations(classJoinCodes, ({ one, many }) => ({
+  teacher: one(users, { fields: [classJoinCodes.teacherId], references: [users.id] }),
+  class: one(classes, { fields: [classJoinCodes.classId], references: [classes.id] }),
+  enrollments: many(studentEnrollments),
+}));
+
+export const studentEnrollmentsRelations = relations(studentEnrollments, ({ one }) => ({
+  teacher: one(users, {
+    fields: [studentEnrollments.teacherId],
+    references: [users.id],
+    relationName: "enrolledTeacher",
+  }),
+  student: one(users, {
+    fields: [studentEnrollments.studentId],
+    references: [users.id],
+    relationName: "enrolledStudent",
+  }),
+  joinCode: one(classJoinCodes, { fields: [studentEnrollments.joinCodeId], references: [classJoinCodes.id] }),
+}));
+
+export const studentResetCodesRelations = relations(studentResetCodes, ({ one }) => ({
+  student: one(users, { fields: [studentResetCodes.studentId], references: [users.id] }),
+  createdBy: one(users, { fields: [studentResetCodes.createdById], references: [users.id] }),
+}));
+
+export const parentInviteCodesRelations = relations(parentInviteCodes, ({ one }) => ({
+  student: one(users, { fields: [parentInviteCodes.studentId], references: [users.id] }),
+  createdBy: one(users, { fields: [parentInviteCodes.createdById], references: [users.id] }),
+}));
+
+export const parentStudentLinksRelations = relations(parentStudentLinks, ({ one }) => ({
+  parent: one(users, {
+    fields: [parentStudentLinks.parentId],
+    references: [users.id],
+    relationName: "linkedParent",
+  }),
+  student: one(users, {
+    fields: [parentStudentLinks.studentId],
+    references: [users.id],
+    relationName: "linkedStudent",
+  }),
+  inviteCode: one(parentInviteCodes, {
+    fields: [parentStudentLinks.inviteCodeId],
+    references: [parentInviteCodes.id],
+  }),
+}));
+
 export const quizAttemptsRelations = relations(quizAttempts, ({ one }) => ({
   user: one(users, { fields: [quizAttempts.userId], references: [users.id] }),
   book: one(books, { fields: [quizAttempts.bookId], references: [books.id] }),
@@ -471,7 +1167,21 @@ export const insertUserSchema = createInsertSchema(users, {
   avatarPublicId: (s) => s.optional(),
   bio: (s) => s.optional(),
   passwordChangedAt: (s) => s.optional(),
-}).omit({ id: true, createdAt: true });
+}).omit({
+  id: true,
+  createdAt: true,
+  // server-managed: never accepted from a request body
+  twoFactorEnabled: true,
+  twoFactorSecret: true,
+  twoFactorRecoveryCodes: true,
+  twoFactorLastStep: true,
+  classLoginKind: true,
+  classLoginSecret: true,
+  classLoginAttempts: true,
+  classLoginLockedUntil: true,
+  deletedAt: true,
+  purgeAfter: true,
+});
 
 export const insertBookSchema = createInsertSchema(books, {
   title: (s) => s.min(2, "Title must be at least 2 characters"),
@@ -481,11 +1191,25 @@ export const insertBookSchema = createInsertSchema(books, {
   coverImage: (s) => s.url("Cover image must be a valid URL").optional(),
   coverPublicId: (s) => s.optional(),
   musicUrl: (s) => s.url("Music URL must be a valid URL").optional(),
-}).omit({ id: true, createdAt: true, rating: true, ratingCount: true });
+}).omit({
+  id: true,
+  createdAt: true,
+  rating: true,
+  ratingCount: true,
+  // publishing is server-managed (server/utils/bookPublishing.ts)
+  status: true,
+  publishAt: true,
+  publishedAt: true,
+  submittedAt: true,
+  // trash is server-managed (server/utils/bookTrash.ts)
+  deletedAt: true,
+  deletedById: true,
+  purgeAfter: true,
+});
 
 export const insertProgressSchema = createInsertSchema(progress, {
   percentComplete: (s) => s.min(0).max(100),
-}).omit({ id: true, createdAt: true });
+}).omit({ id: true, createdAt: true, completedAt: true }); // completedAt is server-managed
 
 export const insertStoryCheckpointSchema = createInsertSchema(storyCheckpoints, {
   pageId: (s) => s.optional(),
@@ -509,11 +1233,11 @@ export const insertPageSchema = createInsertSchema(pages, {
   imagePublicId: (s) => s.optional(),
   audioUrl: (s) => s.url("Audio URL must be a valid URL").optional(),
   audioPublicId: (s) => s.optional(),
-}).omit({ id: true, createdAt: true });
+}).omit({ id: true, createdAt: true, deletedAt: true, deletedById: true, purgeAfter: true });
 
 export const insertQuestionSchema = createInsertSchema(questions, {
   questionText: (s) => s.min(5, "Question must be at least 5 characters"),
-}).omit({ id: true, createdAt: true });
+}).omit({ id: true, createdAt: true, deletedAt: true, deletedById: true, purgeAfter: true });
 
 export const insertQuizAttemptSchema = createInsertSchema(quizAttempts, {
   scoreCorrect: (s) => s.min(0),
@@ -541,14 +1265,24 @@ export const updateSystemSettingsSchema = z.object({
   autoApproveStudents: z.boolean().optional(),
   sessionTimeoutMinutes: z.number().min(15).max(480).optional(),
   maxLoginAttempts: z.number().min(3).max(10).optional(),
-  requireStrongPasswords: z.boolean().optional(),
+  passwordMinLength: z.number().int().min(PASSWORD_MIN_LENGTH_RANGE.min).max(PASSWORD_MIN_LENGTH_RANGE.max).optional(),
+  passwordRequireUpper: z.boolean().optional(),
+  passwordRequireLower: z.boolean().optional(),
+  passwordRequireNumber: z.boolean().optional(),
+  passwordRequireSymbol: z.boolean().optional(),
+  passwordHistoryCount: z.number().int().min(0).max(PASSWORD_HISTORY_MAX).optional(),
+  passwordMaxAgeDays: z.number().int().min(0).max(PASSWORD_MAX_AGE_DAYS_MAX).optional(),
+  passwordBlocklist: z.string().max(20000).nullable().optional(),
+  accountDeletionGraceDays: z.number().int().min(1).max(365).optional(),
+  trashRetentionDays: z.number().int().min(1).max(365).optional(),
+  requireAdminTwoFactor: z.boolean().optional(),
 });
 
 export const insertTeachingSettingsSchema = createInsertSchema(teachingSettings, {
   preferredGrades: z.array(z.string()).min(1, "At least one grade must be selected"),
   subjects: z.array(z.string()).min(1, "At least one subject must be selected"),
   maxClassSize: z.number().min(10).max(50),
-}).omit({ id: true, createdAt: true, updatedAt: true });
+}).omit({ id: true, createdAt: true, updatedAt: true, classSignInCode: true });
 
 export const updateTeachingSettingsSchema = insertTeachingSettingsSchema
   .partial()
@@ -587,7 +1321,8 @@ export const insertEarnedBadgeSchema = createInsertSchema(earnedBadges, {
    AUTH / MISC SCHEMAS
 ========================= */
 export const loginSchema = z.object({
-  email: z.string().email("Please provide a valid email"),
+  // email, or username for accounts without a real email (bulk-imported students)
+  email: z.string().trim().min(1, "Email or username is required"),
   password: z.string().min(1, "Password is required"),
 });
 
@@ -641,7 +1376,24 @@ export const resetPasswordSchema = z
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export type UserSession = typeof userSessions.$inferSelect;
+export type AuthEvent = typeof authEvents.$inferSelect;
+export type PasswordHistoryEntry = typeof passwordHistory.$inferSelect;
+export type StudentResetCode = typeof studentResetCodes.$inferSelect;
+export type ImpersonationAction = typeof impersonationActions.$inferSelect;
+export type Class = typeof classes.$inferSelect;
+export type ClassTeacher = typeof classTeachers.$inferSelect;
+export type ClassStudent = typeof classStudents.$inferSelect;
+export type ClassJoinCode = typeof classJoinCodes.$inferSelect;
+export type Assignment = typeof assignments.$inferSelect;
+export type Announcement = typeof announcements.$inferSelect;
+export type StudentEnrollment = typeof studentEnrollments.$inferSelect;
+export type ParentInviteCode = typeof parentInviteCodes.$inferSelect;
+export type ParentStudentLink = typeof parentStudentLinks.$inferSelect;
+
 export type Book = typeof books.$inferSelect;
+export type BookCollaborator = typeof bookCollaborators.$inferSelect;
+export type BookReviewEvent = typeof bookReviewEvents.$inferSelect;
 export type InsertBook = z.infer<typeof insertBookSchema>;
 
 export type Progress = typeof progress.$inferSelect;